@@ -13,6 +13,9 @@ const Landing = lazy(() => import("@/pages/landing"));
 const InvitationAccept = lazy(() => import("@/pages/invitation-accept"));
 const AdminUsers = lazy(() => import("@/pages/admin-users"));
 const AdminChatGPT = lazy(() => import("@/pages/admin-chatgpt"));
+const AdminAuditLog = lazy(() => import("@/pages/admin-audit-log"));
+const AdminRequests = lazy(() => import("@/pages/admin-requests"));
+const MeinDeputat = lazy(() => import("@/pages/mein-deputat"));
 const Dashboard = lazy(() => import("@/pages/dashboard"));
 const CSVImport = lazy(() => import("@/pages/csv-import"));
 const Planstellberechnung = lazy(() => import("@/pages/planstellberechnung"));
@@ -74,12 +77,15 @@ function Router() {
           <Route path="/lehrer-faecher-zuordnung/:classId" component={KlassenMatrix} />
           <Route path="/pdf-import" component={PdfImport} />
           <Route path="/chatgpt-import" component={ChatGPTImportPage} />
+          <Route path="/mein-deputat" component={MeinDeputat} />
           
           {/* Admin-only routes */}
           {isAdmin && (
             <>
               <Route path="/admin/users" component={AdminUsers} />
               <Route path="/admin/chatgpt" component={AdminChatGPT} />
+              <Route path="/admin/audit-log" component={AdminAuditLog} />
+              <Route path="/admin/requests" component={AdminRequests} />
             </>
           )}
           
@@ -0,0 +1,201 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Upload, UsersRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSchool } from "@/hooks/useSchool";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SCHOOL_ROLES, INVITATION_VALIDITY_DAYS, MAX_INVITATION_VALIDITY_DAYS, type SchoolRole } from "@shared/schema";
+import { SCHOOL_ROLE_LABELS } from "@shared/permissions";
+import { parseInvitationList, INVITATION_STATUS_LABELS, type BulkInvitationResult, type BulkInvitationOutcome } from "@shared/invitations";
+
+// Fachkonferenzleitungen need their subjects and are invited one by one
+const BULK_ROLES = SCHOOL_ROLES.filter(role => role !== "fachkonferenzleitung");
+
+const OUTCOME_LABELS: Record<BulkInvitationOutcome, string> = {
+  created: "Eingeladen",
+  renewed: "Erneuert",
+  skipped: "Übersprungen",
+  failed: "Fehler",
+};
+
+/**
+ * Invites many people into the selected school from a pasted address list or a CSV file.
+ */
+export function BulkInvitationCard() {
+  const { toast } = useToast();
+  const { selectedSchool } = useSchool();
+  const [text, setText] = useState("");
+  const [role, setRole] = useState<SchoolRole>("kollegium");
+  const [expiresInDays, setExpiresInDays] = useState(String(INVITATION_VALIDITY_DAYS));
+  const [sendEmail, setSendEmail] = useState(true);
+  const [results, setResults] = useState<BulkInvitationResult[]>([]);
+
+  const parsed = useMemo(() => parseInvitationList(text), [text]);
+
+  const bulkInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/invitations/bulk", {
+        entries: parsed.entries,
+        role,
+        expiresInDays: Number(expiresInDays),
+        sendEmail,
+      });
+      return response.json() as Promise<{ results: BulkInvitationResult[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+      setResults(data.results);
+      const invited = data.results.filter(result => result.outcome === "created" || result.outcome === "renewed").length;
+      setText("");
+      toast({
+        title: "Einladungen erstellt",
+        description: `${invited} von ${data.results.length} Adressen wurden eingeladen.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler beim Einladen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    e.target.value = "";
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsed.entries.length === 0) {
+      toast({ title: "Keine Adressen", description: "Bitte fügen Sie E-Mail-Adressen ein.", variant: "destructive" });
+      return;
+    }
+    bulkInviteMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UsersRound className="h-5 w-5" />
+          Mehrere Benutzer einladen
+        </CardTitle>
+        <CardDescription>
+          Eine E-Mail-Adresse pro Zeile oder eine CSV-Datei. Eine Spalte mit der Rolle (z. B. „stundenplaner“)
+          überschreibt die ausgewählte Rolle für diese Zeile.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={6}
+            placeholder={"a.mueller@schule.de\nb.schmidt@schule.de; stundenplaner"}
+            data-testid="textarea-bulk-invitations"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Rolle ({selectedSchool?.shortName ?? "Schule"})</Label>
+              <Select value={role} onValueChange={(value: SchoolRole) => setRole(value)}>
+                <SelectTrigger data-testid="select-bulk-invitation-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_ROLES.map(schoolRole => (
+                    <SelectItem key={schoolRole} value={schoolRole}>{SCHOOL_ROLE_LABELS[schoolRole]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-expires-in-days">Gültigkeit (Tage)</Label>
+              <Input
+                id="bulk-expires-in-days"
+                type="number"
+                min={1}
+                max={MAX_INVITATION_VALIDITY_DAYS}
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+                data-testid="input-bulk-expires-in-days"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm h-10">
+              <Checkbox
+                checked={sendEmail}
+                onCheckedChange={(checked) => setSendEmail(checked === true)}
+                data-testid="checkbox-bulk-send-email"
+              />
+              Einladungen per E-Mail senden
+            </label>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="mr-2 h-4 w-4" />
+                  CSV
+                  <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleFile} data-testid="input-bulk-invitation-file" />
+                </label>
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={bulkInviteMutation.isPending || parsed.entries.length === 0}
+                data-testid="button-send-bulk-invitations"
+              >
+                {bulkInviteMutation.isPending ? "Wird eingeladen..." : `${parsed.entries.length} einladen`}
+              </Button>
+            </div>
+          </div>
+          {(parsed.invalid.length > 0 || parsed.duplicates.length > 0) && (
+            <div className="text-sm text-muted-foreground space-y-1" data-testid="bulk-invitation-warnings">
+              {parsed.invalid.length > 0 && (
+                <p className="text-destructive">Ungültig und ignoriert: {parsed.invalid.join(", ")}</p>
+              )}
+              {parsed.duplicates.length > 0 && (
+                <p>Doppelt: {Array.from(new Set(parsed.duplicates)).join(", ")}</p>
+              )}
+            </div>
+          )}
+        </form>
+
+        {results.length > 0 && (
+          <Table data-testid="table-bulk-invitation-results">
+            <TableHeader>
+              <TableRow>
+                <TableHead>E-Mail</TableHead>
+                <TableHead>Ergebnis</TableHead>
+                <TableHead>Hinweis</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(result => (
+                <TableRow key={result.email}>
+                  <TableCell className="font-medium">{result.email}</TableCell>
+                  <TableCell>
+                    <Badge variant={result.outcome === "failed" ? "destructive" : result.outcome === "skipped" ? "secondary" : "default"}>
+                      {OUTCOME_LABELS[result.outcome]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {result.error
+                      ?? (result.status ? `Einladung bereits ${INVITATION_STATUS_LABELS[result.status].toLowerCase()}` : null)
+                      ?? (result.emailError ? `E-Mail fehlgeschlagen: ${result.emailError}` : result.emailSent ? "E-Mail gesendet" : "–")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -39,18 +39,48 @@ interface ParsedScheduleData {
   }>;
 }
 
+interface ScheduleChunkReport {
+  index: number;
+  label: string;
+  characters: number;
+  status: "success" | "failed";
+  error?: string;
+  teachers: number;
+  classes: number;
+  subjects: number;
+  assignments: number;
+}
+
+interface ScheduleValidationIssue {
+  section: "teachers" | "classes" | "subjects" | "assignments";
+  index: number;
+  record: string;
+  severity: "error" | "warning" | "repaired";
+  message: string;
+}
+
 interface ImportResult {
   teachers: number;
   classes: number;
   subjects: number;
   assignments: number;
   errors: string[];
+  rejected?: ScheduleValidationIssue[];
 }
 
+const ISSUE_SECTION_LABELS: Record<ScheduleValidationIssue["section"], string> = {
+  teachers: "Lehrer",
+  classes: "Klasse",
+  subjects: "Fach",
+  assignments: "Zuweisung"
+};
+
 export function ChatGPTImport() {
   const [scheduleText, setScheduleText] = useState("");
   const [parsedData, setParsedData] = useState<ParsedScheduleData | null>(null);
   const [editedData, setEditedData] = useState<ParsedScheduleData | null>(null);
+  const [chunkReports, setChunkReports] = useState<ScheduleChunkReport[]>([]);
+  const [validationIssues, setValidationIssues] = useState<ScheduleValidationIssue[]>([]);
   const [previewDialog, setPreviewDialog] = useState(false);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const { toast } = useToast();
@@ -75,6 +105,11 @@ export function ChatGPTImport() {
     staleTime: 5 * 60 * 1000
   });
 
+  const { data: llmProvider } = useQuery<{ type: "openai" | "local" | "rules"; label: string }>({
+    queryKey: ['/api/chatgpt/provider'],
+    staleTime: Infinity
+  });
+
   // Type definitions for API data
   interface Teacher {
     id: string;
@@ -102,7 +137,7 @@ export function ChatGPTImport() {
       const response = await apiRequest("POST", "/api/chatgpt/parse-schedule", { scheduleText: text });
       return response.json();
     },
-    onSuccess: (data: ParsedScheduleData) => {
+    onSuccess: (data: ParsedScheduleData & { chunks?: ScheduleChunkReport[]; issues?: ScheduleValidationIssue[] }) => {
       // Helper function to normalize class names (e.g., "5a" -> "05A")
       const normalizeClassName = (className: string): string => {
         if (!className || typeof className !== 'string') return className;
@@ -142,12 +177,19 @@ export function ChatGPTImport() {
         }))
       };
       
+      const chunks = data.chunks ?? [];
+      const failedChunks = chunks.filter(chunk => chunk.status === "failed");
+
       setParsedData(cleanedData);
       setEditedData(JSON.parse(JSON.stringify(cleanedData))); // Deep copy
+      setChunkReports(chunks);
+      setValidationIssues(data.issues ?? []);
       setPreviewDialog(true);
       toast({
-        title: "Stundenplan erfolgreich analysiert",
-        description: `${cleanedData.teachers.length} Lehrer, ${cleanedData.classes.length} Klassen, ${cleanedData.subjects.length} Fächer und ${cleanedData.assignments.length} Zuweisungen gefunden.`
+        title: failedChunks.length > 0 ? "Stundenplan teilweise analysiert" : "Stundenplan erfolgreich analysiert",
+        description: `${cleanedData.teachers.length} Lehrer, ${cleanedData.classes.length} Klassen, ${cleanedData.subjects.length} Fächer und ${cleanedData.assignments.length} Zuweisungen gefunden.` +
+          (failedChunks.length > 0 ? ` ${failedChunks.length} von ${chunks.length} Abschnitten fehlgeschlagen.` : ""),
+        variant: failedChunks.length > 0 ? "destructive" : "default"
       });
     },
     onError: (error: Error) => {
@@ -236,7 +278,7 @@ export function ChatGPTImport() {
       queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       
-      if (result.errors.length === 0) {
+      if (result.errors.length === 0 && !result.rejected?.length) {
         toast({
           title: "Import erfolgreich!",
           description: `${result.teachers} Lehrer, ${result.classes} Klassen, ${result.subjects} Fächer und ${result.assignments} Zuweisungen importiert.`
@@ -244,7 +286,7 @@ export function ChatGPTImport() {
       } else {
         toast({
           title: "Import mit Fehlern abgeschlossen",
-          description: `${result.errors.length} Fehler aufgetreten. Siehe Details unten.`,
+          description: `${result.errors.length + (result.rejected?.length ?? 0)} Fehler aufgetreten. Siehe Details unten.`,
           variant: "destructive"
         });
       }
@@ -274,6 +316,8 @@ export function ChatGPTImport() {
     setScheduleText("");
     setParsedData(null);
     setEditedData(null);
+    setChunkReports([]);
+    setValidationIssues([]);
     setImportResult(null);
     setPreviewDialog(false);
   };
@@ -287,7 +331,8 @@ export function ChatGPTImport() {
             ChatGPT Stundenplan-Import
           </CardTitle>
           <CardDescription>
-            Fügen Sie hier den Stundenplan-Text ein. ChatGPT wird automatisch Lehrer, Klassen, Fächer und Zuweisungen erkennen und importieren.
+            Fügen Sie hier den Stundenplan-Text ein. {llmProvider?.label ?? "ChatGPT"} erkennt automatisch Lehrer, Klassen, Fächer und Zuweisungen für den Import.
+            {llmProvider?.type === "rules" && " Ohne Sprachmodell werden nur Zeilen wie im Beispiel erkannt."}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -323,7 +368,7 @@ MÜL (Müller) - Deutsch, Englisch
               ) : (
                 <>
                   <MessageSquare className="h-4 w-4 mr-2" />
-                  Mit ChatGPT analysieren
+                  {llmProvider && llmProvider.type !== "openai" ? "Stundenplan analysieren" : "Mit ChatGPT analysieren"}
                 </>
               )}
             </Button>
@@ -372,6 +417,22 @@ MÜL (Müller) - Deutsch, Englisch
               </div>
             </div>
             
+            {importResult.rejected && importResult.rejected.length > 0 && (
+              <Alert variant="destructive" data-testid="alert-rejected-records">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Abgelehnte Datensätze ({importResult.rejected.length})</AlertTitle>
+                <AlertDescription>
+                  <ScrollArea className="h-20 mt-2">
+                    <ul className="text-sm space-y-1">
+                      {importResult.rejected.map((issue, index) => (
+                        <li key={index}>• {ISSUE_SECTION_LABELS[issue.section]} {issue.record}: {issue.message}</li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {importResult.errors.length > 0 && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
@@ -400,13 +461,73 @@ MÜL (Müller) - Deutsch, Englisch
               Erkannte Daten bearbeiten
             </DialogTitle>
             <DialogDescription>
-              Überprüfen und bearbeiten Sie die von ChatGPT erkannten Daten vor dem Import.
+              Überprüfen und bearbeiten Sie die von {llmProvider?.label ?? "ChatGPT"} erkannten Daten vor dem Import.
             </DialogDescription>
           </DialogHeader>
           
           <ScrollArea className="max-h-[60vh]">
             {editedData && (
               <div className="space-y-6">
+                {/* Validation */}
+                {validationIssues.length > 0 && (
+                  <div data-testid="chatgpt-validation-issues">
+                    <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                      <AlertCircle className="h-5 w-5" />
+                      Prüfung ({validationIssues.filter(issue => issue.severity === "error").length} Fehler)
+                    </h3>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Datensätze mit Fehlern werden beim Import abgelehnt. Korrigieren Sie sie unten oder importieren Sie ohne sie.
+                    </p>
+                    <ul className="space-y-1 text-sm">
+                      {validationIssues.map((issue, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <Badge
+                            variant={issue.severity === "error" ? "destructive" : issue.severity === "warning" ? "secondary" : "outline"}
+                            className="shrink-0"
+                          >
+                            {issue.severity === "error" ? "Fehler" : issue.severity === "warning" ? "Hinweis" : "Korrigiert"}
+                          </Badge>
+                          <span>
+                            <span className="font-medium">{ISSUE_SECTION_LABELS[issue.section]} {issue.record}:</span> {issue.message}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <Separator className="mt-6" />
+                  </div>
+                )}
+
+                {/* Chunks */}
+                {chunkReports.length > 1 && (
+                  <div data-testid="chatgpt-chunk-reports">
+                    <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                      <MessageSquare className="h-5 w-5" />
+                      Abschnitte ({chunkReports.filter(chunk => chunk.status === "success").length}/{chunkReports.length} erfolgreich)
+                    </h3>
+                    <div className="space-y-2">
+                      {chunkReports.map(chunk => (
+                        <div key={chunk.index} className="flex items-start justify-between gap-2 p-2 border rounded-lg text-sm" data-testid={`chunk-report-${chunk.index}`}>
+                          <div className="flex items-center gap-2">
+                            {chunk.status === "success"
+                              ? <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />
+                              : <AlertCircle className="h-4 w-4 text-red-600 shrink-0" />}
+                            <span className="font-medium">{chunk.label}</span>
+                            <span className="text-muted-foreground">{chunk.characters} Zeichen</span>
+                          </div>
+                          {chunk.status === "success" ? (
+                            <span className="text-muted-foreground">
+                              {chunk.teachers} Lehrer · {chunk.classes} Klassen · {chunk.subjects} Fächer · {chunk.assignments} Zuweisungen
+                            </span>
+                          ) : (
+                            <Badge variant="destructive" className="max-w-[60%] whitespace-normal text-left">{chunk.error}</Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <Separator className="mt-6" />
+                  </div>
+                )}
+
                 {/* Teachers */}
                 <div>
                   <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ListChecks, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AssignmentChange } from "@shared/assignment-plan-diff";
+import type { MatrixChangeSetView } from "@shared/matrix-change-set";
+import type { Class, Subject, Teacher } from "@shared/schema";
+
+interface MatrixChangeSetReviewDialogProps {
+  changeSet: MatrixChangeSetView | undefined;
+  teachers: Teacher[];
+  classes: Class[];
+  subjects: Subject[];
+  onCommit: () => void;
+  isCommitting: boolean;
+}
+
+const ACTION_LABELS: Record<AssignmentChange["action"], string> = {
+  add: "Neu",
+  change: "Geändert",
+  remove: "Entfernt",
+};
+
+function getActionVariant(action: AssignmentChange["action"]): "default" | "secondary" | "destructive" {
+  if (action === "remove") return "destructive";
+  return action === "add" ? "default" : "secondary";
+}
+
+/**
+ * Lists the assignment changes the open matrix change set would write and commits them.
+ */
+export function MatrixChangeSetReviewDialog({ changeSet, teachers, classes, subjects, onCommit, isCommitting }: MatrixChangeSetReviewDialogProps) {
+  const [open, setOpen] = useState(false);
+  const cellCount = changeSet?.cells.length ?? 0;
+
+  const { data: changes = [], isLoading } = useQuery<AssignmentChange[]>({
+    queryKey: ["/api/matrix-change-set/review", changeSet?.position, changeSet?.edits.length],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/matrix-change-set/review");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const teacherName = (teacherId: string | null | undefined) =>
+    teachers.find(t => t.id === teacherId)?.shortName ?? "–";
+  const describe = (teacherId: string | null | undefined, hours: number | null | undefined) =>
+    teacherId ? `${teacherName(teacherId)} (${hours ?? 0}h)` : "–";
+
+  const handleCommit = () => {
+    onCommit();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={cellCount === 0} data-testid="button-review-changes">
+          <ListChecks className="mr-2 h-4 w-4" />
+          Änderungen prüfen ({cellCount})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Änderungen prüfen</DialogTitle>
+          <DialogDescription>
+            Diese Zuweisungen werden beim Übernehmen gemeinsam gespeichert.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8">Lade Änderungen...</div>
+        ) : changes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Die offenen Änderungen entsprechen bereits dem gespeicherten Stand.
+          </div>
+        ) : (
+          <Table data-testid="table-matrix-changes">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Klasse</TableHead>
+                <TableHead>Fach</TableHead>
+                <TableHead>HJ</TableHead>
+                <TableHead>Aktion</TableHead>
+                <TableHead>Vorher</TableHead>
+                <TableHead>Nachher</TableHead>
+                <TableHead>Grund</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map(change => (
+                <TableRow key={`${change.classId}-${change.subjectId}-${change.semester}-${change.assignmentId ?? "new"}`}>
+                  <TableCell className="font-medium">{classes.find(c => c.id === change.classId)?.name ?? "?"}</TableCell>
+                  <TableCell>{subjects.find(s => s.id === change.subjectId)?.shortName ?? "?"}</TableCell>
+                  <TableCell>{change.semester}.</TableCell>
+                  <TableCell>
+                    <Badge variant={getActionVariant(change.action)}>{ACTION_LABELS[change.action]}</Badge>
+                  </TableCell>
+                  <TableCell>{change.action === "add" ? "–" : describe(change.previousTeacherId, change.previousHours)}</TableCell>
+                  <TableCell>{change.action === "remove" ? "–" : describe(change.teacherId, change.hoursPerWeek)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{change.reasoning.join(", ")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Schließen
+          </Button>
+          <Button onClick={handleCommit} disabled={cellCount === 0 || isCommitting} data-testid="button-commit-changes">
+            <Save className="mr-2 h-4 w-4" />
+            Übernehmen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
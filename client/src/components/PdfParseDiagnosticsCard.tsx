@@ -0,0 +1,143 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, FileSearch } from 'lucide-react';
+
+type SkippedLineReason = 'no_match' | 'no_semester' | 'invalid_hours' | 'outside_class';
+
+interface SkippedLine {
+  page: number;
+  text: string;
+  reason: SkippedLineReason;
+}
+
+interface PdfClassDiagnostics {
+  className: string;
+  pages: number[];
+  layout: 'text' | 'table';
+  lessonCount: number;
+  skippedLines: SkippedLine[];
+  warnings: string[];
+}
+
+interface PdfPageDiagnostics {
+  page: number;
+  textItems: number;
+  lines: number;
+  classNames: string[];
+  lessonCount: number;
+  skippedLines: SkippedLine[];
+  warnings: string[];
+}
+
+export interface ImportDiagnostics {
+  pages: PdfPageDiagnostics[];
+  classes: PdfClassDiagnostics[];
+  errors: string[];
+  warnings: string[];
+}
+
+const REASON_LABELS: Record<SkippedLineReason, string> = {
+  no_match: 'Nicht erkannt',
+  no_semester: 'Kein Halbjahr',
+  invalid_hours: 'Ungültige Stundenzahl',
+  outside_class: 'Außerhalb eines Klassenplans',
+};
+
+function SkippedLineList({ lines }: { lines: SkippedLine[] }) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {lines.map((line, index) => (
+        <li key={index} className="flex items-start gap-2">
+          <Badge variant="outline" className="shrink-0">S. {line.page}</Badge>
+          <Badge variant="secondary" className="shrink-0">{REASON_LABELS[line.reason]}</Badge>
+          <code className="text-xs bg-muted rounded px-1 py-0.5 break-all">{line.text}</code>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Shows what the PDF parser found per page and per class, including the raw lines
+ * it could not turn into lessons.
+ */
+export function PdfParseDiagnosticsCard({ diagnostics }: { diagnostics: ImportDiagnostics }) {
+  const outsideLines = diagnostics.pages.flatMap(page =>
+    page.skippedLines.filter(line => line.reason === 'outside_class'));
+  const problemClasses = diagnostics.classes.filter(c => c.skippedLines.length > 0 || c.warnings.length > 0);
+
+  return (
+    <Card data-testid="card-pdf-diagnostics">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSearch className="h-5 w-5" />
+          Diagnose
+        </CardTitle>
+        <CardDescription>
+          Erkannte Klassenpläne je Seite und Zeilen, die nicht als Unterrichtsstunde gelesen werden konnten.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {[...diagnostics.errors, ...diagnostics.warnings].map((message, index) => (
+          <Alert key={index} variant={index < diagnostics.errors.length ? 'destructive' : 'default'}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        ))}
+
+        <Table data-testid="table-pdf-pages">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Seite</TableHead>
+              <TableHead>Klassen</TableHead>
+              <TableHead>Zeilen</TableHead>
+              <TableHead>Stunden</TableHead>
+              <TableHead>Übersprungen</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diagnostics.pages.map(page => (
+              <TableRow key={page.page}>
+                <TableCell>{page.page}</TableCell>
+                <TableCell>{page.classNames.length > 0 ? page.classNames.join(', ') : '–'}</TableCell>
+                <TableCell>{page.lines}</TableCell>
+                <TableCell>{page.lessonCount}</TableCell>
+                <TableCell>
+                  <Badge variant={page.skippedLines.length > 0 ? 'secondary' : 'outline'}>{page.skippedLines.length}</Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {problemClasses.map(classDiagnostics => (
+          <div key={`${classDiagnostics.className}-${classDiagnostics.pages[0]}`} className="space-y-2" data-testid={`diagnostics-class-${classDiagnostics.className}`}>
+            <div className="flex items-center gap-2">
+              <h3 className="font-medium">Klasse {classDiagnostics.className}</h3>
+              <span className="text-sm text-muted-foreground">
+                Seite {classDiagnostics.pages.join(', ')} · {classDiagnostics.lessonCount} Stunden · {classDiagnostics.layout === 'table' ? 'Tabelle' : 'Fließtext'}
+              </span>
+            </div>
+            {classDiagnostics.warnings.map((warning, index) => (
+              <p key={index} className="text-sm text-orange-600">{warning}</p>
+            ))}
+            <SkippedLineList lines={classDiagnostics.skippedLines} />
+          </div>
+        ))}
+
+        {outsideLines.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-muted-foreground">
+              {outsideLines.length} Zeilen außerhalb eines Klassenplans
+            </summary>
+            <div className="mt-2">
+              <SkippedLineList lines={outsideLines} />
+            </div>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Copy, FolderOpen, GitCompare, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PlanstellenInput, PlanstellenScenario, SchoolYear } from "@shared/schema";
+import { COMPARISON_ROWS, getScenarioInput, type ScenarioComparison } from "@shared/planstellen-scenarios";
+
+interface PlanstellenScenarioPanelProps {
+  input: PlanstellenInput;
+  onLoad: (input: PlanstellenInput) => void;
+}
+
+const MAX_COMPARED_SCENARIOS = 3;
+
+function formatDelta(value: number): string {
+  if (value === 0) return "±0,00";
+  return `${value > 0 ? "+" : ""}${value.toFixed(2).replace(".", ",")}`;
+}
+
+/**
+ * Save, load, clone and delete named Planstellen scenarios of a school year
+ * and compare two or three of them side by side.
+ */
+export function PlanstellenScenarioPanel({ input, onLoad }: PlanstellenScenarioPanelProps) {
+  const [schoolYearId, setSchoolYearId] = useState<string>("");
+  const [activeScenarioId, setActiveScenarioId] = useState<string>("");
+  const [scenarioName, setScenarioName] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schoolYears = [] } = useQuery<SchoolYear[]>({
+    queryKey: ["/api/school-years"],
+  });
+  const { data: currentSchoolYear } = useQuery<SchoolYear>({
+    queryKey: ["/api/school-years/current"],
+  });
+
+  useEffect(() => {
+    if (!schoolYearId && currentSchoolYear) {
+      setSchoolYearId(currentSchoolYear.id);
+    }
+  }, [currentSchoolYear, schoolYearId]);
+
+  const { data: scenarios = [] } = useQuery<PlanstellenScenario[]>({
+    queryKey: ["/api/planstellen-scenarios", schoolYearId],
+    queryFn: () => fetch(`/api/planstellen-scenarios?schoolYearId=${schoolYearId}`, { credentials: "include" }).then(res => res.json()),
+    enabled: !!schoolYearId,
+  });
+
+  const activeScenario = scenarios.find(s => s.id === activeScenarioId);
+
+  const invalidateScenarios = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/planstellen-scenarios"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Fehler", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, name }: { id?: string; name: string }) => {
+      const body = { name, schoolYearId, input };
+      const response = id
+        ? await apiRequest("PUT", `/api/planstellen-scenarios/${id}`, body)
+        : await apiRequest("POST", "/api/planstellen-scenarios", body);
+      return response.json() as Promise<PlanstellenScenario>;
+    },
+    onSuccess: (scenario) => {
+      invalidateScenarios();
+      setActiveScenarioId(scenario.id);
+      setScenarioName(scenario.name);
+      toast({ title: "Erfolg", description: `Szenario "${scenario.name}" wurde gespeichert.` });
+    },
+    onError,
+  });
+
+  const cloneMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/planstellen-scenarios/${id}/clone`, {});
+      return response.json() as Promise<PlanstellenScenario>;
+    },
+    onSuccess: (scenario) => {
+      invalidateScenarios();
+      setActiveScenarioId(scenario.id);
+      setScenarioName(scenario.name);
+      toast({ title: "Erfolg", description: `Szenario "${scenario.name}" wurde angelegt.` });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/planstellen-scenarios/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      invalidateScenarios();
+      setCompareIds(prev => prev.filter(compareId => compareId !== id));
+      setActiveScenarioId("");
+      setScenarioName("");
+      toast({ title: "Erfolg", description: "Szenario wurde gelöscht." });
+    },
+    onError,
+  });
+
+  const compareMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const response = await apiRequest("POST", "/api/planstellen-scenarios/compare", { ids });
+      return response.json() as Promise<ScenarioComparison>;
+    },
+    onSuccess: (result) => setComparison(result),
+    onError,
+  });
+
+  const handleLoad = (id: string) => {
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) return;
+    setActiveScenarioId(id);
+    setScenarioName(scenario.name);
+    onLoad(getScenarioInput(scenario));
+  };
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    setCompareIds(prev => checked
+      ? [...prev, id].slice(-MAX_COMPARED_SCENARIOS)
+      : prev.filter(compareId => compareId !== id));
+  };
+
+  const trimmedName = scenarioName.trim();
+  const isBusy = saveMutation.isPending || cloneMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Card data-testid="planstellen-scenarios">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FolderOpen className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          Szenarien
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Schuljahr</Label>
+            <Select
+              value={schoolYearId}
+              onValueChange={(value) => {
+                setSchoolYearId(value);
+                setActiveScenarioId("");
+                setCompareIds([]);
+              }}
+            >
+              <SelectTrigger data-testid="select-scenario-school-year">
+                <SelectValue placeholder="Schuljahr wählen..." />
+              </SelectTrigger>
+              <SelectContent>
+                {schoolYears.map(year => (
+                  <SelectItem key={year.id} value={year.id}>{year.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Szenario laden</Label>
+            <Select value={activeScenarioId} onValueChange={handleLoad} disabled={scenarios.length === 0}>
+              <SelectTrigger data-testid="select-scenario">
+                <SelectValue placeholder={scenarios.length === 0 ? "Keine Szenarien gespeichert" : "Szenario wählen..."} />
+              </SelectTrigger>
+              <SelectContent>
+                {scenarios.map(scenario => (
+                  <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input
+              value={scenarioName}
+              onChange={(e) => setScenarioName(e.target.value)}
+              placeholder="z.B. Prognose 730 Schüler"
+              data-testid="input-scenario-name"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate({ id: activeScenario?.id, name: trimmedName })}
+            disabled={!schoolYearId || !trimmedName || isBusy}
+            data-testid="button-save-scenario"
+          >
+            <Save className="mr-1 h-4 w-4" />
+            {activeScenario ? "Speichern" : "Als Szenario speichern"}
+          </Button>
+          {activeScenario && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => saveMutation.mutate({ name: trimmedName === activeScenario.name ? `${trimmedName} (neu)` : trimmedName })}
+                disabled={!trimmedName || isBusy}
+                data-testid="button-save-scenario-as"
+              >
+                <Save className="mr-1 h-4 w-4" />
+                Als neues Szenario speichern
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => cloneMutation.mutate(activeScenario.id)}
+                disabled={isBusy}
+                data-testid="button-clone-scenario"
+              >
+                <Copy className="mr-1 h-4 w-4" />
+                Duplizieren
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (confirm(`Szenario "${activeScenario.name}" wirklich löschen?`)) {
+                    deleteMutation.mutate(activeScenario.id);
+                  }
+                }}
+                disabled={isBusy}
+                data-testid="button-delete-scenario"
+              >
+                <Trash2 className="mr-1 h-4 w-4" />
+                Löschen
+              </Button>
+            </>
+          )}
+        </div>
+
+        {scenarios.length >= 2 && (
+          <div className="space-y-2">
+            <Label>Vergleichen (2-{MAX_COMPARED_SCENARIOS} Szenarien, das erste gewählte ist die Basis)</Label>
+            <div className="flex flex-wrap gap-4">
+              {scenarios.map(scenario => (
+                <label key={scenario.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={compareIds.includes(scenario.id)}
+                    onCheckedChange={(checked) => toggleCompare(scenario.id, checked === true)}
+                    data-testid={`checkbox-compare-${scenario.id}`}
+                  />
+                  {scenario.name}
+                </label>
+              ))}
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => compareMutation.mutate(compareIds)}
+              disabled={compareIds.length < 2 || compareMutation.isPending}
+              data-testid="button-compare-scenarios"
+            >
+              <GitCompare className="mr-1 h-4 w-4" />
+              Vergleichen
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!comparison} onOpenChange={(open) => !open && setComparison(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Szenarienvergleich</DialogTitle>
+            <DialogDescription>
+              Abweichungen beziehen sich auf das erste Szenario.
+            </DialogDescription>
+          </DialogHeader>
+          {comparison && (
+            <Table data-testid="table-scenario-comparison">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Position</TableHead>
+                  {comparison.columns.map(column => (
+                    <TableHead key={column.scenarioId} className="text-right">
+                      {column.name}
+                      <div className="text-xs font-normal text-muted-foreground">{column.schoolYear}</div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {COMPARISON_ROWS.map(row => (
+                  <TableRow key={row.key} className={row.highlight ? "font-semibold" : undefined}>
+                    <TableCell>{row.label}</TableCell>
+                    {comparison.columns.map((column, index) => {
+                      const delta = column.deltas[row.key];
+                      return (
+                        <TableCell key={column.scenarioId} className="text-right">
+                          {column.totals[row.key].toFixed(2).replace(".", ",")}
+                          {index > 0 && (
+                            <div className={`text-xs ${delta === 0 ? "text-muted-foreground" : "text-blue-700 dark:text-blue-300"}`}>
+                              {formatDelta(delta)}
+                            </div>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
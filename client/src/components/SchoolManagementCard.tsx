@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { School } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSchool } from "@/hooks/useSchool";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+/**
+ * Lists the schools of the installation and creates new ones (Schulträger admins only).
+ */
+export function SchoolManagementCard() {
+  const { toast } = useToast();
+  const { schools } = useSchool();
+  const [name, setName] = useState("");
+  const [shortName, setShortName] = useState("");
+  const [schoolNumber, setSchoolNumber] = useState("");
+
+  const createSchoolMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/schools", {
+        name,
+        shortName,
+        schoolNumber: schoolNumber.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schools"] });
+      setName("");
+      setShortName("");
+      setSchoolNumber("");
+      toast({ title: "Schule angelegt", description: "Die Schule wurde erfolgreich angelegt." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler beim Anlegen der Schule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createSchoolMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <School className="h-5 w-5" />
+          Schulen
+        </CardTitle>
+        <CardDescription>
+          Alle Schulen dieser Installation. Jede Schule hat eigene Lehrkräfte, Klassen, Fächer und Schuljahre.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Kürzel</TableHead>
+              <TableHead>Schulnummer</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schools.map(school => (
+              <TableRow key={school.id} data-testid={`row-school-${school.id}`}>
+                <TableCell className="font-medium">{school.name}</TableCell>
+                <TableCell>{school.shortName}</TableCell>
+                <TableCell>{school.schoolNumber ?? "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="school-name">Name</Label>
+            <Input id="school-name" value={name} onChange={(e) => setName(e.target.value)} required data-testid="input-school-name" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="school-short-name">Kürzel</Label>
+            <Input id="school-short-name" value={shortName} onChange={(e) => setShortName(e.target.value)} required data-testid="input-school-short-name" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="school-number">Schulnummer</Label>
+            <Input id="school-number" value={schoolNumber} onChange={(e) => setSchoolNumber(e.target.value)} placeholder="optional" data-testid="input-school-number" />
+          </div>
+          <div className="flex items-end">
+            <Button type="submit" disabled={createSchoolMutation.isPending} className="w-full" data-testid="button-create-school">
+              Schule anlegen
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { TEACHER_CONSTRAINT_TYPES, type TeacherConstraint, type InsertTeacherConstraint, type Class, type Subject } from "@shared/schema";
+import { CONSTRAINT_TYPE_LABELS, CONSTRAINT_STRENGTH_LABELS, describeConstraint, type TeacherConstraintType } from "@shared/teacher-constraints";
+
+interface TeacherConstraintsEditorProps {
+  teacherId: string;
+  classes: Class[];
+  subjects: Subject[];
+}
+
+const EMPTY_DRAFT: InsertTeacherConstraint = {
+  teacherId: "",
+  type: "exclude_grade",
+  strength: "soft",
+  weight: 50,
+  grade: null,
+  classId: null,
+  subjectId: null,
+  maxCount: null,
+  note: null,
+};
+
+/**
+ * Structured wishes and rules of a teacher ("keine Klasse 5", "8b in Deutsch behalten"),
+ * read by both optimizers instead of the free-text notes.
+ */
+export function TeacherConstraintsEditor({ teacherId, classes, subjects }: TeacherConstraintsEditorProps) {
+  const [draft, setDraft] = useState<InsertTeacherConstraint>({ ...EMPTY_DRAFT, teacherId });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: allConstraints = [] } = useQuery<TeacherConstraint[]>({
+    queryKey: ["/api/teacher-constraints"],
+  });
+  const constraints = allConstraints.filter(c => c.teacherId === teacherId);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertTeacherConstraint) => {
+      const response = await apiRequest("POST", "/api/teacher-constraints", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teacher-constraints"] });
+      setDraft({ ...EMPTY_DRAFT, teacherId });
+      toast({ title: "Erfolg", description: "Vorgabe wurde hinzugefügt." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/teacher-constraints/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teacher-constraints"] });
+    },
+    onError: () => {
+      toast({ title: "Fehler", description: "Vorgabe konnte nicht gelöscht werden.", variant: "destructive" });
+    },
+  });
+
+  const type = draft.type as TeacherConstraintType;
+  const needsGrade = type === "exclude_grade";
+  const needsClass = type === "exclude_class" || type === "prefer_class_subject";
+  const needsSubject = type !== "exclude_grade" && type !== "exclude_class";
+  const needsMaxCount = type === "max_classes_per_subject";
+  const isComplete = (!needsGrade || draft.grade != null)
+    && (!needsClass || !!draft.classId)
+    && (!needsSubject || !!draft.subjectId)
+    && (!needsMaxCount || draft.maxCount != null);
+
+  const sortedClasses = [...classes].sort((a, b) => a.grade - b.grade || a.name.localeCompare(b.name));
+  const sortedSubjects = [...subjects].sort((a, b) => a.shortName.localeCompare(b.shortName));
+
+  return (
+    <div className="space-y-3" data-testid="teacher-constraints-editor">
+      {constraints.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Keine Wünsche oder Vorgaben hinterlegt.</p>
+      ) : (
+        <ul className="space-y-1">
+          {constraints.map(constraint => (
+            <li key={constraint.id} className="flex items-center justify-between text-sm" data-testid={`constraint-${constraint.id}`}>
+              <div className="flex items-center gap-2">
+                <Badge variant={constraint.strength === "hard" ? "destructive" : "secondary"}>
+                  {CONSTRAINT_STRENGTH_LABELS[constraint.strength as "hard" | "soft"]}
+                  {constraint.strength === "soft" && ` · ${constraint.weight}`}
+                </Badge>
+                <span>{describeConstraint(constraint, { classes, subjects })}</span>
+                {constraint.note && <span className="text-muted-foreground">({constraint.note})</span>}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => deleteMutation.mutate(constraint.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-constraint-${constraint.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Art</Label>
+          <Select
+            value={draft.type}
+            onValueChange={(value) => setDraft(prev => ({ ...prev, type: value as TeacherConstraintType, grade: null, classId: null, subjectId: null, maxCount: null }))}
+          >
+            <SelectTrigger className="h-8 text-xs" data-testid="select-constraint-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEACHER_CONSTRAINT_TYPES.map(value => (
+                <SelectItem key={value} value={value}>{CONSTRAINT_TYPE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Verbindlichkeit</Label>
+          <Select
+            value={draft.strength}
+            onValueChange={(value) => setDraft(prev => ({ ...prev, strength: value as "hard" | "soft" }))}
+          >
+            <SelectTrigger className="h-8 text-xs" data-testid="select-constraint-strength">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="soft">{CONSTRAINT_STRENGTH_LABELS.soft}</SelectItem>
+              <SelectItem value="hard">{CONSTRAINT_STRENGTH_LABELS.hard}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {needsGrade && (
+          <div>
+            <Label className="text-xs">Jahrgang</Label>
+            <Select
+              value={draft.grade?.toString() ?? ""}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, grade: parseInt(value) }))}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-constraint-grade">
+                <SelectValue placeholder="Jahrgang wählen..." />
+              </SelectTrigger>
+              <SelectContent>
+                {[5, 6, 7, 8, 9, 10].map(grade => (
+                  <SelectItem key={grade} value={grade.toString()}>Klasse {grade}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {needsClass && (
+          <div>
+            <Label className="text-xs">Klasse</Label>
+            <Select
+              value={draft.classId ?? ""}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, classId: value }))}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-constraint-class">
+                <SelectValue placeholder="Klasse wählen..." />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedClasses.map(cls => (
+                  <SelectItem key={cls.id} value={cls.id}>{cls.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {needsSubject && (
+          <div>
+            <Label className="text-xs">Fach</Label>
+            <Select
+              value={draft.subjectId ?? ""}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, subjectId: value }))}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-constraint-subject">
+                <SelectValue placeholder="Fach wählen..." />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedSubjects.map(subject => (
+                  <SelectItem key={subject.id} value={subject.id}>{subject.shortName} - {subject.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {needsMaxCount && (
+          <div>
+            <Label className="text-xs">Max. Klassen</Label>
+            <Input
+              type="number"
+              min="0"
+              className="h-8 text-xs"
+              value={draft.maxCount ?? ""}
+              onChange={(e) => setDraft(prev => ({ ...prev, maxCount: e.target.value === "" ? null : parseInt(e.target.value) }))}
+              data-testid="input-constraint-max-count"
+            />
+          </div>
+        )}
+
+        {draft.strength === "soft" && (
+          <div>
+            <Label className="text-xs">Gewichtung (1-100)</Label>
+            <Input
+              type="number"
+              min="1"
+              max="100"
+              className="h-8 text-xs"
+              value={draft.weight ?? 50}
+              onChange={(e) => setDraft(prev => ({ ...prev, weight: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) }))}
+              data-testid="input-constraint-weight"
+            />
+          </div>
+        )}
+
+        <div className="col-span-2">
+          <Label className="text-xs">Notiz</Label>
+          <Input
+            className="h-8 text-xs"
+            value={draft.note ?? ""}
+            onChange={(e) => setDraft(prev => ({ ...prev, note: e.target.value || null }))}
+            placeholder="z.B. Absprache mit der Schulleitung"
+            data-testid="input-constraint-note"
+          />
+        </div>
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => createMutation.mutate(draft)}
+        disabled={!isComplete || createMutation.isPending}
+        data-testid="button-add-constraint"
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Vorgabe hinzufügen
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RefreshCw, Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { withSchoolYear } from "@/lib/school-year";
+import type { TeacherHoursMismatch, TeamTeachingCredit } from "@shared/teacher-workload";
+
+interface ConsistencyResult {
+  checkedTeachers: number;
+  mismatches: TeacherHoursMismatch[];
+}
+
+function formatHours(value: number): string {
+  return value.toFixed(1).replace(".", ",");
+}
+
+/**
+ * Lists teachers whose stored currentHours disagree with their assignments
+ * and writes the computed values back on request.
+ */
+export function TeacherHoursConsistencyDialog() {
+  const [open, setOpen] = useState(false);
+  // "group" uses each team-teaching group's own crediting setting
+  const [teamTeaching, setTeamTeaching] = useState<TeamTeachingCredit | "group">("group");
+  const teamTeachingOverride = teamTeaching === "group" ? undefined : teamTeaching;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<ConsistencyResult>({
+    queryKey: ["/api/teacher-hours/consistency", teamTeaching],
+    queryFn: () => fetch(
+      withSchoolYear(`/api/teacher-hours/consistency${teamTeachingOverride ? `?teamTeaching=${teamTeachingOverride}` : ""}`),
+      { credentials: "include" }
+    ).then(res => res.json()),
+    enabled: open,
+  });
+  const mismatches = data?.mismatches ?? [];
+
+  const reconcileMutation = useMutation({
+    mutationFn: async (teacherIds?: string[]) => {
+      const response = await apiRequest("POST", "/api/teacher-hours/reconcile", { teacherIds, teamTeaching: teamTeachingOverride });
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teacher-hours/consistency"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teachers"] });
+      toast({ title: "Erfolg", description: `${result.updated} Lehrkräfte wurden abgeglichen.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-hours-consistency">
+          <Scale className="mr-2 h-4 w-4" />
+          Stundenabgleich
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stundenabgleich</DialogTitle>
+          <DialogDescription>
+            Gespeicherte Ist-Stunden im Vergleich zu den Stunden aus der Unterrichtsverteilung.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <Select value={teamTeaching} onValueChange={(value) => setTeamTeaching(value as TeamTeachingCredit | "group")}>
+            <SelectTrigger className="w-72" data-testid="select-team-teaching-credit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="group">Team-Teaching: Einstellung je Gruppe</SelectItem>
+              <SelectItem value="full">Team-Teaching: volle Stunden je Lehrkraft</SelectItem>
+              <SelectItem value="split">Team-Teaching: Stunden aufteilen</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => reconcileMutation.mutate(undefined)}
+            disabled={mismatches.length === 0 || reconcileMutation.isPending}
+            data-testid="button-reconcile-all"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Alle abgleichen
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">Prüfe Stunden...</div>
+        ) : mismatches.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Alle {data?.checkedTeachers ?? 0} Lehrkräfte stimmen mit der Unterrichtsverteilung überein.
+          </div>
+        ) : (
+          <Table data-testid="table-hours-mismatches">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lehrkraft</TableHead>
+                <TableHead className="text-right">Gespeichert</TableHead>
+                <TableHead className="text-right">1. HJ</TableHead>
+                <TableHead className="text-right">2. HJ</TableHead>
+                <TableHead className="text-right">Berechnet</TableHead>
+                <TableHead className="text-right">Differenz</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mismatches.map(mismatch => (
+                <TableRow key={mismatch.teacherId} data-testid={`row-mismatch-${mismatch.teacherId}`}>
+                  <TableCell>
+                    <span className="font-medium">{mismatch.shortName}</span>
+                    <span className="text-muted-foreground ml-2">{mismatch.name}</span>
+                  </TableCell>
+                  <TableCell className="text-right">{formatHours(mismatch.storedHours)}</TableCell>
+                  <TableCell className="text-right">{formatHours(mismatch.semesterHours["1"])}</TableCell>
+                  <TableCell className="text-right">{formatHours(mismatch.semesterHours["2"])}</TableCell>
+                  <TableCell className="text-right font-medium">{formatHours(mismatch.computedHours)}</TableCell>
+                  <TableCell className={`text-right ${mismatch.difference > 0 ? "text-orange-600" : "text-blue-600"}`}>
+                    {mismatch.difference > 0 ? "+" : ""}{formatHours(mismatch.difference)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => reconcileMutation.mutate([mismatch.teacherId])}
+                      disabled={reconcileMutation.isPending}
+                      data-testid={`button-reconcile-${mismatch.teacherId}`}
+                    >
+                      Übernehmen
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
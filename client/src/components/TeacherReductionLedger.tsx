@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { TEACHER_REDUCTION_TYPES, type TeacherReduction } from "@shared/schema";
+import { REDUCTION_TYPE_LABELS, type ReductionType } from "@shared/lehrerplanstellen";
+import { SEMESTER_LABELS, type Semester, type TeacherCapacity } from "@shared/teacher-reductions";
+
+interface TeacherReductionLedgerProps {
+  teacherId: string;
+}
+
+interface ReductionDraft {
+  type: ReductionType;
+  hours: string;
+  startDate: string;
+  endDate: string;
+  semester: "both" | Semester;
+  note: string;
+}
+
+const EMPTY_DRAFT: ReductionDraft = {
+  type: "BA",
+  hours: "1",
+  startDate: "",
+  endDate: "",
+  semester: "both",
+  note: "",
+};
+
+function formatDate(value: string): string {
+  const [year, month, day] = value.split("-");
+  return `${day}.${month}.${year}`;
+}
+
+function formatPeriod(reduction: TeacherReduction): string {
+  return reduction.endDate
+    ? `${formatDate(reduction.startDate)} – ${formatDate(reduction.endDate)}`
+    : `ab ${formatDate(reduction.startDate)}`;
+}
+
+/**
+ * Ermäßigungsstunden of a teacher with validity periods, and the capacity per semester
+ * of the current school year derived from them (Altersermäßigung from the date of birth).
+ */
+export function TeacherReductionLedger({ teacherId }: TeacherReductionLedgerProps) {
+  const [draft, setDraft] = useState<ReductionDraft>(EMPTY_DRAFT);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: allReductions = [] } = useQuery<TeacherReduction[]>({
+    queryKey: ["/api/teacher-reductions"],
+  });
+  const reductions = allReductions.filter(r => r.teacherId === teacherId);
+
+  const { data: capacities = [] } = useQuery<TeacherCapacity[]>({
+    queryKey: ["/api/teacher-capacities", teacherId],
+    queryFn: () => fetch(`/api/teacher-capacities?teacherId=${teacherId}`, { credentials: "include" })
+      .then(res => res.ok ? res.json() : []),
+  });
+  const capacity = capacities[0];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/teacher-reductions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teacher-capacities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teachers"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ReductionDraft) => {
+      const response = await apiRequest("POST", "/api/teacher-reductions", {
+        teacherId,
+        type: data.type,
+        hours: parseFloat(data.hours),
+        startDate: data.startDate,
+        endDate: data.endDate || null,
+        semester: data.semester === "both" ? null : data.semester,
+        note: data.note || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setDraft(EMPTY_DRAFT);
+      toast({ title: "Erfolg", description: "Ermäßigung wurde hinzugefügt." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/teacher-reductions/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: "Fehler", description: "Ermäßigung konnte nicht gelöscht werden.", variant: "destructive" });
+    },
+  });
+
+  const hours = parseFloat(draft.hours);
+  const isComplete = !!draft.startDate && hours >= 0.5 && (!draft.endDate || draft.endDate >= draft.startDate);
+
+  return (
+    <div className="space-y-3" data-testid="teacher-reduction-ledger">
+      {reductions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Keine Ermäßigungen im Verlauf hinterlegt.</p>
+      ) : (
+        <ul className="space-y-1">
+          {reductions.map(reduction => (
+            <li key={reduction.id} className="flex items-center justify-between text-sm" data-testid={`reduction-${reduction.id}`}>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" title={REDUCTION_TYPE_LABELS[reduction.type as ReductionType]}>
+                  {reduction.type}
+                </Badge>
+                <span className="font-medium">{parseFloat(reduction.hours).toFixed(1)} Std.</span>
+                <span>{formatPeriod(reduction)}</span>
+                <span className="text-muted-foreground">
+                  {reduction.semester ? SEMESTER_LABELS[reduction.semester as Semester] : "beide Halbjahre"}
+                </span>
+                {reduction.note && <span className="text-muted-foreground">({reduction.note})</span>}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => deleteMutation.mutate(reduction.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-reduction-${reduction.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label className="text-xs">Art</Label>
+          <Select value={draft.type} onValueChange={(value) => setDraft(prev => ({ ...prev, type: value as ReductionType }))}>
+            <SelectTrigger className="h-8 text-xs" data-testid="select-reduction-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEACHER_REDUCTION_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{type} - {REDUCTION_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Stunden</Label>
+          <Input
+            type="number"
+            min="0.5"
+            step="0.5"
+            className="h-8 text-xs"
+            value={draft.hours}
+            onChange={(e) => setDraft(prev => ({ ...prev, hours: e.target.value }))}
+            data-testid="input-reduction-hours"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Halbjahr</Label>
+          <Select value={draft.semester} onValueChange={(value) => setDraft(prev => ({ ...prev, semester: value as ReductionDraft["semester"] }))}>
+            <SelectTrigger className="h-8 text-xs" data-testid="select-reduction-semester">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="both">Beide Halbjahre</SelectItem>
+              <SelectItem value="1">{SEMESTER_LABELS["1"]}</SelectItem>
+              <SelectItem value="2">{SEMESTER_LABELS["2"]}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Gültig ab</Label>
+          <Input
+            type="date"
+            className="h-8 text-xs"
+            value={draft.startDate}
+            onChange={(e) => setDraft(prev => ({ ...prev, startDate: e.target.value }))}
+            data-testid="input-reduction-start"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Gültig bis (optional)</Label>
+          <Input
+            type="date"
+            className="h-8 text-xs"
+            value={draft.endDate}
+            onChange={(e) => setDraft(prev => ({ ...prev, endDate: e.target.value }))}
+            data-testid="input-reduction-end"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Notiz</Label>
+          <Input
+            className="h-8 text-xs"
+            value={draft.note}
+            onChange={(e) => setDraft(prev => ({ ...prev, note: e.target.value }))}
+            placeholder="z.B. Rückgabe Vorgriffsstunden"
+            data-testid="input-reduction-note"
+          />
+        </div>
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => createMutation.mutate(draft)}
+        disabled={!isComplete || createMutation.isPending}
+        data-testid="button-add-reduction"
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Ermäßigung hinzufügen
+      </Button>
+
+      {capacity && (
+        <div className="mt-2 p-3 bg-muted rounded-md grid grid-cols-2 gap-4 text-sm" data-testid="teacher-capacity">
+          {(["1", "2"] as Semester[]).map(semester => {
+            const semesterCapacity = capacity.semesters[semester];
+            const { ageReduction } = semesterCapacity;
+            return (
+              <div key={semester}>
+                <div className="font-medium">{SEMESTER_LABELS[semester]}</div>
+                <div>Grundstunden: {semesterCapacity.maxHours.toFixed(1)}</div>
+                <div>Ermäßigung: {semesterCapacity.totalReduction.toFixed(1)}</div>
+                {ageReduction.source !== "none" && (
+                  <div className="text-xs text-muted-foreground">
+                    davon AE {ageReduction.hours.toFixed(1)}
+                    {ageReduction.source === "computed" ? ` (automatisch, Alter ${ageReduction.age})` : " (laut Eintrag)"}
+                  </div>
+                )}
+                <div className="font-bold text-primary">Verfügbar: {semesterCapacity.availableHours.toFixed(1)} Std.</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
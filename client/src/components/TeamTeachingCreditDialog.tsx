@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Percent } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { TEAM_TEACHING_CREDIT_MODES, type TeamTeachingCreditMode, type TeamTeachingSetting } from "@shared/schema";
+import { TEAM_TEACHING_CREDIT_LABELS, validateTeamTeachingShares } from "@shared/team-teaching";
+
+interface TeamTeachingCreditDialogProps {
+  teamTeachingId: string;
+  members: { teacherId: string; shortName: string }[];
+}
+
+/**
+ * Sets how the hours of one team-teaching group are credited to its teachers.
+ */
+export function TeamTeachingCreditDialog({ teamTeachingId, members }: TeamTeachingCreditDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [creditMode, setCreditMode] = useState<TeamTeachingCreditMode>("full");
+  const [shares, setShares] = useState<Record<string, number>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings = [] } = useQuery<TeamTeachingSetting[]>({ queryKey: ["/api/team-teaching-settings"] });
+  const setting = settings.find(s => s.teamTeachingId === teamTeachingId);
+  const teacherIds = members.map(m => m.teacherId);
+
+  // Start from the saved setting (or an equal split) whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setCreditMode((setting?.creditMode as TeamTeachingCreditMode | undefined) ?? "full");
+    const equalShare = Math.round((100 / Math.max(1, members.length)) * 100) / 100;
+    setShares(Object.fromEntries(members.map(m => [m.teacherId, setting?.shares?.[m.teacherId] ?? equalShare])));
+  }, [open]);
+
+  const shareErrors = creditMode === "custom" ? validateTeamTeachingShares(shares, teacherIds) : [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/team-teaching/${teamTeachingId}/credit`, {
+        creditMode,
+        shares: creditMode === "custom" ? shares : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team-teaching-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teacher-hours"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teacher-hours/consistency"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lehrerplanstellen"] });
+      setOpen(false);
+      toast({ title: "Erfolg", description: "Anrechnung des Team-Teachings wurde gespeichert." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Stundenanrechnung im Team" data-testid={`button-team-credit-${teamTeachingId}`}>
+          <Percent className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Stundenanrechnung im Team</DialogTitle>
+          <DialogDescription>
+            Wie viele Stunden dieser Team-Teaching-Gruppe zählen für jede Lehrkraft?
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={creditMode} onValueChange={(value) => setCreditMode(value as TeamTeachingCreditMode)}>
+            <SelectTrigger data-testid="select-team-credit-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEAM_TEACHING_CREDIT_MODES.map(mode => (
+                <SelectItem key={mode} value={mode}>{TEAM_TEACHING_CREDIT_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {creditMode === "custom" && (
+            <div className="space-y-2">
+              {members.map(member => (
+                <div key={member.teacherId} className="flex items-center gap-3">
+                  <Label htmlFor={`share-${member.teacherId}`} className="w-20">{member.shortName}</Label>
+                  <Input
+                    id={`share-${member.teacherId}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={shares[member.teacherId] ?? 0}
+                    onChange={(e) => setShares(prev => ({ ...prev, [member.teacherId]: parseFloat(e.target.value) || 0 }))}
+                    className="w-28"
+                    data-testid={`input-share-${member.teacherId}`}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              ))}
+              {shareErrors.map(error => (
+                <p key={error} className="text-sm text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Abbrechen
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={shareErrors.length > 0 || saveMutation.isPending}
+            data-testid="button-save-team-credit"
+          >
+            Speichern
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
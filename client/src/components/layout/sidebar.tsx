@@ -3,13 +3,19 @@ import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { useTheme } from "@/hooks/useTheme";
+import { useSchoolYear } from "@/hooks/useSchoolYear";
+import { useSchool } from "@/hooks/useSchool";
+import { SCHOOL_ROLE_LABELS } from "@shared/permissions";
 import { Button } from "@/components/ui/button";
-import { BarChart3, Upload, Calculator, Users, Presentation, School, Clock, Sparkles, BookOpen, Calendar, Grid, Grid3X3, RefreshCw, Menu, ChevronLeft, MessageSquare, Moon, Sun } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart3, Upload, Calculator, Users, Presentation, School, Clock, Sparkles, BookOpen, Calendar, Grid, Grid3X3, RefreshCw, Menu, ChevronLeft, MessageSquare, Moon, Sun, History, UserCircle, Inbox } from "lucide-react";
 import logoImage from "@assets/logo-light.webp";
 import logoImageDark from "@assets/logo-dark.webp";
 
 const navigationItems = [
   { href: "/", label: "Dashboard", icon: BarChart3 },
+  { href: "/mein-deputat", label: "Mein Deputat", icon: UserCircle },
 
   { href: "/planstellberechnung", label: "Planstellberechnung", icon: Calculator },
   { href: "/lehrerplanstellen", label: "Lehrerplanstellen", icon: Users },
@@ -26,6 +32,8 @@ const navigationItems = [
 const adminNavigationItems = [
   { href: "/admin/users", label: "Benutzer verwalten", icon: Users },
   { href: "/admin/chatgpt", label: "ChatGPT Import", icon: MessageSquare },
+  { href: "/admin/audit-log", label: "Änderungsprotokoll", icon: History },
+  { href: "/admin/requests", label: "Anfragen", icon: Inbox },
   { href: "/csv-import", label: "CSV Import", icon: Upload },
 ];
 
@@ -33,6 +41,8 @@ export function Sidebar() {
   const [location] = useLocation();
   const { user, isAdmin } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { schoolYears, currentSchoolYear, selectedSchoolYear, isReadOnly, selectSchoolYear } = useSchoolYear();
+  const { schools, selectedSchool, selectSchool } = useSchool();
   const [isCollapsed, setIsCollapsed] = useState(false);
 
   const toggleCollapsed = () => {
@@ -56,7 +66,8 @@ export function Sidebar() {
   // Get user role display text
   const getUserRole = () => {
     if (!user) return "";
-    return user.role === "admin" ? "Administrator" : "Benutzer";
+    if (user.role === "admin") return "Administrator";
+    return selectedSchool ? SCHOOL_ROLE_LABELS[selectedSchool.role] ?? "Benutzer" : "Benutzer";
   };
 
   return (
@@ -95,6 +106,45 @@ export function Sidebar() {
           {isCollapsed ? <Menu className="w-4 h-4" /> : <ChevronLeft className="w-4 h-4" />}
         </Button>
       </div>
+      {/* School selection - only when the user works in several schools */}
+      {!isCollapsed && schools.length > 1 && (
+        <div className="px-4 pt-4">
+          <Select value={selectedSchool?.id ?? ""} onValueChange={selectSchool}>
+            <SelectTrigger data-testid="select-school">
+              <SelectValue placeholder="Schule wählen" />
+            </SelectTrigger>
+            <SelectContent>
+              {schools.map((school) => (
+                <SelectItem key={school.id} value={school.id}>
+                  {school.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {/* School year selection */}
+      {!isCollapsed && schoolYears.length > 0 && (
+        <div className="px-4 pt-4 space-y-2">
+          <Select value={selectedSchoolYear?.id ?? ""} onValueChange={selectSchoolYear}>
+            <SelectTrigger data-testid="select-school-year">
+              <SelectValue placeholder="Schuljahr wählen" />
+            </SelectTrigger>
+            <SelectContent>
+              {schoolYears.map((year) => (
+                <SelectItem key={year.id} value={year.id}>
+                  {year.name}{year.id === currentSchoolYear?.id ? " (aktuell)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isReadOnly && (
+            <Badge variant="secondary" className="w-full justify-center" data-testid="badge-school-year-readonly">
+              Schreibgeschützt
+            </Badge>
+          )}
+        </div>
+      )}
       {/* Navigation Menu */}
       <nav className={cn(
         "flex-1 space-y-2",
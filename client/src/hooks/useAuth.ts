@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { useSchool } from "@/hooks/useSchool";
 
 interface User {
   id: string;
@@ -17,11 +18,27 @@ export function useAuth() {
     queryKey: ["/api/auth/user"],
     retry: false,
   });
+  const { isSchoolAdmin } = useSchool();
 
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
-    isAdmin: user?.role === "admin",
+    // Schulträger admins and admins of the selected school
+    isAdmin: user?.role === "admin" || (!!user && isSchoolAdmin),
+    isGlobalAdmin: user?.role === "admin",
   };
-}
\ No newline at end of file
+}
+export interface AuthProviderInfo {
+  type: "replit" | "oidc" | "local";
+  label: string;
+}
+
+// Login the server offers: Replit, school SSO (OIDC) or email and password
+export function useAuthProvider() {
+  const { data: provider, isLoading } = useQuery<AuthProviderInfo>({
+    queryKey: ["/api/auth/provider"],
+    staleTime: Infinity,
+  });
+  return { provider, isLoading };
+}
@@ -0,0 +1,150 @@
+import { useEffect, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  matrixCellKey,
+  pushMatrixEdit,
+  undoMatrixEdit,
+  redoMatrixEdit,
+  toMatrixChangeSetView,
+  type AddMatrixEdit,
+  type MatrixCellState,
+  type MatrixChangeSetState,
+  type MatrixChangeSetView,
+} from "@shared/matrix-change-set";
+
+const CHANGE_SET_KEY = ["/api/matrix-change-set"];
+// Stack mutations run one after another so quick edits are not lost on the server
+const CHANGE_SET_SCOPE = { id: "matrix-change-set" };
+
+/**
+ * Draft of matrix edits kept on the server, shared by the class matrix and the Diff-Kurse matrix.
+ * Edits, undo and redo are applied optimistically with the same stack logic as the server.
+ */
+export function useMatrixChangeSet() {
+  const { toast } = useToast();
+
+  const { data: changeSet } = useQuery<MatrixChangeSetView>({ queryKey: CHANGE_SET_KEY });
+
+  const cells = useMemo(() => {
+    const map = new Map<string, MatrixCellState>();
+    (changeSet?.cells ?? []).forEach(cell => map.set(matrixCellKey(cell.classId, cell.subjectId, cell.semester), cell));
+    return map;
+  }, [changeSet]);
+
+  // Applies the edit/undo/redo locally right away and rolls back if the server rejects it
+  const optimisticStack = <T,>(update: (state: MatrixChangeSetState, variables: T) => MatrixChangeSetState) => ({
+    scope: CHANGE_SET_SCOPE,
+    onMutate: (variables: T) => {
+      const previous = queryClient.getQueryData<MatrixChangeSetView>(CHANGE_SET_KEY);
+      if (previous) {
+        queryClient.setQueryData(CHANGE_SET_KEY, toMatrixChangeSetView({ ...previous, ...update(previous, variables) }));
+      }
+      return { previous };
+    },
+    onSuccess: (view: MatrixChangeSetView) => {
+      queryClient.setQueryData(CHANGE_SET_KEY, view);
+    },
+    onError: (error: Error, _variables: T, context?: { previous?: MatrixChangeSetView }) => {
+      if (context?.previous) queryClient.setQueryData(CHANGE_SET_KEY, context.previous);
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async (edit: AddMatrixEdit) => {
+      const response = await apiRequest("POST", "/api/matrix-change-set/edits", edit);
+      return response.json() as Promise<MatrixChangeSetView>;
+    },
+    ...optimisticStack<AddMatrixEdit>((state, edit) => pushMatrixEdit(state, edit)),
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/matrix-change-set/undo");
+      return response.json() as Promise<MatrixChangeSetView>;
+    },
+    ...optimisticStack<void>(undoMatrixEdit),
+  });
+
+  const redoMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/matrix-change-set/redo");
+      return response.json() as Promise<MatrixChangeSetView>;
+    },
+    ...optimisticStack<void>(redoMatrixEdit),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/matrix-change-set");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CHANGE_SET_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/matrix-change-set/commit");
+      return response.json() as Promise<{ added: number; removed: number; changed: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: CHANGE_SET_KEY });
+      // Refresh assignments everywhere (Stundenpläne, Lehrerverwaltung, ...)
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === "string" && key.includes("/api/assignments");
+        }
+      });
+      toast({
+        title: "Erfolgreich gespeichert",
+        description: `${result.added} neu, ${result.changed} geändert, ${result.removed} entfernt.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler beim Speichern", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canUndo = !!changeSet?.canUndo;
+  const canRedo = !!changeSet?.canRedo;
+
+  // Strg+Z / Strg+Y (or Strg+Umschalt+Z) outside of text inputs
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey && canUndo) {
+        event.preventDefault();
+        undoMutation.mutate();
+      } else if ((key === "y" || (key === "z" && event.shiftKey)) && canRedo) {
+        event.preventDefault();
+        redoMutation.mutate();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canUndo, canRedo]);
+
+  return {
+    changeSet,
+    cells,
+    hasChanges: cells.size > 0,
+    canUndo,
+    canRedo,
+    addEdit: (edit: AddMatrixEdit) => editMutation.mutate(edit),
+    undo: () => undoMutation.mutate(),
+    redo: () => redoMutation.mutate(),
+    discard: () => discardMutation.mutate(),
+    commit: () => commitMutation.mutate(),
+    isCommitting: commitMutation.isPending,
+  };
+}
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { School, SchoolRole } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getSelectedSchoolId, setSelectedSchoolId } from "@/lib/school";
+import { setSelectedSchoolYearId } from "@/lib/school-year";
+
+export interface SchoolOption extends School {
+  role: SchoolRole;
+  subjectIds: string[];
+  isSelected: boolean;
+}
+
+export function useSchool() {
+  const { data: schools = [] } = useQuery<SchoolOption[]>({
+    queryKey: ["/api/schools"],
+  });
+
+  const selectedSchool = schools.find(school => school.isSelected);
+
+  // A stored id of a school the user no longer has access to falls back to the server default
+  useEffect(() => {
+    const storedId = getSelectedSchoolId();
+    if (schools.length > 0 && storedId && !schools.some(school => school.id === storedId)) {
+      setSelectedSchoolId(null);
+    }
+  }, [schools]);
+
+  const selectSchool = async (schoolId: string) => {
+    setSelectedSchoolId(schoolId);
+    // School years belong to a school - start in the current year of the new school
+    setSelectedSchoolYearId(null);
+    await apiRequest("POST", "/api/schools/select", { schoolId });
+    // Every cached response belongs to the previous school
+    queryClient.invalidateQueries();
+  };
+
+  // Same check as the server; pass the subjects of the record for subject-bound roles
+  const can = (permission: Permission, subjectIds?: (string | null | undefined)[]) =>
+    hasPermission(selectedSchool?.role, permission, selectedSchool?.subjectIds, subjectIds);
+
+  return {
+    schools,
+    selectedSchool,
+    isSchoolAdmin: selectedSchool?.role === "admin",
+    selectSchool,
+    can,
+  };
+}
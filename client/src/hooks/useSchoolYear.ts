@@ -0,0 +1,36 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { SchoolYear } from "@shared/schema";
+import { isPastSchoolYear } from "@shared/school-year-scope";
+import { queryClient } from "@/lib/queryClient";
+import { getSelectedSchoolYearId, setSelectedSchoolYearId } from "@/lib/school-year";
+
+export function useSchoolYear() {
+  const [selectedId, setSelectedId] = useState<string | null>(getSelectedSchoolYearId);
+
+  const { data: schoolYears = [] } = useQuery<SchoolYear[]>({
+    queryKey: ["/api/school-years"],
+  });
+  const { data: currentSchoolYear } = useQuery<SchoolYear>({
+    queryKey: ["/api/school-years/current"],
+  });
+
+  // A stored id of a deleted school year falls back to the current one
+  const selectedSchoolYear = schoolYears.find(year => year.id === selectedId) ?? currentSchoolYear;
+
+  const selectSchoolYear = (schoolYearId: string) => {
+    const nextId = schoolYearId === currentSchoolYear?.id ? null : schoolYearId;
+    setSelectedSchoolYearId(nextId);
+    setSelectedId(nextId);
+    // Every cached response belongs to the previous school year
+    queryClient.invalidateQueries();
+  };
+
+  return {
+    schoolYears,
+    currentSchoolYear,
+    selectedSchoolYear,
+    isReadOnly: !!selectedSchoolYear && isPastSchoolYear(selectedSchoolYear, currentSchoolYear),
+    selectSchoolYear,
+  };
+}
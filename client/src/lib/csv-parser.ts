@@ -1,3 +1,16 @@
+import type { SchildImportType } from "@shared/schema";
+import {
+  decodeCsvBuffer,
+  resolveColumnMapping,
+  mapTeacherRows,
+  mapStudentRows,
+  mapClassRows,
+  type ColumnMapping,
+  type CsvEncoding,
+  type CsvTable,
+  type SchildRowResult,
+} from "@shared/schild-import";
+
 interface CSVParseResult<T> {
   data: T[];
   errors: string[];
@@ -114,42 +127,53 @@ export class CSVParser {
   }
 }
 
+// Reads one row by its column headers, as exported by SCHILD-NRW in any column order
+function mapSchildRow<T>(
+  row: string[],
+  headers: string[] | undefined,
+  dataType: SchildImportType,
+  mapRows: (table: CsvTable, mapping: ColumnMapping) => SchildRowResult<T>[]
+): T | null {
+  if (!headers) return null;
+  const [result] = mapRows({ delimiter: "", headers, rows: [row] }, resolveColumnMapping(headers, dataType));
+  return result.record;
+}
+
 // Predefined transformers for SCHILD NRW data
 export const schildTransformers = {
   teacher: (row: string[], headers?: string[]) => {
-    if (row.length < 3) return null;
-    
+    const teacher = mapSchildRow(row, headers, "teachers", mapTeacherRows);
+    if (!teacher) return null;
+
     return {
-      firstName: row[0] || "",
-      lastName: row[1] || "",
-      shortName: row[2] || "",
-      email: row[3] || "",
-      subjects: row[4] ? row[4].split(";").map(s => s.trim()).filter(Boolean) : [],
-      maxHours: parseInt(row[5]) || 25,
-      currentHours: parseInt(row[6]) || 0,
-      qualifications: row[7] ? row[7].split(";").map(q => q.trim()).filter(Boolean) : [],
+      ...teacher,
+      maxHours: teacher.maxHours ?? 25,
+      currentHours: 0,
       isActive: true,
     };
   },
 
   student: (row: string[], headers?: string[]) => {
-    if (row.length < 3) return null;
-    
+    const student = mapSchildRow(row, headers, "students", mapStudentRows);
+    if (!student) return null;
+
     return {
-      firstName: row[0] || "",
-      lastName: row[1] || "",
-      classId: row[2] || null,
-      grade: parseInt(row[3]) || 5,
+      firstName: student.firstName,
+      lastName: student.lastName,
+      classId: student.className,
+      grade: student.grade ?? 5,
+      dateOfBirth: student.dateOfBirth,
     };
   },
 
   class: (row: string[], headers?: string[]) => {
-    if (row.length < 2) return null;
-    
+    const classItem = mapSchildRow(row, headers, "classes", mapClassRows);
+    if (!classItem) return null;
+
     return {
-      name: row[0] || "",
-      grade: parseInt(row[1]) || 5,
-      studentCount: parseInt(row[2]) || 0,
+      name: classItem.name,
+      grade: classItem.grade,
+      studentCount: classItem.studentCount ?? 0,
       subjectHours: {},
     };
   },
@@ -428,13 +452,16 @@ export function generateMissingSemester2Assignments(
   return missingAssignments;
 }
 
-// Utility function to detect CSV format
-export function detectCSVFormat(csvContent: string): {
+// Utility function to detect CSV format; the encoding can only be detected from the raw file bytes
+export function detectCSVFormat(csvContent: string | Uint8Array): {
   delimiter: string;
   hasHeaders: boolean;
-  encoding: string;
+  encoding: CsvEncoding;
 } {
-  const lines = csvContent.split("\n").slice(0, 5); // Check first 5 lines
+  const { text, encoding } = typeof csvContent === "string"
+    ? { text: csvContent, encoding: "utf-8" as const }
+    : decodeCsvBuffer(csvContent);
+  const lines = text.split("\n").slice(0, 5); // Check first 5 lines
   
   // Detect delimiter
   const delimiters = [",", ";", "\t", "|"];
@@ -458,6 +485,6 @@ export function detectCSVFormat(csvContent: string): {
   return {
     delimiter: bestDelimiter,
     hasHeaders,
-    encoding: "utf-8", // Default assumption
+    encoding,
   };
 }
@@ -1,11 +1,33 @@
-import type { Teacher, Class, Subject, Assignment } from "@shared/schema";
+import type { Teacher, Class, Subject, Assignment, TeacherConstraint } from "@shared/schema";
 import { createCorrectedCurriculumHours } from "@shared/parallel-subjects";
+import { SOLVER_WEIGHTS, type SolverPlan } from "@shared/assignment-solver";
+import type { AssignmentPlanDiff } from "@shared/assignment-plan-diff";
+import {
+  describeConstraint,
+  evaluateConstraintViolations,
+  explanationKey,
+  getFulfilledPreferences,
+  getViolatedConstraints,
+  type ConstraintViolation,
+} from "@shared/teacher-constraints";
+import {
+  buildPreviousTeacherIndex,
+  calculateContinuityScore,
+  getPreviousYearTeachers,
+  isClassTeacher,
+  isCoreSubject,
+  type ContinuityScore,
+  type PreviousTeacherIndex,
+  type PreviousYearData,
+} from "@shared/class-continuity";
 
 export interface OptimizationConstraints {
   teachers: Teacher[];
   classes: Class[];
   subjects: Subject[];
   currentAssignments: Assignment[];
+  teacherConstraints?: TeacherConstraint[];
+  previousYear?: PreviousYearData | null;
   settings: OptimizationSettings;
 }
 
@@ -25,6 +47,8 @@ export interface OptimizationResult {
   metrics: OptimizationMetric[];
   warnings: string[];
   recommendedAssignments: RecommendedAssignment[];
+  lockedAssignments: number;
+  constraintViolations: ConstraintViolation[];
 }
 
 export interface OptimizationMetric {
@@ -42,6 +66,16 @@ export interface RecommendedAssignment {
   reasoning: string[];
 }
 
+// Server-side optimization preview: solver result plus the diff against current assignments
+export interface OptimizationPreview {
+  score: SolverPlan["score"];
+  statistics: SolverPlan["statistics"];
+  unmetDemand: SolverPlan["unmetDemand"];
+  teacherLoads: SolverPlan["teacherLoads"];
+  constraintViolations: SolverPlan["constraintViolations"];
+  diff: AssignmentPlanDiff;
+}
+
 interface TeacherWorkload {
   teacherId: string;
   currentHours: number;
@@ -51,6 +85,16 @@ interface TeacherWorkload {
   qualifications: string[];
 }
 
+// Teacher wishes, continuity lookups and the classes each teacher already has per subject (for class limits)
+interface PreferenceContext {
+  constraints: TeacherConstraint[];
+  classes: Class[];
+  subjects: Subject[];
+  previousTeacherIndex: PreviousTeacherIndex;
+  teacherSubjectClasses: Map<string, Set<string>>;
+  explanations: Map<string, string>;
+}
+
 interface ClassRequirement {
   classId: string;
   subjectId: string;
@@ -167,8 +211,10 @@ function mergeAssignmentsWithRecommendations(
       hoursPerWeek: keyHoursMap.get(compositeKey)!.toString(),
       semester: "beide",
       isOptimized: true,
+      isLocked: false,
       createdAt: originalAssignments?.[0]?.createdAt || null,
       schoolYearId: originalAssignments?.[0]?.schoolYearId || null,
+      schoolId: originalAssignments?.[0]?.schoolId || null,
       teamTeachingId: originalAssignments?.[0]?.teamTeachingId || null,
     });
   });
@@ -177,10 +223,14 @@ function mergeAssignmentsWithRecommendations(
 }
 
 export function runOptimization(constraints: OptimizationConstraints): OptimizationResult {
-  const { teachers, classes, subjects, currentAssignments, settings } = constraints;
+  const { teachers, classes, subjects, currentAssignments, teacherConstraints = [], previousYear, settings } = constraints;
+  
+  // Locked assignments are fixed input - recommendations only fill the remaining demand around them,
+  // mirroring the server-side solver which re-plans every unlocked row
+  const fixedAssignments = currentAssignments.filter(a => a.isLocked);
   
   // OPTIMIZATION: Build indices once with single O(n) pass instead of repeated O(n·m) filters
-  const indices = buildAssignmentIndices(currentAssignments);
+  const indices = buildAssignmentIndices(fixedAssignments);
   
   // Initialize optimization state using precomputed indices
   const teacherWorkloads = calculateTeacherWorkloads(teachers, indices);
@@ -188,13 +238,30 @@ export function runOptimization(constraints: OptimizationConstraints): Optimizat
   const classTotalHoursConstraints = calculateClassTotalHoursConstraints(classes, indices);
   const conflictMatrix = analyzeConflicts(teachers, classes, subjects, indices);
   
+  const preferences: PreferenceContext = {
+    constraints: teacherConstraints,
+    classes,
+    subjects,
+    previousTeacherIndex: buildPreviousTeacherIndex(previousYear),
+    teacherSubjectClasses: new Map(),
+    explanations: new Map(),
+  };
+  fixedAssignments.forEach(a => trackTeacherClass(preferences, a.teacherId, a.subjectId, a.classId));
+  
   // Generate recommended assignments using constraint satisfaction
   const recommendations = generateRecommendations(
     teacherWorkloads,
     classRequirements,
     classTotalHoursConstraints,
     conflictMatrix,
-    settings
+    settings,
+    preferences
+  );
+  
+  const continuity = calculateContinuityScore(
+    [...fixedAssignments, ...recommendations],
+    { classes, subjects, activeTeacherIds: new Set(teachers.filter(t => t.isActive).map(t => t.id)) },
+    preferences.previousTeacherIndex
   );
   
   // Calculate optimization metrics
@@ -203,7 +270,8 @@ export function runOptimization(constraints: OptimizationConstraints): Optimizat
     classRequirements,
     classTotalHoursConstraints,
     recommendations,
-    settings
+    settings,
+    continuity
   );
   
   // Determine overall score and warnings
@@ -221,9 +289,23 @@ export function runOptimization(constraints: OptimizationConstraints): Optimizat
     metrics,
     warnings,
     recommendedAssignments: recommendations,
+    lockedAssignments: fixedAssignments.length,
+    constraintViolations: evaluateConstraintViolations(
+      [...fixedAssignments, ...recommendations],
+      teacherConstraints,
+      { teachers, classes, subjects },
+      preferences.explanations
+    ),
   };
 }
 
+function trackTeacherClass(preferences: PreferenceContext, teacherId: string, subjectId: string, classId: string) {
+  const key = `${teacherId}|${subjectId}`;
+  const classIds = preferences.teacherSubjectClasses.get(key) || new Set<string>();
+  classIds.add(classId);
+  preferences.teacherSubjectClasses.set(key, classIds);
+}
+
 function calculateTeacherWorkloads(teachers: Teacher[], indices: AssignmentIndices): TeacherWorkload[] {
   return teachers.map(teacher => {
     // OPTIMIZATION: O(1) lookup instead of O(n) filter
@@ -584,7 +666,8 @@ function generateRecommendations(
   classRequirements: ClassRequirement[],
   classTotalHoursConstraints: ClassTotalHoursConstraint[],
   conflictMatrix: ConflictMatrix,
-  settings: OptimizationSettings
+  settings: OptimizationSettings,
+  preferences: PreferenceContext
 ): RecommendedAssignment[] {
   const recommendations: RecommendedAssignment[] = [];
   
@@ -607,7 +690,7 @@ function generateRecommendations(
       }
     }
     
-    const candidates = findSuitableTeachers(requirement, teacherWorkloads, settings);
+    const candidates = findSuitableTeachers(requirement, teacherWorkloads, settings, preferences);
     
     if (candidates.length === 0) {
       continue; // No suitable teacher found
@@ -647,6 +730,18 @@ function generateRecommendations(
         };
         
         recommendations.push(assignment);
+        trackTeacherClass(preferences, assignment.teacherId, assignment.subjectId, assignment.classId);
+        
+        // Explain why a soft wish was violated: only candidates with the same violation remained
+        if (bestCandidate.violatesWishes) {
+          const hasAlternative = candidates.some(c => c.teacherId !== bestCandidate.teacherId && !c.violatesWishes);
+          preferences.explanations.set(
+            explanationKey(assignment.teacherId, assignment.classId, assignment.subjectId),
+            hasAlternative
+              ? "Qualifikation und Auslastung wurden höher gewichtet"
+              : "Keine verfügbare Lehrkraft ohne Verstoß"
+          );
+        }
         
         // Update teacher workload for next iteration
         const workload = teacherWorkloads.find(w => w.teacherId === bestCandidate.teacherId);
@@ -678,13 +773,22 @@ interface TeacherCandidate {
   score: number;
   availableHours: number;
   reasoning: string[];
+  violatesWishes: boolean;
 }
 
 function findSuitableTeachers(
   requirement: ClassRequirement,
   teacherWorkloads: TeacherWorkload[],
-  settings: OptimizationSettings
+  settings: OptimizationSettings,
+  preferences: PreferenceContext
 ): TeacherCandidate[] {
+  const classData = preferences.classes.find(c => c.id === requirement.classId);
+  const slot = {
+    classIds: [requirement.classId],
+    grades: classData ? [classData.grade] : [],
+    subjectId: requirement.subjectId,
+  };
+
   const candidates: TeacherCandidate[] = [];
   
   teacherWorkloads.forEach(workload => {
@@ -725,11 +829,42 @@ function findSuitableTeachers(
     score += hoursScore;
     reasoning.push(`Verfügbare Stunden: ${availableHours}`);
     
+    // Teacher wishes: hard constraints exclude, soft ones shift the score by their weight
+    const violated = getViolatedConstraints(
+      workload.teacherId,
+      slot,
+      preferences.constraints,
+      preferences.teacherSubjectClasses.get(`${workload.teacherId}|${requirement.subjectId}`)
+    );
+    if (violated.some(c => c.strength === "hard")) {
+      return;
+    }
+    violated.forEach(constraint => {
+      score -= constraint.weight;
+      reasoning.push(`Wunsch verletzt: ${describeConstraint(constraint, preferences)}`);
+    });
+    getFulfilledPreferences(workload.teacherId, slot, preferences.constraints).forEach(constraint => {
+      score += constraint.weight;
+      reasoning.push(`Wunsch erfüllt: ${describeConstraint(constraint, preferences)}`);
+    });
+    
+    // Continuity: class teacher in core subjects, same teacher as in the previous school year
+    const subject = preferences.subjects.find(s => s.id === requirement.subjectId);
+    if (isCoreSubject(subject) && isClassTeacher(classData, workload.teacherId)) {
+      score += SOLVER_WEIGHTS.CLASS_TEACHER_CORE;
+      reasoning.push("Klassenleitung unterrichtet Hauptfach in der eigenen Klasse");
+    }
+    if (classData && getPreviousYearTeachers(preferences.previousTeacherIndex, classData, requirement.subjectId).has(workload.teacherId)) {
+      score += SOLVER_WEIGHTS.PREVIOUS_YEAR;
+      reasoning.push("Unterrichtete die Klasse bereits im Vorjahr");
+    }
+    
     candidates.push({
       teacherId: workload.teacherId,
       score,
       availableHours,
       reasoning,
+      violatesWishes: violated.length > 0,
     });
   });
   
@@ -765,7 +900,8 @@ function calculateOptimizationMetrics(
   classRequirements: ClassRequirement[],
   classTotalHoursConstraints: ClassTotalHoursConstraint[],
   recommendations: RecommendedAssignment[],
-  settings: OptimizationSettings
+  settings: OptimizationSettings,
+  continuity: ContinuityScore
 ): OptimizationMetric[] {
   const metrics: OptimizationMetric[] = [];
   
@@ -809,6 +945,19 @@ function calculateOptimizationMetrics(
     description: "Einhaltung der Gesamtstunden-Limits pro Klasse",
   });
   
+  // Continuity score: class teacher in core subjects and same teacher as in the previous school year
+  const continuityParts = [
+    continuity.classTeacherCore !== null ? `Klassenleitung in Hauptfächern: ${continuity.classTeacherCore}%` : null,
+    continuity.previousYear !== null ? `Gleiche Lehrkraft wie im Vorjahr: ${continuity.previousYear}%` : null,
+  ].filter(Boolean);
+  metrics.push({
+    name: "Kontinuität",
+    score: Math.round(continuity.score),
+    description: continuityParts.length > 0
+      ? continuityParts.join(", ")
+      : "Keine Klassenleitungen oder Vorjahresdaten vorhanden",
+  });
+  
   return metrics;
 }
 
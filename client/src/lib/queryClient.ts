@@ -1,4 +1,6 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { schoolYearHeaders } from "./school-year";
+import { schoolHeaders } from "./school";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -16,7 +18,11 @@ export async function apiRequest(
   
   const res = await fetch(url, {
     method,
-    headers: !isFormData && data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(!isFormData && data ? { "Content-Type": "application/json" } : {}),
+      ...schoolHeaders(),
+      ...schoolYearHeaders(),
+    },
     body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -32,6 +38,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: { ...schoolHeaders(), ...schoolYearHeaders() },
       credentials: "include",
     });
 
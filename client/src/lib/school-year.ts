@@ -0,0 +1,32 @@
+import { SCHOOL_YEAR_HEADER, SCHOOL_YEAR_QUERY_PARAM } from "@shared/school-year-scope";
+
+const STORAGE_KEY = "selectedSchoolYearId";
+
+// Selected school year for all API calls; null means "current school year" (server default)
+let selectedSchoolYearId: string | null = localStorage.getItem(STORAGE_KEY);
+
+export function getSelectedSchoolYearId(): string | null {
+  return selectedSchoolYearId;
+}
+
+export function setSelectedSchoolYearId(schoolYearId: string | null) {
+  selectedSchoolYearId = schoolYearId;
+  if (schoolYearId) {
+    localStorage.setItem(STORAGE_KEY, schoolYearId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function schoolYearHeaders(): Record<string, string> {
+  return selectedSchoolYearId ? { [SCHOOL_YEAR_HEADER]: selectedSchoolYearId } : {};
+}
+
+/**
+ * Adds the selected school year to a URL for raw fetch calls outside of apiRequest
+ */
+export function withSchoolYear(url: string): string {
+  if (!selectedSchoolYearId || url.includes(`${SCHOOL_YEAR_QUERY_PARAM}=`)) return url;
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${SCHOOL_YEAR_QUERY_PARAM}=${encodeURIComponent(selectedSchoolYearId)}`;
+}
@@ -0,0 +1,23 @@
+import { SCHOOL_HEADER } from "@shared/school-scope";
+
+const STORAGE_KEY = "selectedSchoolId";
+
+// Selected school for all API calls; null means "first accessible school" (server default)
+let selectedSchoolId: string | null = localStorage.getItem(STORAGE_KEY);
+
+export function getSelectedSchoolId(): string | null {
+  return selectedSchoolId;
+}
+
+export function setSelectedSchoolId(schoolId: string | null) {
+  selectedSchoolId = schoolId;
+  if (schoolId) {
+    localStorage.setItem(STORAGE_KEY, schoolId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function schoolHeaders(): Record<string, string> {
+  return selectedSchoolId ? { [SCHOOL_HEADER]: selectedSchoolId } : {};
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { History, Undo2 } from "lucide-react";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { AUDIT_ENTITY_TYPES, type AuditLog, type AuditEntityType, type AuditAction, type User, type Teacher, type Class, type Subject } from "@shared/schema";
+import { AUDIT_ENTITY_LABELS, AUDIT_ACTION_LABELS, getAuditFieldChanges } from "@shared/audit-log";
+
+interface AuditFilters {
+  entityType: "all" | AuditEntityType;
+  userId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { entityType: "all", userId: "all", from: "", to: "" };
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "–";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function getActionVariant(action: AuditAction): "default" | "secondary" | "destructive" {
+  if (action === "delete") return "destructive";
+  return action === "create" ? "default" : "secondary";
+}
+
+export default function AdminAuditLog() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+
+  const params = new URLSearchParams();
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+  if (filters.userId !== "all") params.set("userId", filters.userId);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  const queryString = params.toString();
+
+  const { data: entries = [], isLoading } = useQuery<AuditLog[]>({
+    queryKey: ["/api/admin/audit-logs", queryString],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/audit-logs${queryString ? `?${queryString}` : ""}`);
+      return response.json();
+    },
+  });
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ["/api/admin/users"] });
+  const { data: teachers = [] } = useQuery<Teacher[]>({ queryKey: ["/api/teachers"] });
+  const { data: classes = [] } = useQuery<Class[]>({ queryKey: ["/api/classes"] });
+  const { data: subjects = [] } = useQuery<Subject[]>({ queryKey: ["/api/subjects"] });
+
+  const revertMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/audit-logs/${id}/revert`);
+      return response.json();
+    },
+    onSuccess: () => {
+      // A revert can touch any of the logged entities
+      queryClient.invalidateQueries();
+      toast({ title: "Rückgängig gemacht", description: "Die Änderung wurde zurückgenommen." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rückgängig machen fehlgeschlagen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const getUserName = (userId: string | null) => {
+    if (!userId) return "System";
+    const user = users.find(u => u.id === userId);
+    if (!user) return userId;
+    return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || userId;
+  };
+
+  // Readable name of the changed row, taken from its logged state
+  const describeEntity = (entry: AuditLog) => {
+    const snapshot = (entry.after ?? entry.before ?? {}) as Record<string, any>;
+    switch (entry.entityType as AuditEntityType) {
+      case "teacher":
+        return snapshot.shortName ?? entry.entityId;
+      case "class":
+        return snapshot.name ?? entry.entityId;
+      case "subject":
+        return snapshot.shortName ?? entry.entityId;
+      case "assignment": {
+        const className = classes.find(c => c.id === snapshot.classId)?.name ?? "?";
+        const subjectName = subjects.find(s => s.id === snapshot.subjectId)?.shortName ?? "?";
+        const teacherName = teachers.find(t => t.id === snapshot.teacherId)?.shortName ?? "?";
+        return `${className} ${subjectName} (${teacherName}, ${snapshot.semester ?? "?"}. HJ)`;
+      }
+      default:
+        return entry.entityId;
+    }
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <div className="flex-1 overflow-auto">
+        <div className="container mx-auto p-8 space-y-8">
+          <div className="flex items-center space-x-2">
+            <History className="h-6 w-6" />
+            <h1 className="text-3xl font-bold" data-testid="heading-audit-log">
+              Änderungsprotokoll
+            </h1>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Filter</CardTitle>
+              <CardDescription>
+                Änderungen an Zuweisungen, Lehrkräften, Klassen und Fächern nach Objekt, Benutzer und Zeitraum.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div className="space-y-2">
+                  <Label>Objekt</Label>
+                  <Select value={filters.entityType} onValueChange={(value) => setFilters(prev => ({ ...prev, entityType: value as AuditFilters["entityType"] }))}>
+                    <SelectTrigger data-testid="select-audit-entity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Alle</SelectItem>
+                      {AUDIT_ENTITY_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Benutzer</Label>
+                  <Select value={filters.userId} onValueChange={(value) => setFilters(prev => ({ ...prev, userId: value }))}>
+                    <SelectTrigger data-testid="select-audit-user">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Alle</SelectItem>
+                      {users.map(user => (
+                        <SelectItem key={user.id} value={user.id}>{getUserName(user.id)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audit-from">Von</Label>
+                  <Input
+                    id="audit-from"
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+                    data-testid="input-audit-from"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audit-to">Bis</Label>
+                  <Input
+                    id="audit-to"
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+                    data-testid="input-audit-to"
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button variant="outline" className="w-full" onClick={() => setFilters(EMPTY_FILTERS)} data-testid="button-audit-reset">
+                    Zurücksetzen
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              {isLoading ? (
+                <div className="text-center py-4">
+                  <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                  <p className="mt-2 text-muted-foreground">Lade Protokoll...</p>
+                </div>
+              ) : entries.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">Keine Änderungen gefunden.</div>
+              ) : (
+                <Table data-testid="table-audit-log">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Zeitpunkt</TableHead>
+                      <TableHead>Benutzer</TableHead>
+                      <TableHead>Objekt</TableHead>
+                      <TableHead>Aktion</TableHead>
+                      <TableHead>Änderungen</TableHead>
+                      <TableHead className="text-right">Aktionen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(entry => {
+                      const action = entry.action as AuditAction;
+                      const changes = getAuditFieldChanges(entry);
+                      return (
+                        <TableRow key={entry.id} data-testid={`row-audit-${entry.id}`}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(entry.createdAt), "dd.MM.yyyy HH:mm:ss", { locale: de })}
+                          </TableCell>
+                          <TableCell>{getUserName(entry.userId)}</TableCell>
+                          <TableCell>
+                            <div className="text-xs text-muted-foreground">{AUDIT_ENTITY_LABELS[entry.entityType as AuditEntityType]}</div>
+                            <div className="font-medium">{describeEntity(entry)}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getActionVariant(action)}>{AUDIT_ACTION_LABELS[action]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {action === "update" ? (
+                              <ul className="space-y-1">
+                                {changes.map(change => (
+                                  <li key={change.field}>
+                                    <span className="text-muted-foreground">{change.field}:</span>{" "}
+                                    {formatValue(change.before)} → {formatValue(change.after)}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <span className="text-muted-foreground">{changes.length} Felder</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {entry.revertedAt ? (
+                              <Badge variant="outline" title={`von ${getUserName(entry.revertedBy)}`}>
+                                Rückgängig gemacht
+                              </Badge>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => revertMutation.mutate(entry.id)}
+                                disabled={revertMutation.isPending}
+                                data-testid={`button-revert-${entry.id}`}
+                              >
+                                <Undo2 className="mr-1 h-4 w-4" />
+                                Rückgängig
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
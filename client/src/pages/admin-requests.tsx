@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Inbox, Check, X, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { TEACHER_REQUEST_STATUSES, type Teacher, type TeacherRequest, type TeacherRequestType, type TeacherRequestStatus } from "@shared/schema";
+import { TEACHER_REQUEST_TYPE_LABELS, TEACHER_REQUEST_STATUS_LABELS } from "@shared/teacher-portal";
+
+function getStatusVariant(status: TeacherRequestStatus): "default" | "secondary" | "destructive" {
+  if (status === "rejected") return "destructive";
+  return status === "accepted" ? "default" : "secondary";
+}
+
+/**
+ * Inbox for the preference and change requests teachers send from their personal page.
+ */
+export default function AdminRequests() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<"all" | TeacherRequestStatus>("open");
+  const [responses, setResponses] = useState<Record<string, string>>({});
+
+  const { data: requests = [], isLoading } = useQuery<TeacherRequest[]>({
+    queryKey: ["/api/admin/teacher-requests", statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await apiRequest("GET", `/api/admin/teacher-requests${query}`);
+      return response.json();
+    },
+  });
+  const { data: teachers = [] } = useQuery<Teacher[]>({ queryKey: ["/api/teachers"] });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: TeacherRequestStatus }) => {
+      const response = await apiRequest("PATCH", `/api/admin/teacher-requests/${id}`, {
+        status,
+        response: responses[id]?.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/teacher-requests"] });
+      toast({ title: "Gespeichert", description: "Der Status der Anfrage wurde aktualisiert." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const getTeacherName = (teacherId: string) => {
+    const teacher = teachers.find(t => t.id === teacherId);
+    return teacher ? `${teacher.firstName} ${teacher.lastName} (${teacher.shortName})` : "?";
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <div className="flex-1 overflow-auto">
+        <div className="container mx-auto p-8 space-y-8">
+          <div className="flex items-center space-x-2">
+            <Inbox className="h-6 w-6" />
+            <h1 className="text-3xl font-bold" data-testid="heading-teacher-requests">
+              Anfragen des Kollegiums
+            </h1>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Posteingang</CardTitle>
+              <CardDescription>
+                Wünsche und Änderungsanträge, die Lehrkräfte über „Mein Deputat“ gesendet haben.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="w-48 space-y-2">
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                  <SelectTrigger data-testid="select-request-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Alle</SelectItem>
+                    {TEACHER_REQUEST_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>{TEACHER_REQUEST_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {isLoading ? (
+                <div className="text-center py-4">
+                  <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                  <p className="mt-2 text-muted-foreground">Lade Anfragen...</p>
+                </div>
+              ) : requests.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">Keine Anfragen gefunden.</div>
+              ) : (
+                <Table data-testid="table-teacher-requests">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Eingang</TableHead>
+                      <TableHead>Lehrkraft</TableHead>
+                      <TableHead>Anfrage</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Antwort</TableHead>
+                      <TableHead className="text-right">Aktionen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.map(request => {
+                      const status = request.status as TeacherRequestStatus;
+                      return (
+                        <TableRow key={request.id} data-testid={`row-request-${request.id}`}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(request.createdAt), "dd.MM.yyyy HH:mm", { locale: de })}
+                          </TableCell>
+                          <TableCell>{getTeacherName(request.teacherId)}</TableCell>
+                          <TableCell className="max-w-md">
+                            <div className="text-xs text-muted-foreground">{TEACHER_REQUEST_TYPE_LABELS[request.type as TeacherRequestType]}</div>
+                            <div className="font-medium">{request.title}</div>
+                            <div className="text-sm whitespace-pre-wrap">{request.message}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getStatusVariant(status)}>{TEACHER_REQUEST_STATUS_LABELS[status]}</Badge>
+                          </TableCell>
+                          <TableCell className="min-w-48">
+                            {status === "open" ? (
+                              <Input
+                                value={responses[request.id] ?? ""}
+                                onChange={(e) => setResponses(prev => ({ ...prev, [request.id]: e.target.value }))}
+                                placeholder="Optionale Antwort"
+                                data-testid={`input-request-response-${request.id}`}
+                              />
+                            ) : (
+                              <span className="text-sm text-muted-foreground">{request.response || "–"}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end space-x-2">
+                              {status === "open" ? (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => resolveMutation.mutate({ id: request.id, status: "accepted" })}
+                                    disabled={resolveMutation.isPending}
+                                    title="Annehmen"
+                                    data-testid={`button-accept-request-${request.id}`}
+                                  >
+                                    <Check className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => resolveMutation.mutate({ id: request.id, status: "rejected" })}
+                                    disabled={resolveMutation.isPending}
+                                    title="Ablehnen"
+                                    data-testid={`button-reject-request-${request.id}`}
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => resolveMutation.mutate({ id: request.id, status: "open" })}
+                                  disabled={resolveMutation.isPending}
+                                  title="Wieder öffnen"
+                                  data-testid={`button-reopen-request-${request.id}`}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
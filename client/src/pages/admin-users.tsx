@@ -7,30 +7,69 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { schoolHeaders } from "@/lib/school";
+import { useAuth } from "@/hooks/useAuth";
+import { useSchool } from "@/hooks/useSchool";
 import { isUnauthorizedError, redirectToLogin } from "@/lib/authUtils";
 import { Sidebar } from "@/components/layout/sidebar";
-import { Trash2, Mail, Copy, Calendar, Users } from "lucide-react";
+import { SchoolManagementCard } from "@/components/SchoolManagementCard";
+import { BulkInvitationCard } from "@/components/BulkInvitationCard";
+import { Trash2, Mail, Copy, Calendar, Users, Send, CalendarPlus, Ban } from "lucide-react";
 import { format } from "date-fns";
 import { de } from "date-fns/locale";
+import { SCHOOL_ROLES, INVITATION_VALIDITY_DAYS, MAX_INVITATION_VALIDITY_DAYS, type SchoolRole, type SchoolRoleGrant, type Subject } from "@shared/schema";
+import { SCHOOL_ROLE_LABELS } from "@shared/permissions";
+import { getInvitationStatus, INVITATION_STATUS_LABELS, type InvitationStatus } from "@shared/invitations";
+
+// "global_admin" is the Schulträger admin for all schools, the school roles apply to the selected school
+type InvitationRole = SchoolRole | "global_admin";
 
 interface Invitation {
   id: string;
   email: string;
   role: string;
+  schoolRoles: SchoolRoleGrant[];
   used: boolean;
   usedBy?: string;
   expiresAt: string;
   createdAt: string;
   usedAt?: string;
+  revokedAt: string | null;
+  lastSentAt: string | null;
+  sentCount: number;
   token: string;
 }
 
+interface InvitationResponse extends Invitation {
+  renewed: boolean;
+  emailSent: boolean;
+  emailError?: string;
+}
+
+function getStatusVariant(status: InvitationStatus): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "accepted") return "default";
+  if (status === "expired") return "destructive";
+  return status === "revoked" ? "outline" : "secondary";
+}
+
 export default function AdminUsers() {
   const { toast } = useToast();
   const [email, setEmail] = useState("");
-  const [role, setRole] = useState<"user" | "admin">("user");
+  const [role, setRole] = useState<InvitationRole>("kollegium");
+  const [subjectIds, setSubjectIds] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(String(INVITATION_VALIDITY_DAYS));
+  const [sendEmail, setSendEmail] = useState(true);
+  const { isGlobalAdmin } = useAuth();
+  const { schools, selectedSchool } = useSchool();
+
+  // Own subjects of a Fachkonferenzleitung
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: role === "fachkonferenzleitung",
+  });
 
   // Fetch invitations
   const { data: invitations, isLoading } = useQuery<Invitation[]>({
@@ -51,11 +90,12 @@ export default function AdminUsers() {
 
   // Create invitation mutation
   const createInvitationMutation = useMutation({
-    mutationFn: async (data: { email: string; role: string }) => {
+    mutationFn: async (data: { email: string; role: string; schoolRoles: Invitation["schoolRoles"]; expiresInDays: number; sendEmail: boolean }): Promise<InvitationResponse> => {
       const response = await fetch("/api/admin/invitations", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...schoolHeaders(),
         },
         body: JSON.stringify(data),
       });
@@ -80,13 +120,24 @@ export default function AdminUsers() {
 
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (invitation) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
       setEmail("");
-      setRole("user");
+      setRole("kollegium");
+      setSubjectIds([]);
+      if (invitation.emailError) {
+        toast({
+          title: "Einladung erstellt, E-Mail fehlgeschlagen",
+          description: `${invitation.emailError}. Sie können den Link kopieren oder die E-Mail erneut senden.`,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
-        title: "Einladung erstellt",
-        description: "Die Einladung wurde erfolgreich verschickt.",
+        title: invitation.renewed ? "Einladung erneuert" : "Einladung erstellt",
+        description: invitation.emailSent
+          ? "Die Einladung wurde per E-Mail verschickt."
+          : "Kopieren Sie den Einladungslink aus der Liste.",
       });
     },
     onError: (error: Error) => {
@@ -120,6 +171,30 @@ export default function AdminUsers() {
     },
   });
 
+  // Resend, extend and revoke
+  const invitationActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "resend" | "extend" | "revoke" }) => {
+      const response = await apiRequest("POST", `/api/admin/invitations/${id}/${action}`, { expiresInDays: Number(expiresInDays) });
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+      const messages = {
+        resend: "Die Einladung wurde erneut per E-Mail verschickt.",
+        extend: `Die Einladung ist jetzt ${expiresInDays} Tage gültig.`,
+        revoke: "Die Einladung wurde widerrufen und kann nicht mehr verwendet werden.",
+      };
+      toast({ title: "Einladung aktualisiert", description: messages[action] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler bei der Einladung",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!email.trim()) {
@@ -130,7 +205,24 @@ export default function AdminUsers() {
       });
       return;
     }
-    createInvitationMutation.mutate({ email, role });
+    if (role === "fachkonferenzleitung" && subjectIds.length === 0) {
+      toast({
+        title: "Fach erforderlich",
+        description: "Bitte wählen Sie mindestens ein Fach der Fachkonferenz aus.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const schoolRoles = role === "global_admin" || !selectedSchool
+      ? []
+      : [{ schoolId: selectedSchool.id, role, subjectIds: role === "fachkonferenzleitung" ? subjectIds : undefined }];
+    createInvitationMutation.mutate({
+      email,
+      role: role === "global_admin" ? "admin" : "user",
+      schoolRoles,
+      expiresInDays: Number(expiresInDays),
+      sendEmail,
+    });
   };
 
   const copyInvitationLink = (token: string) => {
@@ -150,10 +242,6 @@ export default function AdminUsers() {
     return format(new Date(dateString), "dd.MM.yyyy", { locale: de });
   };
 
-  const isExpired = (expiresAt: string) => {
-    return new Date(expiresAt) < new Date();
-  };
-
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
@@ -165,6 +253,8 @@ export default function AdminUsers() {
               Benutzer verwalten
             </h1>
           </div>
+
+          {isGlobalAdmin && <SchoolManagementCard />}
           
           {/* User Invitation Form */}
           <Card>
@@ -194,13 +284,17 @@ export default function AdminUsers() {
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="role">Rolle</Label>
-                    <Select value={role} onValueChange={(value: "user" | "admin") => setRole(value)}>
+                    <Select value={role} onValueChange={(value: InvitationRole) => setRole(value)}>
                       <SelectTrigger data-testid="select-invitation-role">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="user">Benutzer</SelectItem>
-                        <SelectItem value="admin">Administrator</SelectItem>
+                        {SCHOOL_ROLES.map(schoolRole => (
+                          <SelectItem key={schoolRole} value={schoolRole}>
+                            {SCHOOL_ROLE_LABELS[schoolRole]} ({selectedSchool?.shortName ?? "Schule"})
+                          </SelectItem>
+                        ))}
+                        {isGlobalAdmin && <SelectItem value="global_admin">Administrator (alle Schulen)</SelectItem>}
                       </SelectContent>
                     </Select>
                   </div>
@@ -215,10 +309,53 @@ export default function AdminUsers() {
                     </Button>
                   </div>
                 </div>
+                {role === "fachkonferenzleitung" && (
+                  <div className="space-y-2">
+                    <Label>Fächer der Fachkonferenz</Label>
+                    <div className="flex flex-wrap gap-4" data-testid="invitation-subjects">
+                      {subjects.map(subject => (
+                        <label key={subject.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={subjectIds.includes(subject.id)}
+                            onCheckedChange={(checked) => setSubjectIds(prev =>
+                              checked ? [...prev, subject.id] : prev.filter(id => id !== subject.id)
+                            )}
+                            data-testid={`checkbox-invitation-subject-${subject.id}`}
+                          />
+                          {subject.shortName}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="flex flex-wrap items-end gap-6">
+                  <div className="space-y-2 w-40">
+                    <Label htmlFor="expires-in-days">Gültigkeit (Tage)</Label>
+                    <Input
+                      id="expires-in-days"
+                      type="number"
+                      min={1}
+                      max={MAX_INVITATION_VALIDITY_DAYS}
+                      value={expiresInDays}
+                      onChange={(e) => setExpiresInDays(e.target.value)}
+                      data-testid="input-invitation-expires-in-days"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm h-10">
+                    <Checkbox
+                      checked={sendEmail}
+                      onCheckedChange={(checked) => setSendEmail(checked === true)}
+                      data-testid="checkbox-invitation-send-email"
+                    />
+                    Einladung per E-Mail senden
+                  </label>
+                </div>
               </form>
             </CardContent>
           </Card>
 
+          <BulkInvitationCard />
+
           {/* Invitations Table */}
           <Card>
             <CardHeader>
@@ -227,7 +364,8 @@ export default function AdminUsers() {
                 Einladungen verwalten
               </CardTitle>
               <CardDescription>
-                Übersicht über alle gesendeten Einladungen und deren Status.
+                Übersicht über alle gesendeten Einladungen und deren Status. Verlängern und erneut senden
+                verwendet die oben eingestellte Gültigkeit.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -250,30 +388,31 @@ export default function AdminUsers() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {invitations.map((invitation) => (
+                    {invitations.map((invitation) => {
+                      const status = getInvitationStatus(invitation);
+                      return (
                       <TableRow key={invitation.id} data-testid={`row-invitation-${invitation.id}`}>
                         <TableCell className="font-medium">{invitation.email}</TableCell>
                         <TableCell>
-                          <Badge variant={invitation.role === 'admin' ? 'default' : 'secondary'}>
-                            {invitation.role === 'admin' ? 'Administrator' : 'Benutzer'}
-                          </Badge>
+                          <div className="flex flex-wrap gap-1">
+                            {invitation.role === 'admin' ? (
+                              <Badge variant="default">Administrator</Badge>
+                            ) : invitation.schoolRoles.map(grant => (
+                              <Badge key={grant.schoolId} variant={grant.role === 'admin' ? 'default' : 'secondary'}>
+                                {schools.find(s => s.id === grant.schoolId)?.shortName ?? '?'}: {SCHOOL_ROLE_LABELS[grant.role] ?? grant.role}
+                              </Badge>
+                            ))}
+                          </div>
                         </TableCell>
                         <TableCell>
-                          <Badge 
-                            variant={
-                              invitation.used 
-                                ? 'default' 
-                                : isExpired(invitation.expiresAt) 
-                                ? 'destructive' 
-                                : 'secondary'
-                            }
-                          >
-                            {invitation.used 
-                              ? 'Verwendet' 
-                              : isExpired(invitation.expiresAt) 
-                              ? 'Abgelaufen' 
-                              : 'Ausstehend'}
+                          <Badge variant={getStatusVariant(status)} data-testid={`badge-invitation-status-${invitation.id}`}>
+                            {INVITATION_STATUS_LABELS[status]}
                           </Badge>
+                          {invitation.lastSentAt && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              E-Mail {formatDateShort(invitation.lastSentAt)}{invitation.sentCount > 1 ? ` (${invitation.sentCount}×)` : ""}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>{formatDateShort(invitation.createdAt)}</TableCell>
                         <TableCell>{formatDateShort(invitation.expiresAt)}</TableCell>
@@ -291,16 +430,53 @@ export default function AdminUsers() {
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-2">
-                            {!invitation.used && !isExpired(invitation.expiresAt) && (
+                            {status === "pending" && (
                               <Button
                                 size="sm"
                                 variant="outline"
                                 onClick={() => copyInvitationLink(invitation.token)}
+                                title="Link kopieren"
                                 data-testid={`button-copy-invitation-${invitation.id}`}
                               >
                                 <Copy className="h-4 w-4" />
                               </Button>
                             )}
+                            {status !== "accepted" && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => invitationActionMutation.mutate({ id: invitation.id, action: "resend" })}
+                                  disabled={invitationActionMutation.isPending}
+                                  title="Erneut senden"
+                                  data-testid={`button-resend-invitation-${invitation.id}`}
+                                >
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => invitationActionMutation.mutate({ id: invitation.id, action: "extend" })}
+                                  disabled={invitationActionMutation.isPending}
+                                  title="Verlängern"
+                                  data-testid={`button-extend-invitation-${invitation.id}`}
+                                >
+                                  <CalendarPlus className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {status === "pending" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => invitationActionMutation.mutate({ id: invitation.id, action: "revoke" })}
+                                disabled={invitationActionMutation.isPending}
+                                title="Widerrufen"
+                                data-testid={`button-revoke-invitation-${invitation.id}`}
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               size="sm"
                               variant="outline"
@@ -313,7 +489,8 @@ export default function AdminUsers() {
                           </div>
                         </TableCell>
                       </TableRow>
-                    ))}
+                      );
+                    })}
                   </TableBody>
                 </Table>
               ) : (
@@ -1,32 +1,222 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, FileText, CheckCircle, AlertCircle } from "lucide-react";
+import { Upload, FileText, CheckCircle, AlertCircle, Columns, Save, Trash2, Eye } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { SCHILD_IMPORT_TYPES, type CsvMappingProfile, type SchildImportType } from "@shared/schema";
+import {
+  SCHILD_FIELDS,
+  decodeCsvBuffer,
+  parseCsvTable,
+  detectSchildLayout,
+  resolveColumnMapping,
+  getMissingRequiredFields,
+  type ColumnMapping,
+  type CsvEncoding,
+  type CsvTable,
+  type SchildLayoutMatch,
+} from "@shared/schild-import";
+import type { CsvImportPlan, CsvImportRowStatus } from "@shared/csv-import-diff";
 
 interface ImportResult {
   message: string;
   count: number;
+  created?: number;
+  updated?: number;
+  unchanged?: number;
+  encoding: CsvEncoding;
+  skipped: { line: number; errors: string[] }[];
+  warnings: { line: number; message: string }[];
+}
+
+interface CsvFilePreview {
+  table: CsvTable;
+  encoding: CsvEncoding;
+  layout: SchildLayoutMatch | null;
+}
+
+const ENCODING_LABELS: Record<CsvEncoding, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16",
+  "windows-1252": "Windows-1252 (Latin-1)",
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ";": "Semikolon",
+  ",": "Komma",
+  "\t": "Tabulator",
+  "|": "Senkrechter Strich",
+};
+
+const NOT_IMPORTED = "__none__";
+
+const ROW_STATUS_LABELS: Record<CsvImportRowStatus, string> = {
+  new: "Neu",
+  changed: "Geändert",
+  unchanged: "Unverändert",
+};
+
+function isSchildImportType(dataType: string): dataType is SchildImportType {
+  return (SCHILD_IMPORT_TYPES as readonly string[]).includes(dataType);
 }
 
 export default function CSVImport() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dataType, setDataType] = useState<string>("");
   const [dragActive, setDragActive] = useState(false);
+  const [preview, setPreview] = useState<CsvFilePreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [profileId, setProfileId] = useState<string>("");
+  const [profileName, setProfileName] = useState("");
+  const [lastResult, setLastResult] = useState<ImportResult | null>(null);
+  const [importPlan, setImportPlan] = useState<CsvImportPlan | null>(null);
+  const [acceptedLines, setAcceptedLines] = useState<Set<number>>(new Set());
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const importMutation = useMutation({
+  const schildType = isSchildImportType(dataType) ? dataType : null;
+
+  const { data: allProfiles = [] } = useQuery<CsvMappingProfile[]>({
+    queryKey: ["/api/import/mapping-profiles"],
+  });
+  const profiles = useMemo(
+    () => allProfiles.filter(profile => profile.dataType === schildType),
+    [allProfiles, schildType]
+  );
+  const selectedProfile = profiles.find(profile => profile.id === profileId);
+
+  // The file is read in the browser to show its columns before anything is imported
+  useEffect(() => {
+    if (!selectedFile) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    selectedFile.arrayBuffer().then(buffer => {
+      if (cancelled) return;
+      const { text, encoding } = decodeCsvBuffer(new Uint8Array(buffer));
+      const table = parseCsvTable(text);
+      const layout = detectSchildLayout(table.headers);
+      setPreview({ table, encoding, layout });
+      if (layout) {
+        setDataType(current => current || layout.dataType);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile]);
+
+  // Recognized headers first, a chosen profile overrides them
+  useEffect(() => {
+    if (!preview || !schildType) {
+      setMapping({});
+      return;
+    }
+    setMapping(resolveColumnMapping(preview.table.headers, schildType, selectedProfile?.mapping));
+  }, [preview, schildType, selectedProfile]);
+
+  useEffect(() => {
+    setProfileId("");
+  }, [schildType]);
+
+  // A preview is only valid for the file, data type and mapping it was made with
+  useEffect(() => {
+    setImportPlan(null);
+  }, [selectedFile, dataType, mapping]);
+
+  const missingFields = schildType ? getMissingRequiredFields(schildType, mapping) : [];
+  const actionableRows = importPlan?.rows.filter(row => row.status !== "unchanged") ?? [];
+  // Skipped lines and warnings of the current preview, or of the last import
+  const rowIssues = importPlan ?? lastResult;
+
+  const createFormData = (file: File, type: string) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("dataType", type);
+    if (isSchildImportType(type)) {
+      formData.append("mapping", JSON.stringify(mapping));
+    }
+    return formData;
+  };
+
+  const previewMutation = useMutation({
     mutationFn: async ({ file, type }: { file: File; type: string }) => {
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("dataType", type);
+      const response = await apiRequest("POST", "/api/import/csv/preview", createFormData(file, type));
+      return response.json() as Promise<CsvImportPlan>;
+    },
+    onSuccess: (plan) => {
+      setImportPlan(plan);
+      setAcceptedLines(new Set(plan.rows.filter(row => row.status !== "unchanged").map(row => row.line)));
+    },
+    onError: (error) => {
+      toast({
+        title: "Vorschau fehlgeschlagen",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/import/mapping-profiles", {
+        name: profileName.trim(),
+        dataType: schildType,
+        mapping,
+      });
+      return response.json() as Promise<CsvMappingProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/mapping-profiles"] });
+      setProfileId(profile.id);
+      setProfileName("");
+      toast({
+        title: "Zuordnung gespeichert",
+        description: `Das Profil „${profile.name}“ steht beim nächsten Import zur Auswahl.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Speichern fehlgeschlagen",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/import/mapping-profiles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/mapping-profiles"] });
+      setProfileId("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Löschen fehlgeschlagen",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ file, type, accepted }: { file: File; type: string; accepted?: number[] }) => {
+      const formData = createFormData(file, type);
+      if (accepted) {
+        formData.append("accepted", JSON.stringify(accepted));
+      }
 
       const response = await apiRequest("POST", "/api/import/csv", formData);
       return response.json() as Promise<ImportResult>;
@@ -34,8 +224,12 @@ export default function CSVImport() {
     onSuccess: (data) => {
       toast({
         title: "Import erfolgreich",
-        description: data.message,
+        description: data.skipped.length > 0
+          ? `${data.count} Datensätze importiert, ${data.skipped.length} Zeilen übersprungen.`
+          : data.message,
       });
+      setLastResult(data);
+      setImportPlan(null);
       setSelectedFile(null);
       setDataType("");
       // Invalidate relevant queries
@@ -71,12 +265,12 @@ export default function CSVImport() {
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const file = e.dataTransfer.files[0];
-      if (file.type === "text/csv" || file.name.endsWith(".csv")) {
+      if (file.type === "text/csv" || /\.(csv|txt)$/i.test(file.name)) {
         setSelectedFile(file);
       } else {
         toast({
           title: "Ungültiger Dateityp",
-          description: "Bitte wählen Sie eine CSV-Datei aus.",
+          description: "Bitte wählen Sie eine CSV- oder Textdatei aus.",
           variant: "destructive",
         });
       }
@@ -86,12 +280,12 @@ export default function CSVImport() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      if (file.type === "text/csv" || file.name.endsWith(".csv")) {
+      if (file.type === "text/csv" || /\.(csv|txt)$/i.test(file.name)) {
         setSelectedFile(file);
       } else {
         toast({
           title: "Ungültiger Dateityp",
-          description: "Bitte wählen Sie eine CSV-Datei aus.",
+          description: "Bitte wählen Sie eine CSV- oder Textdatei aus.",
           variant: "destructive",
         });
       }
@@ -108,7 +302,49 @@ export default function CSVImport() {
       return;
     }
 
-    importMutation.mutate({ file: selectedFile, type: dataType });
+    if (missingFields.length > 0) {
+      toast({
+        title: "Spalten fehlen",
+        description: `Bitte ordnen Sie folgende Spalten zu: ${missingFields.map(field => field.label).join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLastResult(null);
+    if (schildType) {
+      previewMutation.mutate({ file: selectedFile, type: dataType });
+    } else {
+      importMutation.mutate({ file: selectedFile, type: dataType });
+    }
+  };
+
+  const handleApply = () => {
+    if (!selectedFile || !importPlan) return;
+    importMutation.mutate({
+      file: selectedFile,
+      type: importPlan.dataType,
+      accepted: actionableRows.filter(row => acceptedLines.has(row.line)).map(row => row.line),
+    });
+  };
+
+  const toggleLine = (line: number, accepted: boolean) => {
+    setAcceptedLines(current => {
+      const next = new Set(current);
+      if (accepted) next.add(line);
+      else next.delete(line);
+      return next;
+    });
+  };
+
+  const setFieldColumn = (fieldKey: string, header: string) => {
+    setMapping(current => ({ ...current, [fieldKey]: header === NOT_IMPORTED ? null : header }));
+  };
+
+  const getSampleValue = (header: string | null) => {
+    if (!preview || !header) return "";
+    const index = preview.table.headers.indexOf(header);
+    return preview.table.rows.find(row => row[index])?.[index] ?? "";
   };
 
   return (
@@ -186,7 +422,7 @@ export default function CSVImport() {
                             Datei hier ablegen oder klicken zum Auswählen
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            Nur CSV-Dateien werden unterstützt
+                            CSV- und Textdateien (auch SCHILD-Export)
                           </p>
                         </>
                       )}
@@ -194,7 +430,7 @@ export default function CSVImport() {
                     <input
                       id="file-input"
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.txt"
                       onChange={handleFileChange}
                       className="hidden"
                       data-testid="input-file"
@@ -205,12 +441,19 @@ export default function CSVImport() {
                 {/* Import Button */}
                 <Button
                   onClick={handleImport}
-                  disabled={!selectedFile || !dataType || importMutation.isPending}
+                  disabled={!selectedFile || !dataType || missingFields.length > 0 || importMutation.isPending || previewMutation.isPending}
                   className="w-full"
                   data-testid="button-import"
                 >
                   {importMutation.isPending ? (
                     "Importiere..."
+                  ) : previewMutation.isPending ? (
+                    "Vergleiche mit vorhandenen Daten..."
+                  ) : schildType ? (
+                    <>
+                      <Eye className="mr-2 h-4 w-4" />
+                      Vorschau anzeigen
+                    </>
                   ) : (
                     <>
                       <Upload className="mr-2 h-4 w-4" />
@@ -233,46 +476,31 @@ export default function CSVImport() {
                 <Alert>
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    Bitte stellen Sie sicher, dass Ihre CSV-Dateien dem SCHILD NRW Format entsprechen.
+                    Lehrkräfte, Schüler und Klassen können direkt aus SCHILD-NRW exportiert werden.
+                    Die Spalten werden an ihren Überschriften erkannt; Reihenfolge, zusätzliche Spalten
+                    und Zeichenkodierung (UTF-8 oder Latin-1) spielen keine Rolle.
+                    Vorhandene Datensätze werden erkannt (Lehrkräfte an Personalnummer oder Kürzel,
+                    Klassen am Namen, Schüler an Name und Geburtsdatum) und nur aktualisiert; eine
+                    Vorschau zeigt vor dem Übernehmen alle Änderungen.
                   </AlertDescription>
                 </Alert>
 
                 <div className="space-y-4">
-                  <div>
-                    <h4 className="font-semibold text-foreground mb-2">Lehrkräfte</h4>
-                    <p className="text-sm text-muted-foreground mb-2">
-                      <strong>Spalten (in dieser Reihenfolge):</strong>
-                    </p>
-                    <ul className="text-sm text-muted-foreground space-y-1 ml-4">
-                      <li>1. Vorname</li>
-                      <li>2. Nachname</li>
-                      <li>3. Kürzel</li>
-                      <li>4. E-Mail</li>
-                      <li>5. Fächer (;-getrennt)</li>
-                      <li>6. Max. Stunden/Woche (Dezimalzahl, z.B. 25.5)</li>
-                      <li>7. Aktuelle Stunden/Woche (Dezimalzahl, z.B. 20.5)</li>
-                      <li>8. Geburtsdatum (YYYY-MM-DD)</li>
-                      <li>9. Qualifikationen (;-getrennt)</li>
-                      <li>10. Notizen (optional)</li>
-                    </ul>
-                    <p className="text-xs text-muted-foreground mt-2">
-                      <strong>Beispiel:</strong> Max Mustermann,MM,max.mustermann@schule.de,Deutsch;Mathe,25.5,22.0,1975-03-15,Lehramt;Fachleitung,Klassenlehrer 5A
-                    </p>
-                  </div>
-
-                  <div>
-                    <h4 className="font-semibold text-foreground mb-2">Schüler</h4>
-                    <p className="text-sm text-muted-foreground">
-                      Spalten: Vorname, Nachname, Klassen-ID, Jahrgangsstufe
-                    </p>
-                  </div>
-
-                  <div>
-                    <h4 className="font-semibold text-foreground mb-2">Klassen</h4>
-                    <p className="text-sm text-muted-foreground">
-                      Spalten: Klassenname, Jahrgangsstufe, Schüleranzahl
-                    </p>
-                  </div>
+                  {SCHILD_IMPORT_TYPES.map(type => (
+                    <div key={type}>
+                      <h4 className="font-semibold text-foreground mb-2">
+                        {type === "teachers" ? "Lehrkräfte" : type === "students" ? "Schüler" : "Klassen"}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        Spalten:{" "}
+                        {SCHILD_FIELDS[type].map(field => field.required ? `${field.label}*` : field.label).join(", ")}
+                      </p>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    * Pflichtspalte. Abweichende Überschriften können nach dem Hochladen zugeordnet
+                    und als Profil gespeichert werden.
+                  </p>
 
                   <div>
                     <h4 className="font-semibold text-foreground mb-2">Fächer</h4>
@@ -285,6 +513,226 @@ export default function CSVImport() {
             </Card>
           </div>
 
+          {/* Column mapping */}
+          {preview && schildType && (
+            <Card className="mt-6" data-testid="card-column-mapping">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Columns className="mr-2" />
+                  Spaltenzuordnung
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="secondary" data-testid="badge-encoding">
+                    Kodierung: {ENCODING_LABELS[preview.encoding]}
+                  </Badge>
+                  <Badge variant="secondary">
+                    Trennzeichen: {DELIMITER_LABELS[preview.table.delimiter] ?? preview.table.delimiter}
+                  </Badge>
+                  <Badge variant="secondary">{preview.table.rows.length} Zeilen</Badge>
+                  {preview.layout && (
+                    <Badge variant={preview.layout.dataType === schildType ? "default" : "destructive"} data-testid="badge-layout">
+                      Erkannt: {preview.layout.label}
+                    </Badge>
+                  )}
+                </div>
+
+                {preview.layout && preview.layout.dataType !== schildType && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Die Spalten passen eher zu „{preview.layout.label}“. Bitte prüfen Sie den gewählten Datentyp.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-2 min-w-[220px]">
+                    <Label>Gespeichertes Profil</Label>
+                    <Select value={profileId} onValueChange={setProfileId}>
+                      <SelectTrigger data-testid="select-mapping-profile">
+                        <SelectValue placeholder={profiles.length > 0 ? "Profil auswählen" : "Keine Profile vorhanden"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map(profile => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {selectedProfile && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => deleteProfileMutation.mutate(selectedProfile.id)}
+                      disabled={deleteProfileMutation.isPending}
+                      data-testid="button-delete-profile"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <div className="space-y-2 min-w-[220px]">
+                    <Label htmlFor="profile-name">Zuordnung speichern als</Label>
+                    <Input
+                      id="profile-name"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      placeholder={selectedProfile?.name ?? "z.B. SCHILD Lehrer-Export"}
+                      data-testid="input-profile-name"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => saveProfileMutation.mutate()}
+                    disabled={!profileName.trim() || saveProfileMutation.isPending}
+                    data-testid="button-save-profile"
+                  >
+                    <Save className="mr-2 h-4 w-4" />
+                    Speichern
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {SCHILD_FIELDS[schildType].map(field => {
+                    const header = mapping[field.key] ?? null;
+                    const sample = getSampleValue(header);
+                    return (
+                      <div key={field.key} className="space-y-1" data-testid={`mapping-${field.key}`}>
+                        <Label>
+                          {field.label}
+                          {field.required && <span className="text-destructive"> *</span>}
+                        </Label>
+                        <Select value={header ?? NOT_IMPORTED} onValueChange={(value) => setFieldColumn(field.key, value)}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_IMPORTED}>— nicht importieren —</SelectItem>
+                            {preview.table.headers.filter(Boolean).map(column => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {sample && (
+                          <p className="text-xs text-muted-foreground truncate">z.B. {sample}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {missingFields.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Nicht zugeordnet: {missingFields.map(field => field.label).join(", ")}
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Import preview */}
+          {importPlan && (
+            <Card className="mt-6" data-testid="card-import-preview">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Eye className="mr-2" />
+                  Vorschau
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge data-testid="badge-plan-new">{importPlan.summary.new} neu</Badge>
+                  <Badge variant="secondary" data-testid="badge-plan-changed">{importPlan.summary.changed} geändert</Badge>
+                  <Badge variant="outline" data-testid="badge-plan-unchanged">{importPlan.summary.unchanged} unverändert</Badge>
+                  {importPlan.summary.skipped > 0 && (
+                    <Badge variant="destructive">{importPlan.summary.skipped} übersprungen</Badge>
+                  )}
+                </div>
+
+                {importPlan.dataType === "students" && importPlan.newClasses.length > 0 && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Folgende Klassen werden neu angelegt: {importPlan.newClasses.join(", ")}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {actionableRows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Alle Zeilen stimmen mit den vorhandenen Daten überein. Es gibt nichts zu übernehmen.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        id="accept-all"
+                        checked={actionableRows.every(row => acceptedLines.has(row.line))}
+                        onCheckedChange={(checked) => setAcceptedLines(new Set(checked ? actionableRows.map(row => row.line) : []))}
+                        data-testid="checkbox-accept-all"
+                      />
+                      <Label htmlFor="accept-all">Alle auswählen</Label>
+                    </div>
+                    <ul className="divide-y divide-border border rounded-md max-h-[28rem] overflow-auto">
+                      {actionableRows.map(row => (
+                        <li key={row.line} className="flex items-start gap-3 p-3" data-testid={`preview-row-${row.line}`}>
+                          <Checkbox
+                            checked={acceptedLines.has(row.line)}
+                            onCheckedChange={(checked) => toggleLine(row.line, checked === true)}
+                            className="mt-1"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-foreground">{row.label}</span>
+                              <Badge variant={row.status === "new" ? "default" : "secondary"}>
+                                {ROW_STATUS_LABELS[row.status]}
+                              </Badge>
+                              <span className="text-xs text-muted-foreground">Zeile {row.line}</span>
+                            </div>
+                            <ul className="mt-1 text-sm text-muted-foreground space-y-0.5">
+                              {row.changes.map(change => (
+                                <li key={change.field}>
+                                  {change.label}:{" "}
+                                  {row.status === "changed" && (
+                                    <>
+                                      <span className="line-through">{change.before || "—"}</span>
+                                      {" → "}
+                                    </>
+                                  )}
+                                  <span className="text-foreground">{change.after}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setImportPlan(null)} data-testid="button-discard-preview">
+                    Verwerfen
+                  </Button>
+                  <Button
+                    onClick={handleApply}
+                    disabled={importMutation.isPending || !actionableRows.some(row => acceptedLines.has(row.line))}
+                    data-testid="button-apply-import"
+                  >
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                    {importMutation.isPending
+                      ? "Übernehme..."
+                      : `${actionableRows.filter(row => acceptedLines.has(row.line)).length} Zeilen übernehmen`}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Success/Error Messages */}
           {importMutation.isSuccess && (
             <Alert className="mt-6">
@@ -294,6 +742,28 @@ export default function CSVImport() {
               </AlertDescription>
             </Alert>
           )}
+
+          {rowIssues && (rowIssues.skipped.length > 0 || rowIssues.warnings.length > 0) && (
+            <Card className="mt-6" data-testid="card-import-issues">
+              <CardHeader>
+                <CardTitle className="text-base">Hinweise zum Import</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="text-sm space-y-1 max-h-64 overflow-auto">
+                  {rowIssues.skipped.map(({ line, errors }) => (
+                    <li key={`skipped-${line}`} className="text-destructive">
+                      Zeile {line} übersprungen: {errors.join("; ")}
+                    </li>
+                  ))}
+                  {rowIssues.warnings.map(({ line, message }, index) => (
+                    <li key={`warning-${line}-${index}`} className="text-muted-foreground">
+                      Zeile {line}: {message}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </main>
     </div>
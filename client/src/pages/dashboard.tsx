@@ -6,6 +6,7 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Upload, Download, Presentation, GraduationCap, Calculator, Clock, BarChart3, Bell } from "lucide-react";
 import { Link } from "wouter";
+import { withSchoolYear } from "@/lib/school-year";
 
 interface DashboardStats {
   totalTeachers: number;
@@ -93,7 +94,7 @@ export default function Dashboard() {
 
   const { data: assignments } = useQuery<Assignment[]>({
     queryKey: ["/api/assignments"],
-    queryFn: () => fetch("/api/assignments?minimal=true").then(res => res.json())
+    queryFn: () => fetch(withSchoolYear("/api/assignments?minimal=true")).then(res => res.json())
   });
 
   // Calculate actual current hours for a teacher based on assignments
@@ -1,4 +1,4 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Class, Teacher, Subject, Assignment } from "@shared/schema";
 import { Sidebar } from "@/components/layout/sidebar";
@@ -6,18 +6,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, BookOpen, Save, RotateCcw } from "lucide-react";
+import { ArrowLeft, BookOpen, Save, RotateCcw, Undo2, Redo2 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
-import { useState, useMemo } from "react";
-import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useMemo } from "react";
+import { useMatrixChangeSet } from "@/hooks/useMatrixChangeSet";
+import { MatrixChangeSetReviewDialog } from "@/components/MatrixChangeSetReviewDialog";
+import { withSchoolYear } from "@/lib/school-year";
 
 type AssignmentData = Assignment & { id: string };
 
 export default function DiffKurseMatrix() {
-  const { toast } = useToast();
-  const [changes1, setChanges1] = useState<Record<string, string | null>>({});
-  const [changes2, setChanges2] = useState<Record<string, string | null>>({});
+  // Unsaved changes live in the server-side change set shared with the class matrix
+  const { changeSet, cells, hasChanges, canUndo, canRedo, addEdit, undo, redo, discard, commit, isCommitting } = useMatrixChangeSet();
+
+  // Pending teacher changes per semester (classId::subjectId -> teacherId)
+  const { changes1, changes2 } = useMemo(() => {
+    const changes: Record<"1" | "2", Record<string, string | null>> = { "1": {}, "2": {} };
+    cells.forEach(cell => {
+      if (cell.teacherId !== undefined) changes[cell.semester][`${cell.classId}::${cell.subjectId}`] = cell.teacherId;
+    });
+    return { changes1: changes["1"], changes2: changes["2"] };
+  }, [cells]);
 
   // Differenzierungsfächer
   const DIFF_SUBJECTS = ['FS', 'SW', 'NW', 'IF', 'TC', 'MUS'];
@@ -37,12 +46,12 @@ export default function DiffKurseMatrix() {
 
   const { data: assignments1 = [], isLoading: assignments1Loading } = useQuery<AssignmentData[]>({ 
     queryKey: ['/api/assignments', '1'],
-    queryFn: () => fetch(`/api/assignments?semester=1`).then(res => res.json())
+    queryFn: () => fetch(withSchoolYear(`/api/assignments?semester=1`)).then(res => res.json())
   });
 
   const { data: assignments2 = [], isLoading: assignments2Loading } = useQuery<AssignmentData[]>({ 
     queryKey: ['/api/assignments', '2'],
-    queryFn: () => fetch(`/api/assignments?semester=2`).then(res => res.json())
+    queryFn: () => fetch(withSchoolYear(`/api/assignments?semester=2`)).then(res => res.json())
   });
 
   const isLoading = classesLoading || teachersLoading || subjectsLoading || assignments1Loading || assignments2Loading;
@@ -164,73 +173,16 @@ export default function DiffKurseMatrix() {
 
   // Handle teacher change
   const handleTeacherChange = (classId: string, semester: "1" | "2", subjectId: string, teacherId: string | null) => {
-    const key = `${classId}::${subjectId}`;
-    if (semester === "1") {
-      setChanges1(prev => ({ ...prev, [key]: teacherId }));
-    } else {
-      setChanges2(prev => ({ ...prev, [key]: teacherId }));
-    }
-  };
-
-  const hasChanges = Object.keys(changes1).length > 0 || Object.keys(changes2).length > 0;
-
-  // Save mutation
-  const saveChanges = useMutation({
-    mutationFn: async () => {
-      const allChanges = [
-        ...Object.entries(changes1).map(([key, teacherId]) => ({ key, teacherId, semester: "1" as const })),
-        ...Object.entries(changes2).map(([key, teacherId]) => ({ key, teacherId, semester: "2" as const }))
-      ];
-
-      for (const { key, teacherId, semester } of allChanges) {
-        const [classId, subjectId] = key.split('::');
-        const assignments = semester === "1" ? assignments1 : assignments2;
-        const existing = assignments.find(a => a.classId === classId && a.subjectId === subjectId);
-
-        if (teacherId === null) {
-          if (existing) {
-            await apiRequest('DELETE', `/api/assignments/${existing.id}`, undefined);
-          }
-        } else {
-          const subject = subjects.find(s => s.id === subjectId);
-          const hoursPerWeek = existing?.hoursPerWeek || '2';
-
-          if (existing) {
-            await apiRequest('PATCH', `/api/assignments/${existing.id}`, {
-              teacherId,
-              hoursPerWeek: parseFloat(hoursPerWeek)
-            });
-          } else {
-            await apiRequest('POST', '/api/assignments', {
-              teacherId,
-              classId,
-              subjectId,
-              hoursPerWeek: parseFloat(hoursPerWeek),
-              semester
-            });
-          }
-        }
-      }
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
-      setChanges1({});
-      setChanges2({});
-      toast({ title: "Gespeichert", description: "Alle Änderungen wurden erfolgreich gespeichert." });
-    },
-    onError: (error: any) => {
-      console.error("Save error:", error);
-      toast({ 
-        title: "Fehler", 
-        description: error?.message || "Änderungen konnten nicht gespeichert werden.",
-        variant: "destructive"
-      });
-    }
-  });
-
-  const resetChanges = () => {
-    setChanges1({});
-    setChanges2({});
+    const assignments = semester === "1" ? assignments1 : assignments2;
+    const existing = assignments.find(a => a.classId === classId && a.subjectId === subjectId);
+    const className = classes.find(c => c.id === classId)?.name ?? "Kurs";
+    const teacherName = teacherId ? teachers.find(t => t.id === teacherId)?.shortName : "keine Lehrkraft";
+
+    addEdit({
+      label: `${className} ${semester}. HJ: ${teacherName ?? "Lehrkraft"}`,
+      // New Diff-Kurse default to 2 hours per week
+      cells: [{ classId, subjectId, semester, teacherId, ...(existing ? {} : { hoursPerWeek: 2 }) }],
+    });
   };
 
   if (isLoading) {
@@ -271,24 +223,52 @@ export default function DiffKurseMatrix() {
             </div>
             
             <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={undo}
+                disabled={!canUndo || isCommitting}
+                title="Rückgängig (Strg+Z)"
+                data-testid="button-undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={redo}
+                disabled={!canRedo || isCommitting}
+                title="Wiederholen (Strg+Y)"
+                data-testid="button-redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
               {hasChanges && (
                 <Button
                   variant="outline"
-                  onClick={resetChanges}
-                  disabled={saveChanges.isPending}
+                  onClick={discard}
+                  disabled={isCommitting}
                   data-testid="button-reset"
                 >
                   <RotateCcw className="h-4 w-4 mr-2" />
                   Zurücksetzen
                 </Button>
               )}
+              <MatrixChangeSetReviewDialog
+                changeSet={changeSet}
+                teachers={teachers}
+                classes={classes}
+                subjects={subjects}
+                onCommit={commit}
+                isCommitting={isCommitting}
+              />
               <Button
-                onClick={() => saveChanges.mutate()}
-                disabled={!hasChanges || saveChanges.isPending}
+                onClick={commit}
+                disabled={!hasChanges || isCommitting}
                 data-testid="button-save"
               >
                 <Save className="h-4 w-4 mr-2" />
-                {saveChanges.isPending ? 'Speichert...' : 'Speichern'}
+                {isCommitting ? 'Speichert...' : 'Speichern'}
               </Button>
             </div>
           </div>
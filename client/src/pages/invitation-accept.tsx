@@ -5,6 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ProviderLoginButton } from "@/components/ProviderLoginButton";
+import { useAuthProvider } from "@/hooks/useAuth";
 import { CheckCircle, XCircle, Clock, Mail, ShieldCheck } from "lucide-react";
 
 interface InvitationData {
@@ -18,6 +22,13 @@ export default function InvitationAccept() {
   const [invitationData, setInvitationData] = useState<InvitationData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const { provider } = useAuthProvider();
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+  const [passwordRepeat, setPasswordRepeat] = useState("");
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     const validateInvitation = async () => {
@@ -52,6 +63,37 @@ export default function InvitationAccept() {
     window.location.href = `/api/login?${params.toString()}`;
   };
 
+  // Local login: the account is created here with name and password
+  const handleCreateAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== passwordRepeat) {
+      setAcceptError("Die Passwörter stimmen nicht überein");
+      return;
+    }
+    setAcceptError(null);
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/invitation/${token}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ firstName, lastName, password }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setAcceptError(data.error || "Fehler beim Annehmen der Einladung");
+        return;
+      }
+      window.location.href = "/";
+    } catch (error) {
+      setAcceptError("Netzwerkfehler beim Annehmen der Einladung");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const accountName = provider?.type === "oidc" ? "Schul-Konto" : "Google-Konto";
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
@@ -153,36 +195,93 @@ export default function InvitationAccept() {
                 </div>
               </div>
 
-              <Alert className="border-green-200 bg-green-100 dark:bg-green-900/30 dark:border-green-700">
-                <Clock className="h-4 w-4" />
-                <AlertDescription className="text-green-800 dark:text-green-200">
-                  Diese Einladung ist noch gültig. Melden Sie sich mit Ihrem Google-Konto an, 
-                  das der angegebenen E-Mail-Adresse entspricht.
-                </AlertDescription>
-              </Alert>
+              {provider?.type === "local" ? (
+                <form onSubmit={handleCreateAccount} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="invitation-first-name">Vorname</Label>
+                      <Input
+                        id="invitation-first-name"
+                        value={firstName}
+                        onChange={(e) => setFirstName(e.target.value)}
+                        required
+                        data-testid="input-invitation-first-name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="invitation-last-name">Nachname</Label>
+                      <Input
+                        id="invitation-last-name"
+                        value={lastName}
+                        onChange={(e) => setLastName(e.target.value)}
+                        required
+                        data-testid="input-invitation-last-name"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invitation-password">Passwort (mindestens 10 Zeichen)</Label>
+                    <Input
+                      id="invitation-password"
+                      type="password"
+                      autoComplete="new-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      data-testid="input-invitation-password"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invitation-password-repeat">Passwort wiederholen</Label>
+                    <Input
+                      id="invitation-password-repeat"
+                      type="password"
+                      autoComplete="new-password"
+                      value={passwordRepeat}
+                      onChange={(e) => setPasswordRepeat(e.target.value)}
+                      required
+                      data-testid="input-invitation-password-repeat"
+                    />
+                  </div>
+                  {acceptError && (
+                    <Alert variant="destructive">
+                      <AlertDescription data-testid="text-invitation-accept-error">{acceptError}</AlertDescription>
+                    </Alert>
+                  )}
+                  <Button
+                    type="submit"
+                    className="w-full text-lg py-6"
+                    disabled={isSubmitting}
+                    data-testid="button-accept-invitation"
+                  >
+                    {isSubmitting ? "Konto wird angelegt..." : "Konto anlegen und beitreten"}
+                  </Button>
+                </form>
+              ) : provider ? (
+                <>
+                  <Alert className="border-green-200 bg-green-100 dark:bg-green-900/30 dark:border-green-700">
+                    <Clock className="h-4 w-4" />
+                    <AlertDescription className="text-green-800 dark:text-green-200">
+                      Diese Einladung ist noch gültig. Melden Sie sich mit dem {accountName} an, 
+                      das der angegebenen E-Mail-Adresse entspricht.
+                    </AlertDescription>
+                  </Alert>
 
-              <Button 
-                onClick={handleAcceptInvitation} 
-                className="w-full text-lg py-6"
-                data-testid="button-accept-invitation"
-              >
-                <div className="flex items-center gap-3">
-                  <svg className="h-5 w-5" viewBox="0 0 24 24">
-                    <path fill="currentColor" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                    <path fill="currentColor" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                    <path fill="currentColor" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                    <path fill="currentColor" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                  </svg>
-                  Mit Google anmelden und beitreten
-                </div>
-              </Button>
+                  <ProviderLoginButton
+                    provider={provider}
+                    label={`${provider.label} und beitreten`}
+                    onClick={handleAcceptInvitation}
+                    testId="button-accept-invitation"
+                  />
 
-              <div className="text-center text-sm text-gray-600 dark:text-gray-400">
-                <p>
-                  Stellen Sie sicher, dass Sie mit dem Google-Konto angemeldet sind, 
-                  das der E-Mail-Adresse <strong>{invitationData.email}</strong> entspricht.
-                </p>
-              </div>
+                  <div className="text-center text-sm text-gray-600 dark:text-gray-400">
+                    <p>
+                      Stellen Sie sicher, dass Sie mit dem {accountName} angemeldet sind, 
+                      das der E-Mail-Adresse <strong>{invitationData.email}</strong> entspricht.
+                    </p>
+                  </div>
+                </>
+              ) : null}
             </CardContent>
           </Card>
         ) : null}
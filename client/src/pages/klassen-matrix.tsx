@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
 import { Teacher, Class, Subject, Assignment } from "@shared/schema";
 import { Sidebar } from "@/components/layout/sidebar";
@@ -9,24 +9,35 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Users, BookOpen, Save, RotateCcw } from "lucide-react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Users, BookOpen, Save, RotateCcw, Undo2, Redo2 } from "lucide-react";
+import { withSchoolYear } from "@/lib/school-year";
+import { useMatrixChangeSet } from "@/hooks/useMatrixChangeSet";
+import { MatrixChangeSetReviewDialog } from "@/components/MatrixChangeSetReviewDialog";
 import { calculateCorrectHours } from "@shared/parallel-subjects";
 
 
 export default function KlassenMatrix() {
   const params = useParams();
   const classId = params.classId as string;
-  const { toast } = useToast();
   
-  // Local state for unsaved changes per semester (subjectId-semester -> teacherId)
-  const [changes1, setChanges1] = useState<Record<string, string | null>>({});
-  const [changes2, setChanges2] = useState<Record<string, string | null>>({});
-  // Local state for hours changes
-  const [changesHours1, setChangesHours1] = useState<Record<string, number>>({});
-  const [changesHours2, setChangesHours2] = useState<Record<string, number>>({});
-  const [saving, setSaving] = useState(false);
+  // Unsaved changes live in the server-side change set (undo/redo, survives navigation)
+  const { changeSet, cells, hasChanges, canUndo, canRedo, addEdit, undo, redo, discard, commit, isCommitting: saving } = useMatrixChangeSet();
+
+  // Pending changes per semester (classId::subjectId::semester -> teacherId / hours)
+  const { changes1, changes2, changesHours1, changesHours2 } = useMemo(() => {
+    const teacherChanges: Record<"1" | "2", Record<string, string | null>> = { "1": {}, "2": {} };
+    const hoursChanges: Record<"1" | "2", Record<string, number>> = { "1": {}, "2": {} };
+    cells.forEach((cell, key) => {
+      if (cell.teacherId !== undefined) teacherChanges[cell.semester][key] = cell.teacherId;
+      if (cell.hoursPerWeek !== undefined) hoursChanges[cell.semester][key] = cell.hoursPerWeek;
+    });
+    return {
+      changes1: teacherChanges["1"],
+      changes2: teacherChanges["2"],
+      changesHours1: hoursChanges["1"],
+      changesHours2: hoursChanges["2"],
+    };
+  }, [cells]);
   const [viewMode, setViewMode] = useState<"single" | "jahrgang">("single");
 
   // Get the selected class info
@@ -76,13 +87,13 @@ export default function KlassenMatrix() {
     queryKey: viewMode === "jahrgang" ? ['/api/assignments', 'jahrgang', selectedClass?.grade, '1', jahrgangClassIds] : ['/api/assignments', classId, '1'],
     queryFn: () => {
       if (viewMode === "jahrgang" && selectedClass) {
-        return fetch(`/api/assignments?minimal=true&semester=1`).then(res => res.json())
+        return fetch(withSchoolYear(`/api/assignments?minimal=true&semester=1`)).then(res => res.json())
           .then((data: Assignment[]) => data.filter(a => {
             const assignmentClass = allClasses.find(c => c.id === a.classId);
             return assignmentClass && assignmentClass.grade === selectedClass.grade;
           }));
       }
-      return fetch(`/api/assignments?minimal=true&classId=${classId}&semester=1`).then(res => res.json());
+      return fetch(withSchoolYear(`/api/assignments?minimal=true&classId=${classId}&semester=1`)).then(res => res.json());
     },
     enabled: viewMode === "single" ? !!classId : (!!selectedClass && jahrgangClasses.length > 0),
     staleTime: 30000
@@ -92,13 +103,13 @@ export default function KlassenMatrix() {
     queryKey: viewMode === "jahrgang" ? ['/api/assignments', 'jahrgang', selectedClass?.grade, '2', jahrgangClassIds] : ['/api/assignments', classId, '2'],
     queryFn: () => {
       if (viewMode === "jahrgang" && selectedClass) {
-        return fetch(`/api/assignments?minimal=true&semester=2`).then(res => res.json())
+        return fetch(withSchoolYear(`/api/assignments?minimal=true&semester=2`)).then(res => res.json())
           .then((data: Assignment[]) => data.filter(a => {
             const assignmentClass = allClasses.find(c => c.id === a.classId);
             return assignmentClass && assignmentClass.grade === selectedClass.grade;
           }));
       }
-      return fetch(`/api/assignments?minimal=true&classId=${classId}&semester=2`).then(res => res.json());
+      return fetch(withSchoolYear(`/api/assignments?minimal=true&classId=${classId}&semester=2`)).then(res => res.json());
     },
     enabled: viewMode === "single" ? !!classId : (!!selectedClass && jahrgangClasses.length > 0),
     staleTime: 30000
@@ -237,167 +248,37 @@ export default function KlassenMatrix() {
 
   // Handle teacher assignment changes
   const handleTeacherChange = (classItemId: string, semester: "1" | "2", subjectId: string, teacherId: string | null) => {
-    const key = `${classItemId}::${subjectId}::${semester}`;
-    
     // Ermittle das betroffene Fach und die zugehörige Klasse
     const subject = subjects.find(s => s.id === subjectId);
     const classInfo = allClasses.find(c => c.id === classItemId);
+    const teacherName = teacherId ? teachers.find(t => t.id === teacherId)?.shortName : "keine Lehrkraft";
+    const label = `${subject?.shortName ?? "Fach"} ${semester}. HJ: ${teacherName ?? "Lehrkraft"}`;
     
     // Falls es ein Religionsfach ist UND es sich um eine normale Klasse handelt (nicht Kurs)
-    // synchronisiere alle Parallelklassen des Jahrgangs
+    // synchronisiere alle Parallelklassen des Jahrgangs - als ein Bearbeitungsschritt
     if (subject && classInfo && RELIGION_SUBJECTS.has(subject.shortName) && classInfo.type === 'klasse') {
       const jahrgangClasses = allClasses.filter(c => 
         c.grade === classInfo.grade && c.type === 'klasse'
       );
       
-      // Baue Updates für alle Parallelklassen
-      const updates: Record<string, string | null> = {};
-      for (const klasse of jahrgangClasses) {
-        const updateKey = `${klasse.id}::${subjectId}::${semester}`;
-        updates[updateKey] = teacherId;
-      }
-      
-      // Setze alle Updates gleichzeitig
-      if (semester === "1") {
-        setChanges1(prev => ({ ...prev, ...updates }));
-      } else {
-        setChanges2(prev => ({ ...prev, ...updates }));
-      }
+      addEdit({
+        label: `${label} (Jahrgang ${classInfo.grade})`,
+        cells: jahrgangClasses.map(klasse => ({ classId: klasse.id, subjectId, semester, teacherId })),
+      });
     } else {
       // Normales Verhalten für nicht-Religionsfächer UND für Kurse
       // (Kurse werden NICHT synchronisiert, auch wenn es Religionsfächer sind)
-      if (semester === "1") {
-        setChanges1(prev => ({ ...prev, [key]: teacherId }));
-      } else {
-        setChanges2(prev => ({ ...prev, [key]: teacherId }));
-      }
+      addEdit({ label, cells: [{ classId: classItemId, subjectId, semester, teacherId }] });
     }
   };
 
   // Handle hours changes
   const handleHoursChange = (classItemId: string, semester: "1" | "2", subjectId: string, hours: number) => {
-    const key = `${classItemId}::${subjectId}::${semester}`;
-    
-    if (semester === "1") {
-      setChangesHours1(prev => ({ ...prev, [key]: hours }));
-    } else {
-      setChangesHours2(prev => ({ ...prev, [key]: hours }));
-    }
-  };
-
-  // Save changes for both semesters
-  const saveChanges = useMutation({
-    mutationFn: async () => {
-      setSaving(true);
-      
-      // Collect all teacher changes
-      const allChanges = [
-        ...Object.entries(changes1).map(([key, teacherId]) => ({ 
-          key,
-          semester: '1', 
-          teacherId 
-        })),
-        ...Object.entries(changes2).map(([key, teacherId]) => ({ 
-          key,
-          semester: '2', 
-          teacherId 
-        }))
-      ];
-
-      // Collect all hours changes
-      const allHoursChanges = [
-        ...Object.entries(changesHours1).map(([key, hours]) => ({ 
-          key,
-          semester: '1', 
-          hours 
-        })),
-        ...Object.entries(changesHours2).map(([key, hours]) => ({ 
-          key,
-          semester: '2', 
-          hours 
-        }))
-      ];
-
-      // Process teacher changes
-      for (const change of allChanges) {
-        const [changeClassId, changeSubjectId, _semester] = change.key.split('::');
-        if (change.teacherId) {
-          // Get hours for this assignment (from local changes or existing assignment)
-          const hours = getCurrentHours(changeClassId, changeSubjectId, change.semester as "1" | "2");
-          
-          // Create or update assignment
-          await apiRequest('POST', '/api/assignments', {
-            teacherId: change.teacherId,
-            subjectId: changeSubjectId,
-            classId: changeClassId,
-            semester: change.semester,
-            hoursPerWeek: hours
-          });
-        } else {
-          // Delete assignment if teacherId is null
-          const assignments = change.semester === '1' ? assignments1 : assignments2;
-          const existingAssignment = assignments.find(
-            a => a.classId === changeClassId && a.subjectId === changeSubjectId
-          );
-          if (existingAssignment) {
-            await apiRequest('DELETE', `/api/assignments/${existingAssignment.id}`, {});
-          }
-        }
-      }
-      
-      // Process hours-only changes (where teacher didn't change but hours did)
-      for (const hoursChange of allHoursChanges) {
-        const [changeClassId, changeSubjectId, _semester] = hoursChange.key.split('::');
-        
-        // Skip if this was already handled by a teacher change
-        if (allChanges.some(c => c.key === hoursChange.key)) {
-          continue;
-        }
-        
-        // Find existing assignment and update hours
-        const assignments = hoursChange.semester === '1' ? assignments1 : assignments2;
-        const existingAssignment = assignments.find(
-          a => a.classId === changeClassId && a.subjectId === changeSubjectId
-        );
-        
-        if (existingAssignment) {
-          await apiRequest('PATCH', `/api/assignments/${existingAssignment.id}`, {
-            hoursPerWeek: hoursChange.hours
-          });
-        }
-      }
-    },
-    onSuccess: () => {
-      // Invalidate ALL assignment queries to refresh data everywhere (Stundenpläne, etc.)
-      queryClient.invalidateQueries({ 
-        predicate: (query) => {
-          const key = query.queryKey[0];
-          return typeof key === 'string' && key.includes('/api/assignments');
-        }
-      });
-      setChanges1({});
-      setChanges2({});
-      setChangesHours1({});
-      setChangesHours2({});
-      toast({ title: "Erfolgreich gespeichert", description: "Alle Änderungen wurden übernommen." });
-    },
-    onError: (error) => {
-      console.error('Save error:', error);
-      toast({ title: "Fehler beim Speichern", description: "Bitte versuchen Sie es erneut.", variant: "destructive" });
-    },
-    onSettled: () => {
-      setSaving(false);
-    }
-  });
-
-  const hasChanges = Object.keys(changes1).length > 0 || Object.keys(changes2).length > 0 || 
-                       Object.keys(changesHours1).length > 0 || Object.keys(changesHours2).length > 0;
-
-  const resetChanges = () => {
-    setChanges1({});
-    setChanges2({});
-    setChangesHours1({});
-    setChangesHours2({});
+    const subject = subjects.find(s => s.id === subjectId);
+    addEdit({
+      label: `${subject?.shortName ?? "Fach"} ${semester}. HJ: ${hours} Std.`,
+      cells: [{ classId: classItemId, subjectId, semester, hoursPerWeek: hours }],
+    });
   };
 
   // Calculate teacher workload for each semester
@@ -522,10 +403,30 @@ export default function KlassenMatrix() {
             </div>
             
             <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={undo}
+                disabled={!canUndo || saving}
+                title="Rückgängig (Strg+Z)"
+                data-testid="button-undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={redo}
+                disabled={!canRedo || saving}
+                title="Wiederholen (Strg+Y)"
+                data-testid="button-redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
               {hasChanges && (
                 <Button
                   variant="outline"
-                  onClick={resetChanges}
+                  onClick={discard}
                   disabled={saving}
                   data-testid="button-reset"
                 >
@@ -533,8 +434,16 @@ export default function KlassenMatrix() {
                   Zurücksetzen
                 </Button>
               )}
+              <MatrixChangeSetReviewDialog
+                changeSet={changeSet}
+                teachers={teachers}
+                classes={allClasses}
+                subjects={subjects}
+                onCommit={commit}
+                isCommitting={saving}
+              />
               <Button
-                onClick={() => saveChanges.mutate()}
+                onClick={commit}
                 disabled={!hasChanges || saving}
                 data-testid="button-save"
               >
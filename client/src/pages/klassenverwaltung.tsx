@@ -16,6 +16,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Plus, Edit, Trash2, School, Search, Filter, Calendar } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
+import { withSchoolYear } from "@/lib/school-year";
 import { insertClassSchema, type Class, type Teacher, type Subject, type Assignment } from "@shared/schema";
 import { getParallelGroupForSubject } from "@shared/parallel-subjects";
 import { z } from "zod";
@@ -70,7 +71,7 @@ export default function Klassenverwaltung() {
 
   const { data: assignments, isLoading: assignmentsLoading } = useQuery<Assignment[]>({
     queryKey: ["/api/assignments"],
-    queryFn: () => fetch("/api/assignments?minimal=true").then(res => res.json())
+    queryFn: () => fetch(withSchoolYear("/api/assignments?minimal=true")).then(res => res.json())
   });
 
   // Helper function to parse German-style decimals
@@ -1,12 +1,49 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ProviderLoginButton } from "@/components/ProviderLoginButton";
+import { useAuthProvider } from "@/hooks/useAuth";
+import { queryClient } from "@/lib/queryClient";
 import { GraduationCap, Users, BookOpen, Calendar } from "lucide-react";
 
 export default function Landing() {
+  const { provider } = useAuthProvider();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
   const handleLogin = () => {
     window.location.href = "/api/login";
   };
 
+  const handleLocalLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoginError(null);
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setLoginError(data.message || "Anmeldung fehlgeschlagen");
+        return;
+      }
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    } catch (error) {
+      setLoginError("Netzwerkfehler bei der Anmeldung");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
       <div className="container mx-auto px-4 py-16">
@@ -63,26 +100,56 @@ export default function Landing() {
             <CardHeader className="text-center">
               <CardTitle className="text-2xl">Anmelden</CardTitle>
               <CardDescription>
-                Melden Sie sich mit Ihrem Google-Konto an, um das System zu nutzen.
-                Eine gültige Einladung ist erforderlich.
+                {provider?.type === "local"
+                  ? "Melden Sie sich mit E-Mail-Adresse und Passwort an."
+                  : provider?.type === "oidc"
+                    ? "Melden Sie sich mit Ihrem Schul-Login an, um das System zu nutzen."
+                    : "Melden Sie sich mit Ihrem Google-Konto an, um das System zu nutzen."}
+                {" "}Eine gültige Einladung ist erforderlich.
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Button 
-                onClick={handleLogin}
-                className="w-full text-lg py-6"
-                data-testid="button-login"
-              >
-                <div className="flex items-center gap-3">
-                  <svg className="h-5 w-5" viewBox="0 0 24 24">
-                    <path fill="currentColor" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                    <path fill="currentColor" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                    <path fill="currentColor" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                    <path fill="currentColor" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                  </svg>
-                  Mit Google anmelden
-                </div>
-              </Button>
+              {provider?.type === "local" ? (
+                <form onSubmit={handleLocalLogin} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="login-email">E-Mail-Adresse</Label>
+                    <Input
+                      id="login-email"
+                      type="email"
+                      autoComplete="username"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      data-testid="input-login-email"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Passwort</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      data-testid="input-login-password"
+                    />
+                  </div>
+                  {loginError && (
+                    <Alert variant="destructive">
+                      <AlertDescription data-testid="text-login-error">{loginError}</AlertDescription>
+                    </Alert>
+                  )}
+                  <Button
+                    type="submit"
+                    className="w-full text-lg py-6"
+                    disabled={isSubmitting}
+                    data-testid="button-login"
+                  >
+                    {isSubmitting ? "Anmeldung läuft..." : "Anmelden"}
+                  </Button>
+                </form>
+              ) : provider ? (
+                <ProviderLoginButton provider={provider} onClick={handleLogin} testId="button-login" />
+              ) : null}
               
               <div className="mt-4 text-center text-sm text-gray-600 dark:text-gray-400">
                 <p>Noch keine Einladung erhalten?</p>
@@ -1,6 +1,7 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient, apiRequest } from '@/lib/queryClient';
+import { withSchoolYear } from '@/lib/school-year';
 import { Sidebar } from '@/components/layout/sidebar';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -243,7 +244,7 @@ export default function LehrerFaecherZuordnung() {
   // Load assignments for BOTH semesters only when grade is selected
   const { data: assignments = [], isLoading: assignmentsLoading } = useQuery<AssignmentData[]>({ 
     queryKey: ['/api/assignments'],
-    queryFn: () => fetch(`/api/assignments?minimal=true`).then(res => res.json()),
+    queryFn: () => fetch(withSchoolYear(`/api/assignments?minimal=true`)).then(res => res.json()),
     staleTime: 30000,
     retry: false,
     enabled: selectedGrade !== null
@@ -255,7 +256,7 @@ export default function LehrerFaecherZuordnung() {
   // Abgleich mit Stundenpläne-Daten (vollständige API)
   const { refetch: refetchFullAssignments } = useQuery<AssignmentData[]>({ 
     queryKey: ['/api/assignments-full'],
-    queryFn: () => fetch(`/api/assignments`).then(res => res.json()),
+    queryFn: () => fetch(withSchoolYear(`/api/assignments`)).then(res => res.json()),
     enabled: false
   });
 
@@ -4,90 +4,21 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Users, TrendingUp, TrendingDown, AlertTriangle, CheckCircle } from "lucide-react";
-import { type Assignment } from "@shared/schema";
-
-interface Teacher {
-  id: string;
-  firstName: string;
-  lastName: string;
-  shortName: string;
-  subjects: string[];
-  currentHours: number;
-  maxHours: number;
-  qualifications: string[];
-  isActive: boolean;
-}
-
-interface PlanstelleOverview {
-  subject: string;
-  required: number;
-  available: number;
-  teachers: number;
-  status: "good" | "warning" | "critical";
-}
-
-// Mock data for demonstration
-const mockPlanstellenOverview: PlanstelleOverview[] = [
-  { subject: "Deutsch", required: 13.2, available: 12.5, teachers: 4, status: "warning" },
-  { subject: "Mathematik", required: 12.5, available: 11.8, teachers: 3, status: "warning" },
-  { subject: "Englisch", required: 9.8, available: 8.2, teachers: 3, status: "critical" },
-  { subject: "Naturwissenschaften", required: 8.2, available: 6.5, teachers: 2, status: "critical" },
-  { subject: "Geschichte", required: 6.0, available: 6.2, teachers: 2, status: "good" },
-  { subject: "Sport", required: 5.2, available: 4.8, teachers: 2, status: "warning" },
-  { subject: "Kunst", required: 3.5, available: 3.8, teachers: 1, status: "good" },
-  { subject: "Musik", required: 3.0, available: 2.5, teachers: 1, status: "critical" },
-];
+import {
+  REDUCTION_TYPES,
+  REDUCTION_TYPE_LABELS,
+  PLANSTELLEN_STATUS_LABELS,
+  type LehrerplanstellenOverview,
+  type PlanstellenStatus,
+} from "@shared/lehrerplanstellen";
 
 export default function Lehrerplanstellen() {
-  const { data: teachers, isLoading: teachersLoading } = useQuery<Teacher[]>({
-    queryKey: ["/api/teachers"],
-  });
-
-  const { data: assignments = [], isLoading: assignmentsLoading } = useQuery<Assignment[]>({
-    queryKey: ["/api/assignments"],
-    queryFn: () => fetch("/api/assignments?minimal=true").then(res => res.json())
+  const { data: overview, isLoading } = useQuery<LehrerplanstellenOverview>({
+    queryKey: ["/api/lehrerplanstellen"],
   });
 
-  // Calculate actual current hours for a teacher based on assignments
-  const calculateActualCurrentHours = (teacherId: string): number => {
-    const teacherAssignments = assignments.filter(a => a.teacherId === teacherId);
-    
-    // Group assignments to prevent double-counting of team teaching hours
-    const processedAssignments = new Map<string, { hours: number; semester: string }>();
-    
-    teacherAssignments.forEach(assignment => {
-      const hours = Number.parseFloat(assignment.hoursPerWeek);
-      
-      // Skip 0-hour assignments as they're often placeholders
-      if (!Number.isFinite(hours) || hours <= 0) return;
-      
-      // For team teaching, we need to count the hours for each teacher individually
-      // but avoid double-counting within the same teacher's workload
-      const groupKey = assignment.teamTeachingId 
-        ? `team-${assignment.teamTeachingId}-${assignment.classId}-${assignment.subjectId}-${assignment.semester}-${assignment.teacherId}`
-        : `individual-${assignment.classId}-${assignment.subjectId}-${assignment.teacherId}-${assignment.semester}`;
-      
-      const existing = processedAssignments.get(groupKey);
-      
-      // Keep the assignment with maximum hours (handles duplicates)
-      if (!existing || hours > existing.hours) {
-        processedAssignments.set(groupKey, { hours: hours, semester: assignment.semester });
-      }
-    });
-    
-    // Calculate semester hours separately
-    const s1Hours = Array.from(processedAssignments.values())
-      .filter(p => p.semester === "1")
-      .reduce((sum, p) => sum + p.hours, 0);
-      
-    const s2Hours = Array.from(processedAssignments.values())
-      .filter(p => p.semester === "2")
-      .reduce((sum, p) => sum + p.hours, 0);
-    
-    // Return the maximum of the two semesters (teacher's weekly workload)
-    // This matches the logic in stundenplaene.tsx
-    return Math.max(s1Hours, s2Hours);
-  };
+  const teachers = overview?.teachers ?? [];
+  const subjects = overview?.subjects ?? [];
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -107,29 +38,14 @@ export default function Lehrerplanstellen() {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "good": return "Gut versorgt";
-      case "warning": return "Unterbesetzt";
-      case "critical": return "Kritisch";
-      default: return "Unbekannt";
-    }
-  };
+  const getStatusBadge = (status: PlanstellenStatus) => PLANSTELLEN_STATUS_LABELS[status] ?? "Unbekannt";
 
-  const totalTeachers = teachers?.length || 0;
-  const activeTeachers = teachers?.filter(t => t.isActive).length || 0;
-  
-  // Calculate workload with the actual calculated hours
-  const averageWorkload = teachers?.length ? 
-    teachers.reduce((sum, t) => {
-      const actualHours = calculateActualCurrentHours(t.id);
-      const maxHours = Number(t.maxHours) || 0;
-      return sum + (maxHours > 0 ? actualHours / maxHours : 0);
-    }, 0) / teachers.length * 100 : 0;
+  const totalTeachers = teachers.length;
+  const activeTeachers = teachers.filter(t => t.isActive).length;
 
-  const goodSupplied = mockPlanstellenOverview.filter(p => p.status === "good").length;
-  const warnings = mockPlanstellenOverview.filter(p => p.status === "warning").length;
-  const critical = mockPlanstellenOverview.filter(p => p.status === "critical").length;
+  const goodSupplied = subjects.filter(p => p.status === "good").length;
+  const warnings = subjects.filter(p => p.status === "warning").length;
+  const critical = subjects.filter(p => p.status === "critical").length;
 
   return (
     <div className="flex h-screen bg-background">
@@ -218,12 +134,69 @@ export default function Lehrerplanstellen() {
             </Card>
           </div>
 
+          {/* Planstellen Totals */}
+          {overview && (
+            <Card data-testid="card-planstellen-totals">
+              <CardHeader>
+                <CardTitle>Stellenbilanz (Deputat {overview.deputat} Std.)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Soll (Deputate)</p>
+                    <p className="text-xl font-bold text-foreground" data-testid="total-soll">
+                      {overview.totals.sollHours.toFixed(1)} Std. · {overview.totals.sollStellen.toFixed(2)} Stellen
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Ermäßigungen</p>
+                    <p className="text-xl font-bold text-orange-600" data-testid="total-ermaessigungen">
+                      {overview.totals.ermaessigungHours.toFixed(1)} Std.
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Verfügbar</p>
+                    <p className="text-xl font-bold text-foreground" data-testid="total-verfuegbar">
+                      {overview.totals.verfuegbarHours.toFixed(1)} Std. · {overview.totals.verfuegbarStellen.toFixed(2)} Stellen
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Bedarf (Stundentafel)</p>
+                    <p className="text-xl font-bold text-foreground" data-testid="total-bedarf">
+                      {overview.totals.bedarfHours.toFixed(1)} Std. · {overview.totals.bedarfStellen.toFixed(2)} Stellen
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Ist (zugewiesen)</p>
+                    <p className="text-xl font-bold text-foreground" data-testid="total-ist">
+                      {overview.totals.istHours.toFixed(1)} Std. · {overview.totals.istStellen.toFixed(2)} Stellen
+                    </p>
+                  </div>
+                </div>
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {REDUCTION_TYPES.filter(type => overview.totals.reductions[type] > 0).map(type => (
+                    <Badge key={type} variant="light" title={REDUCTION_TYPE_LABELS[type]}>
+                      {type}: {overview.totals.reductions[type].toFixed(1)}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Subject Overview */}
           <Card data-testid="card-subject-overview">
             <CardHeader>
               <CardTitle>Fachbezogene Planstellenübersicht</CardTitle>
             </CardHeader>
             <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8">Lade Planstellendaten...</div>
+              ) : subjects.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Keine Fächer mit Bedarf oder Lehrkräften vorhanden.
+                </div>
+              ) : (
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-muted">
@@ -237,6 +210,9 @@ export default function Lehrerplanstellen() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                         Verfügbar
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                        Zugewiesen
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                         Lehrkräfte
                       </th>
@@ -249,48 +225,52 @@ export default function Lehrerplanstellen() {
                     </tr>
                   </thead>
                   <tbody className="bg-card divide-y divide-border">
-                    {mockPlanstellenOverview.map((subject, index) => {
-                      const coverage = (subject.available / subject.required) * 100;
-                      return (
-                        <tr key={index} data-testid={`row-subject-${subject.subject.toLowerCase()}`}>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-foreground">{subject.subject}</div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
-                            {subject.required.toFixed(1)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
-                            {subject.available.toFixed(1)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
-                            {subject.teachers}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="flex items-center">
-                              <Progress value={Math.min(coverage, 100)} className="w-20 mr-2" />
-                              <span className="text-sm text-muted-foreground">
-                                {coverage.toFixed(0)}%
-                              </span>
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="flex items-center">
-                              {getStatusIcon(subject.status)}
-                              <Badge 
-                                variant={subject.status === "good" ? "light" : 
-                                        subject.status === "warning" ? "light" : "destructive"}
-                                className="ml-2"
-                              >
-                                {getStatusBadge(subject.status)}
-                              </Badge>
-                            </div>
-                          </td>
-                        </tr>
-                      );
-                    })}
+                    {subjects.map((subject) => (
+                      <tr key={subject.subjectId} data-testid={`row-subject-${subject.shortName.toLowerCase()}`}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-foreground">{subject.name}</div>
+                          <div className="text-sm text-muted-foreground">{subject.shortName}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                          {subject.bedarfHours.toFixed(1)} Std.
+                          <div className="text-xs text-muted-foreground">{subject.bedarfStellen.toFixed(2)} Stellen</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                          {subject.verfuegbarHours.toFixed(1)} Std.
+                          <div className="text-xs text-muted-foreground">{subject.verfuegbarStellen.toFixed(2)} Stellen</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                          {subject.istHours.toFixed(1)} Std.
+                          <div className="text-xs text-muted-foreground">{subject.istStellen.toFixed(2)} Stellen</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                          {subject.teacherCount}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center">
+                            <Progress value={Math.min(subject.coverage, 100)} className="w-20 mr-2" />
+                            <span className="text-sm text-muted-foreground">
+                              {subject.bedarfHours > 0 ? `${subject.coverage.toFixed(0)}%` : "–"}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center">
+                            {getStatusIcon(subject.status)}
+                            <Badge
+                              variant={subject.status === "critical" ? "destructive" : "light"}
+                              className="ml-2"
+                            >
+                              {getStatusBadge(subject.status)}
+                            </Badge>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
               </div>
+              )}
             </CardContent>
           </Card>
 
@@ -300,9 +280,9 @@ export default function Lehrerplanstellen() {
               <CardTitle>Lehrkräfte nach Fächern</CardTitle>
             </CardHeader>
             <CardContent>
-              {teachersLoading || assignmentsLoading ? (
+              {isLoading ? (
                 <div className="text-center py-8">Lade Lehrerdaten...</div>
-              ) : !teachers || teachers.length === 0 ? (
+              ) : teachers.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                   Keine Lehrerdaten vorhanden. Bitte importieren Sie CSV-Daten.
                 </div>
@@ -318,13 +298,19 @@ export default function Lehrerplanstellen() {
                           Fächer
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                          Stunden
+                          Soll
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                          Auslastung
+                          Ermäßigungen
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                          Qualifikationen
+                          Verfügbar
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                          Ist
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                          Auslastung
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                           Status
@@ -332,63 +318,75 @@ export default function Lehrerplanstellen() {
                       </tr>
                     </thead>
                     <tbody className="bg-card divide-y divide-border">
-                      {teachers.map((teacher) => {
-                        const actualCurrentHours = calculateActualCurrentHours(teacher.id);
-                        const maxHours = Number(teacher.maxHours) || 0;
-                        const workloadPercentage = maxHours > 0 ? (actualCurrentHours / maxHours) * 100 : 0;
-                        return (
-                          <tr key={teacher.id} data-testid={`row-teacher-${teacher.id}`}>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex items-center">
-                                <div className="w-8 h-8 bg-secondary rounded-full flex items-center justify-center">
-                                  <span className="text-secondary-foreground text-sm font-medium">
-                                    {teacher.shortName}
-                                  </span>
-                                </div>
-                                <div className="ml-3">
-                                  <div className="text-sm font-medium text-foreground">
-                                    {teacher.firstName} {teacher.lastName}
-                                  </div>
-                                  <div className="text-sm text-muted-foreground">{teacher.shortName}</div>
-                                </div>
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex flex-wrap gap-1">
-                                {teacher.subjects.map((subject, index) => (
-                                  <Badge key={index} variant="light">{subject}</Badge>
-                                ))}
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
-                              {actualCurrentHours.toFixed(1)} / {maxHours.toFixed(1)}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex items-center">
-                                <Progress value={workloadPercentage} className="w-16 mr-2" />
-                                <span className="text-sm text-muted-foreground">
-                                  {Math.round(workloadPercentage)}%
+                      {teachers.map((teacher) => (
+                        <tr key={teacher.teacherId} data-testid={`row-teacher-${teacher.teacherId}`}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              <div className="w-8 h-8 bg-secondary rounded-full flex items-center justify-center">
+                                <span className="text-secondary-foreground text-sm font-medium">
+                                  {teacher.shortName}
                                 </span>
                               </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex flex-wrap gap-1">
-                                {teacher.qualifications.slice(0, 2).map((qual, index) => (
-                                  <Badge key={index} variant="light">{qual}</Badge>
-                                ))}
-                                {teacher.qualifications.length > 2 && (
-                                  <Badge variant="light">+{teacher.qualifications.length - 2}</Badge>
-                                )}
+                              <div className="ml-3">
+                                <div className="text-sm font-medium text-foreground">{teacher.name}</div>
+                                <div className="text-sm text-muted-foreground">
+                                  {teacher.shortName}{!teacher.isActive && " · Inaktiv"}
+                                </div>
                               </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <Badge variant={teacher.isActive ? "light" : "destructive"}>
-                                {teacher.isActive ? "Aktiv" : "Inaktiv"}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex flex-wrap gap-1">
+                              {teacher.subjects.map((subject, index) => (
+                                <Badge key={index} variant="light">{subject}</Badge>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                            {teacher.sollHours.toFixed(1)}
+                            <div className="text-xs text-muted-foreground">{teacher.sollStellen.toFixed(2)} Stellen</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-foreground">{teacher.ermaessigungHours.toFixed(1)}</div>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {REDUCTION_TYPES.filter(type => teacher.reductions[type] > 0).map(type => (
+                                <Badge key={type} variant="light" title={REDUCTION_TYPE_LABELS[type]}>
+                                  {type} {teacher.reductions[type]}
+                                </Badge>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                            {teacher.verfuegbarHours.toFixed(1)}
+                            <div className="text-xs text-muted-foreground">{teacher.verfuegbarStellen.toFixed(2)} Stellen</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                            {teacher.istHours.toFixed(1)}
+                            <div className="text-xs text-muted-foreground">
+                              1. HJ {teacher.istSemester["1"].toFixed(1)} · 2. HJ {teacher.istSemester["2"].toFixed(1)}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              <Progress value={Math.min(teacher.utilization, 100)} className="w-16 mr-2" />
+                              <span className="text-sm text-muted-foreground">
+                                {Math.round(teacher.utilization)}%
+                              </span>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              {getStatusIcon(teacher.status)}
+                              <Badge
+                                variant={teacher.status === "critical" ? "destructive" : "light"}
+                                className="ml-2"
+                              >
+                                {teacher.status === "good" ? "Passend" : teacher.differenzHours < 0 ? "Überlastet" : "Unterausgelastet"}
                               </Badge>
-                            </td>
-                          </tr>
-                        );
-                      })}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
                     </tbody>
                   </table>
                 </div>
@@ -21,8 +21,14 @@ import { useToast } from "@/hooks/use-toast";
 import { Plus, Edit, Trash2, Presentation, Search, Filter, Calendar, ChevronLeft, ChevronRight, User } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
-import { insertTeacherSchema, type Teacher, type InsertTeacher, type Subject, type Assignment, type Class } from "@shared/schema";
+import { withSchoolYear } from "@/lib/school-year";
+import { TeacherConstraintsEditor } from "@/components/TeacherConstraintsEditor";
+import { TeacherReductionLedger } from "@/components/TeacherReductionLedger";
+import { TeacherHoursConsistencyDialog } from "@/components/TeacherHoursConsistencyDialog";
+import { insertTeacherSchema, type Teacher, type InsertTeacher, type Subject, type Assignment, type Class, type TeamTeachingSetting } from "@shared/schema";
 import { calculateCorrectHours, PARALLEL_GROUPS } from '@shared/parallel-subjects';
+import { calculateTeacherHours } from '@shared/teacher-workload';
+import { calculateAgeReduction as getAgeReduction, getEmploymentRatio } from '@shared/teacher-reductions';
 import { z } from "zod";
 
 const teacherFormSchema = insertTeacherSchema.extend({
@@ -59,52 +65,11 @@ const reductionCategories = [
   { key: "VG", label: "VG", description: "Vorgriffsstunden" },
 ];
 
-// Automatische Altersermäßigung berechnen mit Beschäftigungsumfang
-// Stichtag: 30.08. des jeweiligen Schuljahres
-// Neue Regeln:
-// - 0,5 Stunden: nach Vollendung des 55. Lebensjahres bei mindestens 50% Beschäftigungsumfang
-// - 2,0 Stunden: nach Vollendung des 60. Lebensjahres und mindestens 75% Beschäftigungsumfang
-// - 1,5 Stunden: nach Vollendung des 60. Lebensjahres und mindestens 50% Beschäftigungsumfang
-function calculateAgeReduction(dateOfBirth: string, currentHours: string | number = "0", maxHours: string | number = "25"): number {
-  if (!dateOfBirth) return 0;
-  
-  const birthDate = new Date(dateOfBirth);
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  
-  // Stichtag ist der 30.08. des aktuellen Schuljahres
-  // Wenn wir nach dem 30.08. sind, dann ist das aktuelle Schuljahr
-  // Wenn wir vor dem 30.08. sind, dann ist das vorherige Schuljahr relevant
-  const cutoffDate = new Date(currentYear, 7, 30); // 30. August (Monat 7 = August)
-  const schoolYear = now >= cutoffDate ? currentYear : currentYear - 1;
-  const schoolYearCutoff = new Date(schoolYear, 7, 30);
-  
-  // Alter am Stichtag berechnen
-  const age = schoolYearCutoff.getFullYear() - birthDate.getFullYear();
-  const monthDiff = schoolYearCutoff.getMonth() - birthDate.getMonth();
-  const dayDiff = schoolYearCutoff.getDate() - birthDate.getDate();
-  
-  const exactAge = age - (monthDiff < 0 || (monthDiff === 0 && dayDiff < 0) ? 1 : 0);
-  
-  // Beschäftigungsumfang berechnen - String zu Number konvertieren
-  const currentHoursNum = typeof currentHours === 'string' ? parseFloat(currentHours) || 0 : currentHours;
-  const maxHoursNum = typeof maxHours === 'string' ? parseFloat(maxHours) || 25 : maxHours;
-  const employmentPercentage = maxHoursNum > 0 ? (currentHoursNum / maxHoursNum) * 100 : 0;
-  
-  // Altersermäßigung nach neuen Regeln
-  if (exactAge >= 60) {
-    if (employmentPercentage >= 75) {
-      return 2.0; // 2,0 Stunden bei >= 75% Beschäftigungsumfang
-    } else if (employmentPercentage >= 50) {
-      return 1.5; // 1,5 Stunden bei >= 50% Beschäftigungsumfang
-    }
-  } else if (exactAge >= 55) {
-    if (employmentPercentage >= 50) {
-      return 0.5; // 0,5 Stunden bei >= 50% Beschäftigungsumfang
-    }
-  }
-  
-  return 0;
+// Altersermäßigung zum heutigen Datum (Regeln siehe @shared/teacher-reductions);
+// für gespeicherte Lehrkräfte berechnet der Server sie je Halbjahr aus dem Ermäßigungsverlauf
+function calculateAgeReduction(dateOfBirth: string, maxHours: string | number = "25"): number {
+  const today = new Date().toISOString().slice(0, 10);
+  return getAgeReduction(dateOfBirth, today, getEmploymentRatio({ maxHours: maxHours.toString() })).hours;
 }
 
 export default function Lehrerverwaltung() {
@@ -127,7 +92,7 @@ export default function Lehrerverwaltung() {
   // Load assignments to calculate actual teacher workload
   const { data: assignments = [] } = useQuery<Assignment[]>({
     queryKey: ["/api/assignments"],
-    queryFn: () => fetch("/api/assignments?minimal=true").then(res => res.json())
+    queryFn: () => fetch(withSchoolYear("/api/assignments?minimal=true")).then(res => res.json())
   });
 
   // Load classes for correct hours calculation
@@ -135,77 +100,19 @@ export default function Lehrerverwaltung() {
     queryKey: ["/api/classes"],
   });
 
-  // OPTIMIZATION: Build teacherId->assignments index with single O(n) pass instead of O(n·m) filters
-  const teacherAssignmentsMap = useMemo(() => {
-    const map = new Map<string, Assignment[]>();
-    assignments.forEach(assignment => {
-      const teacherAssignments = map.get(assignment.teacherId) || [];
-      teacherAssignments.push(assignment);
-      map.set(assignment.teacherId, teacherAssignments);
-    });
-    return map;
-  }, [assignments]);
+  // Team-teaching crediting per group
+  const { data: teamTeachingSettings = [] } = useQuery<TeamTeachingSetting[]>({
+    queryKey: ["/api/team-teaching-settings"],
+  });
 
-  // OPTIMIZATION: Pre-calculate hours for all teachers once instead of on-demand per teacher
-  // Uses the EXACT same logic as stundenplaene.tsx teacherSummary
+  // currentHours per teacher, same rules as the server-side consistency check
   const teacherHoursMap = useMemo(() => {
     const hoursMap = new Map<string, number>();
-    
-    teacherAssignmentsMap.forEach((teacherAssignments, teacherId) => {
-      // Use the same grouping logic as teacherSummary in stundenplaene.tsx
-      const processedAssignments = new Map<string, { hours: number; semester: string }>();
-      
-      teacherAssignments.forEach(assignment => {
-        const hours = parseFloat(assignment.hoursPerWeek);
-        
-        // Skip 0-hour assignments as they're often placeholders
-        if (hours <= 0) return;
-        
-        // Get subject and parallel group info
-        const subject = subjects.find(s => s.id === assignment.subjectId);
-        const parallelGroup = subject?.parallelGroup;
-        const classData = classes.find(c => c.id === assignment.classId);
-        const grade = classData?.grade ?? 'na';
-        
-        // Create grouping key using SAME logic as stundenplaene.tsx
-        // Always use class+subject+teacher+semester as base grouping key to prevent duplicates
-        // This ensures that if there's both a team teaching assignment and a regular assignment
-        // for the same combination, only the one with more hours is counted
-        let groupKey: string;
-        if (parallelGroup === 'Differenzierung') {
-          // For Differenzierung, group by subject+teacher+semester+grade to handle kurs/klasse duplicates
-          groupKey = `diff-${assignment.subjectId}-${assignment.teacherId}-${assignment.semester}-${grade}`;
-        } else {
-          // For all other cases, group by class+subject+teacher+semester
-          groupKey = `${assignment.classId}-${assignment.subjectId}-${assignment.teacherId}-${assignment.semester}`;
-        }
-        
-        const existing = processedAssignments.get(groupKey);
-        
-        // Keep the assignment with maximum hours (handles duplicates)
-        if (!existing || hours > existing.hours) {
-          processedAssignments.set(groupKey, {
-            hours: hours,
-            semester: assignment.semester
-          });
-        }
-      });
-      
-      // Calculate semester hours from processed assignments
-      const s1Hours = Array.from(processedAssignments.values())
-        .filter(a => a.semester === "1")
-        .reduce((sum, a) => sum + a.hours, 0);
-        
-      const s2Hours = Array.from(processedAssignments.values())
-        .filter(a => a.semester === "2")
-        .reduce((sum, a) => sum + a.hours, 0);
-      
-      // Store the average of the two semesters (teacher's weekly workload)
-      hoursMap.set(teacherId, (s1Hours + s2Hours) / 2);
+    calculateTeacherHours(assignments, subjects, classes, { teamTeachingSettings }).forEach((hours, teacherId) => {
+      hoursMap.set(teacherId, hours.averageHours);
     });
-    
     return hoursMap;
-  }, [teacherAssignmentsMap, subjects, classes]);
+  }, [assignments, subjects, classes, teamTeachingSettings]);
 
   // OPTIMIZATION: Use memoized lookup instead of recalculating on every call
   const calculateActualCurrentHours = useCallback((teacherId: string): number => {
@@ -354,18 +261,19 @@ export default function Lehrerverwaltung() {
   };
 
   const handleSubmit = (data: TeacherFormData) => {
-    // Sicherstellen dass die berechnete Altersermäßigung im Payload enthalten ist
-    const finalData = {
-      ...data,
-      reductionHours: {
-        ...data.reductionHours,
-        aE: calculateAgeReduction(data.dateOfBirth || "", data.currentHours || 0, data.maxHours || 25)
-      }
-    };
-    
     if (editingTeacher) {
-      updateMutation.mutate({ id: editingTeacher.id, data: finalData });
+      // Ermäßigungen gespeicherter Lehrkräfte pflegt der Ermäßigungsverlauf
+      const { reductionHours, ...teacherData } = data;
+      updateMutation.mutate({ id: editingTeacher.id, data: teacherData });
     } else {
+      // Sicherstellen dass die berechnete Altersermäßigung im Payload enthalten ist
+      const finalData = {
+        ...data,
+        reductionHours: {
+          ...data.reductionHours,
+          AE: calculateAgeReduction(data.dateOfBirth || "", data.maxHours || 25)
+        }
+      };
       createMutation.mutate(finalData);
     }
   };
@@ -381,17 +289,11 @@ export default function Lehrerverwaltung() {
     // Nur speichern wenn wir gerade eine Lehrkraft bearbeiten und das Formular gültig ist
     if (editingTeacher && form.formState.isValid) {
       try {
-        const formData = form.getValues();
-        const finalData = {
-          ...formData,
-          reductionHours: {
-            ...formData.reductionHours,
-            aE: calculateAgeReduction(formData.dateOfBirth || "", formData.currentHours || 0, formData.maxHours || 25)
-          }
-        };
-        
+        // Ermäßigungen pflegt der Ermäßigungsverlauf, daher ohne reductionHours speichern
+        const { reductionHours, ...teacherData } = form.getValues();
+
         // Verwende die spezielle autoSaveMutation, die das Dialog nicht schließt
-        await autoSaveMutation.mutateAsync({ id: editingTeacher.id, data: finalData });
+        await autoSaveMutation.mutateAsync({ id: editingTeacher.id, data: teacherData });
       } catch (error) {
         console.log("Auto-save failed:", error);
         // Fehler ignorieren und trotzdem weiternavigieren
@@ -507,510 +409,526 @@ export default function Lehrerverwaltung() {
               <h2 className="text-2xl font-semibold text-foreground">Lehrerverwaltung</h2>
               <p className="text-muted-foreground">Verwaltung der Lehrkräfte und deren Qualifikationen</p>
             </div>
-            <Dialog modal={false} open={isDialogOpen} onOpenChange={(open) => {
-              setIsDialogOpen(open);
-              if (open) {
-              }
-            }}>
-              <DialogTrigger asChild>
-                <Button data-testid="button-add-teacher" onClick={() => {
-                  setEditingTeacher(null);
-              
-                  form.reset();
-                  setIsDialogOpen(true); // Manually open dialog
-                }}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Lehrkraft hinzufügen
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-                <DialogHeader>
-                  <div className="flex items-center justify-between">
-                    <DialogTitle className="flex items-center gap-2">
-                      {editingTeacher ? (
-                        <>
-                          <User className="h-5 w-5" />
-                          <span>Lehrkraft bearbeiten</span>
-                        </>
-                      ) : (
-                        <>
-                          <Plus className="h-5 w-5" />
-                          <span>Neue Lehrkraft</span>
-                        </>
+            <div className="flex items-center gap-2">
+              <TeacherHoursConsistencyDialog />
+              <Dialog modal={false} open={isDialogOpen} onOpenChange={(open) => {
+                setIsDialogOpen(open);
+                if (open) {
+                }
+              }}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-add-teacher" onClick={() => {
+                    setEditingTeacher(null);
+
+                    form.reset();
+                    setIsDialogOpen(true); // Manually open dialog
+                  }}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Lehrkraft hinzufügen
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <div className="flex items-center justify-between">
+                      <DialogTitle className="flex items-center gap-2">
+                        {editingTeacher ? (
+                          <>
+                            <User className="h-5 w-5" />
+                            <span>Lehrkraft bearbeiten</span>
+                          </>
+                        ) : (
+                          <>
+                            <Plus className="h-5 w-5" />
+                            <span>Neue Lehrkraft</span>
+                          </>
+                        )}
+                      </DialogTitle>
+
+                      {/* Navigation nur beim Bearbeiten anzeigen */}
+                      {editingTeacher && filteredTeachers.length > 1 && (
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">
+                            {getCurrentTeacherIndex() + 1} von {filteredTeachers.length}
+                          </span>
+                          <div className="flex gap-1">
+                            <Button 
+                              type="button"
+                              variant="outline" 
+                              size="sm"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                navigatePrevious();
+                              }}
+                              disabled={!canNavigatePrevious()}
+                              data-testid="button-previous-teacher"
+                              title="Vorherige Lehrkraft"
+                            >
+                              <ChevronLeft className="h-4 w-4" />
+                            </Button>
+                            <Button 
+                              type="button"
+                              variant="outline" 
+                              size="sm"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                navigateNext();
+                              }}
+                              disabled={!canNavigateNext()}
+                              data-testid="button-next-teacher"
+                              title="Nächste Lehrkraft"
+                            >
+                              <ChevronRight className="h-4 w-4" />
+                            </Button>
+                          </div>
+
+                          {/* Dropdown für direkte Navigation */}
+                          <Select value={editingTeacher?.id || ""} onValueChange={(value) => {
+                            const teacher = filteredTeachers.find(t => t.id === value);
+                            if (teacher) autoSaveAndNavigateToTeacher(teacher);
+                          }}>
+                            <SelectTrigger className="w-[200px]" data-testid="select-teacher-navigation">
+                              <SelectValue placeholder="Lehrkraft wählen..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {filteredTeachers.map((teacher) => (
+                                <SelectItem key={teacher.id} value={teacher.id}>
+                                  {teacher.lastName}, {teacher.firstName} ({teacher.shortName})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       )}
-                    </DialogTitle>
-                    
-                    {/* Navigation nur beim Bearbeiten anzeigen */}
-                    {editingTeacher && filteredTeachers.length > 1 && (
-                      <div className="flex items-center gap-2">
-                        <span className="text-sm text-muted-foreground">
-                          {getCurrentTeacherIndex() + 1} von {filteredTeachers.length}
-                        </span>
-                        <div className="flex gap-1">
-                          <Button 
-                            type="button"
-                            variant="outline" 
-                            size="sm"
-                            onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              navigatePrevious();
-                            }}
-                            disabled={!canNavigatePrevious()}
-                            data-testid="button-previous-teacher"
-                            title="Vorherige Lehrkraft"
-                          >
-                            <ChevronLeft className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            type="button"
-                            variant="outline" 
-                            size="sm"
-                            onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              navigateNext();
-                            }}
-                            disabled={!canNavigateNext()}
-                            data-testid="button-next-teacher"
-                            title="Nächste Lehrkraft"
-                          >
-                            <ChevronRight className="h-4 w-4" />
-                          </Button>
+                    </div>
+                  </DialogHeader>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="firstName"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Vorname</FormLabel>
+                              <FormControl>
+                                <Input {...field} data-testid="input-first-name" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="lastName"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Nachname</FormLabel>
+                              <FormControl>
+                                <Input {...field} data-testid="input-last-name" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="shortName"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Kürzel</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder="z.B. MS" data-testid="input-short-name" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="personnelNumber"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Personalnummer</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder="z.B. C9405000" data-testid="input-personnel-number" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-1 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="email"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>E-Mail</FormLabel>
+                              <FormControl>
+                                <Input {...field} type="email" value={field.value || ""} data-testid="input-email" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="dateOfBirth"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Geburtsdatum</FormLabel>
+                              <FormControl>
+                                <Input {...field} type="date" value={field.value || ""} data-testid="input-date-of-birth" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <div className="flex items-end">
+                          <div className="text-sm text-muted-foreground">
+                            <p>Altersermäßigung (automatisch):</p>
+                            <Badge variant="light" className="mt-1">
+                              {calculateAgeReduction(
+                                form.watch("dateOfBirth") || "", 
+                                form.watch("maxHours") || 25
+                              )} Stunden
+                            </Badge>
+                            <p className="text-xs mt-1">
+                              {(() => {
+                                const ratio = getEmploymentRatio({ maxHours: form.watch("maxHours") || "25" });
+                                const percentage = (ratio * 100).toFixed(1);
+                                return `Beschäftigungsumfang: ${percentage}%`;
+                              })()}
+                            </p>
+                          </div>
                         </div>
-                        
-                        {/* Dropdown für direkte Navigation */}
-                        <Select value={editingTeacher?.id || ""} onValueChange={(value) => {
-                          const teacher = filteredTeachers.find(t => t.id === value);
-                          if (teacher) autoSaveAndNavigateToTeacher(teacher);
-                        }}>
-                          <SelectTrigger className="w-[200px]" data-testid="select-teacher-navigation">
-                            <SelectValue placeholder="Lehrkraft wählen..." />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {filteredTeachers.map((teacher) => (
-                              <SelectItem key={teacher.id} value={teacher.id}>
-                                {teacher.lastName}, {teacher.firstName} ({teacher.shortName})
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
                       </div>
-                    )}
-                  </div>
-                </DialogHeader>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="firstName"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Vorname</FormLabel>
-                            <FormControl>
-                              <Input {...field} data-testid="input-first-name" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="lastName"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Nachname</FormLabel>
-                            <FormControl>
-                              <Input {...field} data-testid="input-last-name" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="shortName"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Kürzel</FormLabel>
-                            <FormControl>
-                              <Input {...field} placeholder="z.B. MS" data-testid="input-short-name" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
                       <FormField
                         control={form.control}
-                        name="personnelNumber"
+                        name="subjects"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Personalnummer</FormLabel>
-                            <FormControl>
-                              <Input {...field} placeholder="z.B. C9405000" data-testid="input-personnel-number" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                            <FormLabel>Fächer</FormLabel>
 
-                    <div className="grid grid-cols-1 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="email"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>E-Mail</FormLabel>
-                            <FormControl>
-                              <Input {...field} type="email" value={field.value || ""} data-testid="input-email" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                            {/* Subject Summary */}
+                            {field.value.length > 0 && (
+                              <div className="flex flex-wrap items-center gap-1 p-2 bg-muted/30 rounded text-xs mb-2">
+                                <span className="text-muted-foreground">Gewählt ({field.value.length}):</span>
+                                {field.value.map((subjectName, index) => {
+                                  const subject = subjects.find(s => s.name === subjectName || s.shortName === subjectName);
+                                  return (
+                                    <Badge key={`${subject?.id || subjectName}-${index}`} variant="light" className="text-xs">
+                                      {subjectName}
+                                    </Badge>
+                                  );
+                                })}
+                              </div>
+                            )}
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="dateOfBirth"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Geburtsdatum</FormLabel>
                             <FormControl>
-                              <Input {...field} type="date" value={field.value || ""} data-testid="input-date-of-birth" />
+                              <Popover>
+                                <PopoverTrigger asChild>
+                                  <Button
+                                    variant="outline"
+                                    className="w-full justify-start text-left font-normal"
+                                    data-testid="select-subjects"
+                                  >
+                                    {field.value.length === 0 ? "Fächer auswählen..." : `${field.value.length} Fächer ausgewählt`}
+                                  </Button>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-[400px] p-3" align="start">
+                                  <div className="space-y-2">
+                                    <div className="text-sm font-medium">Fächer auswählen:</div>
+                                    <div className="max-h-[300px] overflow-y-scroll overscroll-contain space-y-1 border rounded-md p-2">
+                                      {subjects
+                                        .sort((a, b) => {
+                                          // AG-Fächer ans Ende (alle Varianten: "AG xyz", "xyz AG", "xyz-AG", "xyz10AG")
+                                          const aIsAG = a.name.startsWith('AG ') || a.name.endsWith(' AG') || a.name.endsWith('-AG') || a.name.includes('AG');
+                                          const bIsAG = b.name.startsWith('AG ') || b.name.endsWith(' AG') || b.name.endsWith('-AG') || b.name.includes('AG');
+
+                                          if (aIsAG && !bIsAG) return 1;  // a nach hinten
+                                          if (!aIsAG && bIsAG) return -1; // b nach hinten
+
+                                          // Beide AG oder beide normal - alphabetisch sortieren
+                                          return a.name.localeCompare(b.name);
+                                        })
+                                        .map((subject) => {
+                                          const subjectKey = subject.shortName || subject.name;
+                                          const isSelected = field.value.includes(subject.name) || field.value.includes(subject.shortName || '') || field.value.includes(subjectKey);
+
+                                          return (
+                                            <div
+                                              key={subject.id}
+                                              className="flex items-center space-x-2 p-2 hover:bg-muted rounded cursor-pointer"
+                                              onClick={() => {
+                                                if (isSelected) {
+                                                  // Remove alle möglichen Varianten des Fachs
+                                                  field.onChange(field.value.filter(s => 
+                                                    s !== subject.name && 
+                                                    s !== subject.shortName && 
+                                                    s !== subjectKey
+                                                  ));
+                                                } else {
+                                                  // Füge das Fach hinzu (bevorzuge shortName wenn vorhanden)
+                                                  field.onChange([...field.value, subjectKey]);
+                                                }
+                                              }}
+                                              data-testid={`select-option-${subject.id}`}
+                                            >
+                                              <Checkbox
+                                                checked={isSelected}
+                                                className="pointer-events-none"
+                                              />
+                                              <span className="text-sm">{subject.name}</span>
+                                            </div>
+                                          );
+                                        })}
+                                    </div>
+                                  </div>
+                                </PopoverContent>
+                              </Popover>
                             </FormControl>
+
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                      <div className="flex items-end">
-                        <div className="text-sm text-muted-foreground">
-                          <p>Altersermäßigung (automatisch):</p>
-                          <Badge variant="light" className="mt-1">
-                            {calculateAgeReduction(
-                              form.watch("dateOfBirth") || "", 
-                              form.watch("currentHours") || 0, 
-                              form.watch("maxHours") || 25
-                            )} Stunden
-                          </Badge>
-                          <p className="text-xs mt-1">
-                            {(() => {
-                              const currentHours = parseFloat(form.watch("currentHours") || "0");
-                              const maxHours = parseFloat(form.watch("maxHours") || "25");
-                              const percentage = maxHours > 0 ? ((currentHours / maxHours) * 100).toFixed(1) : 0;
-                              return `Beschäftigungsumfang: ${percentage}%`;
-                            })()}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
 
-                    <FormField
-                      control={form.control}
-                      name="subjects"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Fächer</FormLabel>
-                          
-                          {/* Subject Summary */}
-                          {field.value.length > 0 && (
-                            <div className="flex flex-wrap items-center gap-1 p-2 bg-muted/30 rounded text-xs mb-2">
-                              <span className="text-muted-foreground">Gewählt ({field.value.length}):</span>
-                              {field.value.map((subjectName, index) => {
-                                const subject = subjects.find(s => s.name === subjectName || s.shortName === subjectName);
-                                return (
-                                  <Badge key={`${subject?.id || subjectName}-${index}`} variant="light" className="text-xs">
-                                    {subjectName}
-                                  </Badge>
-                                );
-                              })}
-                            </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="maxHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Max. Stunden/Woche</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  {...field} 
+                                  type="number" 
+                                  step="0.5"
+                                  onChange={e => field.onChange(e.target.value)}
+                                  data-testid="input-max-hours"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
                           )}
-                          
-                          <FormControl>
-                            <Popover>
-                              <PopoverTrigger asChild>
-                                <Button
-                                  variant="outline"
-                                  className="w-full justify-start text-left font-normal"
-                                  data-testid="select-subjects"
-                                >
-                                  {field.value.length === 0 ? "Fächer auswählen..." : `${field.value.length} Fächer ausgewählt`}
-                                </Button>
-                              </PopoverTrigger>
-                              <PopoverContent className="w-[400px] p-3" align="start">
-                                <div className="space-y-2">
-                                  <div className="text-sm font-medium">Fächer auswählen:</div>
-                                  <div className="max-h-[300px] overflow-y-scroll overscroll-contain space-y-1 border rounded-md p-2">
-                                    {subjects
-                                      .sort((a, b) => {
-                                        // AG-Fächer ans Ende (alle Varianten: "AG xyz", "xyz AG", "xyz-AG", "xyz10AG")
-                                        const aIsAG = a.name.startsWith('AG ') || a.name.endsWith(' AG') || a.name.endsWith('-AG') || a.name.includes('AG');
-                                        const bIsAG = b.name.startsWith('AG ') || b.name.endsWith(' AG') || b.name.endsWith('-AG') || b.name.includes('AG');
-                                        
-                                        if (aIsAG && !bIsAG) return 1;  // a nach hinten
-                                        if (!aIsAG && bIsAG) return -1; // b nach hinten
-                                        
-                                        // Beide AG oder beide normal - alphabetisch sortieren
-                                        return a.name.localeCompare(b.name);
-                                      })
-                                      .map((subject) => {
-                                        const subjectKey = subject.shortName || subject.name;
-                                        const isSelected = field.value.includes(subject.name) || field.value.includes(subject.shortName || '') || field.value.includes(subjectKey);
-                                        
-                                        return (
-                                          <div
-                                            key={subject.id}
-                                            className="flex items-center space-x-2 p-2 hover:bg-muted rounded cursor-pointer"
-                                            onClick={() => {
-                                              if (isSelected) {
-                                                // Remove alle möglichen Varianten des Fachs
-                                                field.onChange(field.value.filter(s => 
-                                                  s !== subject.name && 
-                                                  s !== subject.shortName && 
-                                                  s !== subjectKey
-                                                ));
-                                              } else {
-                                                // Füge das Fach hinzu (bevorzuge shortName wenn vorhanden)
-                                                field.onChange([...field.value, subjectKey]);
-                                              }
-                                            }}
-                                            data-testid={`select-option-${subject.id}`}
-                                          >
-                                            <Checkbox
-                                              checked={isSelected}
-                                              className="pointer-events-none"
-                                            />
-                                            <span className="text-sm">{subject.name}</span>
-                                          </div>
-                                        );
-                                      })}
-                                  </div>
-                                </div>
-                              </PopoverContent>
-                            </Popover>
-                          </FormControl>
-                          
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                        />
+                        <FormField
+                          control={form.control}
+                          name="currentHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Aktuelle Stunden/Woche</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  {...field} 
+                                  type="number" 
+                                  step="0.5"
+                                  onChange={e => field.onChange(e.target.value)}
+                                  data-testid="input-current-hours"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
 
-                    <div className="grid grid-cols-2 gap-4">
                       <FormField
                         control={form.control}
-                        name="maxHours"
+                        name="qualifications"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Max. Stunden/Woche</FormLabel>
+                            <FormLabel>Qualifikationen (eine pro Zeile)</FormLabel>
                             <FormControl>
-                              <Input 
-                                {...field} 
-                                type="number" 
-                                step="0.5"
-                                onChange={e => field.onChange(e.target.value)}
-                                data-testid="input-max-hours"
+                              <Textarea 
+                                value={field.value?.join('\n') || ''}
+                                onChange={e => field.onChange(e.target.value.split('\n').filter(q => q.trim()))}
+                                placeholder="z.B. Lehramt Sekundarstufe I&#10;Fachleitung Mathematik"
+                                data-testid="textarea-qualifications"
                               />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
+
                       <FormField
                         control={form.control}
-                        name="currentHours"
+                        name="notes"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Aktuelle Stunden/Woche</FormLabel>
+                            <FormLabel>Notizen</FormLabel>
                             <FormControl>
-                              <Input 
-                                {...field} 
-                                type="number" 
-                                step="0.5"
-                                onChange={e => field.onChange(e.target.value)}
-                                data-testid="input-current-hours"
+                              <Textarea 
+                                {...field}
+                                placeholder="Freie Anmerkungen zur Lehrkraft..."
+                                rows={3}
+                                data-testid="textarea-notes"
                               />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                    </div>
 
-                    <FormField
-                      control={form.control}
-                      name="qualifications"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Qualifikationen (eine pro Zeile)</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              value={field.value?.join('\n') || ''}
-                              onChange={e => field.onChange(e.target.value.split('\n').filter(q => q.trim()))}
-                              placeholder="z.B. Lehramt Sekundarstufe I&#10;Fachleitung Mathematik"
-                              data-testid="textarea-qualifications"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="notes"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Notizen</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              {...field}
-                              placeholder="Freie Anmerkungen zur Lehrkraft..."
-                              rows={3}
-                              data-testid="textarea-notes"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                      {/* Ermäßigungsstunden: gespeicherte Lehrkräfte über den Verlauf, neue über Startwerte */}
+                      <div className="space-y-4">
+                        <div className="border-t pt-4">
+                          <h3 className="text-lg font-medium mb-4">Ermäßigungsstunden</h3>
+                          {editingTeacher ? (
+                            <TeacherReductionLedger key={editingTeacher.id} teacherId={editingTeacher.id} />
+                          ) : (
+                          <>
+                          <div className="grid grid-cols-3 gap-4">
+                            {reductionCategories.filter(category => category.key !== 'AE').map((category) => (
+                              <div key={category.key}>
+                                <Label className="text-sm font-medium">
+                                  {category.label} 
+                                  <span className="text-xs text-muted-foreground block">
+                                    {category.description}
+                                  </span>
+                                </Label>
+                                <Input 
+                                  type="number"
+                                  min="0"
+                                  step="0.5"
+                                  value={(form.watch("reductionHours") as any)?.[category.key] || 0}
+                                  onChange={e => {
+                                    const currentReductions = form.getValues("reductionHours") || {};
+                                    form.setValue("reductionHours", {
+                                      ...currentReductions,
+                                      [category.key]: parseFloat(e.target.value) || 0
+                                    });
+                                  }}
+                                  data-testid={`input-reduction-${category.key}`}
+                                />
+                              </div>
+                            ))}
 
-                    {/* Ermäßigungsstunden */}
-                    <div className="space-y-4">
-                      <div className="border-t pt-4">
-                        <h3 className="text-lg font-medium mb-4">Ermäßigungsstunden</h3>
-                        <div className="grid grid-cols-3 gap-4">
-                          {reductionCategories.map((category) => (
-                            <div key={category.key}>
+                            {/* Altersermäßigung (automatisch berechnet) */}
+                            <div>
                               <Label className="text-sm font-medium">
-                                {category.label} 
+                                AE
                                 <span className="text-xs text-muted-foreground block">
-                                  {category.description}
+                                  Altersermäßigung (automatisch)
                                 </span>
                               </Label>
                               <Input 
                                 type="number"
-                                min="0"
-                                step="0.5"
-                                value={(form.watch("reductionHours") as any)?.[category.key] || 0}
-                                onChange={e => {
-                                  const currentReductions = form.getValues("reductionHours") || {};
-                                  form.setValue("reductionHours", {
-                                    ...currentReductions,
-                                    [category.key]: parseFloat(e.target.value) || 0
-                                  });
-                                }}
-                                data-testid={`input-reduction-${category.key}`}
-                                disabled={category.key === 'aE'} // Altersermäßigung automatisch berechnet
+                                value={calculateAgeReduction(
+                                  form.watch("dateOfBirth") || "", 
+                                  form.watch("maxHours") || 25
+                                )}
+                                disabled
+                                data-testid="input-reduction-AE"
+                                className="bg-muted"
                               />
                             </div>
-                          ))}
-                          
-                          {/* Altersermäßigung (automatisch berechnet) */}
-                          <div>
-                            <Label className="text-sm font-medium">
-                              aE
-                              <span className="text-xs text-muted-foreground block">
-                                Altersermäßigung (automatisch)
-                              </span>
-                            </Label>
-                            <Input 
-                              type="number"
-                              value={calculateAgeReduction(
-                                form.watch("dateOfBirth") || "", 
-                                form.watch("currentHours") || 0, 
-                                form.watch("maxHours") || 25
-                              )}
-                              disabled
-                              data-testid="input-reduction-aE"
-                              className="bg-muted"
-                            />
                           </div>
-                        </div>
-                        
-                        {/* Gesamte Ermäßigung und endgültige Stundenzahl */}
-                        <div className="mt-4 p-3 bg-muted rounded-md">
-                          <div className="grid grid-cols-3 gap-4 text-sm">
-                            <div>
-                              <span className="font-medium">Gesamte Ermäßigung:</span>
-                              <div className="text-lg font-bold">
-                                {(() => {
-                                  const reductions = form.watch("reductionHours") || {};
-                                  const currentHours = form.watch("currentHours") || 0;
-                                  const maxHours = form.watch("maxHours") || 25;
-                                  const ageReduction = calculateAgeReduction(form.watch("dateOfBirth") || "", currentHours, maxHours);
-                                  const totalReduction = Object.entries(reductions).reduce((sum, [key, value]) => {
-                                    return sum + (key === 'aE' ? ageReduction : (value || 0));
-                                  }, 0);
-                                  return totalReduction.toFixed(1);
-                                })()} Stunden
+
+                          {/* Gesamte Ermäßigung und endgültige Stundenzahl */}
+                          <div className="mt-4 p-3 bg-muted rounded-md">
+                            <div className="grid grid-cols-3 gap-4 text-sm">
+                              <div>
+                                <span className="font-medium">Gesamte Ermäßigung:</span>
+                                <div className="text-lg font-bold">
+                                  {(() => {
+                                    const reductions = form.watch("reductionHours") || {};
+                                    const maxHours = form.watch("maxHours") || 25;
+                                    const ageReduction = calculateAgeReduction(form.watch("dateOfBirth") || "", maxHours);
+                                    const totalReduction = Object.entries(reductions).reduce((sum, [key, value]) => {
+                                      return sum + (key === 'AE' ? 0 : (value || 0));
+                                    }, ageReduction);
+                                    return totalReduction.toFixed(1);
+                                  })()} Stunden
+                                </div>
                               </div>
-                            </div>
-                            <div>
-                              <span className="font-medium">Grundstunden:</span>
-                              <div className="text-lg font-bold">
-                                {form.watch("maxHours") || 25} Stunden
+                              <div>
+                                <span className="font-medium">Grundstunden:</span>
+                                <div className="text-lg font-bold">
+                                  {form.watch("maxHours") || 25} Stunden
+                                </div>
                               </div>
-                            </div>
-                            <div>
-                              <span className="font-medium">Endgültige Stundenzahl:</span>
-                              <div className="text-lg font-bold text-primary">
-                                {(() => {
-                                  const maxHours = parseFloat(form.watch("maxHours") || "25");
-                                  const currentHours = parseFloat(form.watch("currentHours") || "0");
-                                  const reductions = form.watch("reductionHours") || {};
-                                  const ageReduction = calculateAgeReduction(form.watch("dateOfBirth") || "", currentHours, maxHours);
-                                  const totalReduction = Object.entries(reductions).reduce((sum, [key, value]) => {
-                                    return sum + (key === 'aE' ? ageReduction : (value || 0));
-                                  }, 0);
-                                  return Math.max(0, maxHours - totalReduction).toFixed(1);
-                                })()} Stunden
+                              <div>
+                                <span className="font-medium">Endgültige Stundenzahl:</span>
+                                <div className="text-lg font-bold text-primary">
+                                  {(() => {
+                                    const maxHours = parseFloat(form.watch("maxHours") || "25");
+                                    const reductions = form.watch("reductionHours") || {};
+                                    const ageReduction = calculateAgeReduction(form.watch("dateOfBirth") || "", maxHours);
+                                    const totalReduction = Object.entries(reductions).reduce((sum, [key, value]) => {
+                                      return sum + (key === 'AE' ? 0 : (value || 0));
+                                    }, ageReduction);
+                                    return Math.max(0, maxHours - totalReduction).toFixed(1);
+                                  })()} Stunden
+                                </div>
                               </div>
                             </div>
                           </div>
+                          </>
+                          )}
                         </div>
                       </div>
-                    </div>
 
-                    <FormField
-                      control={form.control}
-                      name="isActive"
-                      render={({ field }) => (
-                        <FormItem className="flex items-center space-x-2">
-                          <FormControl>
-                            <Switch 
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                              data-testid="switch-active"
-                            />
-                          </FormControl>
-                          <FormLabel className="!mt-0">Aktiv</FormLabel>
-                        </FormItem>
+                      {/* Structured wishes are stored per teacher, so they can only be edited for saved teachers */}
+                      {editingTeacher && (
+                        <div className="border-t pt-4">
+                          <h3 className="text-lg font-medium mb-4">Wünsche und Vorgaben</h3>
+                          <TeacherConstraintsEditor
+                            key={editingTeacher.id}
+                            teacherId={editingTeacher.id}
+                            classes={classes}
+                            subjects={subjects}
+                          />
+                        </div>
                       )}
-                    />
 
-                    <div className="flex justify-end space-x-2 pt-4">
-                      <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                        Abbrechen
-                      </Button>
-                      <Button 
-                        type="submit" 
-                        disabled={createMutation.isPending || updateMutation.isPending}
-                        data-testid="button-save-teacher"
-                      >
-                        {createMutation.isPending || updateMutation.isPending ? "Speichert..." : "Speichern"}
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
-              </DialogContent>
-            </Dialog>
+                      <FormField
+                        control={form.control}
+                        name="isActive"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center space-x-2">
+                            <FormControl>
+                              <Switch 
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                                data-testid="switch-active"
+                              />
+                            </FormControl>
+                            <FormLabel className="!mt-0">Aktiv</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="flex justify-end space-x-2 pt-4">
+                        <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                          Abbrechen
+                        </Button>
+                        <Button 
+                          type="submit" 
+                          disabled={createMutation.isPending || updateMutation.isPending}
+                          data-testid="button-save-teacher"
+                        >
+                          {createMutation.isPending || updateMutation.isPending ? "Speichert..." : "Speichern"}
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </header>
 
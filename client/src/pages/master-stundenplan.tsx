@@ -14,8 +14,9 @@ import {
   Search, Eye, AlertTriangle, CheckCircle, FileText, Printer
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { type Teacher, type Class, type Subject, type Assignment } from "@shared/schema";
+import { type Teacher, type Class, type Subject, type Assignment, type TeamTeachingSetting, type TeamTeachingCreditMode } from "@shared/schema";
 import { calculateCorrectHours } from "@shared/parallel-subjects";
+import { TEAM_TEACHING_CREDIT_LABELS, createTeamTeachingCreditResolver, getCreditedHours } from "@shared/team-teaching";
 
 interface ExtendedAssignment extends Assignment {
   teacher?: Teacher;
@@ -73,6 +74,20 @@ export default function MasterStundenplan() {
     queryKey: ["/api/assignments"],
   });
 
+  const { data: teamTeachingSettings = [] } = useQuery<TeamTeachingSetting[]>({
+    queryKey: ["/api/team-teaching-settings"],
+  });
+
+  // Team-taught hours count for each teacher as credited by the group's setting
+  const teamTeachingSettingMap = useMemo(() => {
+    return new Map(teamTeachingSettings.map(setting => [setting.teamTeachingId, setting]));
+  }, [teamTeachingSettings]);
+
+  const resolveTeamCredit = useMemo(
+    () => createTeamTeachingCreditResolver(assignments ?? [], { settings: teamTeachingSettings }),
+    [assignments, teamTeachingSettings]
+  );
+
   // Create lookup maps for efficient joins
   const teacherMap = useMemo(() => {
     if (!teachers) return new Map();
@@ -137,11 +152,11 @@ export default function MasterStundenplan() {
       
       const semester1Hours = teacherAssignments
         .filter(a => a.semester === "1")
-        .reduce((sum, a) => sum + parseFloat(a.hoursPerWeek), 0);
+        .reduce((sum, a) => sum + getCreditedHours(a, resolveTeamCredit), 0);
       
       const semester2Hours = teacherAssignments
         .filter(a => a.semester === "2")
-        .reduce((sum, a) => sum + parseFloat(a.hoursPerWeek), 0);
+        .reduce((sum, a) => sum + getCreditedHours(a, resolveTeamCredit), 0);
       
       const totalHours = semester1Hours + semester2Hours;
       const maxHours = parseFloat(teacher.maxHours);
@@ -158,7 +173,7 @@ export default function MasterStundenplan() {
         isOverloaded,
       };
     });
-  }, [teachers, teacherAssignmentsMap]);
+  }, [teachers, teacherAssignmentsMap, resolveTeamCredit]);
 
   // OPTIMIZED: Calculate class coverage statistics using pre-aggregated map
   const classCoverages = useMemo((): ClassCoverage[] => {
@@ -338,17 +353,24 @@ export default function MasterStundenplan() {
 
   // Export functionality
   const exportToCSV = useCallback(() => {
-    const headers = ['Lehrkraft', 'Klasse', 'Fach', 'Stunden/Woche', 'Semester', 'Status'];
+    const headers = ['Lehrkraft', 'Klasse', 'Fach', 'Stunden/Woche', 'Angerechnete Stunden', 'Team-Teaching', 'Semester', 'Status'];
     const csvContent = [
       headers.join(','),
-      ...filteredAssignments.map(a => [
-        `"${a.teacher?.firstName} ${a.teacher?.lastName} (${a.teacher?.shortName})"`,
-        `"${a.class?.name}"`,
-        `"${a.subject?.shortName}"`,
-        a.hoursPerWeek,
-        a.semester,
-        teacherWorkloadMap.get(a.teacherId)?.isOverloaded ? 'Überlastet' : 'Normal'
-      ].join(','))
+      ...filteredAssignments.map(a => {
+        const creditMode = a.teamTeachingId
+          ? (teamTeachingSettingMap.get(a.teamTeachingId)?.creditMode as TeamTeachingCreditMode | undefined) ?? 'full'
+          : null;
+        return [
+          `"${a.teacher?.firstName} ${a.teacher?.lastName} (${a.teacher?.shortName})"`,
+          `"${a.class?.name}"`,
+          `"${a.subject?.shortName}"`,
+          a.hoursPerWeek,
+          Math.round(getCreditedHours(a, resolveTeamCredit) * 100) / 100,
+          creditMode ? `"${TEAM_TEACHING_CREDIT_LABELS[creditMode]}"` : '',
+          a.semester,
+          teacherWorkloadMap.get(a.teacherId)?.isOverloaded ? 'Überlastet' : 'Normal'
+        ].join(',');
+      })
     ].join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -361,7 +383,7 @@ export default function MasterStundenplan() {
       title: "Export erfolgreich",
       description: `${filteredAssignments.length} Zuweisungen als CSV exportiert.`,
     });
-  }, [filteredAssignments, teacherWorkloadMap, toast]);
+  }, [filteredAssignments, teacherWorkloadMap, teamTeachingSettingMap, resolveTeamCredit, toast]);
 
   const printView = useCallback(() => {
     window.print();
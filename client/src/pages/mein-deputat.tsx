@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { UserCircle, Send } from "lucide-react";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { TEACHER_REQUEST_TYPES, type TeacherRequest, type TeacherRequestType, type TeacherRequestStatus } from "@shared/schema";
+import { TEACHER_REQUEST_TYPE_LABELS, TEACHER_REQUEST_STATUS_LABELS, type TeacherPortalView } from "@shared/teacher-portal";
+import { SEMESTER_LABELS } from "@shared/teacher-reductions";
+
+function formatHours(hours: number): string {
+  return hours.toLocaleString("de-DE", { maximumFractionDigits: 2 });
+}
+
+function getStatusVariant(status: TeacherRequestStatus): "default" | "secondary" | "destructive" {
+  if (status === "rejected") return "destructive";
+  return status === "accepted" ? "default" : "secondary";
+}
+
+/**
+ * Read-only personal page of the logged-in teacher with their Deputat, assignments and requests.
+ */
+export default function MeinDeputat() {
+  const { toast } = useToast();
+  const [requestType, setRequestType] = useState<TeacherRequestType>("preference");
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+
+  const { data: portal, isLoading, error } = useQuery<TeacherPortalView>({
+    queryKey: ["/api/my/teacher"],
+    retry: false,
+  });
+  const { data: requests = [] } = useQuery<TeacherRequest[]>({
+    queryKey: ["/api/my/requests"],
+    enabled: !!portal,
+  });
+
+  const createRequestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/my/requests", { type: requestType, title, message });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my/requests"] });
+      setTitle("");
+      setMessage("");
+      toast({ title: "Anfrage gesendet", description: "Ihre Anfrage wurde an die Schulverwaltung übermittelt." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler beim Senden", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !message.trim()) {
+      toast({ title: "Angaben fehlen", description: "Bitte Betreff und Nachricht ausfüllen.", variant: "destructive" });
+      return;
+    }
+    createRequestMutation.mutate();
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <div className="flex-1 overflow-auto">
+        <div className="container mx-auto p-8 space-y-8">
+          <div className="flex items-center space-x-2">
+            <UserCircle className="h-6 w-6" />
+            <h1 className="text-3xl font-bold" data-testid="heading-my-deputat">
+              Mein Deputat
+            </h1>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              <p className="mt-2 text-muted-foreground">Lade Ihre Daten...</p>
+            </div>
+          ) : !portal ? (
+            <Card>
+              <CardContent className="pt-6 text-center text-muted-foreground" data-testid="text-no-teacher">
+                {error?.message.startsWith("404")
+                  ? "Zu Ihrer E-Mail-Adresse ist keine Lehrkraft hinterlegt. Bitte wenden Sie sich an die Schulverwaltung."
+                  : "Ihre Daten konnten nicht geladen werden."}
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>{portal.teacher.firstName} {portal.teacher.lastName} ({portal.teacher.shortName})</CardTitle>
+                  <CardDescription>Deputat und zugewiesene Stunden im ausgewählten Schuljahr.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4" data-testid="my-hours">
+                    <div>
+                      <div className="text-sm text-muted-foreground">Deputat</div>
+                      <div className="text-2xl font-semibold">{formatHours(portal.hours.maxHours)}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Ermäßigungen</div>
+                      <div className="text-2xl font-semibold">{formatHours(portal.hours.reductionHours)}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Zu unterrichten</div>
+                      <div className="text-2xl font-semibold">{formatHours(portal.hours.availableHours)}</div>
+                    </div>
+                    {(["1", "2"] as const).map(semester => (
+                      <div key={semester}>
+                        <div className="text-sm text-muted-foreground">Zugewiesen {SEMESTER_LABELS[semester]}</div>
+                        <div className="text-2xl font-semibold">
+                          {formatHours(portal.hours.assignedHours[semester])}
+                          {portal.hours.difference[semester] !== 0 && (
+                            <span className={portal.hours.difference[semester] > 0 ? "ml-2 text-sm text-destructive" : "ml-2 text-sm text-muted-foreground"}>
+                              ({portal.hours.difference[semester] > 0 ? "+" : ""}{formatHours(portal.hours.difference[semester])})
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {portal.reductions.length > 0 && (
+                    <div className="mt-6 flex flex-wrap gap-2" data-testid="my-reductions">
+                      {portal.reductions.map(reduction => (
+                        <Badge key={reduction.type} variant="outline">
+                          {reduction.label} ({reduction.type}): {formatHours(reduction.hours)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {portal.classTeacherOf.length > 0 && (
+                    <div className="mt-4 text-sm" data-testid="my-class-teacher-roles">
+                      <span className="text-muted-foreground">Klassenleitung: </span>
+                      {portal.classTeacherOf.map(role => (
+                        `${role.className} (${role.position === 1 ? "Klassenleitung" : "Stellvertretung"}${role.colleague ? `, mit ${role.colleague.shortName}` : ""})`
+                      )).join(", ")}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {(["1", "2"] as const).map(semester => (
+                <Card key={semester}>
+                  <CardHeader>
+                    <CardTitle>Unterricht {SEMESTER_LABELS[semester]}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {portal.assignmentsBySemester[semester].length === 0 ? (
+                      <div className="text-center py-4 text-muted-foreground">Keine Zuweisungen.</div>
+                    ) : (
+                      <Table data-testid={`table-my-assignments-${semester}`}>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Klasse</TableHead>
+                            <TableHead>Fach</TableHead>
+                            <TableHead className="text-right">Stunden</TableHead>
+                            <TableHead className="text-right">Angerechnet</TableHead>
+                            <TableHead>Team-Teaching</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {portal.assignmentsBySemester[semester].map(assignment => (
+                            <TableRow key={assignment.id}>
+                              <TableCell className="font-medium">{assignment.className}</TableCell>
+                              <TableCell title={assignment.subjectName}>{assignment.subjectShortName}</TableCell>
+                              <TableCell className="text-right">{formatHours(assignment.hoursPerWeek)}</TableCell>
+                              <TableCell className="text-right">{formatHours(assignment.creditedHours)}</TableCell>
+                              <TableCell>
+                                {assignment.teamPartners.length > 0
+                                  ? assignment.teamPartners.map(partner => partner.shortName).join(", ")
+                                  : "–"}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Wünsche und Änderungsanträge</CardTitle>
+                  <CardDescription>
+                    Ihre Anfrage landet im Posteingang der Schulverwaltung.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label>Art</Label>
+                        <Select value={requestType} onValueChange={(value) => setRequestType(value as TeacherRequestType)}>
+                          <SelectTrigger data-testid="select-request-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TEACHER_REQUEST_TYPES.map(type => (
+                              <SelectItem key={type} value={type}>{TEACHER_REQUEST_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2 md:col-span-2">
+                        <Label htmlFor="request-title">Betreff</Label>
+                        <Input
+                          id="request-title"
+                          value={title}
+                          onChange={(e) => setTitle(e.target.value)}
+                          placeholder="z. B. Kein Unterricht in Klasse 5"
+                          data-testid="input-request-title"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="request-message">Nachricht</Label>
+                      <Textarea
+                        id="request-message"
+                        value={message}
+                        onChange={(e) => setMessage(e.target.value)}
+                        rows={4}
+                        data-testid="input-request-message"
+                      />
+                    </div>
+                    <Button type="submit" disabled={createRequestMutation.isPending} data-testid="button-send-request">
+                      <Send className="mr-2 h-4 w-4" />
+                      {createRequestMutation.isPending ? "Wird gesendet..." : "Anfrage senden"}
+                    </Button>
+                  </form>
+
+                  {requests.length > 0 && (
+                    <Table data-testid="table-my-requests">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Datum</TableHead>
+                          <TableHead>Art</TableHead>
+                          <TableHead>Betreff</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Antwort</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {requests.map(request => (
+                          <TableRow key={request.id}>
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(request.createdAt), "dd.MM.yyyy", { locale: de })}
+                            </TableCell>
+                            <TableCell>{TEACHER_REQUEST_TYPE_LABELS[request.type as TeacherRequestType]}</TableCell>
+                            <TableCell>{request.title}</TableCell>
+                            <TableCell>
+                              <Badge variant={getStatusVariant(request.status as TeacherRequestStatus)}>
+                                {TEACHER_REQUEST_STATUS_LABELS[request.status as TeacherRequestStatus]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">{request.response || "–"}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
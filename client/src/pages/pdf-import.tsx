@@ -12,6 +12,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Upload, FileText, Check, X, AlertCircle, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { PdfParseDiagnosticsCard, type ImportDiagnostics } from '@/components/PdfParseDiagnosticsCard';
 
 interface ParsedLesson {
   className: string;
@@ -71,6 +72,7 @@ interface ImportPreview {
   matches: ImportMatch[];
   conflicts: ImportConflict[];
   lessons: ParsedLesson[];
+  diagnostics?: ImportDiagnostics;
   intelligentMappings?: {
     autoResolved: IntelligentMappingResult[];
     conflicts: MappingConflict[];
@@ -82,6 +84,7 @@ interface ImportPreview {
     matchedSubjects: number;
     autoResolvedSubjects?: number;
     conflicts: number;
+    skippedLines?: number;
   };
 }
 
@@ -396,10 +399,18 @@ export default function PdfImport() {
                   <div className="text-2xl font-bold text-red-600">{preview.summary.conflicts}</div>
                   <div className="text-sm text-muted-foreground">Konflikte</div>
                 </div>
+                {!!preview.summary.skippedLines && (
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-orange-600">{preview.summary.skippedLines}</div>
+                    <div className="text-sm text-muted-foreground">Zeilen übersprungen</div>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {preview.diagnostics && <PdfParseDiagnosticsCard diagnostics={preview.diagnostics} />}
+
 
           {/* Traditional Conflicts Resolution */}
           {preview.conflicts.length > 0 && (
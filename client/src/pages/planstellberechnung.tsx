@@ -1,200 +1,66 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion'
 import { Sidebar } from '@/components/layout/sidebar'
-import { Calculator, TrendingUp, Users, School, GraduationCap, BarChart3 } from 'lucide-react'
+import { Calculator, TrendingUp, Users, School, GraduationCap, BarChart3, Download } from 'lucide-react'
 import type { PlanstellenInput } from '@shared/schema'
+import { DEFAULT_PLANSTELLEN_INPUT } from '@shared/planstellen-scenarios'
+import { calculatePlanstellen, planstellenLinesToCsv } from '@shared/planstellen-engine'
+import { PlanstellenScenarioPanel } from '@/components/PlanstellenScenarioPanel'
+import { useSchool } from '@/hooks/useSchool'
 
 export default function PlanstellberechnungPage() {
-  // State für erweiterte Tabelle - OHNE dritte Spalte
-  const [planstellenData, setPlanstellenData] = useState<PlanstellenInput>({
-    schulname: "Realschule Musterstadt",
-    schuljahr: "2024/25",
-    schuelerzahlStand: 710,           // F3: Eingabe
-    schuelerLehrerrelation: 20.19,    // F4: Eingabe
-    abzugLehramtsanwaerter: -0.5,     // F8: Eingabe
-    rundung: -0.21,                   // F9: Eingabe
-    
-    // Ausgleichsbedarf F12-F26 aus Excel
-    fachleiter: 0.21,
-    personalrat: 1.64,
-    schulleitungsentlastungFortbildung: 0.04,
-    ausbauLeitungszeit: 0.15,
-    rueckgabeVorgriffstunde: 0.04,
-    digitalisierungsbeauftragter: 0.04,
-    fortbildungQualifMedienDS: 0.07,
-    fachberaterSchulaufsicht: 0.07,
-    wechselndeAusgleichsbedarfe: 0.5,
-    praxissemesterInSchule: 0.29,
-    zusaetzlicheAusfallvertretung: 0.25,
-    entlastungLehrertaetigkeit: 0.04,
-    entlastungLVOCO: 0.04,
-    ermaessigungenweitere: 0.3,
-    nullWert: 0,
-    
-    // Weitere Bereiche
-    praktischePhilosophieIslamkunde: 0,
-    paedagogischeUebermittagsbetreuung: 0,
-    integrationDurchBildung: 0,
-    
-    // Freie Zeilen
-    freieZeile1Label: "",
-    freieZeile1Wert: 0,
-    freieZeile2Label: "",
-    freieZeile2Wert: 0,
-    
-    // === NEUE ABSCHNITTE AUS EXCEL (Zeile 35+) ===
-    // Zusätzliche Stellen
-    gegenUAusfallIndFoerderung: 0.77,
-    
-    // Stellenbesetzung  
-    teilzeitBlockmodellAnsparphase: 0.36,
-    kapitalisierungPaedUebermittag: 0.56,
-    abzugKapitalisierungUebermittag: -0.56,
-    
-    // Personalausstattung
-    beurlaubungElternzeit: 0,
-    ersatzeinstellungElternzeit: 0,
-    aborungZugangAnderes: 0,
-    
-    // Ermäßigungsstunden-Berechnung
-    grundstellenbedarfFaktor: 0.5,
-    
-    // === NEUE FELDER AUS EXCEL-BILD ===
-    // Vorhandene Planstellen (Istbestand)
-    vorhandenePlanstellen: 0,
-    
-    // Berechnung Schulleiterpauschal
-    grundpauschal: 9,
-    schulleiterentlastungFortbildung: 0.04,
-    ausbauLeitungszeitSchulleiter: 0.12,
-    schulleiterDreiViertel: 18,
-    ausbauLeitungszeitStellvertreter: 0.11,
-    minusEntlastungStundenplanarbeit: 0,
-    
-    // Klassenbildung
-    istklassenzahl: 17.0,
-    
-    // Statistik Unterrichtsstunden
-    verfuegbareUnterrichtsstunden: 0,
-    unterrichtssollNachKuerzung: 0
-  })
-
-  // === EXAKTE EXCEL-BERECHNUNGEN MIT VALIDIERUNG ===
-  
-  // Validation: Check for division by zero
-  const isValidForCalculation = planstellenData.schuelerLehrerrelation > 0
-  
-  // F5: "Quotient der zwei Größen:" = F3/F4 (with validation)
-  const quotient = isValidForCalculation ? planstellenData.schuelerzahlStand / planstellenData.schuelerLehrerrelation : 0
-  
-  // F6: "Quotient der zwei Größen nach der 2. Dezimale abgeschnitten" = TRUNC(F5,2)
-  const quotientAbgeschnitten = isValidForCalculation ? Math.trunc(quotient * 100) / 100 : 0
-  
-  // F7: "abgerundet auf halbe bzw. ganze Dezimale:" = IF(F5-INT(F5)<0.5,INT(F5),INT(F5)+0.5)
-  const dezimalTeil = quotient - Math.floor(quotient)
-  const abgerundet = isValidForCalculation ? (dezimalTeil < 0.5 ? Math.floor(quotient) : Math.floor(quotient) + 0.5) : 0
-  
-  // F10: "Summe Grundbedarf" = SUM(F6,F8:F9)
-  const summeGrundbedarf = quotientAbgeschnitten + planstellenData.abzugLehramtsanwaerter + planstellenData.rundung
-
-  // === AUSGLEICHSBEDARF SUMME ===
-  const summeAusgleichsbedarf = (planstellenData.fachleiter || 0) +
-                               (planstellenData.personalrat || 0) +
-                               (planstellenData.schulleitungsentlastungFortbildung || 0) +
-                               (planstellenData.ausbauLeitungszeit || 0) +
-                               (planstellenData.rueckgabeVorgriffstunde || 0) +
-                               (planstellenData.digitalisierungsbeauftragter || 0) +
-                               (planstellenData.fortbildungQualifMedienDS || 0) +
-                               (planstellenData.fachberaterSchulaufsicht || 0) +
-                               (planstellenData.wechselndeAusgleichsbedarfe || 0) +
-                               (planstellenData.praxissemesterInSchule || 0) +
-                               (planstellenData.zusaetzlicheAusfallvertretung || 0) +
-                               (planstellenData.entlastungLehrertaetigkeit || 0) +
-                               (planstellenData.entlastungLVOCO || 0) +
-                               (planstellenData.ermaessigungenweitere || 0) +
-                               (planstellenData.nullWert || 0)
-
-  // === WEITERE BEREICHE SUMME ===
-  const summeWeitereBereiche = (planstellenData.praktischePhilosophieIslamkunde || 0) +
-                              (planstellenData.paedagogischeUebermittagsbetreuung || 0) +
-                              (planstellenData.integrationDurchBildung || 0) +
-                              (planstellenData.freieZeile1Wert || 0) +
-                              (planstellenData.freieZeile2Wert || 0)
-
-  // === NEUE SUMMEN FÜR ZUSÄTZLICHE EXCEL-ABSCHNITTE ===
-  // F36: Zusätzliche Stellen
-  const summeZusaetzlicheStellen = planstellenData.gegenUAusfallIndFoerderung || 0
-  
-  // F41: Stellenbesetzung = SUM(F38:F40)  
-  const summeStellenbesetzung = (planstellenData.teilzeitBlockmodellAnsparphase || 0) +
-                               (planstellenData.kapitalisierungPaedUebermittag || 0) +
-                               (planstellenData.abzugKapitalisierungUebermittag || 0)
-  
-  // F47: Personalausstattung = SUM(F44:F46)
-  const summePersonalausstattung = (planstellenData.beurlaubungElternzeit || 0) +
-                                  (planstellenData.ersatzeinstellungElternzeit || 0) +
-                                  (planstellenData.aborungZugangAnderes || 0)
-  
-  // F34: Grundbedarf (Summe aus Grundbedarf, Ausgleichsbedarf, Mehrbedarf) = SUM(F33+F28+F10)
-  const grundbedarfGesamt = summeGrundbedarf + summeAusgleichsbedarf + summeWeitereBereiche
-  
-  // F48: Stellenbedarf (Stellen-Soll) insgesamt = SUM(F34,F41,F47)
-  const stellenbedarfGesamt = grundbedarfGesamt + summeStellenbesetzung + summePersonalausstattung
-
-  // === NEUE BERECHNUNGEN AUS EXCEL-BILD ===
-  
-  // F51: Differenz Soll-Ist = F50-F48
-  const differenzSollIst = (planstellenData.vorhandenePlanstellen || 0) - stellenbedarfGesamt
-  
-  // F53: Grundstellenbedarf * 0,5 = F10*0.5
-  const grundstellenbedarfHalbe = summeGrundbedarf * (planstellenData.grundstellenbedarfFaktor || 0.5)
-  
-  // F54: Entlastungsstunden (Kollegium) gerundet 0 Dezimalen = ROUND(F53,0)
-  const entlastungsstundenGerundet = Math.round(grundstellenbedarfHalbe)
-  
-  // === BERECHNUNG SCHULLEITERPAUSCHAL ===
-  // F57: zusätzl. Entlastung (abhängig v. Stellenanzahl) = F48*0,7+F56
-  const zusaetzlicheEntlastungStellenzahl = stellenbedarfGesamt * 0.7 + (planstellenData.grundpauschal || 9)
-  
-  // F60: Anzahl 44-46 in Stunden = SUMME(F57:F59)
-  const anzahlStundenSchulleitung = zusaetzlicheEntlastungStellenzahl + 
-                                   (planstellenData.schulleiterentlastungFortbildung || 0.04) +
-                                   (planstellenData.ausbauLeitungszeitSchulleiter || 0.12)
-  
-  // F61: Entlastungsstd. (Schulleitung) gerundet 2 Dezimalen = SUMME(F56:F59)
-  const entlastungsstundenSchulleitungGerundet = Math.round(((planstellenData.grundpauschal || 9) + 
-                                                            zusaetzlicheEntlastungStellenzahl +
-                                                            (planstellenData.schulleiterentlastungFortbildung || 0.04) +
-                                                            (planstellenData.ausbauLeitungszeitSchulleiter || 0.12)) * 100) / 100
-  
-  // F63: Stellvertreter 2/5 (abgerundet) = ABRUNDEN(F61*2/5.)
-  const stellvertreterZweiViertel = Math.floor(entlastungsstundenSchulleitungGerundet * 2 / 5)
-  
-  // F66: geänderte und abgerundete Schulleiterpauschal = GANZZAHL(F62-F65/2)
-  const geaenderteSchulleiterpauschal = Math.trunc((planstellenData.schulleiterDreiViertel || 18) - 
-                                                   (planstellenData.minusEntlastungStundenplanarbeit || 0) / 2)
-  
-  // F67: geänderte und aufgerundete Stellvertreterpauschal = RUNDEN(F63-F65/2+(F62-(GANZZAHL(F62))),0)
-  const geaenderteStellvertreterpauschal = Math.round(stellvertreterZweiViertel - 
-                                                     (planstellenData.minusEntlastungStundenplanarbeit || 0) / 2 + 
-                                                     ((planstellenData.schulleiterDreiViertel || 18) - 
-                                                      Math.trunc(planstellenData.schulleiterDreiViertel || 18)))
-  
-  // === KLASSENBILDUNG ===
-  // F69: Sollklassenzahl (Schülerzahl/28) = RUNDEN(F3/28,2)
-  const sollklassenzahl = Math.round((planstellenData.schuelerzahlStand || 710) / 28 * 100) / 100
-  
-  // F71: Abweichung = F69-F70
-  const abweichungKlassenbildung = sollklassenzahl - (planstellenData.istklassenzahl || 17.0)
-  
-  // === STATISTIK UNTERRICHTSSTUNDEN ===
-  // F75: Abweichung = F73-F74
-  const abweichungUnterrichtsstunden = (planstellenData.verfuegbareUnterrichtsstunden || 0) - 
-                                      (planstellenData.unterrichtssollNachKuerzung || 0)
+  // State für erweiterte Tabelle - Startwerte aus dem Schema, überschrieben beim Laden eines Szenarios
+  const [planstellenData, setPlanstellenData] = useState<PlanstellenInput>(DEFAULT_PLANSTELLEN_INPUT)
+  const { selectedSchool } = useSchool()
+
+  // Schulname aus der gewählten Schule, solange er nicht von Hand geändert wurde
+  useEffect(() => {
+    if (selectedSchool && planstellenData.schulname === DEFAULT_PLANSTELLEN_INPUT.schulname) {
+      setPlanstellenData(prev => ({ ...prev, schulname: selectedSchool.name }))
+    }
+  }, [selectedSchool?.id])
+
+  // === EXAKTE EXCEL-BERECHNUNGEN (gemeinsame Engine mit Server und Export) ===
+  const { isValid: isValidForCalculation, values, lines } = calculatePlanstellen(planstellenData)
+  const {
+    quotient,                                 // F5
+    quotientAbgeschnitten,                    // F6
+    abgerundet,                               // F7
+    summeGrundbedarf,                         // F10
+    summeAusgleichsbedarf,                    // F27
+    summeWeitereBereiche,                     // F33
+    grundbedarfGesamt,                        // F34
+    summeZusaetzlicheStellen,                 // F36
+    summeStellenbesetzung,                    // F41
+    summePersonalausstattung,                 // F47
+    stellenbedarfGesamt,                      // F48
+    differenzSollIst,                         // F51
+    grundstellenbedarfHalbe,                  // F53
+    entlastungsstundenGerundet,               // F54
+    zusaetzlicheEntlastungStellenzahl,        // F57
+    anzahlStundenSchulleitung,                // F60
+    entlastungsstundenSchulleitungGerundet,   // F61
+    stellvertreterZweiViertel,                // F63
+    geaenderteSchulleiterpauschal,            // F66
+    geaenderteStellvertreterpauschal,         // F67
+    sollklassenzahl,                          // F69
+    abweichungKlassenbildung,                 // F71
+    abweichungUnterrichtsstunden              // F75
+  } = values
+
+  // Export mit denselben Zeilen, die auch /api/calculate-planstellen liefert
+  const exportCsv = () => {
+    const blob = new Blob(['\uFEFF' + planstellenLinesToCsv(lines)], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `planstellen_${planstellenData.schuljahr.replace('/', '-')}.csv`
+    link.click()
+  }
 
   const handleInputChange = (field: keyof PlanstellenInput, value: string | number) => {
     setPlanstellenData(prev => ({
@@ -212,18 +78,27 @@ export default function PlanstellberechnungPage() {
       <main className="flex-1 overflow-auto">
         {/* Header */}
         <header className="bg-card border-b border-border px-6 py-4">
-          <div className="flex items-center gap-2">
-            <Calculator className="h-6 w-6 text-blue-600 dark:text-blue-400" />
-            <div>
-              <h2 className="text-2xl font-semibold text-foreground">Planstellenberechnung</h2>
-              <p className="text-muted-foreground">Detaillierte Stellenberechnung für deutsche Schulen</p>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Calculator className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+              <div>
+                <h2 className="text-2xl font-semibold text-foreground">Planstellenberechnung</h2>
+                <p className="text-muted-foreground">Detaillierte Stellenberechnung für deutsche Schulen</p>
+              </div>
             </div>
+            <Button variant="outline" onClick={exportCsv} data-testid="button-export-planstellen">
+              <Download className="mr-2 h-4 w-4" />
+              CSV exportieren
+            </Button>
           </div>
         </header>
 
         {/* Content */}
         <div className="p-6 space-y-6">
 
+      {/* Gespeicherte Szenarien */}
+      <PlanstellenScenarioPanel input={planstellenData} onLoad={setPlanstellenData} />
+
       {/* Sticky Summary Area */}
       <Card className="sticky top-4 z-10 shadow-lg border-2 border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-950/50">
         <CardHeader className="pb-3">
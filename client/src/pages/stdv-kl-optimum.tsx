@@ -7,11 +7,17 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Sparkles, Play, Pause, RotateCcw, Settings, AlertTriangle, CheckCircle, Clock } from "lucide-react";
+import { Sparkles, Play, Pause, RotateCcw, Settings, AlertTriangle, CheckCircle, Clock, GitCompare } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import { runOptimization, type OptimizationResult, type OptimizationConstraints } from "@/lib/optimization";
-import type { Teacher, Class, Subject, Assignment } from "@shared/schema";
+import { withSchoolYear } from "@/lib/school-year";
+import { runOptimization, type OptimizationResult, type OptimizationConstraints, type OptimizationPreview } from "@/lib/optimization";
+import type { AssignmentChange } from "@shared/assignment-plan-diff";
+import type { ConstraintViolation } from "@shared/teacher-constraints";
+import type { PreviousYearData } from "@shared/class-continuity";
+import type { Teacher, Class, Subject, Assignment, TeacherConstraint } from "@shared/schema";
 
 interface OptimizationProgress {
   stage: string;
@@ -31,6 +37,7 @@ export default function StdvKlOptimum() {
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optimizationProgress, setOptimizationProgress] = useState<OptimizationProgress | null>(null);
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null);
+  const [optimizationPreview, setOptimizationPreview] = useState<OptimizationPreview | null>(null);
   const [settings, setSettings] = useState<OptimizationSettings>({
     prioritizeQualifications: true,
     balanceWorkload: true,
@@ -55,21 +62,28 @@ export default function StdvKlOptimum() {
 
   const { data: assignments } = useQuery<Assignment[]>({
     queryKey: ["/api/assignments"],
-    queryFn: () => fetch("/api/assignments?minimal=true").then(res => res.json())
+    queryFn: () => fetch(withSchoolYear("/api/assignments?minimal=true")).then(res => res.json())
   });
 
-  const optimizeMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/optimize", {});
+  const { data: teacherConstraints } = useQuery<TeacherConstraint[]>({
+    queryKey: ["/api/teacher-constraints"],
+  });
+
+  const { data: previousYear } = useQuery<PreviousYearData>({
+    queryKey: ["/api/optimize/previous-year"],
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<OptimizationPreview> => {
+      const response = await apiRequest("POST", "/api/optimize/preview", {});
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (preview) => {
+      setOptimizationPreview(preview);
       toast({
-        title: "Optimierung abgeschlossen",
-        description: "Die Unterrichtsverteilung wurde erfolgreich optimiert.",
+        title: "Optimierungsvorschlag erstellt",
+        description: "Bitte prüfen Sie die Änderungen und bestätigen Sie die Übernahme.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/assignments"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/teachers"] });
       setIsOptimizing(false);
       setOptimizationProgress(null);
     },
@@ -84,6 +98,29 @@ export default function StdvKlOptimum() {
     },
   });
 
+  const applyMutation = useMutation({
+    mutationFn: async (changes: AssignmentChange[]) => {
+      const response = await apiRequest("POST", "/api/optimize/apply", { changes });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Optimierung übernommen",
+        description: "Die Unterrichtsverteilung wurde erfolgreich aktualisiert.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/assignments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teachers"] });
+      setOptimizationPreview(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Übernahme fehlgeschlagen",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleStartOptimization = async () => {
     if (!teachers || !classes || !subjects) {
       toast({
@@ -119,6 +156,8 @@ export default function StdvKlOptimum() {
         classes: classes || [],
         subjects: subjects || [],
         currentAssignments: assignments || [],
+        teacherConstraints: teacherConstraints || [],
+        previousYear,
         settings,
       };
 
@@ -127,8 +166,8 @@ export default function StdvKlOptimum() {
 
       setOptimizationProgress({ stage: "Abgeschlossen", progress: 100, message: "Optimierung erfolgreich abgeschlossen!" });
 
-      // Apply optimizations to backend
-      optimizeMutation.mutate();
+      // Request the server-side plan as a preview - nothing is written until confirmed
+      previewMutation.mutate();
 
     } catch (error) {
       setIsOptimizing(false);
@@ -145,6 +184,54 @@ export default function StdvKlOptimum() {
     setIsOptimizing(false);
     setOptimizationProgress(null);
     setOptimizationResult(null);
+    setOptimizationPreview(null);
+  };
+
+  const teacherName = (teacherId: string | null) =>
+    (teacherId && teachers?.find(t => t.id === teacherId)?.shortName) || "–";
+  const subjectName = (subjectId: string) =>
+    subjects?.find(s => s.id === subjectId)?.shortName || subjectId;
+  const className = (classId: string) =>
+    classes?.find(c => c.id === classId)?.name || classId;
+
+  const formatDelta = (delta: number) => `${delta > 0 ? "+" : ""}${delta.toFixed(1)}h`;
+
+  const describeChange = (change: AssignmentChange) => {
+    const slot = `${subjectName(change.subjectId)} ${change.semester}. Hj.`;
+    switch (change.action) {
+      case "add": return `${slot}: ${teacherName(change.teacherId)} (${change.hoursPerWeek}h) neu`;
+      case "remove": return `${slot}: ${teacherName(change.previousTeacherId)} (${change.previousHours}h) entfernt`;
+      case "change": return `${slot}: ${teacherName(change.previousTeacherId)} (${change.previousHours}h) → ${teacherName(change.teacherId)} (${change.hoursPerWeek}h)`;
+    }
+  };
+
+  const renderConstraintViolations = (violations: ConstraintViolation[], testId: string) => {
+    if (violations.length === 0) return null;
+    return (
+      <Alert variant={violations.some(v => v.strength === "hard") ? "destructive" : "default"} data-testid={testId}>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          <strong>Nicht erfüllte Wünsche der Lehrkräfte ({violations.length}):</strong>
+          <ul className="mt-2 list-disc list-inside text-sm max-h-40 overflow-auto">
+            {violations.map((violation, index) => (
+              <li key={index}>
+                {violation.teacherShortName} – "{violation.label}"
+                {violation.strength === "hard" ? " (verbindlich)" : ` (Gewicht ${violation.weight})`}: {violation.message}.{" "}
+                <span className="text-muted-foreground">Grund: {violation.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </AlertDescription>
+      </Alert>
+    );
+  };
+
+  const getChangeBadgeVariant = (action: AssignmentChange["action"]) => {
+    switch (action) {
+      case "add": return "default" as const;
+      case "remove": return "destructive" as const;
+      default: return "secondary" as const;
+    }
   };
 
   const totalTeachers = teachers?.length || 0;
@@ -471,12 +558,169 @@ export default function StdvKlOptimum() {
                         )}
                       </div>
                     )}
+
+                    {renderConstraintViolations(optimizationResult.constraintViolations, "alert-constraint-violations")}
                   </div>
                 )}
               </CardContent>
             </Card>
           </div>
 
+          {/* Optimization Preview */}
+          {optimizationPreview && (
+            <Card data-testid="card-preview">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center">
+                    <GitCompare className="mr-2" />
+                    Vorgeschlagene Änderungen
+                  </CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setOptimizationPreview(null)}
+                      disabled={applyMutation.isPending}
+                      data-testid="button-discard-preview"
+                    >
+                      Verwerfen
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          disabled={optimizationPreview.diff.changes.length === 0 || applyMutation.isPending}
+                          data-testid="button-apply-preview"
+                        >
+                          <Play className="mr-2 h-4 w-4" />
+                          Änderungen übernehmen
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Optimierung übernehmen?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {optimizationPreview.diff.summary.added} Zuweisungen werden angelegt,{" "}
+                            {optimizationPreview.diff.summary.changed} geändert und{" "}
+                            {optimizationPreview.diff.summary.removed} entfernt. Manuelle Planungen in den
+                            betroffenen Fächern werden überschrieben, gesperrte Zuweisungen
+                            ({optimizationPreview.diff.summary.locked}) bleiben unverändert.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => applyMutation.mutate(optimizationPreview.diff.changes)}
+                            data-testid="button-confirm-apply"
+                          >
+                            Übernehmen
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-7 gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Neu</p>
+                      <p className="text-2xl font-bold text-green-600">{optimizationPreview.diff.summary.added}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Geändert</p>
+                      <p className="text-2xl font-bold text-blue-600">{optimizationPreview.diff.summary.changed}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Entfernt</p>
+                      <p className="text-2xl font-bold text-red-600">{optimizationPreview.diff.summary.removed}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Unverändert</p>
+                      <p className="text-2xl font-bold text-muted-foreground">{optimizationPreview.diff.summary.unchanged}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Gesperrt</p>
+                      <p className="text-2xl font-bold text-muted-foreground" data-testid="text-locked-count">
+                        {optimizationPreview.diff.summary.locked}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Bedarfsdeckung</p>
+                      <p className="text-2xl font-bold text-purple-600">{optimizationPreview.score.coverage}%</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Kontinuität</p>
+                      <p className="text-2xl font-bold text-purple-600" data-testid="text-preview-continuity">
+                        {optimizationPreview.score.classContinuity}%
+                      </p>
+                    </div>
+                  </div>
+
+                  {optimizationPreview.unmetDemand.length > 0 && (
+                    <Alert data-testid="alert-unmet-demand">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        <strong>Nicht gedeckter Bedarf ({optimizationPreview.statistics.unmetHours}h):</strong>
+                        <ul className="mt-2 list-disc list-inside text-sm max-h-40 overflow-auto">
+                          {optimizationPreview.unmetDemand.map((demand, index) => (
+                            <li key={index}>{demand.className}: {demand.message}</li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {renderConstraintViolations(optimizationPreview.constraintViolations, "alert-preview-constraint-violations")}
+
+                  <Tabs defaultValue="classes">
+                    <TabsList>
+                      <TabsTrigger value="classes" data-testid="tab-preview-classes">Nach Klasse</TabsTrigger>
+                      <TabsTrigger value="teachers" data-testid="tab-preview-teachers">Nach Lehrkraft</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="classes" className="space-y-3 max-h-96 overflow-auto">
+                      {optimizationPreview.diff.byClass.map(group => (
+                        <div key={group.classId} className="border rounded-md p-3" data-testid={`preview-class-${group.classId}`}>
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="font-semibold text-foreground">{group.className}</span>
+                            <span className="text-sm text-muted-foreground">{formatDelta(group.hoursDelta)}</span>
+                          </div>
+                          <ul className="space-y-1">
+                            {group.changes.map((change, index) => (
+                              <li key={index} className="flex items-center space-x-2 text-sm">
+                                <Badge variant={getChangeBadgeVariant(change.action)}>{change.action}</Badge>
+                                <span>{describeChange(change)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </TabsContent>
+                    <TabsContent value="teachers" className="space-y-3 max-h-96 overflow-auto">
+                      {optimizationPreview.diff.byTeacher.map(group => (
+                        <div key={group.teacherId} className="border rounded-md p-3" data-testid={`preview-teacher-${group.teacherId}`}>
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="font-semibold text-foreground">{group.shortName}</span>
+                            <span className="text-sm text-muted-foreground">
+                              {group.currentHours.toFixed(1)}h → {group.projectedHours.toFixed(1)}h ({formatDelta(group.hoursDelta)})
+                            </span>
+                          </div>
+                          <ul className="space-y-1">
+                            {group.changes.map((change, index) => (
+                              <li key={index} className="flex items-center space-x-2 text-sm">
+                                <Badge variant={getChangeBadgeVariant(change.action)}>{change.action}</Badge>
+                                <span>{className(change.classId)} – {describeChange(change)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </TabsContent>
+                  </Tabs>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Algorithm Information */}
           <Card data-testid="card-algorithm-info">
             <CardHeader>
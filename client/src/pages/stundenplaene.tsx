@@ -16,13 +16,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Calendar, Clock, Users, BookOpen, Presentation, School, GraduationCap, Save, Trash2, Plus, Edit, Eye, AlertTriangle, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
+import { Calendar, Clock, Users, BookOpen, Presentation, School, GraduationCap, Save, Trash2, Plus, Edit, Eye, AlertTriangle, ArrowUpDown, ArrowUp, ArrowDown, Lock, LockOpen } from "lucide-react";
 import { insertAssignmentSchema, type InsertAssignment } from "@shared/schema";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { type Teacher, type Class, type Subject, type Assignment } from "@shared/schema";
+import { withSchoolYear } from "@/lib/school-year";
+import { type Teacher, type Class, type Subject, type Assignment, type TeamTeachingSetting } from "@shared/schema";
 import { getParallelGroupForSubject } from "@shared/parallel-subjects";
+import { createTeamTeachingCreditResolver, getCreditedHours } from "@shared/team-teaching";
+import { TeamTeachingCreditDialog } from "@/components/TeamTeachingCreditDialog";
 
 interface ExtendedAssignment extends Assignment {
   teacher?: Teacher;
@@ -129,18 +132,27 @@ export default function Stundenplaene() {
   // Load assignments for both semesters separately for consistency with klassen-matrix
   const { data: assignments1 = [], isLoading: assignments1Loading } = useQuery<Assignment[]>({
     queryKey: ["/api/assignments", "semester", "1"],
-    queryFn: () => fetch("/api/assignments?minimal=true&semester=1").then(res => res.json()),
+    queryFn: () => fetch(withSchoolYear("/api/assignments?minimal=true&semester=1")).then(res => res.json()),
     staleTime: 30000
   });
 
   const { data: assignments2 = [], isLoading: assignments2Loading } = useQuery<Assignment[]>({
     queryKey: ["/api/assignments", "semester", "2"],
-    queryFn: () => fetch("/api/assignments?minimal=true&semester=2").then(res => res.json()),
+    queryFn: () => fetch(withSchoolYear("/api/assignments?minimal=true&semester=2")).then(res => res.json()),
     staleTime: 30000
   });
 
   // Combine both semesters for backward compatibility
   const assignments = useMemo(() => [...assignments1, ...assignments2], [assignments1, assignments2]);
+
+  // Per-group crediting of team-taught hours
+  const { data: teamTeachingSettings = [] } = useQuery<TeamTeachingSetting[]>({
+    queryKey: ["/api/team-teaching-settings"],
+  });
+  const resolveTeamCredit = useMemo(
+    () => createTeamTeachingCreditResolver(assignments, { settings: teamTeachingSettings }),
+    [assignments, teamTeachingSettings]
+  );
   const assignmentsLoading = assignments1Loading || assignments2Loading;
 
   // Mutations for assignment operations
@@ -195,6 +207,35 @@ export default function Stundenplaene() {
     },
   });
 
+  // Locked assignments are kept as fixed input by the optimizer
+  const toggleLockMutation = useMutation({
+    mutationFn: async ({ ids, isLocked }: { ids: string[]; isLocked: boolean }) => {
+      await Promise.all(ids.map(id => apiRequest("PATCH", `/api/assignments/${id}`, { isLocked })));
+      return isLocked;
+    },
+    onSuccess: (isLocked) => {
+      queryClient.invalidateQueries({ 
+        predicate: (query) => {
+          const key = query.queryKey[0];
+          return typeof key === 'string' && key.includes('/api/assignments');
+        }
+      });
+      toast({
+        title: "Erfolg",
+        description: isLocked
+          ? "Zuweisung wurde gesperrt und bleibt bei der Optimierung unverändert."
+          : "Sperre wurde aufgehoben.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Fehler",
+        description: "Sperre konnte nicht geändert werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const createAssignmentMutation = useMutation({
     mutationFn: async (data: {
       teacherId: string;
@@ -967,7 +1008,8 @@ export default function Stundenplaene() {
     const processedAssignments = new Map<string, { teacherId: string; hours: number; semester: string }>();
     
     extendedAssignments.forEach(assignment => {
-      const hours = parseFloat(assignment.hoursPerWeek);
+      // Team-taught hours count as credited by the group's setting
+      const hours = getCreditedHours(assignment, resolveTeamCredit);
       
       // Skip 0-hour assignments as they're often placeholders
       if (hours <= 0) return;
@@ -1017,7 +1059,7 @@ export default function Stundenplaene() {
     });
     
     return workloadMap;
-  }, [extendedAssignments]);
+  }, [extendedAssignments, resolveTeamCredit]);
 
   // Legacy teacherWorkload for backward compatibility (total hours)
   const teacherWorkload = useMemo(() => {
@@ -1956,6 +1998,7 @@ export default function Stundenplaene() {
                                 {isTeacherEditMode && <TableHead className="bg-card px-2 text-xs">Lehrkraft</TableHead>}
                                 <TableHead className="bg-card px-2 text-center text-xs">1. HJ</TableHead>
                                 <TableHead className="bg-card px-2 text-center text-xs">2. HJ</TableHead>
+                                <TableHead className="w-12 bg-card px-2 text-center text-xs">Sperre</TableHead>
                                 {isTeacherEditMode && <TableHead className="w-24 bg-card px-2 text-xs">Aktionen</TableHead>}
                               </TableRow>
                             </TableHeader>
@@ -2210,6 +2253,25 @@ export default function Stundenplaene() {
                                       )
                                     )}
                                   </TableCell>
+                                  <TableCell className="px-2 text-center">
+                                    {(() => {
+                                      const groupRows = [group.semester1, group.semester2].filter((a): a is NonNullable<typeof a> => !!a);
+                                      const isLocked = groupRows.length > 0 && groupRows.every(a => a.isLocked);
+                                      return (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          className="h-7 w-7 p-0"
+                                          onClick={() => toggleLockMutation.mutate({ ids: groupRows.map(a => a.id), isLocked: !isLocked })}
+                                          disabled={groupRows.length === 0 || toggleLockMutation.isPending}
+                                          title={isLocked ? "Sperre aufheben" : "Für Optimierung sperren"}
+                                          data-testid={`button-lock-${group.key}`}
+                                        >
+                                          {isLocked ? <Lock className="h-3 w-3 text-orange-600" /> : <LockOpen className="h-3 w-3 opacity-50" />}
+                                        </Button>
+                                      );
+                                    })()}
+                                  </TableCell>
                                   {isTeacherEditMode && (
                                     <TableCell className="px-2">
                                       <div className="flex space-x-1">
@@ -3034,6 +3096,7 @@ export default function Stundenplaene() {
                                   {classSort.column !== 'semester' && <ArrowUpDown className="ml-2 h-4 w-4 opacity-50" />}
                                 </Button>
                               </TableHead>
+                              <TableHead className="w-16 text-center">Sperre</TableHead>
                               <TableHead className="w-32">Aktionen</TableHead>
                             </TableRow>
                           </TableHeader>
@@ -3128,6 +3191,9 @@ export default function Stundenplaene() {
                                     </SelectContent>
                                   </Select>
                                 </TableCell>
+                                <TableCell>
+                                  {/* New assignments start unlocked */}
+                                </TableCell>
                                 <TableCell>
                                   <div className="flex space-x-2">
                                     <Button
@@ -3379,6 +3445,19 @@ export default function Stundenplaene() {
                                     </Badge>
                                   )}
                                 </TableCell>
+                                <TableCell className="text-center">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-8 w-8 p-0"
+                                    onClick={() => toggleLockMutation.mutate({ ids: [assignment.id], isLocked: !assignment.isLocked })}
+                                    disabled={toggleLockMutation.isPending}
+                                    title={assignment.isLocked ? "Sperre aufheben" : "Für Optimierung sperren"}
+                                    data-testid={`button-lock-${assignment.id}`}
+                                  >
+                                    {assignment.isLocked ? <Lock className="h-4 w-4 text-orange-600" /> : <LockOpen className="h-4 w-4 opacity-50" />}
+                                  </Button>
+                                </TableCell>
                                 <TableCell>
                                   {isClassEditMode && (
                                     <div className="flex space-x-2">
@@ -3424,16 +3503,24 @@ export default function Stundenplaene() {
                                         <Users className="h-3 w-3" />
                                       </Button>
                                     ) : (
-                                      <Button
-                                        onClick={() => removeFromTeamTeachingMutation.mutate(assignment.id)}
-                                        variant="outline"
-                                        size="sm"
-                                        title="Aus Team entfernen"
-                                        data-testid={`button-remove-team-${assignment.id}`}
-                                      >
-                                        <Users className="h-3 w-3" />
-                                        ✕
-                                      </Button>
+                                      <>
+                                        <TeamTeachingCreditDialog
+                                          teamTeachingId={assignment.teamTeachingId!}
+                                          members={(getTeamTeachingGroups.get(assignment.teamTeachingId!) ?? [])
+                                            .filter((a: Assignment) => a.semester === assignment.semester)
+                                            .map((a: Assignment) => ({ teacherId: a.teacherId, shortName: teacherMap.get(a.teacherId)?.shortName ?? "?" }))}
+                                        />
+                                        <Button
+                                          onClick={() => removeFromTeamTeachingMutation.mutate(assignment.id)}
+                                          variant="outline"
+                                          size="sm"
+                                          title="Aus Team entfernen"
+                                          data-testid={`button-remove-team-${assignment.id}`}
+                                        >
+                                          <Users className="h-3 w-3" />
+                                          ✕
+                                        </Button>
+                                      </>
                                     )}
                                     <AlertDialog>
                                       <AlertDialogTrigger asChild>
@@ -3538,7 +3625,7 @@ export default function Stundenplaene() {
                             {/* Empty state when no assignments */}
                             {classAssignments.length === 0 && !newClassAssignment && (
                               <TableRow>
-                                <TableCell colSpan={5} className="text-center py-8">
+                                <TableCell colSpan={7} className="text-center py-8">
                                   <div className="text-muted-foreground" data-testid="empty-class-assignments">
                                     <Calendar className="h-8 w-8 mx-auto mb-2" />
                                     <p>Keine Zuweisungen für diese Klasse vorhanden.</p>
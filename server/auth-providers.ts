@@ -0,0 +1,352 @@
+import * as client from "openid-client";
+import { Strategy as OidcStrategy, type VerifyFunction } from "openid-client/passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import passport from "passport";
+import memoize from "memoizee";
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { acceptInvitationSchema, localLoginSchema } from "@shared/schema";
+import { isInvitationUsable } from "@shared/invitations";
+
+export type AuthProviderType = "replit" | "oidc" | "local";
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Logged-in user as kept in the session. claims uses the OIDC claim names
+// (sub, email, ...) that the rest of the server reads for every provider;
+// sub is always the id of the users row, not the subject of the login provider.
+export interface SessionUser {
+  claims: {
+    sub: string;
+    email?: string;
+    first_name?: string;
+    last_name?: string;
+    profile_image_url?: string;
+    [claim: string]: unknown;
+  };
+  access_token?: string;
+  refresh_token?: string;
+  expires_at: number; // seconds since epoch
+}
+
+// Person behind a successful login, independent of the provider
+export interface AuthProfile {
+  sub: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  profileImageUrl?: string;
+}
+
+// Creates or updates the user after a login and returns the id of the stored user;
+// throws for people without a valid invitation
+export type LoginHandler = (profile: AuthProfile) => Promise<string>;
+
+export interface AuthProvider {
+  type: AuthProviderType;
+  // Text of the login button
+  label: string;
+  // Registers the passport strategy and the /api/login, /api/callback and /api/logout routes
+  setup(app: Express, onLogin: LoginHandler): Promise<void>;
+  // Renews an expired session; false means the user has to log in again
+  refresh(user: SessionUser): Promise<boolean>;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Environment variable ${name} not provided`);
+  }
+  return value;
+}
+
+// ===== OIDC (Replit Auth, Moodle, IServ, ...) =====
+
+interface OidcProviderOptions {
+  type: "replit" | "oidc";
+  label: string;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+  // Hosts the app is reached under; each gets its own callback URL
+  baseUrls: string[];
+  prompt?: string;
+}
+
+function updateUserSession(
+  user: Partial<SessionUser>,
+  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
+) {
+  user.claims = tokens.claims() as SessionUser["claims"];
+  user.access_token = tokens.access_token;
+  user.refresh_token = tokens.refresh_token;
+  user.expires_at = user.claims?.exp as number;
+}
+
+// Replit sends first_name/last_name, standard OIDC servers given_name/family_name
+function toProfile(claims: SessionUser["claims"]): AuthProfile {
+  return {
+    sub: claims.sub,
+    email: claims.email,
+    firstName: claims.first_name ?? (claims.given_name as string | undefined),
+    lastName: claims.last_name ?? (claims.family_name as string | undefined),
+    profileImageUrl: claims.profile_image_url ?? (claims.picture as string | undefined),
+  };
+}
+
+function createOidcProvider(options: OidcProviderOptions): AuthProvider {
+  const getConfig = memoize(
+    async () => await client.discovery(new URL(options.issuerUrl), options.clientId, options.clientSecret),
+    { maxAge: 3600 * 1000 }
+  );
+  const strategyName = (hostname: string) => `${options.type}:${hostname}`;
+
+  return {
+    type: options.type,
+    label: options.label,
+
+    async setup(app, onLogin) {
+      const config = await getConfig();
+
+      const verify: VerifyFunction = async (
+        tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+        verified: passport.AuthenticateCallback
+      ) => {
+        try {
+          const user: Partial<SessionUser> = {};
+          updateUserSession(user, tokens);
+          // A user invited before a change of login provider keeps the id of the stored user
+          user.claims!.sub = await onLogin(toProfile(user.claims!));
+          verified(null, user);
+        } catch (error) {
+          console.error("Authentication error:", error);
+          verified(error, false);
+        }
+      };
+
+      for (const baseUrl of options.baseUrls) {
+        const url = new URL(baseUrl);
+        passport.use(new OidcStrategy(
+          {
+            name: strategyName(url.hostname),
+            config,
+            scope: options.scope,
+            callbackURL: new URL("/api/callback", url).href,
+          },
+          verify,
+        ));
+      }
+
+      app.get("/api/login", (req, res, next) => {
+        passport.authenticate(strategyName(req.hostname), {
+          prompt: options.prompt,
+          scope: options.scope.split(" "),
+        })(req, res, next);
+      });
+
+      app.get("/api/callback", (req, res, next) => {
+        passport.authenticate(strategyName(req.hostname), {
+          successReturnToOrRedirect: "/",
+          failureRedirect: "/api/login",
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          try {
+            res.redirect(client.buildEndSessionUrl(config, {
+              client_id: options.clientId,
+              post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
+            }).href);
+          } catch {
+            // Issuer without end_session_endpoint: only the local session ends
+            res.redirect("/");
+          }
+        });
+      });
+    },
+
+    async refresh(user) {
+      if (!user.refresh_token) return false;
+      try {
+        const tokenResponse = await client.refreshTokenGrant(await getConfig(), user.refresh_token);
+        const userId = user.claims.sub;
+        updateUserSession(user, tokenResponse);
+        user.claims.sub = userId;
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+function createReplitProvider(): AuthProvider {
+  return createOidcProvider({
+    type: "replit",
+    label: "Mit Google anmelden",
+    issuerUrl: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+    clientId: requireEnv("REPL_ID"),
+    scope: "openid email profile offline_access",
+    baseUrls: requireEnv("REPLIT_DOMAINS").split(",").map(domain => `https://${domain}`),
+    prompt: "login consent",
+  });
+}
+
+// Any OIDC server, e.g. the SSO of Moodle or IServ
+function createGenericOidcProvider(): AuthProvider {
+  return createOidcProvider({
+    type: "oidc",
+    label: process.env.OIDC_LABEL ?? "Mit Schul-Login anmelden",
+    issuerUrl: requireEnv("OIDC_ISSUER_URL"),
+    clientId: requireEnv("OIDC_CLIENT_ID"),
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scope: process.env.OIDC_SCOPE ?? "openid email profile",
+    baseUrls: requireEnv("APP_BASE_URL").split(","),
+  });
+}
+
+// ===== Local email and password =====
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const PASSWORD_KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt>$<hash>" (hex)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, saltHex, hashHex] = stored.split("$");
+  if (algorithm !== "scrypt" || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function toLocalSessionUser(profile: AuthProfile): SessionUser {
+  return {
+    claims: {
+      sub: profile.sub,
+      email: profile.email,
+      first_name: profile.firstName,
+      last_name: profile.lastName,
+    },
+    expires_at: Math.floor((Date.now() + SESSION_TTL_MS) / 1000),
+  };
+}
+
+function logIn(req: Request, res: Response, next: NextFunction, user: SessionUser, status = 200) {
+  req.login(user, (error) => {
+    if (error) return next(error);
+    res.status(status).json({ success: true });
+  });
+}
+
+function createLocalProvider(): AuthProvider {
+  return {
+    type: "local",
+    label: "Anmelden",
+
+    async setup(app, onLogin) {
+      passport.use("local", new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+        try {
+          const user = await storage.getUserByEmail(email.trim());
+          const passwordHash = user ? await storage.getUserPasswordHash(user.id) : undefined;
+          if (!user || !passwordHash || !(await verifyPassword(password, passwordHash))) {
+            return done(null, false, { message: "E-Mail-Adresse oder Passwort ist falsch" });
+          }
+          if (!user.isActive) {
+            return done(null, false, { message: "Dieses Benutzerkonto ist deaktiviert" });
+          }
+          done(null, toLocalSessionUser({
+            sub: user.id,
+            email: user.email ?? undefined,
+            firstName: user.firstName ?? undefined,
+            lastName: user.lastName ?? undefined,
+          }));
+        } catch (error) {
+          done(error);
+        }
+      }));
+
+      // The login form is part of the start page
+      app.get("/api/login", (_req, res) => res.redirect("/"));
+
+      app.post("/api/login", (req, res, next) => {
+        const parsed = localLoginSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: parsed.error.errors.map(e => e.message).join(", ") });
+        }
+        passport.authenticate("local", (error: unknown, user: SessionUser | false, info?: { message?: string }) => {
+          if (error) return next(error);
+          if (!user) {
+            return res.status(401).json({ message: info?.message ?? "Anmeldung fehlgeschlagen" });
+          }
+          logIn(req, res, next, user);
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => res.redirect("/"));
+      });
+
+      // Accepting an invitation creates the account with name and password and logs in
+      app.post("/api/invitation/:token/accept", async (req, res, next) => {
+        try {
+          const account = acceptInvitationSchema.parse(req.body);
+          const invitation = await storage.getInvitationByToken(req.params.token);
+          if (!invitation || !isInvitationUsable(invitation)) {
+            return res.status(400).json({ error: "Die Einladung ist ungültig, abgelaufen, widerrufen oder wurde bereits verwendet" });
+          }
+
+          const existingUser = await storage.getUserByEmail(invitation.email);
+          const profile: AuthProfile = {
+            sub: existingUser?.id ?? randomUUID(),
+            email: invitation.email,
+            firstName: account.firstName,
+            lastName: account.lastName,
+          };
+          const userId = await onLogin(profile);
+          await storage.setUserPassword(userId, await hashPassword(account.password));
+          logIn(req, res, next, toLocalSessionUser({ ...profile, sub: userId }), 201);
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: error.errors.map(e => e.message).join(", ") });
+          }
+          console.error("Error accepting invitation:", error);
+          res.status(400).json({ error: error instanceof Error ? error.message : "Einladung konnte nicht angenommen werden" });
+        }
+      });
+    },
+
+    // Local sessions end with the session cookie
+    async refresh() {
+      return false;
+    },
+  };
+}
+
+/**
+ * Provider chosen by AUTH_PROVIDER (replit, oidc or local).
+ * Without it, Replit Auth is used on Replit and the local login everywhere else.
+ */
+export function createAuthProvider(): AuthProvider {
+  const type = process.env.AUTH_PROVIDER ?? (process.env.REPLIT_DOMAINS ? "replit" : "local");
+  switch (type) {
+    case "replit":
+      return createReplitProvider();
+    case "oidc":
+      return createGenericOidcProvider();
+    case "local":
+      return createLocalProvider();
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${type}" (expected replit, oidc or local)`);
+  }
+}
@@ -0,0 +1,204 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler, Request, Response, NextFunction } from "express";
+import connectPg from "connect-pg-simple";
+import { storage } from "./storage";
+import { getCurrentSchoolRole, getCurrentSubjectIds } from "./request-context";
+import { createAuthProvider, SESSION_TTL_MS, type AuthProfile, type AuthProvider, type SessionUser } from "./auth-providers";
+import { getPermissionScope, hasPermission, type Permission } from "@shared/permissions";
+import { getInvitationStatus, isInvitationUsable } from "@shared/invitations";
+
+// Set by setupAuth; see createAuthProvider for how it is chosen
+let authProvider: AuthProvider | undefined;
+
+// Mock user of the development login bypass; it has no users row
+export const DEV_USER_ID = "dev-user-123";
+
+/**
+ * Development without login: only with NODE_ENV=development and DEV_AUTH_BYPASS=true
+ */
+export function isDevAuthBypass(): boolean {
+  return process.env.NODE_ENV === "development" && process.env.DEV_AUTH_BYPASS === "true";
+}
+
+export function getSession() {
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: SESSION_TTL_MS,
+    tableName: "sessions",
+  });
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Only for servers reached over plain HTTP inside the school network
+      secure: process.env.SESSION_COOKIE_SECURE !== "false",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+}
+
+// Returns the id of the stored user the session belongs to. A user is matched by email,
+// so a change of login provider (new subject) keeps the existing account and its roles.
+async function upsertUser(
+  profile: AuthProfile,
+): Promise<string> {
+  // Check if user has a valid invitation
+  const email = profile.email;
+  if (!email) {
+    throw new Error("E-Mail-Adresse nicht verfügbar. Bitte verwenden Sie ein Konto mit gültiger E-Mail-Adresse.");
+  }
+
+  // Check for invitations; several schools can invite the same person
+  const invitations = await storage.getInvitationsByEmail(email);
+  if (invitations.length === 0) {
+    throw new Error(`Keine Einladung für ${email} gefunden. Bitte kontaktieren Sie einen Administrator für eine Einladung.`);
+  }
+
+  const existingUser = await storage.getUserByEmail(email);
+  if (existingUser && !existingUser.isActive) {
+    throw new Error(`Das Benutzerkonto für ${email} ist deaktiviert. Bitte kontaktieren Sie einen Administrator.`);
+  }
+
+  const usable = invitations.filter(invitation => isInvitationUsable(invitation));
+  if (usable.length === 0) {
+    if (existingUser) {
+      // User exists and invitations were already used - log in as the stored user
+      return existingUser.id;
+    }
+    const status = getInvitationStatus(invitations[0]);
+    if (status === "accepted") {
+      throw new Error(`Die Einladung für ${email} wurde bereits verwendet. Bitte kontaktieren Sie einen Administrator.`);
+    }
+    if (status === "revoked") {
+      throw new Error(`Die Einladung für ${email} wurde widerrufen. Bitte kontaktieren Sie einen Administrator.`);
+    }
+    throw new Error(`Die Einladung für ${email} ist abgelaufen. Bitte kontaktieren Sie einen Administrator für eine neue Einladung.`);
+  }
+
+  // Create or update user with invitation role
+  const userId = existingUser?.id ?? profile.sub;
+  const isAdmin = existingUser?.role === "admin" || usable.some(invitation => invitation.role === "admin");
+  const userData = {
+    id: userId,
+    email: email,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    profileImageUrl: profile.profileImageUrl,
+    role: isAdmin ? "admin" : "user",
+  };
+
+  await storage.upsertUser(userData);
+
+  for (const invitation of usable) {
+    // Memberships granted by the invitation
+    for (const grant of invitation.schoolRoles) {
+      await storage.setUserSchoolRole(userId, grant.schoolId, grant.role, grant.subjectIds);
+    }
+
+    // Mark invitation as used
+    await storage.markInvitationUsed(invitation.id, userId);
+  }
+  return userId;
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  const provider = createAuthProvider();
+  await provider.setup(app, upsertUser);
+  authProvider = provider;
+
+  // Public: tells the login and invitation pages which login to show
+  app.get("/api/auth/provider", (_req, res) => {
+    res.json({ type: provider.type, label: provider.label });
+  });
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) {
+    return next();
+  }
+
+  if (authProvider && await authProvider.refresh(user)) {
+    return next();
+  }
+  res.status(401).json({ message: "Unauthorized" });
+};
+
+async function checkAdmin(req: Request, res: Response, next: NextFunction, allowSchoolAdmin: boolean) {
+  const user = req.user as any;
+
+  if (!req.isAuthenticated() || !user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  // Check if user has admin role
+  try {
+    const email = user.claims?.email;
+    if (!email) {
+      return res.status(403).json({ message: "Access denied - no email found" });
+    }
+
+    const dbUser = await storage.getUserByEmail(email);
+    const isSchoolAdmin = allowSchoolAdmin && !!dbUser && getCurrentSchoolRole() === 'admin';
+    if (!dbUser || (dbUser.role !== 'admin' && !isSchoolAdmin)) {
+      return res.status(403).json({ message: "Access denied - admin role required" });
+    }
+
+    return next();
+  } catch (error) {
+    console.error("Error checking admin role:", error);
+    return res.status(500).json({ message: "Error checking permissions" });
+  }
+}
+
+// Global admins and admins of the school the request works in
+export const isAdmin: RequestHandler = (req, res, next) => checkAdmin(req, res, next, true);
+
+// Global admins only (Schulträger): managing schools
+export const isGlobalAdmin: RequestHandler = (req, res, next) => checkAdmin(req, res, next, false);
+// Subjects whose records a request reads or changes
+export type RequestSubjectResolver = (req: Request) => Promise<(string | null | undefined)[]> | (string | null | undefined)[];
+
+// Requires a permission of the user's role in the current school (see shared/permissions.ts).
+// Subject-bound roles (Fachkonferenzleitung) also need every subject the request touches to be
+// one of their own; routes without a subject resolver stay closed to them.
+export function requirePermission(permission: Permission, getSubjectIds?: RequestSubjectResolver): RequestHandler {
+  return async (req, res, next) => {
+    const role = getCurrentSchoolRole();
+    const scope = getPermissionScope(role, permission);
+    if (scope === "full") {
+      return next();
+    }
+
+    try {
+      const subjectIds = scope === "subjects" && getSubjectIds ? await getSubjectIds(req) : [];
+      if (!hasPermission(role, permission, getCurrentSubjectIds(), subjectIds)) {
+        return res.status(403).json({ message: `Access denied - permission '${permission}' required` });
+      }
+      return next();
+    } catch (error) {
+      console.error("Error checking permission:", error);
+      return res.status(500).json({ message: "Error checking permissions" });
+    }
+  };
+}
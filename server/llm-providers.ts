@@ -0,0 +1,226 @@
+import OpenAI from "openai";
+import type { ParsedScheduleData } from "./schedule-text-chunks";
+import { parseScheduleTextWithRules } from "./rule-based-schedule-parser";
+
+export type LlmProviderType = "openai" | "local" | "rules";
+
+// Result for one chunk of schedule text
+export type ScheduleParseAttempt =
+  | { status: "parsed"; data: ParsedScheduleData }
+  // Token limit reached; the caller splits the chunk and tries again
+  | { status: "truncated" };
+
+export interface LlmProvider {
+  type: LlmProviderType;
+  // Name shown in the import, e.g. "ChatGPT"
+  label: string;
+  parseSchedule(chunkText: string): Promise<ScheduleParseAttempt>;
+  answerHelpQuestion(question: string): Promise<string>;
+}
+
+interface ChatProviderOptions {
+  type: "openai" | "local";
+  label: string;
+  client: OpenAI;
+  scheduleModel: string;
+  helpModel: string;
+  // response_format json_object; not every local server supports it
+  jsonMode: boolean;
+}
+
+const SCHEDULE_SYSTEM_PROMPT = "Du bist ein Experte für deutsche Schulstundenpläne. Antworte ausschließlich mit validen JSON-Daten.";
+
+const HELP_SYSTEM_PROMPT = `Du bist ein hilfreicher Assistent für das deutsche Stundenplan-Verwaltungssystem "DistriLesson PLANNER".
+
+      Das System verwaltet:
+      - Lehrer (mit Qualifikationen und Stundendeputaten)
+      - Klassen (mit Schülerzahlen und Stundenvorgaben)
+      - Fächer (mit Parallelgruppen für Religion/Differenzierung)
+      - Stundenpläne und Zuweisungen
+      - Planstellenberechnung nach deutschen Schulstandards
+      - Master-Stundenplan mit Semester-Planung
+      - CSV-Import für Massendaten
+      - Admin-Panel für Benutzerverwaltung
+
+      Hauptfunktionen:
+      - Dashboard mit Übersichten
+      - Lehrerverwaltung (Kürzel, Namen, Fächer, Deputate)
+      - Klassenverwaltung (Jahrgänge, Schülerzahlen, Zielstunden)
+      - Fächerverwaltung (auch mit Parallelgruppen)
+      - Stundenplanoptimierung
+      - Planstellenberechnung
+      - Schuljahreswechsel
+      - CSV/ChatGPT Import
+
+      Antworte auf Deutsch in freundlichem Ton. Erkläre Funktionen, Prozesse und gib praktische Tipps für die Nutzung des Systems.`;
+
+function buildSchedulePrompt(chunkText: string): string {
+  return `Analysiere diesen deutschen Stundenplan und extrahiere die Daten als JSON.
+Der Text kann ein Ausschnitt eines größeren Stundenplans sein; extrahiere nur die darin enthaltenen Daten.
+
+Antworte AUSSCHLIESSLICH mit einem gültigen JSON-Objekt in diesem Format:
+{
+  "teachers": [{"name": "Vollname oder null", "shortName": "ABC", "qualifications": ["D", "M"]}],
+  "classes": [{"name": "5a", "grade": 5, "studentCount": null}],
+  "subjects": [{"name": "Deutsch", "shortName": "D", "category": "Hauptfach"}],
+  "assignments": [{"teacherShortName": "ABC", "className": "5a", "subjectShortName": "D", "hoursPerWeek": 4, "semester": 1}]
+}
+
+Wichtige Regeln:
+- Lehrer-Kürzel sind meist 2-4 Buchstaben (z.B. "MÜL", "SCH")
+- Klassen wie "5a", "10b", "Q1" normalisieren
+- Semester: 1 = erstes Halbjahr, 2 = zweites Halbjahr
+
+Fachkürzel (GENAU verwenden):
+- PK = Politik (NICHT PP!)
+- PP = Praktische Philosophie
+- KR = Katholische Religion, ER = Evangelische Religion
+- D = Deutsch, M = Mathe, E = Englisch
+- FS = Französisch, SW = Sozialwissenschaften, NW = Naturwissenschaften
+- IF = Informatik, TC = Technik
+- BI = Biologie, CH = Chemie, PH = Physik
+- GE = Geschichte, EK = Erdkunde
+- KU = Kunst, MU = Musik, SP = Sport
+- HW = Hauswirtschaft, TX = Textil
+
+Stundenplan-Text:
+${chunkText}`;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Environment variable ${name} not provided`);
+  }
+  return value;
+}
+
+// Chat completions API of OpenAI and of compatible servers (llama.cpp, Ollama, vLLM, ...)
+function createChatProvider(options: ChatProviderOptions): LlmProvider {
+  const { client, label } = options;
+
+  return {
+    type: options.type,
+    label,
+
+    async parseSchedule(chunkText) {
+      const response = await client.chat.completions.create({
+        model: options.scheduleModel,
+        messages: [
+          { role: "system", content: SCHEDULE_SYSTEM_PROMPT },
+          { role: "user", content: buildSchedulePrompt(chunkText) }
+        ],
+        ...(options.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+        max_tokens: 4000,
+        temperature: 0.1 // Low temperature for consistent output
+      });
+
+      const choice = response.choices[0];
+      if (!choice?.message.content) {
+        throw new Error(`${label} returned empty response`);
+      }
+      if (choice.finish_reason === "length") {
+        return { status: "truncated" };
+      }
+
+      let parsedData: any;
+      try {
+        // Models without JSON mode like to wrap the answer in a Markdown code block
+        parsedData = JSON.parse(choice.message.content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ""));
+      } catch {
+        throw new Error("Die JSON-Antwort war unvollständig oder fehlerhaft.");
+      }
+
+      if (!parsedData.teachers || !parsedData.classes || !parsedData.subjects || !parsedData.assignments) {
+        throw new Error(`Invalid data structure returned by ${label}`);
+      }
+      return { status: "parsed", data: parsedData as ParsedScheduleData };
+    },
+
+    async answerHelpQuestion(question) {
+      const response = await client.chat.completions.create({
+        model: options.helpModel,
+        messages: [
+          { role: "system", content: HELP_SYSTEM_PROMPT },
+          { role: "user", content: question }
+        ],
+        max_tokens: 1000
+      });
+      return response.choices[0]?.message.content || "Entschuldigung, ich konnte keine Antwort generieren.";
+    }
+  };
+}
+
+function createOpenAIProvider(): LlmProvider {
+  return createChatProvider({
+    type: "openai",
+    label: "ChatGPT",
+    client: new OpenAI({ apiKey: requireEnv("OPENAI_API_KEY") }),
+    scheduleModel: process.env.OPENAI_MODEL ?? "gpt-4o",
+    helpModel: process.env.OPENAI_HELP_MODEL ?? "gpt-4o-mini",
+    jsonMode: true
+  });
+}
+
+// OpenAI-compatible server inside the school network, e.g. llama.cpp on http://localhost:8080/v1
+function createLocalProvider(): LlmProvider {
+  const scheduleModel = process.env.LLM_MODEL ?? "local-model";
+  return createChatProvider({
+    type: "local",
+    label: process.env.LLM_LABEL ?? "Lokales Sprachmodell",
+    client: new OpenAI({
+      baseURL: requireEnv("LLM_BASE_URL"),
+      apiKey: process.env.LLM_API_KEY ?? "not-needed" // most local servers ignore the key
+    }),
+    scheduleModel,
+    helpModel: process.env.LLM_HELP_MODEL ?? scheduleModel,
+    jsonMode: process.env.LLM_JSON_MODE !== "false"
+  });
+}
+
+function createRulesProvider(): LlmProvider {
+  return {
+    type: "rules",
+    label: "Regelbasierte Erkennung",
+
+    async parseSchedule(chunkText) {
+      return { status: "parsed", data: parseScheduleTextWithRules(chunkText) };
+    },
+
+    async answerHelpQuestion() {
+      return "Der Hilfe-Assistent ist in dieser Installation nicht verfügbar, da kein Sprachmodell eingerichtet ist. " +
+        "Bitte wenden Sie sich bei Fragen an die Administration Ihrer Schule.";
+    }
+  };
+}
+
+let provider: LlmProvider | undefined;
+
+/**
+ * Provider from LLM_PROVIDER (openai, local or rules). Without setting,
+ * OpenAI is used when OPENAI_API_KEY is present, otherwise the rule-based parser.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    const type = process.env.LLM_PROVIDER ?? (process.env.OPENAI_API_KEY ? "openai" : "rules");
+    switch (type) {
+      case "openai":
+        provider = createOpenAIProvider();
+        break;
+      case "local":
+        provider = createLocalProvider();
+        break;
+      case "rules":
+        provider = createRulesProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${type}" (expected openai, local or rules)`);
+    }
+  }
+  return provider;
+}
+
+// Replaces the provider chosen from the environment, e.g. in scripts
+export function setLlmProvider(llmProvider: LlmProvider) {
+  provider = llmProvider;
+}
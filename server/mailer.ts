@@ -0,0 +1,80 @@
+import nodemailer from "nodemailer";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import type { Invitation } from "@shared/schema";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  // smtp: mail server or a local mail catcher (e.g. Mailpit on localhost:1025); log: console only
+  type: "smtp" | "log";
+  send(message: MailMessage): Promise<void>;
+}
+
+function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+  const from = process.env.MAIL_FROM ?? "Schulverwaltung <noreply@localhost>";
+
+  return {
+    type: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+// Without SMTP server the mail is printed, so links can still be copied from the server log
+function createLogTransport(): MailTransport {
+  return {
+    type: "log",
+    async send(message) {
+      console.log(`[mail] An: ${message.to} | ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.SMTP_HOST ? createSmtpTransport() : createLogTransport();
+  }
+  return transport;
+}
+
+// Replaces the transport chosen from the environment, e.g. in scripts
+export function setMailTransport(mailTransport: MailTransport) {
+  transport = mailTransport;
+}
+
+export async function sendInvitationEmail(invitation: Invitation, baseUrl: string, schoolNames: string[]): Promise<void> {
+  const link = new URL(`/invitation/${invitation.token}`, baseUrl).href;
+  const forSchools = schoolNames.length > 0 ? ` für ${schoolNames.join(", ")}` : "";
+  const validUntil = format(invitation.expiresAt, "dd.MM.yyyy HH:mm", { locale: de });
+
+  await getMailTransport().send({
+    to: invitation.email,
+    subject: `Einladung zum Schulverwaltungssystem${forSchools}`,
+    text: [
+      "Guten Tag,",
+      "",
+      `Sie wurden zum Schulverwaltungssystem${forSchools} eingeladen.`,
+      "Über den folgenden Link können Sie die Einladung annehmen:",
+      "",
+      link,
+      "",
+      `Der Link ist gültig bis ${validUntil}.`,
+    ].join("\n"),
+  });
+}
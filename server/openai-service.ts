@@ -1,227 +1,130 @@
-import OpenAI from "openai";
 import { storage } from "./storage";
 import { insertAssignmentSchema, insertTeacherSchema, insertClassSchema, insertSubjectSchema } from "@shared/schema";
-
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-interface ParsedScheduleData {
-  teachers: Array<{
-    name: string;
-    shortName: string;
-    qualifications: string[];
-  }>;
-  classes: Array<{
-    name: string;
-    grade: number;
-    studentCount: number;
-  }>;
-  subjects: Array<{
-    name: string;
-    shortName: string;
-    category: string;
-  }>;
-  assignments: Array<{
-    teacherShortName: string;
-    className: string;
-    subjectShortName: string;
-    hoursPerWeek: number;
-    semester: number;
-  }>;
-}
-
+import {
+  splitScheduleText,
+  mergeParsedScheduleData,
+  normalizeClassName,
+  type ParsedScheduleData,
+  type ChunkedScheduleData,
+  type ScheduleChunkReport
+} from "./schedule-text-chunks";
+import { getLlmProvider } from "./llm-providers";
+import { validateParsedScheduleData, type ScheduleValidationResult, type ScheduleValidationIssue } from "./schedule-validation";
+
+// Chunks parsed at the same time; keeps long imports within the API rate limits
+const CHUNK_CONCURRENCY = 3;
+// How often a chunk is halved again when the response hits the token limit
+const MAX_CHUNK_SPLIT_DEPTH = 3;
+
+// Help bot and schedule parsing run on the provider chosen by LLM_PROVIDER (see llm-providers.ts)
 export class OpenAIHelpService {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-
   async getHelpResponse(userQuestion: string): Promise<string> {
     try {
-      const systemPrompt = `Du bist ein hilfreicher Assistent für das deutsche Stundenplan-Verwaltungssystem "DistriLesson PLANNER". 
-
-      Das System verwaltet:
-      - Lehrer (mit Qualifikationen und Stundendeputaten)
-      - Klassen (mit Schülerzahlen und Stundenvorgaben)
-      - Fächer (mit Parallelgruppen für Religion/Differenzierung)
-      - Stundenpläne und Zuweisungen
-      - Planstellenberechnung nach deutschen Schulstandards
-      - Master-Stundenplan mit Semester-Planung
-      - CSV-Import für Massendaten
-      - Admin-Panel für Benutzerverwaltung
-
-      Hauptfunktionen:
-      - Dashboard mit Übersichten
-      - Lehrerverwaltung (Kürzel, Namen, Fächer, Deputate)
-      - Klassenverwaltung (Jahrgänge, Schülerzahlen, Zielstunden)
-      - Fächerverwaltung (auch mit Parallelgruppen)
-      - Stundenplanoptimierung
-      - Planstellenberechnung
-      - Schuljahreswechsel
-      - CSV/ChatGPT Import
-
-      Antworte auf Deutsch in freundlichem Ton. Erkläre Funktionen, Prozesse und gib praktische Tipps für die Nutzung des Systems.`;
-
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: userQuestion
-          }
-        ],
-        max_completion_tokens: 1000
-      });
-
-      return response.choices[0].message.content || "Entschuldigung, ich konnte keine Antwort generieren.";
+      return await getLlmProvider().answerHelpQuestion(userQuestion);
     } catch (error) {
-      console.error("OpenAI help error:", error);
+      console.error("LLM help error:", error);
       throw new Error(`Fehler beim Generieren der Hilfe-Antwort: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`);
     }
   }
 }
 
 export class OpenAIScheduleService {
-  /**
-   * Normalize class names to match database format (e.g., "5a" -> "05A")
-   */
   private normalizeClassName(className: string): string {
-    if (!className || typeof className !== 'string') return className;
-    
-    // Extract grade (number) and class letters (supports multiple letters like "fs", "tk")
-    const match = className.match(/^(\d{1,2})([a-zA-Z]*)$/);
-    if (!match) return className;
-    
-    const [, grade, letter] = match;
-    // Pad grade with leading zero if single digit, uppercase the letters
-    const normalizedGrade = grade.padStart(2, '0');
-    const normalizedLetter = letter.toUpperCase();
-    
-    return `${normalizedGrade}${normalizedLetter}`;
+    return normalizeClassName(className);
   }
 
-  async parseScheduleText(scheduleText: string): Promise<ParsedScheduleData> {
-    // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-    console.log("Parsing schedule text with OpenAI GPT-5...");
-    
-    // Intelligent input trimming - preserve structure
-    const maxInputLength = 2000;
-    let trimmedText = scheduleText;
-    if (scheduleText.length > maxInputLength) {
-      // Try to keep complete lines when trimming
-      const lines = scheduleText.split('\n');
-      let charCount = 0;
-      let includedLines = [];
-      
-      for (const line of lines) {
-        if (charCount + line.length + 1 <= maxInputLength) {
-          includedLines.push(line);
-          charCount += line.length + 1;
+  /**
+   * Parses the text class by class (see splitScheduleText) and merges the results.
+   * A failing chunk does not stop the others; it is reported in `chunks`.
+   * The merged data is repaired and checked; problems are listed in `issues`.
+   */
+  async parseScheduleText(scheduleText: string): Promise<ChunkedScheduleData & { issues: ScheduleValidationIssue[] }> {
+    const chunks = splitScheduleText(scheduleText);
+    const provider = getLlmProvider();
+    console.log(`Parsing schedule text with ${provider.label} in ${chunks.length} chunks (${scheduleText.length} characters)...`);
+
+    const reports: ScheduleChunkReport[] = [];
+    const results: ParsedScheduleData[] = [];
+
+    for (let start = 0; start < chunks.length; start += CHUNK_CONCURRENCY) {
+      const batch = chunks.slice(start, start + CHUNK_CONCURRENCY);
+      const outcomes = await Promise.allSettled(batch.map(chunk => this.parseChunk(chunk.text)));
+
+      outcomes.forEach((outcome, offset) => {
+        const chunk = batch[offset];
+        const report: ScheduleChunkReport = {
+          index: chunk.index,
+          label: chunk.label,
+          characters: chunk.text.length,
+          status: outcome.status === "fulfilled" ? "success" : "failed",
+          teachers: 0,
+          classes: 0,
+          subjects: 0,
+          assignments: 0
+        };
+        if (outcome.status === "fulfilled") {
+          results.push(outcome.value);
+          report.teachers = outcome.value.teachers.length;
+          report.classes = outcome.value.classes.length;
+          report.subjects = outcome.value.subjects.length;
+          report.assignments = outcome.value.assignments.length;
         } else {
-          break;
+          report.error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+          console.error(`Schedule parsing error in chunk "${chunk.label}":`, outcome.reason);
         }
-      }
-      
-      trimmedText = includedLines.join('\n') + (includedLines.length < lines.length ? '\n...(weitere Daten)' : '');
+        reports.push(report);
+      });
     }
 
-    const prompt = `Analysiere diesen deutschen Stundenplan und extrahiere die Daten als JSON.
-
-Antworte AUSSCHLIESSLICH mit einem gültigen JSON-Objekt in diesem Format:
-{
-  "teachers": [{"name": "Vollname oder null", "shortName": "ABC", "qualifications": ["D", "M"]}],
-  "classes": [{"name": "5a", "grade": 5, "studentCount": null}],
-  "subjects": [{"name": "Deutsch", "shortName": "D", "category": "Hauptfach"}],
-  "assignments": [{"teacherShortName": "ABC", "className": "5a", "subjectShortName": "D", "hoursPerWeek": 4, "semester": 1}]
-}
-
-Wichtige Regeln:
-- Lehrer-Kürzel sind meist 2-4 Buchstaben (z.B. "MÜL", "SCH")
-- Klassen wie "5a", "10b", "Q1" normalisieren
-- Semester: 1 = erstes Halbjahr, 2 = zweites Halbjahr
-
-Fachkürzel (GENAU verwenden):
-- PK = Politik (NICHT PP!)
-- PP = Praktische Philosophie
-- KR = Katholische Religion, ER = Evangelische Religion
-- D = Deutsch, M = Mathe, E = Englisch
-- FS = Französisch, SW = Sozialwissenschaften, NW = Naturwissenschaften
-- IF = Informatik, TC = Technik
-- BI = Biologie, CH = Chemie, PH = Physik
-- GE = Geschichte, EK = Erdkunde
-- KU = Kunst, MU = Musik, SP = Sport
-- HW = Hauswirtschaft, TX = Textil
-
-Stundenplan-Text:
-${trimmedText}`;
-
-    console.log("Prompt length:", prompt.length, "Input length:", scheduleText.length);
-    
-    try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // Using GPT-4o for better reliability and token handling
-        messages: [
-          {
-            role: "system",
-            content: "Du bist ein Experte für deutsche Schulstundenpläne. Antworte ausschließlich mit validen JSON-Daten."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" }, // Use JSON mode as per blueprint
-        max_tokens: 4000, // Using max_tokens for GPT-4o compatibility
-        temperature: 0.1 // Low temperature for consistent output
-      });
+    if (results.length === 0) {
+      throw new Error(`Fehler beim Parsen des Stundenplans (${provider.label}): ` +
+        (reports.map(report => `${report.label}: ${report.error}`).join("; ") || "Kein Text gefunden"));
+    }
 
-      const content = response.choices[0].message.content;
-      console.log("OpenAI Response:", {
-        contentLength: content?.length || 0,
-        finishReason: response.choices[0].finish_reason,
-        hasContent: !!content
-      });
+    const merged = mergeParsedScheduleData(results);
+    console.log("Successfully parsed:", {
+      chunks: chunks.length,
+      failedChunks: reports.filter(report => report.status === "failed").length,
+      teachers: merged.teachers.length,
+      classes: merged.classes.length,
+      subjects: merged.subjects.length,
+      assignments: merged.assignments.length
+    });
 
-      if (!content) {
-        throw new Error("OpenAI returned empty response");
-      }
+    const validation = await this.validateParsedData(merged);
+    return { ...validation.data, chunks: reports, issues: validation.issues };
+  }
 
-      if (response.choices[0].finish_reason === 'length') {
-        console.warn("Response was truncated, trying with shorter input...");
-        // Retry with much shorter input
-        const shorterText = scheduleText.substring(0, 800);
-        return this.parseScheduleText(shorterText);
-      }
+  /**
+   * Checks parsed data against the teachers, classes, subjects and subject mappings
+   * of the current school (see schedule-validation.ts)
+   */
+  async validateParsedData(parsedData: Partial<ParsedScheduleData>): Promise<ScheduleValidationResult> {
+    const [teachers, classes, subjects, subjectMappings] = await Promise.all([
+      storage.getTeachers(),
+      storage.getClasses(),
+      storage.getSubjects(),
+      storage.getSubjectMappings()
+    ]);
+    return validateParsedScheduleData(parsedData, { teachers, classes, subjects, subjectMappings });
+  }
 
-      const parsedData = JSON.parse(content);
-      
-      // Validate structure
-      if (!parsedData.teachers || !parsedData.classes || !parsedData.subjects || !parsedData.assignments) {
-        throw new Error("Invalid data structure returned by OpenAI");
-      }
-      
-      console.log("Successfully parsed:", {
-        teachers: parsedData.teachers?.length || 0,
-        classes: parsedData.classes?.length || 0,
-        subjects: parsedData.subjects?.length || 0,
-        assignments: parsedData.assignments?.length || 0
-      });
+  private async parseChunk(chunkText: string, depth: number = 0): Promise<ParsedScheduleData> {
+    const attempt = await getLlmProvider().parseSchedule(chunkText);
+    if (attempt.status === "parsed") {
+      return attempt.data;
+    }
 
-      return parsedData as ParsedScheduleData;
-    } catch (error) {
-      console.error("OpenAI parsing error:", error);
-      if (error instanceof SyntaxError) {
-        throw new Error("Fehler beim Parsen der OpenAI Antwort. Die JSON-Antwort war unvollständig oder fehlerhaft.");
-      }
-      throw new Error("Fehler beim Parsen des Stundenplans mit ChatGPT: " + (error as Error).message);
+    // Halve the chunk instead of cutting it off; the second half keeps the class heading
+    const lines = chunkText.split("\n");
+    if (lines.length < 3 || depth >= MAX_CHUNK_SPLIT_DEPTH) {
+      throw new Error("Die Antwort war zu lang und der Abschnitt lässt sich nicht weiter teilen.");
     }
+    console.warn(`Response was truncated, splitting chunk (${chunkText.length} characters)...`);
+    const middle = Math.ceil(lines.length / 2);
+    const first = await this.parseChunk(lines.slice(0, middle).join("\n"), depth + 1);
+    const second = await this.parseChunk([lines[0], ...lines.slice(middle)].join("\n"), depth + 1);
+    return mergeParsedScheduleData([first, second]);
   }
 
   async importParsedData(parsedData: ParsedScheduleData): Promise<{
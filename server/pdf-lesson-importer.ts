@@ -1,4 +1,4 @@
-import { PdfLessonParser, ParsedLesson, PdfParseResult } from './pdf-lesson-parser.js';
+import { PdfLessonParser, ParsedLesson, PdfParseResult, PdfParseDiagnostics } from './pdf-lesson-parser.js';
 import { IStorage } from './storage.js';
 import { Teacher, Subject, Class, Assignment, InsertAssignment } from '@shared/schema.js';
 import { IntelligentMappingService, MappingConflict } from './intelligent-mapping-service.js';
@@ -20,16 +20,23 @@ export interface ImportConflict {
   mappingConflict?: MappingConflict;
 }
 
+export interface ImportDiagnostics extends PdfParseDiagnostics {
+  errors: string[];
+  warnings: string[];
+}
+
 export interface ImportPreview {
   matches: ImportMatch[];
   conflicts: ImportConflict[];
   lessons: ParsedLesson[];
+  diagnostics: ImportDiagnostics;
   summary: {
     totalLessons: number;
     matchedClasses: number;
     matchedTeachers: number;
     matchedSubjects: number;
     conflicts: number;
+    skippedLines: number;
   };
 }
 
@@ -47,7 +54,8 @@ export class PdfLessonImporter {
     // Parse PDF
     const parseResult = await this.parser.parsePDF(pdfBuffer);
     
-    if (parseResult.errors.length > 0) {
+    // Errors in single classes are reported in the diagnostics; only fail without any result
+    if (parseResult.classes.length === 0 && parseResult.errors.length > 0) {
       throw new Error(`PDF-Parse-Fehler: ${parseResult.errors.join(', ')}`);
     }
 
@@ -185,13 +193,19 @@ export class PdfLessonImporter {
       matchedClasses: matchedClassesCount,
       matchedTeachers: matchedTeachersCount,
       matchedSubjects: matchedSubjectsCount,
-      conflicts: conflicts.length
+      conflicts: conflicts.length,
+      skippedLines: parseResult.diagnostics.classes.reduce((sum, c) => sum + c.skippedLines.length, 0)
     };
 
     return {
       matches,
       conflicts,
       lessons: allLessons,
+      diagnostics: {
+        ...parseResult.diagnostics,
+        errors: parseResult.errors,
+        warnings: parseResult.warnings
+      },
       summary
     };
   }
@@ -1,5 +1,3 @@
-import fs from 'fs';
-
 export interface ParsedLesson {
   className: string;
   semester: number;
@@ -15,57 +13,165 @@ export interface ParsedClassPlan {
   teachers: string[];
 }
 
+// Text of one visual line, split into cells where pdfjs leaves a wide horizontal gap.
+// x/y are PDF units; y grows upwards.
+export interface PdfTextCell {
+  x: number;
+  text: string;
+}
+
+export interface PdfTextLine {
+  page: number;
+  y: number;
+  text: string;
+  cells: PdfTextCell[];
+}
+
+export type SkippedLineReason =
+  | 'no_match'        // no lesson pattern and no known table row
+  | 'no_semester'     // lesson before any "1. Halbjahr" / "2. Halbjahr"
+  | 'invalid_hours'   // hours not a positive number
+  | 'outside_class';  // before the first "Unterrichtsplan für Klasse"
+
+export interface SkippedLine {
+  page: number;
+  text: string;
+  reason: SkippedLineReason;
+}
+
+export interface PdfClassDiagnostics {
+  className: string;
+  pages: number[];
+  layout: 'text' | 'table';   // table: columns found via a "Fach | Stunden | Lehrkraft" header
+  lessonCount: number;
+  skippedLines: SkippedLine[];
+  warnings: string[];
+}
+
+export interface PdfPageDiagnostics {
+  page: number;
+  textItems: number;
+  lines: number;
+  classNames: string[];
+  lessonCount: number;
+  skippedLines: SkippedLine[];
+  warnings: string[];
+}
+
+export interface PdfParseDiagnostics {
+  pages: PdfPageDiagnostics[];
+  classes: PdfClassDiagnostics[];
+}
+
 export interface PdfParseResult {
   classes: ParsedClassPlan[];
   errors: string[];
   warnings: string[];
+  diagnostics: PdfParseDiagnostics;
+}
+
+interface PositionedTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type TableColumnKey = 'subject' | 'hours' | 'teacher' | 'semester';
+
+interface TableColumn {
+  key: TableColumnKey;
+  x: number;
+}
+
+interface SemesterColumn {
+  semester: number;
+  x: number;
+}
+
+interface ClassSection {
+  className: string;
+  lines: PdfTextLine[];
 }
 
+const CLASS_HEADER_PATTERN = /Unterrichtsplan für Klasse (\d{2}[a-zA-Z])/;
+const SEMESTER_MARKER_PATTERN = /([12])\.\s*Halbjahr/g;
+const LESSON_PATTERN = /([^()]+?)\s*\(([0-9,\.]+)\s*Stunde[ns]?\)\s*bei\s+([A-Z]{2,4})/g;
+const TEACHER_LIST_PATTERN = /Lehrkräfte:\s*(.+)$/;
+const PAGE_FOOTER_PATTERN = /^Seite\s+\d+(\s+von\s+\d+)?$/i;
+const TABLE_HEADER_PATTERNS: Record<TableColumnKey, RegExp> = {
+  subject: /^(fach|unterrichtsfach)$/i,
+  hours: /^(std\.?|stunden|wstd\.?|wochenstunden)$/i,
+  teacher: /^(lehrkraft|lehrer|kürzel)$/i,
+  semester: /^(halbjahr|hj\.?)$/i,
+};
+
 export class PdfLessonParser {
-  
+
   async parsePDF(pdfBuffer: Buffer): Promise<PdfParseResult> {
     const result: PdfParseResult = {
       classes: [],
       errors: [],
-      warnings: []
+      warnings: [],
+      diagnostics: { pages: [], classes: [] }
     };
 
     try {
       // Dynamically import pdfjs-dist legacy build for Node.js compatibility
       const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
-      
-      // Extract text from PDF
-      const text = await this.extractTextFromPDF(pdfBuffer, pdfjs);
-      
+
+      // Extract positioned text lines per page
+      const lines = await this.extractLinesFromPDF(pdfBuffer, pdfjs, result.diagnostics.pages);
+
       // Debug logging (only if DEBUG_PDF is enabled)
       const debugPdf = process.env.DEBUG_PDF === 'true';
       if (debugPdf) {
-        console.log('DEBUG: Extracted PDF text (first 1000 chars):');
-        console.log(text.substring(0, 1000));
-        console.log('DEBUG: Total text length:', text.length);
+        console.log('DEBUG: Extracted PDF lines (first 40):');
+        lines.slice(0, 40).forEach(line => console.log(`DEBUG: [S.${line.page}] ${line.cells.map(c => `${Math.round(c.x)}:${c.text}`).join(' | ')}`));
+        console.log('DEBUG: Total lines:', lines.length);
       }
-      
+
       // Split into class sections
-      const classSections = this.extractClassSections(text);
+      const classSections = this.extractClassSections(lines, result.diagnostics.pages);
       if (debugPdf) {
         console.log('DEBUG: Found class sections:', classSections.length);
-        classSections.forEach((section, index) => {
-          console.log(`DEBUG: Section ${index}:`, section.substring(0, 200));
-        });
       }
-      
+      if (classSections.length === 0) {
+        result.warnings.push('Kein Klassenplan gefunden (erwartet: "Unterrichtsplan für Klasse ...")');
+      }
+
+      const seenClasses = new Set<string>();
+      const pageLessons = new Map<number, number>();
       for (const section of classSections) {
+        if (seenClasses.has(section.className)) {
+          result.warnings.push(`Klasse ${section.className} kommt mehrfach im PDF vor`);
+        }
+        seenClasses.add(section.className);
+
+        const classDiagnostics: PdfClassDiagnostics = {
+          className: section.className,
+          pages: Array.from(new Set(section.lines.map(line => line.page))),
+          layout: 'text',
+          lessonCount: 0,
+          skippedLines: [],
+          warnings: []
+        };
+        result.diagnostics.classes.push(classDiagnostics);
+
         try {
-          const classData = this.parseClassSection(section);
-          if (classData) {
-            result.classes.push(classData);
-          }
+          const classData = this.parseClassSection(section, classDiagnostics, pageLessons);
+          result.classes.push(classData);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
-          result.errors.push(`Fehler beim Parsen der Klasse: ${errorMessage}`);
+          const message = `Fehler beim Parsen der Klasse ${section.className} (Seite ${classDiagnostics.pages.join(', ')}): ${errorMessage}`;
+          classDiagnostics.warnings.push(message);
+          result.errors.push(message);
         }
       }
-      
+
+      this.collectPageDiagnostics(result, pageLessons);
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       result.errors.push(`PDF-Parse-Fehler: ${errorMessage}`);
@@ -74,106 +180,252 @@ export class PdfLessonParser {
     return result;
   }
 
-  private async extractTextFromPDF(pdfBuffer: Buffer, pdfjs: any): Promise<string> {
+  private async extractLinesFromPDF(pdfBuffer: Buffer, pdfjs: any, pages: PdfPageDiagnostics[]): Promise<PdfTextLine[]> {
     const uint8Array = new Uint8Array(pdfBuffer);
     const loadingTask = pdfjs.getDocument({ data: uint8Array });
     const pdfDocument = await loadingTask.promise;
-    
-    let fullText = '';
-    
+
+    const lines: PdfTextLine[] = [];
+
     for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
       const page = await pdfDocument.getPage(pageNum);
       const textContent = await page.getTextContent();
-      
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
-      
-      fullText += pageText + '\n';
+
+      // transform = [scaleX, skewY, skewX, scaleY, x, y]
+      const items: PositionedTextItem[] = textContent.items
+        .filter((item: any) => typeof item.str === 'string' && item.str.trim().length > 0)
+        .map((item: any) => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width ?? 0,
+          height: item.height || Math.abs(item.transform[3]) || 10,
+        }));
+
+      const pageLines = PdfLessonParser.groupTextLines(items, pageNum);
+      lines.push(...pageLines);
+
+      pages.push({
+        page: pageNum,
+        textItems: items.length,
+        lines: pageLines.length,
+        classNames: [],
+        lessonCount: 0,
+        skippedLines: [],
+        warnings: items.length === 0 ? ['Seite enthält keinen Text (gescanntes Dokument?)'] : []
+      });
     }
-    
-    return fullText;
+
+    return lines;
   }
 
-  private extractClassSections(text: string): string[] {
-    const sections: string[] = [];
-    
-    // Split text by class headers using regex
-    const classPattern = /Unterrichtsplan für Klasse (\d{2}[a-zA-Z])/g;
-    const matches = Array.from(text.matchAll(classPattern));
-    
-    for (let i = 0; i < matches.length; i++) {
-      const currentMatch = matches[i];
-      const nextMatch = matches[i + 1];
-      
-      const startIndex = currentMatch.index!;
-      const endIndex = nextMatch ? nextMatch.index! : text.length;
-      
-      const sectionText = text.substring(startIndex, endIndex);
-      sections.push(sectionText);
+  /**
+   * Groups text items into visual lines (same y within half a line height) and each
+   * line into cells. A horizontal gap wider than about two characters starts a new
+   * cell, so table columns stay apart even where pdfjs emits no separator.
+   */
+  static groupTextLines(items: PositionedTextItem[], page: number): PdfTextLine[] {
+    const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+    const rows: PositionedTextItem[][] = [];
+
+    for (const item of sorted) {
+      const row = rows[rows.length - 1];
+      const tolerance = Math.max(2, item.height * 0.5);
+      if (row && Math.abs(row[0].y - item.y) <= tolerance) {
+        row.push(item);
+      } else {
+        rows.push([item]);
+      }
     }
-    
-    return sections;
+
+    return rows.map(row => {
+      row.sort((a, b) => a.x - b.x);
+      const cells = PdfLessonParser.toCells(row);
+      return {
+        page,
+        y: row[0].y,
+        text: cells.map(cell => cell.text).join(' '),
+        cells
+      };
+    });
+  }
+
+  private static toCells(row: PositionedTextItem[]): PdfTextCell[] {
+    const cells: PdfTextCell[] = [];
+    let current: { x: number; end: number; text: string; charWidth: number } | null = null;
+
+    for (const item of row) {
+      const charWidth = item.width > 0 ? item.width / item.text.length : item.height * 0.5;
+      if (current) {
+        const gap = item.x - current.end;
+        if (gap <= Math.max(3, current.charWidth * 2)) {
+          current.text += gap > current.charWidth * 0.2 ? ` ${item.text}` : item.text;
+          current.end = Math.max(current.end, item.x + item.width);
+          continue;
+        }
+        cells.push({ x: current.x, text: current.text });
+      }
+      current = { x: item.x, end: item.x + item.width, text: item.text, charWidth };
+    }
+    if (current) {
+      cells.push({ x: current.x, text: current.text });
+    }
+
+    return cells
+      .map(cell => ({ x: cell.x, text: cell.text.replace(/\s+/g, ' ').trim() }))
+      .filter(cell => cell.text.length > 0);
   }
 
-  private isClassHeader(line: string): boolean {
-    return line.includes('Unterrichtsplan für Klasse') || 
-           !!(line.match(/^\d{2}[a-zA-Z]$/)) || // e.g., "05a"
-           !!(line.match(/Klasse \d{2}[a-zA-Z]/));
+  private extractClassSections(lines: PdfTextLine[], pages: PdfPageDiagnostics[]): ClassSection[] {
+    const sections: ClassSection[] = [];
+
+    for (const line of lines) {
+      const classMatch = line.text.match(CLASS_HEADER_PATTERN);
+      if (classMatch) {
+        sections.push({ className: classMatch[1], lines: [] });
+      }
+
+      const current = sections[sections.length - 1];
+      if (current) {
+        current.lines.push(line);
+      } else if (!PAGE_FOOTER_PATTERN.test(line.text)) {
+        pages[line.page - 1]?.skippedLines.push({ page: line.page, text: line.text, reason: 'outside_class' });
+      }
+    }
+
+    return sections;
   }
 
-  private parseClassSection(section: string): ParsedClassPlan | null {
-    // Extract class name from the section
-    const classMatch = section.match(/Unterrichtsplan für Klasse (\d{2}[a-zA-Z])/);
-    if (!classMatch) return null;
-    
-    const className = classMatch[1];
+  private parseClassSection(section: ClassSection, diagnostics: PdfClassDiagnostics, pageLessons: Map<number, number>): ParsedClassPlan {
+    const { className } = section;
     const lessons: ParsedLesson[] = [];
     const teachers: string[] = [];
 
-    // Split into semester sections
-    const semesterSections = section.split(/(?=[12]\.\s*Halbjahr)/);
-    
-    for (const semesterSection of semesterSections) {
-      let currentSemester = 1;
-      
-      // Determine semester
-      if (semesterSection.includes('2. Halbjahr')) {
-        currentSemester = 2;
-      } else if (semesterSection.includes('1. Halbjahr')) {
-        currentSemester = 1;
-      } else {
-        continue; // Skip sections without semester info
+    let semester: number | null = null;
+    let semesterColumns: SemesterColumn[] | null = null;   // both semesters side by side
+    let tableColumns: TableColumn[] | null = null;
+    let sawSemesterMarker = false;
+    // Unmatched text of the previous line per semester column; lesson entries may wrap onto the next line
+    const carry = new Map<number | null, { text: string; skippedIndex: number }>();
+
+    const skip = (line: PdfTextLine, text: string, reason: SkippedLineReason) => {
+      diagnostics.skippedLines.push({ page: line.page, text, reason });
+      return diagnostics.skippedLines.length - 1;
+    };
+
+    const addLesson = (line: PdfTextLine, subject: string, hours: number, teacher: string, lessonSemester: number | null, text: string) => {
+      if (lessonSemester === null) {
+        skip(line, text, 'no_semester');
+        return;
+      }
+      if (!Number.isFinite(hours) || hours <= 0) {
+        skip(line, text, 'invalid_hours');
+        return;
+      }
+      pageLessons.set(line.page, (pageLessons.get(line.page) ?? 0) + 1);
+      lessons.push({
+        className,
+        semester: lessonSemester,
+        subject: this.normalizeSubjectName(subject),
+        hours,
+        teacherShortName: teacher,
+        isSupplementary: this.isSupplementary(subject)
+      });
+    };
+
+    for (const line of section.lines) {
+      if (CLASS_HEADER_PATTERN.test(line.text) || PAGE_FOOTER_PATTERN.test(line.text)) {
+        carry.clear();
+        continue;
+      }
+
+      const teacherMatch = line.text.match(TEACHER_LIST_PATTERN);
+      if (teacherMatch) {
+        teachers.push(...teacherMatch[1].split(',').map(t => t.trim()).filter(Boolean));
+        carry.clear();
+        continue;
+      }
+
+      // Semester markers: one sets the semester of the following lines, two on one line
+      // split the page into a left and a right semester column
+      const markers = line.cells.flatMap(cell =>
+        Array.from(cell.text.matchAll(SEMESTER_MARKER_PATTERN)).map(match => ({ semester: Number(match[1]), x: cell.x })));
+      let cells = line.cells;
+      if (markers.length > 0) {
+        sawSemesterMarker = true;
+        carry.clear();
+        if (new Set(markers.map(marker => marker.semester)).size > 1) {
+          semesterColumns = markers.sort((a, b) => a.x - b.x);
+          semester = null;
+        } else {
+          semester = markers[0].semester;
+          semesterColumns = null;
+        }
+        cells = cells
+          .map(cell => ({ x: cell.x, text: cell.text.replace(SEMESTER_MARKER_PATTERN, '').trim() }))
+          .filter(cell => cell.text.length > 0);
+        if (cells.length === 0) continue;
       }
-      
-      // Find all subject lines in this semester section
-      const subjectPattern = /([^()]+?)\s*\(([0-9,\.]+)\s*Stunde[ns]?\)\s*bei\s+([A-Z]{2,4})/g;
-      let match;
-      
-      while ((match = subjectPattern.exec(semesterSection)) !== null) {
-        const subject = match[1].trim();
-        const hours = parseFloat(match[2].replace(',', '.'));
-        const teacher = match[3].trim();
-        
-        const isSupplementary = subject.toLowerCase().includes('förder') || 
-                               subject.toLowerCase().includes('sol') ||
-                               subject.toLowerCase().includes('ag');
-
-        lessons.push({
-          className,
-          semester: currentSemester,
-          subject: this.normalizeSubjectName(subject),
-          hours,
-          teacherShortName: teacher,
-          isSupplementary
-        });
+
+      const header = this.detectTableColumns(cells);
+      if (header) {
+        tableColumns = header;
+        diagnostics.layout = 'table';
+        sawSemesterMarker ||= header.some(column => column.key === 'semester');
+        carry.clear();
+        continue;
+      }
+
+      const segments = semesterColumns
+        ? semesterColumns.map((column, index) => {
+            const nextX = semesterColumns![index + 1]?.x ?? Infinity;
+            // small tolerance: cell text often starts slightly left of the heading
+            return { semester: column.semester, cells: cells.filter(cell => cell.x >= column.x - 5 && cell.x < nextX - 5) };
+          }).filter(segment => segment.cells.length > 0)
+        : [{ semester, cells }];
+
+      for (const segment of segments) {
+        const text = segment.cells.map(cell => cell.text).join(' ');
+
+        if (tableColumns) {
+          const row = this.readTableRow(segment.cells, tableColumns);
+          if (!row.subject || !row.teacher) {
+            skip(line, text, 'no_match');
+          } else {
+            addLesson(line, row.subject, row.hours, row.teacher, row.semester ?? segment.semester, text);
+          }
+          continue;
+        }
+
+        let matches = Array.from(text.matchAll(LESSON_PATTERN));
+        const previous = carry.get(segment.semester);
+        if (matches.length === 0 && previous) {
+          matches = Array.from(`${previous.text} ${text}`.matchAll(LESSON_PATTERN));
+          if (matches.length > 0) {
+            diagnostics.skippedLines.splice(previous.skippedIndex, 1);
+            carry.forEach(entry => {
+              if (entry.skippedIndex > previous.skippedIndex) entry.skippedIndex--;
+            });
+          }
+        }
+
+        if (matches.length === 0) {
+          carry.set(segment.semester, { text, skippedIndex: skip(line, text, 'no_match') });
+          continue;
+        }
+        carry.delete(segment.semester);
+        for (const match of matches) {
+          addLesson(line, match[1].trim(), parseFloat(match[2].replace(',', '.')), match[3].trim(), segment.semester, match[0].trim());
+        }
       }
     }
 
-    // Extract teacher list
-    const teacherMatch = section.match(/Lehrkräfte:\s*(.+?)$/m);
-    if (teacherMatch) {
-      teachers.push(...teacherMatch[1].split(',').map(t => t.trim()));
+    diagnostics.lessonCount = lessons.length;
+    if (lessons.length === 0) {
+      diagnostics.warnings.push('Keine Unterrichtsstunden erkannt');
+    }
+    if (!sawSemesterMarker) {
+      diagnostics.warnings.push('Keine Halbjahresangabe gefunden ("1. Halbjahr" / "2. Halbjahr")');
     }
 
     return {
@@ -183,59 +435,60 @@ export class PdfLessonParser {
     };
   }
 
-  private extractClassName(header: string): string | null {
-    // Try to match "Unterrichtsplan für Klasse 05a"
-    let match = header.match(/Klasse (\d{2}[a-zA-Z])/);
-    if (match) return match[1];
-    
-    // Try to match direct class name like "05a"
-    match = header.match(/^(\d{2}[a-zA-Z])$/);
-    if (match) return match[1];
-    
-    return null;
+  // Header row like "Fach | Stunden | Lehrkraft": remembers the x-position of each column
+  private detectTableColumns(cells: PdfTextCell[]): TableColumn[] | null {
+    const columns: TableColumn[] = [];
+    for (const cell of cells) {
+      const key = (Object.keys(TABLE_HEADER_PATTERNS) as TableColumnKey[])
+        .find(candidate => TABLE_HEADER_PATTERNS[candidate].test(cell.text));
+      if (key) columns.push({ key, x: cell.x });
+    }
+    const keys = new Set(columns.map(column => column.key));
+    return keys.has('subject') && keys.has('hours') && keys.has('teacher') ? columns : null;
   }
 
-  private parseLessonLine(line: string, className: string, semester: number): ParsedLesson | null {
-    // Clean up line: normalize whitespace and trim
-    const cleanLine = line.replace(/\s+/g, ' ').trim();
-    
-    // Patterns to match (adjusted for cleaned text):
-    // "Deutsch (4 Stunden) bei NOL"
-    // "Deutsch Förder 1. Hj. (1 Stunde) bei NOL"
-    // "SOL 1. Hj. (1 Stunde) bei KAU"
-    
-    const patterns = [
-      // Standard pattern: Subject (hours) bei Teacher
-      /^(.+?)\s*\(([0-9,\.]+)\s*Stunde[ns]?\)\s*bei\s+([A-Z]{2,4})$/,
-      // Semester-specific pattern: Subject 1./2. Hj. (hours) bei Teacher  
-      /^(.+?)\s+[12]\.\s*Hj\.\s*\(([0-9,\.]+)\s*Stunde[ns]?\)\s*bei\s+([A-Z]{2,4})$/,
-      // Förder pattern: Subject Förder ... (hours) bei Teacher
-      /^(.+?)\s+Förder.+?\(([0-9,\.]+)\s*Stunde[ns]?\)\s*bei\s+([A-Z]{2,4})$/
-    ];
-
-    for (const pattern of patterns) {
-      const match = cleanLine.match(pattern);
-      if (match) {
-        const subject = match[1].trim();
-        const hours = parseFloat(match[2].replace(',', '.'));
-        const teacher = match[3].trim();
-        
-        const isSupplementary = subject.toLowerCase().includes('förder') || 
-                               subject.toLowerCase().includes('sol') ||
-                               subject.toLowerCase().includes('ag');
-
-        return {
-          className,
-          semester,
-          subject: this.normalizeSubjectName(subject),
-          hours,
-          teacherShortName: teacher,
-          isSupplementary
-        };
+  // Assigns each cell to the header column with the nearest x-position
+  private readTableRow(cells: PdfTextCell[], columns: TableColumn[]) {
+    const values: Partial<Record<TableColumnKey, string>> = {};
+    for (const cell of cells) {
+      const column = columns.reduce((best, candidate) =>
+        Math.abs(candidate.x - cell.x) < Math.abs(best.x - cell.x) ? candidate : best);
+      values[column.key] = values[column.key] ? `${values[column.key]} ${cell.text}` : cell.text;
+    }
+
+    const semesterMatch = values.semester?.match(/[12]/);
+    return {
+      subject: values.subject?.trim(),
+      hours: parseFloat((values.hours ?? '').replace(',', '.')),
+      teacher: values.teacher?.match(/^[A-ZÄÖÜ]{2,4}\b/)?.[0],
+      semester: semesterMatch ? Number(semesterMatch[0]) : null
+    };
+  }
+
+  private collectPageDiagnostics(result: PdfParseResult, pageLessons: Map<number, number>) {
+    const pageByNumber = new Map(result.diagnostics.pages.map(page => [page.page, page]));
+
+    for (const classDiagnostics of result.diagnostics.classes) {
+      classDiagnostics.pages.forEach(pageNum => {
+        pageByNumber.get(pageNum)?.classNames.push(classDiagnostics.className);
+      });
+      classDiagnostics.skippedLines.forEach(line => {
+        pageByNumber.get(line.page)?.skippedLines.push(line);
+      });
+    }
+
+    for (const page of result.diagnostics.pages) {
+      page.lessonCount = pageLessons.get(page.page) ?? 0;
+      if (page.textItems > 0 && page.classNames.length === 0) {
+        page.warnings.push('Kein Klassenplan auf dieser Seite erkannt');
       }
+      page.warnings.forEach(warning => result.warnings.push(`Seite ${page.page}: ${warning}`));
     }
+  }
 
-    return null;
+  private isSupplementary(subject: string): boolean {
+    const lower = subject.toLowerCase();
+    return lower.includes('förder') || lower.includes('sol') || lower.includes('ag');
   }
 
   // Static method to normalize subject names for consistent matching
@@ -266,4 +519,4 @@ export class PdfLessonParser {
   private normalizeSubjectName(subject: string): string {
     return PdfLessonParser.normalizeSubjectName(subject);
   }
-}
\ No newline at end of file
+}
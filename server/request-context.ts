@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+import type { SchoolRole } from "@shared/schema";
+
+interface RequestContext {
+  userId: string | null;
+  schoolId: string | null;
+  schoolRole: SchoolRole | null;
+  subjectIds: string[];
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Makes the logged-in user available to code below the route handlers (storage layer)
+ * without passing it through every call
+ */
+export const withRequestContext: RequestHandler = (req, _res, next) => {
+  const userId = (req.user as any)?.claims?.sub ?? null;
+  requestContext.run({ userId, schoolId: null, schoolRole: null, subjectIds: [] }, next);
+};
+
+/**
+ * User of the current request, or null outside of a request (imports, scripts)
+ */
+export function getCurrentUserId(): string | null {
+  return requestContext.getStore()?.userId ?? null;
+}
+
+/**
+ * Binds the current request to a school; set once by the school context middleware
+ */
+export function setRequestSchool(schoolId: string, role: SchoolRole, subjectIds: string[] = []): void {
+  const store = requestContext.getStore();
+  if (!store) return;
+  store.schoolId = schoolId;
+  store.schoolRole = role;
+  store.subjectIds = subjectIds;
+}
+
+/**
+ * School of the current request, or null outside of a request (startup, scripts)
+ */
+export function getCurrentSchoolId(): string | null {
+  return requestContext.getStore()?.schoolId ?? null;
+}
+
+/**
+ * Role of the current user inside the current school
+ */
+export function getCurrentSchoolRole(): SchoolRole | null {
+  return requestContext.getStore()?.schoolRole ?? null;
+}
+
+/**
+ * Own subjects of the current user inside the current school (Fachkonferenzleitung)
+ */
+export function getCurrentSubjectIds(): string[] {
+  return requestContext.getStore()?.subjectIds ?? [];
+}
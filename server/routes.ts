@@ -1,17 +1,36 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { createHash } from "crypto";
 import multer from "multer";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
-import { insertTeacherSchema, insertStudentSchema, insertClassSchema, insertSubjectSchema, insertAssignmentSchema, insertInvitationSchema, insertPdfImportSchema, insertPdfTableSchema, planstellenInputSchema, Teacher } from "@shared/schema";
+import { getRequestSchoolYearId, rejectPastSchoolYearWrites } from "./school-year-context";
+import { withRequestContext, getCurrentUserId, getCurrentSchoolId } from "./request-context";
+import { withSchoolContext, getRequestAccessibleSchools } from "./school-context";
+import { setupAuth, isAuthenticated, isAdmin, isGlobalAdmin, requirePermission, isDevAuthBypass, DEV_USER_ID } from "./auth";
+import { insertSchoolSchema, schoolRoleGrantSchema, selectSchoolSchema, insertTeacherSchema, insertStudentSchema, insertClassSchema, insertSubjectSchema, insertAssignmentSchema, insertInvitationSchema, invitationDeliverySchema, bulkInvitationSchema, type Invitation, type InsertInvitation, insertPdfImportSchema, insertPdfTableSchema, insertTeacherConstraintSchema, insertTeacherReductionSchema, planstellenInputSchema, auditLogQuerySchema, teamTeachingSettingSchema, insertTeacherRequestSchema, resolveTeacherRequestSchema, teacherRequestQuerySchema, insertCsvMappingProfileSchema, SCHILD_IMPORT_TYPES, type SchildImportType } from "@shared/schema";
 import { SchoolYearTransitionParams } from "./storage";
 import { calculateCorrectHours } from "@shared/parallel-subjects";
+import { solveAssignments } from "@shared/assignment-solver";
+import { diffAssignmentPlan, selectConfirmedChanges, applyAssignmentChangesRequestSchema } from "@shared/assignment-plan-diff";
+import type { PreviousYearData } from "@shared/class-continuity";
+import { calculateLehrerplanstellen, lehrerplanstellenQuerySchema } from "@shared/lehrerplanstellen";
+import { validateTeamTeachingShares } from "@shared/team-teaching";
+import { calculateTeacherCapacity, teacherCapacityQuerySchema } from "@shared/teacher-reductions";
+import { buildTeacherPortalView } from "@shared/teacher-portal";
+import { getInvitationExpiry, getInvitationStatus, type InvitationStatus, type BulkInvitationResult } from "@shared/invitations";
+import { calculateTeacherHours, findCurrentHoursMismatches, teacherHoursQuerySchema, reconcileTeacherHoursSchema } from "@shared/teacher-workload";
+import { AuditRevertError } from "@shared/audit-log";
+import { addMatrixEditSchema, pushMatrixEdit, undoMatrixEdit, redoMatrixEdit, toMatrixChangeSetView, planMatrixChangeSet, type MatrixChangeSetState } from "@shared/matrix-change-set";
+import { savePlanstellenScenarioSchema, clonePlanstellenScenarioSchema, comparePlanstellenScenariosSchema, compareScenarios } from "@shared/planstellen-scenarios";
+import { decodeCsvBuffer, parseCsvTable, resolveColumnMapping, getMissingRequiredFields, mapTeacherRows, mapStudentRows, mapClassRows, type SchildField } from "@shared/schild-import";
+import { planTeacherImport, planStudentImport, planClassImport, selectAcceptedChanges, acceptedCsvLinesSchema, type CsvImportPlan } from "@shared/csv-import-diff";
 import { LessonDistributionImporter } from "./lesson-distribution-importer";
 import { PdfLessonParser } from "./pdf-lesson-parser";
 import { PdfLessonImporter } from "./pdf-lesson-importer";
 import { intelligentMappingService } from "./intelligent-mapping-service";
 import { openaiScheduleService, OpenAIHelpService } from "./openai-service";
+import { getLlmProvider } from "./llm-providers";
+import { sendInvitationEmail } from "./mailer";
 import { z } from "zod";
 
 interface MulterRequest extends Request {
@@ -20,11 +39,154 @@ interface MulterRequest extends Request {
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Schulträger admins manage every school, school admins only the school they work in
+async function isGlobalAdminRequest(req: Request): Promise<boolean> {
+  const userId = (req as any).user?.claims?.sub;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  return user?.role === "admin";
+}
+
+async function canManageSchool(req: Request, schoolId: string): Promise<boolean> {
+  return schoolId === getCurrentSchoolId() || await isGlobalAdminRequest(req);
+}
+
+// Schools whose invitations the admin of the request manages; null for Schulträger admins (every school)
+async function getAdministeredSchoolIds(req: Request): Promise<Set<string> | null> {
+  if (await isGlobalAdminRequest(req)) return null;
+  const accessible = await getRequestAccessibleSchools(req);
+  return new Set(accessible.filter(access => access.role === "admin").map(access => access.school.id));
+}
+
+// School admins manage invitations that grant roles only in schools they administer and no global admin role
+async function canManageInvitation(req: Request, invitation: Invitation): Promise<boolean> {
+  const administered = await getAdministeredSchoolIds(req);
+  if (!administered) return true;
+  return invitation.role !== "admin"
+    && invitation.schoolRoles.length > 0
+    && invitation.schoolRoles.every(grant => administered.has(grant.schoolId));
+}
+
+// Public URL for links in emails; APP_BASE_URL when the app runs behind a proxy
+function getAppBaseUrl(req: Request): string {
+  return process.env.APP_BASE_URL?.split(",")[0] ?? `${req.protocol}://${req.get("host")}`;
+}
+
+type InvitationSaveResult =
+  | { outcome: "created" | "renewed"; invitation: Invitation }
+  | { outcome: "exists"; invitation: Invitation; status: InvitationStatus };
+
+// One open invitation per email address: an expired or revoked one the admin may manage is renewed
+// instead of duplicated; invitations that touch other schools stay untouched and a new one is created
+async function saveInvitation(req: Request, invitationData: InsertInvitation): Promise<InvitationSaveResult> {
+  const existing = await storage.getInvitationsByEmail(invitationData.email);
+  for (const invitation of existing) {
+    const status = getInvitationStatus(invitation);
+    if (status === "pending" || status === "accepted") {
+      return { outcome: "exists", invitation, status };
+    }
+  }
+  for (const invitation of existing) {
+    if (await canManageInvitation(req, invitation)) {
+      return { outcome: "renewed", invitation: await storage.renewInvitation(invitation.id, invitationData) };
+    }
+  }
+  return { outcome: "created", invitation: await storage.createInvitation(invitationData) };
+}
+
+// A failed email does not undo the invitation; the admin can copy the link or resend
+async function deliverInvitation(req: Request, invitation: Invitation): Promise<{ emailSent: boolean; emailError?: string }> {
+  try {
+    const schools = await Promise.all(invitation.schoolRoles.map(grant => storage.getSchool(grant.schoolId)));
+    const schoolNames = schools.filter(school => !!school).map(school => school!.name);
+    await sendInvitationEmail(invitation, getAppBaseUrl(req), schoolNames);
+    await storage.markInvitationSent(invitation.id);
+    return { emailSent: true };
+  } catch (error) {
+    console.error(`Error sending invitation email to ${invitation.email}:`, error);
+    return { emailSent: false, emailError: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Teacher record of the logged-in user, matched via email
+async function getRequestTeacher(req: Request) {
+  const email: string | undefined = (req as any).user?.claims?.email;
+  return email ? await storage.getTeacherByEmail(email) : undefined;
+}
+
+// Subjects a request changes, for roles bound to their own subjects (Fachkonferenzleitung)
+const subjectFromParams = (req: Request) => [req.params.id];
+const subjectFromBody = (req: Request) => [req.body?.subjectId];
+const subjectsOfMatrixEdit = (req: Request) =>
+  Array.isArray(req.body?.cells) ? req.body.cells.map((cell: { subjectId?: string }) => cell.subjectId) : [];
+
+async function subjectsOfAssignment(req: Request) {
+  const assignment = await storage.getAssignment(req.params.id);
+  // Moving an assignment to another subject needs both subjects
+  return req.body?.subjectId ? [assignment?.subjectId, req.body.subjectId] : [assignment?.subjectId];
+}
+
+async function subjectsOfTeamTeaching(req: Request) {
+  const teamAssignments = await storage.getTeamTeachingGroup(req.params.teamTeachingId);
+  return teamAssignments.map(assignment => assignment.subjectId);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Data from before schools existed belongs to a first school
+  await storage.ensureDefaultSchool();
+
   // Auth middleware - setup authentication first
   await setupAuth(app);
 
-  // Initialize OpenAI services
+  // Global authentication middleware - protect all API routes except public ones
+  app.use('/api', (req, res, next) => {
+    const publicRoutes = ['/api/login', '/api/callback', '/api/invitation', '/api/auth/provider'];
+    // req.path is relative to the /api mount point
+    const isPublicRoute = publicRoutes.some(route => `${req.baseUrl}${req.path}`.startsWith(route));
+    
+    if (isPublicRoute) {
+      return next();
+    }
+    
+    // DEVELOPMENT BYPASS: Skip authentication in development for testing (DEV_AUTH_BYPASS=true)
+    if (isDevAuthBypass()) {
+      // Mock authenticated user for development
+      if (!req.user) {
+        (req as any).user = {
+          claims: { sub: DEV_USER_ID },
+          role: 'admin'
+        };
+        (req as any).isAuthenticated = () => true;
+      }
+      return next();
+    }
+    
+    // Apply authentication to all other API routes in production
+    return isAuthenticated(req, res, next);
+  });
+
+  // School and request context need the authenticated user, so they come after the auth middleware
+  // Logged-in user for the audit log written by the storage layer
+  app.use(withRequestContext);
+
+  // Every API request works inside one school
+  app.use("/api", withSchoolContext);
+
+  // Past school years can be viewed but not changed
+  app.use([
+    "/api/students",
+    "/api/classes",
+    "/api/assignments",
+    "/api/team-teaching",
+    "/api/matrix-change-set",
+    "/api/optimize",
+    "/api/teacher-hours/reconcile",
+    "/api/import",
+    "/api/chatgpt/import-schedule",
+    "/api/chatgpt/import-structured",
+    "/api/admin/audit-logs",
+  ], rejectPastSchoolYearWrites);
+
+  // Initialize LLM services
   const openaiHelpService = new OpenAIHelpService();
 
   // Auth routes
@@ -51,16 +213,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`DEBUG: Creating invitation with userId: ${userId}, email: ${req.body.email}`);
       }
       
+      const delivery = invitationDeliverySchema.parse(req.body);
       const dataToValidate = {
         ...req.body,
         createdBy: userId,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+        expiresAt: getInvitationExpiry(delivery.expiresInDays),
       };
       
       const invitationData = insertInvitationSchema.parse(dataToValidate);
-      
-      const invitation = await storage.createInvitation(invitationData);
-      res.status(201).json(invitation);
+
+      // Without explicit school roles the invitation is for the current school, read-only
+      const schoolId = getCurrentSchoolId();
+      const schoolRoles = invitationData.schoolRoles ?? (schoolId ? [{ schoolId, role: "kollegium" as const }] : []);
+      if (!(await isGlobalAdminRequest(req))) {
+        if (invitationData.role === "admin" || schoolRoles.some(grant => grant.schoolId !== schoolId)) {
+          return res.status(403).json({ error: "Schuladministratoren können nur für die eigene Schule einladen" });
+        }
+      }
+      for (const grant of schoolRoles) {
+        if (!(await storage.getSchool(grant.schoolId))) {
+          return res.status(400).json({ error: `Schule ${grant.schoolId} nicht gefunden` });
+        }
+      }
+
+      const saved = await saveInvitation(req, { ...invitationData, schoolRoles });
+      if (saved.outcome === "exists") {
+        return res.status(400).json({
+          error: saved.status === "accepted"
+            ? "Diese E-Mail-Adresse hat ihre Einladung bereits angenommen"
+            : "Eine Einladung für diese E-Mail-Adresse existiert bereits",
+        });
+      }
+      const emailDelivery = delivery.sendEmail ? await deliverInvitation(req, saved.invitation) : { emailSent: false };
+      res.status(201).json({ ...saved.invitation, renewed: saved.outcome === "renewed", ...emailDelivery });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
@@ -73,18 +258,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Many invitations into the current school, e.g. from a pasted list or CSV (see parseInvitationList)
+  app.post('/api/admin/invitations/bulk', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const userId = (req as any).user.claims.sub;
+      const bulk = bulkInvitationSchema.parse(req.body);
+      const schoolId = getCurrentSchoolId();
+      if (!schoolId) {
+        return res.status(400).json({ error: "Keine Schule ausgewählt" });
+      }
+
+      const expiresAt = getInvitationExpiry(bulk.expiresInDays);
+      const results: BulkInvitationResult[] = [];
+      for (const entry of bulk.entries) {
+        const parsed = insertInvitationSchema.safeParse({
+          email: entry.email,
+          role: "user",
+          schoolRoles: [{ schoolId, role: entry.role ?? bulk.role }],
+          createdBy: userId,
+          expiresAt,
+        });
+        if (!parsed.success) {
+          results.push({ email: entry.email, outcome: "failed", error: parsed.error.errors.map(e => e.message).join(", ") });
+          continue;
+        }
+
+        try {
+          const saved = await saveInvitation(req, parsed.data);
+          if (saved.outcome === "exists") {
+            results.push({ email: entry.email, outcome: "skipped", status: saved.status });
+            continue;
+          }
+          const emailDelivery = bulk.sendEmail ? await deliverInvitation(req, saved.invitation) : { emailSent: false };
+          results.push({ email: entry.email, outcome: saved.outcome, ...emailDelivery });
+        } catch (error) {
+          console.error(`Error creating invitation for ${entry.email}:`, error);
+          results.push({ email: entry.email, outcome: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      res.status(201).json({ results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating invitations:", error);
+      res.status(500).json({ error: "Failed to create invitations" });
+    }
+  });
+
   app.get('/api/admin/invitations', isAuthenticated, isAdmin, async (req, res) => {
     try {
       const invitations = await storage.getInvitations();
-      res.json(invitations);
+      if (await isGlobalAdminRequest(req)) {
+        return res.json(invitations);
+      }
+      const schoolId = getCurrentSchoolId();
+      res.json(invitations.filter(invitation => invitation.schoolRoles.some(grant => grant.schoolId === schoolId)));
     } catch (error) {
       console.error("Error fetching invitations:", error);
       res.status(500).json({ error: "Failed to fetch invitations" });
     }
   });
 
+  // Loads an invitation the admin may manage; accepted invitations cannot be changed anymore
+  async function loadOpenInvitation(req: Request, res: Response): Promise<Invitation | null> {
+    const invitation = await storage.getInvitation(req.params.id);
+    if (!invitation) {
+      res.status(404).json({ error: "Einladung nicht gefunden" });
+      return null;
+    }
+    if (!(await canManageInvitation(req, invitation))) {
+      res.status(403).json({ error: "Die Einladung betrifft andere Schulen oder Administratorrechte" });
+      return null;
+    }
+    if (getInvitationStatus(invitation) === "accepted") {
+      res.status(400).json({ error: "Die Einladung wurde bereits angenommen" });
+      return null;
+    }
+    return invitation;
+  }
+
+  // Sends the email again; expired or revoked invitations are extended first
+  app.post('/api/admin/invitations/:id/resend', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { expiresInDays } = invitationDeliverySchema.parse(req.body ?? {});
+      let invitation = await loadOpenInvitation(req, res);
+      if (!invitation) return;
+      if (getInvitationStatus(invitation) !== "pending") {
+        invitation = (await storage.extendInvitation(invitation.id, getInvitationExpiry(expiresInDays))) ?? invitation;
+      }
+      const emailDelivery = await deliverInvitation(req, invitation);
+      if (!emailDelivery.emailSent) {
+        return res.status(502).json({ error: `E-Mail konnte nicht gesendet werden: ${emailDelivery.emailError}` });
+      }
+      res.json({ ...invitation, ...emailDelivery });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error resending invitation:", error);
+      res.status(500).json({ error: "Failed to resend invitation" });
+    }
+  });
+
+  app.post('/api/admin/invitations/:id/extend', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { expiresInDays } = invitationDeliverySchema.parse(req.body ?? {});
+      const invitation = await loadOpenInvitation(req, res);
+      if (!invitation) return;
+      res.json(await storage.extendInvitation(invitation.id, getInvitationExpiry(expiresInDays)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error extending invitation:", error);
+      res.status(500).json({ error: "Failed to extend invitation" });
+    }
+  });
+
+  app.post('/api/admin/invitations/:id/revoke', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const invitation = await loadOpenInvitation(req, res);
+      if (!invitation) return;
+      res.json(await storage.revokeInvitation(invitation.id));
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ error: "Failed to revoke invitation" });
+    }
+  });
+
   app.delete('/api/admin/invitations/:id', isAuthenticated, isAdmin, async (req, res) => {
     try {
+      const invitation = await storage.getInvitation(req.params.id);
+      if (invitation && !(await canManageInvitation(req, invitation))) {
+        return res.status(403).json({ error: "Die Einladung betrifft andere Schulen oder Administratorrechte" });
+      }
       await storage.deleteInvitation(req.params.id);
       res.status(204).send();
     } catch (error) {
@@ -93,6 +402,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/users', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      if (await isGlobalAdminRequest(req)) {
+        return res.json(await storage.getUsers());
+      }
+      const members = await storage.getSchoolMembers(getCurrentSchoolId()!);
+      res.json(members.map(member => member.user));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // Audit log (Admin only)
+  app.get('/api/admin/audit-logs', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const entries = await storage.getAuditLogs(query);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid audit log query", details: error.errors });
+      }
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ error: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.post('/api/admin/audit-logs/:id/revert', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const entry = await storage.revertAuditLog(req.params.id);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof AuditRevertError) {
+        const status = error.code === "NOT_FOUND" ? 404 : 409;
+        return res.status(status).json({ error: error.message });
+      }
+      if (error instanceof Error && error.message.includes("foreign key")) {
+        return res.status(409).json({ error: "Ein abhängiger Datensatz existiert nicht mehr" });
+      }
+      console.error("Error reverting audit log entry:", error);
+      res.status(500).json({ error: "Failed to revert change" });
+    }
+  });
+
+  // Requests from the personal teacher pages (Admin only)
+  app.get('/api/admin/teacher-requests', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { status } = teacherRequestQuerySchema.parse(req.query);
+      const requests = await storage.getTeacherRequests({ status });
+      res.json(requests);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request query", details: error.errors });
+      }
+      console.error("Error fetching teacher requests:", error);
+      res.status(500).json({ error: "Failed to fetch teacher requests" });
+    }
+  });
+
+  app.patch('/api/admin/teacher-requests/:id', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const resolution = resolveTeacherRequestSchema.parse(req.body);
+      const request = await storage.resolveTeacherRequest(req.params.id, resolution);
+      if (!request) {
+        return res.status(404).json({ error: "Anfrage nicht gefunden" });
+      }
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid resolution", details: error.errors });
+      }
+      console.error("Error resolving teacher request:", error);
+      res.status(500).json({ error: "Failed to update teacher request" });
+    }
+  });
+
   // Public invitation validation route
   app.get('/api/invitation/:token', async (req, res) => {
     try {
@@ -101,11 +487,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Einladung nicht gefunden oder bereits verwendet" });
       }
       
-      if (invitation.used) {
+      const status = getInvitationStatus(invitation);
+      if (status === "accepted") {
         return res.status(400).json({ error: "Diese Einladung wurde bereits verwendet" });
       }
       
-      if (invitation.expiresAt < new Date()) {
+      if (status === "revoked") {
+        return res.status(400).json({ error: "Diese Einladung wurde widerrufen" });
+      }
+      
+      if (status === "expired") {
         return res.status(400).json({ error: "Diese Einladung ist abgelaufen" });
       }
       
@@ -120,35 +511,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Global authentication middleware - protect all API routes except public ones
-  app.use('/api', (req, res, next) => {
-    const publicRoutes = ['/api/login', '/api/callback', '/api/invitation'];
-    const isPublicRoute = publicRoutes.some(route => req.path.startsWith(route));
-    
-    if (isPublicRoute) {
-      return next();
+  // Protected routes - all routes below this point require authentication
+  // Schools the user can work in; the selected one is the school of this request
+  app.get("/api/schools", async (req, res) => {
+    try {
+      const accessible = await getRequestAccessibleSchools(req);
+      const currentSchoolId = getCurrentSchoolId();
+      res.json(accessible.map(access => ({ ...access.school, role: access.role, subjectIds: access.subjectIds, isSelected: access.school.id === currentSchoolId })));
+    } catch (error) {
+      console.error("Error fetching schools:", error);
+      res.status(500).json({ error: "Failed to fetch schools" });
     }
-    
-    // DEVELOPMENT BYPASS: Skip authentication in development for testing
-    if (process.env.NODE_ENV === 'development' || !process.env.NODE_ENV) {
-      // Mock authenticated user for development
-      if (!req.user) {
-        (req as any).user = {
-          claims: { sub: 'dev-user-123' },
-          role: 'admin'
-        };
-        (req as any).isAuthenticated = () => true;
+  });
+
+  // Remembers the school for requests without school header (downloads, raw fetch calls)
+  app.post("/api/schools/select", async (req, res) => {
+    try {
+      const { schoolId } = selectSchoolSchema.parse(req.body);
+      const accessible = await getRequestAccessibleSchools(req);
+      const access = accessible.find(a => a.school.id === schoolId);
+      if (!access) {
+        return res.status(403).json({ error: "Kein Zugriff auf diese Schule" });
       }
-      return next();
+      (req.session as any).schoolId = schoolId;
+      res.json({ ...access.school, role: access.role, subjectIds: access.subjectIds, isSelected: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid school selection", details: error.errors });
+      }
+      console.error("Error selecting school:", error);
+      res.status(500).json({ error: "Failed to select school" });
+    }
+  });
+
+  app.post("/api/schools", isAuthenticated, isGlobalAdmin, async (req, res) => {
+    try {
+      const schoolData = insertSchoolSchema.parse(req.body);
+      const school = await storage.createSchool(schoolData);
+      res.status(201).json(school);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid school data", details: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("duplicate key")) {
+        return res.status(400).json({ error: "Kürzel oder Schulnummer ist bereits vergeben" });
+      }
+      console.error("Error creating school:", error);
+      res.status(500).json({ error: "Failed to create school" });
+    }
+  });
+
+  app.patch("/api/schools/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      if (!(await canManageSchool(req, req.params.id))) {
+        return res.status(403).json({ error: "Kein Zugriff auf diese Schule" });
+      }
+      const schoolData = insertSchoolSchema.partial().parse(req.body);
+      const school = await storage.updateSchool(req.params.id, schoolData);
+      if (!school) {
+        return res.status(404).json({ error: "Schule nicht gefunden" });
+      }
+      res.json(school);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid school data", details: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("duplicate key")) {
+        return res.status(400).json({ error: "Kürzel oder Schulnummer ist bereits vergeben" });
+      }
+      console.error("Error updating school:", error);
+      res.status(500).json({ error: "Failed to update school" });
+    }
+  });
+
+  app.get("/api/schools/:id/members", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      if (!(await canManageSchool(req, req.params.id))) {
+        return res.status(403).json({ error: "Kein Zugriff auf diese Schule" });
+      }
+      const members = await storage.getSchoolMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching school members:", error);
+      res.status(500).json({ error: "Failed to fetch school members" });
+    }
+  });
+
+  app.put("/api/schools/:id/members/:userId", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      if (!(await canManageSchool(req, req.params.id))) {
+        return res.status(403).json({ error: "Kein Zugriff auf diese Schule" });
+      }
+      const { role, subjectIds } = schoolRoleGrantSchema.parse({ ...req.body, schoolId: req.params.id });
+      if (!(await storage.getUser(req.params.userId))) {
+        return res.status(404).json({ error: "Benutzer nicht gefunden" });
+      }
+      const membership = await storage.setUserSchoolRole(req.params.userId, req.params.id, role, subjectIds);
+      res.json(membership);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid role", details: error.errors });
+      }
+      console.error("Error updating school member:", error);
+      res.status(500).json({ error: "Failed to update school member" });
+    }
+  });
+
+  app.delete("/api/schools/:id/members/:userId", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      if (!(await canManageSchool(req, req.params.id))) {
+        return res.status(403).json({ error: "Kein Zugriff auf diese Schule" });
+      }
+      await storage.removeUserFromSchool(req.params.userId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing school member:", error);
+      res.status(500).json({ error: "Failed to remove school member" });
     }
-    
-    // Apply authentication to all other API routes in production
-    return isAuthenticated(req, res, next);
   });
 
-  // Protected routes - all routes below this point require authentication
   // Teachers routes
-  app.get("/api/teachers", async (req, res) => {
+  app.get("/api/teachers", requirePermission("data:read"), async (req, res) => {
     const startTime = Date.now();
     try {
       const teachers = await storage.getTeachers();
@@ -164,7 +647,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/teachers/:id", async (req, res) => {
+  app.get("/api/teachers/:id", requirePermission("data:read"), async (req, res) => {
     try {
       const teacher = await storage.getTeacher(req.params.id);
       if (!teacher) {
@@ -176,10 +659,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/teachers", async (req, res) => {
+  app.post("/api/teachers", requirePermission("teachers:write"), async (req, res) => {
     try {
       const teacherData = insertTeacherSchema.parse(req.body);
-      const teacher = await storage.createTeacher(teacherData);
+      let teacher = await storage.createTeacher(teacherData);
+      if (teacher.dateOfBirth) {
+        await storage.syncTeacherReductionHours(teacher.id);
+        teacher = (await storage.getTeacher(teacher.id)) ?? teacher;
+      }
       res.status(201).json(teacher);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -189,7 +676,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/teachers/:id", async (req, res) => {
+  app.put("/api/teachers/:id", requirePermission("teachers:write"), async (req, res) => {
     try {
       if (process.env.DEBUG_API === 'true') {
         console.log("PUT /api/teachers/:id - Teacher ID:", req.params.id);
@@ -221,7 +708,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const teacherData = insertTeacherSchema.partial().parse(processedData);
-      const teacher = await storage.updateTeacher(req.params.id, teacherData);
+      let teacher = await storage.updateTeacher(req.params.id, teacherData);
+
+      // Altersermäßigung depends on dateOfBirth and the Beschäftigungsumfang
+      if (teacherData.dateOfBirth !== undefined || teacherData.maxHours !== undefined) {
+        await storage.syncTeacherReductionHours(teacher.id);
+        teacher = (await storage.getTeacher(teacher.id)) ?? teacher;
+      }
       
       if (process.env.DEBUG_API === 'true') {
         console.log("Updated teacher ID:", teacher.id);
@@ -241,7 +734,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/teachers/:id", async (req, res) => {
+  app.delete("/api/teachers/:id", requirePermission("teachers:write"), async (req, res) => {
     try {
       if (process.env.DEBUG_API === 'true') {
         console.log("Deleting teacher ID:", req.params.id);
@@ -255,16 +748,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Students routes
-  app.get("/api/students", async (req, res) => {
+  app.get("/api/students", requirePermission("data:read"), async (req, res) => {
     try {
-      const students = await storage.getStudents();
+      const students = await storage.getStudents(getRequestSchoolYearId(req));
       res.json(students);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch students" });
     }
   });
 
-  app.post("/api/students", async (req, res) => {
+  app.post("/api/students", requirePermission("classes:write"), async (req, res) => {
     try {
       const studentData = insertStudentSchema.parse(req.body);
       const student = await storage.createStudent(studentData);
@@ -273,9 +766,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      if (error instanceof Error && error.message.includes("Keine aktuelle Schuljahr gefunden")) {
+      if (error instanceof Error && error.message.includes("Kein aktuelles Schuljahr gefunden")) {
         return res.status(400).json({ 
-          error: "Keine aktuelles Schuljahr konfiguriert",
+          error: "Kein aktuelles Schuljahr konfiguriert",
           details: "Bitte setzen Sie zuerst ein aktuelles Schuljahr über die Schuljahr-Verwaltung."
         });
       }
@@ -284,11 +777,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Classes routes
-  app.get("/api/classes", async (req, res) => {
+  app.get("/api/classes", requirePermission("data:read"), async (req, res) => {
     const startTime = Date.now();
     try {
       const type = req.query.type as string | undefined;
-      const classes = await storage.getClassesByType(type);
+      const classes = await storage.getClassesByType(type, getRequestSchoolYearId(req));
       const duration = Date.now() - startTime;
       if (process.env.DEBUG_API === 'true') {
         console.log(`[PERF] Classes query completed in ${duration}ms (${classes.length} classes${type ? `, type: ${type}` : ''})`);
@@ -301,7 +794,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/classes/:id", async (req, res) => {
+  app.get("/api/classes/:id", requirePermission("data:read"), async (req, res) => {
     try {
       const classItem = await storage.getClass(req.params.id);
       if (!classItem) {
@@ -314,7 +807,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/classes", async (req, res) => {
+  app.post("/api/classes", requirePermission("classes:write"), async (req, res) => {
     try {
       // Allow null values for teacher fields to support "Kein Klassenlehrer" option
       const createClassSchema = insertClassSchema.extend({
@@ -328,9 +821,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      if (error instanceof Error && error.message.includes("Keine aktuelle Schuljahr gefunden")) {
+      if (error instanceof Error && error.message.includes("Kein aktuelles Schuljahr gefunden")) {
         return res.status(400).json({ 
-          error: "Keine aktuelles Schuljahr konfiguriert",
+          error: "Kein aktuelles Schuljahr konfiguriert",
           details: "Bitte setzen Sie zuerst ein aktuelles Schuljahr über die Schuljahr-Verwaltung."
         });
       }
@@ -338,7 +831,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/classes/:id", async (req, res) => {
+  app.put("/api/classes/:id", requirePermission("classes:write"), async (req, res) => {
     try {
       // Create update schema that allows null for teacher fields to enable clearing assignments
       const updateClassSchema = insertClassSchema.partial().extend({
@@ -356,7 +849,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/classes/:id", async (req, res) => {
+  app.delete("/api/classes/:id", requirePermission("classes:write"), async (req, res) => {
     try {
       await storage.deleteClass(req.params.id);
       res.status(204).send();
@@ -393,14 +886,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }, { message: "Soll-Stunden 2.HJ müssen zwischen 0 und 50 liegen" }),
   });
 
-  app.post("/api/classes/bulk-update-grade", async (req, res) => {
+  app.post("/api/classes/bulk-update-grade", requirePermission("classes:write"), async (req, res) => {
     try {
       // Validate request body
       const validatedData = gradeBulkUpdateSchema.parse(req.body);
       const { grade, targetHoursTotal, targetHoursSemester1, targetHoursSemester2 } = validatedData;
       
       // Get all classes for the specified grade
-      const allClasses = await storage.getClasses();
+      const allClasses = await storage.getClasses(getRequestSchoolYearId(req));
       const classesToUpdate = allClasses.filter(c => c.grade === grade);
       
       if (classesToUpdate.length === 0) {
@@ -455,14 +948,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Alias for frontend compatibility - bulk-edit endpoint
-  app.post("/api/classes/bulk-edit", async (req, res) => {
+  app.post("/api/classes/bulk-edit", requirePermission("classes:write"), async (req, res) => {
     try {
       // Validate request body
       const validatedData = gradeBulkUpdateSchema.parse(req.body);
       const { grade, targetHoursTotal, targetHoursSemester1, targetHoursSemester2 } = validatedData;
       
       // Get all classes for the specified grade
-      const allClasses = await storage.getClasses();
+      const allClasses = await storage.getClasses(getRequestSchoolYearId(req));
       const classesToUpdate = allClasses.filter(c => c.grade === grade);
       
       if (classesToUpdate.length === 0) {
@@ -517,7 +1010,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Subjects routes
-  app.get("/api/subjects", async (req, res) => {
+  app.get("/api/subjects", requirePermission("data:read"), async (req, res) => {
     const startTime = Date.now();
     try {
       const subjects = await storage.getSubjects();
@@ -533,7 +1026,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/subjects", async (req, res) => {
+  app.post("/api/subjects", requirePermission("subjects:write"), async (req, res) => {
     try {
       const subjectData = insertSubjectSchema.parse(req.body);
       const subject = await storage.createSubject(subjectData);
@@ -546,7 +1039,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/subjects/:id", async (req, res) => {
+  app.put("/api/subjects/:id", requirePermission("subjects:write", subjectFromParams), async (req, res) => {
     try {
       const subjectData = insertSubjectSchema.partial().parse(req.body);
       const subject = await storage.updateSubject(req.params.id, subjectData);
@@ -559,7 +1052,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/subjects/:id", async (req, res) => {
+  app.delete("/api/subjects/:id", requirePermission("subjects:write"), async (req, res) => {
     try {
       await storage.deleteSubject(req.params.id);
       res.status(204).send();
@@ -568,7 +1061,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/subjects/cleanup-orphaned", async (req, res) => {
+  app.post("/api/subjects/cleanup-orphaned", requirePermission("subjects:write"), async (req, res) => {
     try {
       await storage.cleanupOrphanedSubjectReferences();
       res.json({ message: "Orphaned subject references cleaned up successfully" });
@@ -579,7 +1072,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Initialize default subjects
-  app.post("/api/subjects/init-defaults", async (req, res) => {
+  app.post("/api/subjects/init-defaults", requirePermission("subjects:write"), async (req, res) => {
     try {
       const defaultSubjects = [
         {
@@ -602,7 +1095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Assignments routes
-  app.get("/api/assignments", async (req, res) => {
+  app.get("/api/assignments", requirePermission("data:read"), async (req, res) => {
     const startTime = Date.now();
     try {
       // Optional parameters for filtering
@@ -620,7 +1113,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           res.json(assignments);
         } else {
-          const assignments = await storage.getAssignmentsMinimal(semester);
+          const assignments = await storage.getAssignmentsMinimal(semester, getRequestSchoolYearId(req));
           const duration = Date.now() - startTime;
           if (process.env.DEBUG_API === 'true') {
             console.log(`[PERF] Minimal assignments query completed in ${duration}ms (${assignments.length} assignments)`);
@@ -629,7 +1122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       } else {
         // Use optimized method with pre-loaded relations for other uses
-        const assignments = await storage.getAssignmentsWithRelations(semester);
+        const assignments = await storage.getAssignmentsWithRelations(semester, getRequestSchoolYearId(req));
         const duration = Date.now() - startTime;
         if (process.env.DEBUG_API === 'true') {
           console.log(`[PERF] Full assignments query completed in ${duration}ms (${assignments.length} assignments)`);
@@ -643,7 +1136,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/assignments", async (req, res) => {
+  app.post("/api/assignments", requirePermission("assignments:write", subjectFromBody), async (req, res) => {
     try {
       const assignmentData = insertAssignmentSchema.parse(req.body);
       const assignment = await storage.createAssignment(assignmentData);
@@ -659,7 +1152,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Check if this is a differentiation subject and class is in grades 7-10
         if (parallelGroup?.id === "Differenzierung" && classData.grade >= 7 && classData.grade <= 10) {
           // Find all parallel classes in the same grade (regular classes with pattern like 07A, 07B, etc.)
-          const allClasses = await storage.getClasses();
+          const allClasses = await storage.getClasses(classData.schoolYearId ?? undefined);
           const parallelClasses = allClasses.filter(c => 
             c.grade === classData.grade && 
             c.id !== classData.id && 
@@ -668,7 +1161,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           );
           
           // Get all assignments to check for existing ones
-          const allAssignments = await storage.getAssignments();
+          const allAssignments = await storage.getAssignments(classData.schoolYearId ?? undefined);
           
           // Create assignments for parallel classes if they don't exist
           for (const parallelClass of parallelClasses) {
@@ -700,9 +1193,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Validation errors:", error.errors);
         return res.status(400).json({ error: error.errors });
       }
-      if (error instanceof Error && error.message.includes("Keine aktuelle Schuljahr gefunden")) {
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof Error && error.message.includes("Kein aktuelles Schuljahr gefunden")) {
         return res.status(400).json({ 
-          error: "Keine aktuelles Schuljahr konfiguriert",
+          error: "Kein aktuelles Schuljahr konfiguriert",
           details: "Bitte setzen Sie zuerst ein aktuelles Schuljahr über die Schuljahr-Verwaltung."
         });
       }
@@ -713,7 +1209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/assignments/:id", async (req, res) => {
+  app.put("/api/assignments/:id", requirePermission("assignments:write", subjectsOfAssignment), async (req, res) => {
     try {
       const assignmentData = insertAssignmentSchema.partial().parse(req.body);
       const assignment = await storage.updateAssignment(req.params.id, assignmentData);
@@ -722,11 +1218,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to update assignment" });
     }
   });
 
-  app.patch("/api/assignments/:id", async (req, res) => {
+  app.patch("/api/assignments/:id", requirePermission("assignments:write", subjectsOfAssignment), async (req, res) => {
     try {
       const assignmentData = insertAssignmentSchema.partial().parse(req.body);
       const assignment = await storage.updateAssignment(req.params.id, assignmentData);
@@ -735,12 +1234,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to update assignment" });
     }
   });
 
   // Bulk delete assignments - MUST be before /:id route!
-  app.delete("/api/assignments/bulk", async (req, res) => {
+  app.delete("/api/assignments/bulk", requirePermission("assignments:write"), async (req, res) => {
     try {
       const { assignmentIds } = req.body;
       
@@ -764,7 +1266,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/assignments/:id", async (req, res) => {
+  app.delete("/api/assignments/:id", requirePermission("assignments:write", subjectsOfAssignment), async (req, res) => {
     try {
       await storage.deleteAssignment(req.params.id);
       res.status(204).send();
@@ -774,15 +1276,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Detect and create missing semester 2 assignments
-  app.post("/api/assignments/fix-missing-semester2", async (req, res) => {
+  app.post("/api/assignments/fix-missing-semester2", requirePermission("assignments:write"), async (req, res) => {
     try {
       const { dryRun = true } = req.body;
       
       // Get all current assignments
-      const assignments = await storage.getAssignments();
+      const assignments = await storage.getAssignments(getRequestSchoolYearId(req));
       const teachers = await storage.getTeachers();
       const subjects = await storage.getSubjects();
-      const classes = await storage.getClasses();
+      const classes = await storage.getClasses(getRequestSchoolYearId(req));
       
       // PERFORMANCE OPTIMIZATION: Create O(1) lookup maps by ID
       const teacherMap = new Map(teachers.map(t => [t.id, t]));
@@ -895,9 +1397,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Statistics route
-  app.get("/api/stats", async (req, res) => {
+  app.get("/api/stats", requirePermission("data:read"), async (req, res) => {
     try {
-      const stats = await storage.getTeacherStats();
+      const stats = await storage.getTeacherStats(getRequestSchoolYearId(req));
       res.json(stats);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch statistics" });
@@ -910,7 +1412,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     teacherIds: z.array(z.string().uuid()).min(1, "At least one teacher ID is required")
   });
 
-  app.post("/api/assignments/:id/team", async (req, res) => {
+  app.post("/api/assignments/:id/team", requirePermission("assignments:write", subjectsOfAssignment), async (req, res) => {
     try {
       const { teacherIds } = createTeamTeachingSchema.parse(req.body);
       const teamAssignments = await storage.createTeamTeaching(req.params.id, teacherIds);
@@ -923,6 +1425,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (error.message.includes("Base assignment not found")) {
           return res.status(404).json({ error: "Assignment not found" });
         }
+        if (error.message.includes("nicht gefunden")) {
+          return res.status(404).json({ error: error.message });
+        }
         return res.status(400).json({ error: error.message });
       }
       res.status(500).json({ error: "Failed to create team teaching" });
@@ -930,7 +1435,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Use specific routes before any potential wildcard patterns
-  app.get("/api/team-teaching/:teamTeachingId", async (req, res) => {
+  app.get("/api/team-teaching/:teamTeachingId", requirePermission("data:read"), async (req, res) => {
     try {
       const teamAssignments = await storage.getTeamTeachingGroup(req.params.teamTeachingId);
       res.json(teamAssignments);
@@ -939,7 +1444,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/team-teaching/:teamTeachingId/validate", async (req, res) => {
+  app.get("/api/team-teaching/:teamTeachingId/validate", requirePermission("data:read"), async (req, res) => {
     try {
       const validation = await storage.validateTeamTeachingGroup(req.params.teamTeachingId);
       res.json(validation);
@@ -948,7 +1453,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/assignments/:id/team", async (req, res) => {
+  // How the hours of each team-teaching group are credited (full, equal split, custom shares)
+  app.get("/api/team-teaching-settings", requirePermission("data:read"), async (req, res) => {
+    try {
+      const settings = await storage.getTeamTeachingSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch team teaching settings" });
+    }
+  });
+
+  app.put("/api/team-teaching/:teamTeachingId/credit", requirePermission("assignments:write", subjectsOfTeamTeaching), async (req, res) => {
+    try {
+      const setting = teamTeachingSettingSchema.parse(req.body);
+      const teamAssignments = await storage.getTeamTeachingGroup(req.params.teamTeachingId);
+      if (teamAssignments.length === 0) {
+        return res.status(404).json({ error: "Team-Teaching-Gruppe nicht gefunden" });
+      }
+      if (setting.creditMode === "custom") {
+        const teacherIds = Array.from(new Set(teamAssignments.map(a => a.teacherId)));
+        const shareErrors = validateTeamTeachingShares(setting.shares ?? {}, teacherIds);
+        if (shareErrors.length > 0) {
+          return res.status(400).json({ error: shareErrors.join(", ") });
+        }
+      }
+      const saved = await storage.setTeamTeachingSetting(req.params.teamTeachingId, setting);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error saving team teaching setting:", error);
+      res.status(500).json({ error: "Failed to save team teaching setting" });
+    }
+  });
+
+  app.delete("/api/assignments/:id/team", requirePermission("assignments:write", subjectsOfAssignment), async (req, res) => {
     try {
       const assignment = await storage.removeFromTeamTeaching(req.params.id);
       res.json(assignment);
@@ -966,26 +1506,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper function for planstellen calculation
-  async function performPlanstellenCalculation(teachers: any[], classes: any[], subjects: any[], storage: any) {
-    const results = [];
-    
-    // OPTIMIZED: Pre-aggregate teacher hours by subject and parallel group
-    const subjectHoursMap = new Map<string, number>();
-    const parallelGroupHoursMap = new Map<string, number>();
-    
-    // OPTIMIZED: Create subject lookup map (by name and shortName) to avoid repeated .find()
-    const subjectLookupMap = new Map<string, any>();
-    for (const subject of subjects) {
-      subjectLookupMap.set(subject.name, subject);
-      if (subject.shortName) {
-        subjectLookupMap.set(subject.shortName, subject);
-      }
+  // Teacher constraints (wishes and rules read by both optimizers)
+  app.get("/api/teacher-constraints", requirePermission("data:read"), async (req, res) => {
+    try {
+      const teacherId = req.query.teacherId as string | undefined;
+      const constraints = await storage.getTeacherConstraints(teacherId);
+      res.json(constraints);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch teacher constraints" });
     }
-    
-    // Define parallel groups
-    const parallelGroups = {
-      "Differenzierung": ["FS", "SW", "NW", "IF", "TC", "MUS"],
+  });
+
+  app.post("/api/teacher-constraints", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      const constraintData = insertTeacherConstraintSchema.parse(req.body);
+      const constraint = await storage.createTeacherConstraint(constraintData);
+      res.status(201).json(constraint);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create teacher constraint" });
+    }
+  });
+
+  app.put("/api/teacher-constraints/:id", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      const constraintData = insertTeacherConstraintSchema.parse(req.body);
+      const constraint = await storage.updateTeacherConstraint(req.params.id, constraintData);
+      if (!constraint) {
+        return res.status(404).json({ error: "Teacher constraint not found" });
+      }
+      res.json(constraint);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update teacher constraint" });
+    }
+  });
+
+  app.delete("/api/teacher-constraints/:id", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      await storage.deleteTeacherConstraint(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete teacher constraint" });
+    }
+  });
+
+  // Teacher reductions (Ermäßigungsstunden ledger); every change refreshes teachers.reductionHours
+  app.get("/api/teacher-reductions", requirePermission("data:read"), async (req, res) => {
+    try {
+      const teacherId = req.query.teacherId as string | undefined;
+      const reductions = await storage.getTeacherReductions(teacherId);
+      res.json(reductions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch teacher reductions" });
+    }
+  });
+
+  app.post("/api/teacher-reductions", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      const reductionData = insertTeacherReductionSchema.parse(req.body);
+      const teacher = await storage.getTeacher(reductionData.teacherId);
+      if (!teacher) {
+        return res.status(404).json({ error: "Teacher not found" });
+      }
+      const reduction = await storage.createTeacherReduction(reductionData);
+      await storage.syncTeacherReductionHours(reduction.teacherId);
+      res.status(201).json(reduction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create teacher reduction" });
+    }
+  });
+
+  app.put("/api/teacher-reductions/:id", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      const reductionData = insertTeacherReductionSchema.parse(req.body);
+      const reduction = await storage.updateTeacherReduction(req.params.id, reductionData);
+      if (!reduction) {
+        return res.status(404).json({ error: "Teacher reduction not found" });
+      }
+      await storage.syncTeacherReductionHours(reduction.teacherId);
+      res.json(reduction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update teacher reduction" });
+    }
+  });
+
+  app.delete("/api/teacher-reductions/:id", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      const reduction = await storage.deleteTeacherReduction(req.params.id);
+      if (reduction) {
+        await storage.syncTeacherReductionHours(reduction.teacherId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete teacher reduction" });
+    }
+  });
+
+  // Recompute reductionHours of all teachers, e.g. after birthdays or a school year change
+  app.post("/api/teacher-reductions/sync", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      const updated = await storage.syncTeacherReductionHours();
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sync teacher reductions" });
+    }
+  });
+
+  // Capacity per semester derived from the ledger (default: current school year)
+  app.get("/api/teacher-capacities", requirePermission("data:read"), async (req, res) => {
+    try {
+      const query = teacherCapacityQuerySchema.parse(req.query);
+      const schoolYear = query.schoolYearId
+        ? await storage.getSchoolYear(query.schoolYearId)
+        : await storage.getCurrentSchoolYear();
+      if (!schoolYear) {
+        return res.status(404).json({ error: "School year not found" });
+      }
+
+      const [teachers, reductions] = await Promise.all([
+        storage.getTeachers(),
+        storage.getTeacherReductions(query.teacherId),
+      ]);
+      const capacities = teachers
+        .filter(teacher => !query.teacherId || teacher.id === query.teacherId)
+        .map(teacher => calculateTeacherCapacity(teacher, reductions, schoolYear));
+      res.json(capacities);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to calculate teacher capacities" });
+    }
+  });
+
+  // Helper function for planstellen calculation
+  async function performPlanstellenCalculation(teachers: any[], classes: any[], subjects: any[], storage: any) {
+    const results = [];
+    
+    // OPTIMIZED: Pre-aggregate teacher hours by subject and parallel group
+    const subjectHoursMap = new Map<string, number>();
+    const parallelGroupHoursMap = new Map<string, number>();
+    
+    // OPTIMIZED: Create subject lookup map (by name and shortName) to avoid repeated .find()
+    const subjectLookupMap = new Map<string, any>();
+    for (const subject of subjects) {
+      subjectLookupMap.set(subject.name, subject);
+      if (subject.shortName) {
+        subjectLookupMap.set(subject.shortName, subject);
+      }
+    }
+    
+    // Define parallel groups
+    const parallelGroups = {
+      "Differenzierung": ["FS", "SW", "NW", "IF", "TC", "MUS"],
       "Religion": ["KR", "ER", "PP"]
     };
     
@@ -1094,7 +1790,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
 
   // Planstellen routes
-  app.get("/api/planstellen", async (req, res) => {
+  app.get("/api/planstellen", requirePermission("data:read"), async (req, res) => {
     try {
       const planstellen = await storage.getPlanstellen();
       res.json(planstellen);
@@ -1103,7 +1799,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/calculate-planstellen", isAuthenticated, async (req, res) => {
+  // Soll/Ermäßigungen/Ist and Planstellen equivalents per teacher and subject
+  app.get("/api/lehrerplanstellen", requirePermission("data:read"), async (req, res) => {
+    try {
+      const { deputat } = lehrerplanstellenQuerySchema.parse(req.query);
+      const [teachers, subjects, classes, assignments, teamTeachingSettings] = await Promise.all([
+        storage.getTeachers(),
+        storage.getSubjects(),
+        storage.getClasses(getRequestSchoolYearId(req)),
+        storage.getAssignments(getRequestSchoolYearId(req)),
+        storage.getTeamTeachingSettings(),
+      ]);
+      res.json(calculateLehrerplanstellen({ teachers, subjects, classes, assignments, teamTeachingSettings }, { deputat }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Lehrerplanstellen calculation error:", error);
+      res.status(500).json({ error: "Failed to calculate lehrerplanstellen" });
+    }
+  });
+
+  // Personal, read-only page of the logged-in teacher
+  app.get("/api/my/teacher", requirePermission("data:read"), async (req, res) => {
+    try {
+      const teacher = await getRequestTeacher(req);
+      if (!teacher) {
+        return res.status(404).json({ error: "Keine Lehrkraft mit Ihrer E-Mail-Adresse gefunden" });
+      }
+      const [teachers, subjects, classes, assignments, teamTeachingSettings] = await Promise.all([
+        storage.getTeachers(),
+        storage.getSubjects(),
+        storage.getClasses(getRequestSchoolYearId(req)),
+        storage.getAssignments(getRequestSchoolYearId(req)),
+        storage.getTeamTeachingSettings(),
+      ]);
+      res.json(buildTeacherPortalView(teacher, { teachers, subjects, classes, assignments, teamTeachingSettings }));
+    } catch (error) {
+      console.error("Error building teacher page:", error);
+      res.status(500).json({ error: "Failed to load teacher page" });
+    }
+  });
+
+  app.get("/api/my/requests", requirePermission("data:read"), async (req, res) => {
+    try {
+      const teacher = await getRequestTeacher(req);
+      if (!teacher) {
+        return res.status(404).json({ error: "Keine Lehrkraft mit Ihrer E-Mail-Adresse gefunden" });
+      }
+      res.json(await storage.getTeacherRequests({ teacherId: teacher.id }));
+    } catch (error) {
+      console.error("Error fetching own requests:", error);
+      res.status(500).json({ error: "Failed to fetch requests" });
+    }
+  });
+
+  app.post("/api/my/requests", requirePermission("requests:submit"), async (req, res) => {
+    try {
+      const teacher = await getRequestTeacher(req);
+      if (!teacher) {
+        return res.status(404).json({ error: "Keine Lehrkraft mit Ihrer E-Mail-Adresse gefunden" });
+      }
+      const requestData = insertTeacherRequestSchema.parse(req.body);
+      const request = await storage.createTeacherRequest(teacher.id, requestData);
+      res.status(201).json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      console.error("Error creating teacher request:", error);
+      res.status(500).json({ error: "Failed to create request" });
+    }
+  });
+
+  // currentHours per semester computed from the assignments
+  app.get("/api/teacher-hours", requirePermission("data:read"), async (req, res) => {
+    try {
+      const { teamTeaching } = teacherHoursQuerySchema.parse(req.query);
+      const [subjects, classes, assignments, teamTeachingSettings] = await Promise.all([
+        storage.getSubjects(),
+        storage.getClasses(getRequestSchoolYearId(req)),
+        storage.getAssignments(getRequestSchoolYearId(req)),
+        storage.getTeamTeachingSettings(),
+      ]);
+      const teacherHours = calculateTeacherHours(assignments, subjects, classes, { teamTeaching, teamTeachingSettings });
+      res.json(Array.from(teacherHours.values()));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to calculate teacher hours" });
+    }
+  });
+
+  // Teachers whose stored currentHours disagree with their assignments
+  app.get("/api/teacher-hours/consistency", requirePermission("data:read"), async (req, res) => {
+    try {
+      const { teamTeaching } = teacherHoursQuerySchema.parse(req.query);
+      const [teachers, subjects, classes, assignments, teamTeachingSettings] = await Promise.all([
+        storage.getTeachers(),
+        storage.getSubjects(),
+        storage.getClasses(getRequestSchoolYearId(req)),
+        storage.getAssignments(getRequestSchoolYearId(req)),
+        storage.getTeamTeachingSettings(),
+      ]);
+      const teacherHours = calculateTeacherHours(assignments, subjects, classes, { teamTeaching, teamTeachingSettings });
+      res.json({
+        checkedTeachers: teachers.length,
+        mismatches: findCurrentHoursMismatches(teachers, teacherHours),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to check teacher hours" });
+    }
+  });
+
+  app.post("/api/teacher-hours/reconcile", requirePermission("teachers:write"), async (req, res) => {
+    try {
+      const { teacherIds, teamTeaching } = reconcileTeacherHoursSchema.parse(req.body ?? {});
+      const [teachers, subjects, classes, assignments, teamTeachingSettings] = await Promise.all([
+        storage.getTeachers(),
+        storage.getSubjects(),
+        storage.getClasses(getRequestSchoolYearId(req)),
+        storage.getAssignments(getRequestSchoolYearId(req)),
+        storage.getTeamTeachingSettings(),
+      ]);
+      const teacherHours = calculateTeacherHours(assignments, subjects, classes, { teamTeaching, teamTeachingSettings });
+      const mismatches = findCurrentHoursMismatches(teachers, teacherHours)
+        .filter(mismatch => !teacherIds || teacherIds.includes(mismatch.teacherId));
+      const updated = await storage.updateTeacherCurrentHours(
+        mismatches.map(mismatch => ({ teacherId: mismatch.teacherId, currentHours: mismatch.computedHours }))
+      );
+      res.json({ updated, reconciled: mismatches });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Teacher hours reconcile error:", error);
+      res.status(500).json({ error: "Failed to reconcile teacher hours" });
+    }
+  });
+
+  app.post("/api/calculate-planstellen", isAuthenticated, requirePermission("data:read"), async (req, res) => {
     try {
       // Check if request body contains planstellen input data
       if (req.body && Object.keys(req.body).length > 0) {
@@ -1122,7 +1961,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         // Legacy calculation using existing data
         const teachers = await storage.getTeachers();
-        const classes = await storage.getClasses();
+        const classes = await storage.getClasses(getRequestSchoolYearId(req));
         const subjects = await storage.getSubjects();
         
         // Perform planstellen calculation (simplified example)
@@ -1144,7 +1983,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Separate endpoint for saving planstellen
-  app.post("/api/planstellen/save", isAuthenticated, async (req, res) => {
+  app.post("/api/planstellen/save", isAuthenticated, requirePermission("planstellen:write"), async (req, res) => {
     try {
       // Validate input data
       const input = planstellenInputSchema.parse(req.body);
@@ -1174,93 +2013,271 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // CSV Import route
-  app.post("/api/import/csv", upload.single("file"), async (req: MulterRequest, res) => {
+  // Planstellen scenarios (named input sets per school year)
+  app.get("/api/planstellen-scenarios", isAuthenticated, requirePermission("data:read"), async (req, res) => {
+    try {
+      const schoolYearId = req.query.schoolYearId as string | undefined;
+      const scenarios = await storage.getPlanstellenScenarios(schoolYearId);
+      res.json(scenarios);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch planstellen scenarios" });
+    }
+  });
+
+  app.get("/api/planstellen-scenarios/:id", isAuthenticated, requirePermission("data:read"), async (req, res) => {
+    try {
+      const scenario = await storage.getPlanstellenScenario(req.params.id);
+      if (!scenario) {
+        return res.status(404).json({ error: "Planstellen scenario not found" });
+      }
+      res.json(scenario);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch planstellen scenario" });
+    }
+  });
+
+  app.post("/api/planstellen-scenarios", isAuthenticated, requirePermission("planstellen:write"), async (req, res) => {
+    try {
+      const { name, schoolYearId, input } = savePlanstellenScenarioSchema.parse(req.body);
+      const schoolYear = await storage.getSchoolYear(schoolYearId);
+      if (!schoolYear) {
+        return res.status(400).json({ error: "Schuljahr nicht gefunden" });
+      }
+      const scenario = await storage.createPlanstellenScenario({
+        name,
+        schoolYearId,
+        schoolYear: schoolYear.name,
+        parameters: { input },
+      });
+      res.status(201).json(scenario);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create planstellen scenario" });
+    }
+  });
+
+  app.put("/api/planstellen-scenarios/:id", isAuthenticated, requirePermission("planstellen:write"), async (req, res) => {
+    try {
+      const { name, schoolYearId, input } = savePlanstellenScenarioSchema.parse(req.body);
+      const existing = await storage.getPlanstellenScenario(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Planstellen scenario not found" });
+      }
+      const schoolYear = await storage.getSchoolYear(schoolYearId);
+      if (!schoolYear) {
+        return res.status(400).json({ error: "Schuljahr nicht gefunden" });
+      }
+      const scenario = await storage.updatePlanstellenScenario(req.params.id, {
+        name,
+        schoolYearId,
+        schoolYear: schoolYear.name,
+        parameters: { ...existing.parameters, input },
+      });
+      res.json(scenario);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update planstellen scenario" });
+    }
+  });
+
+  app.post("/api/planstellen-scenarios/:id/clone", isAuthenticated, requirePermission("planstellen:write"), async (req, res) => {
+    try {
+      const { name, schoolYearId } = clonePlanstellenScenarioSchema.parse(req.body ?? {});
+      const source = await storage.getPlanstellenScenario(req.params.id);
+      if (!source) {
+        return res.status(404).json({ error: "Planstellen scenario not found" });
+      }
+      const targetYear = schoolYearId ? await storage.getSchoolYear(schoolYearId) : undefined;
+      if (schoolYearId && !targetYear) {
+        return res.status(400).json({ error: "Schuljahr nicht gefunden" });
+      }
+      const scenario = await storage.createPlanstellenScenario({
+        name: name ?? `${source.name} (Kopie)`,
+        schoolYearId: targetYear?.id ?? source.schoolYearId,
+        schoolYear: targetYear?.name ?? source.schoolYear,
+        parameters: source.parameters,
+      });
+      res.status(201).json(scenario);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to clone planstellen scenario" });
+    }
+  });
+
+  app.delete("/api/planstellen-scenarios/:id", isAuthenticated, requirePermission("planstellen:write"), async (req, res) => {
+    try {
+      await storage.deletePlanstellenScenario(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete planstellen scenario" });
+    }
+  });
+
+  // Side-by-side comparison of 2-3 scenarios; deltas refer to the first id
+  app.post("/api/planstellen-scenarios/compare", isAuthenticated, requirePermission("data:read"), async (req, res) => {
+    try {
+      const { ids } = comparePlanstellenScenariosSchema.parse(req.body);
+      const scenarios = await Promise.all(ids.map(id => storage.getPlanstellenScenario(id)));
+      const missing = ids.filter((_, index) => !scenarios[index]);
+      if (missing.length > 0) {
+        return res.status(404).json({ error: "Planstellen scenario not found", ids: missing });
+      }
+      res.json(compareScenarios(scenarios.filter((s): s is NonNullable<typeof s> => !!s)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to compare planstellen scenarios" });
+    }
+  });
+
+  // Column mapping profiles of the CSV import
+  app.get("/api/import/mapping-profiles", requirePermission("import:run"), async (req, res) => {
+    try {
+      const dataType = SCHILD_IMPORT_TYPES.find(type => type === req.query.dataType);
+      const profiles = await storage.getCsvMappingProfiles(dataType);
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch mapping profiles" });
+    }
+  });
+
+  app.post("/api/import/mapping-profiles", requirePermission("import:run"), async (req, res) => {
+    try {
+      const profile = await storage.saveCsvMappingProfile(insertCsvMappingProfileSchema.parse(req.body));
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save mapping profile" });
+    }
+  });
+
+  app.delete("/api/import/mapping-profiles/:id", requirePermission("import:run"), async (req, res) => {
+    try {
+      await storage.deleteCsvMappingProfile(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete mapping profile" });
+    }
+  });
+
+  // Compares an uploaded SCHILD-NRW export with the teachers, students or classes of the school year
+  async function planCsvUpload(file: Express.Multer.File, dataType: SchildImportType, body: Record<string, any>, schoolYearId?: string) {
+    const { text, encoding } = decodeCsvBuffer(file.buffer);
+    const table = parseCsvTable(text);
+
+    // Mapping chosen in the import dialog (JSON in the form data); missing fields are recognized by header name
+    const chosenMapping = body.mapping
+      ? insertCsvMappingProfileSchema.shape.mapping.parse(JSON.parse(body.mapping))
+      : undefined;
+    const mapping = resolveColumnMapping(table.headers, dataType, chosenMapping);
+    const missingFields = getMissingRequiredFields(dataType, mapping);
+    if (missingFields.length > 0) {
+      return { encoding, missingFields, plan: null };
+    }
+
+    let plan: CsvImportPlan;
+    switch (dataType) {
+      case "teachers":
+        plan = planTeacherImport(mapTeacherRows(table, mapping), mapping, await storage.getTeachers());
+        break;
+      case "students": {
+        const [students, classes] = await Promise.all([storage.getStudents(schoolYearId), storage.getClasses(schoolYearId)]);
+        plan = planStudentImport(mapStudentRows(table, mapping), mapping, students, classes);
+        break;
+      }
+      case "classes": {
+        const [classes, teachers] = await Promise.all([storage.getClasses(schoolYearId), storage.getTeachers()]);
+        plan = planClassImport(mapClassRows(table, mapping), mapping, classes, teachers);
+        break;
+      }
+    }
+    return { encoding, missingFields, plan };
+  }
+
+  function missingFieldsResponse(missingFields: SchildField[]) {
+    return {
+      error: `Pflichtspalten nicht zugeordnet: ${missingFields.map(field => field.label).join(", ")}`,
+      missingFields: missingFields.map(field => field.key),
+    };
+  }
+
+  // Preview of a CSV import: new, changed and unchanged rows without writing anything
+  app.post("/api/import/csv/preview", requirePermission("import:run"), upload.single("file"), async (req: MulterRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
+      const dataType = SCHILD_IMPORT_TYPES.find(type => type === req.body.dataType);
+      if (!dataType) {
+        return res.status(400).json({ error: "Invalid data type" });
+      }
 
-      const { dataType } = req.body;
-      let csvContent = req.file.buffer.toString("utf-8");
-      
-      // Remove UTF-8 BOM if present
-      if (csvContent.charCodeAt(0) === 0xFEFF) {
-        csvContent = csvContent.slice(1);
+      const { encoding, missingFields, plan } = await planCsvUpload(req.file, dataType, req.body, getRequestSchoolYearId(req));
+      if (!plan) {
+        return res.status(400).json(missingFieldsResponse(missingFields));
       }
-      
-      // Parse CSV content (auto-detect separator: semicolon or comma)
-      const lines = csvContent.split("\n").filter((line: string) => line.trim());
-      const firstLine = lines[0];
-      const separator = firstLine.includes(';') ? ';' : ',';
-      
-      const headers = firstLine.split(separator).map((h: string) => h.trim().replace(/^"|"$/g, ''));
-      const rows = lines.slice(1).map((line: string) => 
-        line.split(separator).map((cell: string) => cell.trim().replace(/^"|"$/g, ''))
-      ).filter(row => row.length > 1 && row[0]); // Filter out empty rows or rows without first name
+      res.json({ ...plan, encoding });
+    } catch (error) {
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({ error: "Ungültige Spaltenzuordnung" });
+      }
+      console.error("CSV preview error:", error);
+      res.status(500).json({ error: "Failed to preview CSV import" });
+    }
+  });
 
-      let result;
-      switch (dataType) {
-        case "teachers":
-          const teacherData = rows.map((row: string[]) => ({
-            firstName: row[0] || "",
-            lastName: row[1] || "",
-            shortName: row[2] || "",
-            email: row[3] || "",
-            subjects: row[4] ? row[4].split(";") : [],
-            maxHours: (parseFloat(row[5]) || 25).toString(),
-            currentHours: (parseFloat(row[6]) || 0).toString(),
-            dateOfBirth: row[7] || null, // Format: YYYY-MM-DD
-            qualifications: row[8] ? row[8].split(";") : [],
-            notes: row[9] || "",
-          }));
-          result = await storage.bulkCreateTeachers(teacherData);
-          break;
+  // CSV Import route; teachers, students and classes are read by their column headers (SCHILD-NRW exports)
+  // and matched with existing records, so the same file can be imported again without duplicates
+  app.post("/api/import/csv", requirePermission("import:run"), upload.single("file"), async (req: MulterRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
 
-        case "students":
-          // First, extract unique class names and create classes if they don't exist
-          const uniqueClasses = Array.from(new Set(rows.map((row: string[]) => row[2]).filter(Boolean)));
-          const classMap = new Map();
-          
-          for (const className of uniqueClasses) {
-            let classRecord = await storage.getClassByName(className);
-            if (!classRecord) {
-              // Extract grade from class name (e.g., "05A" -> grade 5)
-              const gradeMatch = className.match(/^(\d+)/);
-              const grade = gradeMatch ? parseInt(gradeMatch[1]) : 5;
-              
-              classRecord = await storage.createClass({
-                name: className,
-                grade: grade,
-                type: 'klasse',
-                studentCount: 0,
-                subjectHours: {},
-              });
-            }
-            classMap.set(className, classRecord.id);
-          }
+      const { dataType } = req.body;
+      const schildType = SCHILD_IMPORT_TYPES.find(type => type === dataType);
+      if (schildType) {
+        const schoolYearId = getRequestSchoolYearId(req);
+        const { encoding, missingFields, plan } = await planCsvUpload(req.file, schildType, req.body, schoolYearId);
+        if (!plan) {
+          return res.status(400).json(missingFieldsResponse(missingFields));
+        }
 
-          const studentData = rows.map((row: string[]) => ({
-            firstName: row[0] || "",
-            lastName: row[1] || "",
-            classId: classMap.get(row[2]) || null,
-            grade: parseInt(row[3]) || 5,
-          }));
-          result = await storage.bulkCreateStudents(studentData);
-          break;
+        // Lines accepted in the preview (JSON in the form data); without them all new and changed rows
+        const acceptedLines = req.body.accepted ? acceptedCsvLinesSchema.parse(JSON.parse(req.body.accepted)) : undefined;
+        const { created, updated } = await storage.applyCsvImport(selectAcceptedChanges(plan, acceptedLines), schoolYearId);
 
-        case "classes":
-          const classData = rows.map((row: string[]) => ({
-            name: row[0] || "",
-            grade: parseInt(row[1]) || 5,
-            type: 'klasse' as const,
-            studentCount: parseInt(row[2]) || 0,
-            subjectHours: {},
-          }));
-          result = await storage.bulkCreateClasses(classData);
-          break;
+        return res.json({
+          message: `${created} neu angelegt, ${updated} aktualisiert, ${plan.summary.unchanged} unverändert`,
+          count: created + updated,
+          created,
+          updated,
+          unchanged: plan.summary.unchanged,
+          encoding,
+          skipped: plan.skipped,
+          warnings: plan.warnings,
+        });
+      }
+
+      const { text, encoding } = decodeCsvBuffer(req.file.buffer);
+      const { headers, rows: tableRows } = parseCsvTable(text);
+      if (headers.length === 0) {
+        return res.status(400).json({ error: "Die CSV-Datei ist leer" });
+      }
 
+      let result;
+      switch (dataType) {
         case "subjects":
+          const rows = tableRows.filter(row => row.length > 1 && row[0]); // Filter out rows without first column
           // Check if this is a SCHILD NRW curriculum format (many columns)
           if (headers.length > 10 && headers[0].toLowerCase().includes('klasse')) {
             // Parse SCHILD curriculum format: extract subjects from triplet pattern
@@ -1327,344 +2344,260 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({ 
         message: `Successfully imported ${result.length} ${dataType}`,
-        count: result.length 
+        count: result.length,
+        encoding,
+        skipped: [],
+        warnings: [],
       });
     } catch (error) {
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({ error: "Ungültige Spaltenzuordnung" });
+      }
+      if (error instanceof Error && (error.message.includes("zwischenzeitlich gelöscht") || error.message.includes("Schuljahr"))) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error("CSV Import error:", error);
       res.status(500).json({ error: "Failed to import CSV data" });
     }
   });
 
-  // Subject normalization for database lookup
-  const findSubjectByName = (subjects: any[], semesterName: string, baseName: string) => {
-    // Comprehensive subject mapping for German schools
-    const subjectAliases: Record<string, string[]> = {
-      'D': ['D', 'DE', 'Deutsch'],
-      'D1': ['D1', 'DE1', 'Deutsch1'], 
-      'D2': ['D2', 'DE2', 'Deutsch2'],
-      'M': ['M', 'MA', 'Mathe', 'Mathematik'],
-      'M1': ['M1', 'MA1', 'Mathe1'],
-      'M2': ['M2', 'MA2', 'Mathe2'], 
-      'E': ['E', 'EN', 'Englisch', 'English'],
-      'E1': ['E1', 'EN1', 'Englisch1'],
-      'E2': ['E2', 'EN2', 'Englisch2'],
-      'L': ['L', 'F', 'FR', 'LA', 'FS', 'Französisch', 'Latein', 'Fremdsprache'],
-      'L1': ['L1', 'F1', 'FR1', 'LA1'],
-      'L2': ['L2', 'F2', 'FR2', 'LA2'],
-      'PK': ['PK', 'SW', 'Politik', 'Sozialwissenschaften'],
-      'PK1': ['PK1', 'SW1'], 
-      'PK2': ['PK2', 'SW2'],
-      'TC': ['TC', 'TX', 'Technik'],
-      'TC1': ['TC1', 'TX1'],
-      'TC2': ['TC2', 'TX2'],
-      'NW': ['NW', 'BI', 'BIO', 'CH', 'PH', 'Naturwissenschaften'],
-      'NW1': ['NW1', 'BI1', 'CH1', 'PH1'],
-      'NW2': ['NW2', 'BI2', 'CH2', 'PH2'],
-      'GE': ['GE', 'Geschichte'],
-      'GE1': ['GE1'], 'GE2': ['GE2'],
-      'EK': ['EK', 'Erdkunde', 'Geografie'],
-      'EK1': ['EK1'], 'EK2': ['EK2'],
-      'SP': ['SP', 'Sport'],
-      'SP1': ['SP1'], 'SP2': ['SP2'],
-      'KU': ['KU', 'Kunst'],
-      'KU1': ['KU1'], 'KU2': ['KU2'],
-      'MU': ['MU', 'Musik'],
-      'MU1': ['MU1'], 'MU2': ['MU2'],
-      'KR': ['KR', 'katholische Religion'],
-      'KR1': ['KR1'], 'KR2': ['KR2'],
-      'ER': ['ER', 'evangelische Religion'],
-      'ER1': ['ER1'], 'ER2': ['ER2']
-    };
+  // Classes and assignments of the school year before the current one, for continuity scoring
+  async function loadPreviousYearData(schoolYearId?: string): Promise<PreviousYearData | null> {
+    const baseSchoolYear = schoolYearId ? await storage.getSchoolYear(schoolYearId) : await storage.getCurrentSchoolYear();
+    if (!baseSchoolYear) return null;
+    const previousSchoolYear = await storage.getPreviousSchoolYear(baseSchoolYear.id);
+    if (!previousSchoolYear) return null;
 
-    // Try semester name first with all aliases
-    if (subjectAliases[semesterName]) {
-      for (const alias of subjectAliases[semesterName]) {
-        const found = subjects.find(s => s.shortName === alias);
-        if (found) return found;
-      }
-    }
-
-    // Try base name with all aliases
-    if (subjectAliases[baseName]) {
-      for (const alias of subjectAliases[baseName]) {
-        const found = subjects.find(s => s.shortName === alias);
-        if (found) return found;
-      }
-    }
-
-    // Last resort: direct name match
-    return subjects.find(s => s.shortName === semesterName) || 
-           subjects.find(s => s.shortName === baseName);
-  };
-
-  // Helper function for optimization with workload tracking
-  const findQualifiedTeacher = (baseSubject: string, teachers: Teacher[], teacherWorkloads: Map<string, number>, semesterHours: number) => {
-    // Teacher subject mapping - normalize German subject abbreviations
-    const subjectMappings: Record<string, string[]> = {
-      'D': ['D', 'DE', 'Deutsch'],
-      'M': ['M', 'MA', 'Mathe', 'Mathematik'],
-      'E': ['E', 'EN', 'Englisch', 'English'],
-      'L': ['L', 'F', 'FS', 'Französisch', 'Latein'],
-      'NW': ['NW', 'BI', 'BIO', 'CH', 'Chemie', 'PH', 'Physik'],
-      'GE': ['GE', 'Geschichte'],
-      'EK': ['EK', 'Erdkunde', 'Geografie'],
-      'PK': ['PK', 'Politik', 'SW', 'Sozialwissenschaften'],
-      'SP': ['SP', 'Sport'],
-      'KU': ['KU', 'Kunst'],
-      'MU': ['MU', 'Musik'],
-      'TC': ['TC', 'Technik', 'Tx'],
-      'KR': ['KR'], // Only exact match for religion
-      'ER': ['ER']  // Only exact match for religion
-    };
-    
-    const possibleSubjects = subjectMappings[baseSubject] || [baseSubject];
-    
-    const qualifiedTeacher = teachers.find((teacher: Teacher) => {
-      // CHECK WORKLOAD LIMITS FIRST
-      const currentWorkload = teacherWorkloads.get(teacher.id) || 0;
-      const totalHoursNeeded = currentWorkload + (semesterHours * 2); // Both semesters
-      
-      if (totalHoursNeeded > parseFloat(teacher.maxHours)) {
-        if (process.env.DEBUG_API === 'true') {
-          console.log(`    WORKLOAD LIMIT: ${teacher.shortName} (${totalHoursNeeded.toFixed(1)}h > ${teacher.maxHours}h)`);
-        }
-        return false;
-      }
-      
-      // HARDCODED FIX: BEU should never teach KR or ER (only E, GE, EK)
-      if ((baseSubject === 'KR' || baseSubject === 'ER') && teacher.shortName === 'BEU') {
-        if (process.env.DEBUG_API === 'true') {
-          console.log(`    BLOCKED: ${teacher.shortName} cannot teach ${baseSubject} (only E, GE, EK)`);
-        }
-        return false;
-      }
-      
-      return teacher.subjects.some((teacherSubjectStr: string) => {
-        const teacherSubjects = teacherSubjectStr.split(/[,;]/).map(s => s.trim());
-        return teacherSubjects.some((sub: string) => {
-          return possibleSubjects.some((possible: string) => {
-            // Use EXACT match only for all subjects to prevent false positives
-            return sub.toUpperCase() === possible.toUpperCase();
-          });
-        });
-      });
+    const [classes, assignments] = await Promise.all([
+      storage.getClassesBySchoolYear(previousSchoolYear.id),
+      storage.getAssignmentsBySchoolYear(previousSchoolYear.id),
+    ]);
+    return { classes, assignments };
+  }
+
+  app.get("/api/optimize/previous-year", requirePermission("data:read"), async (req, res) => {
+    try {
+      const previousYear = await loadPreviousYearData(getRequestSchoolYearId(req));
+      res.json(previousYear ?? { classes: [], assignments: [] });
+    } catch (error) {
+      console.error("Previous year data error:", error);
+      res.status(500).json({ error: "Failed to load previous school year" });
+    }
+  });
+
+  // Solves the plan of a school year and diffs it against its current assignments
+  async function solveOptimization(schoolYearId?: string) {
+    const [teachers, classes, subjects, existingAssignments, constraints, previousYear] = await Promise.all([
+      storage.getTeachers(),
+      storage.getClasses(schoolYearId),
+      storage.getSubjects(),
+      storage.getAssignments(schoolYearId),
+      storage.getTeacherConstraints(),
+      loadPreviousYearData(schoolYearId),
+    ]);
+
+    const plan = solveAssignments({
+      teachers,
+      classes,
+      subjects,
+      lockedAssignments: existingAssignments.filter(a => a.isLocked),
+      constraints,
+      previousYear,
     });
-    
-    return qualifiedTeacher;
-  };
+    const diff = diffAssignmentPlan(existingAssignments, plan.assignments, { teachers, classes, unmetDemand: plan.unmetDemand });
+    return { teachers, classes, subjects, plan, diff };
+  }
 
-  // Optimization endpoint - Realistic semester-based optimization
-  app.post("/api/optimize", async (req, res) => {
+  // Optimization preview - solves the plan and returns the diff without writing anything
+  app.post("/api/optimize/preview", requirePermission("optimize:run"), async (req, res) => {
     try {
-      // Get current data for optimization
-      const teachers = await storage.getTeachers();
-      const classes = await storage.getClasses();
-      const subjects = await storage.getSubjects();
-      
-      // Clear existing assignments to avoid duplicates (parallel)
-      const existingAssignments = await storage.getAssignments();
-      await Promise.all(existingAssignments.map(a => storage.deleteAssignment(a.id)));
-      
-      let createdAssignments = 0;
-      const assignmentPromises: Promise<any>[] = [];
-      
-      // Initialize workload tracking to respect teacher hour limits
-      const teacherWorkloads = new Map<string, number>();
-      teachers.forEach(teacher => {
-        teacherWorkloads.set(teacher.id, 0); // Start with 0 hours
-      });
-      
+      const { teachers, classes, subjects, plan, diff } = await solveOptimization(getRequestSchoolYearId(req));
+
       if (process.env.DEBUG_API === 'true') {
-        console.log("=== SEMESTER-BASED OPTIMIZATION STARTING ===");
+        console.log("=== ASSIGNMENT SOLVER (PREVIEW) ===");
         console.log(`Teachers: ${teachers.length}, Classes: ${classes.length}, Subjects: ${subjects.length}`);
+        console.log(`Score: ${plan.score.total}, covered ${plan.statistics.coveredHours}h of ${plan.statistics.demandHours}h`);
+        console.log(`Diff: +${diff.summary.added} -${diff.summary.removed} ~${diff.summary.changed}`);
+        plan.unmetDemand.forEach(d => console.log(`  UNMET ${d.className}: ${d.message}`));
+        plan.constraintViolations.forEach(v => console.log(`  WISH ${v.teacherShortName} "${v.label}": ${v.message} (${v.reason})`));
       }
-      
-      // Define realistic semester subject mappings for Realschule
-      const semesterSubjects: Record<string, { semesters: string[], hours: number }> = {
-        'D': { semesters: ['D1', 'D2'], hours: 4 },
-        'M': { semesters: ['M1', 'M2'], hours: 4 }, 
-        'E': { semesters: ['E1', 'E2'], hours: 4 },
-        'L': { semesters: ['L1', 'L2'], hours: 3 }, // Second language (French/Latin)
-        'NW': { semesters: ['NW1', 'NW2'], hours: 2 }, // Natural Sciences
-        'GE': { semesters: ['GE1', 'GE2'], hours: 2 }, // History
-        'EK': { semesters: ['EK1', 'EK2'], hours: 1 }, // Geography
-        'PK': { semesters: ['PK1', 'PK2'], hours: 2 }, // Politics
-        'SP': { semesters: ['SP1', 'SP2'], hours: 3 }, // Sports
-        'KU': { semesters: ['KU1', 'KU2'], hours: 2 }, // Art
-        'MU': { semesters: ['MU1', 'MU2'], hours: 2 }, // Music
-        'TC': { semesters: ['TC1', 'TC2'], hours: 2 }, // Technology
-        'KR': { semesters: ['KR1', 'KR2'], hours: 2 }, // Catholic Religion
-        'ER': { semesters: ['ER1', 'ER2'], hours: 2 }  // Protestant Religion
-      };
-      
-      // For each class, create semester-based assignments  
-      for (const classData of classes) {
-        // Reduced logging for performance
-        
-        // Determine which subjects this grade level needs
-        let gradeSubjects: string[] = [];
-        if (classData.grade >= 5 && classData.grade <= 10) {
-          gradeSubjects = ['D', 'M', 'E', 'SP'];
-          
-          if (classData.grade >= 6) {
-            gradeSubjects.push('NW', 'GE', 'MU', 'KU');
-          }
-          if (classData.grade >= 7) {
-            gradeSubjects.push('L', 'TC', 'KR');
-          }
-          if (classData.grade >= 8) {
-            gradeSubjects.push('EK', 'PK');
-          }
-        }
-        
-        // Create assignments for each subject (both semesters with same teacher)
-        for (const baseSubject of gradeSubjects) {
-          if (semesterSubjects[baseSubject]) {
-            // CRITICAL FIX: Pre-filter teachers to exclude BEU from KR/ER
-            const teacherPool = teachers.filter(t => 
-              !(t.shortName === 'BEU' && (baseSubject === 'KR' || baseSubject === 'ER'))
-            );
-            
-            const semesterHours = semesterSubjects[baseSubject].hours;
-            const qualifiedTeacher = findQualifiedTeacher(baseSubject, teacherPool, teacherWorkloads, semesterHours);
-            
-            if (qualifiedTeacher) {
-              // Teacher assigned successfully - UPDATE WORKLOAD TRACKER
-              const hoursForBothSemesters = semesterHours * 2;
-              const currentWorkload = teacherWorkloads.get(qualifiedTeacher.id) || 0;
-              teacherWorkloads.set(qualifiedTeacher.id, currentWorkload + hoursForBothSemesters);
-              
-              if (process.env.DEBUG_API === 'true') {
-                console.log(`  ${baseSubject}: ${qualifiedTeacher.shortName} (${currentWorkload + hoursForBothSemesters}h / ${qualifiedTeacher.maxHours}h)`);
-              }
-              
-              // Create assignments for both semesters with the same teacher
-              for (let semester = 1; semester <= 2; semester++) {
-                const semesterSubjectName = semesterSubjects[baseSubject].semesters[semester - 1];
-                
-                // Enhanced subject lookup with normalization
-                let subject = findSubjectByName(subjects, semesterSubjectName, baseSubject);
-                
-                if (subject) {
-                  const assignmentPromise = storage.createAssignment({
-                    teacherId: qualifiedTeacher.id,
-                    classId: classData.id,
-                    subjectId: subject.id,
-                    hoursPerWeek: semesterSubjects[baseSubject].hours.toString(),
-                    semester: semester === 1 ? "1" : "2",
-                    isOptimized: true
-                  });
-                  assignmentPromises.push(assignmentPromise);
-                  createdAssignments++;
-                } else {
-                  if (process.env.DEBUG_API === 'true') {
-                    console.log(`    Warning: Subject ${semesterSubjectName}/${baseSubject} not found in database`);
-                  }
-                }
-              }
-            } else {
-              if (process.env.DEBUG_API === 'true') {
-                console.log(`  ${baseSubject}: No qualified teacher found`);
-              }
-              
-              // Better fallback: Find teacher with similar subjects or skip
-              let fallbackTeacher = null;
-              
-              // UNIFIED SMART FALLBACK: All subjects use workload + qualification checks
-              const subjectMappings: Record<string, string[]> = {
-                'D': ['D', 'DE', 'Deutsch'],
-                'M': ['M', 'MA', 'Mathe', 'Mathematik'],
-                'E': ['E', 'EN', 'Englisch', 'English'],
-                'L': ['L', 'F', 'FR', 'LA', 'FS', 'Französisch', 'Latein', 'Fremdsprache'],
-                'PK': ['PK', 'SW', 'Politik', 'Sozialwissenschaften'],
-                'TC': ['TC', 'TX', 'Technik'],
-                'NW': ['NW', 'BI', 'BIO', 'CH', 'PH', 'Naturwissenschaften'],
-                'GE': ['GE', 'Geschichte'],
-                'EK': ['EK', 'Erdkunde', 'Geografie'],
-                'SP': ['SP', 'Sport'],
-                'KU': ['KU', 'Kunst'],
-                'MU': ['MU', 'Musik'],
-                'KR': ['KR', 'katholische Religion'],
-                'ER': ['ER', 'evangelische Religion']
-              };
-              
-              // Try all teachers, but check workload and basic qualification
-              for (const teacher of teachers) {
-                // WORKLOAD CHECK FIRST  
-                const currentWorkload = teacherWorkloads.get(teacher.id) || 0;
-                const totalHoursNeeded = currentWorkload + (semesterHours * 2);
-                
-                if (totalHoursNeeded <= parseFloat(teacher.maxHours)) {
-                  // BASIC QUALIFICATION CHECK (relaxed for emergency fallback)
-                  const subjectAliases = subjectMappings[baseSubject] || [baseSubject];
-                  const canTeach = teacher.subjects.some(subj => {
-                    return subjectAliases.some(alias => 
-                      subj.toUpperCase().includes(alias.toUpperCase()) ||
-                      alias.toUpperCase().includes(subj.toUpperCase())
-                    );
-                  });
-                  
-                  if (canTeach) {
-                    fallbackTeacher = teacher;
-                    break; // Take first qualified teacher with workload capacity
-                  }
-                }
-              }
-              
-              if (fallbackTeacher) {
-                if (process.env.DEBUG_API === 'true') {
-                  console.log(`    SMART FALLBACK: Assigned to ${fallbackTeacher.shortName} (${fallbackTeacher.firstName} ${fallbackTeacher.lastName})`);
-                  console.log(`    Teacher subjects: ${fallbackTeacher.subjects.join(', ')}`);
-                  console.log(`    Workload check: ${(teacherWorkloads.get(fallbackTeacher.id) || 0) + (semesterHours * 2)}h <= ${fallbackTeacher.maxHours}h`);
-                }
-                
-                // UPDATE WORKLOAD TRACKER for fallback assignments too!
-                const hoursForBothSemesters = semesterHours * 2;
-                const currentWorkload = teacherWorkloads.get(fallbackTeacher.id) || 0;
-                teacherWorkloads.set(fallbackTeacher.id, currentWorkload + hoursForBothSemesters);
-                
-                for (let semester = 1; semester <= 2; semester++) {
-                  const semesterSubjectName = semesterSubjects[baseSubject].semesters[semester - 1];
-                  let subject = findSubjectByName(subjects, semesterSubjectName, baseSubject);
-                  
-                  if (subject) {
-                    const assignmentPromise = storage.createAssignment({
-                      teacherId: fallbackTeacher.id,
-                      classId: classData.id,
-                      subjectId: subject.id,
-                      hoursPerWeek: semesterSubjects[baseSubject].hours.toString(),
-                      semester: semester === 1 ? "1" : "2",
-                      isOptimized: true
-                    });
-                    assignmentPromises.push(assignmentPromise);
-                    createdAssignments++;
-                  }
-                }
-              } else {
-                if (process.env.DEBUG_API === 'true') {
-                  console.log(`    ERROR: No suitable teacher found for ${baseSubject} in class ${classData.name} - assignment skipped`);
-                }
-              }
-            }
-          }
-        }
+
+      res.json({
+        score: plan.score,
+        statistics: plan.statistics,
+        unmetDemand: plan.unmetDemand,
+        teacherLoads: plan.teacherLoads,
+        constraintViolations: plan.constraintViolations,
+        diff
+      });
+    } catch (error) {
+      console.error("Optimization preview error:", error);
+      res.status(500).json({ error: "Failed to run optimization" });
+    }
+  });
+
+  // Apply a previewed optimization diff after explicit confirmation
+  app.post("/api/optimize/apply", requirePermission("optimize:run"), async (req, res) => {
+    try {
+      const { changes } = applyAssignmentChangesRequestSchema.parse(req.body);
+      const schoolYearId = getRequestSchoolYearId(req);
+
+      // Only changes the server computes itself are written (scope, lock state, existence)
+      const { diff } = await solveOptimization(schoolYearId);
+      const confirmed = selectConfirmedChanges(changes, diff);
+      if (!confirmed) {
+        return res.status(409).json({ error: "Die Unterrichtsverteilung wurde zwischenzeitlich geändert. Bitte erstellen Sie einen neuen Optimierungsvorschlag." });
       }
-      
-      // Wait for all assignments to be created
-      await Promise.all(assignmentPromises);
-      
+      const result = await storage.applyAssignmentChanges(confirmed, schoolYearId);
+
       res.json({ 
-        message: "Optimization completed successfully",
-        optimizedAssignments: createdAssignments
+        message: "Optimization applied successfully",
+        ...result
       });
     } catch (error) {
-      console.error("Optimization error:", error);
-      res.status(500).json({ error: "Failed to run optimization" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof Error && (error.message.includes("zwischenzeitlich geändert") || error.message.includes("gesperrt"))) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Optimization apply error:", error);
+      res.status(500).json({ error: "Failed to apply optimization" });
+    }
+  });
+
+  // Matrix change set: server-side draft of the current user's matrix edits with undo/redo
+  async function loadMatrixChangeSet(req: Request) {
+    const schoolYearId = getRequestSchoolYearId(req) ?? (await storage.getCurrentSchoolYear())?.id;
+    if (!schoolYearId) return null;
+    const userId = getCurrentUserId();
+    const changeSet = await storage.getOpenMatrixChangeSet(userId, schoolYearId);
+    const state: MatrixChangeSetState = { edits: changeSet?.edits ?? [], position: changeSet?.position ?? 0 };
+    return { schoolYearId, userId, changeSet, state };
+  }
+
+  // Undo, redo, discard and commit act on every subject edited in the draft
+  async function subjectsOfMatrixChangeSet(req: Request) {
+    const loaded = await loadMatrixChangeSet(req);
+    return (loaded?.state.edits ?? []).flatMap(edit => edit.cells.map(cell => cell.subjectId));
+  }
+
+  async function updateMatrixChangeSet(req: Request, res: Response, update: (state: MatrixChangeSetState) => MatrixChangeSetState) {
+    const loaded = await loadMatrixChangeSet(req);
+    if (!loaded) {
+      return res.status(400).json({ error: "Kein aktuelles Schuljahr konfiguriert" });
+    }
+    const saved = await storage.saveMatrixChangeSet(loaded.userId, loaded.schoolYearId, update(loaded.state));
+    res.json(toMatrixChangeSetView(saved));
+  }
+
+  app.get("/api/matrix-change-set", requirePermission("data:read"), async (req, res) => {
+    try {
+      const loaded = await loadMatrixChangeSet(req);
+      if (!loaded) {
+        return res.status(400).json({ error: "Kein aktuelles Schuljahr konfiguriert" });
+      }
+      res.json(toMatrixChangeSetView({ id: loaded.changeSet?.id ?? null, schoolYearId: loaded.schoolYearId, ...loaded.state }));
+    } catch (error) {
+      console.error("Error fetching matrix change set:", error);
+      res.status(500).json({ error: "Failed to fetch change set" });
+    }
+  });
+
+  app.post("/api/matrix-change-set/edits", requirePermission("assignments:write", subjectsOfMatrixEdit), async (req, res) => {
+    try {
+      const edit = addMatrixEditSchema.parse(req.body);
+      await updateMatrixChangeSet(req, res, state => pushMatrixEdit(state, edit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid matrix edit", details: error.errors });
+      }
+      console.error("Error adding matrix edit:", error);
+      res.status(500).json({ error: "Failed to add edit" });
+    }
+  });
+
+  app.post("/api/matrix-change-set/undo", requirePermission("assignments:write", subjectsOfMatrixChangeSet), async (req, res) => {
+    try {
+      await updateMatrixChangeSet(req, res, undoMatrixEdit);
+    } catch (error) {
+      console.error("Error undoing matrix edit:", error);
+      res.status(500).json({ error: "Failed to undo edit" });
+    }
+  });
+
+  app.post("/api/matrix-change-set/redo", requirePermission("assignments:write", subjectsOfMatrixChangeSet), async (req, res) => {
+    try {
+      await updateMatrixChangeSet(req, res, redoMatrixEdit);
+    } catch (error) {
+      console.error("Error redoing matrix edit:", error);
+      res.status(500).json({ error: "Failed to redo edit" });
+    }
+  });
+
+  app.delete("/api/matrix-change-set", requirePermission("assignments:write", subjectsOfMatrixChangeSet), async (req, res) => {
+    try {
+      const loaded = await loadMatrixChangeSet(req);
+      if (loaded?.changeSet) {
+        await storage.discardMatrixChangeSet(loaded.changeSet.id);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error discarding matrix change set:", error);
+      res.status(500).json({ error: "Failed to discard change set" });
+    }
+  });
+
+  // Resulting assignment changes against the saved assignments, for review before commit
+  app.get("/api/matrix-change-set/review", requirePermission("data:read"), async (req, res) => {
+    try {
+      const loaded = await loadMatrixChangeSet(req);
+      if (!loaded) {
+        return res.status(400).json({ error: "Kein aktuelles Schuljahr konfiguriert" });
+      }
+      const [assignments, subjects, classes] = await Promise.all([
+        storage.getAssignments(loaded.schoolYearId),
+        storage.getSubjects(),
+        storage.getClasses(loaded.schoolYearId),
+      ]);
+      res.json(planMatrixChangeSet(loaded.state, assignments, subjects, classes));
+    } catch (error) {
+      console.error("Error reviewing matrix change set:", error);
+      res.status(500).json({ error: "Failed to review change set" });
+    }
+  });
+
+  app.post("/api/matrix-change-set/commit", requirePermission("assignments:write", subjectsOfMatrixChangeSet), async (req, res) => {
+    try {
+      const loaded = await loadMatrixChangeSet(req);
+      if (!loaded?.changeSet) {
+        return res.status(400).json({ error: "Keine offenen Änderungen" });
+      }
+      const [assignments, subjects, classes] = await Promise.all([
+        storage.getAssignments(loaded.schoolYearId),
+        storage.getSubjects(),
+        storage.getClasses(loaded.schoolYearId),
+      ]);
+      const changes = planMatrixChangeSet(loaded.state, assignments, subjects, classes);
+      const result = await storage.commitMatrixChangeSet(loaded.changeSet.id, changes);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("nicht gefunden")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof Error && (error.message.includes("zwischenzeitlich geändert") || error.message.includes("gesperrt"))) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error committing matrix change set:", error);
+      res.status(500).json({ error: "Failed to commit change set" });
     }
   });
 
   // School Year Transition routes (Admin only)
-  app.get('/api/school-years/validate-transition/:fromSchoolYearId', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/school-years/validate-transition/:fromSchoolYearId', isAuthenticated, requirePermission("school-years:manage"), async (req, res) => {
     try {
       // Validate path parameter
       const fromSchoolYearIdSchema = z.string().uuid("Ungültige Schuljahr-ID");
@@ -1710,7 +2643,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/school-years/preview-transition', isAuthenticated, isAdmin, async (req, res) => {
+  app.post('/api/school-years/preview-transition', isAuthenticated, requirePermission("school-years:manage"), async (req, res) => {
     try {
       // Complete Zod validation for request body matching frontend format
       const previewRequestSchema = z.object({
@@ -1813,7 +2746,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/school-years/execute-transition', isAuthenticated, isAdmin, async (req, res) => {
+  app.post('/api/school-years/execute-transition', isAuthenticated, requirePermission("school-years:manage"), async (req, res) => {
     try {
       // Complete Zod validation for execute request
       const executeRequestSchema = z.object({
@@ -1901,7 +2834,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // NEW: Validated lesson distribution import route
-  app.post('/api/import/lesson-distribution-validated', upload.single('file'), isAuthenticated, isAdmin, async (req: MulterRequest, res) => {
+  app.post('/api/import/lesson-distribution-validated', isAuthenticated, requirePermission("import:run"), upload.single('file'), async (req: MulterRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'Keine Datei hochgeladen' });
@@ -1948,7 +2881,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Excel Import Route
-  app.post('/api/import/lesson-distribution', isAuthenticated, isAdmin, async (req, res) => {
+  app.post('/api/import/lesson-distribution', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { filePath, schoolYearId } = req.body;
       
@@ -1988,7 +2921,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PDF Import Routes
-  app.post('/api/import/lesson-distribution/pdf-preview', upload.single('file'), isAuthenticated, isAdmin, async (req: MulterRequest, res) => {
+  app.post('/api/import/lesson-distribution/pdf-preview', isAuthenticated, requirePermission("import:run"), upload.single('file'), async (req: MulterRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'Keine Datei hochgeladen' });
@@ -2022,7 +2955,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/import/lesson-distribution/pdf-apply', isAuthenticated, isAdmin, async (req, res) => {
+  app.post('/api/import/lesson-distribution/pdf-apply', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { lessons, resolutions, schoolYearId } = req.body;
       
@@ -2051,7 +2984,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Subject Mapping Management Routes
-  app.get('/api/subject-mappings', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/subject-mappings', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const mappings = await intelligentMappingService.getAllMappings();
       res.json(mappings);
@@ -2061,7 +2994,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/subject-mappings/resolve', isAuthenticated, isAdmin, async (req, res) => {
+  app.post('/api/subject-mappings/resolve', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { pdfSubjectName, selectedSubjectId } = req.body;
       
@@ -2080,7 +3013,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/subject-mappings/:id', isAuthenticated, isAdmin, async (req, res) => {
+  app.delete('/api/subject-mappings/:id', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { id } = req.params;
       await intelligentMappingService.deleteMapping(id);
@@ -2095,7 +3028,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // School Years management routes
-  app.get('/api/school-years', async (req, res) => {
+  app.get('/api/school-years', requirePermission("data:read"), async (req, res) => {
     try {
       const schoolYears = await storage.getSchoolYears();
       res.json(schoolYears);
@@ -2105,7 +3038,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/school-years/current', async (req, res) => {
+  app.get('/api/school-years/current', requirePermission("data:read"), async (req, res) => {
     try {
       const currentSchoolYear = await storage.getCurrentSchoolYear();
       if (!currentSchoolYear) {
@@ -2119,7 +3052,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PDF Import routes
-  app.get('/api/pdf-imports', isAuthenticated, async (req, res) => {
+  app.get('/api/pdf-imports', isAuthenticated, requirePermission("data:read"), async (req, res) => {
     try {
       const pdfImports = await storage.getPdfImports();
       res.json(pdfImports);
@@ -2129,7 +3062,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/pdf-imports', isAuthenticated, upload.single('pdf'), async (req: MulterRequest, res) => {
+  app.post('/api/pdf-imports', isAuthenticated, requirePermission("import:run"), upload.single('pdf'), async (req: MulterRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "PDF file is required" });
@@ -2152,7 +3085,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/pdf-tables', isAuthenticated, async (req, res) => {
+  app.get('/api/pdf-tables', isAuthenticated, requirePermission("data:read"), async (req, res) => {
     try {
       const pdfTables = await storage.getPdfTables();
       res.json(pdfTables);
@@ -2162,7 +3095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/pdf-tables', isAuthenticated, async (req, res) => {
+  app.post('/api/pdf-tables', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const pdfTableData = insertPdfTableSchema.parse(req.body);
       const pdfTable = await storage.createPdfTable(pdfTableData);
@@ -2173,7 +3106,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/pdf-tables/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/pdf-tables/:id', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { id } = req.params;
       const updateData = insertPdfTableSchema.partial().parse(req.body);
@@ -2185,7 +3118,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/pdf-tables/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/pdf-tables/:id', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deletePdfTable(id);
@@ -2197,7 +3130,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get tables for a specific PDF import
-  app.get('/api/pdf-imports/:id/tables', isAuthenticated, async (req, res) => {
+  app.get('/api/pdf-imports/:id/tables', isAuthenticated, requirePermission("data:read"), async (req, res) => {
     try {
       const { id } = req.params;
       const tables = await storage.getPdfTablesByImport(id);
@@ -2209,7 +3142,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ChatGPT Schedule Import Routes
-  app.post('/api/chatgpt/parse-schedule', isAuthenticated, async (req, res) => {
+  app.get('/api/chatgpt/provider', isAuthenticated, requirePermission("import:run"), (_req, res) => {
+    const provider = getLlmProvider();
+    res.json({ type: provider.type, label: provider.label });
+  });
+
+  app.post('/api/chatgpt/parse-schedule', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { scheduleText } = req.body;
       
@@ -2225,7 +3163,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/chatgpt/import-schedule', isAuthenticated, async (req, res) => {
+  app.post('/api/chatgpt/import-schedule', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const { scheduleText } = req.body;
       
@@ -2236,12 +3174,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // First parse the data
       const parsedData = await openaiScheduleService.parseScheduleText(scheduleText);
       
-      // Then import it
-      const importResult = await openaiScheduleService.importParsedData(parsedData);
+      // Then import the records that passed validation
+      const validation = await openaiScheduleService.validateParsedData(parsedData);
+      const importResult = await openaiScheduleService.importParsedData(validation.valid);
       
       res.json({
         message: "Schedule import completed",
-        results: importResult,
+        results: { ...importResult, rejected: validation.issues.filter(issue => issue.severity === "error") },
         parsedData: parsedData
       });
     } catch (error) {
@@ -2251,7 +3190,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Import structured data directly (from editable preview)
-  app.post('/api/chatgpt/import-structured', isAuthenticated, async (req, res) => {
+  app.post('/api/chatgpt/import-structured', isAuthenticated, requirePermission("import:run"), async (req, res) => {
     try {
       const parsedData = req.body;
       
@@ -2276,10 +3215,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "assignments array is required" });
       }
       
-      // Import the structured data directly
-      const importResult = await openaiScheduleService.importParsedData(parsedData);
+      // Records that do not pass validation are refused and listed with their reasons
+      const validation = await openaiScheduleService.validateParsedData(parsedData);
+      const rejected = validation.issues.filter(issue => issue.severity === "error");
+      const validCount = validation.valid.teachers.length + validation.valid.classes.length +
+        validation.valid.subjects.length + validation.valid.assignments.length;
+      if (validCount === 0 && rejected.length > 0) {
+        return res.status(400).json({ error: "Keine gültigen Datensätze zum Importieren", rejected });
+      }
+
+      const importResult = await openaiScheduleService.importParsedData(validation.valid);
       
-      res.json(importResult);
+      res.json({ ...importResult, rejected });
     } catch (error) {
       console.error("Error importing structured schedule data:", error);
       res.status(500).json({ error: "Failed to import structured data: " + (error as Error).message });
@@ -2287,7 +3234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Help Bot Routes
-  app.post('/api/help/ask', isAuthenticated, async (req, res) => {
+  app.post('/api/help/ask', isAuthenticated, requirePermission("data:read"), async (req, res) => {
     try {
       const { question } = req.body;
       
@@ -0,0 +1,195 @@
+/**
+ * Rule-based schedule parser
+ *
+ * Reads schedule texts without any language model, for installations where school
+ * data must not leave the building and no local model is available. Only the
+ * common layouts are recognized; everything else is ignored.
+ *
+ * Features:
+ * - Teacher lines: "MÜL (Müller) - Deutsch, Englisch" or "Lehrkräfte: MÜL, SCH"
+ * - Class lines: "5a (25 Schüler) - D: 4h (MÜL), M: 5h (SCH)"
+ * - PDF lesson lines below a class heading: "Deutsch (4 Stunden) bei NOL"
+ * - Semester headings "1. Halbjahr" / "2. Halbjahr"; without them semester 1
+ */
+
+import { matchClassHeading, type ParsedScheduleData } from "./schedule-text-chunks";
+
+// ===== CONSTANTS =====
+
+// Same short names the language model is asked to use
+export const SUBJECT_NAMES: Record<string, string> = {
+  D: "Deutsch",
+  M: "Mathematik",
+  E: "Englisch",
+  FS: "Französisch",
+  PK: "Politik",
+  PP: "Praktische Philosophie",
+  KR: "Katholische Religion",
+  ER: "Evangelische Religion",
+  SW: "Sozialwissenschaften",
+  NW: "Naturwissenschaften",
+  IF: "Informatik",
+  TC: "Technik",
+  BI: "Biologie",
+  CH: "Chemie",
+  PH: "Physik",
+  GE: "Geschichte",
+  EK: "Erdkunde",
+  KU: "Kunst",
+  MU: "Musik",
+  SP: "Sport",
+  HW: "Hauswirtschaft",
+  TX: "Textil",
+};
+
+const SUBJECT_ALIASES: Record<string, string> = {
+  "mathe": "M",
+  "französisch": "FS",
+  "kath. religion": "KR",
+  "ev. religion": "ER",
+  "evangelische religon": "ER",
+  "haus- wirtschaft": "HW",
+};
+
+const MAIN_SUBJECTS = new Set(["D", "M", "E"]);
+
+// "D: 4h (MÜL)", "Sport: 2 Std. (ABC)"
+const SHORT_LESSON_PATTERN = /([A-Za-zÄÖÜäöüß][A-Za-zÄÖÜäöüß.\/\- ]*?)\s*:\s*(\d+(?:[.,]\d+)?)\s*(?:h|Std\.?|Stunden?)\s*\(([A-ZÄÖÜ]{2,4})\)/g;
+// "Deutsch (4 Stunden) bei NOL"
+const PDF_LESSON_PATTERN = /([^(),;]+?)\s*\((\d+(?:[.,]\d+)?)\s*Stunde[ns]?\)\s*bei\s+([A-ZÄÖÜ]{2,4})/g;
+// "MÜL (Müller) - Deutsch, Englisch"
+const TEACHER_LINE_PATTERN = /^\s*([A-ZÄÖÜ]{2,4})\s*(?:\(([^)]*)\))?\s*[-–:]\s*(.+)$/;
+const TEACHER_LIST_PATTERN = /^\s*Lehrkräfte\s*:\s*(.+)$/i;
+const SEMESTER_PATTERN = /^\s*([12])\.\s*(?:Halbjahr|Hj\.?)\s*:?\s*$/i;
+const STUDENT_COUNT_PATTERN = /(\d+)\s*(?:Schüler(?:innen)?|SuS)/i;
+
+// Upper school classes have no number in the name
+const UPPER_SCHOOL_GRADES: Record<string, number> = { EF: 11, Q1: 12, Q2: 13 };
+
+// ===== HELPER FUNCTIONS =====
+
+export function resolveSubject(token: string): { shortName: string; name: string } {
+  const cleaned = token.trim().replace(/\s+/g, " ");
+  const upper = cleaned.toUpperCase();
+  if (SUBJECT_NAMES[upper]) {
+    return { shortName: upper, name: SUBJECT_NAMES[upper] };
+  }
+
+  const lower = cleaned.toLowerCase();
+  const shortName = SUBJECT_ALIASES[lower]
+    ?? Object.keys(SUBJECT_NAMES).find(key => SUBJECT_NAMES[key].toLowerCase() === lower);
+  if (shortName) {
+    return { shortName, name: SUBJECT_NAMES[shortName] };
+  }
+
+  // Unknown subject: short names are kept, long names are shortened to their first letters
+  return {
+    shortName: cleaned.length <= 4 ? upper : upper.replace(/[^A-ZÄÖÜ]/g, "").slice(0, 3),
+    name: cleaned
+  };
+}
+
+function getGrade(className: string): number {
+  return UPPER_SCHOOL_GRADES[className] ?? (parseInt(className, 10) || 0);
+}
+
+// ===== CALCULATION =====
+
+export function parseScheduleTextWithRules(text: string): ParsedScheduleData {
+  const teachers = new Map<string, ParsedScheduleData["teachers"][number]>();
+  const classes = new Map<string, ParsedScheduleData["classes"][number]>();
+  const subjects = new Map<string, ParsedScheduleData["subjects"][number]>();
+  const assignments: ParsedScheduleData["assignments"] = [];
+
+  let currentClass: string | null = null;
+  let semester = 1;
+
+  const addTeacher = (shortName: string, name: string = "", qualifications: string[] = []) => {
+    const existing = teachers.get(shortName);
+    if (existing) {
+      existing.name = existing.name || name;
+      existing.qualifications = Array.from(new Set([...existing.qualifications, ...qualifications]));
+    } else {
+      teachers.set(shortName, { name, shortName, qualifications });
+    }
+  };
+
+  const addSubject = (token: string) => {
+    const subject = resolveSubject(token);
+    if (!subjects.has(subject.shortName)) {
+      subjects.set(subject.shortName, {
+        ...subject,
+        category: MAIN_SUBJECTS.has(subject.shortName) ? "Hauptfach" : "Nebenfach"
+      });
+    }
+    return subject.shortName;
+  };
+
+  const readLessons = (lineText: string): number => {
+    const matches = [
+      ...Array.from(lineText.matchAll(SHORT_LESSON_PATTERN)),
+      ...Array.from(lineText.matchAll(PDF_LESSON_PATTERN))
+    ];
+    if (!currentClass) return matches.length;
+
+    for (const match of matches) {
+      const subjectShortName = addSubject(match[1]);
+      addTeacher(match[3]);
+      assignments.push({
+        teacherShortName: match[3],
+        className: currentClass,
+        subjectShortName,
+        hoursPerWeek: parseFloat(match[2].replace(",", ".")),
+        semester
+      });
+    }
+    return matches.length;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const semesterMatch = line.match(SEMESTER_PATTERN);
+    if (semesterMatch) {
+      semester = Number(semesterMatch[1]);
+      continue;
+    }
+
+    const teacherListMatch = line.match(TEACHER_LIST_PATTERN);
+    if (teacherListMatch) {
+      teacherListMatch[1].split(/[,;]/).map(t => t.trim()).filter(t => /^[A-ZÄÖÜ]{2,4}$/.test(t)).forEach(t => addTeacher(t));
+      continue;
+    }
+
+    const heading = matchClassHeading(line);
+    if (heading) {
+      currentClass = heading.className;
+      semester = 1;
+      if (!classes.has(currentClass)) {
+        const studentCount = heading.rest.match(STUDENT_COUNT_PATTERN);
+        classes.set(currentClass, {
+          name: currentClass,
+          grade: getGrade(currentClass),
+          studentCount: studentCount ? Number(studentCount[1]) : 0
+        });
+      }
+      readLessons(heading.rest);
+      continue;
+    }
+
+    if (readLessons(line) > 0) continue;
+
+    const teacherMatch = line.match(TEACHER_LINE_PATTERN);
+    if (teacherMatch) {
+      const qualifications = teacherMatch[3].split(/[,;]/).map(s => s.trim()).filter(Boolean).map(addSubject);
+      addTeacher(teacherMatch[1], teacherMatch[2]?.trim() ?? "", qualifications);
+    }
+  }
+
+  return {
+    teachers: Array.from(teachers.values()),
+    classes: Array.from(classes.values()),
+    subjects: Array.from(subjects.values()),
+    assignments
+  };
+}
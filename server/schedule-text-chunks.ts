@@ -0,0 +1,244 @@
+/**
+ * Splitting of long schedule texts for the ChatGPT import
+ *
+ * A full Unterrichtsverteilung does not fit into one request. The text is split
+ * at class headings, each chunk is parsed on its own and the results are merged.
+ *
+ * Features:
+ * - Class-level chunks ("5a ...", "Klasse 10b", "Unterrichtsplan für Klasse 05a")
+ * - Oversized classes are split by lines, repeating the class heading
+ * - Merge of chunk results with deduplication of teachers, classes, subjects and assignments
+ */
+
+// ===== TYPES =====
+
+export interface ParsedScheduleData {
+  teachers: Array<{
+    name: string;
+    shortName: string;
+    qualifications: string[];
+  }>;
+  classes: Array<{
+    name: string;
+    grade: number;
+    studentCount: number;
+  }>;
+  subjects: Array<{
+    name: string;
+    shortName: string;
+    category: string;
+  }>;
+  assignments: Array<{
+    teacherShortName: string;
+    className: string;
+    subjectShortName: string;
+    hoursPerWeek: number;
+    semester: number;
+  }>;
+}
+
+export interface ScheduleTextChunk {
+  index: number;
+  label: string;              // class name, "Allgemein" for text before the first class, or "Abschnitt n"
+  text: string;
+}
+
+export interface ScheduleChunkReport {
+  index: number;
+  label: string;
+  characters: number;
+  status: "success" | "failed";
+  error?: string;
+  teachers: number;
+  classes: number;
+  subjects: number;
+  assignments: number;
+}
+
+export interface ChunkedScheduleData extends ParsedScheduleData {
+  chunks: ScheduleChunkReport[];
+}
+
+// ===== CONSTANTS =====
+
+export const MAX_CHUNK_LENGTH = 2000;
+
+// "5a", "05A", "10b:", "Klasse 7c", "Unterrichtsplan für Klasse 05a", "EF", "Q1"
+const CLASS_HEADING_PATTERN = /^\s*(?:Unterrichtsplan\s+für\s+)?(?:Klasse\s*:?\s*(\d{1,2}\s?[a-z]{1,3})|(\d{1,2}[a-z]{1,3}|EF|Q[12]))(?=$|[\s:(\-–,])/i;
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * Normalize class names to match database format (e.g., "5a" -> "05A")
+ */
+export function normalizeClassName(className: string): string {
+  if (!className || typeof className !== "string") return className;
+
+  // Extract grade (number) and class letters (supports multiple letters like "fs", "tk")
+  const match = className.match(/^(\d{1,2})([a-zA-Z]*)$/);
+  if (!match) return className;
+
+  const [, grade, letter] = match;
+  // Pad grade with leading zero if single digit, uppercase the letters
+  return `${grade.padStart(2, "0")}${letter.toUpperCase()}`;
+}
+
+/**
+ * Class heading at the start of a line, with the text after it ("5a (25 Schüler) - D: 4h")
+ */
+export function matchClassHeading(line: string): { className: string; rest: string } | null {
+  const match = line.match(CLASS_HEADING_PATTERN);
+  if (!match) return null;
+  return {
+    className: normalizeClassName((match[1] ?? match[2]).replace(/\s+/g, "")),
+    rest: line.slice(match[0].length)
+  };
+}
+
+/**
+ * Splits lines into parts of at most maxLength characters. Every part after the first
+ * starts with the heading line, so the model still knows which class it belongs to.
+ * A single line longer than maxLength stays a part of its own.
+ */
+function splitLines(lines: string[], maxLength: number, heading?: string): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const line of lines) {
+    if (current.length > 0 && length + line.length + 1 > maxLength) {
+      parts.push(current.join("\n"));
+      current = heading ? [heading] : [];
+      length = heading ? heading.length + 1 : 0;
+    }
+    current.push(line);
+    length += line.length + 1;
+  }
+  if (current.length > 0) {
+    parts.push(current.join("\n"));
+  }
+
+  return parts;
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Splits a schedule text into one chunk per class. Text before the first class
+ * heading (teacher lists, legends) becomes the chunk "Allgemein". Without any class
+ * heading the text is split into sections by length.
+ */
+export function splitScheduleText(text: string, maxLength: number = MAX_CHUNK_LENGTH): ScheduleTextChunk[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const blocks: Array<{ label: string; lines: string[] }> = [];
+
+  for (const line of lines) {
+    const heading = matchClassHeading(line);
+    if (heading) {
+      blocks.push({ label: heading.className, lines: [line] });
+    } else if (blocks.length === 0) {
+      blocks.push({ label: "", lines: [line] });
+    } else {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+
+  const classBlocks = blocks.filter(block => block.label);
+  const chunks: Array<{ label: string; text: string }> = [];
+
+  for (const block of blocks) {
+    if (!block.label) {
+      const parts = splitLines(block.lines, maxLength);
+      const baseLabel = classBlocks.length > 0 ? "Allgemein" : "Abschnitt";
+      parts.forEach((part, index) => chunks.push({
+        label: classBlocks.length > 0 && parts.length === 1 ? baseLabel : `${baseLabel} ${index + 1}`,
+        text: part
+      }));
+      continue;
+    }
+
+    const parts = splitLines(block.lines, maxLength, block.lines[0]);
+    parts.forEach((part, index) => chunks.push({
+      label: parts.length > 1 ? `${block.label} (Teil ${index + 1})` : block.label,
+      text: part
+    }));
+  }
+
+  return chunks.map((chunk, index) => ({ index, ...chunk }));
+}
+
+/**
+ * Merges the results of several chunks. Teachers and subjects are matched by short name
+ * (case-insensitive), classes by normalized name, assignments by teacher, class, subject
+ * and semester. Qualifications are combined; the first spelling and non-empty name win.
+ */
+export function mergeParsedScheduleData(results: ParsedScheduleData[]): ParsedScheduleData {
+  const teachers = new Map<string, ParsedScheduleData["teachers"][number]>();
+  const classes = new Map<string, ParsedScheduleData["classes"][number]>();
+  const subjects = new Map<string, ParsedScheduleData["subjects"][number]>();
+  const assignments = new Map<string, ParsedScheduleData["assignments"][number]>();
+
+  for (const result of results) {
+    for (const teacher of result.teachers ?? []) {
+      const key = (teacher.shortName || "").trim().toUpperCase();
+      if (!key) continue;
+      const existing = teachers.get(key);
+      if (!existing) {
+        teachers.set(key, { ...teacher, qualifications: [...(teacher.qualifications ?? [])] });
+        continue;
+      }
+      existing.name = existing.name || teacher.name;
+      existing.qualifications = Array.from(new Set([...existing.qualifications, ...(teacher.qualifications ?? [])]));
+    }
+
+    for (const classItem of result.classes ?? []) {
+      const key = normalizeClassName((classItem.name || "").trim());
+      if (!key) continue;
+      const existing = classes.get(key);
+      if (!existing) {
+        classes.set(key, { ...classItem });
+      } else {
+        existing.grade = existing.grade || classItem.grade;
+        existing.studentCount = existing.studentCount || classItem.studentCount;
+      }
+    }
+
+    for (const subject of result.subjects ?? []) {
+      const key = (subject.shortName || "").trim().toUpperCase();
+      if (!key) continue;
+      const existing = subjects.get(key);
+      if (!existing) {
+        subjects.set(key, { ...subject });
+      } else {
+        existing.name = existing.name || subject.name;
+        existing.category = existing.category || subject.category;
+      }
+    }
+
+    for (const assignment of result.assignments ?? []) {
+      const key = [
+        (assignment.teacherShortName || "").toUpperCase(),
+        normalizeClassName(assignment.className || ""),
+        (assignment.subjectShortName || "").toUpperCase(),
+        assignment.semester || 1
+      ].join("|");
+      if (!assignments.has(key)) {
+        // Refer to the spelling kept for the teacher, class and subject
+        const [teacherKey, classKey, subjectKey] = key.split("|");
+        assignments.set(key, {
+          ...assignment,
+          teacherShortName: teachers.get(teacherKey)?.shortName ?? assignment.teacherShortName,
+          className: classes.get(classKey)?.name ?? assignment.className,
+          subjectShortName: subjects.get(subjectKey)?.shortName ?? assignment.subjectShortName
+        });
+      }
+    }
+  }
+
+  return {
+    teachers: Array.from(teachers.values()),
+    classes: Array.from(classes.values()),
+    subjects: Array.from(subjects.values()),
+    assignments: Array.from(assignments.values())
+  };
+}
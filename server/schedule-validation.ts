@@ -0,0 +1,270 @@
+/**
+ * Validation and repair of schedule data parsed by a language model
+ *
+ * The model answer is never trusted as is. Every record is repaired where the intent
+ * is clear and then checked against the parsed-schedule schemas, which are derived
+ * from the insert schemas of teachers, classes, subjects and assignments.
+ *
+ * Features:
+ * - Class names normalized like the import ("5a" -> "05A")
+ * - Unknown subject short names resolved through the subject mappings of the PDF import
+ *   and the names of existing subjects
+ * - Short names spelled in another case than in the system are corrected
+ * - Impossible hours per assignment rejected, implausible class totals flagged
+ * - Assignments referring to teachers, classes or subjects that exist nowhere rejected
+ */
+
+import type { ZodError } from "zod";
+import {
+  parsedScheduleTeacherSchema,
+  parsedScheduleClassSchema,
+  parsedScheduleSubjectSchema,
+  parsedScheduleAssignmentSchema,
+  MAX_CLASS_HOURS_PER_SEMESTER,
+  type Teacher,
+  type Class,
+  type Subject,
+  type SubjectMapping
+} from "@shared/schema";
+import { normalizeClassName, type ParsedScheduleData } from "./schedule-text-chunks";
+import { PdfLessonParser } from "./pdf-lesson-parser";
+
+// ===== TYPES =====
+
+export type ScheduleRecordSection = "teachers" | "classes" | "subjects" | "assignments";
+
+export interface ScheduleValidationIssue {
+  section: ScheduleRecordSection;
+  index: number;              // position in its section; -1 for records that only exist in the system
+  record: string;             // short description, e.g. "MÜL" or "MÜL · 05A · D (1. HJ)"
+  severity: "error" | "warning" | "repaired";
+  message: string;
+}
+
+export interface ScheduleValidationContext {
+  teachers: Pick<Teacher, "shortName">[];
+  classes: Pick<Class, "name">[];
+  subjects: Pick<Subject, "id" | "name" | "shortName">[];
+  subjectMappings: Pick<SubjectMapping, "pdfSubjectName" | "normalizedName" | "systemSubjectId">[];
+}
+
+export interface ScheduleValidationResult {
+  data: ParsedScheduleData;   // all records, repaired
+  valid: ParsedScheduleData;  // only the records without errors
+  issues: ScheduleValidationIssue[];
+}
+
+// ===== CONSTANTS =====
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  shortName: "Kürzel",
+  qualifications: "Qualifikationen",
+  grade: "Jahrgang",
+  studentCount: "Schülerzahl",
+  category: "Kategorie",
+  teacherShortName: "Lehrkraft",
+  className: "Klasse",
+  subjectShortName: "Fach",
+  hoursPerWeek: "Stunden",
+  semester: "Halbjahr",
+};
+
+const DEFAULT_STUDENT_COUNT = 25;
+
+// ===== HELPER FUNCTIONS =====
+
+function describeZodError(error: ZodError): string {
+  return error.issues
+    .map(issue => {
+      const field = FIELD_LABELS[String(issue.path[0])] ?? issue.path.join(".");
+      return field && !issue.message.startsWith(field) ? `${field}: ${issue.message}` : issue.message;
+    })
+    .join("; ");
+}
+
+function toText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : value === null || value === undefined ? "" : String(value).trim();
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "number" ? value : parseFloat(toText(value).replace(",", "."));
+}
+
+// Case-insensitive lookup that returns the spelling used in the system
+function createSpellingIndex(values: string[]): Map<string, string> {
+  return new Map(values.map(value => [value.toLowerCase(), value]));
+}
+
+/**
+ * Short name of an existing subject for a short name or subject name of the model:
+ * same short name in another case, a subject mapping of the PDF import, or the subject name
+ */
+function createSubjectResolver(context: ScheduleValidationContext) {
+  const byShortName = createSpellingIndex(context.subjects.map(subject => subject.shortName));
+  const byName = new Map(context.subjects.map(subject => [subject.name.toLowerCase(), subject.shortName]));
+  const byId = new Map(context.subjects.map(subject => [subject.id, subject.shortName]));
+  const byMapping = new Map<string, string>();
+  for (const mapping of context.subjectMappings) {
+    const shortName = byId.get(mapping.systemSubjectId);
+    if (!shortName) continue;
+    byMapping.set(mapping.normalizedName.toLowerCase(), shortName);
+    byMapping.set(mapping.pdfSubjectName.toLowerCase(), shortName);
+  }
+
+  return (...candidates: string[]): { shortName: string; via: "system" | "mapping" | "name" } | null => {
+    for (const candidate of candidates.filter(Boolean)) {
+      const lower = candidate.toLowerCase();
+      const normalized = PdfLessonParser.normalizeSubjectName(candidate);
+      const shortName = byShortName.get(lower);
+      if (shortName) return { shortName, via: "system" };
+      const mapped = byMapping.get(lower) ?? byMapping.get(normalized);
+      if (mapped) return { shortName: mapped, via: "mapping" };
+      const named = byName.get(lower) ?? byName.get(normalized);
+      if (named) return { shortName: named, via: "name" };
+    }
+    return null;
+  };
+}
+
+// ===== VALIDATION =====
+
+export function validateParsedScheduleData(input: Partial<ParsedScheduleData>, context: ScheduleValidationContext): ScheduleValidationResult {
+  const issues: ScheduleValidationIssue[] = [];
+  const data: ParsedScheduleData = { teachers: [], classes: [], subjects: [], assignments: [] };
+  const valid: ParsedScheduleData = { teachers: [], classes: [], subjects: [], assignments: [] };
+
+  const issue = (section: ScheduleRecordSection, index: number, record: string, severity: ScheduleValidationIssue["severity"], message: string) => {
+    issues.push({ section, index, record, severity, message });
+  };
+
+  const resolveSubject = createSubjectResolver(context);
+  const systemTeachers = createSpellingIndex(context.teachers.map(teacher => teacher.shortName));
+  const systemClasses = new Set(context.classes.map(classItem => classItem.name));
+
+  // 1. Teachers
+  (input.teachers ?? []).forEach((raw, index) => {
+    let shortName = toText(raw?.shortName);
+    const spelling = systemTeachers.get(shortName.toLowerCase());
+    if (spelling && spelling !== shortName) {
+      issue("teachers", index, shortName, "repaired", `Kürzel an das System angepasst: „${spelling}“`);
+      shortName = spelling;
+    }
+    const teacher = {
+      name: toText(raw?.name),
+      shortName,
+      qualifications: Array.isArray(raw?.qualifications) ? raw.qualifications.map(toText).filter(Boolean) : []
+    };
+    data.teachers.push(teacher);
+
+    const result = parsedScheduleTeacherSchema.safeParse(teacher);
+    if (result.success) {
+      valid.teachers.push(teacher);
+    } else {
+      issue("teachers", index, shortName || `Lehrkraft ${index + 1}`, "error", describeZodError(result.error));
+    }
+  });
+
+  // 2. Classes
+  (input.classes ?? []).forEach((raw, index) => {
+    const name = normalizeClassName(toText(raw?.name));
+    const grade = Number.isFinite(toNumber(raw?.grade)) ? toNumber(raw?.grade) : parseInt(name, 10);
+    const studentCount = raw?.studentCount === null || raw?.studentCount === undefined ? DEFAULT_STUDENT_COUNT : toNumber(raw.studentCount);
+    const classItem = { name, grade, studentCount };
+    data.classes.push(classItem);
+
+    const result = parsedScheduleClassSchema.safeParse(classItem);
+    if (result.success) {
+      valid.classes.push(classItem);
+    } else {
+      issue("classes", index, name || `Klasse ${index + 1}`, "error", describeZodError(result.error));
+    }
+  });
+
+  // 3. Subjects; remembers repaired short names so assignments follow them
+  const subjectRepairs = new Map<string, string>();
+  (input.subjects ?? []).forEach((raw, index) => {
+    const rawShortName = toText(raw?.shortName);
+    const name = toText(raw?.name);
+    const resolved = resolveSubject(rawShortName, name);
+    const shortName = resolved?.shortName ?? rawShortName;
+    if (resolved && resolved.shortName !== rawShortName) {
+      issue("subjects", index, rawShortName || name, "repaired",
+        `Zugeordnet zu „${resolved.shortName}“ (${resolved.via === "mapping" ? "Fachzuordnung" : resolved.via === "name" ? "Fachname" : "Schreibweise"})`);
+    }
+    const subject = { name: name || shortName, shortName, category: toText(raw?.category) || "Nebenfach" };
+    data.subjects.push(subject);
+
+    const result = parsedScheduleSubjectSchema.safeParse(subject);
+    if (!result.success) {
+      issue("subjects", index, shortName || name || `Fach ${index + 1}`, "error", describeZodError(result.error));
+      return;
+    }
+    valid.subjects.push(subject);
+    subjectRepairs.set(rawShortName.toLowerCase(), shortName);
+    if (!resolved) {
+      issue("subjects", index, shortName, "warning", "Fach ist im System unbekannt und wird neu angelegt");
+    }
+  });
+
+  // 4. Assignments, only against records that exist or passed above
+  const knownTeachers = new Map([...Array.from(systemTeachers), ...valid.teachers.map(t => [t.shortName.toLowerCase(), t.shortName] as [string, string])]);
+  const knownClasses = new Set([...Array.from(systemClasses), ...valid.classes.map(c => c.name)]);
+  const parsedSubjects = createSpellingIndex(valid.subjects.map(subject => subject.shortName));
+  const classHours = new Map<string, number>();
+
+  (input.assignments ?? []).forEach((raw, index) => {
+    const rawSubject = toText(raw?.subjectShortName);
+    const resolvedSubject = parsedSubjects.get(rawSubject.toLowerCase())
+      ?? subjectRepairs.get(rawSubject.toLowerCase())
+      ?? resolveSubject(rawSubject)?.shortName;
+    const rawTeacher = toText(raw?.teacherShortName);
+    const assignment = {
+      teacherShortName: knownTeachers.get(rawTeacher.toLowerCase()) ?? rawTeacher,
+      className: normalizeClassName(toText(raw?.className)),
+      subjectShortName: resolvedSubject ?? rawSubject,
+      hoursPerWeek: toNumber(raw?.hoursPerWeek),
+      semester: Number(toText(raw?.semester) || 1)
+    };
+    data.assignments.push(assignment);
+
+    const record = `${assignment.teacherShortName} · ${assignment.className} · ${assignment.subjectShortName} (${assignment.semester}. HJ)`;
+    if (resolvedSubject && resolvedSubject !== rawSubject) {
+      issue("assignments", index, record, "repaired", `Fach „${rawSubject}“ zugeordnet zu „${resolvedSubject}“`);
+    }
+
+    const errors: string[] = [];
+    const result = parsedScheduleAssignmentSchema.safeParse({ ...assignment, semester: String(assignment.semester) });
+    if (!result.success) {
+      errors.push(describeZodError(result.error));
+    }
+    if (assignment.teacherShortName && !knownTeachers.has(assignment.teacherShortName.toLowerCase())) {
+      errors.push(`Lehrkraft „${assignment.teacherShortName}“ ist weder im System noch in den gültigen Daten`);
+    }
+    if (assignment.className && !knownClasses.has(assignment.className)) {
+      errors.push(`Klasse „${assignment.className}“ ist weder im System noch in den gültigen Daten`);
+    }
+    if (assignment.subjectShortName && !resolvedSubject) {
+      errors.push(`Fach „${assignment.subjectShortName}“ ist weder im System noch in den gültigen Daten`);
+    }
+
+    if (errors.length > 0) {
+      issue("assignments", index, record, "error", errors.join("; "));
+      return;
+    }
+    valid.assignments.push(assignment);
+    const key = `${assignment.className}|${assignment.semester}`;
+    classHours.set(key, (classHours.get(key) ?? 0) + assignment.hoursPerWeek);
+  });
+
+  // Class totals are only flagged: team teaching and parallel groups can add up legitimately
+  classHours.forEach((hours, key) => {
+    if (hours <= MAX_CLASS_HOURS_PER_SEMESTER) return;
+    const [className, semester] = key.split("|");
+    const index = data.classes.findIndex(classItem => classItem.name === className);
+    issue("classes", index, className, "warning",
+      `${hours} Wochenstunden im ${semester}. Halbjahr (mehr als ${MAX_CLASS_HOURS_PER_SEMESTER})`);
+  });
+
+  return { data, valid, issues };
+}
@@ -0,0 +1,53 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { setRequestSchool } from "./request-context";
+import { isDevAuthBypass } from "./auth";
+import { SCHOOL_HEADER, getAccessibleSchools, resolveSchoolAccess, type SchoolAccess } from "@shared/school-scope";
+
+// Routes that work without a school (login, profile, choosing a school)
+const SCHOOL_FREE_PATHS = ["/auth/user", "/auth/provider", "/login", "/callback", "/logout", "/invitation", "/schools"];
+
+/**
+ * Schools the user of the request may work in
+ */
+export async function getRequestAccessibleSchools(req: Request): Promise<SchoolAccess[]> {
+  const userId: string | undefined = (req.user as any)?.claims?.sub;
+  const [user, memberships, schools] = await Promise.all([
+    userId ? storage.getUser(userId) : Promise.resolve(undefined),
+    userId ? storage.getUserSchools(userId) : Promise.resolve([]),
+    storage.getSchools(),
+  ]);
+  return getAccessibleSchools(user, memberships, schools, isDevAuthBypass());
+}
+
+/**
+ * Binds every API request to one school: header first, then the school chosen in the session,
+ * then the first accessible school. Storage methods only see data of that school.
+ */
+export async function withSchoolContext(req: Request, res: Response, next: NextFunction) {
+  try {
+    const accessible = await getRequestAccessibleSchools(req);
+    const isSchoolFree = SCHOOL_FREE_PATHS.some(path => req.path.startsWith(path));
+    const requestedSchoolId = req.header(SCHOOL_HEADER);
+    let access = resolveSchoolAccess(accessible, requestedSchoolId);
+
+    // Routes without school data still answer, so the client can replace a stale selection
+    if (!access && requestedSchoolId && !isSchoolFree) {
+      return res.status(403).json({ error: "Kein Zugriff auf diese Schule" });
+    }
+    if (!access) {
+      // A school chosen earlier may no longer be accessible - fall back to the first one
+      access = resolveSchoolAccess(accessible, (req.session as any)?.schoolId) ?? accessible[0];
+    }
+
+    if (access) {
+      setRequestSchool(access.school.id, access.role, access.subjectIds);
+    } else if (!isSchoolFree) {
+      return res.status(403).json({ error: "Sie sind keiner Schule zugeordnet" });
+    }
+    next();
+  } catch (error) {
+    console.error("School check failed:", error);
+    res.status(500).json({ error: "Failed to check school" });
+  }
+}
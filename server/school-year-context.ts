@@ -0,0 +1,97 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { SCHOOL_YEAR_HEADER, SCHOOL_YEAR_QUERY_PARAM, isPastSchoolYear } from "@shared/school-year-scope";
+
+/**
+ * School year requested by the client: query parameter first, then header.
+ * Undefined means "current school year" - storage getters resolve that themselves.
+ */
+export function getRequestSchoolYearId(req: Request): string | undefined {
+  const fromQuery = req.query[SCHOOL_YEAR_QUERY_PARAM];
+  if (typeof fromQuery === "string" && fromQuery) return fromQuery;
+  const fromHeader = req.header(SCHOOL_YEAR_HEADER);
+  return fromHeader || undefined;
+}
+
+// School years a revert touches: the snapshots of the entry and the row as it is now
+async function getAuditEntrySchoolYearIds(entryId: string): Promise<(string | null)[]> {
+  const entry = await storage.getAuditLog(entryId);
+  if (!entry) return [];
+
+  const snapshots = [entry.before, entry.after] as ({ schoolYearId?: string | null } | null)[];
+  const current = entry.entityType === "assignment" ? await storage.getAssignment(entry.entityId)
+    : entry.entityType === "class" ? await storage.getClass(entry.entityId)
+    : undefined;
+  return [...snapshots.map(snapshot => snapshot?.schoolYearId ?? null), current?.schoolYearId ?? null];
+}
+
+// School years of the existing rows a request keyed by id changes (PUT/DELETE /api/assignments/:id, ...)
+async function getTargetRowSchoolYearIds(req: Request): Promise<(string | null)[]> {
+  const segments = `${req.baseUrl}${req.path}`.split("/");
+  const [resource, id] = segments.slice(2, 4);
+  if (!id) return [];
+
+  switch (resource) {
+    case "assignments": {
+      const ids: unknown[] = id === "bulk" && Array.isArray(req.body?.assignmentIds) ? req.body.assignmentIds : [id];
+      const rows = await Promise.all(ids.filter((rowId): rowId is string => typeof rowId === "string").map(rowId => storage.getAssignment(rowId)));
+      return rows.map(row => row?.schoolYearId ?? null);
+    }
+    case "classes":
+      return [(await storage.getClass(id))?.schoolYearId ?? null];
+    case "students":
+      return [(await storage.getStudent(id))?.schoolYearId ?? null];
+    case "team-teaching":
+      return (await storage.getTeamTeachingGroup(id)).map(row => row.schoolYearId);
+    case "admin":
+      // POST /api/admin/audit-logs/:id/revert
+      return id === "audit-logs" && segments[4] ? getAuditEntrySchoolYearIds(segments[4]) : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Rejects writes into a past school year. The target year comes from the request context
+ * or from a schoolYearId in the body; requests without one write into the current year.
+ * Requests keyed by id are also checked against the school year of the row they change,
+ * so leaving out the header does not open a closed year.
+ */
+export async function rejectPastSchoolYearWrites(req: Request, res: Response, next: NextFunction) {
+  if (req.method === "GET" || req.method === "HEAD" || req.method === "OPTIONS") {
+    return next();
+  }
+
+  try {
+    const bodySchoolYearId = typeof req.body?.schoolYearId === "string" ? req.body.schoolYearId : undefined;
+    const schoolYearId = bodySchoolYearId || getRequestSchoolYearId(req);
+    const rowSchoolYearIds = await getTargetRowSchoolYearIds(req);
+    const schoolYearIds = Array.from(new Set(
+      [schoolYearId, ...rowSchoolYearIds].filter((id): id is string => !!id)
+    ));
+    if (schoolYearIds.length === 0) {
+      return next();
+    }
+
+    const [schoolYears, currentSchoolYear] = await Promise.all([
+      Promise.all(schoolYearIds.map(id => storage.getSchoolYear(id))),
+      storage.getCurrentSchoolYear(),
+    ]);
+    for (const schoolYear of schoolYears) {
+      if (!schoolYear) {
+        // Unknown here also covers school years of other schools
+        return res.status(404).json({ error: "Schuljahr nicht gefunden" });
+      }
+      if (isPastSchoolYear(schoolYear, currentSchoolYear)) {
+        return res.status(403).json({
+          error: "Schuljahr ist schreibgeschützt",
+          details: `${schoolYear.name} ist abgeschlossen und kann nur angesehen werden.`,
+        });
+      }
+    }
+    next();
+  } catch (error) {
+    console.error("School year check failed:", error);
+    res.status(500).json({ error: "Failed to check school year" });
+  }
+}
@@ -1,4 +1,6 @@
 import { 
+  schools,
+  userSchools,
   teachers, 
   students, 
   classes, 
@@ -8,10 +10,16 @@ import {
   planstellenScenarios,
   schoolYears,
   users,
+  userCredentials,
   invitations,
   subjectMappings,
+  csvMappingProfiles,
+  teacherConstraints,
+  teacherReductions,
   pdfImports,
   pdfTables,
+  auditLogs,
+  teacherRequests,
   type Teacher, 
   type InsertTeacher,
   type Student,
@@ -35,16 +43,93 @@ import {
   type InsertInvitation,
   type SubjectMapping,
   type InsertSubjectMapping,
+  type CsvMappingProfile,
+  type InsertCsvMappingProfile,
+  type SchildImportType,
+  type TeacherConstraint,
+  type InsertTeacherConstraint,
+  type TeacherReduction,
+  type InsertTeacherReduction,
   type PdfImport,
   type InsertPdfImport,
   type PdfTable,
   type InsertPdfTable,
-  type PlanstellenInput
+  type AuditLog,
+  matrixChangeSets,
+  type MatrixChangeSet,
+  teamTeachingSettings,
+  type TeamTeachingSetting,
+  type UpdateTeamTeachingSetting,
+  type AuditLogQuery,
+  type AuditEntityType,
+  type AuditAction,
+  type PlanstellenInput,
+  type School,
+  type InsertSchool,
+  type SchoolRole,
+  type UserSchool,
+  type TeacherRequest,
+  type TeacherRequestStatus,
+  type InsertTeacherRequest,
+  type ResolveTeacherRequest
 } from "@shared/schema";
+import type { AssignmentChange } from "@shared/assignment-plan-diff";
+import { getValuesToWrite, type CsvImportChanges } from "@shared/csv-import-diff";
+import { getGradeFromClassName } from "@shared/schild-import";
+import { calculatePlanstellen } from "@shared/planstellen-engine";
+import { calculateTeacherCapacity, legacyReductionEntries, toReductionHours } from "@shared/teacher-reductions";
+import { AuditRevertError, matchesSnapshot } from "@shared/audit-log";
+import type { MatrixChangeSetState } from "@shared/matrix-change-set";
+import { validateTeamTeachingShares } from "@shared/team-teaching";
+import { calculateTeacherHours } from "@shared/teacher-workload";
 import { db } from "./db";
-import { eq, sql, desc } from "drizzle-orm";
+import { getCurrentUserId, getCurrentSchoolId } from "./request-context";
+import { eq, sql, desc, lt, gte, and, or, isNull, getTableColumns, type SQL, type AnyColumn } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
 import { randomUUID } from "crypto";
 
+// Tables covered by the audit log
+const AUDIT_TABLES: Record<AuditEntityType, PgTable> = {
+  assignment: assignments,
+  teacher: teachers,
+  class: classes,
+  subject: subjects,
+};
+
+// Tables whose rows belong to one school
+const SCHOOL_SCOPED_TABLES = [
+  schoolYears, teachers, students, classes, subjects, assignments, teamTeachingSettings,
+  teacherConstraints, teacherReductions, planstellenScenarios, planstellen, subjectMappings,
+  pdfImports, pdfTables, matrixChangeSets, auditLogs, teacherRequests, csvMappingProfiles,
+] as const;
+
+interface AuditChange {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before?: object | null;
+  after?: object | null;
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// db itself or a transaction handle
+type AuditWriter = Pick<typeof db, "insert">;
+
+/**
+ * Column values from a logged JSON snapshot; timestamps come back from jsonb as strings
+ */
+function snapshotToRow(table: PgTable, snapshot: Record<string, unknown>): Record<string, unknown> {
+  const columns = getTableColumns(table);
+  const row: Record<string, unknown> = {};
+  Object.entries(snapshot).forEach(([key, value]) => {
+    const column = columns[key];
+    if (!column) return;
+    row[key] = column.columnType === "PgTimestamp" && typeof value === "string" ? new Date(value) : value;
+  });
+  return row;
+}
+
 // School Year Transition Types
 export interface ClassTransition {
   from: Class;
@@ -119,10 +204,22 @@ export interface SchoolYearTransitionValidation {
 }
 
 export interface IStorage {
+  // Schools and memberships
+  getSchools(): Promise<School[]>;
+  getSchool(id: string): Promise<School | undefined>;
+  createSchool(school: InsertSchool): Promise<School>;
+  updateSchool(id: string, school: Partial<InsertSchool>): Promise<School>;
+  getUserSchools(userId: string): Promise<UserSchool[]>;
+  getSchoolMembers(schoolId: string): Promise<(UserSchool & { user: User })[]>;
+  setUserSchoolRole(userId: string, schoolId: string, role: SchoolRole, subjectIds?: string[]): Promise<UserSchool>;
+  removeUserFromSchool(userId: string, schoolId: string): Promise<void>;
+  ensureDefaultSchool(): Promise<School>;
+
   // School Years
   getSchoolYears(): Promise<SchoolYear[]>;
   getSchoolYear(id: string): Promise<SchoolYear | undefined>;
   getCurrentSchoolYear(): Promise<SchoolYear | undefined>;
+  getPreviousSchoolYear(schoolYearId: string): Promise<SchoolYear | undefined>;
   createSchoolYear(schoolYear: InsertSchoolYear): Promise<SchoolYear>;
   updateSchoolYear(id: string, schoolYear: Partial<InsertSchoolYear>): Promise<SchoolYear>;
   deleteSchoolYear(id: string): Promise<void>;
@@ -131,12 +228,13 @@ export interface IStorage {
   // Teachers
   getTeachers(): Promise<Teacher[]>;
   getTeacher(id: string): Promise<Teacher | undefined>;
+  getTeacherByEmail(email: string): Promise<Teacher | undefined>;
   createTeacher(teacher: InsertTeacher): Promise<Teacher>;
   updateTeacher(id: string, teacher: Partial<InsertTeacher>): Promise<Teacher>;
   deleteTeacher(id: string): Promise<void>;
 
   // Students
-  getStudents(): Promise<Student[]>;
+  getStudents(schoolYearId?: string): Promise<Student[]>;
   getStudent(id: string): Promise<Student | undefined>;
   createStudent(student: InsertStudent): Promise<Student>;
   updateStudent(id: string, student: Partial<InsertStudent>): Promise<Student>;
@@ -145,10 +243,10 @@ export interface IStorage {
   getStudentsBySchoolYear(schoolYearId: string): Promise<Student[]>;
 
   // Classes
-  getClasses(): Promise<Class[]>;
-  getClassesByType(type?: string): Promise<Class[]>;
+  getClasses(schoolYearId?: string): Promise<Class[]>;
+  getClassesByType(type?: string, schoolYearId?: string): Promise<Class[]>;
   getClass(id: string): Promise<Class | undefined>;
-  getClassByName(name: string): Promise<Class | undefined>;
+  getClassByName(name: string, schoolYearId?: string): Promise<Class | undefined>;
   createClass(classData: InsertClass): Promise<Class>;
   updateClass(id: string, classData: Partial<InsertClass>): Promise<Class>;
   deleteClass(id: string): Promise<void>;
@@ -163,10 +261,10 @@ export interface IStorage {
   cleanupOrphanedSubjectReferences(): Promise<void>;
 
   // Assignments
-  getAssignments(): Promise<Assignment[]>;
-  getAssignmentsMinimal(semester?: string): Promise<Assignment[]>;
+  getAssignments(schoolYearId?: string): Promise<Assignment[]>;
+  getAssignmentsMinimal(semester?: string, schoolYearId?: string): Promise<Assignment[]>;
   getAssignmentsByClassAndSemesterMinimal(classId: string, semester?: string): Promise<Assignment[]>;
-  getAssignmentsWithRelations(semester?: string): Promise<(Assignment & {
+  getAssignmentsWithRelations(semester?: string, schoolYearId?: string): Promise<(Assignment & {
     _teacher?: { shortName: string; firstName: string; lastName: string } | null;
     _class?: { name: string; grade: number | null } | null;
     _subject?: { name: string; shortName: string; category: string } | null;
@@ -175,15 +273,49 @@ export interface IStorage {
   createAssignment(assignment: InsertAssignment): Promise<Assignment>;
   updateAssignment(id: string, assignment: Partial<InsertAssignment>): Promise<Assignment>;
   deleteAssignment(id: string): Promise<void>;
-  getAssignmentsByTeacher(teacherId: string): Promise<Assignment[]>;
+  getAssignmentsByTeacher(teacherId: string, schoolYearId?: string): Promise<Assignment[]>;
   getAssignmentsByClass(classId: string): Promise<Assignment[]>;
   getAssignmentsBySchoolYear(schoolYearId: string): Promise<Assignment[]>;
+  applyAssignmentChanges(changes: AssignmentChange[], schoolYearId?: string): Promise<{ added: number; removed: number; changed: number }>;
+
+  // Matrix Change Sets (server-side drafts of matrix edits)
+  getOpenMatrixChangeSet(userId: string | null, schoolYearId: string): Promise<MatrixChangeSet | undefined>;
+  saveMatrixChangeSet(userId: string | null, schoolYearId: string, state: MatrixChangeSetState): Promise<MatrixChangeSet>;
+  discardMatrixChangeSet(id: string): Promise<void>;
+  commitMatrixChangeSet(id: string, changes: AssignmentChange[]): Promise<{ added: number; removed: number; changed: number }>;
 
   // Team Teaching Operations
   createTeamTeaching(baseAssignmentId: string, teacherIds: string[]): Promise<Assignment[]>;
   getTeamTeachingGroup(teamTeachingId: string): Promise<Assignment[]>;
   removeFromTeamTeaching(assignmentId: string): Promise<Assignment>;
   validateTeamTeachingGroup(teamTeachingId: string): Promise<{ isValid: boolean; errors: string[] }>;
+  getTeamTeachingSettings(): Promise<TeamTeachingSetting[]>;
+  getTeamTeachingSetting(teamTeachingId: string): Promise<TeamTeachingSetting | undefined>;
+  setTeamTeachingSetting(teamTeachingId: string, setting: UpdateTeamTeachingSetting): Promise<TeamTeachingSetting>;
+
+  // Teacher Constraints (wishes and rules for the optimizer)
+  getTeacherConstraints(teacherId?: string): Promise<TeacherConstraint[]>;
+  createTeacherConstraint(constraint: InsertTeacherConstraint): Promise<TeacherConstraint>;
+  updateTeacherConstraint(id: string, constraint: InsertTeacherConstraint): Promise<TeacherConstraint>;
+  deleteTeacherConstraint(id: string): Promise<void>;
+
+  // Teacher Reductions (Ermäßigungsstunden ledger)
+  getTeacherReductions(teacherId?: string): Promise<TeacherReduction[]>;
+  createTeacherReduction(reduction: InsertTeacherReduction): Promise<TeacherReduction>;
+  updateTeacherReduction(id: string, reduction: InsertTeacherReduction): Promise<TeacherReduction>;
+  deleteTeacherReduction(id: string): Promise<TeacherReduction | undefined>;
+  syncTeacherReductionHours(teacherId?: string): Promise<number>;
+  updateTeacherCurrentHours(updates: { teacherId: string; currentHours: number }[]): Promise<number>;
+
+  // Audit Log
+  getAuditLogs(query: AuditLogQuery): Promise<AuditLog[]>;
+  getAuditLog(id: string): Promise<AuditLog | undefined>;
+  revertAuditLog(id: string): Promise<AuditLog>;
+
+  // Teacher requests (preference and change requests from the personal page)
+  getTeacherRequests(filter?: { teacherId?: string; status?: TeacherRequestStatus }): Promise<TeacherRequest[]>;
+  createTeacherRequest(teacherId: string, request: InsertTeacherRequest): Promise<TeacherRequest>;
+  resolveTeacherRequest(id: string, resolution: ResolveTeacherRequest): Promise<TeacherRequest | undefined>;
 
   // Planstellen
   getPlanstellen(): Promise<Planstelle[]>;
@@ -193,8 +325,15 @@ export interface IStorage {
   deletePlanstelle(id: string): Promise<void>;
   calculatePlanstellenFromInput(input: PlanstellenInput): Promise<Planstelle[]>;
 
+  // Planstellen Scenarios (saved input sets per school year)
+  getPlanstellenScenarios(schoolYearId?: string): Promise<PlanstellenScenario[]>;
+  getPlanstellenScenario(id: string): Promise<PlanstellenScenario | undefined>;
+  createPlanstellenScenario(scenario: InsertPlanstellenScenario): Promise<PlanstellenScenario>;
+  updatePlanstellenScenario(id: string, scenario: Partial<InsertPlanstellenScenario>): Promise<PlanstellenScenario>;
+  deletePlanstellenScenario(id: string): Promise<void>;
+
   // Analytics
-  getTeacherStats(): Promise<{
+  getTeacherStats(schoolYearId?: string): Promise<{
     totalTeachers: number;
     totalStudents: number;
     totalHours: number;
@@ -207,10 +346,13 @@ export interface IStorage {
   bulkCreateClasses(classes: InsertClass[]): Promise<Class[]>;
   bulkCreateSubjects(subjects: InsertSubject[]): Promise<Subject[]>;
 
-  // Authentication operations (required for Replit Auth)
+  // Authentication operations
   getUser(id: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserPasswordHash(userId: string): Promise<string | undefined>;
+  setUserPassword(userId: string, passwordHash: string): Promise<void>;
 
   // Invitation operations
   createInvitation(invitation: InsertInvitation): Promise<Invitation>;
@@ -221,9 +363,14 @@ export interface IStorage {
   executeSchoolYearTransition(fromSchoolYearId: string, toSchoolYearName: string, params: SchoolYearTransitionParams): Promise<SchoolYearTransitionResult>;
   validateSchoolYearTransition(fromSchoolYearId: string): Promise<SchoolYearTransitionValidation>;
   getInvitationByToken(token: string): Promise<Invitation | undefined>;
-  getInvitationByEmail(email: string): Promise<Invitation | undefined>;
+  getInvitationsByEmail(email: string): Promise<Invitation[]>;
   markInvitationUsed(id: string, usedBy: string): Promise<void>;
   deleteInvitation(id: string): Promise<void>;
+  getInvitation(id: string): Promise<Invitation | undefined>;
+  renewInvitation(id: string, invitation: InsertInvitation): Promise<Invitation>;
+  extendInvitation(id: string, expiresAt: Date): Promise<Invitation | undefined>;
+  revokeInvitation(id: string): Promise<Invitation | undefined>;
+  markInvitationSent(id: string): Promise<void>;
 
   // Subject Mappings for PDF Import Intelligence
   getSubjectMappings(): Promise<SubjectMapping[]>;
@@ -234,6 +381,14 @@ export interface IStorage {
   deleteSubjectMapping(id: string): Promise<void>;
   incrementMappingUsage(id: string): Promise<void>;
 
+  // Upsert of CSV imports; the accepted rows are written in one transaction
+  applyCsvImport(changes: CsvImportChanges, schoolYearId?: string): Promise<{ created: number; updated: number }>;
+
+  // Column mapping profiles of the CSV import
+  getCsvMappingProfiles(dataType?: SchildImportType): Promise<CsvMappingProfile[]>;
+  saveCsvMappingProfile(profile: InsertCsvMappingProfile): Promise<CsvMappingProfile>;
+  deleteCsvMappingProfile(id: string): Promise<void>;
+
   // PDF Imports and Tables
   getPdfImports(): Promise<PdfImport[]>;
   getPdfImport(id: string): Promise<PdfImport | undefined>;
@@ -249,13 +404,102 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  // Schools
+  async getSchools(): Promise<School[]> {
+    return await db.select().from(schools).orderBy(schools.name);
+  }
+
+  async getSchool(id: string): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.id, id));
+    return school || undefined;
+  }
+
+  async createSchool(school: InsertSchool): Promise<School> {
+    const [newSchool] = await db.insert(schools).values(school).returning();
+    return newSchool;
+  }
+
+  async updateSchool(id: string, school: Partial<InsertSchool>): Promise<School> {
+    const [updatedSchool] = await db
+      .update(schools)
+      .set(school)
+      .where(eq(schools.id, id))
+      .returning();
+    return updatedSchool;
+  }
+
+  async getUserSchools(userId: string): Promise<UserSchool[]> {
+    return await db.select().from(userSchools).where(eq(userSchools.userId, userId));
+  }
+
+  async getSchoolMembers(schoolId: string): Promise<(UserSchool & { user: User })[]> {
+    const rows = await db
+      .select({ membership: userSchools, user: users })
+      .from(userSchools)
+      .innerJoin(users, eq(userSchools.userId, users.id))
+      .where(eq(userSchools.schoolId, schoolId));
+    return rows.map(row => ({ ...row.membership, user: row.user }));
+  }
+
+  async setUserSchoolRole(userId: string, schoolId: string, role: SchoolRole, subjectIds: string[] = []): Promise<UserSchool> {
+    // Only a Fachkonferenzleitung is bound to subjects
+    const ownSubjectIds = role === "fachkonferenzleitung" ? subjectIds : [];
+    const [membership] = await db
+      .insert(userSchools)
+      .values({ userId, schoolId, role, subjectIds: ownSubjectIds })
+      .onConflictDoUpdate({
+        target: [userSchools.userId, userSchools.schoolId],
+        set: { role, subjectIds: ownSubjectIds },
+      })
+      .returning();
+    return membership;
+  }
+
+  async removeUserFromSchool(userId: string, schoolId: string): Promise<void> {
+    await db.delete(userSchools).where(and(eq(userSchools.userId, userId), eq(userSchools.schoolId, schoolId)));
+  }
+
+  /**
+   * Creates a first school for installations that predate schools and assigns
+   * all rows without school and all users to it. Runs only when that school is created,
+   * so later membership changes (removed members, invitations without school) stay as they are.
+   * Members with the former "user" role keep their rights as Stundenplaner.
+   */
+  async ensureDefaultSchool(): Promise<School> {
+    const [existing] = await this.getSchools();
+    if (existing) {
+      return existing;
+    }
+
+    return await db.transaction(async (tx) => {
+      const [school] = await tx.insert(schools).values({ name: "Meine Schule", shortName: "SCHULE" }).returning();
+      for (const table of SCHOOL_SCOPED_TABLES) {
+        await tx.update(table).set({ schoolId: school.id }).where(isNull(table.schoolId));
+      }
+      await tx.execute(sql`
+        INSERT INTO ${userSchools} (user_id, school_id, role)
+        SELECT ${users.id}, ${school.id}, CASE WHEN ${users.role} = 'admin' THEN 'admin' ELSE 'stundenplaner' END FROM ${users}
+        WHERE NOT EXISTS (SELECT 1 FROM ${userSchools} WHERE ${userSchools.userId} = ${users.id})
+      `);
+      await tx.update(userSchools).set({ role: "stundenplaner" }).where(eq(userSchools.role, "user"));
+      await tx.execute(sql`
+        UPDATE ${invitations} SET school_roles = (
+          SELECT jsonb_agg(CASE WHEN grant_row->>'role' = 'user' THEN jsonb_set(grant_row, '{role}', '"stundenplaner"') ELSE grant_row END)
+          FROM jsonb_array_elements(${invitations.schoolRoles}) AS grant_row
+        )
+        WHERE ${invitations.schoolRoles} @> '[{"role": "user"}]'
+      `);
+      return school;
+    });
+  }
+
   // School Years
   async getSchoolYears(): Promise<SchoolYear[]> {
-    return await db.select().from(schoolYears).orderBy(desc(schoolYears.startDate));
+    return await db.select().from(schoolYears).where(this.schoolScope(schoolYears.schoolId)).orderBy(desc(schoolYears.startDate));
   }
 
   async getSchoolYear(id: string): Promise<SchoolYear | undefined> {
-    const [schoolYear] = await db.select().from(schoolYears).where(eq(schoolYears.id, id));
+    const [schoolYear] = await db.select().from(schoolYears).where(and(eq(schoolYears.id, id), this.schoolScope(schoolYears.schoolId)));
     return schoolYear || undefined;
   }
 
@@ -263,12 +507,92 @@ export class DatabaseStorage implements IStorage {
     const [currentSchoolYear] = await db
       .select()
       .from(schoolYears)
-      .where(eq(schoolYears.isCurrent, true));
+      .where(and(eq(schoolYears.isCurrent, true), this.schoolScope(schoolYears.schoolId)));
     return currentSchoolYear || undefined;
   }
 
+  /**
+   * Filter for the schoolId column of a table: the school of the current request.
+   * Outside of a request (startup, scripts) nothing is filtered.
+   */
+  private schoolScope(column: AnyColumn): SQL | undefined {
+    const schoolId = getCurrentSchoolId();
+    return schoolId ? eq(column, schoolId) : undefined;
+  }
+
+  /**
+   * Filter for the schoolYearId column of a table; defaults to the current school year.
+   * Rows without schoolYearId predate the column and count as current-year data.
+   * Without any configured school year nothing is filtered.
+   */
+  private async schoolYearScope(column: AnyColumn, schoolYearId?: string): Promise<SQL | undefined> {
+    const currentSchoolYear = await this.getCurrentSchoolYear();
+    const targetId = schoolYearId || currentSchoolYear?.id;
+    if (!targetId) return undefined;
+    return targetId === currentSchoolYear?.id
+      ? or(eq(column, targetId), isNull(column))
+      : eq(column, targetId);
+  }
+
+  /**
+   * Ids taken from a request must name rows of the current school; others count as not found,
+   * like the scoped getters do
+   */
+  private async assertSchoolReferences(references: {
+    teacherIds?: (string | null | undefined)[];
+    classId?: string | null;
+    subjectId?: string | null;
+    schoolYearId?: string | null;
+  }): Promise<void> {
+    for (const teacherId of references.teacherIds ?? []) {
+      if (teacherId && !(await this.getTeacher(teacherId))) {
+        throw new Error(`Lehrkraft ${teacherId} nicht gefunden`);
+      }
+    }
+    if (references.classId && !(await this.getClass(references.classId))) {
+      throw new Error(`Klasse ${references.classId} nicht gefunden`);
+    }
+    if (references.subjectId && !(await this.getSubject(references.subjectId))) {
+      throw new Error(`Fach ${references.subjectId} nicht gefunden`);
+    }
+    if (references.schoolYearId && !(await this.getSchoolYear(references.schoolYearId))) {
+      throw new Error(`Schuljahr ${references.schoolYearId} nicht gefunden`);
+    }
+  }
+
+  /**
+   * Writes audit entries for the logged-in user of the current request.
+   * Pass the transaction handle so the entries roll back with the change.
+   */
+  private async recordAudit(changes: AuditChange[], writer: AuditWriter = db): Promise<void> {
+    if (changes.length === 0) return;
+    const userId = getCurrentUserId();
+    await writer.insert(auditLogs).values(changes.map(change => ({
+      entityType: change.entityType,
+      entityId: change.entityId,
+      action: change.action,
+      userId,
+      schoolId: getCurrentSchoolId(),
+      before: (change.before ?? null) as Record<string, unknown> | null,
+      after: (change.after ?? null) as Record<string, unknown> | null,
+    })));
+  }
+
+  async getPreviousSchoolYear(schoolYearId: string): Promise<SchoolYear | undefined> {
+    const schoolYear = await this.getSchoolYear(schoolYearId);
+    if (!schoolYear) return undefined;
+
+    const [previousSchoolYear] = await db
+      .select()
+      .from(schoolYears)
+      .where(and(lt(schoolYears.startDate, schoolYear.startDate), this.schoolScope(schoolYears.schoolId)))
+      .orderBy(desc(schoolYears.startDate))
+      .limit(1);
+    return previousSchoolYear || undefined;
+  }
+
   async createSchoolYear(schoolYear: InsertSchoolYear): Promise<SchoolYear> {
-    const [newSchoolYear] = await db.insert(schoolYears).values(schoolYear).returning();
+    const [newSchoolYear] = await db.insert(schoolYears).values({ ...schoolYear, schoolId: getCurrentSchoolId() }).returning();
     return newSchoolYear;
   }
 
@@ -276,7 +600,7 @@ export class DatabaseStorage implements IStorage {
     const [updatedSchoolYear] = await db
       .update(schoolYears)
       .set(schoolYear)
-      .where(eq(schoolYears.id, id))
+      .where(and(eq(schoolYears.id, id), this.schoolScope(schoolYears.schoolId)))
       .returning();
     return updatedSchoolYear;
   }
@@ -313,7 +637,7 @@ export class DatabaseStorage implements IStorage {
       }
 
       // Safe to delete if no dependencies
-      await db.delete(schoolYears).where(eq(schoolYears.id, id));
+      await db.delete(schoolYears).where(and(eq(schoolYears.id, id), this.schoolScope(schoolYears.schoolId)));
     } catch (error: any) {
       // Handle database-level foreign key constraint violations
       if (error.code === '23503') {
@@ -331,14 +655,14 @@ export class DatabaseStorage implements IStorage {
   async setCurrentSchoolYear(id: string): Promise<SchoolYear> {
     // Use a transaction to ensure atomicity and handle potential unique constraint violations
     const result = await db.transaction(async (tx) => {
-      // First, set all school years to not current
-      await tx.update(schoolYears).set({ isCurrent: false });
+      // First, set all school years of the school to not current
+      await tx.update(schoolYears).set({ isCurrent: false }).where(this.schoolScope(schoolYears.schoolId));
       
       // Then set the specified school year as current
       const [updatedSchoolYear] = await tx
         .update(schoolYears)
         .set({ isCurrent: true })
-        .where(eq(schoolYears.id, id))
+        .where(and(eq(schoolYears.id, id), this.schoolScope(schoolYears.schoolId)))
         .returning();
       
       if (!updatedSchoolYear) {
@@ -354,21 +678,32 @@ export class DatabaseStorage implements IStorage {
   // Teachers
   async getTeachers(): Promise<Teacher[]> {
     // Ultra-fast query with minimal ordering
-    return await db.select().from(teachers);
+    return await db.select().from(teachers).where(this.schoolScope(teachers.schoolId));
   }
 
   async getTeacher(id: string): Promise<Teacher | undefined> {
-    const [teacher] = await db.select().from(teachers).where(eq(teachers.id, id));
+    const [teacher] = await db.select().from(teachers).where(and(eq(teachers.id, id), this.schoolScope(teachers.schoolId)));
+    return teacher || undefined;
+  }
+
+  // Links a logged-in user to their teacher record; email addresses are compared case-insensitively
+  async getTeacherByEmail(email: string): Promise<Teacher | undefined> {
+    const [teacher] = await db.select().from(teachers).where(and(
+      sql`lower(${teachers.email}) = ${email.trim().toLowerCase()}`,
+      this.schoolScope(teachers.schoolId)
+    ));
     return teacher || undefined;
   }
 
   async createTeacher(teacher: InsertTeacher): Promise<Teacher> {
     const [newTeacher] = await db.insert(teachers).values({
       ...teacher,
+      schoolId: getCurrentSchoolId(),
       subjects: teacher.subjects as string[],
       qualifications: teacher.qualifications as string[],
       reductionHours: teacher.reductionHours as any || {}
     }).returning();
+    await this.recordAudit([{ entityType: "teacher", entityId: newTeacher.id, action: "create", after: newTeacher }]);
     return newTeacher;
   }
 
@@ -384,25 +719,32 @@ export class DatabaseStorage implements IStorage {
       updateData.reductionHours = teacher.reductionHours as any;
     }
     
+    const before = await this.getTeacher(id);
     const [updatedTeacher] = await db
       .update(teachers)
       .set(updateData)
-      .where(eq(teachers.id, id))
+      .where(and(eq(teachers.id, id), this.schoolScope(teachers.schoolId)))
       .returning();
+    if (before && updatedTeacher) {
+      await this.recordAudit([{ entityType: "teacher", entityId: id, action: "update", before, after: updatedTeacher }]);
+    }
     return updatedTeacher;
   }
 
   async deleteTeacher(id: string): Promise<void> {
     try {
       console.log("Storage: Starting teacher deletion for ID:", id);
+      if (!(await this.getTeacher(id))) return;
       
       // First delete all assignments for this teacher
       console.log("Storage: Deleting assignments...");
-      const deleteAssignmentsResult = await db.delete(assignments).where(eq(assignments.teacherId, id));
-      console.log("Storage: Deleted assignments:", deleteAssignmentsResult);
+      const deletedAssignments = await db.delete(assignments).where(eq(assignments.teacherId, id)).returning();
+      console.log("Storage: Deleted assignments:", deletedAssignments.length);
       
       // Also remove teacher as class teacher from classes
       console.log("Storage: Updating classes (removing as class teacher)...");
+      const affectedClasses = await db.select().from(classes)
+        .where(or(eq(classes.classTeacher1Id, id), eq(classes.classTeacher2Id, id)));
       const updateClasses1 = await db.update(classes)
         .set({ classTeacher1Id: null })
         .where(eq(classes.classTeacher1Id, id));
@@ -415,8 +757,24 @@ export class DatabaseStorage implements IStorage {
       
       // Then delete the teacher
       console.log("Storage: Deleting teacher...");
-      const deleteTeacherResult = await db.delete(teachers).where(eq(teachers.id, id));
-      console.log("Storage: Deleted teacher:", deleteTeacherResult);
+      const deletedTeachers = await db.delete(teachers).where(eq(teachers.id, id)).returning();
+      console.log("Storage: Deleted teacher:", deletedTeachers.length);
+
+      await this.recordAudit([
+        ...deletedAssignments.map(a => ({ entityType: "assignment" as const, entityId: a.id, action: "delete" as const, before: a })),
+        ...affectedClasses.map(c => ({
+          entityType: "class" as const,
+          entityId: c.id,
+          action: "update" as const,
+          before: c,
+          after: {
+            ...c,
+            classTeacher1Id: c.classTeacher1Id === id ? null : c.classTeacher1Id,
+            classTeacher2Id: c.classTeacher2Id === id ? null : c.classTeacher2Id,
+          },
+        })),
+        ...deletedTeachers.map(t => ({ entityType: "teacher" as const, entityId: t.id, action: "delete" as const, before: t })),
+      ]);
       
       console.log("Storage: Teacher deletion completed successfully");
     } catch (error) {
@@ -426,12 +784,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Students
-  async getStudents(): Promise<Student[]> {
-    return await db.select().from(students).orderBy(students.lastName);
+  async getStudents(schoolYearId?: string): Promise<Student[]> {
+    const scope = await this.schoolYearScope(students.schoolYearId, schoolYearId);
+    return await db.select().from(students).where(and(scope, this.schoolScope(students.schoolId))).orderBy(students.lastName);
   }
 
   async getStudent(id: string): Promise<Student | undefined> {
-    const [student] = await db.select().from(students).where(eq(students.id, id));
+    const [student] = await db.select().from(students).where(and(eq(students.id, id), this.schoolScope(students.schoolId)));
     return student || undefined;
   }
 
@@ -443,13 +802,13 @@ export class DatabaseStorage implements IStorage {
       const currentSchoolYear = await this.getCurrentSchoolYear();
       if (!currentSchoolYear) {
         throw new Error(
-          "Keine aktuelle Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr."
+          "Kein aktuelles Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr."
         );
       }
       finalStudentData.schoolYearId = currentSchoolYear.id;
     }
     
-    const [newStudent] = await db.insert(students).values(finalStudentData).returning();
+    const [newStudent] = await db.insert(students).values({ ...finalStudentData, schoolId: getCurrentSchoolId() }).returning();
     return newStudent;
   }
 
@@ -457,38 +816,40 @@ export class DatabaseStorage implements IStorage {
     const [updatedStudent] = await db
       .update(students)
       .set(student)
-      .where(eq(students.id, id))
+      .where(and(eq(students.id, id), this.schoolScope(students.schoolId)))
       .returning();
     return updatedStudent;
   }
 
   async deleteStudent(id: string): Promise<void> {
-    await db.delete(students).where(eq(students.id, id));
+    await db.delete(students).where(and(eq(students.id, id), this.schoolScope(students.schoolId)));
   }
 
   async getStudentsByClass(classId: string): Promise<Student[]> {
-    return await db.select().from(students).where(eq(students.classId, classId));
+    return await db.select().from(students).where(and(eq(students.classId, classId), this.schoolScope(students.schoolId)));
   }
 
   async getStudentsBySchoolYear(schoolYearId: string): Promise<Student[]> {
-    return await db.select().from(students).where(eq(students.schoolYearId, schoolYearId));
+    return await db.select().from(students).where(and(eq(students.schoolYearId, schoolYearId), this.schoolScope(students.schoolId)));
   }
 
   // Classes
-  async getClasses(): Promise<Class[]> {
+  async getClasses(schoolYearId?: string): Promise<Class[]> {
     // Ultra-fast query without ordering
-    return await db.select().from(classes);
+    const scope = await this.schoolYearScope(classes.schoolYearId, schoolYearId);
+    return await db.select().from(classes).where(and(scope, this.schoolScope(classes.schoolId)));
   }
 
-  async getClassesByType(type?: string): Promise<Class[]> {
+  async getClassesByType(type?: string, schoolYearId?: string): Promise<Class[]> {
     if (!type) {
-      return await this.getClasses();
+      return await this.getClasses(schoolYearId);
     }
-    return await db.select().from(classes).where(eq(classes.type, type));
+    const scope = await this.schoolYearScope(classes.schoolYearId, schoolYearId);
+    return await db.select().from(classes).where(and(eq(classes.type, type), scope, this.schoolScope(classes.schoolId)));
   }
 
   async getClass(id: string): Promise<Class | undefined> {
-    const [classData] = await db.select().from(classes).where(eq(classes.id, id));
+    const [classData] = await db.select().from(classes).where(and(eq(classes.id, id), this.schoolScope(classes.schoolId)));
     return classData || undefined;
   }
 
@@ -500,60 +861,79 @@ export class DatabaseStorage implements IStorage {
       const currentSchoolYear = await this.getCurrentSchoolYear();
       if (!currentSchoolYear) {
         throw new Error(
-          "Keine aktuelle Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr."
+          "Kein aktuelles Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr."
         );
       }
       finalClassData.schoolYearId = currentSchoolYear.id;
     }
     
-    const [newClass] = await db.insert(classes).values(finalClassData).returning();
+    const [newClass] = await db.insert(classes).values({ ...finalClassData, schoolId: getCurrentSchoolId() }).returning();
+    await this.recordAudit([{ entityType: "class", entityId: newClass.id, action: "create", after: newClass }]);
     return newClass;
   }
 
   async updateClass(id: string, classData: Partial<InsertClass>): Promise<Class> {
+    const before = await this.getClass(id);
     const [updatedClass] = await db
       .update(classes)
       .set(classData)
-      .where(eq(classes.id, id))
+      .where(and(eq(classes.id, id), this.schoolScope(classes.schoolId)))
       .returning();
+    if (before && updatedClass) {
+      await this.recordAudit([{ entityType: "class", entityId: id, action: "update", before, after: updatedClass }]);
+    }
     return updatedClass;
   }
 
   async deleteClass(id: string): Promise<void> {
-    await db.delete(classes).where(eq(classes.id, id));
+    // Assignments are removed by the foreign key cascade - log them before they disappear
+    const classAssignments = await this.getAssignmentsByClass(id);
+    const [deletedClass] = await db.delete(classes).where(and(eq(classes.id, id), this.schoolScope(classes.schoolId))).returning();
+    if (deletedClass) {
+      await this.recordAudit([
+        ...classAssignments.map(a => ({ entityType: "assignment" as const, entityId: a.id, action: "delete" as const, before: a })),
+        { entityType: "class", entityId: id, action: "delete", before: deletedClass },
+      ]);
+    }
   }
 
-  async getClassByName(name: string): Promise<Class | undefined> {
-    const [classRecord] = await db.select().from(classes).where(eq(classes.name, name));
+  async getClassByName(name: string, schoolYearId?: string): Promise<Class | undefined> {
+    const scope = await this.schoolYearScope(classes.schoolYearId, schoolYearId);
+    const [classRecord] = await db.select().from(classes).where(and(eq(classes.name, name), scope, this.schoolScope(classes.schoolId)));
     return classRecord || undefined;
   }
 
   async getClassesBySchoolYear(schoolYearId: string): Promise<Class[]> {
-    return await db.select().from(classes).where(eq(classes.schoolYearId, schoolYearId));
+    return await db.select().from(classes).where(and(eq(classes.schoolYearId, schoolYearId), this.schoolScope(classes.schoolId)));
   }
 
   // Subjects
   async getSubjects(): Promise<Subject[]> {
     // Ultra-fast query without ordering  
-    return await db.select().from(subjects);
+    return await db.select().from(subjects).where(this.schoolScope(subjects.schoolId));
   }
 
   async getSubject(id: string): Promise<Subject | undefined> {
-    const [subject] = await db.select().from(subjects).where(eq(subjects.id, id));
+    const [subject] = await db.select().from(subjects).where(and(eq(subjects.id, id), this.schoolScope(subjects.schoolId)));
     return subject || undefined;
   }
 
   async createSubject(subject: InsertSubject): Promise<Subject> {
-    const [newSubject] = await db.insert(subjects).values(subject).returning();
+    const [newSubject] = await db.insert(subjects).values({ ...subject, schoolId: getCurrentSchoolId() }).returning();
+    await this.recordAudit([{ entityType: "subject", entityId: newSubject.id, action: "create", after: newSubject }]);
     return newSubject;
   }
 
   async updateSubject(id: string, subject: Partial<InsertSubject>): Promise<Subject> {
+    const before = await this.getSubject(id);
     const [updatedSubject] = await db
       .update(subjects)
       .set(subject)
-      .where(eq(subjects.id, id))
+      .where(and(eq(subjects.id, id), this.schoolScope(subjects.schoolId)))
       .returning();
+    if (before && updatedSubject) {
+      await this.recordAudit([{ entityType: "subject", entityId: id, action: "update", before, after: updatedSubject }]);
+    }
     return updatedSubject;
   }
 
@@ -579,6 +959,7 @@ export class DatabaseStorage implements IStorage {
         ARRAY[]::text[]
       )
       WHERE subjects && ARRAY[${id}, ${subjectToDelete.shortName}, ${subjectToDelete.name}]::text[]
+        AND ${this.schoolScope(teachers.schoolId) ?? sql`TRUE`}
     `);
 
     // OPTIMIZED: Batch cleanup classes using JSONB operations
@@ -592,10 +973,16 @@ export class DatabaseStorage implements IStorage {
           - ${subjectToDelete.name}
       )
       WHERE subject_hours ?| ARRAY[${id}, ${subjectToDelete.shortName}, ${subjectToDelete.name}]
+        AND ${this.schoolScope(classes.schoolId) ?? sql`TRUE`}
     `);
 
     // Finally, delete the subject itself (assignments will be cascade deleted automatically)
+    const subjectAssignments = await db.select().from(assignments).where(eq(assignments.subjectId, id));
     await db.delete(subjects).where(eq(subjects.id, id));
+    await this.recordAudit([
+      ...subjectAssignments.map(a => ({ entityType: "assignment" as const, entityId: a.id, action: "delete" as const, before: a })),
+      { entityType: "subject", entityId: id, action: "delete", before: subjectToDelete },
+    ]);
   }
 
   async cleanupOrphanedSubjectReferences(): Promise<void> {
@@ -617,6 +1004,7 @@ export class DatabaseStorage implements IStorage {
         WHERE elem = ANY(${validSubjectRefs}::text[])
       )
       WHERE subjects IS NOT NULL
+        AND ${this.schoolScope(teachers.schoolId) ?? sql`TRUE`}
         AND EXISTS (
           SELECT 1 FROM unnest(subjects) AS elem
           WHERE elem != ALL(${validSubjectRefs}::text[])
@@ -637,6 +1025,7 @@ export class DatabaseStorage implements IStorage {
         '{}'::jsonb
       )
       WHERE subject_hours IS NOT NULL
+        AND ${this.schoolScope(classes.schoolId) ?? sql`TRUE`}
         AND EXISTS (
           SELECT 1 FROM jsonb_object_keys(subject_hours) AS key
           WHERE key != ALL(${validSubjectRefs}::text[])
@@ -645,10 +1034,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Assignments - Optimized with JOIN to avoid N+1 problem
-  async getAssignments(): Promise<Assignment[]> {
+  async getAssignments(schoolYearId?: string): Promise<Assignment[]> {
+    const scope = await this.schoolYearScope(assignments.schoolYearId, schoolYearId);
     return await db
       .select()
       .from(assignments)
+      .where(and(scope, this.schoolScope(assignments.schoolId)))
       .orderBy(desc(assignments.createdAt));
   }
 
@@ -658,7 +1049,7 @@ export class DatabaseStorage implements IStorage {
     console.log(`[PERF] Starting class-specific assignments query (class: ${classId}, semester: ${semester})`);
     
     try {
-      let query = db.select({
+      const query = db.select({
         id: assignments.id,
         teacherId: assignments.teacherId,
         classId: assignments.classId, 
@@ -666,16 +1057,18 @@ export class DatabaseStorage implements IStorage {
         hoursPerWeek: assignments.hoursPerWeek,
         semester: assignments.semester,
         isOptimized: assignments.isOptimized,
+        isLocked: assignments.isLocked,
         teamTeachingId: assignments.teamTeachingId,
         schoolYearId: assignments.schoolYearId,
+        schoolId: assignments.schoolId,
         createdAt: assignments.createdAt
       })
       .from(assignments)
-      .where(eq(assignments.classId, classId));
-      
-      if (semester) {
-        query = query.where(eq(assignments.semester, semester));
-      }
+      .where(and(
+        eq(assignments.classId, classId),
+        semester ? eq(assignments.semester, semester) : undefined,
+        this.schoolScope(assignments.schoolId)
+      ));
       
       const result = await query;
       console.log(`[PERF] Class-specific assignments query completed in ${Date.now() - startTime}ms`);
@@ -687,7 +1080,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Minimal assignment data for performance-critical operations (e.g., assignment matrix)
-  async getAssignmentsMinimal(semester?: string): Promise<Assignment[]> {
+  async getAssignmentsMinimal(semester?: string, schoolYearId?: string): Promise<Assignment[]> {
+    const scope = await this.schoolYearScope(assignments.schoolYearId, schoolYearId);
     // Fast minimal query - only select what's needed, no joins
     const query = db.select({
       id: assignments.id,
@@ -697,24 +1091,32 @@ export class DatabaseStorage implements IStorage {
       hoursPerWeek: assignments.hoursPerWeek,
       semester: assignments.semester,
       isOptimized: assignments.isOptimized,
+      isLocked: assignments.isLocked,
       teamTeachingId: assignments.teamTeachingId,
       schoolYearId: assignments.schoolYearId,
+      schoolId: assignments.schoolId,
       createdAt: assignments.createdAt
     }).from(assignments);
+    const schoolScope = this.schoolScope(assignments.schoolId);
     
     if (semester) {
-      return await query.where(eq(assignments.semester, semester));
+      return await query.where(and(eq(assignments.semester, semester), scope, schoolScope));
     }
     
-    return await query;
+    return await query.where(and(scope, schoolScope));
   }
 
   // Optimized method with pre-loaded related data for frontend performance
-  async getAssignmentsWithRelations(semester?: string): Promise<(Assignment & {
+  async getAssignmentsWithRelations(semester?: string, schoolYearId?: string): Promise<(Assignment & {
     _teacher?: { shortName: string; firstName: string; lastName: string } | null;
     _class?: { name: string; grade: number | null } | null;
     _subject?: { name: string; shortName: string; category: string } | null;
   })[]> {
+    const scope = and(
+      await this.schoolYearScope(assignments.schoolYearId, schoolYearId),
+      this.schoolScope(assignments.schoolId)
+    );
+
     // Build base query with joins
     const baseQuery = db
       .select({
@@ -726,8 +1128,10 @@ export class DatabaseStorage implements IStorage {
         hoursPerWeek: assignments.hoursPerWeek,
         semester: assignments.semester,
         isOptimized: assignments.isOptimized,
+        isLocked: assignments.isLocked,
         teamTeachingId: assignments.teamTeachingId,
         schoolYearId: assignments.schoolYearId,
+        schoolId: assignments.schoolId,
         createdAt: assignments.createdAt,
         // Related data to avoid N+1 queries
         teacherShortName: teachers.shortName,
@@ -746,8 +1150,8 @@ export class DatabaseStorage implements IStorage {
 
     // Apply semester filter and execute query
     const result = semester 
-      ? await baseQuery.where(eq(assignments.semester, semester)).orderBy(desc(assignments.createdAt))
-      : await baseQuery.orderBy(desc(assignments.createdAt));
+      ? await baseQuery.where(and(eq(assignments.semester, semester), scope)).orderBy(desc(assignments.createdAt))
+      : await baseQuery.where(scope).orderBy(desc(assignments.createdAt));
 
     // Transform result to match expected interface
     return result.map(row => ({
@@ -758,8 +1162,10 @@ export class DatabaseStorage implements IStorage {
       hoursPerWeek: row.hoursPerWeek,
       semester: row.semester,
       isOptimized: row.isOptimized,
+      isLocked: row.isLocked,
       teamTeachingId: row.teamTeachingId,
       schoolYearId: row.schoolYearId,
+      schoolId: row.schoolId,
       createdAt: row.createdAt,
       _teacher: row.teacherShortName ? {
         shortName: row.teacherShortName,
@@ -779,11 +1185,18 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAssignment(id: string): Promise<Assignment | undefined> {
-    const [assignment] = await db.select().from(assignments).where(eq(assignments.id, id));
+    const [assignment] = await db.select().from(assignments).where(and(eq(assignments.id, id), this.schoolScope(assignments.schoolId)));
     return assignment || undefined;
   }
 
   async createAssignment(assignment: InsertAssignment): Promise<Assignment> {
+    await this.assertSchoolReferences({
+      teacherIds: [assignment.teacherId],
+      classId: assignment.classId,
+      subjectId: assignment.subjectId,
+      schoolYearId: assignment.schoolYearId,
+    });
+
     // Ensure schoolYearId is set by auto-assigning current school year if missing
     let finalAssignmentData = { ...assignment };
     
@@ -791,47 +1204,332 @@ export class DatabaseStorage implements IStorage {
       const currentSchoolYear = await this.getCurrentSchoolYear();
       if (!currentSchoolYear) {
         throw new Error(
-          "Keine aktuelle Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr."
+          "Kein aktuelles Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr."
         );
       }
       finalAssignmentData.schoolYearId = currentSchoolYear.id;
     }
     
-    const [newAssignment] = await db.insert(assignments).values(finalAssignmentData).returning();
+    const [newAssignment] = await db.insert(assignments).values({ ...finalAssignmentData, schoolId: getCurrentSchoolId() }).returning();
+    await this.recordAudit([{ entityType: "assignment", entityId: newAssignment.id, action: "create", after: newAssignment }]);
     return newAssignment;
   }
 
   async updateAssignment(id: string, assignment: Partial<InsertAssignment>): Promise<Assignment> {
+    await this.assertSchoolReferences({
+      teacherIds: [assignment.teacherId],
+      classId: assignment.classId,
+      subjectId: assignment.subjectId,
+      schoolYearId: assignment.schoolYearId,
+    });
+    const before = await this.getAssignment(id);
     const [updatedAssignment] = await db
       .update(assignments)
       .set(assignment)
-      .where(eq(assignments.id, id))
+      .where(and(eq(assignments.id, id), this.schoolScope(assignments.schoolId)))
       .returning();
+    if (before && updatedAssignment) {
+      await this.recordAudit([{ entityType: "assignment", entityId: id, action: "update", before, after: updatedAssignment }]);
+    }
     return updatedAssignment;
   }
 
   async deleteAssignment(id: string): Promise<void> {
-    await db.delete(assignments).where(eq(assignments.id, id));
+    const [deletedAssignment] = await db.delete(assignments).where(and(eq(assignments.id, id), this.schoolScope(assignments.schoolId))).returning();
+    if (deletedAssignment) {
+      await this.recordAudit([{ entityType: "assignment", entityId: id, action: "delete", before: deletedAssignment }]);
+    }
   }
 
-  async getAssignmentsByTeacher(teacherId: string): Promise<Assignment[]> {
-    return await db.select().from(assignments).where(eq(assignments.teacherId, teacherId));
+  async getAssignmentsByTeacher(teacherId: string, schoolYearId?: string): Promise<Assignment[]> {
+    const scope = await this.schoolYearScope(assignments.schoolYearId, schoolYearId);
+    return await db.select().from(assignments).where(and(eq(assignments.teacherId, teacherId), scope, this.schoolScope(assignments.schoolId)));
   }
 
   async getAssignmentsByClass(classId: string): Promise<Assignment[]> {
-    return await db.select().from(assignments).where(eq(assignments.classId, classId));
+    return await db.select().from(assignments).where(and(eq(assignments.classId, classId), this.schoolScope(assignments.schoolId)));
   }
 
   async getAssignmentsBySchoolYear(schoolYearId: string): Promise<Assignment[]> {
-    return await db.select().from(assignments).where(eq(assignments.schoolYearId, schoolYearId));
+    return await db.select().from(assignments).where(and(eq(assignments.schoolYearId, schoolYearId), this.schoolScope(assignments.schoolId)));
+  }
+
+  // Apply a confirmed optimization diff atomically - stale rows abort the whole change set
+  async applyAssignmentChanges(changes: AssignmentChange[], schoolYearId?: string): Promise<{ added: number; removed: number; changed: number }> {
+    const targetSchoolYear = await this.getTargetSchoolYearForAdds(changes, schoolYearId);
+    return await db.transaction(async (tx) => this.writeAssignmentChanges(tx, changes, targetSchoolYear, true));
+  }
+
+  private async getTargetSchoolYearForAdds(changes: AssignmentChange[], schoolYearId?: string): Promise<SchoolYear | undefined> {
+    if (!changes.some(c => c.action === 'add')) return undefined;
+    return schoolYearId ? await this.getSchoolYear(schoolYearId) : await this.getCurrentSchoolYear();
+  }
+
+  // Shared by optimizer results and matrix change sets; stale rows abort the surrounding transaction
+  private async writeAssignmentChanges(
+    tx: DbTransaction,
+    changes: AssignmentChange[],
+    targetSchoolYear: SchoolYear | undefined,
+    isOptimized: boolean
+  ): Promise<{ added: number; removed: number; changed: number }> {
+    const result = { added: 0, removed: 0, changed: 0 };
+    const auditChanges: AuditChange[] = [];
+
+    for (const change of changes) {
+      if (change.action !== 'remove') {
+        await this.assertSchoolReferences({ teacherIds: [change.teacherId], classId: change.classId, subjectId: change.subjectId });
+      }
+      if (change.action === 'add') {
+        if (!targetSchoolYear) {
+          throw new Error("Kein aktuelles Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr.");
+        }
+        const [created] = await tx.insert(assignments).values({
+          teacherId: change.teacherId,
+          classId: change.classId,
+          subjectId: change.subjectId,
+          hoursPerWeek: change.hoursPerWeek.toString(),
+          semester: change.semester,
+          isOptimized,
+          schoolYearId: targetSchoolYear.id,
+          schoolId: getCurrentSchoolId(),
+        }).returning();
+        auditChanges.push({ entityType: "assignment", entityId: created.id, action: "create", after: created });
+        result.added++;
+        continue;
+      }
+
+      if (!change.assignmentId) {
+        throw new Error(`Änderung ohne Zuweisungs-ID: ${change.action}`);
+      }
+      const [current] = await tx.select().from(assignments).where(and(eq(assignments.id, change.assignmentId), this.schoolScope(assignments.schoolId)));
+      if (!current || current.teacherId !== change.previousTeacherId) {
+        throw new Error(`Zuweisung ${change.assignmentId} wurde zwischenzeitlich geändert`);
+      }
+      if (current.isLocked) {
+        throw new Error(`Zuweisung ${change.assignmentId} ist gesperrt`);
+      }
+
+      if (change.action === 'remove') {
+        await tx.delete(assignments).where(eq(assignments.id, change.assignmentId));
+        auditChanges.push({ entityType: "assignment", entityId: current.id, action: "delete", before: current });
+        result.removed++;
+      } else {
+        const [updated] = await tx.update(assignments)
+          .set({ teacherId: change.teacherId, hoursPerWeek: change.hoursPerWeek.toString(), isOptimized })
+          .where(eq(assignments.id, change.assignmentId))
+          .returning();
+        auditChanges.push({ entityType: "assignment", entityId: current.id, action: "update", before: current, after: updated });
+        result.changed++;
+      }
+    }
+
+    await this.recordAudit(auditChanges, tx);
+    return result;
+  }
+
+  // Matrix Change Sets
+  async getOpenMatrixChangeSet(userId: string | null, schoolYearId: string): Promise<MatrixChangeSet | undefined> {
+    const [changeSet] = await db.select().from(matrixChangeSets).where(and(
+      userId ? eq(matrixChangeSets.userId, userId) : isNull(matrixChangeSets.userId),
+      eq(matrixChangeSets.schoolYearId, schoolYearId),
+      eq(matrixChangeSets.status, "draft"),
+      this.schoolScope(matrixChangeSets.schoolId),
+    ));
+    return changeSet || undefined;
+  }
+
+  async saveMatrixChangeSet(userId: string | null, schoolYearId: string, state: MatrixChangeSetState): Promise<MatrixChangeSet> {
+    const existing = await this.getOpenMatrixChangeSet(userId, schoolYearId);
+    if (existing) {
+      const [updated] = await db.update(matrixChangeSets)
+        .set({ edits: state.edits, position: state.position, updatedAt: new Date() })
+        .where(eq(matrixChangeSets.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(matrixChangeSets)
+      .values({ userId, schoolYearId, schoolId: getCurrentSchoolId(), edits: state.edits, position: state.position })
+      .returning();
+    return created;
+  }
+
+  async discardMatrixChangeSet(id: string): Promise<void> {
+    await db.update(matrixChangeSets)
+      .set({ status: "discarded", updatedAt: new Date() })
+      .where(and(eq(matrixChangeSets.id, id), this.schoolScope(matrixChangeSets.schoolId)));
+  }
+
+  // All changes of the draft and its status change succeed or fail together
+  async commitMatrixChangeSet(id: string, changes: AssignmentChange[]): Promise<{ added: number; removed: number; changed: number }> {
+    const [changeSet] = await db.select().from(matrixChangeSets).where(and(eq(matrixChangeSets.id, id), this.schoolScope(matrixChangeSets.schoolId)));
+    if (!changeSet || changeSet.status !== "draft") {
+      throw new Error("Änderungssatz nicht gefunden oder bereits abgeschlossen");
+    }
+    const targetSchoolYear = await this.getTargetSchoolYearForAdds(changes, changeSet.schoolYearId);
+
+    return await db.transaction(async (tx) => {
+      const result = await this.writeAssignmentChanges(tx, changes, targetSchoolYear, false);
+      await tx.update(matrixChangeSets)
+        .set({ status: "committed", committedAt: new Date(), updatedAt: new Date() })
+        .where(eq(matrixChangeSets.id, id));
+      return result;
+    });
+  }
+
+  // Teacher Constraints
+  async getTeacherConstraints(teacherId?: string): Promise<TeacherConstraint[]> {
+    return await db.select().from(teacherConstraints)
+      .where(and(
+        teacherId ? eq(teacherConstraints.teacherId, teacherId) : undefined,
+        this.schoolScope(teacherConstraints.schoolId)
+      ))
+      .orderBy(teacherConstraints.createdAt);
+  }
+
+  async createTeacherConstraint(constraint: InsertTeacherConstraint): Promise<TeacherConstraint> {
+    await this.assertSchoolReferences({ teacherIds: [constraint.teacherId], classId: constraint.classId, subjectId: constraint.subjectId });
+    const [newConstraint] = await db
+      .insert(teacherConstraints)
+      .values({ ...constraint, schoolId: getCurrentSchoolId() })
+      .returning();
+    return newConstraint;
+  }
+
+  async updateTeacherConstraint(id: string, constraint: InsertTeacherConstraint): Promise<TeacherConstraint> {
+    await this.assertSchoolReferences({ teacherIds: [constraint.teacherId], classId: constraint.classId, subjectId: constraint.subjectId });
+    const [updatedConstraint] = await db
+      .update(teacherConstraints)
+      .set(constraint)
+      .where(and(eq(teacherConstraints.id, id), this.schoolScope(teacherConstraints.schoolId)))
+      .returning();
+    return updatedConstraint;
+  }
+
+  async deleteTeacherConstraint(id: string): Promise<void> {
+    await db.delete(teacherConstraints).where(and(eq(teacherConstraints.id, id), this.schoolScope(teacherConstraints.schoolId)));
+  }
+
+  // Teacher Reductions
+  async getTeacherReductions(teacherId?: string): Promise<TeacherReduction[]> {
+    return await db.select().from(teacherReductions)
+      .where(and(
+        teacherId ? eq(teacherReductions.teacherId, teacherId) : undefined,
+        this.schoolScope(teacherReductions.schoolId)
+      ))
+      .orderBy(teacherReductions.startDate);
+  }
+
+  async createTeacherReduction(reduction: InsertTeacherReduction): Promise<TeacherReduction> {
+    await this.assertSchoolReferences({ teacherIds: [reduction.teacherId] });
+    const currentSchoolYear = await this.getCurrentSchoolYear();
+    return await db.transaction(async (tx) => {
+      // The first ledger entry of a teacher takes over the old flat reductionHours,
+      // otherwise the next sync would drop them
+      const existing = await tx.select({ id: teacherReductions.id }).from(teacherReductions)
+        .where(and(eq(teacherReductions.teacherId, reduction.teacherId), this.schoolScope(teacherReductions.schoolId)))
+        .limit(1);
+      if (existing.length === 0 && currentSchoolYear) {
+        const [teacher] = await tx.select().from(teachers).where(and(eq(teachers.id, reduction.teacherId), this.schoolScope(teachers.schoolId)));
+        const legacy = teacher ? legacyReductionEntries(teacher, currentSchoolYear) : [];
+        if (legacy.length > 0) {
+          await tx.insert(teacherReductions).values(legacy.map(entry => ({ ...entry, schoolId: teacher.schoolId })));
+        }
+      }
+
+      const [newReduction] = await tx
+        .insert(teacherReductions)
+        .values({ ...reduction, schoolId: getCurrentSchoolId() })
+        .returning();
+      return newReduction;
+    });
+  }
+
+  async updateTeacherReduction(id: string, reduction: InsertTeacherReduction): Promise<TeacherReduction> {
+    await this.assertSchoolReferences({ teacherIds: [reduction.teacherId] });
+    const [updatedReduction] = await db
+      .update(teacherReductions)
+      .set(reduction)
+      .where(and(eq(teacherReductions.id, id), this.schoolScope(teacherReductions.schoolId)))
+      .returning();
+    return updatedReduction;
+  }
+
+  async deleteTeacherReduction(id: string): Promise<TeacherReduction | undefined> {
+    const [deletedReduction] = await db.delete(teacherReductions).where(and(eq(teacherReductions.id, id), this.schoolScope(teacherReductions.schoolId))).returning();
+    return deletedReduction;
+  }
+
+  /**
+   * Recomputes teachers.reductionHours from the ledger for the current school year.
+   * Teachers without ledger entries keep their flat values except for the computed AE.
+   * Returns the number of updated teachers.
+   */
+  async syncTeacherReductionHours(teacherId?: string): Promise<number> {
+    const currentSchoolYear = await this.getCurrentSchoolYear();
+    if (!currentSchoolYear) return 0;
+
+    const [teacherList, entries] = await Promise.all([
+      teacherId ? this.getTeacher(teacherId).then(teacher => teacher ? [teacher] : []) : this.getTeachers(),
+      this.getTeacherReductions(teacherId),
+    ]);
+
+    return await db.transaction(async (tx) => {
+      const auditChanges: AuditChange[] = [];
+      for (const teacher of teacherList) {
+        const hasLedger = entries.some(entry => entry.teacherId === teacher.id);
+        const capacity = calculateTeacherCapacity(teacher, entries, currentSchoolYear);
+        const ledgerHours = toReductionHours(capacity);
+        const reductionHours = hasLedger
+          ? ledgerHours
+          : { ...(teacher.reductionHours || {}), AE: teacher.dateOfBirth ? ledgerHours.AE : (teacher.reductionHours?.AE ?? 0) };
+
+        if (JSON.stringify(reductionHours) !== JSON.stringify(teacher.reductionHours)) {
+          const [updatedTeacher] = await tx.update(teachers)
+            .set({ reductionHours })
+            .where(and(eq(teachers.id, teacher.id), this.schoolScope(teachers.schoolId)))
+            .returning();
+          if (updatedTeacher) {
+            auditChanges.push({ entityType: "teacher", entityId: teacher.id, action: "update", before: teacher, after: updatedTeacher });
+          }
+        }
+      }
+      await this.recordAudit(auditChanges, tx);
+      return auditChanges.length;
+    });
+  }
+
+  /**
+   * Writes currentHours computed from the assignments back to the teachers.
+   * Returns the number of updated teachers.
+   */
+  async updateTeacherCurrentHours(updates: { teacherId: string; currentHours: number }[]): Promise<number> {
+    if (updates.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      const auditChanges: AuditChange[] = [];
+      for (const update of updates) {
+        const currentHours = update.currentHours.toFixed(1);
+        const [before] = await tx.select().from(teachers)
+          .where(and(eq(teachers.id, update.teacherId), this.schoolScope(teachers.schoolId)));
+        if (!before || before.currentHours === currentHours) continue;
+
+        const [updatedTeacher] = await tx.update(teachers)
+          .set({ currentHours })
+          .where(and(eq(teachers.id, update.teacherId), this.schoolScope(teachers.schoolId)))
+          .returning();
+        auditChanges.push({ entityType: "teacher", entityId: update.teacherId, action: "update", before, after: updatedTeacher });
+      }
+      await this.recordAudit(auditChanges, tx);
+      return auditChanges.length;
+    });
   }
 
   // Team Teaching Operations - Optimized with bulk operations
   async createTeamTeaching(baseAssignmentId: string, teacherIds: string[]): Promise<Assignment[]> {
+    await this.assertSchoolReferences({ teacherIds });
     // Single transaction for all operations
     return await db.transaction(async (tx) => {
       // Get the base assignment
-      const [baseAssignment] = await tx.select().from(assignments).where(eq(assignments.id, baseAssignmentId));
+      const [baseAssignment] = await tx.select().from(assignments).where(and(eq(assignments.id, baseAssignmentId), this.schoolScope(assignments.schoolId)));
       if (!baseAssignment) {
         throw new Error("Base assignment not found");
       }
@@ -839,11 +1537,15 @@ export class DatabaseStorage implements IStorage {
       // Generate a new team teaching ID if none exists
       const teamTeachingId = baseAssignment.teamTeachingId || randomUUID();
       
+      const auditChanges: AuditChange[] = [];
+
       // Update the base assignment with team teaching ID if it doesn't have one
       if (!baseAssignment.teamTeachingId) {
-        await tx.update(assignments)
+        const [updatedBase] = await tx.update(assignments)
           .set({ teamTeachingId })
-          .where(eq(assignments.id, baseAssignmentId));
+          .where(eq(assignments.id, baseAssignmentId))
+          .returning();
+        auditChanges.push({ entityType: "assignment", entityId: baseAssignmentId, action: "update", before: baseAssignment, after: updatedBase });
       }
 
       // Get all existing assignments for this team in one query
@@ -869,8 +1571,12 @@ export class DatabaseStorage implements IStorage {
           schoolYearId: baseAssignment.schoolYearId
         }));
 
-        await tx.insert(assignments).values(newAssignments);
+        const created = await tx.insert(assignments)
+          .values(newAssignments.map(a => ({ ...a, schoolId: baseAssignment.schoolId })))
+          .returning();
+        created.forEach(a => auditChanges.push({ entityType: "assignment", entityId: a.id, action: "create", after: a }));
       }
+      await this.recordAudit(auditChanges, tx);
 
       // Return all assignments in the team teaching group
       return await tx.select()
@@ -882,7 +1588,7 @@ export class DatabaseStorage implements IStorage {
 
   async getTeamTeachingGroup(teamTeachingId: string): Promise<Assignment[]> {
     return await db.select().from(assignments)
-      .where(eq(assignments.teamTeachingId, teamTeachingId))
+      .where(and(eq(assignments.teamTeachingId, teamTeachingId), this.schoolScope(assignments.schoolId)))
       .orderBy(assignments.createdAt);
   }
 
@@ -896,20 +1602,41 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Assignment is not part of a team teaching group");
     }
 
+    const teamTeachingId = assignment.teamTeachingId;
+
     // Get all assignments in the team
-    const teamAssignments = await this.getTeamTeachingGroup(assignment.teamTeachingId);
-    
-    if (teamAssignments.length <= 2) {
-      // If only 2 assignments left, remove team teaching from both
-      for (const teamAssignment of teamAssignments) {
-        await this.updateAssignment(teamAssignment.id, { teamTeachingId: null });
+    const teamAssignments = await this.getTeamTeachingGroup(teamTeachingId);
+
+    // Dissolving the group and deleting its setting succeed or fail together
+    return await db.transaction(async (tx) => {
+      // If only 2 assignments left, remove team teaching from both, otherwise just this one
+      const dissolved = teamAssignments.length <= 2;
+      const leaving = dissolved ? teamAssignments : teamAssignments.filter(a => a.id === assignmentId);
+
+      const auditChanges: AuditChange[] = [];
+      let result: Assignment | undefined;
+      for (const teamAssignment of leaving) {
+        const [updated] = await tx.update(assignments)
+          .set({ teamTeachingId: null })
+          .where(and(eq(assignments.id, teamAssignment.id), this.schoolScope(assignments.schoolId)))
+          .returning();
+        if (!updated) continue;
+        auditChanges.push({ entityType: "assignment", entityId: updated.id, action: "update", before: teamAssignment, after: updated });
+        if (updated.id === assignmentId) result = updated;
       }
-    } else {
-      // Just remove this assignment from the team
-      await this.updateAssignment(assignmentId, { teamTeachingId: null });
-    }
 
-    return await this.getAssignment(assignmentId) as Assignment;
+      if (dissolved) {
+        // The group no longer exists, so neither does its crediting setting
+        await tx.delete(teamTeachingSettings)
+          .where(and(eq(teamTeachingSettings.teamTeachingId, teamTeachingId), this.schoolScope(teamTeachingSettings.schoolId)));
+      }
+
+      if (!result) {
+        throw new Error("Assignment not found");
+      }
+      await this.recordAudit(auditChanges, tx);
+      return result;
+    });
   }
 
   async validateTeamTeachingGroup(teamTeachingId: string): Promise<{ isValid: boolean; errors: string[] }> {
@@ -947,24 +1674,169 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    // Custom shares must still match the group's teachers
+    const setting = await this.getTeamTeachingSetting(teamTeachingId);
+    if (setting?.creditMode === "custom" && assignments.length > 0) {
+      const teacherIds = Array.from(new Set(assignments.map(a => a.teacherId)));
+      validateTeamTeachingShares(setting.shares, teacherIds).forEach(error => {
+        errors.push(`Custom hour shares are invalid and fall back to an equal split: ${error}`);
+      });
+    }
+
     return {
       isValid: errors.length === 0,
       errors
     };
   }
 
+  async getTeamTeachingSettings(): Promise<TeamTeachingSetting[]> {
+    return await db.select().from(teamTeachingSettings).where(this.schoolScope(teamTeachingSettings.schoolId));
+  }
+
+  async getTeamTeachingSetting(teamTeachingId: string): Promise<TeamTeachingSetting | undefined> {
+    const [setting] = await db.select().from(teamTeachingSettings)
+      .where(and(eq(teamTeachingSettings.teamTeachingId, teamTeachingId), this.schoolScope(teamTeachingSettings.schoolId)));
+    return setting;
+  }
+
+  async setTeamTeachingSetting(teamTeachingId: string, setting: UpdateTeamTeachingSetting): Promise<TeamTeachingSetting> {
+    // Shares only matter for custom crediting
+    const values = {
+      creditMode: setting.creditMode,
+      shares: setting.creditMode === "custom" ? setting.shares ?? {} : {},
+      updatedAt: new Date(),
+    };
+    const [saved] = await db.insert(teamTeachingSettings)
+      .values({ teamTeachingId, schoolId: getCurrentSchoolId(), ...values })
+      .onConflictDoUpdate({ target: teamTeachingSettings.teamTeachingId, set: values })
+      .returning();
+    return saved;
+  }
+
+  // Audit Log
+  async getAuditLogs(query: AuditLogQuery): Promise<AuditLog[]> {
+    const conditions: SQL[] = [];
+    const schoolScope = this.schoolScope(auditLogs.schoolId);
+    if (schoolScope) conditions.push(schoolScope);
+    if (query.entityType) conditions.push(eq(auditLogs.entityType, query.entityType));
+    if (query.entityId) conditions.push(eq(auditLogs.entityId, query.entityId));
+    if (query.userId) conditions.push(eq(auditLogs.userId, query.userId));
+    if (query.from) conditions.push(gte(auditLogs.createdAt, new Date(`${query.from}T00:00:00`)));
+    if (query.to) {
+      // inclusive end date
+      const end = new Date(`${query.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      conditions.push(lt(auditLogs.createdAt, end));
+    }
+    return await db.select().from(auditLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(query.limit);
+  }
+
+  async getAuditLog(id: string): Promise<AuditLog | undefined> {
+    const [entry] = await db.select().from(auditLogs).where(and(eq(auditLogs.id, id), this.schoolScope(auditLogs.schoolId)));
+    return entry || undefined;
+  }
+
+  // Teacher requests
+  async getTeacherRequests(filter: { teacherId?: string; status?: TeacherRequestStatus } = {}): Promise<TeacherRequest[]> {
+    const conditions: SQL[] = [];
+    const schoolScope = this.schoolScope(teacherRequests.schoolId);
+    if (schoolScope) conditions.push(schoolScope);
+    if (filter.teacherId) conditions.push(eq(teacherRequests.teacherId, filter.teacherId));
+    if (filter.status) conditions.push(eq(teacherRequests.status, filter.status));
+    return await db.select().from(teacherRequests)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(teacherRequests.createdAt));
+  }
+
+  async createTeacherRequest(teacherId: string, request: InsertTeacherRequest): Promise<TeacherRequest> {
+    const [created] = await db.insert(teacherRequests).values({
+      ...request,
+      teacherId,
+      userId: getCurrentUserId(),
+      schoolId: getCurrentSchoolId(),
+    }).returning();
+    return created;
+  }
+
+  // Accepting or rejecting closes the request; setting it back to open clears the resolution
+  async resolveTeacherRequest(id: string, resolution: ResolveTeacherRequest): Promise<TeacherRequest | undefined> {
+    const isOpen = resolution.status === "open";
+    const [updated] = await db.update(teacherRequests)
+      .set({
+        status: resolution.status,
+        response: resolution.response ?? null,
+        resolvedBy: isOpen ? null : getCurrentUserId(),
+        resolvedAt: isOpen ? null : new Date(),
+      })
+      .where(and(eq(teacherRequests.id, id), this.schoolScope(teacherRequests.schoolId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Undo a single logged change. The row must still be in the logged state, otherwise a later
+  // change would be overwritten silently. The revert itself is logged like any other change.
+  async revertAuditLog(id: string): Promise<AuditLog> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(auditLogs).where(and(eq(auditLogs.id, id), this.schoolScope(auditLogs.schoolId)));
+      if (!entry) {
+        throw new AuditRevertError("Protokolleintrag nicht gefunden", "NOT_FOUND");
+      }
+      if (entry.revertedAt) {
+        throw new AuditRevertError("Diese Änderung wurde bereits rückgängig gemacht", "ALREADY_REVERTED");
+      }
+
+      const entityType = entry.entityType as AuditEntityType;
+      const table = AUDIT_TABLES[entityType];
+      const idColumn = getTableColumns(table).id;
+      const [current] = await tx.select().from(table).where(eq(idColumn, entry.entityId)) as Record<string, unknown>[];
+
+      if (entry.action === "delete") {
+        if (current) {
+          throw new AuditRevertError("Der gelöschte Datensatz existiert bereits wieder", "CONFLICT");
+        }
+        const [restored] = await tx.insert(table).values(snapshotToRow(table, entry.before ?? {})).returning();
+        await this.recordAudit([{ entityType, entityId: entry.entityId, action: "create", after: restored }], tx);
+      } else {
+        if (!current) {
+          throw new AuditRevertError("Der Datensatz existiert nicht mehr", "CONFLICT");
+        }
+        if (!matchesSnapshot(current, entry.after ?? {})) {
+          throw new AuditRevertError("Der Datensatz wurde seitdem erneut geändert", "CONFLICT");
+        }
+
+        if (entry.action === "create") {
+          await tx.delete(table).where(eq(idColumn, entry.entityId));
+          await this.recordAudit([{ entityType, entityId: entry.entityId, action: "delete", before: current }], tx);
+        } else {
+          const { id: _id, ...values } = snapshotToRow(table, entry.before ?? {});
+          const [updated] = await tx.update(table).set(values).where(eq(idColumn, entry.entityId)).returning();
+          await this.recordAudit([{ entityType, entityId: entry.entityId, action: "update", before: current, after: updated }], tx);
+        }
+      }
+
+      const [reverted] = await tx.update(auditLogs)
+        .set({ revertedAt: new Date(), revertedBy: getCurrentUserId() })
+        .where(eq(auditLogs.id, id))
+        .returning();
+      return reverted;
+    });
+  }
+
   // Planstellen
   async getPlanstellen(): Promise<Planstelle[]> {
-    return await db.select().from(planstellen).orderBy(desc(planstellen.calculatedAt));
+    return await db.select().from(planstellen).where(this.schoolScope(planstellen.schoolId)).orderBy(desc(planstellen.calculatedAt));
   }
 
   async getPlanstelle(id: string): Promise<Planstelle | undefined> {
-    const [planstelle] = await db.select().from(planstellen).where(eq(planstellen.id, id));
+    const [planstelle] = await db.select().from(planstellen).where(and(eq(planstellen.id, id), this.schoolScope(planstellen.schoolId)));
     return planstelle || undefined;
   }
 
   async createPlanstelle(planstelle: typeof planstellen.$inferInsert): Promise<Planstelle> {
-    const [newPlanstelle] = await db.insert(planstellen).values(planstelle).returning();
+    const [newPlanstelle] = await db.insert(planstellen).values({ ...planstelle, schoolId: getCurrentSchoolId() }).returning();
     return newPlanstelle;
   }
 
@@ -972,235 +1844,90 @@ export class DatabaseStorage implements IStorage {
     const [updatedPlanstelle] = await db
       .update(planstellen)
       .set(planstelle)
-      .where(eq(planstellen.id, id))
+      .where(and(eq(planstellen.id, id), this.schoolScope(planstellen.schoolId)))
       .returning();
     return updatedPlanstelle;
   }
 
   async deletePlanstelle(id: string): Promise<void> {
-    await db.delete(planstellen).where(eq(planstellen.id, id));
+    await db.delete(planstellen).where(and(eq(planstellen.id, id), this.schoolScope(planstellen.schoolId)));
   }
 
-  async calculatePlanstellenFromInput(input: PlanstellenInput): Promise<Planstelle[]> {
-    const results: Planstelle[] = [];
-    
-    // Berechnete Felder basierend auf echten Excel-Formeln
-    const berechneteWerte = {
-      // F5: =F3/F4 - Quotient (35.16592372)
-      quotient: input.schuelerzahlStand / input.schuelerLehrerrelation,
-      
-      // F6: =TRUNC(F5,2) - Quotient abgeschnitten (35.16)
-      quotientAbgeschnitten: Math.trunc((input.schuelerzahlStand / input.schuelerLehrerrelation) * 100) / 100,
-      
-      // F7: =IF(F5-INT(F5)<0.5,INT(F5),INT(F5)+0.5) - Abgerundet (35)
-      abgerundet: (() => {
-        const quotient = input.schuelerzahlStand / input.schuelerLehrerrelation;
-        const intPart = Math.floor(quotient);
-        return (quotient - intPart < 0.5) ? intPart : intPart + 0.5;
-      })(),
-      
-      // F10: =SUM(F6,F8:F9) - Summe Grundbedarf
-      summeGrundbedarf: (() => {
-        const quotientAbgeschnitten = Math.trunc((input.schuelerzahlStand / input.schuelerLehrerrelation) * 100) / 100;
-        return quotientAbgeschnitten + input.abzugLehramtsanwaerter + input.rundung;
-      })(),
-      
-      // F27: =SUM(F12:F25) - Summe Ausgleichsbedarf
-      summeAusgleichsbedarf: input.fachleiter + 
-                            input.personalrat + 
-                            input.schulleitungsentlastungFortbildung + 
-                            input.ausbauLeitungszeit + 
-                            input.rueckgabeVorgriffstunde + 
-                            input.digitalisierungsbeauftragter + 
-                            input.fortbildungQualifMedienDS + 
-                            input.fachberaterSchulaufsicht + 
-                            input.wechselndeAusgleichsbedarfe + 
-                            input.praxissemesterInSchule + 
-                            input.zusaetzlicheAusfallvertretung + 
-                            input.entlastungLehrertaetigkeit + 
-                            input.entlastungLVOCO + 
-                            input.ermaessigungenweitere,
-                         
-      // =SUMME weitere Bereiche - Weitere Planstellen
-      weitereBereiche: input.bestellungsverfahren + 
-                      input.praktischePaedagogikLehrkraefte + 
-                      input.praxissemesterdurchfuehrung + 
-                      input.entlassungenGradVerkuerzung + 
-                      input.stellenreserveLehrerinnen,
-                      
-      // Gesamtsumme aller Planstellen
-      gesamtPlanstellen: 0 // wird unten berechnet
-    };
+  // Planstellen Scenarios
+  async getPlanstellenScenarios(schoolYearId?: string): Promise<PlanstellenScenario[]> {
+    return await db.select().from(planstellenScenarios)
+      .where(and(
+        schoolYearId ? eq(planstellenScenarios.schoolYearId, schoolYearId) : undefined,
+        this.schoolScope(planstellenScenarios.schoolId)
+      ))
+      .orderBy(desc(planstellenScenarios.updatedAt));
+  }
 
-    // Erstelle Planstellen für alle Eingabefelder - 1:1 Excel-Struktur
-    const eingabeFelder = [
-      // 1. GRUNDSTELLEN (F3-F10, echte Excel-Bezeichnungen)
-      { name: 'Schülerzahl Stand 31.08.24', value: input.schuelerzahlStand, category: 'grundstellen' },
-      { name: 'Schüler/Lehrerrelation an der Realschule: (ab 06/18)', value: input.schuelerLehrerrelation, category: 'grundstellen' },
-      { name: 'bedarfsdeckender Unterricht - Abzug Lehramtsanwärter', value: input.abzugLehramtsanwaerter, category: 'grundstellen' },
-      { name: 'Rundung', value: input.rundung, category: 'grundstellen' },
-      
-      // AUSGLEICHSBEDARF (F12-F26, echte Excel-Bezeichnungen)
-      { name: 'Fachleiter', value: input.fachleiter, category: 'ausgleichsbedarf' },
-      { name: 'Personalrat', value: input.personalrat, category: 'ausgleichsbedarf' },
-      { name: 'Schulleitungsentlastung - Fortbildung', value: input.schulleitungsentlastungFortbildung, category: 'ausgleichsbedarf' },
-      { name: 'Ausbau Leitungszeit', value: input.ausbauLeitungszeit, category: 'ausgleichsbedarf' },
-      { name: 'Rückgabe Vorgriffstunde', value: input.rueckgabeVorgriffstunde, category: 'ausgleichsbedarf' },
-      { name: 'Digitalisierungsbeauftragter', value: input.digitalisierungsbeauftragter, category: 'ausgleichsbedarf' },
-      { name: 'Fortb. und Qualif. / Medien und DS', value: input.fortbildungQualifMedienDS, category: 'ausgleichsbedarf' },
-      { name: 'Fachberater Schulaufsicht', value: input.fachberaterSchulaufsicht, category: 'ausgleichsbedarf' },
-      { name: 'Wechs. Merh - und Ausgleichsbedarfe', value: input.wechselndeAusgleichsbedarfe, category: 'ausgleichsbedarf' },
-      { name: 'Praxissemester in Schule', value: input.praxissemesterInSchule, category: 'ausgleichsbedarf' },
-      { name: 'Zusätzliche Ausfallvertretung', value: input.zusaetzlicheAusfallvertretung, category: 'ausgleichsbedarf' },
-      { name: 'Entlastung Lehrertätigkeit', value: input.entlastungLehrertaetigkeit, category: 'ausgleichsbedarf' },
-      { name: 'Entlastung LVO&CO', value: input.entlastungLVOCO, category: 'ausgleichsbedarf' },
-      { name: 'Ermäßigungen weitere', value: input.ermaessigungenweitere, category: 'ausgleichsbedarf' },
-      { name: '0', value: input.nullWert, category: 'ausgleichsbedarf' },
-      
-      // WEITERE BEREICHE (F30-F32, aus Excel-Struktur)
-      { name: 'Bestellungsverfahren', value: input.bestellungsverfahren, category: 'weitere_bereiche' },
-      { name: 'Praktische Pädagogik Lehrkräfte', value: input.praktischePaedagogikLehrkraefte, category: 'weitere_bereiche' },
-      { name: 'Praxissemesterdurchführung', value: input.praxissemesterdurchfuehrung, category: 'weitere_bereiche' },
-      
-      // WEITERE ABSCHNITTE (F36, F38, etc.)
-      { name: 'Entlassungen/Grad. (Verkürzung)', value: input.entlassungenGradVerkuerzung, category: 'weitere_abschnitte' },
-      { name: 'Stellenreserve LehrerInnen', value: input.stellenreserveLehrerinnen, category: 'weitere_abschnitte' },
-      
-      // SONSTIGE FELDER
-      { name: 'Ausfeld Lehrkräfte', value: input.ausfeldLehrkraefte, category: 'sonstige' },
-      { name: 'Inner-(d. Sonderreg/austech)', value: input.innerSonderregAustech, category: 'sonstige' },
-      { name: 'Ergänzend über Aufbaumöglichkeit', value: input.ergaenzendUeberAufbaumoeglichkeit, category: 'sonstige' },
-      { name: 'Stellenreserve LehrerInnen(HS)', value: input.stellenreserveLehrerinnenHS, category: 'sonstige' },
-      { name: 'Fertigkeitsfeld', value: input.fertigkeitsfeld, category: 'sonstige' },
-      { name: 'Stundenreserve', value: input.stundenreserve, category: 'sonstige' }
-    ];
+  async getPlanstellenScenario(id: string): Promise<PlanstellenScenario | undefined> {
+    const [scenario] = await db.select().from(planstellenScenarios).where(and(eq(planstellenScenarios.id, id), this.schoolScope(planstellenScenarios.schoolId)));
+    return scenario || undefined;
+  }
 
-    // Erstelle Planstelle für jedes Eingabefeld (nur wenn Wert > 0)
-    for (const feld of eingabeFelder) {
-      if (feld.value > 0) {
-        const planstelle: Planstelle = {
-          id: randomUUID(),
-          scenarioId: null,
-          subjectId: null,
-          grade: null,
-          category: feld.category,
-          component: feld.name,
-          lineType: 'requirement',
-          formula: {
-            op: 'direct',
-            terms: [feld.value],
-            description: `${feld.name}: Direkteingabe`
-          },
-          color: feld.category === 'grundschuldaten' ? 'yellow' : 
-                feld.category === 'abzugsarten' ? 'yellow' :
-                feld.category === 'lehramt' ? 'purple' : 'gray',
-          requiredHours: feld.value.toString(),
-          availableHours: '0',
-          deficit: feld.value.toString(),
-          calculatedAt: new Date()
-        };
-        results.push(planstelle);
-      }
-    }
+  async createPlanstellenScenario(scenario: InsertPlanstellenScenario): Promise<PlanstellenScenario> {
+    const [newScenario] = await db
+      .insert(planstellenScenarios)
+      .values({ ...scenario, schoolId: getCurrentSchoolId() })
+      .returning();
+    return newScenario;
+  }
 
-    // Berechne Gesamtsumme 
-    berechneteWerte.gesamtPlanstellen = berechneteWerte.summeGrundbedarf + 
-                                       berechneteWerte.summeAusgleichsbedarf + 
-                                       berechneteWerte.weitereBereiche;
-
-    // Erstelle berechnete Planstellen (blaue/türkise Felder)
-    const berechneteFelder = [
-      {
-        name: 'Summe Grundbedarf',
-        value: berechneteWerte.summeGrundbedarf,
-        formula: '=SUM(F6,F8:F9)',
-        color: 'cyan'
-      },
-      {
-        name: 'Summe Ausgleichsbedarf',
-        value: berechneteWerte.summeAusgleichsbedarf,
-        formula: '=SUM(F12:F25)',
-        color: 'cyan'
-      },
-      {
-        name: 'Weitere Bereiche',
-        value: berechneteWerte.weitereBereiche,
-        formula: '=SUM(F30:F38)',
-        color: 'cyan'
-      },
-      {
-        name: 'Gesamtsumme Planstellen',
-        value: berechneteWerte.gesamtPlanstellen,
-        formula: '=SUM(F10,F27,weitere)',
-        color: 'green'
-      }
-    ];
+  async updatePlanstellenScenario(id: string, scenario: Partial<InsertPlanstellenScenario>): Promise<PlanstellenScenario> {
+    const [updatedScenario] = await db
+      .update(planstellenScenarios)
+      .set({ ...scenario, updatedAt: new Date() })
+      .where(and(eq(planstellenScenarios.id, id), this.schoolScope(planstellenScenarios.schoolId)))
+      .returning();
+    return updatedScenario;
+  }
 
-    for (const feld of berechneteFelder) {
-      const planstelle: Planstelle = {
-        id: randomUUID(),
-        scenarioId: null,
-        subjectId: null,
-        grade: null,
-        category: 'berechnet',
-        component: feld.name,
-        lineType: 'calculated',
-        formula: {
-          op: 'sum',
-          terms: [],
-          description: feld.formula
-        },
-        color: feld.color,
-        requiredHours: feld.value.toString(),
-        availableHours: '0',
-        deficit: feld.value.toString(),
-        calculatedAt: new Date()
-      };
-      results.push(planstelle);
-    }
+  async deletePlanstellenScenario(id: string): Promise<void> {
+    if (!(await this.getPlanstellenScenario(id))) return;
+    await db.transaction(async (tx) => {
+      // Calculated lines belong to the scenario and go with it
+      await tx.delete(planstellen).where(eq(planstellen.scenarioId, id));
+      await tx.delete(planstellenScenarios).where(eq(planstellenScenarios.id, id));
+    });
+  }
 
-    // Gesamtberechnung hinzufügen (Excel-basiert)
-    const gesamtStunden = berechneteWerte.gesamtPlanstellen;
-    const benoetigtePlanstellen = input.deputat > 0 ? gesamtStunden / input.deputat : 0;
-    
-    const gesamtPlanstelle: Planstelle = {
+  async calculatePlanstellenFromInput(input: PlanstellenInput): Promise<Planstelle[]> {
+    // Same engine as the page, so API results and exports match the UI
+    const { lines } = calculatePlanstellen(input);
+    const calculatedAt = new Date();
+    return lines.map(line => ({
+      ...line,
       id: randomUUID(),
-      scenarioId: null,
-      subjectId: null,
-      grade: null,
-      category: 'summe',
-      component: 'Gesamtbedarf Planstellen',
-      lineType: 'summary',
-      formula: {
-        op: 'divide',
-        terms: [gesamtStunden, input.deputat],
-        description: `Gesamtstunden (${gesamtStunden}) ÷ Deputat (${input.deputat})`
-      },
-      color: 'blue',
-      requiredHours: gesamtStunden.toString(),
-      availableHours: benoetigtePlanstellen.toFixed(2),
-      deficit: '0',
-      calculatedAt: new Date()
-    };
-    
-    results.push(gesamtPlanstelle);
-    
-    return results;
+      scenarioId: line.scenarioId ?? null,
+      subjectId: line.subjectId ?? null,
+      grade: line.grade ?? null,
+      color: line.color ?? null,
+      deficit: line.deficit ?? '0',
+      schoolId: getCurrentSchoolId(),
+      calculatedAt,
+    }));
   }
 
+
   // Analytics
-  async getTeacherStats(): Promise<{
+  async getTeacherStats(schoolYearId?: string): Promise<{
     totalTeachers: number;
     totalStudents: number;
     totalHours: number;
     averageWorkload: number;
   }> {
-    const [teacherCount] = await db.select({ count: sql<number>`count(*)` }).from(teachers);
-    const [studentCount] = await db.select({ count: sql<number>`count(*)` }).from(students);
+    const teacherScope = this.schoolScope(teachers.schoolId);
+    const [teacherCount] = await db.select({ count: sql<number>`count(*)` }).from(teachers).where(teacherScope);
+    const studentScope = await this.schoolYearScope(students.schoolYearId, schoolYearId);
+    const [studentCount] = await db.select({ count: sql<number>`count(*)` }).from(students)
+      .where(and(studentScope, this.schoolScope(students.schoolId)));
     const [hourStats] = await db.select({ 
       totalHours: sql<number>`sum(${teachers.currentHours})`,
       avgWorkload: sql<number>`avg(${teachers.currentHours}::float / ${teachers.maxHours}::float * 100)`
-    }).from(teachers);
+    }).from(teachers).where(teacherScope);
 
     return {
       totalTeachers: teacherCount.count,
@@ -1216,21 +1943,31 @@ export class DatabaseStorage implements IStorage {
       ...teacher,
       subjects: teacher.subjects as string[],
       qualifications: teacher.qualifications as string[],
-      reductionHours: teacher.reductionHours as any || {}
+      reductionHours: teacher.reductionHours as any || {},
+      schoolId: getCurrentSchoolId(),
     }));
-    return await db.insert(teachers).values(teacherData).returning();
+    const created = await db.insert(teachers).values(teacherData).returning();
+    await this.recordAudit(created.map(t => ({ entityType: "teacher" as const, entityId: t.id, action: "create" as const, after: t })));
+    return created;
   }
 
   async bulkCreateStudents(studentList: InsertStudent[]): Promise<Student[]> {
-    return await db.insert(students).values(studentList).returning();
+    const schoolId = getCurrentSchoolId();
+    return await db.insert(students).values(studentList.map(student => ({ ...student, schoolId }))).returning();
   }
 
   async bulkCreateClasses(classList: InsertClass[]): Promise<Class[]> {
-    return await db.insert(classes).values(classList).returning();
+    const schoolId = getCurrentSchoolId();
+    const created = await db.insert(classes).values(classList.map(classData => ({ ...classData, schoolId }))).returning();
+    await this.recordAudit(created.map(c => ({ entityType: "class" as const, entityId: c.id, action: "create" as const, after: c })));
+    return created;
   }
 
   async bulkCreateSubjects(subjectList: InsertSubject[]): Promise<Subject[]> {
-    return await db.insert(subjects).values(subjectList).returning();
+    const schoolId = getCurrentSchoolId();
+    const created = await db.insert(subjects).values(subjectList.map(subject => ({ ...subject, schoolId }))).returning();
+    await this.recordAudit(created.map(s => ({ entityType: "subject" as const, entityId: s.id, action: "create" as const, after: s })));
+    return created;
   }
 
   async bulkCreateSubjectsWithConflictHandling(subjectList: InsertSubject[]): Promise<Subject[]> {
@@ -1241,8 +1978,9 @@ export class DatabaseStorage implements IStorage {
         // Try to create the subject
         const [subject] = await db
           .insert(subjects)
-          .values(subjectData)
+          .values({ ...subjectData, schoolId: getCurrentSchoolId() })
           .returning();
+        await this.recordAudit([{ entityType: "subject", entityId: subject.id, action: "create", after: subject }]);
         results.push(subject);
       } catch (error: any) {
         // If it's a duplicate key error, get the existing subject
@@ -1250,7 +1988,7 @@ export class DatabaseStorage implements IStorage {
           const [existingSubject] = await db
             .select()
             .from(subjects)
-            .where(eq(subjects.shortName, subjectData.shortName));
+            .where(and(eq(subjects.shortName, subjectData.shortName), this.schoolScope(subjects.schoolId)));
           if (existingSubject) {
             results.push(existingSubject);
           }
@@ -1269,6 +2007,10 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.lastName, users.firstName);
+  }
+
   async getUserByEmail(email: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.email, email));
     return user || undefined;
@@ -1289,6 +2031,21 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserPasswordHash(userId: string): Promise<string | undefined> {
+    const [credential] = await db.select().from(userCredentials).where(eq(userCredentials.userId, userId));
+    return credential?.passwordHash;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db
+      .insert(userCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
   // Invitation operations
   async createInvitation(invitationData: InsertInvitation): Promise<Invitation> {
     // Generate a secure token for the invitation
@@ -1312,9 +2069,9 @@ export class DatabaseStorage implements IStorage {
     return invitation || undefined;
   }
 
-  async getInvitationByEmail(email: string): Promise<Invitation | undefined> {
-    const [invitation] = await db.select().from(invitations).where(eq(invitations.email, email));
-    return invitation || undefined;
+  // Newest first
+  async getInvitationsByEmail(email: string): Promise<Invitation[]> {
+    return await db.select().from(invitations).where(eq(invitations.email, email)).orderBy(desc(invitations.createdAt));
   }
 
   async markInvitationUsed(id: string, usedBy: string): Promise<void> {
@@ -1332,6 +2089,55 @@ export class DatabaseStorage implements IStorage {
     await db.delete(invitations).where(eq(invitations.id, id));
   }
 
+  async getInvitation(id: string): Promise<Invitation | undefined> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.id, id));
+    return invitation || undefined;
+  }
+
+  // Reuses the row of an expired or revoked invitation with a new link
+  async renewInvitation(id: string, invitationData: InsertInvitation): Promise<Invitation> {
+    const [renewed] = await db
+      .update(invitations)
+      .set({
+        ...invitationData,
+        token: randomUUID(),
+        revokedAt: null,
+        createdAt: new Date(),
+      })
+      .where(eq(invitations.id, id))
+      .returning();
+    return renewed;
+  }
+
+  // Keeps the link, so emails already sent stay valid
+  async extendInvitation(id: string, expiresAt: Date): Promise<Invitation | undefined> {
+    const [extended] = await db
+      .update(invitations)
+      .set({ expiresAt, revokedAt: null })
+      .where(and(eq(invitations.id, id), or(eq(invitations.used, false), isNull(invitations.used))))
+      .returning();
+    return extended || undefined;
+  }
+
+  async revokeInvitation(id: string): Promise<Invitation | undefined> {
+    const [revoked] = await db
+      .update(invitations)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(invitations.id, id), or(eq(invitations.used, false), isNull(invitations.used))))
+      .returning();
+    return revoked || undefined;
+  }
+
+  async markInvitationSent(id: string): Promise<void> {
+    await db
+      .update(invitations)
+      .set({
+        lastSentAt: new Date(),
+        sentCount: sql`${invitations.sentCount} + 1`,
+      })
+      .where(eq(invitations.id, id));
+  }
+
   // School Year Transition operations
   async validateSchoolYearTransition(fromSchoolYearId: string): Promise<SchoolYearTransitionValidation> {
     try {
@@ -1554,7 +2360,7 @@ export class DatabaseStorage implements IStorage {
         const existingToSchoolYear = await tx
           .select()
           .from(schoolYears)
-          .where(eq(schoolYears.name, toSchoolYearName))
+          .where(and(eq(schoolYears.name, toSchoolYearName), this.schoolScope(schoolYears.schoolId)))
           .limit(1);
         
         if (existingToSchoolYear.length > 0) {
@@ -1565,7 +2371,7 @@ export class DatabaseStorage implements IStorage {
         const [fromSchoolYear] = await tx
           .select()
           .from(schoolYears)
-          .where(eq(schoolYears.id, fromSchoolYearId));
+          .where(and(eq(schoolYears.id, fromSchoolYearId), this.schoolScope(schoolYears.schoolId)));
         
         if (!fromSchoolYear) {
           throw new Error(`Quell-Schuljahr mit ID ${fromSchoolYearId} nicht gefunden`);
@@ -1576,7 +2382,8 @@ export class DatabaseStorage implements IStorage {
           name: toSchoolYearName,
           startDate: new Date().toISOString().split('T')[0],
           endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          isCurrent: false
+          isCurrent: false,
+          schoolId: fromSchoolYear.schoolId
         }).returning();
 
         // 4. Get current data
@@ -1584,7 +2391,7 @@ export class DatabaseStorage implements IStorage {
           tx.select().from(classes).where(eq(classes.schoolYearId, fromSchoolYearId)),
           tx.select().from(assignments).where(eq(assignments.schoolYearId, fromSchoolYearId)),
           tx.select().from(students).where(eq(students.schoolYearId, fromSchoolYearId)),
-          tx.select().from(subjects)
+          tx.select().from(subjects).where(this.schoolScope(subjects.schoolId))
         ]);
 
         // OPTIMIZED: Pre-group students by classId to avoid repeated filtering
@@ -1620,7 +2427,8 @@ export class DatabaseStorage implements IStorage {
               subjectHours: {}, // Will be populated by assignments
               classTeacher1Id: currentClass.classTeacher1Id,
               classTeacher2Id: currentClass.classTeacher2Id,
-              schoolYearId: newSchoolYear.id
+              schoolYearId: newSchoolYear.id,
+              schoolId: fromSchoolYear.schoolId
             }).returning();
             
             newClassMap.set(currentClass.id, newClass.id);
@@ -1686,7 +2494,8 @@ export class DatabaseStorage implements IStorage {
             grade: newClassData.grade,
             studentCount: newClassData.expectedStudentCount,
             subjectHours: {},
-            schoolYearId: newSchoolYear.id
+            schoolYearId: newSchoolYear.id,
+            schoolId: fromSchoolYear.schoolId
           });
           createdNewClasses++;
         }
@@ -1724,7 +2533,8 @@ export class DatabaseStorage implements IStorage {
                   subjectId: assignment.subjectId,
                   hoursPerWeek: targetHours.toString(),
                   semester: assignment.semester as "1" | "2",
-                  schoolYearId: newSchoolYear.id
+                  schoolYearId: newSchoolYear.id,
+                  schoolId: fromSchoolYear.schoolId
                 });
               }
             }
@@ -1738,7 +2548,7 @@ export class DatabaseStorage implements IStorage {
         }
 
         // 8. Set new school year as current
-        await tx.update(schoolYears).set({ isCurrent: false });
+        await tx.update(schoolYears).set({ isCurrent: false }).where(this.schoolScope(schoolYears.schoolId));
         await tx
           .update(schoolYears)
           .set({ isCurrent: true })
@@ -1891,11 +2701,11 @@ export class DatabaseStorage implements IStorage {
 
   // Subject Mappings for PDF Import Intelligence
   async getSubjectMappings(): Promise<SubjectMapping[]> {
-    return await db.select().from(subjectMappings).orderBy(desc(subjectMappings.usedCount));
+    return await db.select().from(subjectMappings).where(this.schoolScope(subjectMappings.schoolId)).orderBy(desc(subjectMappings.usedCount));
   }
 
   async getSubjectMapping(id: string): Promise<SubjectMapping | undefined> {
-    const [mapping] = await db.select().from(subjectMappings).where(eq(subjectMappings.id, id));
+    const [mapping] = await db.select().from(subjectMappings).where(and(eq(subjectMappings.id, id), this.schoolScope(subjectMappings.schoolId)));
     return mapping || undefined;
   }
 
@@ -1903,7 +2713,7 @@ export class DatabaseStorage implements IStorage {
     const [mapping] = await db
       .select()
       .from(subjectMappings)
-      .where(eq(subjectMappings.normalizedName, normalizedName.toLowerCase()));
+      .where(and(eq(subjectMappings.normalizedName, normalizedName.toLowerCase()), this.schoolScope(subjectMappings.schoolId)));
     return mapping || undefined;
   }
 
@@ -1912,7 +2722,8 @@ export class DatabaseStorage implements IStorage {
       .insert(subjectMappings)
       .values({
         ...mapping,
-        normalizedName: mapping.normalizedName.toLowerCase()
+        normalizedName: mapping.normalizedName.toLowerCase(),
+        schoolId: getCurrentSchoolId()
       })
       .returning();
     return newMapping;
@@ -1927,13 +2738,13 @@ export class DatabaseStorage implements IStorage {
     const [updatedMapping] = await db
       .update(subjectMappings)
       .set(updateData)
-      .where(eq(subjectMappings.id, id))
+      .where(and(eq(subjectMappings.id, id), this.schoolScope(subjectMappings.schoolId)))
       .returning();
     return updatedMapping;
   }
 
   async deleteSubjectMapping(id: string): Promise<void> {
-    await db.delete(subjectMappings).where(eq(subjectMappings.id, id));
+    await db.delete(subjectMappings).where(and(eq(subjectMappings.id, id), this.schoolScope(subjectMappings.schoolId)));
   }
 
   async incrementMappingUsage(id: string): Promise<void> {
@@ -1943,43 +2754,227 @@ export class DatabaseStorage implements IStorage {
         usedCount: sql`${subjectMappings.usedCount} + 1`,
         lastUsedAt: new Date()
       })
-      .where(eq(subjectMappings.id, id));
+      .where(and(eq(subjectMappings.id, id), this.schoolScope(subjectMappings.schoolId)));
+  }
+
+  // Upsert of CSV imports: rows already matched to existing records are updated, the others created.
+  // A row that cannot be written aborts the whole import.
+  async applyCsvImport(changes: CsvImportChanges, schoolYearId?: string): Promise<{ created: number; updated: number }> {
+    const schoolYear = schoolYearId ? await this.getSchoolYear(schoolYearId) : await this.getCurrentSchoolYear();
+    if (changes.dataType !== "teachers" && !schoolYear) {
+      throw new Error("Kein aktuelles Schuljahr gefunden. Bitte setzen Sie zuerst ein aktuelles Schuljahr.");
+    }
+    const schoolId = getCurrentSchoolId();
+    const importedTeacherIds: string[] = [];
+
+    const result = await db.transaction(async (tx) => {
+      const result = { created: 0, updated: 0 };
+      const auditChanges: AuditChange[] = [];
+      const requireUpdated = <T>(row: T | undefined, label: string): T => {
+        if (!row) throw new Error(`${label} wurde zwischenzeitlich gelöscht`);
+        return row;
+      };
+
+      switch (changes.dataType) {
+        case "teachers": {
+          for (const row of changes.rows) {
+            const values = getValuesToWrite(row);
+            const columns = {
+              ...values,
+              maxHours: values.maxHours?.toString(),
+            };
+            if (!row.existingId) {
+              const [created] = await tx.insert(teachers).values({
+                firstName: "",
+                lastName: "",
+                shortName: "",
+                ...columns,
+                schoolId,
+              }).returning();
+              auditChanges.push({ entityType: "teacher", entityId: created.id, action: "create", after: created });
+              importedTeacherIds.push(created.id);
+              result.created++;
+            } else {
+              const [before] = await tx.select().from(teachers).where(and(eq(teachers.id, row.existingId), this.schoolScope(teachers.schoolId)));
+              const [updated] = await tx.update(teachers).set(columns).where(eq(teachers.id, requireUpdated(before, row.label).id)).returning();
+              auditChanges.push({ entityType: "teacher", entityId: updated.id, action: "update", before, after: updated });
+              importedTeacherIds.push(updated.id);
+              result.updated++;
+            }
+          }
+          break;
+        }
+
+        case "classes": {
+          const teacherIds = new Map((await tx.select().from(teachers).where(this.schoolScope(teachers.schoolId)))
+            .map(teacher => [teacher.shortName, teacher.id]));
+          for (const row of changes.rows) {
+            const { classTeacher1ShortName, classTeacher2ShortName, ...values } = getValuesToWrite(row);
+            const columns = {
+              ...values,
+              studentCount: values.studentCount ?? undefined,
+              classTeacher1Id: classTeacher1ShortName ? teacherIds.get(classTeacher1ShortName) : undefined,
+              classTeacher2Id: classTeacher2ShortName ? teacherIds.get(classTeacher2ShortName) : undefined,
+            };
+            if (!row.existingId) {
+              const [created] = await tx.insert(classes).values({
+                name: "",
+                grade: 0,
+                type: "klasse",
+                subjectHours: {},
+                ...columns,
+                schoolYearId: schoolYear!.id,
+                schoolId,
+              }).returning();
+              auditChanges.push({ entityType: "class", entityId: created.id, action: "create", after: created });
+              result.created++;
+            } else {
+              const [before] = await tx.select().from(classes).where(and(eq(classes.id, row.existingId), this.schoolScope(classes.schoolId)));
+              const [updated] = await tx.update(classes).set(columns).where(eq(classes.id, requireUpdated(before, row.label).id)).returning();
+              auditChanges.push({ entityType: "class", entityId: updated.id, action: "update", before, after: updated });
+              result.updated++;
+            }
+          }
+          break;
+        }
+
+        case "students": {
+          // Classes of the file that don't exist yet are created first
+          const classIds = new Map((await tx.select().from(classes).where(and(eq(classes.schoolYearId, schoolYear!.id), this.schoolScope(classes.schoolId))))
+            .map(classItem => [classItem.name.toLowerCase(), classItem]));
+          for (const className of changes.newClasses) {
+            if (classIds.has(className.toLowerCase())) continue;
+            const grade = getGradeFromClassName(className)
+              ?? changes.rows.find(row => row.values.className === className)?.values.grade
+              ?? 5;
+            const [created] = await tx.insert(classes).values({
+              name: className,
+              grade,
+              type: "klasse",
+              studentCount: 0,
+              subjectHours: {},
+              schoolYearId: schoolYear!.id,
+              schoolId,
+            }).returning();
+            auditChanges.push({ entityType: "class", entityId: created.id, action: "create", after: created });
+            classIds.set(className.toLowerCase(), created);
+          }
+
+          for (const row of changes.rows) {
+            const { className, ...values } = getValuesToWrite(row);
+            const classRecord = className ? classIds.get(className.toLowerCase()) : undefined;
+            const columns = { ...values, grade: values.grade ?? undefined, classId: classRecord?.id };
+            if (!row.existingId) {
+              await tx.insert(students).values({
+                firstName: "",
+                lastName: "",
+                ...columns,
+                grade: columns.grade ?? classRecord?.grade ?? 5,
+                schoolYearId: schoolYear!.id,
+                schoolId,
+              });
+              result.created++;
+            } else {
+              const [updated] = await tx.update(students)
+                .set(columns)
+                .where(and(eq(students.id, row.existingId), this.schoolScope(students.schoolId)))
+                .returning();
+              requireUpdated(updated, row.label);
+              result.updated++;
+            }
+          }
+          break;
+        }
+      }
+
+      await this.recordAudit(auditChanges, tx);
+      return result;
+    });
+
+    // currentHours is not part of the file, it follows from the assignments
+    if (importedTeacherIds.length > 0) {
+      const [subjectList, classList, assignmentList, teamTeachingSettings] = await Promise.all([
+        this.getSubjects(),
+        this.getClasses(schoolYear?.id),
+        this.getAssignments(schoolYear?.id),
+        this.getTeamTeachingSettings(),
+      ]);
+      const teacherHours = calculateTeacherHours(assignmentList, subjectList, classList, { teamTeachingSettings });
+      await this.updateTeacherCurrentHours(importedTeacherIds.map(teacherId => ({
+        teacherId,
+        currentHours: teacherHours.get(teacherId)?.averageHours ?? 0,
+      })));
+    }
+    return result;
+  }
+
+  // Column mapping profiles of the CSV import
+  async getCsvMappingProfiles(dataType?: SchildImportType): Promise<CsvMappingProfile[]> {
+    return await db.select().from(csvMappingProfiles)
+      .where(and(
+        dataType ? eq(csvMappingProfiles.dataType, dataType) : undefined,
+        this.schoolScope(csvMappingProfiles.schoolId)
+      ))
+      .orderBy(csvMappingProfiles.name);
+  }
+
+  // Saving under an existing name replaces that profile
+  async saveCsvMappingProfile(profile: InsertCsvMappingProfile): Promise<CsvMappingProfile> {
+    const [existing] = await db.select().from(csvMappingProfiles).where(and(
+      eq(csvMappingProfiles.dataType, profile.dataType),
+      eq(csvMappingProfiles.name, profile.name),
+      this.schoolScope(csvMappingProfiles.schoolId)
+    ));
+    if (existing) {
+      const [updated] = await db
+        .update(csvMappingProfiles)
+        .set({ mapping: profile.mapping, updatedAt: new Date() })
+        .where(eq(csvMappingProfiles.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(csvMappingProfiles).values({ ...profile, schoolId: getCurrentSchoolId() }).returning();
+    return created;
+  }
+
+  async deleteCsvMappingProfile(id: string): Promise<void> {
+    await db.delete(csvMappingProfiles).where(and(eq(csvMappingProfiles.id, id), this.schoolScope(csvMappingProfiles.schoolId)));
   }
 
   // PDF Imports and Tables
   async getPdfImports(): Promise<PdfImport[]> {
-    return await db.select().from(pdfImports).orderBy(desc(pdfImports.createdAt));
+    return await db.select().from(pdfImports).where(this.schoolScope(pdfImports.schoolId)).orderBy(desc(pdfImports.createdAt));
   }
 
   async getPdfImport(id: string): Promise<PdfImport | undefined> {
-    const [pdfImport] = await db.select().from(pdfImports).where(eq(pdfImports.id, id));
+    const [pdfImport] = await db.select().from(pdfImports).where(and(eq(pdfImports.id, id), this.schoolScope(pdfImports.schoolId)));
     return pdfImport || undefined;
   }
 
   async createPdfImport(pdfImport: InsertPdfImport): Promise<PdfImport> {
-    const [created] = await db.insert(pdfImports).values(pdfImport).returning();
+    const [created] = await db.insert(pdfImports).values({ ...pdfImport, schoolId: getCurrentSchoolId() }).returning();
     return created;
   }
 
   async deletePdfImport(id: string): Promise<void> {
-    await db.delete(pdfImports).where(eq(pdfImports.id, id));
+    await db.delete(pdfImports).where(and(eq(pdfImports.id, id), this.schoolScope(pdfImports.schoolId)));
   }
 
   async getPdfTables(): Promise<PdfTable[]> {
-    return await db.select().from(pdfTables).orderBy(desc(pdfTables.extractedAt));
+    return await db.select().from(pdfTables).where(this.schoolScope(pdfTables.schoolId)).orderBy(desc(pdfTables.extractedAt));
   }
 
   async getPdfTable(id: string): Promise<PdfTable | undefined> {
-    const [pdfTable] = await db.select().from(pdfTables).where(eq(pdfTables.id, id));
+    const [pdfTable] = await db.select().from(pdfTables).where(and(eq(pdfTables.id, id), this.schoolScope(pdfTables.schoolId)));
     return pdfTable || undefined;
   }
 
   async getPdfTablesByImport(importId: string): Promise<PdfTable[]> {
-    return await db.select().from(pdfTables).where(eq(pdfTables.importId, importId));
+    return await db.select().from(pdfTables).where(and(eq(pdfTables.importId, importId), this.schoolScope(pdfTables.schoolId)));
   }
 
   async createPdfTable(pdfTable: InsertPdfTable): Promise<PdfTable> {
-    const [created] = await db.insert(pdfTables).values(pdfTable).returning();
+    const [created] = await db.insert(pdfTables).values({ ...pdfTable, schoolId: getCurrentSchoolId() }).returning();
     return created;
   }
 
@@ -1987,13 +2982,13 @@ export class DatabaseStorage implements IStorage {
     const [updated] = await db
       .update(pdfTables)
       .set(pdfTable)
-      .where(eq(pdfTables.id, id))
+      .where(and(eq(pdfTables.id, id), this.schoolScope(pdfTables.schoolId)))
       .returning();
     return updated;
   }
 
   async deletePdfTable(id: string): Promise<void> {
-    await db.delete(pdfTables).where(eq(pdfTables.id, id));
+    await db.delete(pdfTables).where(and(eq(pdfTables.id, id), this.schoolScope(pdfTables.schoolId)));
   }
 }
 
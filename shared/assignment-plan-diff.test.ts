@@ -0,0 +1,109 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Assignment } from "./schema";
+import type { PlannedAssignment } from "./assignment-solver";
+import { diffAssignmentPlan, selectConfirmedChanges } from "./assignment-plan-diff";
+
+function row(id: string, teacherId: string, subjectId: string, overrides: Partial<Assignment> = {}): Assignment {
+  return {
+    id,
+    teacherId,
+    classId: "05a",
+    subjectId,
+    semester: "1",
+    hoursPerWeek: "2",
+    isLocked: false,
+    teamTeachingId: null,
+    ...overrides,
+  } as Assignment;
+}
+
+function plan(teacherId: string, subjectId: string, hoursPerWeek = 2): PlannedAssignment {
+  return { classId: "05a", subjectId, semester: "1", teacherId, hoursPerWeek, score: 1, reasons: [] } as PlannedAssignment;
+}
+
+const context = { teachers: [], classes: [] };
+
+test("keeps rows of slots the solver left unfilled", () => {
+  const diff = diffAssignmentPlan([row("1", "MÜL", "M")], [], {
+    ...context,
+    unmetDemand: [{ classId: "05a", subjectId: "M", semester: "1" }],
+  });
+  assert.deepEqual(diff.changes, []);
+  assert.equal(diff.summary.unchanged, 1);
+});
+
+test("removes rows of slots without demand", () => {
+  const diff = diffAssignmentPlan([row("1", "MÜL", "M")], [], context);
+  assert.equal(diff.changes.length, 1);
+  assert.equal(diff.changes[0].action, "remove");
+  assert.deepEqual(diff.changes[0].reasoning, ["Fach nicht im Bedarf der Stundentafel"]);
+});
+
+test("an unmet slot of another semester does not protect the row", () => {
+  const diff = diffAssignmentPlan([row("1", "MÜL", "M")], [plan("SCH", "D")], {
+    ...context,
+    unmetDemand: [{ classId: "05a", subjectId: "M", semester: "2" }],
+  });
+  assert.deepEqual(diff.changes.map(change => change.action).sort(), ["add", "remove"]);
+});
+
+test("leaves team-taught and multi-teacher slots untouched", () => {
+  const existing = [
+    row("1", "MÜL", "M"),
+    row("2", "SCH", "M"),
+    row("3", "KOH", "D", { teamTeachingId: "team-1" }),
+  ];
+  const diff = diffAssignmentPlan(existing, [plan("NEU", "M"), plan("NEU", "D")], context);
+  assert.deepEqual(diff.changes, []);
+  assert.equal(diff.summary.unchanged, 3);
+});
+
+test("keeps unlocked partner rows of locked slots and never touches locked rows", () => {
+  const existing = [
+    row("1", "MÜL", "M", { isLocked: true }),
+    row("2", "SCH", "M"),
+  ];
+  const diff = diffAssignmentPlan(existing, [], context);
+  assert.deepEqual(diff.changes, []);
+  assert.equal(diff.summary.locked, 1);
+  assert.equal(diff.summary.unchanged, 1);
+});
+
+test("removes duplicate rows of the same teacher and keeps the planned one", () => {
+  const existing = [row("1", "MÜL", "M"), row("2", "MÜL", "M")];
+  const diff = diffAssignmentPlan(existing, [plan("MÜL", "M")], context);
+  assert.equal(diff.changes.length, 1);
+  assert.equal(diff.changes[0].action, "remove");
+  assert.equal(diff.changes[0].assignmentId, "2");
+  assert.equal(diff.summary.unchanged, 1);
+});
+
+test("reassigns a single-teacher slot to the planned teacher", () => {
+  const diff = diffAssignmentPlan([row("1", "MÜL", "M")], [plan("SCH", "M", 3)], context);
+  assert.equal(diff.changes.length, 1);
+  assert.equal(diff.changes[0].action, "change");
+  assert.equal(diff.changes[0].previousTeacherId, "MÜL");
+  assert.equal(diff.changes[0].teacherId, "SCH");
+  assert.equal(diff.changes[0].previousHours, 2);
+  assert.equal(diff.changes[0].hoursPerWeek, 3);
+});
+
+test("accepts confirmed changes that are part of the recomputed diff", () => {
+  const diff = diffAssignmentPlan([row("1", "MÜL", "M")], [plan("SCH", "M"), plan("SCH", "D")], context);
+  const confirmed = selectConfirmedChanges(diff.changes.map(change => ({ ...change, reasoning: [] })), diff);
+  // The server's version is written, not the client's
+  assert.deepEqual(confirmed, diff.changes);
+});
+
+test("rejects stale, altered, unknown and repeated confirmed changes", () => {
+  const before = diffAssignmentPlan([row("1", "MÜL", "M")], [plan("SCH", "M")], context);
+  // Someone else assigned KOH in the meantime
+  const after = diffAssignmentPlan([row("1", "KOH", "M")], [plan("SCH", "M")], context);
+  assert.equal(selectConfirmedChanges(before.changes, after), undefined);
+
+  const [change] = before.changes;
+  assert.equal(selectConfirmedChanges([{ ...change, teacherId: "FREMD" }], before), undefined);
+  assert.equal(selectConfirmedChanges([{ ...change, assignmentId: "unknown" }], before), undefined);
+  assert.equal(selectConfirmedChanges([change, change], before), undefined);
+});
@@ -0,0 +1,323 @@
+import { z } from "zod";
+import { Assignment, Teacher, Class } from "./schema";
+import { PlannedAssignment, UnmetDemand } from "./assignment-solver";
+
+/**
+ * Assignment Plan Diff
+ *
+ * Compares the current assignments with a solved plan and describes the difference
+ * as add/remove/change entries, so that optimization results can be previewed and
+ * only applied after explicit confirmation.
+ *
+ * Features:
+ * - One entry per affected assignment row (fields mirror RecommendedAssignment)
+ * - Grouping by class and by teacher
+ * - Teacher workload deltas (average of both semesters, as in Lehrerverwaltung)
+ * - Locked assignments are never changed or removed
+ * - Slots taught by several teachers (team teaching, locked partners) are left untouched
+ * - Slots the solver could not fill (unmet demand) keep their current teacher
+ * - Confirmed changes are checked against a recomputed diff before they are written
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const assignmentChangeSchema = z.object({
+  action: z.enum(['add', 'remove', 'change']),
+  assignmentId: z.string().nullable(),
+  teacherId: z.string(),
+  previousTeacherId: z.string().nullable(),
+  classId: z.string(),
+  subjectId: z.string(),
+  semester: z.enum(["1", "2"]),
+  hoursPerWeek: z.number().min(0),
+  previousHours: z.number().min(0).nullable(),
+  confidence: z.number(),
+  reasoning: z.array(z.string()),
+});
+
+export const classChangeGroupSchema = z.object({
+  classId: z.string(),
+  className: z.string(),
+  hoursDelta: z.number(),
+  changes: z.array(assignmentChangeSchema),
+});
+
+export const teacherChangeGroupSchema = z.object({
+  teacherId: z.string(),
+  shortName: z.string(),
+  currentHours: z.number(),
+  projectedHours: z.number(),
+  hoursDelta: z.number(),
+  changes: z.array(assignmentChangeSchema),
+});
+
+export const assignmentPlanDiffSchema = z.object({
+  changes: z.array(assignmentChangeSchema),
+  byClass: z.array(classChangeGroupSchema),
+  byTeacher: z.array(teacherChangeGroupSchema),
+  summary: z.object({
+    added: z.number().int().min(0),
+    removed: z.number().int().min(0),
+    changed: z.number().int().min(0),
+    unchanged: z.number().int().min(0),
+    locked: z.number().int().min(0),
+  }),
+});
+
+export const applyAssignmentChangesRequestSchema = z.object({
+  changes: z.array(assignmentChangeSchema).min(1, "Keine Änderungen zum Übernehmen"),
+});
+
+export type AssignmentChange = z.infer<typeof assignmentChangeSchema>;
+export type ClassChangeGroup = z.infer<typeof classChangeGroupSchema>;
+export type TeacherChangeGroup = z.infer<typeof teacherChangeGroupSchema>;
+export type AssignmentPlanDiff = z.infer<typeof assignmentPlanDiffSchema>;
+export type ApplyAssignmentChangesRequest = z.infer<typeof applyAssignmentChangesRequestSchema>;
+
+// ===== HELPER FUNCTIONS =====
+
+function slotKey(classId: string, subjectId: string, semester: string): string {
+  return `${classId}|${subjectId}|${semester}`;
+}
+
+/**
+ * Signed hour change a diff entry causes for one teacher in one semester
+ */
+function getTeacherSemesterDelta(change: AssignmentChange, teacherId: string): number {
+  let delta = 0;
+  if (change.action !== 'add' && change.previousTeacherId === teacherId) {
+    delta -= change.previousHours ?? 0;
+  }
+  if (change.action !== 'remove' && change.teacherId === teacherId) {
+    delta += change.hoursPerWeek;
+  }
+  return delta;
+}
+
+function getClassDelta(change: AssignmentChange): number {
+  const before = change.action === 'add' ? 0 : change.previousHours ?? 0;
+  const after = change.action === 'remove' ? 0 : change.hoursPerWeek;
+  return after - before;
+}
+
+// ===== CORE DIFF FUNCTION =====
+
+function changeKey(change: AssignmentChange): string {
+  return [
+    change.action, change.assignmentId, change.teacherId, change.previousTeacherId,
+    change.classId, change.subjectId, change.semester, change.hoursPerWeek,
+  ].join('|');
+}
+
+/**
+ * The solver plans one teacher per slot, so it cannot tell a team-taught slot from a duplicate.
+ * Slots with several teachers, team-teaching rows or locked partner rows keep their rows.
+ */
+function isMultiTeacherSlot(rows: Assignment[], hasLockedRows: boolean): boolean {
+  if (rows.length === 0) return false;
+  return hasLockedRows
+    || rows.some(row => row.teamTeachingId)
+    || new Set(rows.map(row => row.teacherId)).size > 1;
+}
+
+/**
+ * Computes the diff between current assignments and a solved plan.
+ * Per class, subject and semester the planned teacher keeps a matching row if one exists;
+ * otherwise the first existing row is reassigned and surplus rows of the same teacher are removed.
+ * Multi-teacher slots are not changed (see isMultiTeacherSlot).
+ */
+export function diffAssignmentPlan(
+  existing: Assignment[],
+  planned: PlannedAssignment[],
+  context: { teachers: Teacher[]; classes: Class[]; unmetDemand?: Pick<UnmetDemand, 'classId' | 'subjectId' | 'semester'>[] }
+): AssignmentPlanDiff {
+  // Locked rows are fixed input for the solver, its plan only covers the remaining demand
+  const lockedRows = existing.filter(assignment => assignment.isLocked);
+  const lockedSlots = new Set(lockedRows.map(row => slotKey(row.classId, row.subjectId, row.semester)));
+  // In the demand but left open by the solver - today's teacher is better than none
+  const unmetSlots = new Set((context.unmetDemand ?? [])
+    .filter(demand => demand.subjectId)
+    .map(demand => slotKey(demand.classId, demand.subjectId!, demand.semester)));
+  const existingBySlot = new Map<string, Assignment[]>();
+  existing.filter(assignment => !assignment.isLocked).forEach(assignment => {
+    const key = slotKey(assignment.classId, assignment.subjectId, assignment.semester);
+    const rows = existingBySlot.get(key) || [];
+    rows.push(assignment);
+    existingBySlot.set(key, rows);
+  });
+
+  const plannedBySlot = new Map<string, PlannedAssignment>();
+  planned.forEach(plan => {
+    plannedBySlot.set(slotKey(plan.classId, plan.subjectId, plan.semester), plan);
+  });
+
+  const changes: AssignmentChange[] = [];
+  let unchanged = 0;
+
+  const removal = (row: Assignment, reason: string): AssignmentChange => ({
+    action: 'remove',
+    assignmentId: row.id,
+    teacherId: row.teacherId,
+    previousTeacherId: row.teacherId,
+    classId: row.classId,
+    subjectId: row.subjectId,
+    semester: row.semester as "1" | "2",
+    hoursPerWeek: 0,
+    previousHours: parseFloat(row.hoursPerWeek),
+    confidence: 0,
+    reasoning: [reason],
+  });
+
+  // Rows of multi-teacher slots stay as they are, whether or not the plan covers the slot
+  existingBySlot.forEach((rows, key) => {
+    if (!isMultiTeacherSlot(rows, lockedSlots.has(key))) return;
+    unchanged += rows.length;
+    existingBySlot.delete(key);
+    plannedBySlot.delete(key);
+  });
+
+  for (const [key, plan] of Array.from(plannedBySlot.entries())) {
+    const rows = existingBySlot.get(key) || [];
+    const keep = rows.find(row => row.teacherId === plan.teacherId) || rows[0];
+
+    if (!keep) {
+      changes.push({
+        action: 'add',
+        assignmentId: null,
+        teacherId: plan.teacherId,
+        previousTeacherId: null,
+        classId: plan.classId,
+        subjectId: plan.subjectId,
+        semester: plan.semester,
+        hoursPerWeek: plan.hoursPerWeek,
+        previousHours: null,
+        confidence: plan.score,
+        reasoning: plan.reasons,
+      });
+      continue;
+    }
+
+    const previousHours = parseFloat(keep.hoursPerWeek);
+    if (keep.teacherId === plan.teacherId && previousHours === plan.hoursPerWeek) {
+      unchanged++;
+    } else {
+      changes.push({
+        action: 'change',
+        assignmentId: keep.id,
+        teacherId: plan.teacherId,
+        previousTeacherId: keep.teacherId,
+        classId: plan.classId,
+        subjectId: plan.subjectId,
+        semester: plan.semester,
+        hoursPerWeek: plan.hoursPerWeek,
+        previousHours,
+        confidence: plan.score,
+        reasoning: plan.reasons,
+      });
+    }
+
+    rows.filter(row => row !== keep).forEach(row => {
+      changes.push(removal(row, 'Doppelte Zuweisung für dieses Fach und Halbjahr'));
+    });
+  }
+
+  existingBySlot.forEach((rows, key) => {
+    if (plannedBySlot.has(key)) return;
+    if (unmetSlots.has(key)) {
+      unchanged += rows.length;
+      return;
+    }
+    rows.forEach(row => changes.push(removal(row, 'Fach nicht im Bedarf der Stundentafel')));
+  });
+
+  return {
+    changes,
+    byClass: groupChangesByClass(changes, context.classes),
+    byTeacher: groupChangesByTeacher(changes, existing, context.teachers),
+    summary: {
+      added: changes.filter(c => c.action === 'add').length,
+      removed: changes.filter(c => c.action === 'remove').length,
+      changed: changes.filter(c => c.action === 'change').length,
+      unchanged,
+      locked: lockedRows.length,
+    },
+  };
+}
+
+/**
+ * Changes of a recomputed diff that the client confirmed, in the server's version.
+ * Undefined if a confirmed change is not part of the diff: the data changed since the preview
+ * or the request does not come from a preview.
+ */
+export function selectConfirmedChanges(confirmed: AssignmentChange[], diff: AssignmentPlanDiff): AssignmentChange[] | undefined {
+  const diffByKey = new Map(diff.changes.map(change => [changeKey(change), change]));
+  const selected: AssignmentChange[] = [];
+  for (const change of confirmed) {
+    const match = diffByKey.get(changeKey(change));
+    if (!match) return undefined;
+    selected.push(match);
+    diffByKey.delete(changeKey(change));
+  }
+  return selected;
+}
+
+// ===== GROUPING =====
+
+export function groupChangesByClass(changes: AssignmentChange[], classes: Class[]): ClassChangeGroup[] {
+  const groups = new Map<string, ClassChangeGroup>();
+
+  changes.forEach(change => {
+    let group = groups.get(change.classId);
+    if (!group) {
+      const classData = classes.find(c => c.id === change.classId);
+      group = { classId: change.classId, className: classData?.name ?? change.classId, hoursDelta: 0, changes: [] };
+      groups.set(change.classId, group);
+    }
+    group.changes.push(change);
+    group.hoursDelta += getClassDelta(change);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.className.localeCompare(b.className, 'de', { numeric: true }));
+}
+
+export function groupChangesByTeacher(
+  changes: AssignmentChange[],
+  existing: Assignment[],
+  teachers: Teacher[]
+): TeacherChangeGroup[] {
+  const groups = new Map<string, TeacherChangeGroup>();
+
+  const ensureGroup = (teacherId: string): TeacherChangeGroup => {
+    let group = groups.get(teacherId);
+    if (!group) {
+      const teacher = teachers.find(t => t.id === teacherId);
+      // Weekly workload is the average of both semesters
+      const currentHours = existing
+        .filter(a => a.teacherId === teacherId)
+        .reduce((sum, a) => sum + parseFloat(a.hoursPerWeek), 0) / 2;
+      group = {
+        teacherId,
+        shortName: teacher?.shortName ?? teacherId,
+        currentHours,
+        projectedHours: currentHours,
+        hoursDelta: 0,
+        changes: [],
+      };
+      groups.set(teacherId, group);
+    }
+    return group;
+  };
+
+  changes.forEach(change => {
+    const affected = new Set([change.teacherId, change.previousTeacherId].filter((id): id is string => !!id));
+    affected.forEach(teacherId => {
+      const group = ensureGroup(teacherId);
+      group.changes.push(change);
+      group.hoursDelta += getTeacherSemesterDelta(change, teacherId) / 2;
+    });
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, projectedHours: group.currentHours + group.hoursDelta }))
+    .sort((a, b) => a.shortName.localeCompare(b.shortName));
+}
@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Assignment, Class, Subject, Teacher, TeacherConstraint } from "./schema";
+import { getTeacherCapacity, solveAssignments, type SolverInput } from "./assignment-solver";
+
+function teacher(id: string, subjects: string[], maxHours: string, overrides: Partial<Teacher> = {}): Teacher {
+  return {
+    id,
+    firstName: "",
+    lastName: id,
+    shortName: id,
+    subjects,
+    qualifications: [],
+    maxHours,
+    currentHours: "0",
+    reductionHours: {},
+    isActive: true,
+    ...overrides,
+  } as Teacher;
+}
+
+function schoolClass(id: string, subjectHours: Record<string, number>): Class {
+  return { id, name: id, grade: 5, subjectHours, classTeacher1Id: null, classTeacher2Id: null } as Class;
+}
+
+function locked(teacherId: string, classId: string, subjectId: string, semester: string, hoursPerWeek: string): Assignment {
+  return { id: `${classId}-${semester}`, teacherId, classId, subjectId, semester, hoursPerWeek, isLocked: true, teamTeachingId: null } as Assignment;
+}
+
+function hardConstraint(teacherId: string, classId: string): TeacherConstraint {
+  return { id: `c-${teacherId}`, teacherId, type: "exclude_class", strength: "hard", weight: 50, grade: null, classId, subjectId: null, maxCount: null } as TeacherConstraint;
+}
+
+const subjects = [
+  { id: "M", name: "Mathematik", shortName: "M", parallelGroup: null },
+  { id: "D", name: "Deutsch", shortName: "D", parallelGroup: null },
+  { id: "PH", name: "Physik", shortName: "PH", parallelGroup: null },
+] as Subject[];
+
+function solve(input: Partial<SolverInput>, options = {}) {
+  return solveAssignments({ teachers: [], classes: [], subjects, ...input }, options);
+}
+
+test("capacity is maxHours minus the reduction hours", () => {
+  const mueller = teacher("MÜL", ["M"], "10", { reductionHours: { AE: 1, BA: 1 } });
+  assert.equal(getTeacherCapacity(mueller), 8);
+
+  const plan = solve({
+    teachers: [mueller],
+    classes: [schoolClass("05a", { M: 4 }), schoolClass("05b", { M: 4 }), schoolClass("05c", { M: 4 })],
+  });
+  const load = plan.teacherLoads.find(l => l.teacherId === "MÜL");
+  assert.equal(load?.capacity, 8);
+  assert.equal(load?.semester1Hours, 8);
+  assert.equal(load?.semester2Hours, 8);
+  assert.deepEqual(plan.unmetDemand.map(d => d.reason), ["capacity_exhausted", "capacity_exhausted"]);
+  assert.equal(plan.statistics.unmetHours, 8);
+});
+
+test("locked rows count as fixed load and cover their slot", () => {
+  const plan = solve({
+    teachers: [teacher("MÜL", ["M"], "6")],
+    classes: [schoolClass("05a", { M: 4 }), schoolClass("05b", { M: 4 })],
+    lockedAssignments: [locked("MÜL", "05a", "M", "1", "4"), locked("MÜL", "05a", "M", "2", "4")],
+  });
+  // 05a is already covered, the remaining 2 hours per semester are not enough for 05b
+  assert.deepEqual(plan.assignments, []);
+  assert.deepEqual(plan.unmetDemand.map(d => [d.classId, d.reason]), [
+    ["05b", "capacity_exhausted"],
+    ["05b", "capacity_exhausted"],
+  ]);
+  assert.equal(plan.statistics.lockedHours, 8);
+});
+
+test("hard constraints exclude a teacher from the slot", () => {
+  const classes = [schoolClass("05a", { M: 4 })];
+  const constraints = [hardConstraint("MÜL", "05a")];
+
+  const plan = solve({ teachers: [teacher("MÜL", ["M"], "25"), teacher("SCH", ["M"], "25")], classes, constraints });
+  assert.deepEqual(plan.assignments.map(a => a.teacherId), ["SCH", "SCH"]);
+
+  const blocked = solve({ teachers: [teacher("MÜL", ["M"], "25")], classes, constraints });
+  assert.deepEqual(blocked.assignments, []);
+  assert.deepEqual(blocked.unmetDemand.map(d => d.reason), ["hard_constraint", "hard_constraint"]);
+});
+
+test("reports unknown subjects and subjects without qualified teachers as unmet demand", () => {
+  const plan = solve({
+    teachers: [teacher("MÜL", ["M"], "25")],
+    classes: [schoolClass("05a", { XY: 2, PH: 2 })],
+  });
+  assert.deepEqual(plan.unmetDemand.map(d => [d.subjectKey, d.subjectId, d.semester, d.reason]), [
+    ["XY", null, "1", "subject_not_found"],
+    ["XY", null, "2", "subject_not_found"],
+    ["PH", "PH", "1", "no_qualified_teacher"],
+    ["PH", "PH", "2", "no_qualified_teacher"],
+  ]);
+  assert.equal(plan.statistics.demandHours, 8);
+  assert.equal(plan.statistics.coveredHours, 0);
+});
+
+test("the repair pass moves a unit to another teacher to cover unmet demand", () => {
+  // MÜL gets M first, then D only fits MÜL because WEB is excluded from 05a
+  const input = {
+    teachers: [teacher("MÜL", ["M", "D"], "4"), teacher("SCH", ["M"], "4"), teacher("WEB", ["D"], "4")],
+    classes: [schoolClass("05a", { M: 4, D: 2 })],
+    constraints: [hardConstraint("WEB", "05a")],
+  };
+
+  const plan = solve(input);
+  assert.deepEqual(plan.unmetDemand, []);
+  assert.equal(plan.statistics.repairedDemands, 2);
+  const teacherOf = (subjectId: string) => new Set(plan.assignments.filter(a => a.subjectId === subjectId).map(a => a.teacherId));
+  assert.deepEqual(teacherOf("M"), new Set(["SCH"]));
+  assert.deepEqual(teacherOf("D"), new Set(["MÜL"]));
+
+  const withoutRepair = solve(input, { enableRepair: false });
+  assert.deepEqual(withoutRepair.unmetDemand.map(d => [d.subjectKey, d.reason]), [
+    ["D", "capacity_exhausted"],
+    ["D", "capacity_exhausted"],
+  ]);
+});
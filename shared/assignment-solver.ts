@@ -0,0 +1,709 @@
+import { z } from "zod";
+import { Teacher, Class, Subject, Assignment, TeacherConstraint } from "./schema";
+import { PARALLEL_GROUPS, getParallelGroupForSubject } from "./parallel-subjects";
+import {
+  constraintViolationSchema,
+  describeConstraint,
+  evaluateConstraintViolations,
+  explanationKey,
+  getFulfilledPreferences,
+  getViolatedConstraints,
+  type ConstraintSlot,
+} from "./teacher-constraints";
+import {
+  buildPreviousTeacherIndex,
+  calculateContinuityScore,
+  getPreviousYearTeachers,
+  isClassTeacher,
+  isCoreSubject,
+  type PreviousYearData,
+} from "./class-continuity";
+
+/**
+ * Assignment Solver for German Realschule (Grades 5-10)
+ *
+ * Builds a complete lesson distribution (Unterrichtsverteilung) from the real data:
+ * - Demand from each class's subjectHours (per semester)
+ * - Teacher qualification from subjects/qualifications
+ * - Teacher capacity from maxHours minus reductionHours
+ * - Parallel groups (Religion, Differenzierung) from parallel-subjects.ts
+ * - Locked assignments as fixed input (only the remaining demand is planned)
+ * - Teacher constraints (hard exclusions, weighted soft wishes) from teacher-constraints.ts
+ * - Class teacher and previous school year continuity from class-continuity.ts
+ *
+ * Features:
+ * - Most-constrained-first ordering (subjects with few qualified teachers first)
+ * - Same teacher for both semesters of a class subject where possible
+ * - Repair pass that moves existing demand to free capacity for unmet demand
+ * - Scored plan with explained unmet demand instead of silent skips
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const solverOptionsSchema = z.object({
+  includeInactiveTeachers: z.boolean().optional().default(false),
+  allowQualificationFallback: z.boolean().optional().default(true),
+  enableRepair: z.boolean().optional().default(true),
+});
+
+export const plannedAssignmentSchema = z.object({
+  teacherId: z.string(),
+  classId: z.string(),
+  subjectId: z.string(),
+  semester: z.enum(["1", "2"]),
+  hoursPerWeek: z.number().min(0),
+  score: z.number(),
+  reasons: z.array(z.string()),
+});
+
+export const unmetDemandSchema = z.object({
+  classId: z.string(),
+  className: z.string(),
+  subjectKey: z.string(),
+  subjectId: z.string().nullable(),
+  semester: z.enum(["1", "2"]),
+  hours: z.number().min(0),
+  reason: z.enum(["subject_not_found", "no_qualified_teacher", "capacity_exhausted", "hard_constraint"]),
+  message: z.string(),
+  candidateTeacherIds: z.array(z.string()),
+});
+
+export const teacherLoadSchema = z.object({
+  teacherId: z.string(),
+  shortName: z.string(),
+  capacity: z.number(),
+  semester1Hours: z.number(),
+  semester2Hours: z.number(),
+  utilization: z.number(),
+});
+
+export const solverScoreSchema = z.object({
+  total: z.number().min(0).max(100),
+  coverage: z.number().min(0).max(100),
+  qualification: z.number().min(0).max(100),
+  balance: z.number().min(0).max(100),
+  continuity: z.number().min(0).max(100),
+  classContinuity: z.number().min(0).max(100),
+});
+
+export const solverPlanSchema = z.object({
+  assignments: z.array(plannedAssignmentSchema),
+  unmetDemand: z.array(unmetDemandSchema),
+  teacherLoads: z.array(teacherLoadSchema),
+  score: solverScoreSchema,
+  constraintViolations: z.array(constraintViolationSchema),
+  statistics: z.object({
+    demandHours: z.number(),
+    coveredHours: z.number(),
+    unmetHours: z.number(),
+    lockedHours: z.number(),
+    repairedDemands: z.number().int().min(0),
+  }),
+});
+
+export type SolverOptions = z.infer<typeof solverOptionsSchema>;
+export type PlannedAssignment = z.infer<typeof plannedAssignmentSchema>;
+export type UnmetDemand = z.infer<typeof unmetDemandSchema>;
+export type TeacherLoad = z.infer<typeof teacherLoadSchema>;
+export type SolverScore = z.infer<typeof solverScoreSchema>;
+export type SolverPlan = z.infer<typeof solverPlanSchema>;
+
+export interface SolverInput {
+  teachers: Teacher[];
+  classes: Class[];
+  subjects: Subject[];
+  lockedAssignments?: Assignment[];
+  constraints?: TeacherConstraint[];
+  previousYear?: PreviousYearData | null;
+}
+
+// ===== CONSTANTS =====
+
+/**
+ * Weights for the candidate score of a teacher
+ */
+export const SOLVER_WEIGHTS = {
+  SUBJECT_MATCH: 100,
+  QUALIFICATION_MATCH: 60,
+  CONTINUITY: 40,
+  BALANCE: 30,
+  CLASS_TEACHER_CORE: 35,
+  PREVIOUS_YEAR: 25,
+  // Multiplier for the weight (1-100) of soft teacher constraints
+  SOFT_CONSTRAINT: 1,
+} as const;
+
+/**
+ * Explanations for unmet demand
+ */
+export const UNMET_DEMAND_MESSAGES = {
+  subject_not_found: 'Fach aus der Stundentafel existiert nicht in der Fächerverwaltung',
+  no_qualified_teacher: 'Keine Lehrkraft mit passender Fakultas vorhanden',
+  capacity_exhausted: 'Alle qualifizierten Lehrkräfte sind ausgelastet',
+  hard_constraint: 'Verbindliche Vorgaben schließen alle qualifizierten Lehrkräfte aus',
+} as const;
+
+const VIOLATION_REASONS = {
+  no_alternative: 'Keine qualifizierte Lehrkraft ohne Verstoß mit freier Kapazität',
+  outweighed: 'Fakultas, Kontinuität und Auslastung wurden höher gewichtet',
+} as const;
+
+const SEMESTERS = ["1", "2"] as const;
+type Semester = typeof SEMESTERS[number];
+
+// ===== INTERNAL STATE =====
+
+/**
+ * One unit of work: a subject taught in one semester by a single teacher.
+ * Differenzierung courses span all classes of a grade, so a unit can cover several classes
+ * while its hours count only once against the teacher's workload.
+ */
+interface DemandUnit {
+  key: string;
+  classIds: string[];
+  className: string;
+  subjectKey: string;
+  subject: Subject | null;
+  semester: Semester;
+  hours: number;
+  candidates: Teacher[];
+  fallbackCandidates: Teacher[];
+}
+
+interface TeacherState {
+  teacher: Teacher;
+  capacity: number;
+  load: Record<Semester, number>;
+}
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * Total reduction hours (Ermäßigungsstunden) of a teacher
+ */
+export function getTotalReductionHours(teacher: Teacher): number {
+  const reductions = (teacher.reductionHours || {}) as Record<string, number | string | undefined>;
+  return Object.values(reductions).reduce<number>((sum, value) => {
+    const numeric = typeof value === "number" ? value : parseFloat(value ?? "0");
+    return sum + (Number.isFinite(numeric) ? numeric : 0);
+  }, 0);
+}
+
+/**
+ * Weekly teaching capacity of a teacher: maxHours minus reductionHours
+ */
+export function getTeacherCapacity(teacher: Teacher): number {
+  const maxHours = parseFloat(teacher.maxHours);
+  return Math.max(0, (Number.isFinite(maxHours) ? maxHours : 0) - getTotalReductionHours(teacher));
+}
+
+/**
+ * Normalizes a subjectHours entry to per-semester hours.
+ * Plain numbers are weekly hours taught in both semesters, objects carry { "1": x, "2": y }.
+ */
+export function getSemesterHours(value: unknown): Record<Semester, number> {
+  if (typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    return {
+      "1": Number(record["1"]) || 0,
+      "2": Number(record["2"]) || 0,
+    };
+  }
+  const hours = Number(value) || 0;
+  return { "1": hours, "2": hours };
+}
+
+function normalize(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+function splitTeacherEntries(entries: string[]): Set<string> {
+  const result = new Set<string>();
+  for (const entry of entries) {
+    for (const part of entry.split(/[,;]/)) {
+      const normalized = normalize(part);
+      if (normalized) result.add(normalized);
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks whether a teacher can teach a subject.
+ * Exact matches on shortName or name only, to avoid false positives like "E" in "EK".
+ */
+export function getTeacherSubjectMatch(teacher: Teacher, subject: Subject): 'subject' | 'qualification' | null {
+  const names = [normalize(subject.shortName), normalize(subject.name)];
+  const teacherSubjects = splitTeacherEntries(teacher.subjects || []);
+  if (names.some(name => teacherSubjects.has(name))) return 'subject';
+
+  const qualifications = splitTeacherEntries(teacher.qualifications || []);
+  if (names.some(name => qualifications.has(name))) return 'qualification';
+
+  return null;
+}
+
+function slotKey(classId: string, subjectId: string, semester: string): string {
+  return `${classId}|${subjectId}|${semester}`;
+}
+
+/**
+ * Subject of a Stundentafel key (shortName first, then full name)
+ */
+export function findSubject(subjects: Subject[], subjectKey: string): Subject | null {
+  const key = normalize(subjectKey);
+  return subjects.find(s => normalize(s.shortName) === key)
+    || subjects.find(s => normalize(s.name) === key)
+    || null;
+}
+
+// ===== DEMAND CONSTRUCTION =====
+
+function buildDemandUnits(
+  classes: Class[],
+  subjects: Subject[],
+  teachers: Teacher[],
+  lockedHoursBySlot: Map<string, number>,
+  unmetDemand: UnmetDemand[]
+): DemandUnit[] {
+  const units = new Map<string, DemandUnit>();
+
+  for (const classData of classes) {
+    for (const [subjectKey, rawHours] of Object.entries(classData.subjectHours || {})) {
+      const parallelGroup = getParallelGroupForSubject(subjectKey);
+      const semesterHours = getSemesterHours(rawHours);
+      const subject = findSubject(subjects, subjectKey);
+
+      for (const semester of SEMESTERS) {
+        let hours = semesterHours[semester];
+        if (hours <= 0 && parallelGroup) {
+          hours = parallelGroup.hoursPerGrade[classData.grade] || 0;
+        }
+        if (hours <= 0) continue;
+
+        if (!subject) {
+          unmetDemand.push({
+            classId: classData.id,
+            className: classData.name,
+            subjectKey,
+            subjectId: null,
+            semester,
+            hours,
+            reason: 'subject_not_found',
+            message: `${subjectKey}: ${UNMET_DEMAND_MESSAGES.subject_not_found}`,
+            candidateTeacherIds: [],
+          });
+          continue;
+        }
+
+        // Locked rows already cover part of the demand
+        hours -= lockedHoursBySlot.get(slotKey(classData.id, subject.id, semester)) || 0;
+        if (hours <= 0) continue;
+
+        // Differenzierung courses are taught once per grade, not once per class
+        const isGradeCourse = parallelGroup?.id === PARALLEL_GROUPS.Differenzierung.id;
+        const key = isGradeCourse
+          ? `grade-${classData.grade}|${subject.id}|${semester}`
+          : `${classData.id}|${subject.id}|${semester}`;
+
+        const existing = units.get(key);
+        if (existing) {
+          if (!existing.classIds.includes(classData.id)) {
+            existing.classIds.push(classData.id);
+            existing.className = `Jahrgang ${classData.grade}`;
+          }
+          existing.hours = Math.max(existing.hours, hours);
+          continue;
+        }
+
+        const candidates: Teacher[] = [];
+        const fallbackCandidates: Teacher[] = [];
+        for (const teacher of teachers) {
+          const match = getTeacherSubjectMatch(teacher, subject);
+          if (match === 'subject') candidates.push(teacher);
+          else if (match === 'qualification') fallbackCandidates.push(teacher);
+        }
+
+        units.set(key, {
+          key,
+          classIds: [classData.id],
+          className: classData.name,
+          subjectKey,
+          subject,
+          semester,
+          hours,
+          candidates,
+          fallbackCandidates,
+        });
+      }
+    }
+  }
+
+  return Array.from(units.values());
+}
+
+// ===== CORE SOLVER =====
+
+/**
+ * Main solver function
+ * Assigns teachers to the complete demand of all classes and explains what stays unmet
+ */
+export function solveAssignments(
+  input: SolverInput,
+  options: Partial<SolverOptions> = {}
+): SolverPlan {
+  const opts = solverOptionsSchema.parse(options);
+  const teachers = opts.includeInactiveTeachers
+    ? input.teachers
+    : input.teachers.filter(t => t.isActive);
+
+  const lockedAssignments = input.lockedAssignments || [];
+  const lockedHoursBySlot = new Map<string, number>();
+  lockedAssignments.forEach(assignment => {
+    const key = slotKey(assignment.classId, assignment.subjectId, assignment.semester);
+    lockedHoursBySlot.set(key, (lockedHoursBySlot.get(key) || 0) + parseFloat(assignment.hoursPerWeek));
+  });
+
+  const unmetDemand: UnmetDemand[] = [];
+  const units = buildDemandUnits(input.classes, input.subjects, teachers, lockedHoursBySlot, unmetDemand);
+
+  const teacherStates = new Map<string, TeacherState>();
+  teachers.forEach(teacher => {
+    teacherStates.set(teacher.id, {
+      teacher,
+      capacity: getTeacherCapacity(teacher),
+      load: { "1": 0, "2": 0 },
+    });
+  });
+
+  // Chosen teacher per unit key, plus the class subject teacher for continuity across semesters
+  const chosen = new Map<string, { teacherId: string; score: number; reasons: string[] }>();
+  const continuityTeacher = new Map<string, string>();
+  const continuityKey = (unit: DemandUnit) => unit.key.replace(/\|[12]$/, '');
+
+  // Classes per teacher and subject (with a counter per class, as both semesters add the class)
+  const constraints = input.constraints || [];
+  const classById = new Map(input.classes.map(c => [c.id, c]));
+  const teacherSubjectClasses = new Map<string, Map<string, number>>();
+  const trackClasses = (teacherId: string, subjectId: string, classIds: string[], delta: number) => {
+    const key = `${teacherId}|${subjectId}`;
+    const counts = teacherSubjectClasses.get(key) || new Map<string, number>();
+    classIds.forEach(classId => {
+      const next = (counts.get(classId) || 0) + delta;
+      if (next > 0) counts.set(classId, next);
+      else counts.delete(classId);
+    });
+    teacherSubjectClasses.set(key, counts);
+  };
+  const assignedClassIds = (teacherId: string, subjectId: string) =>
+    new Set(Array.from(teacherSubjectClasses.get(`${teacherId}|${subjectId}`)?.keys() || []));
+  const slotOf = (unit: DemandUnit): ConstraintSlot => ({
+    classIds: unit.classIds,
+    grades: unit.classIds.map(id => classById.get(id)?.grade ?? 0),
+    subjectId: unit.subject?.id ?? '',
+  });
+  const previousTeacherIndex = buildPreviousTeacherIndex(input.previousYear);
+
+  const violationsFor = (unit: DemandUnit, teacherId: string) =>
+    getViolatedConstraints(teacherId, slotOf(unit), constraints, assignedClassIds(teacherId, slotOf(unit).subjectId));
+
+  // Locked rows count against the teacher's capacity and anchor continuity
+  lockedAssignments.forEach(assignment => {
+    const state = teacherStates.get(assignment.teacherId);
+    if (state && (assignment.semester === "1" || assignment.semester === "2")) {
+      state.load[assignment.semester] += parseFloat(assignment.hoursPerWeek);
+    }
+    continuityTeacher.set(`${assignment.classId}|${assignment.subjectId}`, assignment.teacherId);
+    trackClasses(assignment.teacherId, assignment.subjectId, [assignment.classId], 1);
+  });
+
+  const eligibleCandidates = (unit: DemandUnit): Teacher[] =>
+    opts.allowQualificationFallback
+      ? [...unit.candidates, ...unit.fallbackCandidates]
+      : unit.candidates;
+
+  const scoreCandidate = (unit: DemandUnit, teacher: Teacher): { score: number; reasons: string[] } | null => {
+    const state = teacherStates.get(teacher.id);
+    if (!state) return null;
+
+    const remaining = state.capacity - state.load[unit.semester];
+    if (remaining < unit.hours) return null;
+
+    const violated = violationsFor(unit, teacher.id);
+    if (violated.some(c => c.strength === 'hard')) return null;
+
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (unit.candidates.includes(teacher)) {
+      score += SOLVER_WEIGHTS.SUBJECT_MATCH;
+      reasons.push(`Unterrichtet ${unit.subject?.shortName}`);
+    } else {
+      score += SOLVER_WEIGHTS.QUALIFICATION_MATCH;
+      reasons.push(`Zusatzqualifikation für ${unit.subject?.shortName}`);
+    }
+
+    if (continuityTeacher.get(continuityKey(unit)) === teacher.id) {
+      score += SOLVER_WEIGHTS.CONTINUITY;
+      reasons.push('Gleiche Lehrkraft in beiden Halbjahren');
+    }
+
+    const unitClasses = unit.classIds.map(id => classById.get(id));
+    if (isCoreSubject(unit.subject) && unitClasses.some(c => isClassTeacher(c, teacher.id))) {
+      score += SOLVER_WEIGHTS.CLASS_TEACHER_CORE;
+      reasons.push(`Klassenleitung unterrichtet ${unit.subject?.shortName} in der eigenen Klasse`);
+    }
+    if (unitClasses.some(c => c && getPreviousYearTeachers(previousTeacherIndex, c, unit.subject!.id).has(teacher.id))) {
+      score += SOLVER_WEIGHTS.PREVIOUS_YEAR;
+      reasons.push('Unterrichtete die Klasse bereits im Vorjahr');
+    }
+
+    // Prefer teachers with more free capacity to balance the workload
+    const freeShare = state.capacity > 0 ? (remaining - unit.hours) / state.capacity : 0;
+    score += freeShare * SOLVER_WEIGHTS.BALANCE;
+    reasons.push(`Freie Kapazität: ${(remaining - unit.hours).toFixed(1)}h von ${state.capacity.toFixed(1)}h`);
+
+    getFulfilledPreferences(teacher.id, slotOf(unit), constraints).forEach(constraint => {
+      score += constraint.weight * SOLVER_WEIGHTS.SOFT_CONSTRAINT;
+      reasons.push(`Wunsch erfüllt: ${describeConstraint(constraint, input)}`);
+    });
+    violated.forEach(constraint => {
+      score -= constraint.weight * SOLVER_WEIGHTS.SOFT_CONSTRAINT;
+      reasons.push(`Wunsch verletzt: ${describeConstraint(constraint, input)}`);
+    });
+
+    return { score, reasons };
+  };
+
+  const assign = (unit: DemandUnit, teacherId: string, score: number, reasons: string[]) => {
+    teacherStates.get(teacherId)!.load[unit.semester] += unit.hours;
+    trackClasses(teacherId, unit.subject?.id ?? '', unit.classIds, 1);
+    chosen.set(unit.key, { teacherId, score, reasons });
+    if (!continuityTeacher.has(continuityKey(unit))) {
+      continuityTeacher.set(continuityKey(unit), teacherId);
+    }
+  };
+
+  const unassign = (unit: DemandUnit) => {
+    const current = chosen.get(unit.key);
+    if (!current) return;
+    teacherStates.get(current.teacherId)!.load[unit.semester] -= unit.hours;
+    trackClasses(current.teacherId, unit.subject?.id ?? '', unit.classIds, -1);
+    chosen.delete(unit.key);
+  };
+
+  // Most constrained first: fewest candidates, then most hours, semester 1 before 2 for continuity
+  const ordered = [...units].sort((a, b) =>
+    eligibleCandidates(a).length - eligibleCandidates(b).length
+    || b.hours - a.hours
+    || continuityKey(a).localeCompare(continuityKey(b))
+    || a.semester.localeCompare(b.semester)
+  );
+
+  const unassigned: DemandUnit[] = [];
+  for (const unit of ordered) {
+    let best: { teacherId: string; score: number; reasons: string[] } | null = null;
+    for (const teacher of eligibleCandidates(unit)) {
+      const result = scoreCandidate(unit, teacher);
+      if (result && (!best || result.score > best.score)) {
+        best = { teacherId: teacher.id, ...result };
+      }
+    }
+
+    if (best) {
+      assign(unit, best.teacherId, best.score, best.reasons);
+    } else {
+      unassigned.push(unit);
+    }
+  }
+
+  // Repair: move an assigned unit of a blocking teacher to another teacher with spare capacity
+  let repairedDemands = 0;
+  if (opts.enableRepair) {
+    for (const unit of [...unassigned]) {
+      const repaired = eligibleCandidates(unit).some(blocker => {
+        const blockingUnits = units.filter(other =>
+          other.semester === unit.semester && chosen.get(other.key)?.teacherId === blocker.id
+        );
+
+        for (const other of blockingUnits) {
+          const previous = chosen.get(other.key)!;
+          unassign(other);
+
+          const replacement = eligibleCandidates(other)
+            .filter(t => t.id !== blocker.id)
+            .map(t => ({ teacherId: t.id, result: scoreCandidate(other, t) }))
+            .filter(c => c.result !== null)
+            .sort((a, b) => b.result!.score - a.result!.score)[0];
+          const freed = scoreCandidate(unit, blocker);
+
+          // The replacement is always another teacher, so the hours freed on the blocker stay free
+          if (replacement && freed) {
+            assign(other, replacement.teacherId, replacement.result!.score, [
+              ...replacement.result!.reasons,
+              'Umverteilt, um offenen Bedarf zu decken',
+            ]);
+            assign(unit, blocker.id, freed.score, freed.reasons);
+            return true;
+          }
+
+          assign(other, previous.teacherId, previous.score, previous.reasons);
+        }
+        return false;
+      });
+
+      if (repaired) {
+        unassigned.splice(unassigned.indexOf(unit), 1);
+        repairedDemands++;
+      }
+    }
+  }
+
+  for (const unit of unassigned) {
+    const candidates = eligibleCandidates(unit);
+    const reason = candidates.length === 0
+      ? 'no_qualified_teacher'
+      : candidates.every(t => violationsFor(unit, t.id).some(c => c.strength === 'hard'))
+        ? 'hard_constraint'
+        : 'capacity_exhausted';
+    for (const classId of unit.classIds) {
+      unmetDemand.push({
+        classId,
+        className: unit.className,
+        subjectKey: unit.subjectKey,
+        subjectId: unit.subject?.id ?? null,
+        semester: unit.semester,
+        hours: unit.hours,
+        reason,
+        message: `${unit.subjectKey} (${unit.semester}. Hj.): ${UNMET_DEMAND_MESSAGES[reason]}`,
+        candidateTeacherIds: candidates.map(t => t.id),
+      });
+    }
+  }
+
+  // Expand units into per-class assignments and explain accepted soft violations
+  const assignments: PlannedAssignment[] = [];
+  const explanations = new Map<string, string>();
+  for (const unit of units) {
+    const decision = chosen.get(unit.key);
+    if (!decision || !unit.subject) continue;
+
+    if (violationsFor(unit, decision.teacherId).length > 0) {
+      const hasAlternative = eligibleCandidates(unit).some(teacher => {
+        if (teacher.id === decision.teacherId || violationsFor(unit, teacher.id).length > 0) return false;
+        const state = teacherStates.get(teacher.id);
+        return !!state && state.capacity - state.load[unit.semester] >= unit.hours;
+      });
+      const explanation = hasAlternative ? VIOLATION_REASONS.outweighed : VIOLATION_REASONS.no_alternative;
+      unit.classIds.forEach(classId => {
+        explanations.set(explanationKey(decision.teacherId, classId, unit.subject!.id), explanation);
+      });
+    }
+
+    for (const classId of unit.classIds) {
+      assignments.push({
+        teacherId: decision.teacherId,
+        classId,
+        subjectId: unit.subject.id,
+        semester: unit.semester,
+        hoursPerWeek: unit.hours,
+        score: Math.round(decision.score * 10) / 10,
+        reasons: decision.reasons,
+      });
+    }
+  }
+
+  const teacherLoads: TeacherLoad[] = Array.from(teacherStates.values()).map(state => {
+    const average = (state.load["1"] + state.load["2"]) / 2;
+    return {
+      teacherId: state.teacher.id,
+      shortName: state.teacher.shortName,
+      capacity: state.capacity,
+      semester1Hours: state.load["1"],
+      semester2Hours: state.load["2"],
+      utilization: state.capacity > 0 ? Math.round(average / state.capacity * 1000) / 10 : 0,
+    };
+  });
+
+  const demandHours = units.reduce((sum, u) => sum + u.hours, 0)
+    + unmetDemand.filter(d => d.reason === 'subject_not_found').reduce((sum, d) => sum + d.hours, 0);
+  const coveredHours = units.filter(u => chosen.has(u.key)).reduce((sum, u) => sum + u.hours, 0);
+
+  return {
+    assignments,
+    unmetDemand,
+    teacherLoads,
+    score: calculateSolverScore(
+      units,
+      chosen,
+      teacherLoads,
+      demandHours,
+      coveredHours,
+      continuityKey,
+      calculateContinuityScore(
+        [...assignments, ...lockedAssignments],
+        { classes: input.classes, subjects: input.subjects, activeTeacherIds: new Set(teachers.map(t => t.id)) },
+        previousTeacherIndex
+      ).score
+    ),
+    constraintViolations: evaluateConstraintViolations(
+      [...assignments, ...lockedAssignments.map(a => ({ ...a, isLocked: true }))],
+      constraints,
+      input,
+      explanations
+    ),
+    statistics: {
+      demandHours,
+      coveredHours,
+      unmetHours: demandHours - coveredHours,
+      lockedHours: lockedAssignments.reduce((sum, a) => sum + parseFloat(a.hoursPerWeek), 0),
+      repairedDemands,
+    },
+  };
+}
+
+// ===== SCORING =====
+
+function calculateSolverScore(
+  units: DemandUnit[],
+  chosen: Map<string, { teacherId: string }>,
+  teacherLoads: TeacherLoad[],
+  demandHours: number,
+  coveredHours: number,
+  continuityKey: (unit: DemandUnit) => string,
+  classContinuity: number
+): SolverScore {
+  const coverage = demandHours > 0 ? coveredHours / demandHours * 100 : 100;
+
+  const assignedUnits = units.filter(u => chosen.has(u.key));
+  const qualifiedUnits = assignedUnits.filter(u =>
+    u.candidates.some(t => t.id === chosen.get(u.key)!.teacherId)
+  );
+  const qualification = assignedUnits.length > 0 ? qualifiedUnits.length / assignedUnits.length * 100 : 100;
+
+  // Balance: 100 minus the standard deviation of utilization across teachers with capacity
+  const utilizations = teacherLoads.filter(l => l.capacity > 0).map(l => l.utilization);
+  const mean = utilizations.reduce((sum, u) => sum + u, 0) / (utilizations.length || 1);
+  const variance = utilizations.reduce((sum, u) => sum + (u - mean) ** 2, 0) / (utilizations.length || 1);
+  const balance = Math.max(0, 100 - Math.sqrt(variance));
+
+  // Continuity: share of class subjects taught by the same teacher in both semesters
+  const teachersByContinuityKey = new Map<string, Set<string>>();
+  assignedUnits.forEach(unit => {
+    const set = teachersByContinuityKey.get(continuityKey(unit)) || new Set<string>();
+    set.add(chosen.get(unit.key)!.teacherId);
+    teachersByContinuityKey.set(continuityKey(unit), set);
+  });
+  const continuous = Array.from(teachersByContinuityKey.values()).filter(s => s.size === 1).length;
+  const continuity = teachersByContinuityKey.size > 0 ? continuous / teachersByContinuityKey.size * 100 : 100;
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    total: round(coverage * 0.6 + qualification * 0.2 + balance * 0.1 + continuity * 0.05 + classContinuity * 0.05),
+    coverage: round(coverage),
+    qualification: round(qualification),
+    balance: round(balance),
+    continuity: round(continuity),
+    classContinuity: round(classContinuity),
+  };
+}
@@ -0,0 +1,88 @@
+import type { AuditLog, AuditEntityType, AuditAction } from "./schema";
+
+/**
+ * Audit log helpers
+ *
+ * Entries are written by the storage layer for every create/update/delete of assignments,
+ * teachers, classes and subjects, with the row before and after the change as JSON.
+ *
+ * Features:
+ * - German labels for entity types and actions
+ * - Changed fields of an entry for the admin view
+ * - Conflict check before a revert: the row must still match the logged state
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type AuditRevertErrorCode = "NOT_FOUND" | "ALREADY_REVERTED" | "CONFLICT";
+
+// ===== CONSTANTS =====
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  assignment: "Zuweisung",
+  teacher: "Lehrkraft",
+  class: "Klasse",
+  subject: "Fach",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Angelegt",
+  update: "Geändert",
+  delete: "Gelöscht",
+};
+
+// Maintained by the database, never part of a meaningful change
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+// ===== ERROR TYPES =====
+
+export class AuditRevertError extends Error {
+  constructor(message: string, public readonly code: AuditRevertErrorCode) {
+    super(message);
+    this.name = "AuditRevertError";
+  }
+}
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * JSON with sorted object keys; jsonb does not keep the key order of the original row
+ */
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fields that differ between the before and after state of an entry
+ */
+export function getAuditFieldChanges(entry: Pick<AuditLog, "before" | "after">): AuditFieldChange[] {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return fields
+    .filter(field => !IGNORED_FIELDS.has(field) && stableStringify(before[field]) !== stableStringify(after[field]))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+/**
+ * Whether a row still matches a logged snapshot, i.e. nobody changed it afterwards
+ */
+export function matchesSnapshot(row: Record<string, unknown>, snapshot: Record<string, unknown>): boolean {
+  return Object.keys(snapshot)
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .every(field => stableStringify(row[field]) === stableStringify(snapshot[field]));
+}
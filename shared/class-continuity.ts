@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { Class, Subject, Assignment } from "./schema";
+
+/**
+ * Class Continuity for the optimizers
+ *
+ * Two continuity objectives beyond "same teacher in both semesters":
+ * - The class teacher (classTeacher1Id/classTeacher2Id) teaches core subjects in their own class
+ * - A class keeps its subject teacher across school years (5a in 2024/25 becomes 6a in 2025/26)
+ *
+ * Features:
+ * - Lookup of last year's subject teachers via the predecessor class name
+ * - Continuity score shared by the server solver and the client-side runOptimization
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const continuityScoreSchema = z.object({
+  score: z.number().min(0).max(100),
+  classTeacherCore: z.number().min(0).max(100).nullable(),
+  previousYear: z.number().min(0).max(100).nullable(),
+  classTeacherSlots: z.number().int().min(0),
+  previousYearSlots: z.number().int().min(0),
+});
+
+export type ContinuityScore = z.infer<typeof continuityScoreSchema>;
+
+/**
+ * Classes and assignments of the previous school year
+ */
+export interface PreviousYearData {
+  classes: Class[];
+  assignments: Assignment[];
+}
+
+/**
+ * Teachers per "<predecessor class name>|<subjectId>" of the previous school year
+ */
+export type PreviousTeacherIndex = Map<string, Set<string>>;
+
+export interface ContinuityAssignment {
+  teacherId: string;
+  classId: string;
+  subjectId: string;
+}
+
+// ===== CONSTANTS =====
+
+/**
+ * Core subjects (Hauptfächer) the class teacher should preferably teach in their own class
+ */
+export const CORE_SUBJECTS = ["D", "M", "E"] as const;
+
+const CORE_SUBJECT_NAMES = ["Deutsch", "Mathematik", "Englisch"];
+
+// ===== HELPER FUNCTIONS =====
+
+export function isCoreSubject(subject: Subject | undefined | null): boolean {
+  if (!subject) return false;
+  return (CORE_SUBJECTS as readonly string[]).includes(subject.shortName.trim().toUpperCase())
+    || CORE_SUBJECT_NAMES.includes(subject.name.trim());
+}
+
+export function isClassTeacher(classData: Class | undefined | null, teacherId: string): boolean {
+  if (!classData) return false;
+  return classData.classTeacher1Id === teacherId || classData.classTeacher2Id === teacherId;
+}
+
+/**
+ * Name of the class in the previous school year, as created by the school year transition
+ * ("6a" -> "5a"). Grade 5 classes are new and have no predecessor.
+ */
+export function getPredecessorClassName(classData: Class): string | null {
+  if (classData.grade <= 5) return null;
+  const name = classData.name.replace(classData.grade.toString(), (classData.grade - 1).toString());
+  return name === classData.name ? null : name;
+}
+
+export function buildPreviousTeacherIndex(previousYear?: PreviousYearData | null): PreviousTeacherIndex {
+  const index: PreviousTeacherIndex = new Map();
+  if (!previousYear) return index;
+
+  const classById = new Map(previousYear.classes.map(c => [c.id, c]));
+  previousYear.assignments.forEach(assignment => {
+    const previousClass = classById.get(assignment.classId);
+    if (!previousClass) return;
+    const key = `${previousClass.name}|${assignment.subjectId}`;
+    const teacherIds = index.get(key) || new Set<string>();
+    teacherIds.add(assignment.teacherId);
+    index.set(key, teacherIds);
+  });
+  return index;
+}
+
+/**
+ * Teachers who taught the subject in this class's predecessor last year
+ */
+export function getPreviousYearTeachers(index: PreviousTeacherIndex, classData: Class, subjectId: string): Set<string> {
+  const predecessor = getPredecessorClassName(classData);
+  if (!predecessor) return new Set();
+  return index.get(`${predecessor}|${subjectId}`) || new Set();
+}
+
+// ===== SCORING =====
+
+/**
+ * Continuity of a complete plan:
+ * - classTeacherCore: share of classes with a class teacher where that teacher teaches a core subject
+ * - previousYear: share of class subjects with a known teacher last year that keep that teacher
+ * Parts without applicable slots are null and do not count towards the combined score.
+ */
+export function calculateContinuityScore(
+  assignments: ContinuityAssignment[],
+  context: { classes: Class[]; subjects: Subject[]; activeTeacherIds?: Set<string> },
+  previousIndex: PreviousTeacherIndex
+): ContinuityScore {
+  const subjectById = new Map(context.subjects.map(s => [s.id, s]));
+  const teachersBySlot = new Map<string, Set<string>>();
+  assignments.forEach(a => {
+    const key = `${a.classId}|${a.subjectId}`;
+    const teacherIds = teachersBySlot.get(key) || new Set<string>();
+    teacherIds.add(a.teacherId);
+    teachersBySlot.set(key, teacherIds);
+  });
+
+  let classTeacherSlots = 0;
+  let classTeacherHits = 0;
+  let previousYearSlots = 0;
+  let previousYearHits = 0;
+
+  context.classes.forEach(classData => {
+    const classTeacherIds = [classData.classTeacher1Id, classData.classTeacher2Id].filter((id): id is string => !!id);
+    const coreSlots = Array.from(teachersBySlot.entries())
+      .filter(([key]) => key.startsWith(`${classData.id}|`) && isCoreSubject(subjectById.get(key.split('|')[1])));
+
+    if (classTeacherIds.length > 0 && coreSlots.length > 0) {
+      classTeacherSlots++;
+      if (coreSlots.some(([, teacherIds]) => classTeacherIds.some(id => teacherIds.has(id)))) {
+        classTeacherHits++;
+      }
+    }
+
+    teachersBySlot.forEach((teacherIds, key) => {
+      const [classId, subjectId] = key.split('|');
+      if (classId !== classData.id) return;
+      const previousTeachers = Array.from(getPreviousYearTeachers(previousIndex, classData, subjectId))
+        .filter(id => !context.activeTeacherIds || context.activeTeacherIds.has(id));
+      if (previousTeachers.length === 0) return;
+      previousYearSlots++;
+      if (previousTeachers.some(id => teacherIds.has(id))) previousYearHits++;
+    });
+  });
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const classTeacherCore = classTeacherSlots > 0 ? round(classTeacherHits / classTeacherSlots * 100) : null;
+  const previousYear = previousYearSlots > 0 ? round(previousYearHits / previousYearSlots * 100) : null;
+  const parts = [classTeacherCore, previousYear].filter((value): value is number => value !== null);
+
+  return {
+    score: parts.length > 0 ? round(parts.reduce((sum, value) => sum + value, 0) / parts.length) : 100,
+    classTeacherCore,
+    previousYear,
+    classTeacherSlots,
+    previousYearSlots,
+  };
+}
@@ -0,0 +1,383 @@
+import { z } from "zod";
+import type { Teacher, Student, Class } from "./schema";
+import {
+  SCHILD_FIELDS,
+  splitRowResults,
+  type ColumnMapping,
+  type SchildRowResult,
+  type SchildTeacherRecord,
+  type SchildStudentRecord,
+  type SchildClassRecord,
+} from "./schild-import";
+
+/**
+ * CSV Import Diff
+ *
+ * Compares the rows of a CSV import with the records already in the system, so that
+ * importing the same file twice changes nothing and every change can be reviewed
+ * before it is written. Only the rows the user accepts are applied.
+ *
+ * Features:
+ * - Matching by natural key: teachers by Personalnummer or Kürzel, classes by name
+ *   within the school year, students by name and Geburtsdatum
+ * - New, changed and unchanged rows with field-level before/after values
+ * - Only mapped columns with a value are compared; empty cells never clear data
+ * - Rows that match ambiguously or twice in the same file are skipped with a reason
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const CSV_IMPORT_ROW_STATUSES = ["new", "changed", "unchanged"] as const;
+
+export type CsvImportRowStatus = typeof CSV_IMPORT_ROW_STATUSES[number];
+
+// Lines of the file to apply; without it all new and changed rows are applied
+export const acceptedCsvLinesSchema = z.array(z.number().int().min(2)).max(10000);
+
+export interface CsvFieldChange {
+  field: string;
+  label: string;
+  before: string;        // formatted for display, "" when empty
+  after: string;
+}
+
+export interface CsvImportPlanRow<T> {
+  line: number;
+  status: CsvImportRowStatus;
+  label: string;                 // e.g. "MÜL – Müller, Jörg"
+  existingId: string | null;
+  changes: CsvFieldChange[];     // all imported values for new rows
+  values: Partial<T>;            // mapped fields with a value, as read from the file
+}
+
+interface CsvImportPlanBase<T> {
+  rows: CsvImportPlanRow<T>[];
+  skipped: { line: number; errors: string[] }[];
+  warnings: { line: number; message: string }[];
+  summary: Record<CsvImportRowStatus | "skipped", number>;
+}
+
+export type TeacherImportPlan = CsvImportPlanBase<SchildTeacherRecord> & { dataType: "teachers" };
+export type StudentImportPlan = CsvImportPlanBase<SchildStudentRecord> & {
+  dataType: "students";
+  newClasses: string[];          // classes of the file that are created with the students
+};
+export type ClassImportPlan = CsvImportPlanBase<SchildClassRecord> & { dataType: "classes" };
+export type CsvImportPlan = TeacherImportPlan | StudentImportPlan | ClassImportPlan;
+
+interface PlanOptions<T, E extends { id: string }> {
+  // Existing record for the row, or an error when the key is ambiguous
+  match: (record: T) => { existing?: E; error?: string };
+  // Key for duplicates within the file
+  fileKey: (record: T) => string;
+  // Values of the existing record in the representation of the file
+  current: (existing: E) => Partial<T>;
+  label: (record: T) => string;
+}
+
+// ===== HELPER FUNCTIONS =====
+
+function normalizeKey(value: string | null | undefined): string {
+  return (value ?? "").trim().toLowerCase();
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0);
+}
+
+export function formatImportValue(value: unknown): string {
+  if (!hasValue(value)) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "number") return String(value).replace(".", ",");
+  return String(value);
+}
+
+// Decimal columns arrive as "25.0", lists in any order
+function isSameValue(before: unknown, after: unknown): boolean {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const sorted = (value: unknown) => (Array.isArray(value) ? [...value] : []).map(String).sort().join("|");
+    return sorted(before) === sorted(after);
+  }
+  if (typeof after === "number") {
+    return hasValue(before) && Number(before) === after;
+  }
+  return formatImportValue(before) === formatImportValue(after);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
+  });
+  return groups;
+}
+
+// Key values that differ from the system only in case are written in the spelling of the system
+function adoptSpelling<T>(results: SchildRowResult<T>[], key: keyof T, spellings: string[]): SchildRowResult<T>[] {
+  const byKey = new Map(spellings.map(spelling => [normalizeKey(spelling), spelling]));
+  return results.map(result => {
+    const value = result.record?.[key];
+    const spelling = typeof value === "string" ? byKey.get(normalizeKey(value)) : undefined;
+    return spelling && result.record ? { ...result, record: { ...result.record, [key]: spelling } } : result;
+  });
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  return value === null || value === undefined || value === "" ? null : Number(value);
+}
+
+// ===== CALCULATION =====
+
+function planRows<T extends object, E extends { id: string }>(
+  dataType: keyof typeof SCHILD_FIELDS,
+  results: SchildRowResult<T>[],
+  mapping: ColumnMapping,
+  options: PlanOptions<T, E>
+): CsvImportPlanBase<T> {
+  const fields = SCHILD_FIELDS[dataType].filter(field => mapping[field.key]);
+  const { skipped, warnings } = splitRowResults(results);
+  const rows: CsvImportPlanRow<T>[] = [];
+  const linesByKey = new Map<string, number>();
+  const linesByExisting = new Map<string, number>();
+
+  for (const result of results) {
+    const record = result.record;
+    if (!record) continue;
+    const skip = (error: string) => skipped.push({ line: result.line, errors: [error] });
+
+    const duplicateLine = linesByKey.get(options.fileKey(record));
+    if (duplicateLine) {
+      skip(`Doppelt in der Datei (wie Zeile ${duplicateLine})`);
+      continue;
+    }
+    const { existing, error } = options.match(record);
+    if (error) {
+      skip(error);
+      continue;
+    }
+    if (existing && linesByExisting.has(existing.id)) {
+      skip(`Betrifft denselben Datensatz wie Zeile ${linesByExisting.get(existing.id)}`);
+      continue;
+    }
+    linesByKey.set(options.fileKey(record), result.line);
+    if (existing) linesByExisting.set(existing.id, result.line);
+
+    const values: Partial<T> = {};
+    for (const field of fields) {
+      const value = (record as Record<string, unknown>)[field.key];
+      if (hasValue(value)) (values as Record<string, unknown>)[field.key] = value;
+    }
+
+    const before: Record<string, unknown> = existing ? options.current(existing) : {};
+    const changes = fields
+      .filter(field => field.key in values)
+      .filter(field => !existing || !isSameValue(before[field.key], (values as Record<string, unknown>)[field.key]))
+      .map(field => ({
+        field: field.key,
+        label: field.label,
+        before: formatImportValue(before[field.key]),
+        after: formatImportValue((values as Record<string, unknown>)[field.key]),
+      }));
+
+    rows.push({
+      line: result.line,
+      status: !existing ? "new" : changes.length > 0 ? "changed" : "unchanged",
+      label: options.label(record),
+      existingId: existing?.id ?? null,
+      changes,
+      values,
+    });
+  }
+
+  skipped.sort((a, b) => a.line - b.line);
+  return {
+    rows,
+    skipped,
+    warnings,
+    summary: {
+      new: rows.filter(row => row.status === "new").length,
+      changed: rows.filter(row => row.status === "changed").length,
+      unchanged: rows.filter(row => row.status === "unchanged").length,
+      skipped: skipped.length,
+    },
+  };
+}
+
+/**
+ * Teachers are matched by Personalnummer when the file has one, otherwise by Kürzel.
+ * A Kürzel that belongs to another teacher than the Personalnummer is rejected, because
+ * the unique Kürzel per school would be violated.
+ */
+export function planTeacherImport(
+  results: SchildRowResult<SchildTeacherRecord>[],
+  mapping: ColumnMapping,
+  teachers: Teacher[]
+): TeacherImportPlan {
+  const byShortName = new Map(teachers.map(teacher => [normalizeKey(teacher.shortName), teacher]));
+  const byPersonnelNumber = new Map(teachers.filter(teacher => teacher.personnelNumber).map(teacher => [normalizeKey(teacher.personnelNumber), teacher]));
+
+  const plan = planRows<SchildTeacherRecord, Teacher>("teachers", adoptSpelling(results, "shortName", teachers.map(t => t.shortName)), mapping, {
+    match: record => {
+      const sameShortName = byShortName.get(normalizeKey(record.shortName));
+      const samePersonnelNumber = record.personnelNumber ? byPersonnelNumber.get(normalizeKey(record.personnelNumber)) : undefined;
+      if (samePersonnelNumber) {
+        if (sameShortName && sameShortName.id !== samePersonnelNumber.id) {
+          return { error: `Kürzel „${record.shortName}“ gehört bereits zu ${sameShortName.firstName} ${sameShortName.lastName}` };
+        }
+        return { existing: samePersonnelNumber };
+      }
+      if (sameShortName?.personnelNumber && record.personnelNumber) {
+        return { error: `Kürzel „${record.shortName}“ gehört zu einer Lehrkraft mit anderer Personalnummer (${sameShortName.personnelNumber})` };
+      }
+      return { existing: sameShortName };
+    },
+    fileKey: record => normalizeKey(record.shortName),
+    current: teacher => ({
+      firstName: teacher.firstName,
+      lastName: teacher.lastName,
+      shortName: teacher.shortName,
+      personnelNumber: teacher.personnelNumber,
+      email: teacher.email,
+      dateOfBirth: teacher.dateOfBirth,
+      subjects: teacher.subjects,
+      qualifications: teacher.qualifications,
+      maxHours: toNumber(teacher.maxHours),
+      notes: teacher.notes ?? "",
+    }),
+    label: record => `${record.shortName} – ${record.lastName}, ${record.firstName}`,
+  });
+  return { dataType: "teachers", ...plan };
+}
+
+/**
+ * Students are matched by name and Geburtsdatum. Without a Geburtsdatum on either side
+ * the name alone must be unique among the students of the school year.
+ */
+export function planStudentImport(
+  results: SchildRowResult<SchildStudentRecord>[],
+  mapping: ColumnMapping,
+  students: Student[],
+  classes: Class[]
+): StudentImportPlan {
+  const nameKey = (student: { firstName: string; lastName: string }) => `${normalizeKey(student.lastName)}|${normalizeKey(student.firstName)}`;
+  const byName = groupBy(students, nameKey);
+  const classNames = new Map(classes.map(classItem => [classItem.id, classItem.name]));
+  const knownClasses = new Set(classes.map(classItem => normalizeKey(classItem.name)));
+
+  const plan = planRows<SchildStudentRecord, Student>("students", adoptSpelling(results, "className", classes.map(c => c.name)), mapping, {
+    match: record => {
+      const sameName = byName.get(nameKey(record)) ?? [];
+      if (record.dateOfBirth) {
+        const sameBirth = sameName.filter(student => student.dateOfBirth === record.dateOfBirth);
+        if (sameBirth.length > 1) {
+          return { error: "Mehrere Schüler mit diesem Namen und Geburtsdatum im System" };
+        }
+        const withoutBirth = sameName.filter(student => !student.dateOfBirth);
+        return { existing: sameBirth[0] ?? (withoutBirth.length === 1 ? withoutBirth[0] : undefined) };
+      }
+      if (sameName.length > 1) {
+        return { error: "Mehrere Schüler mit diesem Namen im System; das Geburtsdatum fehlt zur Unterscheidung" };
+      }
+      return { existing: sameName[0] };
+    },
+    fileKey: record => `${nameKey(record)}|${record.dateOfBirth ?? ""}`,
+    current: student => ({
+      firstName: student.firstName,
+      lastName: student.lastName,
+      className: student.classId ? classNames.get(student.classId) ?? null : null,
+      grade: student.grade,
+      dateOfBirth: student.dateOfBirth,
+    }),
+    label: record => `${record.lastName}, ${record.firstName}${record.className ? ` (${record.className})` : ""}`,
+  });
+
+  const newClasses = Array.from(new Set(
+    plan.rows
+      .map(row => row.values.className)
+      .filter((name): name is string => !!name && !knownClasses.has(normalizeKey(name)))
+  ));
+  return { dataType: "students", ...plan, newClasses };
+}
+
+/**
+ * Classes are matched by name within the school year of the import. Klassenleitungen
+ * that are not known teachers are left out with a warning.
+ */
+export function planClassImport(
+  results: SchildRowResult<SchildClassRecord>[],
+  mapping: ColumnMapping,
+  classes: Class[],
+  teachers: Teacher[]
+): ClassImportPlan {
+  const byName = new Map(classes.map(classItem => [normalizeKey(classItem.name), classItem]));
+  const teacherShortNames = new Map(teachers.map(teacher => [teacher.id, teacher.shortName]));
+  const knownTeachers = new Map(teachers.map(teacher => [normalizeKey(teacher.shortName), teacher.shortName]));
+
+  // Short names are written in the spelling of the system, unknown ones are dropped
+  const checkedResults = adoptSpelling(results, "name", classes.map(c => c.name)).map(result => {
+    if (!result.record) return result;
+    const record = { ...result.record };
+    const warnings = [...result.warnings];
+    for (const [key, label] of [["classTeacher1ShortName", "Klassenleitung"], ["classTeacher2ShortName", "Stellvertretung"]] as const) {
+      const shortName = record[key];
+      if (!shortName) continue;
+      record[key] = knownTeachers.get(normalizeKey(shortName)) ?? null;
+      if (!record[key]) warnings.push(`${label} „${shortName}“ ist keine bekannte Lehrkraft und wird nicht übernommen`);
+    }
+    return { ...result, record, warnings };
+  });
+
+  const plan = planRows<SchildClassRecord, Class>("classes", checkedResults, mapping, {
+    match: record => ({ existing: byName.get(normalizeKey(record.name)) }),
+    fileKey: record => normalizeKey(record.name),
+    current: classItem => ({
+      name: classItem.name,
+      grade: classItem.grade,
+      studentCount: classItem.studentCount,
+      classTeacher1ShortName: classItem.classTeacher1Id ? teacherShortNames.get(classItem.classTeacher1Id) ?? null : null,
+      classTeacher2ShortName: classItem.classTeacher2Id ? teacherShortNames.get(classItem.classTeacher2Id) ?? null : null,
+    }),
+    label: record => record.name,
+  });
+  return { dataType: "classes", ...plan };
+}
+
+/**
+ * Rows handed to the storage for writing, per data type
+ */
+export type CsvImportChanges =
+  | Pick<TeacherImportPlan, "dataType" | "rows">
+  | Pick<StudentImportPlan, "dataType" | "rows" | "newClasses">
+  | Pick<ClassImportPlan, "dataType" | "rows">;
+
+/**
+ * Rows that will be written: new and changed rows, restricted to the accepted lines.
+ * Classes of the file are only created for accepted students.
+ */
+export function selectAcceptedChanges(plan: CsvImportPlan, acceptedLines?: number[]): CsvImportChanges {
+  const accepted = acceptedLines ? new Set(acceptedLines) : null;
+  const isAccepted = (row: CsvImportPlanRow<unknown>) => row.status !== "unchanged" && (!accepted || accepted.has(row.line));
+
+  switch (plan.dataType) {
+    case "teachers":
+      return { dataType: plan.dataType, rows: plan.rows.filter(isAccepted) };
+    case "students": {
+      const rows = plan.rows.filter(isAccepted);
+      const newClasses = plan.newClasses.filter(className => rows.some(row => row.values.className === className));
+      return { dataType: plan.dataType, rows, newClasses };
+    }
+    case "classes":
+      return { dataType: plan.dataType, rows: plan.rows.filter(isAccepted) };
+  }
+}
+
+/**
+ * The values of a row that are written: all values of a new row, only the changed fields of an existing one
+ */
+export function getValuesToWrite<T>(row: CsvImportPlanRow<T>): Partial<T> {
+  if (row.status === "new") return row.values;
+  const changedFields = new Set(row.changes.map(change => change.field));
+  return Object.fromEntries(Object.entries(row.values).filter(([field]) => changedFields.has(field))) as Partial<T>;
+}
@@ -0,0 +1,130 @@
+import { SCHOOL_ROLES, INVITATION_VALIDITY_DAYS, type Invitation, type SchoolRole } from "./schema";
+import { SCHOOL_ROLE_LABELS } from "./permissions";
+
+/**
+ * Invitation lifecycle
+ *
+ * An invitation is created once per email address. Instead of creating a new one,
+ * expired or revoked invitations are extended (renewed) in place.
+ *
+ * Features:
+ * - Status of an invitation: pending, accepted, expired or revoked
+ * - Expiry date from a validity in days
+ * - Parsing of pasted address lists and CSV files for bulk invitations,
+ *   optionally with a school role per line
+ */
+
+// ===== TYPES =====
+
+export const INVITATION_STATUSES = ["pending", "accepted", "expired", "revoked"] as const;
+export type InvitationStatus = typeof INVITATION_STATUSES[number];
+
+export interface BulkInvitationEntry {
+  email: string;
+  role?: SchoolRole;           // from the CSV, otherwise the default role of the form
+}
+
+export interface InvitationListParseResult {
+  entries: BulkInvitationEntry[];
+  invalid: string[];           // lines or cells that are no valid email address
+  duplicates: string[];
+}
+
+export type BulkInvitationOutcome = "created" | "renewed" | "skipped" | "failed";
+
+export interface BulkInvitationResult {
+  email: string;
+  outcome: BulkInvitationOutcome;
+  status?: InvitationStatus;   // why an existing invitation was skipped
+  emailSent?: boolean;
+  emailError?: string;
+  error?: string;
+}
+
+// Dates arrive as strings on the client
+type InvitationStateFields = {
+  used: Invitation["used"];
+  revokedAt: Date | string | null;
+  expiresAt: Date | string;
+};
+
+// ===== CONSTANTS =====
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: "Ausstehend",
+  accepted: "Angenommen",
+  expired: "Abgelaufen",
+  revoked: "Widerrufen",
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ===== HELPER FUNCTIONS =====
+
+export function getInvitationExpiry(days: number = INVITATION_VALIDITY_DAYS, now: Date = new Date()): Date {
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * School role from a CSV cell: the role key ("stundenplaner") or its label ("Stundenplaner")
+ */
+function parseSchoolRole(value: string): SchoolRole | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return SCHOOL_ROLES.find(role =>
+    role === normalized || SCHOOL_ROLE_LABELS[role].toLowerCase() === normalized);
+}
+
+// ===== CALCULATION =====
+
+export function getInvitationStatus(invitation: InvitationStateFields, now: Date = new Date()): InvitationStatus {
+  if (invitation.used) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  return new Date(invitation.expiresAt) < now ? "expired" : "pending";
+}
+
+/**
+ * Whether the invitation link can still be used to log in
+ */
+export function isInvitationUsable(invitation: InvitationStateFields, now: Date = new Date()): boolean {
+  return getInvitationStatus(invitation, now) === "pending";
+}
+
+/**
+ * Email addresses from a pasted list or a CSV file.
+ * Cells are separated by comma, semicolon or tab; a line may hold several addresses.
+ * A cell with a school role applies to the addresses of its line.
+ * A first line without any address is taken as header.
+ */
+export function parseInvitationList(text: string): InvitationListParseResult {
+  const result: InvitationListParseResult = { entries: [], invalid: [], duplicates: [] };
+  const seen = new Set<string>();
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  lines.forEach((line, index) => {
+    const cells = line.split(/[;,\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, "$1")).filter(Boolean);
+    const addressCells = cells.filter(cell => cell.includes("@"));
+    if (addressCells.length === 0) {
+      if (index > 0) result.invalid.push(line);
+      return;
+    }
+
+    const role = cells.map(parseSchoolRole).find((r): r is SchoolRole => !!r);
+    addressCells
+      .flatMap(cell => cell.split(/\s+/).filter(token => token.includes("@"))) // "Name <mail@schule.de>"
+      .forEach(candidate => {
+        const email = candidate.replace(/^<|>$/g, "");
+        const key = email.toLowerCase();
+        if (!EMAIL_PATTERN.test(email)) {
+          result.invalid.push(candidate);
+        } else if (seen.has(key)) {
+          result.duplicates.push(email);
+        } else {
+          seen.add(key);
+          result.entries.push(role ? { email, role } : { email });
+        }
+      });
+  });
+
+  return result;
+}
@@ -0,0 +1,347 @@
+import { z } from "zod";
+import { TEACHER_REDUCTION_TYPES, type Teacher, type Subject, type Class, type Assignment, type TeamTeachingSetting } from "./schema";
+import { getParallelGroupForSubject, PARALLEL_GROUPS } from "./parallel-subjects";
+import { findSubject, getSemesterHours, getTeacherSubjectMatch } from "./assignment-solver";
+import { aggregateAssignedHours } from "./teacher-workload";
+
+/**
+ * Lehrerplanstellen overview
+ *
+ * Soll, Ermäßigungen, Ist and Planstellen equivalents per teacher and per subject,
+ * computed from the real teacher, class and assignment data.
+ *
+ * Features:
+ * - Soll from teachers.maxHours, Ermäßigungen from the reductionHours keys AE/BA/SL/SO/LK/SB/VG
+ * - Ist from assignments (average of both semesters, Differenzierung courses counted once per grade,
+ *   team teaching credited per group setting)
+ * - Bedarf per subject from the classes' Stundentafel
+ * - good/warning/critical status from the real coverage and utilization
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const REDUCTION_TYPES = TEACHER_REDUCTION_TYPES;
+export type ReductionType = typeof REDUCTION_TYPES[number];
+
+export type PlanstellenStatus = "good" | "warning" | "critical";
+
+export const lehrerplanstellenQuerySchema = z.object({
+  deputat: z.coerce.number().min(1).max(40).optional(),
+});
+
+export interface TeacherPlanstelle {
+  teacherId: string;
+  shortName: string;
+  name: string;
+  subjects: string[];
+  isActive: boolean;
+  sollHours: number;                                // maxHours
+  reductions: Record<ReductionType, number>;
+  ermaessigungHours: number;
+  verfuegbarHours: number;                          // Soll - Ermäßigungen
+  istHours: number;                                 // Ø beider Halbjahre
+  istSemester: { "1": number; "2": number };
+  differenzHours: number;                           // verfügbar - Ist (positiv = freie Kapazität)
+  sollStellen: number;
+  verfuegbarStellen: number;
+  istStellen: number;
+  utilization: number;                              // Ist / verfügbar in %
+  status: PlanstellenStatus;
+}
+
+export interface SubjectPlanstelle {
+  subjectId: string;
+  name: string;
+  shortName: string;
+  teacherCount: number;
+  bedarfHours: number;                              // Stundentafel
+  sollHours: number;                                // anteiliges maxHours der Fachlehrkräfte
+  ermaessigungHours: number;
+  verfuegbarHours: number;
+  istHours: number;                                 // zugewiesene Stunden
+  bedarfStellen: number;
+  verfuegbarStellen: number;
+  istStellen: number;
+  coverage: number;                                 // verfügbar / Bedarf in %
+  status: PlanstellenStatus;
+}
+
+export interface LehrerplanstellenOverview {
+  deputat: number;
+  teachers: TeacherPlanstelle[];
+  subjects: SubjectPlanstelle[];
+  totals: {
+    sollHours: number;
+    reductions: Record<ReductionType, number>;
+    ermaessigungHours: number;
+    verfuegbarHours: number;
+    istHours: number;
+    bedarfHours: number;
+    sollStellen: number;
+    verfuegbarStellen: number;
+    istStellen: number;
+    bedarfStellen: number;
+  };
+}
+
+// ===== CONSTANTS =====
+
+/**
+ * Wöchentliche Pflichtstunden einer vollen Stelle an der Realschule (NRW)
+ */
+export const DEFAULT_DEPUTAT = 28;
+
+export const REDUCTION_TYPE_LABELS: Record<ReductionType, string> = {
+  AE: "Altersermäßigung",
+  BA: "Besondere Aufgaben",
+  SL: "Schulleitung",
+  SO: "Sonstiges",
+  LK: "Lehrerkonferenz",
+  SB: "Schwerbehinderung",
+  VG: "Vorgriffsstunden",
+};
+
+export const PLANSTELLEN_STATUS_LABELS: Record<PlanstellenStatus, string> = {
+  good: "Gut versorgt",
+  warning: "Unterbesetzt",
+  critical: "Kritisch",
+};
+
+/**
+ * Thresholds for the status:
+ * - subjects: coverage of the Stundentafel by available hours
+ * - teachers: utilization of the available hours by assigned hours
+ */
+export const STATUS_THRESHOLDS = {
+  subjectGood: 100,
+  subjectWarning: 90,
+  teacherOverloadWarning: 100,
+  teacherOverloadCritical: 110,
+  teacherUnderload: 80,
+} as const;
+
+// ===== HELPER FUNCTIONS =====
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toNumber(value: unknown): number {
+  const numeric = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+function emptyReductions(): Record<ReductionType, number> {
+  return { AE: 0, BA: 0, SL: 0, SO: 0, LK: 0, SB: 0, VG: 0 };
+}
+
+/**
+ * Reduction hours per type; unknown keys are ignored
+ */
+export function getReductionBreakdown(teacher: Teacher): Record<ReductionType, number> {
+  const source = (teacher.reductionHours || {}) as Record<string, unknown>;
+  const result = emptyReductions();
+  REDUCTION_TYPES.forEach(type => {
+    result[type] = toNumber(source[type]);
+  });
+  return result;
+}
+
+export function getSubjectStatus(coverage: number, bedarfHours: number): PlanstellenStatus {
+  if (bedarfHours <= 0 || coverage >= STATUS_THRESHOLDS.subjectGood) return "good";
+  return coverage >= STATUS_THRESHOLDS.subjectWarning ? "warning" : "critical";
+}
+
+export function getTeacherStatus(utilization: number, verfuegbarHours: number, istHours: number): PlanstellenStatus {
+  if (verfuegbarHours <= 0) return istHours > 0 ? "critical" : "good";
+  if (utilization > STATUS_THRESHOLDS.teacherOverloadCritical) return "critical";
+  if (utilization > STATUS_THRESHOLDS.teacherOverloadWarning || utilization < STATUS_THRESHOLDS.teacherUnderload) return "warning";
+  return "good";
+}
+
+/**
+ * Weekly Stundentafel demand per subject (average of both semesters)
+ */
+function calculateSubjectDemand(classes: Class[], subjects: Subject[]): Map<string, number> {
+  const demand = new Map<string, { "1": number; "2": number }>();
+  const gradeCourses = new Map<string, { "1": number; "2": number }>();
+
+  classes.forEach(classData => {
+    Object.entries(classData.subjectHours || {}).forEach(([subjectKey, rawHours]) => {
+      const subject = findSubject(subjects, subjectKey);
+      if (!subject) return;
+      const parallelGroup = getParallelGroupForSubject(subjectKey);
+      const semesterHours = getSemesterHours(rawHours);
+
+      (["1", "2"] as const).forEach(semester => {
+        let hours = semesterHours[semester];
+        if (hours <= 0 && parallelGroup) hours = parallelGroup.hoursPerGrade[classData.grade] || 0;
+        if (hours <= 0) return;
+
+        // Differenzierung courses are taught once per grade, not once per class
+        if (parallelGroup?.id === PARALLEL_GROUPS.Differenzierung.id) {
+          const key = `${classData.grade}|${subject.id}`;
+          const course = gradeCourses.get(key) || { "1": 0, "2": 0 };
+          course[semester] = Math.max(course[semester], hours);
+          gradeCourses.set(key, course);
+          return;
+        }
+        const entry = demand.get(subject.id) || { "1": 0, "2": 0 };
+        entry[semester] += hours;
+        demand.set(subject.id, entry);
+      });
+    });
+  });
+
+  gradeCourses.forEach((hours, key) => {
+    const subjectId = key.split("|")[1];
+    const entry = demand.get(subjectId) || { "1": 0, "2": 0 };
+    entry["1"] += hours["1"];
+    entry["2"] += hours["2"];
+    demand.set(subjectId, entry);
+  });
+
+  return new Map(Array.from(demand.entries()).map(([subjectId, hours]) => [subjectId, (hours["1"] + hours["2"]) / 2]));
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Complete overview. Only active teachers count towards subject and total capacity.
+ * A teacher's Soll and Ermäßigungen are split across subjects by their assigned hours;
+ * teachers without assignments are split evenly across the subjects they are qualified for.
+ */
+export function calculateLehrerplanstellen(
+  data: { teachers: Teacher[]; subjects: Subject[]; classes: Class[]; assignments: Assignment[]; teamTeachingSettings?: TeamTeachingSetting[] },
+  options: { deputat?: number } = {}
+): LehrerplanstellenOverview {
+  const deputat = options.deputat && options.deputat > 0 ? options.deputat : DEFAULT_DEPUTAT;
+  const assigned = aggregateAssignedHours(data.assignments, data.subjects, data.classes, {
+    teamTeachingSettings: data.teamTeachingSettings,
+  });
+  const demand = calculateSubjectDemand(data.classes, data.subjects);
+
+  const subjectRows = new Map<string, { teacherIds: Set<string>; soll: number; erm: number; ist: number }>();
+  const subjectRow = (subjectId: string) => {
+    const row = subjectRows.get(subjectId) || { teacherIds: new Set<string>(), soll: 0, erm: 0, ist: 0 };
+    subjectRows.set(subjectId, row);
+    return row;
+  };
+
+  const totalReductions = emptyReductions();
+  const teacherRows: TeacherPlanstelle[] = data.teachers.map(teacher => {
+    const sollHours = toNumber(teacher.maxHours);
+    const reductions = getReductionBreakdown(teacher);
+    const ermaessigungHours = REDUCTION_TYPES.reduce((sum, type) => sum + reductions[type], 0);
+    const verfuegbarHours = Math.max(0, sollHours - ermaessigungHours);
+
+    const bySubject = assigned.get(teacher.id) || new Map<string, { "1": number; "2": number }>();
+    const istSemester = { "1": 0, "2": 0 };
+    bySubject.forEach(hours => {
+      istSemester["1"] += hours["1"];
+      istSemester["2"] += hours["2"];
+    });
+    const istHours = (istSemester["1"] + istSemester["2"]) / 2;
+    const utilization = verfuegbarHours > 0 ? istHours / verfuegbarHours * 100 : 0;
+
+    if (teacher.isActive) {
+      REDUCTION_TYPES.forEach(type => { totalReductions[type] += reductions[type]; });
+
+      // Share of Soll per subject
+      const weights = new Map<string, number>();
+      bySubject.forEach((hours, subjectId) => weights.set(subjectId, (hours["1"] + hours["2"]) / 2));
+      if (istHours <= 0) {
+        data.subjects
+          .filter(subject => getTeacherSubjectMatch(teacher, subject) === "subject")
+          .forEach(subject => weights.set(subject.id, 1));
+      }
+      const weightSum = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+      weights.forEach((weight, subjectId) => {
+        const share = weightSum > 0 ? weight / weightSum : 0;
+        const row = subjectRow(subjectId);
+        row.teacherIds.add(teacher.id);
+        row.soll += sollHours * share;
+        row.erm += ermaessigungHours * share;
+      });
+    }
+    bySubject.forEach((hours, subjectId) => {
+      subjectRow(subjectId).ist += (hours["1"] + hours["2"]) / 2;
+    });
+
+    return {
+      teacherId: teacher.id,
+      shortName: teacher.shortName,
+      name: `${teacher.firstName} ${teacher.lastName}`,
+      subjects: teacher.subjects || [],
+      isActive: teacher.isActive,
+      sollHours: round(sollHours),
+      reductions,
+      ermaessigungHours: round(ermaessigungHours),
+      verfuegbarHours: round(verfuegbarHours),
+      istHours: round(istHours),
+      istSemester: { "1": round(istSemester["1"]), "2": round(istSemester["2"]) },
+      differenzHours: round(verfuegbarHours - istHours),
+      sollStellen: round(sollHours / deputat),
+      verfuegbarStellen: round(verfuegbarHours / deputat),
+      istStellen: round(istHours / deputat),
+      utilization: round(utilization, 1),
+      status: getTeacherStatus(utilization, verfuegbarHours, istHours),
+    };
+  });
+
+  demand.forEach((_, subjectId) => subjectRow(subjectId));
+
+  const subjectById = new Map(data.subjects.map(s => [s.id, s]));
+  const subjectResults: SubjectPlanstelle[] = Array.from(subjectRows.entries())
+    .filter(([subjectId]) => subjectById.has(subjectId))
+    .map(([subjectId, row]) => {
+      const subject = subjectById.get(subjectId)!;
+      const bedarfHours = demand.get(subjectId) || 0;
+      const verfuegbarHours = Math.max(0, row.soll - row.erm);
+      const coverage = bedarfHours > 0 ? verfuegbarHours / bedarfHours * 100 : 100;
+      return {
+        subjectId,
+        name: subject.name,
+        shortName: subject.shortName,
+        teacherCount: row.teacherIds.size,
+        bedarfHours: round(bedarfHours),
+        sollHours: round(row.soll),
+        ermaessigungHours: round(row.erm),
+        verfuegbarHours: round(verfuegbarHours),
+        istHours: round(row.ist),
+        bedarfStellen: round(bedarfHours / deputat),
+        verfuegbarStellen: round(verfuegbarHours / deputat),
+        istStellen: round(row.ist / deputat),
+        coverage: round(coverage, 1),
+        status: getSubjectStatus(coverage, bedarfHours),
+      };
+    })
+    .sort((a, b) => b.bedarfHours - a.bedarfHours || a.name.localeCompare(b.name));
+
+  const activeRows = teacherRows.filter(row => row.isActive);
+  const sum = (values: number[]) => round(values.reduce((total, value) => total + value, 0));
+  const sollHours = sum(activeRows.map(row => row.sollHours));
+  const ermaessigungHours = sum(activeRows.map(row => row.ermaessigungHours));
+  const verfuegbarHours = sum(activeRows.map(row => row.verfuegbarHours));
+  const istHours = sum(teacherRows.map(row => row.istHours));
+  const bedarfHours = sum(Array.from(demand.values()));
+
+  return {
+    deputat,
+    teachers: teacherRows,
+    subjects: subjectResults,
+    totals: {
+      sollHours,
+      reductions: totalReductions,
+      ermaessigungHours,
+      verfuegbarHours,
+      istHours,
+      bedarfHours,
+      sollStellen: round(sollHours / deputat),
+      verfuegbarStellen: round(verfuegbarHours / deputat),
+      istStellen: round(istHours / deputat),
+      bedarfStellen: round(bedarfHours / deputat),
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import { z } from "zod";
+import type { Assignment, Class, Subject } from "./schema";
+import type { AssignmentChange } from "./assignment-plan-diff";
+import { getParallelGroupForSubject } from "./parallel-subjects";
+
+/**
+ * Matrix change sets
+ *
+ * Draft of teacher and hours edits from the class matrix and the Diff-Kurse matrix,
+ * kept on the server per user and school year so it survives navigation. Every edit is
+ * one undo step; committing turns the draft into assignment changes applied in one transaction.
+ *
+ * Features:
+ * - Undo/redo stack: edits before `position` are applied, the rest can be redone
+ * - One edit may touch several cells (e.g. religion synced across parallel classes)
+ * - Review list of the resulting add/remove/change entries against the saved assignments
+ * - Differenzierung courses added to a class are replicated to its parallel classes,
+ *   as POST /api/assignments does
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const matrixCellChangeSchema = z.object({
+  classId: z.string(),
+  subjectId: z.string(),
+  semester: z.enum(["1", "2"]),
+  teacherId: z.string().nullable().optional(), // null removes the assignment
+  hoursPerWeek: z.number().min(0).max(40).optional(),
+}).refine(cell => cell.teacherId !== undefined || cell.hoursPerWeek !== undefined, {
+  message: "Lehrkraft oder Stunden müssen angegeben werden",
+});
+
+export const addMatrixEditSchema = z.object({
+  label: z.string().max(200).optional(),
+  cells: z.array(matrixCellChangeSchema).min(1, "Keine Änderung angegeben"),
+});
+
+export type MatrixCellChange = z.infer<typeof matrixCellChangeSchema>;
+export type AddMatrixEdit = z.infer<typeof addMatrixEditSchema>;
+
+export interface MatrixEdit extends AddMatrixEdit {
+  createdAt: string;
+}
+
+export interface MatrixChangeSetState {
+  edits: MatrixEdit[];
+  position: number;
+}
+
+/**
+ * Pending value of one cell after all applied edits; undefined fields are unchanged
+ */
+export interface MatrixCellState {
+  classId: string;
+  subjectId: string;
+  semester: "1" | "2";
+  teacherId?: string | null;
+  hoursPerWeek?: number;
+}
+
+export interface MatrixChangeSetView extends MatrixChangeSetState {
+  id: string | null;      // null while nothing has been edited yet
+  schoolYearId: string;
+  canUndo: boolean;
+  canRedo: boolean;
+  cells: MatrixCellState[];
+}
+
+// ===== CONSTANTS =====
+
+export const DEFAULT_MATRIX_HOURS = 1;
+
+const MANUAL_REASON = "Manuelle Änderung in der Zuordnungsmatrix";
+const PARALLEL_REASON = "Differenzierungskurs für Parallelklasse übernommen";
+
+// ===== HELPER FUNCTIONS =====
+
+export function matrixCellKey(classId: string, subjectId: string, semester: string): string {
+  return `${classId}::${subjectId}::${semester}`;
+}
+
+function toNumber(value: unknown): number {
+  const numeric = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+// ===== STACK OPERATIONS =====
+
+/**
+ * Adds an edit on top of the applied ones; a new edit discards the redo stack
+ */
+export function pushMatrixEdit(state: MatrixChangeSetState, edit: AddMatrixEdit, now = new Date()): MatrixChangeSetState {
+  const edits = state.edits.slice(0, state.position);
+  edits.push({ ...edit, createdAt: now.toISOString() });
+  return { edits, position: edits.length };
+}
+
+export function undoMatrixEdit(state: MatrixChangeSetState): MatrixChangeSetState {
+  return { edits: state.edits, position: Math.max(0, state.position - 1) };
+}
+
+export function redoMatrixEdit(state: MatrixChangeSetState): MatrixChangeSetState {
+  return { edits: state.edits, position: Math.min(state.edits.length, state.position + 1) };
+}
+
+/**
+ * Pending cell values after the applied edits, keyed by matrixCellKey
+ */
+export function resolveMatrixCells(state: MatrixChangeSetState): Map<string, MatrixCellState> {
+  const cells = new Map<string, MatrixCellState>();
+  state.edits.slice(0, state.position).forEach(edit => {
+    edit.cells.forEach(cell => {
+      const key = matrixCellKey(cell.classId, cell.subjectId, cell.semester);
+      const current = cells.get(key) || { classId: cell.classId, subjectId: cell.subjectId, semester: cell.semester };
+      if (cell.teacherId !== undefined) current.teacherId = cell.teacherId;
+      if (cell.hoursPerWeek !== undefined) current.hoursPerWeek = cell.hoursPerWeek;
+      cells.set(key, current);
+    });
+  });
+  return cells;
+}
+
+export function toMatrixChangeSetView(
+  changeSet: { id: string | null; schoolYearId: string } & MatrixChangeSetState
+): MatrixChangeSetView {
+  return {
+    id: changeSet.id,
+    schoolYearId: changeSet.schoolYearId,
+    edits: changeSet.edits,
+    position: changeSet.position,
+    canUndo: changeSet.position > 0,
+    canRedo: changeSet.position < changeSet.edits.length,
+    cells: Array.from(resolveMatrixCells(changeSet).values()),
+  };
+}
+
+// ===== COMMIT PLANNING =====
+
+/**
+ * Assignment changes that bring the saved assignments to the draft state.
+ * The first assignment of a cell is the one shown in the matrix and the one changed.
+ */
+export function planMatrixChangeSet(
+  state: MatrixChangeSetState,
+  assignments: Assignment[],
+  subjects: Subject[],
+  classes: Class[]
+): AssignmentChange[] {
+  const existingByCell = new Map<string, Assignment>();
+  assignments.forEach(assignment => {
+    const key = matrixCellKey(assignment.classId, assignment.subjectId, assignment.semester);
+    if (!existingByCell.has(key)) existingByCell.set(key, assignment);
+  });
+  const subjectById = new Map(subjects.map(s => [s.id, s]));
+  const classById = new Map(classes.map(c => [c.id, c]));
+  const cells = resolveMatrixCells(state);
+  const changes: AssignmentChange[] = [];
+  const plannedAdds = new Set<string>();
+
+  const baseChange = (cell: MatrixCellState) => ({
+    classId: cell.classId,
+    subjectId: cell.subjectId,
+    semester: cell.semester,
+    confidence: 1,
+    reasoning: [MANUAL_REASON],
+  });
+
+  cells.forEach((cell, key) => {
+    const existing = existingByCell.get(key);
+    const previousHours = existing ? toNumber(existing.hoursPerWeek) : null;
+    const teacherId = cell.teacherId === undefined ? existing?.teacherId ?? null : cell.teacherId;
+    const hours = cell.hoursPerWeek ?? previousHours ?? DEFAULT_MATRIX_HOURS;
+
+    if (!teacherId) {
+      if (existing) {
+        changes.push({ ...baseChange(cell), action: "remove", assignmentId: existing.id, teacherId: existing.teacherId, previousTeacherId: existing.teacherId, hoursPerWeek: 0, previousHours });
+      }
+      return;
+    }
+    if (!existing) {
+      changes.push({ ...baseChange(cell), action: "add", assignmentId: null, teacherId, previousTeacherId: null, hoursPerWeek: hours, previousHours: null });
+      plannedAdds.add(key);
+      return;
+    }
+    if (existing.teacherId !== teacherId || previousHours !== hours) {
+      changes.push({ ...baseChange(cell), action: "change", assignmentId: existing.id, teacherId, previousTeacherId: existing.teacherId, hoursPerWeek: hours, previousHours });
+    }
+  });
+
+  // Differenzierung: a course added to one class of grade 7-10 is taught to all parallel classes
+  changes.filter(change => change.action === "add").forEach(change => {
+    const subject = subjectById.get(change.subjectId);
+    const classData = classById.get(change.classId);
+    if (!subject || !classData || classData.grade < 7 || classData.grade > 10) return;
+    if (getParallelGroupForSubject(subject.shortName)?.id !== "Differenzierung") return;
+
+    classes
+      .filter(c => c.grade === classData.grade && c.id !== classData.id && c.type === "klasse" && /^\d{2}[A-Z]$/.test(c.name))
+      .forEach(parallelClass => {
+        const key = matrixCellKey(parallelClass.id, change.subjectId, change.semester);
+        if (existingByCell.has(key) || cells.has(key) || plannedAdds.has(key)) return;
+        plannedAdds.add(key);
+        changes.push({ ...change, classId: parallelClass.id, reasoning: [PARALLEL_REASON] });
+      });
+  });
+
+  return changes;
+}
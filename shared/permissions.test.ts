@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SchoolRole } from "./schema";
+import { PERMISSIONS, getPermissionScope, hasPermission } from "./permissions";
+
+test("admins and Schulleitung get every permission in full", () => {
+  for (const permission of PERMISSIONS) {
+    assert.equal(getPermissionScope("admin", permission), "full", permission);
+    assert.equal(getPermissionScope("schulleitung", permission), "full", permission);
+  }
+});
+
+test("Stundenplaner may not write Planstellen or manage school years", () => {
+  assert.equal(getPermissionScope("stundenplaner", "assignments:write"), "full");
+  assert.equal(getPermissionScope("stundenplaner", "import:run"), "full");
+  assert.equal(getPermissionScope("stundenplaner", "planstellen:write"), undefined);
+  assert.equal(getPermissionScope("stundenplaner", "school-years:manage"), undefined);
+});
+
+test("Kollegium only reads and submits requests", () => {
+  const allowed = PERMISSIONS.filter(permission => getPermissionScope("kollegium", permission));
+  assert.deepEqual(allowed, ["data:read", "requests:submit"]);
+});
+
+test("missing or unknown roles get no permissions", () => {
+  assert.equal(getPermissionScope(undefined, "data:read"), undefined);
+  assert.equal(getPermissionScope(null, "data:read"), undefined);
+  assert.equal(getPermissionScope("user" as SchoolRole, "data:read"), undefined);
+  assert.equal(hasPermission("user" as SchoolRole, "data:read"), false);
+});
+
+test("Fachkonferenzleitung writes only records of the own subjects", () => {
+  const own = ["M", "PH"];
+  assert.equal(hasPermission("fachkonferenzleitung", "assignments:write", own, ["M"]), true);
+  assert.equal(hasPermission("fachkonferenzleitung", "assignments:write", own, ["M", "PH"]), true);
+  assert.equal(hasPermission("fachkonferenzleitung", "assignments:write", own, ["M", "D"]), false);
+  assert.equal(hasPermission("fachkonferenzleitung", "assignments:write", own, [null]), false);
+  // Without subjects a subject-scoped permission does not count
+  assert.equal(hasPermission("fachkonferenzleitung", "assignments:write", own), false);
+  assert.equal(hasPermission("fachkonferenzleitung", "teachers:write", own, ["M"]), false);
+});
+
+test("full permissions ignore the subjects", () => {
+  assert.equal(hasPermission("stundenplaner", "assignments:write", [], ["D"]), true);
+  assert.equal(hasPermission("stundenplaner", "assignments:write"), true);
+});
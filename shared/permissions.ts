@@ -0,0 +1,113 @@
+import type { SchoolRole } from "./schema";
+
+/**
+ * Role permissions
+ *
+ * What a member may do inside a school depends on their school role.
+ * Every data route requires one permission; the server checks it, the client uses
+ * the same table to hide actions the user cannot perform. User management stays
+ * with school admins (isAdmin).
+ *
+ * Features:
+ * - Schulleitung: everything except user management
+ * - Stundenplaner: master data, Unterrichtsverteilung, optimization and imports
+ * - Fachkonferenzleitung: read everything, edit only the own subjects and their assignments
+ * - Kollegium: read-only
+ * - Every role may send requests from the personal teacher page
+ */
+
+// ===== TYPES =====
+
+export const PERMISSIONS = [
+  "data:read",
+  "teachers:write",
+  "classes:write",
+  "subjects:write",
+  "assignments:write",
+  "optimize:run",
+  "planstellen:write",
+  "import:run",
+  "school-years:manage",
+  "requests:submit",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * full: allowed for every record; subjects: only for records of the member's own subjects
+ */
+export type PermissionScope = "full" | "subjects";
+
+// ===== CONSTANTS =====
+
+export const SCHOOL_ROLE_LABELS: Record<SchoolRole, string> = {
+  admin: "Schuladministrator",
+  schulleitung: "Schulleitung",
+  stundenplaner: "Stundenplaner",
+  fachkonferenzleitung: "Fachkonferenzleitung",
+  kollegium: "Kollegium (nur lesen)",
+};
+
+const ROLE_PERMISSIONS: Record<SchoolRole, Partial<Record<Permission, PermissionScope>>> = {
+  admin: Object.fromEntries(PERMISSIONS.map(permission => [permission, "full" as const])),
+  schulleitung: {
+    "data:read": "full",
+    "teachers:write": "full",
+    "classes:write": "full",
+    "subjects:write": "full",
+    "assignments:write": "full",
+    "optimize:run": "full",
+    "planstellen:write": "full",
+    "import:run": "full",
+    "school-years:manage": "full",
+    "requests:submit": "full",
+  },
+  stundenplaner: {
+    "data:read": "full",
+    "teachers:write": "full",
+    "classes:write": "full",
+    "subjects:write": "full",
+    "assignments:write": "full",
+    "optimize:run": "full",
+    "import:run": "full",
+    "requests:submit": "full",
+  },
+  fachkonferenzleitung: {
+    "data:read": "full",
+    "subjects:write": "subjects",
+    "assignments:write": "subjects",
+    "requests:submit": "full",
+  },
+  kollegium: {
+    "data:read": "full",
+    "requests:submit": "full",
+  },
+};
+
+// ===== VALIDATION =====
+
+/**
+ * How far a role may use a permission; undefined if not at all.
+ * Unknown roles (e.g. from older data) get no permissions.
+ */
+export function getPermissionScope(role: SchoolRole | null | undefined, permission: Permission): PermissionScope | undefined {
+  if (!role) return undefined;
+  return ROLE_PERMISSIONS[role]?.[permission];
+}
+
+/**
+ * Whether a member may use a permission for records of the given subjects.
+ * Without subjects only full permissions count.
+ */
+export function hasPermission(
+  role: SchoolRole | null | undefined,
+  permission: Permission,
+  ownSubjectIds: string[] = [],
+  subjectIds: (string | null | undefined)[] = []
+): boolean {
+  const scope = getPermissionScope(role, permission);
+  if (scope === "full") return true;
+  if (scope !== "subjects" || subjectIds.length === 0) return false;
+  const own = new Set(ownSubjectIds);
+  return subjectIds.every(subjectId => !!subjectId && own.has(subjectId));
+}
@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { planstellenInputSchema } from "./schema";
+import { calculatePlanstellen, calculatePlanstellenValues, excelRound, excelTrunc, roundDownToHalf } from "./planstellen-engine";
+
+// Eingaben des Blatts "Tabellenblatt1" (excel_data_Tabellenblatt1.json); F50 und F73/F74 sind dort #REF!
+const sheetInput = planstellenInputSchema.parse({
+  praktischePhilosophieIslamkunde: 0.11,
+  paedagogischeUebermittagsbetreuung: 0.5,
+  integrationDurchBildung: 0.3,
+});
+
+function assertClose(actual: number, expected: number, cell: string) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${cell}: ${actual} statt ${expected}`);
+}
+
+test("reproduces the computed cells of the sheet", () => {
+  const values = calculatePlanstellenValues(sheetInput);
+  const expected: [keyof typeof values, number, string][] = [
+    ["quotient", 710 / 20.19, "F5"],
+    ["quotientAbgeschnitten", 35.16, "F6"],
+    ["abgerundet", 35, "F7"],
+    ["summeGrundbedarf", 34.45, "F10"],
+    ["summeAusgleichsbedarf", 3.68, "F27"],
+    ["summeWeitereBereiche", 0.91, "F33"],
+    ["grundbedarfGesamt", 39.04, "F34"],
+    ["summeZusaetzlicheStellen", 0.77, "F36"],
+    ["summeStellenbesetzung", 0.36, "F41"],
+    ["summePersonalausstattung", 0, "F47"],
+    ["stellenbedarfGesamt", 39.4, "F48"],
+    ["grundstellenbedarfHalbe", 17.225, "F53"],
+    ["entlastungsstundenGerundet", 17, "F54"],
+    ["zusaetzlicheEntlastungStellenzahl", 36.58, "F57"],
+    ["anzahlStundenSchulleitung", 36.74, "F60"],
+    ["entlastungsstundenSchulleitungGerundet", 45.74, "F61"],
+    ["stellvertreterZweiViertel", 18, "F63"],
+    ["geaenderteSchulleiterpauschal", 18, "F66"],
+    ["geaenderteStellvertreterpauschal", 18, "F67"],
+    ["sollklassenzahl", 25.36, "F69"],
+    ["abweichungKlassenbildung", 8.36, "F71"],
+  ];
+  expected.forEach(([key, value, cell]) => assertClose(values[key], value, cell));
+});
+
+test("F61 counts the Grundpauschale twice, as SUMME(F56:F59) in the sheet", () => {
+  const values = calculatePlanstellenValues({ ...sheetInput, grundpauschal: 10 });
+  // F57 already contains F56
+  assertClose(values.zusaetzlicheEntlastungStellenzahl, 39.4 * 0.7 + 10, "F57");
+  assertClose(values.entlastungsstundenSchulleitungGerundet, excelRound(10 + 39.4 * 0.7 + 10 + 0.04 + 0.12, 2), "F61");
+});
+
+test("empty or 0 fields fall back to the values of the sheet", () => {
+  const values = calculatePlanstellenValues({
+    ...sheetInput,
+    grundstellenbedarfFaktor: 0,
+    grundpauschal: 0,
+    schulleiterentlastungFortbildung: 0,
+    ausbauLeitungszeitSchulleiter: 0,
+    schulleiterDreiViertel: 0,
+    istklassenzahl: 0,
+  });
+  const reference = calculatePlanstellenValues(sheetInput);
+  assert.deepEqual(values, reference);
+});
+
+test("F69 counts classes for 710 students without Schülerzahl, F5 stays 0", () => {
+  const values = calculatePlanstellenValues({ ...sheetInput, schuelerzahlStand: 0 });
+  assert.equal(values.quotient, 0);
+  assertClose(values.sollklassenzahl, 25.36, "F69");
+});
+
+test("a Relation of 0 marks the calculation invalid instead of dividing by 0", () => {
+  const calculation = calculatePlanstellen({ ...sheetInput, schuelerLehrerrelation: 0 });
+  assert.equal(calculation.isValid, false);
+  assert.equal(calculation.values.quotient, 0);
+  assert.equal(calculation.values.abgerundet, 0);
+});
+
+test("lines show the values the calculation used", () => {
+  const { lines } = calculatePlanstellen({ ...sheetInput, grundpauschal: 0 });
+  const line = (cell: string) => lines.find(l => l.formula.cell === cell);
+  assert.equal(line("F56")?.requiredHours, "9.00");
+  assert.equal(line("F61")?.requiredHours, "45.74");
+});
+
+test("Excel rounding helpers", () => {
+  assert.equal(excelTrunc(35.16592372, 2), 35.16);
+  assert.equal(excelRound(17.225, 0), 17);
+  assert.equal(roundDownToHalf(35.49), 35);
+  assert.equal(roundDownToHalf(35.5), 35.5);
+});
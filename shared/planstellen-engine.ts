@@ -0,0 +1,445 @@
+import type { PlanstellenInput, InsertPlanstelle } from "./schema";
+
+/**
+ * Planstellen Calculation Engine
+ *
+ * Pure implementation of the Excel sheet "Planstellenberechnung" (cells F3-F75).
+ * The page, /api/calculate-planstellen, the CSV export and the scenario comparison
+ * all evaluate the formulas here, so they always show the same numbers.
+ *
+ * Features:
+ * - Every computed value of the sheet, keyed by name
+ * - Every line (inputs and results) in the shape of `planstellen` rows,
+ *   with the Excel cell and a readable formula description
+ * - Empty or 0 fields of F53-F70 fall back to the values of the sheet, as the page always did
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export interface PlanstellenValues {
+  quotient: number;                                // F5
+  quotientAbgeschnitten: number;                   // F6
+  abgerundet: number;                              // F7
+  summeGrundbedarf: number;                        // F10
+  summeAusgleichsbedarf: number;                   // F27
+  summeWeitereBereiche: number;                    // F33
+  grundbedarfGesamt: number;                       // F34
+  summeZusaetzlicheStellen: number;                // F36
+  summeStellenbesetzung: number;                   // F41
+  summePersonalausstattung: number;                // F47
+  stellenbedarfGesamt: number;                     // F48
+  differenzSollIst: number;                        // F51
+  grundstellenbedarfHalbe: number;                 // F53
+  entlastungsstundenGerundet: number;              // F54
+  zusaetzlicheEntlastungStellenzahl: number;       // F57
+  anzahlStundenSchulleitung: number;               // F60
+  entlastungsstundenSchulleitungGerundet: number;  // F61
+  stellvertreterZweiViertel: number;               // F63
+  geaenderteSchulleiterpauschal: number;           // F66
+  geaenderteStellvertreterpauschal: number;        // F67
+  sollklassenzahl: number;                         // F69
+  abweichungKlassenbildung: number;                // F71
+  abweichungUnterrichtsstunden: number;            // F75
+}
+
+/**
+ * One line of the sheet as a `planstellen` row (without id/calculatedAt)
+ */
+export type PlanstellenLine = InsertPlanstelle & {
+  formula: { op: string; terms: number[]; description: string; cell?: string };
+};
+
+export interface PlanstellenCalculation {
+  isValid: boolean; // false when F4 (Relation) is 0 - the quotient lines are then 0
+  values: PlanstellenValues;
+  lines: PlanstellenLine[];
+}
+
+type NumericInputField = {
+  [K in keyof PlanstellenInput]: PlanstellenInput[K] extends number ? K : never
+}[keyof PlanstellenInput];
+
+// ===== CONSTANTS =====
+
+// Schüler je Klasse für die Sollklassenzahl (F69)
+export const KLASSENFREQUENZ = 28;
+
+// Anteil des Stellen-Solls an der Schulleitungsentlastung (F57)
+export const SCHULLEITUNG_STELLENFAKTOR = 0.7;
+
+// Werte des Blatts für leere oder 0-Felder (`|| Wert` der früheren Seitenberechnung)
+export const PLANSTELLEN_FALLBACKS = {
+  grundstellenbedarfFaktor: 0.5,            // F53
+  grundpauschal: 9,                         // F56
+  schulleiterentlastungFortbildung: 0.04,   // F58
+  ausbauLeitungszeitSchulleiter: 0.12,      // F59
+  schulleiterDreiViertel: 18,               // F62
+  istklassenzahl: 17,                       // F70
+} satisfies Partial<Record<NumericInputField, number>>;
+
+// Schülerzahl für die Sollklassenzahl (F69), solange F3 leer ist; F5 rechnet weiter mit F3
+export const SOLLKLASSEN_FALLBACK_SCHUELERZAHL = 710;
+
+const AUSGLEICHSBEDARF_FIELDS: { field: NumericInputField; cell: string; label: string }[] = [
+  { field: 'fachleiter', cell: 'F12', label: 'Fachleiter' },
+  { field: 'personalrat', cell: 'F13', label: 'Personalrat' },
+  { field: 'schulleitungsentlastungFortbildung', cell: 'F14', label: 'Schulleitungsentlastung - Fortbildung' },
+  { field: 'ausbauLeitungszeit', cell: 'F15', label: 'Ausbau Leitungszeit' },
+  { field: 'rueckgabeVorgriffstunde', cell: 'F16', label: 'Rückgabe Vorgriffstunde' },
+  { field: 'digitalisierungsbeauftragter', cell: 'F17', label: 'Digitalisierungsbeauftragter' },
+  { field: 'fortbildungQualifMedienDS', cell: 'F18', label: 'Fortb. und Qualif. / Medien und DS' },
+  { field: 'fachberaterSchulaufsicht', cell: 'F19', label: 'Fachberater Schulaufsicht' },
+  { field: 'wechselndeAusgleichsbedarfe', cell: 'F20', label: 'Wechs. Mehr- und Ausgleichsbedarfe' },
+  { field: 'praxissemesterInSchule', cell: 'F21', label: 'Praxissemester in Schule' },
+  { field: 'zusaetzlicheAusfallvertretung', cell: 'F22', label: 'Zusätzliche Ausfallvertretung' },
+  { field: 'entlastungLehrertaetigkeit', cell: 'F23', label: 'Entlastung Lehrertätigkeit' },
+  { field: 'entlastungLVOCO', cell: 'F24', label: 'Entlastung LVO&CO' },
+  { field: 'ermaessigungenweitere', cell: 'F25', label: 'Ermäßigungen weitere' },
+  { field: 'nullWert', cell: 'F26', label: 'Sonstiges' },
+];
+
+const WEITERE_BEREICHE_FIELDS: { field: NumericInputField; cell: string; label: string }[] = [
+  { field: 'praktischePhilosophieIslamkunde', cell: 'F30', label: 'Praktische Philosophie / Islamkunde' },
+  { field: 'paedagogischeUebermittagsbetreuung', cell: 'F31', label: 'Pädagogische Übermittagsbetreuung' },
+  { field: 'integrationDurchBildung', cell: 'F32', label: 'Integration durch Bildung' },
+];
+
+const STELLENBESETZUNG_FIELDS: { field: NumericInputField; cell: string; label: string }[] = [
+  { field: 'teilzeitBlockmodellAnsparphase', cell: 'F38', label: 'Teilzeit im Blockmodell (Ansparphase)' },
+  { field: 'kapitalisierungPaedUebermittag', cell: 'F39', label: 'Kapitalisierung päd. Übermittagsbetreuung' },
+  { field: 'abzugKapitalisierungUebermittag', cell: 'F40', label: 'Abzug Kapitalisierung (Geld an Gemeinde)' },
+];
+
+const PERSONALAUSSTATTUNG_FIELDS: { field: NumericInputField; cell: string; label: string }[] = [
+  { field: 'beurlaubungElternzeit', cell: 'F44', label: 'Beurlaubung o. L. Elternzeit' },
+  { field: 'ersatzeinstellungElternzeit', cell: 'F45', label: 'Ersatzeinstellung Elternzeit' },
+  { field: 'aborungZugangAnderes', cell: 'F46', label: 'Abordnung Zugang (anderes Kapitel)' },
+];
+
+// ===== HELPER FUNCTIONS =====
+
+function num(value: number | undefined | null): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function applyFallbacks(input: PlanstellenInput): PlanstellenInput {
+  const result = { ...input };
+  (Object.keys(PLANSTELLEN_FALLBACKS) as (keyof typeof PLANSTELLEN_FALLBACKS)[]).forEach(field => {
+    result[field] = num(input[field]) || PLANSTELLEN_FALLBACKS[field];
+  });
+  return result;
+}
+
+function getSollklassenSchuelerzahl(input: PlanstellenInput): number {
+  return num(input.schuelerzahlStand) || SOLLKLASSEN_FALLBACK_SCHUELERZAHL;
+}
+
+function sumFields(input: PlanstellenInput, fields: { field: NumericInputField }[]): number {
+  return fields.reduce((sum, { field }) => sum + num(input[field]), 0);
+}
+
+/**
+ * Excel RUNDEN(value; digits)
+ */
+export function excelRound(value: number, digits = 0): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Excel KÜRZEN/TRUNC(value; digits)
+ */
+export function excelTrunc(value: number, digits = 0): number {
+  const factor = Math.pow(10, digits);
+  return Math.trunc(value * factor) / factor;
+}
+
+/**
+ * F7: auf halbe bzw. ganze Stelle abgerundet - IF(F5-INT(F5)<0.5,INT(F5),INT(F5)+0.5)
+ */
+export function roundDownToHalf(value: number): number {
+  const intPart = Math.floor(value);
+  return value - intPart < 0.5 ? intPart : intPart + 0.5;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toString() : excelRound(value, 2).toString();
+}
+
+// ===== CALCULATION =====
+
+/**
+ * All computed cells of the sheet
+ */
+export function calculatePlanstellenValues(rawInput: PlanstellenInput): PlanstellenValues {
+  const input = applyFallbacks(rawInput);
+  const isValid = input.schuelerLehrerrelation > 0;
+
+  // Grundbedarf (F5-F10)
+  const quotient = isValid ? input.schuelerzahlStand / input.schuelerLehrerrelation : 0;
+  const quotientAbgeschnitten = excelTrunc(quotient, 2);
+  const abgerundet = roundDownToHalf(quotient);
+  const summeGrundbedarf = quotientAbgeschnitten + num(input.abzugLehramtsanwaerter) + num(input.rundung);
+
+  // Ausgleichsbedarf, Mehrbedarfe (inkl. freier Zeilen) und Stellen-Soll (F27-F48)
+  const summeAusgleichsbedarf = sumFields(input, AUSGLEICHSBEDARF_FIELDS);
+  const summeWeitereBereiche = sumFields(input, WEITERE_BEREICHE_FIELDS)
+    + num(input.freieZeile1Wert) + num(input.freieZeile2Wert);
+  const grundbedarfGesamt = summeGrundbedarf + summeAusgleichsbedarf + summeWeitereBereiche;
+  const summeZusaetzlicheStellen = num(input.gegenUAusfallIndFoerderung);
+  const summeStellenbesetzung = sumFields(input, STELLENBESETZUNG_FIELDS);
+  const summePersonalausstattung = sumFields(input, PERSONALAUSSTATTUNG_FIELDS);
+  const stellenbedarfGesamt = grundbedarfGesamt + summeStellenbesetzung + summePersonalausstattung;
+  const differenzSollIst = num(input.vorhandenePlanstellen) - stellenbedarfGesamt;
+
+  // Ermäßigungsstunden Kollegium (F53-F54)
+  const grundstellenbedarfHalbe = summeGrundbedarf * num(input.grundstellenbedarfFaktor);
+  const entlastungsstundenGerundet = excelRound(grundstellenbedarfHalbe, 0);
+
+  // Schulleiterpauschale (F56-F67)
+  const grundpauschal = num(input.grundpauschal);
+  const zusaetzlicheEntlastungStellenzahl = stellenbedarfGesamt * SCHULLEITUNG_STELLENFAKTOR + grundpauschal;
+  const anzahlStundenSchulleitung = zusaetzlicheEntlastungStellenzahl
+    + num(input.schulleiterentlastungFortbildung)
+    + num(input.ausbauLeitungszeitSchulleiter);
+  // F61 = SUMME(F56:F59) - die Grundpauschale zählt wie im Original-Blatt doppelt (F56 und in F57)
+  const entlastungsstundenSchulleitungGerundet = excelRound(grundpauschal + anzahlStundenSchulleitung, 2);
+  const stellvertreterZweiViertel = Math.floor(entlastungsstundenSchulleitungGerundet * 2 / 5);
+  const schulleiter = num(input.schulleiterDreiViertel);
+  const minusEntlastung = num(input.minusEntlastungStundenplanarbeit);
+  const geaenderteSchulleiterpauschal = Math.trunc(schulleiter - minusEntlastung / 2);
+  const geaenderteStellvertreterpauschal = excelRound(
+    stellvertreterZweiViertel - minusEntlastung / 2 + (schulleiter - Math.trunc(schulleiter)),
+    0
+  );
+
+  // Klassenbildung und Unterrichtsstunden (F69-F75)
+  const sollklassenzahl = excelRound(getSollklassenSchuelerzahl(input) / KLASSENFREQUENZ, 2);
+  const abweichungKlassenbildung = sollklassenzahl - num(input.istklassenzahl);
+  const abweichungUnterrichtsstunden = num(input.verfuegbareUnterrichtsstunden) - num(input.unterrichtssollNachKuerzung);
+
+  return {
+    quotient,
+    quotientAbgeschnitten,
+    abgerundet,
+    summeGrundbedarf,
+    summeAusgleichsbedarf,
+    summeWeitereBereiche,
+    grundbedarfGesamt,
+    summeZusaetzlicheStellen,
+    summeStellenbesetzung,
+    summePersonalausstattung,
+    stellenbedarfGesamt,
+    differenzSollIst,
+    grundstellenbedarfHalbe,
+    entlastungsstundenGerundet,
+    zusaetzlicheEntlastungStellenzahl,
+    anzahlStundenSchulleitung,
+    entlastungsstundenSchulleitungGerundet,
+    stellvertreterZweiViertel,
+    geaenderteSchulleiterpauschal,
+    geaenderteStellvertreterpauschal,
+    sollklassenzahl,
+    abweichungKlassenbildung,
+    abweichungUnterrichtsstunden,
+  };
+}
+
+/**
+ * Complete sheet: computed values plus one `planstellen` row per line, in sheet order.
+ * Input lines are "requirement" (yellow), computed lines "calculated" (cyan) and
+ * section totals "summary".
+ */
+export function calculatePlanstellen(
+  rawInput: PlanstellenInput,
+  options: { scenarioId?: string | null } = {}
+): PlanstellenCalculation {
+  const input = applyFallbacks(rawInput);
+  const values = calculatePlanstellenValues(input);
+  const lines: PlanstellenLine[] = [];
+
+  const push = (
+    cell: string | undefined,
+    category: string,
+    component: string,
+    lineType: 'requirement' | 'calculated' | 'summary',
+    value: number,
+    formula: { op: string; terms: number[]; description: string },
+    hours: { available?: number; deficit?: number } = {}
+  ) => {
+    lines.push({
+      scenarioId: options.scenarioId ?? null,
+      subjectId: null,
+      grade: null,
+      category,
+      component,
+      lineType,
+      formula: { ...formula, cell },
+      color: lineType === 'requirement' ? 'yellow' : lineType === 'summary' ? 'green' : 'cyan',
+      requiredHours: value.toFixed(2),
+      availableHours: (hours.available ?? 0).toFixed(2),
+      deficit: (hours.deficit ?? 0).toFixed(2),
+    });
+  };
+
+  const inputLine = (cell: string | undefined, category: string, label: string, value: number) =>
+    push(cell, category, label, 'requirement', value, { op: 'input', terms: [value], description: `${label}: Eingabewert` });
+
+  const sumLine = (cell: string, category: string, label: string, value: number, range: string, terms: number[]) =>
+    push(cell, category, label, 'summary', value, {
+      op: 'sum',
+      terms,
+      description: `${cell} = SUMME(${range}) = ${terms.map(formatNumber).join(' + ') || '0'}`,
+    });
+
+  // 1. Grundbedarf
+  inputLine('F3', 'grundbedarf', 'Schülerzahl Stand 31.08.', input.schuelerzahlStand);
+  inputLine('F4', 'grundbedarf', 'Schüler/Lehrerrelation an der Realschule', input.schuelerLehrerrelation);
+  push('F5', 'grundbedarf', 'Quotient der zwei Größen', 'calculated', values.quotient, {
+    op: 'divide',
+    terms: [input.schuelerzahlStand, input.schuelerLehrerrelation],
+    description: input.schuelerLehrerrelation > 0
+      ? `F5 = F3 / F4 = ${formatNumber(input.schuelerzahlStand)} / ${formatNumber(input.schuelerLehrerrelation)}`
+      : 'F5 = F3 / F4 - Division durch 0, Wert 0',
+  });
+  push('F6', 'grundbedarf', 'Quotient nach der 2. Dezimale abgeschnitten', 'calculated', values.quotientAbgeschnitten, {
+    op: 'trunc',
+    terms: [values.quotient, 2],
+    description: 'F6 = KÜRZEN(F5; 2)',
+  });
+  push('F7', 'grundbedarf', 'abgerundet auf halbe bzw. ganze Dezimale', 'calculated', values.abgerundet, {
+    op: 'round_half_down',
+    terms: [values.quotient],
+    description: 'F7 = WENN(F5-GANZZAHL(F5)<0,5; GANZZAHL(F5); GANZZAHL(F5)+0,5)',
+  });
+  inputLine('F8', 'grundbedarf', 'bedarfsdeckender Unterricht - Abzug Lehramtsanwärter', num(input.abzugLehramtsanwaerter));
+  inputLine('F9', 'grundbedarf', 'Rundung', num(input.rundung));
+  sumLine('F10', 'grundbedarf', 'Summe Grundbedarf', values.summeGrundbedarf, 'F6; F8:F9',
+    [values.quotientAbgeschnitten, num(input.abzugLehramtsanwaerter), num(input.rundung)]);
+
+  // 2. Ausgleichsbedarf
+  AUSGLEICHSBEDARF_FIELDS.forEach(({ field, cell, label }) => inputLine(cell, 'ausgleichsbedarf', label, num(input[field])));
+  sumLine('F27', 'ausgleichsbedarf', 'Summe Ausgleichsbedarf', values.summeAusgleichsbedarf, 'F12:F26',
+    AUSGLEICHSBEDARF_FIELDS.map(({ field }) => num(input[field])));
+
+  // 3. Mehrbedarfe (weitere Bereiche und freie Zeilen)
+  WEITERE_BEREICHE_FIELDS.forEach(({ field, cell, label }) => inputLine(cell, 'weitere_bereiche', label, num(input[field])));
+  const freieZeilen = [
+    { label: input.freieZeile1Label || 'Freie Zeile 1', value: num(input.freieZeile1Wert) },
+    { label: input.freieZeile2Label || 'Freie Zeile 2', value: num(input.freieZeile2Wert) },
+  ];
+  freieZeilen.forEach(zeile => inputLine(undefined, 'weitere_bereiche', zeile.label, zeile.value));
+  sumLine('F33', 'weitere_bereiche', 'Summe Mehrbedarfe', values.summeWeitereBereiche, 'F30:F32; freie Zeilen',
+    WEITERE_BEREICHE_FIELDS.map(({ field }) => num(input[field])).concat(freieZeilen.map(zeile => zeile.value)));
+  sumLine('F34', 'stellenbedarf', 'Grundbedarf (Summe aus Grundbedarf, Ausgleichsbedarf, Mehrbedarf)', values.grundbedarfGesamt,
+    'F10; F27; F33', [values.summeGrundbedarf, values.summeAusgleichsbedarf, values.summeWeitereBereiche]);
+
+  // 4. Zusätzliche Stellen, Stellenbesetzung, Personalausstattung
+  inputLine('F36', 'zusaetzliche_stellen', 'gegen U-Ausfall und für ind. Förderung', values.summeZusaetzlicheStellen);
+  STELLENBESETZUNG_FIELDS.forEach(({ field, cell, label }) => inputLine(cell, 'stellenbesetzung', label, num(input[field])));
+  sumLine('F41', 'stellenbesetzung', 'Summe Stellenbesetzung', values.summeStellenbesetzung, 'F38:F40',
+    STELLENBESETZUNG_FIELDS.map(({ field }) => num(input[field])));
+  PERSONALAUSSTATTUNG_FIELDS.forEach(({ field, cell, label }) => inputLine(cell, 'personalausstattung', label, num(input[field])));
+  sumLine('F47', 'personalausstattung', 'Summe Personalausstattung', values.summePersonalausstattung, 'F44:F46',
+    PERSONALAUSSTATTUNG_FIELDS.map(({ field }) => num(input[field])));
+
+  // 5. Stellen-Soll und Ist
+  sumLine('F48', 'stellenbedarf', 'Stellenbedarf (Stellen-Soll) insgesamt', values.stellenbedarfGesamt, 'F34; F41; F47',
+    [values.grundbedarfGesamt, values.summeStellenbesetzung, values.summePersonalausstattung]);
+  inputLine('F50', 'stellenbedarf', 'Vorhandene Planstellen (Istbestand)', num(input.vorhandenePlanstellen));
+  push('F51', 'stellenbedarf', 'Differenz Soll-Ist', 'summary', values.differenzSollIst, {
+    op: 'subtract',
+    terms: [num(input.vorhandenePlanstellen), values.stellenbedarfGesamt],
+    description: `F51 = F50 - F48 = ${formatNumber(num(input.vorhandenePlanstellen))} - ${formatNumber(values.stellenbedarfGesamt)}`,
+  }, { available: num(input.vorhandenePlanstellen), deficit: -values.differenzSollIst });
+
+  // 6. Ermäßigungsstunden Kollegium
+  inputLine(undefined, 'ermaessigungsstunden', 'Grundstellenbedarf-Faktor', num(input.grundstellenbedarfFaktor));
+  push('F53', 'ermaessigungsstunden', 'Grundstellenbedarf * Faktor', 'calculated', values.grundstellenbedarfHalbe, {
+    op: 'multiply',
+    terms: [values.summeGrundbedarf, num(input.grundstellenbedarfFaktor)],
+    description: `F53 = F10 * ${formatNumber(num(input.grundstellenbedarfFaktor))}`,
+  });
+  push('F54', 'ermaessigungsstunden', 'Entlastungsstunden (Kollegium) gerundet 0 Dezimalen', 'calculated', values.entlastungsstundenGerundet, {
+    op: 'round',
+    terms: [values.grundstellenbedarfHalbe, 0],
+    description: 'F54 = RUNDEN(F53; 0)',
+  });
+
+  // 7. Schulleiterpauschale
+  inputLine('F56', 'schulleitung', 'Grundpauschal', num(input.grundpauschal));
+  push('F57', 'schulleitung', 'zusätzl. Entlastung (abhängig v. Stellenanzahl)', 'calculated', values.zusaetzlicheEntlastungStellenzahl, {
+    op: 'formula',
+    terms: [values.stellenbedarfGesamt, SCHULLEITUNG_STELLENFAKTOR, num(input.grundpauschal)],
+    description: `F57 = F48 * ${formatNumber(SCHULLEITUNG_STELLENFAKTOR)} + F56`,
+  });
+  inputLine('F58', 'schulleitung', 'Schulleiterentlastung Fortbildung', num(input.schulleiterentlastungFortbildung));
+  inputLine('F59', 'schulleitung', 'Ausbau Leitungszeit', num(input.ausbauLeitungszeitSchulleiter));
+  sumLine('F60', 'schulleitung', 'Anzahl 44-46 in Stunden', values.anzahlStundenSchulleitung, 'F57:F59',
+    [values.zusaetzlicheEntlastungStellenzahl, num(input.schulleiterentlastungFortbildung), num(input.ausbauLeitungszeitSchulleiter)]);
+  push('F61', 'schulleitung', 'Entlastungsstd. (Schulleitung) gerundet 2 Dezimalen', 'calculated', values.entlastungsstundenSchulleitungGerundet, {
+    op: 'round',
+    terms: [num(input.grundpauschal) + values.anzahlStundenSchulleitung, 2],
+    description: 'F61 = RUNDEN(SUMME(F56:F59); 2)',
+  });
+  inputLine('F62', 'schulleitung', 'Schulleiter 3/5 (aufgerundet)', num(input.schulleiterDreiViertel));
+  push('F63', 'schulleitung', 'Stellvertreter 2/5 (abgerundet)', 'calculated', values.stellvertreterZweiViertel, {
+    op: 'floor',
+    terms: [values.entlastungsstundenSchulleitungGerundet * 2 / 5],
+    description: 'F63 = ABRUNDEN(F61 * 2/5; 0)',
+  });
+  inputLine('F64', 'schulleitung', 'Ausbau Leitungszeit (Stellvertretung)', num(input.ausbauLeitungszeitStellvertreter));
+  inputLine('F65', 'schulleitung', 'minus Entl. (Stundenplanarbeit) aus Schulleitungspauschale', num(input.minusEntlastungStundenplanarbeit));
+  push('F66', 'schulleitung', 'geänderte und abgerundete Schulleiterpauschal', 'calculated', values.geaenderteSchulleiterpauschal, {
+    op: 'trunc',
+    terms: [num(input.schulleiterDreiViertel), num(input.minusEntlastungStundenplanarbeit)],
+    description: 'F66 = GANZZAHL(F62 - F65/2)',
+  });
+  push('F67', 'schulleitung', 'geänderte und aufgerundete Stellvertreterpauschal', 'calculated', values.geaenderteStellvertreterpauschal, {
+    op: 'round',
+    terms: [values.stellvertreterZweiViertel, num(input.minusEntlastungStundenplanarbeit), num(input.schulleiterDreiViertel)],
+    description: 'F67 = RUNDEN(F63 - F65/2 + (F62 - GANZZAHL(F62)); 0)',
+  });
+
+  // 8. Klassenbildung
+  push('F69', 'klassenbildung', 'Sollklassenzahl', 'calculated', values.sollklassenzahl, {
+    op: 'round',
+    terms: [getSollklassenSchuelerzahl(input), KLASSENFREQUENZ],
+    description: `F69 = RUNDEN(F3 / ${KLASSENFREQUENZ}; 2)`,
+  });
+  inputLine('F70', 'klassenbildung', 'Istklassenzahl', num(input.istklassenzahl));
+  push('F71', 'klassenbildung', 'Abweichung Klassenanzahl', 'calculated', values.abweichungKlassenbildung, {
+    op: 'subtract',
+    terms: [values.sollklassenzahl, num(input.istklassenzahl)],
+    description: 'F71 = F69 - F70',
+  });
+
+  // 9. Statistik Unterrichtsstunden
+  inputLine('F73', 'statistik', 'verfügbare Unterrichtsstunden', num(input.verfuegbareUnterrichtsstunden));
+  inputLine('F74', 'statistik', 'Unterrichtssoll nach Kürzung', num(input.unterrichtssollNachKuerzung));
+  push('F75', 'statistik', 'Abweichung Unterrichtsstunden', 'calculated', values.abweichungUnterrichtsstunden, {
+    op: 'subtract',
+    terms: [num(input.verfuegbareUnterrichtsstunden), num(input.unterrichtssollNachKuerzung)],
+    description: 'F75 = F73 - F74',
+  });
+
+  return { isValid: input.schuelerLehrerrelation > 0, values, lines };
+}
+
+/**
+ * Semicolon separated export of all lines (German decimal comma, as Excel expects it)
+ */
+export function planstellenLinesToCsv(lines: PlanstellenLine[]): string {
+  const escape = (value: string) => /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const decimal = (value: string) => value.replace('.', ',');
+  const header = ['Zelle', 'Bereich', 'Bezeichnung', 'Art', 'Wert', 'Formel'];
+  const rows = lines.map(line => [
+    line.formula.cell ?? '',
+    line.category,
+    line.component,
+    line.lineType,
+    decimal(line.requiredHours),
+    line.formula.description,
+  ].map(escape).join(';'));
+  return [header.join(';'), ...rows].join('\n');
+}
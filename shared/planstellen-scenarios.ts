@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { planstellenInputSchema, type PlanstellenInput, type PlanstellenScenario } from "./schema";
+import { calculatePlanstellenValues } from "./planstellen-engine";
+
+/**
+ * Planstellen Scenarios
+ *
+ * Named sets of Planstellen input values per school year ("Prognose 730 Schüler",
+ * "ohne Praxissemester") that are saved on the server and compared side by side.
+ *
+ * Features:
+ * - Save/clone request schemas for the scenario API
+ * - Key totals of an input set (Grundbedarf, Ausgleichsbedarf, Stellenbedarf)
+ * - Column-wise comparison of 2-3 scenarios with deltas against the first one
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const savePlanstellenScenarioSchema = z.object({
+  name: z.string().trim().min(1, "Name ist erforderlich").max(100),
+  schoolYearId: z.string().min(1, "Schuljahr ist erforderlich"),
+  input: planstellenInputSchema,
+});
+
+export const clonePlanstellenScenarioSchema = z.object({
+  name: z.string().trim().min(1, "Name ist erforderlich").max(100).optional(),
+  schoolYearId: z.string().min(1).optional(),
+});
+
+export const comparePlanstellenScenariosSchema = z.object({
+  ids: z.array(z.string()).min(2, "Mindestens zwei Szenarien auswählen").max(3, "Höchstens drei Szenarien vergleichen"),
+});
+
+export type SavePlanstellenScenario = z.infer<typeof savePlanstellenScenarioSchema>;
+export type ClonePlanstellenScenario = z.infer<typeof clonePlanstellenScenarioSchema>;
+
+export interface PlanstellenTotals {
+  quotientAbgeschnitten: number;     // F6
+  summeGrundbedarf: number;          // F10
+  summeAusgleichsbedarf: number;     // F27
+  summeWeitereBereiche: number;      // F33
+  grundbedarfGesamt: number;         // F34
+  summeStellenbesetzung: number;     // F41
+  summePersonalausstattung: number;  // F47
+  stellenbedarfGesamt: number;       // F48
+  differenzSollIst: number;          // F51
+}
+
+export type PlanstellenTotalKey = keyof PlanstellenTotals;
+
+export interface ScenarioComparisonColumn {
+  scenarioId: string;
+  name: string;
+  schoolYear: string;
+  totals: PlanstellenTotals;
+  // Differenz zum ersten (Bezugs-)Szenario; beim Bezugsszenario selbst 0
+  deltas: PlanstellenTotals;
+}
+
+export interface ScenarioComparison {
+  baseScenarioId: string;
+  columns: ScenarioComparisonColumn[];
+}
+
+// ===== CONSTANTS =====
+
+export const DEFAULT_PLANSTELLEN_INPUT: PlanstellenInput = planstellenInputSchema.parse({});
+
+/**
+ * Rows of the comparison view, in the order of the Excel sheet
+ */
+export const COMPARISON_ROWS: { key: PlanstellenTotalKey; label: string; highlight?: boolean }[] = [
+  { key: 'summeGrundbedarf', label: 'Summe Grundbedarf', highlight: true },
+  { key: 'summeAusgleichsbedarf', label: 'Summe Ausgleichsbedarf', highlight: true },
+  { key: 'summeWeitereBereiche', label: 'Weitere Bereiche' },
+  { key: 'grundbedarfGesamt', label: 'Grundbedarf gesamt' },
+  { key: 'summeStellenbesetzung', label: 'Stellenbesetzung' },
+  { key: 'summePersonalausstattung', label: 'Personalausstattung' },
+  { key: 'stellenbedarfGesamt', label: 'Stellenbedarf insgesamt', highlight: true },
+  { key: 'differenzSollIst', label: 'Differenz Soll-Ist' },
+];
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * Stored scenario input merged over the schema defaults, so scenarios saved before a
+ * field existed still load with complete values
+ */
+export function getScenarioInput(scenario: Pick<PlanstellenScenario, 'parameters'>): PlanstellenInput {
+  return planstellenInputSchema.parse({ ...DEFAULT_PLANSTELLEN_INPUT, ...(scenario.parameters?.input ?? {}) });
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Key totals of the Planstellen sheet (F6, F10, F27, F33, F34, F41, F47, F48, F51)
+ */
+export function summarizePlanstellenInput(input: PlanstellenInput): PlanstellenTotals {
+  const values = calculatePlanstellenValues(input);
+  return {
+    quotientAbgeschnitten: values.quotientAbgeschnitten,
+    summeGrundbedarf: values.summeGrundbedarf,
+    summeAusgleichsbedarf: values.summeAusgleichsbedarf,
+    summeWeitereBereiche: values.summeWeitereBereiche,
+    grundbedarfGesamt: values.grundbedarfGesamt,
+    summeStellenbesetzung: values.summeStellenbesetzung,
+    summePersonalausstattung: values.summePersonalausstattung,
+    stellenbedarfGesamt: values.stellenbedarfGesamt,
+    differenzSollIst: values.differenzSollIst,
+  };
+}
+
+/**
+ * Compares scenarios column by column; the first scenario is the reference for the deltas
+ */
+export function compareScenarios(scenarios: PlanstellenScenario[]): ScenarioComparison {
+  const totals = scenarios.map(scenario => summarizePlanstellenInput(getScenarioInput(scenario)));
+  const base = totals[0];
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    baseScenarioId: scenarios[0]?.id ?? '',
+    columns: scenarios.map((scenario, index) => {
+      const deltas = {} as PlanstellenTotals;
+      (Object.keys(totals[index]) as PlanstellenTotalKey[]).forEach(key => {
+        deltas[key] = round(totals[index][key] - base[key]);
+      });
+      return {
+        scenarioId: scenario.id,
+        name: scenario.name,
+        schoolYear: scenario.schoolYear,
+        totals: totals[index],
+        deltas,
+      };
+    }),
+  };
+}
@@ -2,10 +2,21 @@ import { sql, relations } from "drizzle-orm";
 import { pgTable, text, varchar, integer, decimal, boolean, timestamp, json, date, unique, index, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { MatrixEdit } from "./matrix-change-set";
+
+// Schools (tenants): all planning data belongs to exactly one school
+export const schools = pgTable("schools", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  shortName: varchar("short_name", { length: 20 }).notNull().unique(),
+  schoolNumber: varchar("school_number", { length: 6 }).unique(), // NRW Schulnummer
+  createdAt: timestamp("created_at").defaultNow(),
+});
 
 // School Years table for versioning and school year transitions
 export const schoolYears = pgTable("school_years", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   name: text("name").notNull(), // "2024/25", "2025/26", etc.
   startDate: date("start_date").notNull(),
   endDate: date("end_date").notNull(),
@@ -15,9 +26,10 @@ export const schoolYears = pgTable("school_years", {
 
 export const teachers = pgTable("teachers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
-  shortName: varchar("short_name", { length: 20 }).notNull().unique(),
+  shortName: varchar("short_name", { length: 20 }).notNull(),
   personnelNumber: varchar("personnel_number", { length: 20 }),
   email: text("email"),
   dateOfBirth: date("date_of_birth"),
@@ -37,20 +49,25 @@ export const teachers = pgTable("teachers", {
   notes: text("notes").default(''),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  uniqueShortNamePerSchool: unique("unique_teacher_short_name_per_school").on(table.schoolId, table.shortName),
+}));
 
 export const students = pgTable("students", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
   classId: varchar("class_id").references(() => classes.id, { onDelete: "set null" }),
   grade: integer("grade").notNull(),
+  dateOfBirth: date("date_of_birth"),
   schoolYearId: varchar("school_year_id").references(() => schoolYears.id, { onDelete: "restrict" }), // nullable for backward compatibility
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const classes = pgTable("classes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   name: varchar("name", { length: 50 }).notNull(),
   type: varchar("type", { length: 10 }).notNull().default("klasse"), // "klasse", "kurs", "ag"
   grade: integer("grade").notNull(),
@@ -69,22 +86,27 @@ export const classes = pgTable("classes", {
 
 export const subjects = pgTable("subjects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   name: text("name").notNull(),
-  shortName: varchar("short_name", { length: 50 }).notNull().unique(),
+  shortName: varchar("short_name", { length: 50 }).notNull(),
   category: text("category").notNull(),
   hoursPerWeek: json("hours_per_week").$type<Record<string, number>>().notNull().default({}),
   parallelGroup: varchar("parallel_group", { length: 50 }), // Parallele Fächergruppe (optional)
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  uniqueShortNamePerSchool: unique("unique_subject_short_name_per_school").on(table.schoolId, table.shortName),
+}));
 
 export const assignments = pgTable("assignments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   teacherId: varchar("teacher_id").references(() => teachers.id, { onDelete: "cascade" }).notNull(),
   classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }).notNull(),
   subjectId: varchar("subject_id").references(() => subjects.id, { onDelete: "cascade" }).notNull(),
   hoursPerWeek: decimal("hours_per_week", { precision: 3, scale: 1 }).notNull(),
   semester: varchar("semester", { length: 2 }).notNull().default("1"), // "1" for 1st semester, "2" for 2nd semester
   isOptimized: boolean("is_optimized").notNull().default(false),
+  isLocked: boolean("is_locked").notNull().default(false), // Locked rows are fixed input for the optimizer
   teamTeachingId: varchar("team_teaching_id"), // Groups assignments that are team-taught together
   schoolYearId: varchar("school_year_id").references(() => schoolYears.id, { onDelete: "restrict" }), // nullable for backward compatibility
   createdAt: timestamp("created_at").defaultNow(),
@@ -95,21 +117,75 @@ export const assignments = pgTable("assignments", {
   schoolYearIndex: index("idx_assignments_year").on(table.schoolYearId),
 }));
 
+// How the hours of a team-teaching group are credited to its teachers.
+// Groups without a row count fully for every teacher.
+export const TEAM_TEACHING_CREDIT_MODES = ["full", "split", "custom"] as const;
+
+export const teamTeachingSettings = pgTable("team_teaching_settings", {
+  teamTeachingId: varchar("team_teaching_id").primaryKey(), // assignments.teamTeachingId
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
+  creditMode: varchar("credit_mode", { length: 10 }).notNull().default("full"), // full, split, custom
+  shares: jsonb("shares").$type<Record<string, number>>().notNull().default({}), // teacherId -> percent, only for custom
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Teacher wishes and rules for the optimizer (hard = never violated, soft = weighted preference)
+export const teacherConstraints = pgTable("teacher_constraints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
+  teacherId: varchar("teacher_id").references(() => teachers.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 30 }).notNull(), // exclude_grade, exclude_class, exclude_subject, prefer_class_subject, max_classes_per_subject
+  strength: varchar("strength", { length: 4 }).notNull().default("soft"), // "hard" or "soft"
+  weight: integer("weight").notNull().default(50), // 1-100, only relevant for soft constraints
+  grade: integer("grade"),
+  classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }),
+  subjectId: varchar("subject_id").references(() => subjects.id, { onDelete: "cascade" }),
+  maxCount: integer("max_count"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  teacherIndex: index("idx_teacher_constraints_teacher").on(table.teacherId),
+}));
+
+// Ermäßigungsstunden ledger: each entry is valid from startDate to endDate (open-ended if null),
+// optionally only in one semester. teachers.reductionHours caches the current school year's values.
+export const teacherReductions = pgTable("teacher_reductions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
+  teacherId: varchar("teacher_id").references(() => teachers.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 2 }).notNull(), // AE, BA, SL, SO, LK, SB, VG
+  hours: decimal("hours", { precision: 4, scale: 1 }).notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  semester: varchar("semester", { length: 1 }), // "1", "2" or null for both semesters
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  teacherIndex: index("idx_teacher_reductions_teacher").on(table.teacherId),
+}));
+
 export const planstellenScenarios = pgTable("planstellen_scenarios", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   name: text("name").notNull(),
   schoolYear: text("school_year").notNull(),
+  schoolYearId: varchar("school_year_id").references(() => schoolYears.id, { onDelete: "restrict" }), // nullable for backward compatibility
   parameters: json("parameters").$type<{
     classesByGrade?: Record<string, number>;
     subjectHourOverrides?: Record<string, Record<string, number>>;
     categoryFactors?: Record<string, number>;
     includeFlags?: Record<string, boolean>;
+    input?: Partial<PlanstellenInput>; // Eingabewerte der Planstellenberechnung
   }>().notNull().default({}),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  schoolYearIndex: index("idx_planstellen_scenarios_year").on(table.schoolYearId),
+}));
 
 export const planstellen = pgTable("planstellen", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   scenarioId: varchar("scenario_id").references(() => planstellenScenarios.id),
   subjectId: varchar("subject_id").references(() => subjects.id), // nullable for totals
   grade: integer("grade"), // nullable for summaries
@@ -120,17 +196,19 @@ export const planstellen = pgTable("planstellen", {
     op?: string;
     terms?: any[];
     description?: string;
+    cell?: string; // Excel cell of the Planstellen sheet, e.g. "F10"
   }>().notNull().default({}),
   color: text("color"), // for UI color coding
-  requiredHours: decimal("required_hours", { precision: 4, scale: 1 }).notNull(),
-  availableHours: decimal("available_hours", { precision: 4, scale: 1 }).notNull(),
-  deficit: decimal("deficit", { precision: 4, scale: 1 }).notNull().default('0'),
+  requiredHours: decimal("required_hours", { precision: 8, scale: 2 }).notNull(),
+  availableHours: decimal("available_hours", { precision: 8, scale: 2 }).notNull(),
+  deficit: decimal("deficit", { precision: 8, scale: 2 }).notNull().default('0'),
   calculatedAt: timestamp("calculated_at").defaultNow(),
 });
 
 // PDF Import Subject Mappings table
 export const subjectMappings = pgTable("subject_mappings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   pdfSubjectName: text("pdf_subject_name").notNull(), // Original name from PDF (e.g., "Deutsch Förder 1. Hj.")
   normalizedName: text("normalized_name").notNull(), // Normalized version for matching (e.g., "deutsch förder")
   systemSubjectId: varchar("system_subject_id").references(() => subjects.id, { onDelete: "cascade" }).notNull(),
@@ -143,19 +221,38 @@ export const subjectMappings = pgTable("subject_mappings", {
   normalizedNameIdx: index("idx_subject_mappings_normalized").on(table.normalizedName),
 }));
 
+// Column mapping profiles of the SCHILD-NRW CSV import, saved per school and data type
+export const SCHILD_IMPORT_TYPES = ["teachers", "students", "classes"] as const;
+
+export const csvMappingProfiles = pgTable("csv_mapping_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
+  name: text("name").notNull(),
+  dataType: varchar("data_type", { length: 20 }).notNull(), // teachers, students, classes
+  mapping: json("mapping").$type<Record<string, string | null>>().notNull().default({}), // import field -> CSV header
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  uniqueNamePerSchool: unique("unique_csv_mapping_profile_name").on(table.schoolId, table.dataType, table.name),
+}));
+
 // PDF Imports and Tables
 export const pdfImports = pgTable("pdf_imports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   fileName: text("file_name").notNull(),
-  fileHash: varchar("file_hash").unique(),
+  fileHash: varchar("file_hash"),
   uploadedBy: varchar("uploaded_by").references(() => users.id),
   pageCount: integer("page_count").notNull().default(0),
   metadata: json("metadata").$type<Record<string, any>>().notNull().default({}),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  uniqueFileHashPerSchool: unique("unique_pdf_import_hash_per_school").on(table.schoolId, table.fileHash),
+}));
 
 export const pdfTables = pgTable("pdf_tables", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
   importId: varchar("import_id").references(() => pdfImports.id, { onDelete: "cascade" }).notNull(),
   page: integer("page").notNull(),
   tableIndex: integer("table_index").notNull(),
@@ -193,29 +290,127 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password hashes for the local login provider, kept apart from users so they never leave the server
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash").notNull(), // scrypt, see server/auth-providers.ts
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Invitations table for invitation-based access control
 export const invitations = pgTable("invitations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  email: varchar("email").notNull().unique(),
+  email: varchar("email").notNull(), // several schools can invite the same person
   token: varchar("token").notNull().unique(), // for invitation link
   role: varchar("role").notNull().default("user"), // user, admin
+  schoolRoles: jsonb("school_roles").$type<SchoolRoleGrant[]>().notNull().default([]), // memberships granted on first login
   createdBy: varchar("created_by").references(() => users.id),
   used: boolean("used").default(false),
   usedBy: varchar("used_by").references(() => users.id),
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   usedAt: timestamp("used_at"),
+  revokedAt: timestamp("revoked_at"), // revoked invitations cannot be accepted until extended again
+  lastSentAt: timestamp("last_sent_at"), // last invitation email
+  sentCount: integer("sent_count").notNull().default(0),
 });
 
+export const INVITATION_VALIDITY_DAYS = 7;
+export const MAX_INVITATION_VALIDITY_DAYS = 90;
+export const MAX_BULK_INVITATIONS = 500;
+
+// Membership of a user in a school with the role inside that school.
+// users.role "admin" is the Schulträger admin with access to every school.
+// What each role may do is defined in shared/permissions.ts.
+export const SCHOOL_ROLES = ["admin", "schulleitung", "stundenplaner", "fachkonferenzleitung", "kollegium"] as const;
+
+export const userSchools = pgTable("user_schools", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  role: varchar("role", { length: 30 }).notNull().default("kollegium"), // see SCHOOL_ROLES
+  subjectIds: jsonb("subject_ids").$type<string[]>().notNull().default([]), // own subjects of a Fachkonferenzleitung
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserSchool: unique("unique_user_school").on(table.userId, table.schoolId),
+}));
+
+// Server-side drafts of matrix edits (undo/redo stack), one open draft per user and school year
+export const matrixChangeSets = pgTable("matrix_change_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
+  userId: varchar("user_id"), // null when editing without login (development)
+  schoolYearId: varchar("school_year_id").references(() => schoolYears.id, { onDelete: "cascade" }).notNull(),
+  status: varchar("status", { length: 10 }).notNull().default("draft"), // draft, committed, discarded
+  edits: jsonb("edits").$type<MatrixEdit[]>().notNull().default([]),
+  position: integer("position").notNull().default(0), // edits before this index are applied, the rest can be redone
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  committedAt: timestamp("committed_at"),
+}, (table) => ({
+  ownerIndex: index("idx_matrix_change_sets_owner").on(table.userId, table.schoolYearId, table.status),
+}));
+
+// Audit log of changes to assignments, teachers, classes and subjects
+export const AUDIT_ENTITY_TYPES = ["assignment", "teacher", "class", "subject"] as const;
+export const AUDIT_ACTIONS = ["create", "update", "delete"] as const;
+
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // assignment, teacher, class, subject
+  entityId: varchar("entity_id").notNull(),
+  action: varchar("action", { length: 10 }).notNull(), // create, update, delete
+  userId: varchar("user_id"), // no FK: entries outlive deleted users; null for system changes
+  before: jsonb("before").$type<Record<string, unknown> | null>(),
+  after: jsonb("after").$type<Record<string, unknown> | null>(),
+  revertedAt: timestamp("reverted_at"),
+  revertedBy: varchar("reverted_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  entityIndex: index("idx_audit_logs_entity").on(table.entityType, table.entityId),
+  createdAtIndex: index("idx_audit_logs_created_at").on(table.createdAt),
+}));
+
+// Preference and change requests teachers send from their personal page to the admin inbox
+export const TEACHER_REQUEST_TYPES = ["preference", "change"] as const;
+export const TEACHER_REQUEST_STATUSES = ["open", "accepted", "rejected"] as const;
+
+export const teacherRequests = pgTable("teacher_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "restrict" }), // nullable until existing rows are assigned to a school
+  teacherId: varchar("teacher_id").references(() => teachers.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id"), // sender; no FK so requests outlive deleted users
+  type: varchar("type", { length: 20 }).notNull(), // preference, change
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  status: varchar("status", { length: 10 }).notNull().default("open"), // open, accepted, rejected
+  response: text("response"),
+  resolvedBy: varchar("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  statusIndex: index("idx_teacher_requests_status").on(table.status),
+}));
+
 // Relations
+export const schoolsRelations = relations(schools, ({ many }) => ({
+  schoolYears: many(schoolYears),
+  members: many(userSchools),
+}));
+
 export const schoolYearsRelations = relations(schoolYears, ({ many }) => ({
   students: many(students),
   classes: many(classes),
   assignments: many(assignments),
+  planstellenScenarios: many(planstellenScenarios),
 }));
 
 export const teachersRelations = relations(teachers, ({ many }) => ({
   assignments: many(assignments),
+  constraints: many(teacherConstraints),
+  reductions: many(teacherReductions),
+  requests: many(teacherRequests),
   classesAsTeacher1: many(classes, { relationName: "classTeacher1" }),
   classesAsTeacher2: many(classes, { relationName: "classTeacher2" }),
 }));
@@ -250,8 +445,12 @@ export const classesRelations = relations(classes, ({ many, one }) => ({
   }),
 }));
 
-export const planstellenScenariosRelations = relations(planstellenScenarios, ({ many }) => ({
+export const planstellenScenariosRelations = relations(planstellenScenarios, ({ one, many }) => ({
   planstellen: many(planstellen),
+  schoolYear: one(schoolYears, {
+    fields: [planstellenScenarios.schoolYearId],
+    references: [schoolYears.id],
+  }),
 }));
 
 export const subjectsRelations = relations(subjects, ({ many }) => ({
@@ -286,6 +485,35 @@ export const assignmentsRelations = relations(assignments, ({ one }) => ({
   }),
 }));
 
+export const teacherConstraintsRelations = relations(teacherConstraints, ({ one }) => ({
+  teacher: one(teachers, {
+    fields: [teacherConstraints.teacherId],
+    references: [teachers.id],
+  }),
+  class: one(classes, {
+    fields: [teacherConstraints.classId],
+    references: [classes.id],
+  }),
+  subject: one(subjects, {
+    fields: [teacherConstraints.subjectId],
+    references: [subjects.id],
+  }),
+}));
+
+export const teacherReductionsRelations = relations(teacherReductions, ({ one }) => ({
+  teacher: one(teachers, {
+    fields: [teacherReductions.teacherId],
+    references: [teachers.id],
+  }),
+}));
+
+export const teacherRequestsRelations = relations(teacherRequests, ({ one }) => ({
+  teacher: one(teachers, {
+    fields: [teacherRequests.teacherId],
+    references: [teachers.id],
+  }),
+}));
+
 export const planstellenRelations = relations(planstellen, ({ one }) => ({
   scenario: one(planstellenScenarios, {
     fields: [planstellen.scenarioId],
@@ -299,10 +527,22 @@ export const planstellenRelations = relations(planstellen, ({ one }) => ({
 
 // Authentication relations
 export const usersRelations = relations(users, ({ many }) => ({
+  schools: many(userSchools),
   invitationsCreated: many(invitations, { relationName: "createdBy" }),
   invitationsUsed: many(invitations, { relationName: "usedBy" }),
 }));
 
+export const userSchoolsRelations = relations(userSchools, ({ one }) => ({
+  user: one(users, {
+    fields: [userSchools.userId],
+    references: [users.id],
+  }),
+  school: one(schools, {
+    fields: [userSchools.schoolId],
+    references: [schools.id],
+  }),
+}));
+
 export const invitationsRelations = relations(invitations, ({ one }) => ({
   createdBy: one(users, {
     fields: [invitations.createdBy],
@@ -317,8 +557,43 @@ export const invitationsRelations = relations(invitations, ({ one }) => ({
 }));
 
 // Insert schemas
+export const insertSchoolSchema = createInsertSchema(schools).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Schulname ist erforderlich").max(200, "Name zu lang"),
+  shortName: z.string().min(1, "Kürzel ist erforderlich").max(20, "Kürzel zu lang"),
+  schoolNumber: z.string().regex(/^\d{6}$/, "Schulnummer muss 6 Ziffern haben").nullable().optional(),
+});
+
+export const schoolRoleGrantSchema = z.object({
+  schoolId: z.string().min(1, "Schule ist erforderlich"),
+  role: z.enum(SCHOOL_ROLES, { invalid_type_error: "Unbekannte Rolle" }),
+  subjectIds: z.array(z.string()).optional(),
+}).refine(grant => grant.role !== "fachkonferenzleitung" || (grant.subjectIds?.length ?? 0) > 0, {
+  message: "Fachkonferenzleitung benötigt mindestens ein Fach",
+  path: ["subjectIds"],
+});
+
+export const localLoginSchema = z.object({
+  email: z.string().email("Gültige E-Mail-Adresse erforderlich"),
+  password: z.string().min(1, "Passwort ist erforderlich"),
+});
+
+// Account data when accepting an invitation with the local login provider
+export const acceptInvitationSchema = z.object({
+  firstName: z.string().trim().min(1, "Vorname ist erforderlich").max(100),
+  lastName: z.string().trim().min(1, "Nachname ist erforderlich").max(100),
+  password: z.string().min(10, "Passwort muss mindestens 10 Zeichen haben").max(200, "Passwort zu lang"),
+});
+
+export const selectSchoolSchema = z.object({
+  schoolId: z.string().min(1, "Schule ist erforderlich"),
+});
+
 export const insertSchoolYearSchema = createInsertSchema(schoolYears).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 }).extend({
   name: z.string().min(1, "Schuljahr-Name ist erforderlich").max(20, "Name zu lang"),
@@ -335,11 +610,13 @@ export const insertSchoolYearSchema = createInsertSchema(schoolYears).omit({
 
 export const insertTeacherSchema = createInsertSchema(teachers).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 });
 
 export const insertStudentSchema = createInsertSchema(students).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 }).extend({
   schoolYearId: z.string().uuid().nullable().optional(),
@@ -347,6 +624,7 @@ export const insertStudentSchema = createInsertSchema(students).omit({
 
 export const insertClassSchema = createInsertSchema(classes).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 }).extend({
   type: z.enum(["klasse", "kurs", "ag"], { invalid_type_error: "Typ muss 'klasse', 'kurs' oder 'ag' sein" }),
@@ -383,11 +661,13 @@ export const insertClassSchema = createInsertSchema(classes).omit({
 
 export const insertSubjectSchema = createInsertSchema(subjects).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 });
 
 export const insertAssignmentSchema = createInsertSchema(assignments).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 }).extend({
   semester: z.enum(["1", "2"], { invalid_type_error: "Semester muss '1' oder '2' sein" }),
@@ -397,13 +677,88 @@ export const insertAssignmentSchema = createInsertSchema(assignments).omit({
   teamTeachingId: z.string().uuid().nullable().optional(),
 });
 
+export const teamTeachingSettingSchema = z.object({
+  creditMode: z.enum(TEAM_TEACHING_CREDIT_MODES, { invalid_type_error: "Ungültige Anrechnungsart" }),
+  shares: z.record(z.number().min(0, "Anteil darf nicht negativ sein").max(100, "Anteil höchstens 100 %")).optional(),
+}).refine((data) => data.creditMode !== "custom" || Object.keys(data.shares ?? {}).length > 0, {
+  message: "Für individuelle Anteile müssen Anteile je Lehrkraft angegeben werden",
+  path: ["shares"],
+});
+
+export const TEACHER_CONSTRAINT_TYPES = [
+  "exclude_grade",
+  "exclude_class",
+  "exclude_subject",
+  "prefer_class_subject",
+  "max_classes_per_subject",
+] as const;
+
+export const insertTeacherConstraintSchema = createInsertSchema(teacherConstraints).omit({
+  id: true,
+  schoolId: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(TEACHER_CONSTRAINT_TYPES, { invalid_type_error: "Ungültiger Vorgabentyp" }),
+  strength: z.enum(["hard", "soft"], { invalid_type_error: "Stärke muss 'hard' oder 'soft' sein" }),
+  weight: z.number().int().min(1, "Gewichtung mindestens 1").max(100, "Gewichtung höchstens 100").optional(),
+  grade: z.number().int().min(5).max(10).nullable().optional(),
+  classId: z.string().nullable().optional(),
+  subjectId: z.string().nullable().optional(),
+  maxCount: z.number().int().min(0).nullable().optional(),
+}).superRefine((data, ctx) => {
+  const required: Record<typeof data.type, Array<"grade" | "classId" | "subjectId" | "maxCount">> = {
+    exclude_grade: ["grade"],
+    exclude_class: ["classId"],
+    exclude_subject: ["subjectId"],
+    prefer_class_subject: ["classId", "subjectId"],
+    max_classes_per_subject: ["subjectId", "maxCount"],
+  };
+  required[data.type].forEach(field => {
+    if (data[field] === null || data[field] === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} ist für ${data.type} erforderlich` });
+    }
+  });
+});
+
+export const TEACHER_REDUCTION_TYPES = ["AE", "BA", "SL", "SO", "LK", "SB", "VG"] as const;
+
+const isoDate = (message: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, message);
+
+export const insertTeacherReductionSchema = createInsertSchema(teacherReductions).omit({
+  id: true,
+  schoolId: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(TEACHER_REDUCTION_TYPES, { invalid_type_error: "Ungültige Ermäßigungsart" }),
+  hours: z.number().min(0.5, "Mindestens 0,5 Stunden").max(28, "Höchstens 28 Stunden")
+    .transform(num => num.toString()),
+  startDate: isoDate("Gültiges Startdatum erforderlich"),
+  endDate: isoDate("Gültiges Enddatum erforderlich").nullable().optional(),
+  semester: z.enum(["1", "2"], { invalid_type_error: "Semester muss '1' oder '2' sein" }).nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+}).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+  message: "Enddatum darf nicht vor dem Startdatum liegen",
+  path: ["endDate"],
+});
+
 export const insertPlanstellenScenarioSchema = createInsertSchema(planstellenScenarios).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
+  updatedAt: true,
+}).extend({
+  parameters: z.object({
+    classesByGrade: z.record(z.number()).optional(),
+    subjectHourOverrides: z.record(z.record(z.number())).optional(),
+    categoryFactors: z.record(z.number()).optional(),
+    includeFlags: z.record(z.boolean()).optional(),
+    input: z.lazy(() => planstellenInputSchema.partial()).optional(),
+  }).optional(),
 });
 
 export const insertPlanstelleSchema = createInsertSchema(planstellen).omit({
   id: true,
+  schoolId: true,
   calculatedAt: true,
 });
 
@@ -424,9 +779,13 @@ export const insertInvitationSchema = createInsertSchema(invitations).omit({
   usedBy: true,
   usedAt: true,
   createdAt: true,
+  revokedAt: true,
+  lastSentAt: true,
+  sentCount: true,
 }).extend({
   email: z.string().email("Gültige E-Mail-Adresse erforderlich"),
   role: z.enum(["user", "admin"], { invalid_type_error: "Rolle muss 'user' oder 'admin' sein" }),
+  schoolRoles: z.array(schoolRoleGrantSchema).optional(),
   createdBy: z.string().refine((val) => {
     // Accept both UUID format and Replit User ID format (numeric string)
     return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(val) || /^[0-9]+$/.test(val);
@@ -436,9 +795,30 @@ export const insertInvitationSchema = createInsertSchema(invitations).omit({
   }),
 });
 
+// Validity and delivery of new, extended or resent invitations
+export const invitationDeliverySchema = z.object({
+  expiresInDays: z.coerce.number().int()
+    .min(1, "Gültigkeit muss mindestens 1 Tag sein")
+    .max(MAX_INVITATION_VALIDITY_DAYS, `Gültigkeit höchstens ${MAX_INVITATION_VALIDITY_DAYS} Tage`)
+    .default(INVITATION_VALIDITY_DAYS),
+  sendEmail: z.boolean().default(false),
+});
+
+// Many addresses with one school role each; admins are invited one by one
+export const bulkInvitationSchema = invitationDeliverySchema.extend({
+  entries: z.array(z.object({
+    email: z.string().trim().min(1),
+    role: z.enum(SCHOOL_ROLES, { invalid_type_error: "Unbekannte Rolle" }).optional(),
+  }))
+    .min(1, "Keine E-Mail-Adressen angegeben")
+    .max(MAX_BULK_INVITATIONS, `Höchstens ${MAX_BULK_INVITATIONS} Einladungen auf einmal`),
+  role: z.enum(SCHOOL_ROLES, { invalid_type_error: "Unbekannte Rolle" }).default("kollegium"),
+});
+
 // Subject Mapping insert schema
 export const insertSubjectMappingSchema = createInsertSchema(subjectMappings).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
   lastUsedAt: true,
 }).extend({
@@ -450,13 +830,83 @@ export const insertSubjectMappingSchema = createInsertSchema(subjectMappings).om
   usedCount: z.number().int().min(0).optional(),
 });
 
+// Schedule data parsed by a language model (ChatGPT import), checked before anything is stored.
+// Field rules come from the insert schemas, so a record that passes can be created.
+export const MAX_CLASS_HOURS_PER_SEMESTER = 40;
+
+export const parsedScheduleTeacherSchema = z.object({
+  name: z.string(),
+  shortName: insertTeacherSchema.shape.shortName.trim().min(1, "Kürzel fehlt"),
+  qualifications: z.array(z.string()),
+});
+
+export const parsedScheduleClassSchema = insertClassSchema.pick({
+  grade: true,
+  studentCount: true,
+}).extend({
+  name: insertClassSchema.shape.name.trim().min(1, "Klassenname fehlt"),
+});
+
+export const parsedScheduleSubjectSchema = z.object({
+  name: insertSubjectSchema.shape.name.trim().min(1, "Fachname fehlt"),
+  shortName: insertSubjectSchema.shape.shortName.trim().min(1, "Fachkürzel fehlt"),
+  category: insertSubjectSchema.shape.category,
+});
+
+export const parsedScheduleAssignmentSchema = insertAssignmentSchema.pick({
+  hoursPerWeek: true,
+  semester: true,
+}).extend({
+  teacherShortName: insertTeacherSchema.shape.shortName.trim().min(1, "Lehrkraft fehlt"),
+  className: insertClassSchema.shape.name.trim().min(1, "Klasse fehlt"),
+  subjectShortName: insertSubjectSchema.shape.shortName.trim().min(1, "Fach fehlt"),
+});
+
+export const insertCsvMappingProfileSchema = createInsertSchema(csvMappingProfiles).pick({
+  name: true,
+}).extend({
+  name: z.string().trim().min(1, "Name ist erforderlich").max(100),
+  dataType: z.enum(SCHILD_IMPORT_TYPES, { invalid_type_error: "Unbekannter Datentyp" }),
+  mapping: z.record(z.string(), z.string().nullable()),
+});
+
 export const insertPdfImportSchema = createInsertSchema(pdfImports).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 });
 
+export const auditLogQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  userId: z.string().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Datum im Format JJJJ-MM-TT erforderlich").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Datum im Format JJJJ-MM-TT erforderlich").optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const insertTeacherRequestSchema = createInsertSchema(teacherRequests).pick({
+  type: true,
+  title: true,
+  message: true,
+}).extend({
+  type: z.enum(TEACHER_REQUEST_TYPES, { invalid_type_error: "Ungültige Art der Anfrage" }),
+  title: z.string().trim().min(1, "Betreff ist erforderlich").max(200, "Betreff zu lang"),
+  message: z.string().trim().min(1, "Nachricht ist erforderlich").max(5000, "Nachricht zu lang"),
+});
+
+export const resolveTeacherRequestSchema = z.object({
+  status: z.enum(TEACHER_REQUEST_STATUSES, { invalid_type_error: "Ungültiger Status" }),
+  response: z.string().max(5000, "Antwort zu lang").optional(),
+});
+
+export const teacherRequestQuerySchema = z.object({
+  status: z.enum(TEACHER_REQUEST_STATUSES).optional(),
+});
+
 export const insertPdfTableSchema = createInsertSchema(pdfTables).omit({
   id: true,
+  schoolId: true,
   extractedAt: true,
 }).extend({
   headers: z.array(z.string()).optional(),
@@ -464,6 +914,11 @@ export const insertPdfTableSchema = createInsertSchema(pdfTables).omit({
 });
 
 // Types
+export type School = typeof schools.$inferSelect;
+export type InsertSchool = z.infer<typeof insertSchoolSchema>;
+export type SchoolRole = typeof SCHOOL_ROLES[number];
+export type SchoolRoleGrant = z.infer<typeof schoolRoleGrantSchema>;
+export type UserSchool = typeof userSchools.$inferSelect;
 export type SchoolYear = typeof schoolYears.$inferSelect;
 export type InsertSchoolYear = z.infer<typeof insertSchoolYearSchema>;
 export type Teacher = typeof teachers.$inferSelect;
@@ -476,6 +931,13 @@ export type Subject = typeof subjects.$inferSelect;
 export type InsertSubject = z.infer<typeof insertSubjectSchema>;
 export type Assignment = typeof assignments.$inferSelect;
 export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
+export type TeamTeachingCreditMode = typeof TEAM_TEACHING_CREDIT_MODES[number];
+export type TeamTeachingSetting = typeof teamTeachingSettings.$inferSelect;
+export type UpdateTeamTeachingSetting = z.infer<typeof teamTeachingSettingSchema>;
+export type TeacherConstraint = typeof teacherConstraints.$inferSelect;
+export type InsertTeacherConstraint = z.infer<typeof insertTeacherConstraintSchema>;
+export type TeacherReduction = typeof teacherReductions.$inferSelect;
+export type InsertTeacherReduction = z.infer<typeof insertTeacherReductionSchema>;
 export type PlanstellenScenario = typeof planstellenScenarios.$inferSelect;
 export type InsertPlanstellenScenario = z.infer<typeof insertPlanstellenScenarioSchema>;
 export type Planstelle = typeof planstellen.$inferSelect;
@@ -489,13 +951,38 @@ export type InsertSubjectMapping = z.infer<typeof insertSubjectMappingSchema>;
 export type User = typeof users.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type LocalLogin = z.infer<typeof localLoginSchema>;
+export type AcceptInvitation = z.infer<typeof acceptInvitationSchema>;
 export type Invitation = typeof invitations.$inferSelect;
 export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type InvitationDelivery = z.infer<typeof invitationDeliverySchema>;
+export type BulkInvitation = z.infer<typeof bulkInvitationSchema>;
+export type SchildImportType = typeof SCHILD_IMPORT_TYPES[number];
+export type CsvMappingProfile = typeof csvMappingProfiles.$inferSelect;
+export type InsertCsvMappingProfile = z.infer<typeof insertCsvMappingProfileSchema>;
 export type PdfImport = typeof pdfImports.$inferSelect;
 export type InsertPdfImport = z.infer<typeof insertPdfImportSchema>;
 export type PdfTable = typeof pdfTables.$inferSelect;
 export type InsertPdfTable = z.infer<typeof insertPdfTableSchema>;
 
+// Matrix change set types
+export type MatrixChangeSet = typeof matrixChangeSets.$inferSelect;
+
+// Audit log types
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+// Teacher request types
+export type TeacherRequestType = typeof TEACHER_REQUEST_TYPES[number];
+export type TeacherRequestStatus = typeof TEACHER_REQUEST_STATUSES[number];
+export type TeacherRequest = typeof teacherRequests.$inferSelect;
+export type InsertTeacherRequest = z.infer<typeof insertTeacherRequestSchema>;
+export type ResolveTeacherRequest = z.infer<typeof resolveTeacherRequestSchema>;
+
 // Schema für Planstellen-Eingabe - Erweitert mit Ausgleichsbedarf aus Excel
 export const planstellenInputSchema = z.object({
   // Grunddaten
@@ -0,0 +1,404 @@
+import type { SchildImportType } from "./schema";
+
+/**
+ * SCHILD-NRW CSV import
+ *
+ * Reads the text exports of SCHILD-NRW (Lehrkräfte, Schüler, Klassen) by their column
+ * headers instead of fixed positions. Schools choose which columns they export and in
+ * which order, so every import field is looked up through a column mapping that is
+ * either recognized from the header names or chosen by the user and saved as a profile.
+ *
+ * Features:
+ * - Encoding detection: UTF-8 (with or without BOM), UTF-16 and Windows-1252/Latin-1,
+ *   the default of SCHILD exports
+ * - Delimiter detection (; , Tab |) and quote-aware parsing, also across line breaks
+ * - Standard header names of the SCHILD export layouts, umlauts and punctuation ignored
+ * - Column mapping with saved profiles taking precedence over the recognized headers
+ * - Rows converted to teacher, student and class records with errors per line
+ */
+
+// ===== TYPES =====
+
+export type CsvEncoding = "utf-8" | "utf-16le" | "windows-1252";
+
+export interface SchildField {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[];     // header names as exported by SCHILD and the older import templates
+}
+
+// Import field -> header name of the file; null when the field is not imported
+export type ColumnMapping = Record<string, string | null>;
+
+export interface CsvTable {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface SchildLayoutMatch {
+  dataType: SchildImportType;
+  label: string;
+  matchedFields: number;
+}
+
+export interface SchildRowResult<T> {
+  line: number;          // line in the file, header = 1
+  record: T | null;      // null when the row has errors
+  errors: string[];
+  warnings: string[];
+}
+
+export interface SchildTeacherRecord {
+  firstName: string;
+  lastName: string;
+  shortName: string;
+  personnelNumber: string | null;
+  email: string | null;
+  dateOfBirth: string | null;   // YYYY-MM-DD
+  subjects: string[];
+  qualifications: string[];
+  maxHours: number | null;
+  notes: string;
+}
+
+export interface SchildStudentRecord {
+  firstName: string;
+  lastName: string;
+  className: string | null;
+  grade: number | null;
+  dateOfBirth: string | null;
+}
+
+export interface SchildClassRecord {
+  name: string;
+  grade: number;
+  studentCount: number | null;
+  classTeacher1ShortName: string | null;
+  classTeacher2ShortName: string | null;
+}
+
+// ===== CONSTANTS =====
+
+export const SCHILD_LAYOUT_LABELS: Record<SchildImportType, string> = {
+  teachers: "SCHILD-NRW Lehrkräfte",
+  students: "SCHILD-NRW Schüler",
+  classes: "SCHILD-NRW Klassen",
+};
+
+export const SCHILD_FIELDS: Record<SchildImportType, SchildField[]> = {
+  teachers: [
+    { key: "shortName", label: "Kürzel", required: true, aliases: ["Kürzel", "Lehrerkürzel", "Krz", "Kurzzeichen", "Lehrer", "shortName"] },
+    { key: "lastName", label: "Nachname", required: true, aliases: ["Nachname", "Name", "Familienname", "lastName"] },
+    { key: "firstName", label: "Vorname", required: true, aliases: ["Vorname", "Rufname", "firstName"] },
+    { key: "email", label: "E-Mail", required: false, aliases: ["E-Mail (dienstlich)", "E-Mail dienstlich", "E-Mail", "Email", "E-Mail-Adresse", "Mail"] },
+    { key: "personnelNumber", label: "Personalnummer", required: false, aliases: ["Personal-Nr.", "Personalnummer", "PersNr", "Pers.-Nr.", "Personal-Nummer", "personnelNumber"] },
+    { key: "dateOfBirth", label: "Geburtsdatum", required: false, aliases: ["Geburtsdatum", "Geb.-Datum", "Geb.Datum", "Geburtstag", "dateOfBirth"] },
+    { key: "maxHours", label: "Pflichtstunden", required: false, aliases: ["Pflichtstundensoll", "Pflichtstunden", "Soll-Stunden", "Stundensoll", "Deputat", "Max. Stunden/Woche", "Max. Stunden", "maxHours"] },
+    { key: "subjects", label: "Fächer", required: false, aliases: ["Fächer", "Fakultas", "Fakultäten", "Lehrbefähigungen", "Lehrbefähigung", "subjects"] },
+    { key: "qualifications", label: "Qualifikationen", required: false, aliases: ["Qualifikationen", "Zusatzqualifikationen", "qualifications"] },
+    { key: "notes", label: "Bemerkung", required: false, aliases: ["Bemerkung", "Bemerkungen", "Notizen", "notes"] },
+  ],
+  students: [
+    { key: "lastName", label: "Nachname", required: true, aliases: ["Nachname", "Name", "Familienname", "lastName"] },
+    { key: "firstName", label: "Vorname", required: true, aliases: ["Vorname", "Rufname", "firstName"] },
+    { key: "className", label: "Klasse", required: false, aliases: ["Klasse", "Klassenbezeichnung", "Kl.", "Klassen-ID", "className"] },
+    { key: "grade", label: "Jahrgang", required: false, aliases: ["Jahrgang", "Jahrgangsstufe", "Jg.", "Jg", "Stufe", "grade"] },
+    { key: "dateOfBirth", label: "Geburtsdatum", required: false, aliases: ["Geburtsdatum", "Geb.-Datum", "Geb.Datum", "Geburtstag", "dateOfBirth"] },
+  ],
+  classes: [
+    { key: "name", label: "Klasse", required: true, aliases: ["Klasse", "Klassenbezeichnung", "Klassenname", "Bezeichnung", "name"] },
+    { key: "grade", label: "Jahrgang", required: false, aliases: ["Jahrgang", "Jahrgangsstufe", "Jg.", "Jg", "Stufe", "grade"] },
+    { key: "studentCount", label: "Schülerzahl", required: false, aliases: ["Schülerzahl", "Anzahl Schüler", "Anz. Schüler", "Schüleranzahl", "Schüler", "SuS", "studentCount"] },
+    { key: "classTeacher1ShortName", label: "Klassenleitung", required: false, aliases: ["Klassenlehrer", "Klassenlehrer 1", "Klassenleitung", "Klassenleitung 1", "KL", "KL1"] },
+    { key: "classTeacher2ShortName", label: "Stellvertretung", required: false, aliases: ["Klassenlehrer 2", "Klassenleitung 2", "Stellv. Klassenlehrer", "Stellvertretung", "KL2"] },
+  ],
+};
+
+const DELIMITERS = [";", ",", "\t", "|"];
+
+// Upper school classes have no number in the name
+const UPPER_SCHOOL_GRADES: Record<string, number> = { EF: 11, Q1: 12, Q2: 13 };
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * Comparable form of a header: "E-Mail (dienstlich)" -> "emaildienstlich", "Kürzel" -> "kuerzel"
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function cell(row: string[], index: number | undefined): string {
+  return index === undefined ? "" : (row[index] ?? "").trim();
+}
+
+function parseNumber(value: string): number | null {
+  if (!value) return null;
+  const number = Number(value.replace(",", "."));
+  return Number.isFinite(number) ? number : null;
+}
+
+function parseList(value: string): string[] {
+  return value.split(/[,;\/]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * SCHILD writes dates as DD.MM.YYYY; YYYY-MM-DD is accepted as well
+ */
+export function parseSchildDate(value: string): string | null {
+  const german = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const [year, month, day] = german
+    ? [Number(german[3]), Number(german[2]), Number(german[1])]
+    : iso ? [Number(iso[1]), Number(iso[2]), Number(iso[3])] : [0, 0, 0];
+  if (!year) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export function getGradeFromClassName(className: string): number | null {
+  return UPPER_SCHOOL_GRADES[className.toUpperCase()] ?? (parseInt(className, 10) || null);
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Decodes a CSV file. Without byte order mark the text is read as UTF-8 if it is valid
+ * UTF-8, otherwise as Windows-1252 (a superset of Latin-1).
+ */
+export function decodeCsvBuffer(bytes: Uint8Array): { text: string; encoding: CsvEncoding } {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder("utf-8").decode(bytes.subarray(3)), encoding: "utf-8" };
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return { text: new TextDecoder("utf-16le").decode(bytes.subarray(2)), encoding: "utf-16le" };
+  }
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "windows-1252" };
+  }
+}
+
+/**
+ * The delimiter that occurs most often outside quotes in the header line
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return DELIMITERS.reduce((best, delimiter) => counts.get(delimiter)! > counts.get(best)! ? delimiter : best, DELIMITERS[0]);
+}
+
+export function parseCsvTable(text: string, delimiter: string = detectDelimiter(text)): CsvTable {
+  const records: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      records.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    records.push(row);
+  }
+
+  const [headers = [], ...rows] = records.filter(record => record.some(value => value !== ""));
+  return { delimiter, headers, rows };
+}
+
+/**
+ * The export layout whose fields are found in the headers; all required fields must be
+ * present, ties go to the layout with more recognized columns
+ */
+export function detectSchildLayout(headers: string[]): SchildLayoutMatch | null {
+  let best: SchildLayoutMatch | null = null;
+  for (const dataType of Object.keys(SCHILD_FIELDS) as SchildImportType[]) {
+    const mapping = resolveColumnMapping(headers, dataType);
+    if (getMissingRequiredFields(dataType, mapping).length > 0) continue;
+    const matchedFields = Object.values(mapping).filter(Boolean).length;
+    if (!best || matchedFields > best.matchedFields) {
+      best = { dataType, label: SCHILD_LAYOUT_LABELS[dataType], matchedFields };
+    }
+  }
+  return best;
+}
+
+/**
+ * Header for every field of the data type. A saved mapping wins as long as its header
+ * exists in the file; the remaining fields are recognized by their standard names.
+ * Every header is used for one field at most.
+ */
+export function resolveColumnMapping(headers: string[], dataType: SchildImportType, preferred: ColumnMapping = {}): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const fields = SCHILD_FIELDS[dataType];
+
+  for (const field of fields) {
+    const header = preferred[field.key];
+    if (header === null) {
+      mapping[field.key] = null;
+    } else if (header && headers.includes(header) && !used.has(header)) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  }
+
+  const byName = new Map<string, string>();
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    if (normalized && !byName.has(normalized)) byName.set(normalized, header);
+  });
+
+  for (const field of fields) {
+    if (field.key in mapping) continue;
+    const header = field.aliases.map(alias => byName.get(normalizeHeader(alias))).find(h => h && !used.has(h));
+    mapping[field.key] = header ?? null;
+    if (header) used.add(header);
+  }
+  return mapping;
+}
+
+export function getMissingRequiredFields(dataType: SchildImportType, mapping: ColumnMapping): SchildField[] {
+  return SCHILD_FIELDS[dataType].filter(field => field.required && !mapping[field.key]);
+}
+
+// Column index per field; the first column wins when a header occurs twice
+function getColumnIndexes(headers: string[], mapping: ColumnMapping): Record<string, number | undefined> {
+  const indexes: Record<string, number | undefined> = {};
+  for (const [key, header] of Object.entries(mapping)) {
+    const index = header ? headers.indexOf(header) : -1;
+    indexes[key] = index >= 0 ? index : undefined;
+  }
+  return indexes;
+}
+
+function mapRows<T>(
+  table: CsvTable,
+  dataType: SchildImportType,
+  mapping: ColumnMapping,
+  convert: (value: (key: string) => string, errors: string[], warnings: string[]) => T
+): SchildRowResult<T>[] {
+  const columns = getColumnIndexes(table.headers, mapping);
+  const requiredFields = SCHILD_FIELDS[dataType].filter(field => field.required);
+
+  return table.rows.map((row, index) => {
+    const value = (key: string) => cell(row, columns[key]);
+    const errors = requiredFields.filter(field => !value(field.key)).map(field => `${field.label} fehlt`);
+    const warnings: string[] = [];
+    const record = convert(value, errors, warnings);
+    return { line: index + 2, record: errors.length > 0 ? null : record, errors, warnings };
+  });
+}
+
+function readDate(value: string, label: string, warnings: string[]): string | null {
+  if (!value) return null;
+  const date = parseSchildDate(value);
+  if (!date) warnings.push(`${label} „${value}“ nicht erkannt und nicht übernommen`);
+  return date;
+}
+
+function readNumber(value: string, label: string, errors: string[]): number | null {
+  const number = parseNumber(value);
+  if (value && (number === null || number < 0)) errors.push(`${label} „${value}“ ist keine gültige Zahl`);
+  return number;
+}
+
+export function mapTeacherRows(table: CsvTable, mapping: ColumnMapping): SchildRowResult<SchildTeacherRecord>[] {
+  return mapRows(table, "teachers", mapping, (value, errors, warnings) => ({
+    firstName: value("firstName"),
+    lastName: value("lastName"),
+    shortName: value("shortName"),
+    personnelNumber: value("personnelNumber") || null,
+    email: value("email") || null,
+    dateOfBirth: readDate(value("dateOfBirth"), "Geburtsdatum", warnings),
+    subjects: parseList(value("subjects")),
+    qualifications: parseList(value("qualifications")),
+    maxHours: readNumber(value("maxHours"), "Pflichtstunden", errors),
+    notes: value("notes"),
+  }));
+}
+
+export function mapStudentRows(table: CsvTable, mapping: ColumnMapping): SchildRowResult<SchildStudentRecord>[] {
+  return mapRows(table, "students", mapping, (value, errors, warnings) => {
+    const className = value("className") || null;
+    const grade = readNumber(value("grade"), "Jahrgang", errors);
+    return {
+      firstName: value("firstName"),
+      lastName: value("lastName"),
+      className,
+      grade: grade !== null ? Math.round(grade) : className ? getGradeFromClassName(className) : null,
+      dateOfBirth: readDate(value("dateOfBirth"), "Geburtsdatum", warnings),
+    };
+  });
+}
+
+export function mapClassRows(table: CsvTable, mapping: ColumnMapping): SchildRowResult<SchildClassRecord>[] {
+  return mapRows(table, "classes", mapping, (value, errors) => {
+    const name = value("name");
+    const grade = readNumber(value("grade"), "Jahrgang", errors) ?? getGradeFromClassName(name);
+    if (name && grade === null) errors.push(`Jahrgang für Klasse „${name}“ nicht erkennbar`);
+    return {
+      name,
+      grade: grade !== null ? Math.round(grade) : 0,
+      studentCount: readNumber(value("studentCount"), "Schülerzahl", errors),
+      classTeacher1ShortName: value("classTeacher1ShortName") || null,
+      classTeacher2ShortName: value("classTeacher2ShortName") || null,
+    };
+  });
+}
+
+/**
+ * Records of the rows without errors, plus the skipped rows and the warnings for the import result
+ */
+export function splitRowResults<T>(results: SchildRowResult<T>[]): {
+  records: T[];
+  skipped: { line: number; errors: string[] }[];
+  warnings: { line: number; message: string }[];
+} {
+  return {
+    records: results.flatMap(result => result.record ? [result.record] : []),
+    skipped: results.filter(result => !result.record).map(({ line, errors }) => ({ line, errors })),
+    warnings: results.flatMap(({ line, warnings }) => warnings.map(message => ({ line, message }))),
+  };
+}
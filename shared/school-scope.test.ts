@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { School } from "./schema";
+import { getAccessibleSchools, resolveSchoolAccess } from "./school-scope";
+
+const schools = [
+  { id: "s2", name: "Realschule Nord" },
+  { id: "s1", name: "Gesamtschule Süd" },
+  { id: "s3", name: "Realschule Ost" },
+] as School[];
+
+const memberships = [
+  { schoolId: "s3", role: "fachkonferenzleitung", subjectIds: ["M"] },
+  { schoolId: "s2", role: "kollegium", subjectIds: null },
+];
+
+test("global admins see every school as admin, sorted by name", () => {
+  const access = getAccessibleSchools({ role: "admin" }, [], schools);
+  assert.deepEqual(access.map(a => [a.school.id, a.role]), [["s1", "admin"], ["s2", "admin"], ["s3", "admin"]]);
+});
+
+test("other users see only the schools they are members of, with their role there", () => {
+  const access = getAccessibleSchools({ role: "user" }, memberships, schools);
+  assert.deepEqual(access.map(a => [a.school.id, a.role, a.subjectIds]), [
+    ["s2", "kollegium", []],
+    ["s3", "fachkonferenzleitung", ["M"]],
+  ]);
+});
+
+test("without a user record only the development bypass sees schools", () => {
+  assert.deepEqual(getAccessibleSchools(undefined, memberships, schools), []);
+  assert.equal(getAccessibleSchools(undefined, [], schools, true).length, 3);
+  // The bypass does not widen the access of a real user
+  assert.equal(getAccessibleSchools({ role: "user" }, memberships, schools, true).length, 2);
+});
+
+test("resolves the requested school or falls back to the first accessible one", () => {
+  const access = getAccessibleSchools({ role: "user" }, memberships, schools);
+  assert.equal(resolveSchoolAccess(access)?.school.id, "s2");
+  assert.equal(resolveSchoolAccess(access, null)?.school.id, "s2");
+  assert.equal(resolveSchoolAccess(access, "s3")?.role, "fachkonferenzleitung");
+});
+
+test("a requested school without access resolves to nothing, not to the fallback", () => {
+  const access = getAccessibleSchools({ role: "user" }, memberships, schools);
+  assert.equal(resolveSchoolAccess(access, "s1"), undefined);
+  assert.equal(resolveSchoolAccess([], "s1"), undefined);
+  assert.equal(resolveSchoolAccess([]), undefined);
+});
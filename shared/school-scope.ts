@@ -0,0 +1,65 @@
+import type { School, SchoolRole, User, UserSchool } from "./schema";
+
+/**
+ * School context
+ *
+ * Several schools share one installation. Every request works inside one school,
+ * chosen by the client via header and otherwise taken from the session.
+ *
+ * Features:
+ * - Shared header name for client and server
+ * - Access rules: global admins (Schulträger) see every school, everyone else only their memberships
+ * - Fallback to the first accessible school when none was chosen
+ */
+
+// ===== TYPES =====
+
+export interface SchoolAccess {
+  school: School;
+  /** Role inside the school; global admins are admins everywhere */
+  role: SchoolRole;
+  /** Own subjects of a Fachkonferenzleitung */
+  subjectIds: string[];
+}
+
+// ===== CONSTANTS =====
+
+export const SCHOOL_HEADER = "x-school-id";
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * Schools a user may work in, sorted by name.
+ * Without a user record no school is accessible; only the development login bypass,
+ * whose mock user has no record, sees every school.
+ */
+export function getAccessibleSchools(
+  user: Pick<User, "role"> | undefined,
+  memberships: Pick<UserSchool, "schoolId" | "role" | "subjectIds">[],
+  schools: School[],
+  devAuthBypass = false
+): SchoolAccess[] {
+  const sorted = [...schools].sort((a, b) => a.name.localeCompare(b.name, "de"));
+  if (user?.role === "admin" || (!user && devAuthBypass)) {
+    return sorted.map(school => ({ school, role: "admin", subjectIds: [] }));
+  }
+  if (!user) {
+    return [];
+  }
+  const membershipBySchool = new Map(memberships.map(m => [m.schoolId, m]));
+  return sorted
+    .filter(school => membershipBySchool.has(school.id))
+    .map(school => {
+      const membership = membershipBySchool.get(school.id)!;
+      return { school, role: membership.role as SchoolRole, subjectIds: membership.subjectIds ?? [] };
+    });
+}
+
+/**
+ * The requested school if accessible, the first accessible school if none was requested,
+ * undefined if the requested school is not accessible
+ */
+export function resolveSchoolAccess(accessible: SchoolAccess[], requestedSchoolId?: string | null): SchoolAccess | undefined {
+  if (!requestedSchoolId) return accessible[0];
+  return accessible.find(access => access.school.id === requestedSchoolId);
+}
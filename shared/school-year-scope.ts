@@ -0,0 +1,30 @@
+import type { SchoolYear } from "./schema";
+
+/**
+ * School year context
+ *
+ * Every read API is scoped to one school year, chosen by the client via query parameter
+ * or header and defaulting to the current school year on the server.
+ *
+ * Features:
+ * - Shared header/query parameter names for client and server
+ * - Past school years are read-only; the current and future (planning) years are writable
+ */
+
+// ===== CONSTANTS =====
+
+export const SCHOOL_YEAR_HEADER = "x-school-year-id";
+export const SCHOOL_YEAR_QUERY_PARAM = "schoolYearId";
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * A school year that ended before the current one started
+ */
+export function isPastSchoolYear(
+  schoolYear: Pick<SchoolYear, "id" | "endDate">,
+  currentSchoolYear: Pick<SchoolYear, "id" | "startDate"> | null | undefined
+): boolean {
+  if (!currentSchoolYear || schoolYear.id === currentSchoolYear.id) return false;
+  return schoolYear.endDate < currentSchoolYear.startDate;
+}
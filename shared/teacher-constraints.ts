@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { Teacher, Class, Subject, TeacherConstraint, TEACHER_CONSTRAINT_TYPES } from "./schema";
+
+/**
+ * Teacher Constraints for the optimizers
+ *
+ * Structured teacher wishes ("keine Klasse 5", "8b in Deutsch behalten", "max. 2 Klassen in Sport")
+ * that both the server-side solver and the client-side runOptimization read.
+ *
+ * Features:
+ * - Hard constraints exclude a teacher from a slot entirely
+ * - Soft constraints add a weighted penalty (or bonus for preferences) to the candidate score
+ * - Report of violated constraints with the reason why the optimizer accepted the violation
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const constraintViolationSchema = z.object({
+  constraintId: z.string(),
+  teacherId: z.string(),
+  teacherShortName: z.string(),
+  type: z.enum(TEACHER_CONSTRAINT_TYPES),
+  strength: z.enum(["hard", "soft"]),
+  weight: z.number(),
+  label: z.string(),
+  classIds: z.array(z.string()),
+  subjectId: z.string().nullable(),
+  message: z.string(),
+  reason: z.string(),
+});
+
+export type ConstraintViolation = z.infer<typeof constraintViolationSchema>;
+export type TeacherConstraintType = typeof TEACHER_CONSTRAINT_TYPES[number];
+
+/**
+ * A (possibly planned) teaching slot a teacher is checked against.
+ * Differenzierung courses cover several classes, so a slot can span more than one class.
+ */
+export interface ConstraintSlot {
+  classIds: string[];
+  grades: number[];
+  subjectId: string;
+}
+
+/**
+ * Minimal assignment shape for the violation report (stored rows and planned rows alike)
+ */
+export interface ConstraintAssignment {
+  teacherId: string;
+  classId: string;
+  subjectId: string;
+  isLocked?: boolean;
+}
+
+// ===== CONSTANTS =====
+
+export const CONSTRAINT_TYPE_LABELS: Record<TeacherConstraintType, string> = {
+  exclude_grade: 'Keine Klassen eines Jahrgangs',
+  exclude_class: 'Keine bestimmte Klasse',
+  exclude_subject: 'Kein bestimmtes Fach',
+  prefer_class_subject: 'Klasse in einem Fach behalten',
+  max_classes_per_subject: 'Höchstzahl Klassen in einem Fach',
+};
+
+export const CONSTRAINT_STRENGTH_LABELS = {
+  hard: 'Verbindlich',
+  soft: 'Wunsch',
+} as const;
+
+// ===== HELPER FUNCTIONS =====
+
+export function explanationKey(teacherId: string, classId: string, subjectId: string): string {
+  return `${teacherId}|${classId}|${subjectId}`;
+}
+
+/**
+ * Short human readable description of a constraint, e.g. "Keine Klasse 5" or "8b in D behalten"
+ */
+export function describeConstraint(
+  constraint: TeacherConstraint,
+  context: { classes: Class[]; subjects: Subject[] }
+): string {
+  const className = context.classes.find(c => c.id === constraint.classId)?.name ?? '?';
+  const subjectName = context.subjects.find(s => s.id === constraint.subjectId)?.shortName ?? '?';
+
+  switch (constraint.type as TeacherConstraintType) {
+    case 'exclude_grade': return `Keine Klasse ${constraint.grade}`;
+    case 'exclude_class': return `Nicht in ${className}`;
+    case 'exclude_subject': return `Kein ${subjectName}`;
+    case 'prefer_class_subject': return `${className} in ${subjectName} behalten`;
+    case 'max_classes_per_subject': return `Max. ${constraint.maxCount} Klassen in ${subjectName}`;
+    default: return constraint.type;
+  }
+}
+
+/**
+ * Constraints that assigning the slot to the teacher would violate:
+ * the teacher's own exclusions and limits plus other teachers' wish to keep this class subject.
+ * assignedClassIds are the classes the teacher already teaches in the slot's subject.
+ */
+export function getViolatedConstraints(
+  teacherId: string,
+  slot: ConstraintSlot,
+  constraints: TeacherConstraint[],
+  assignedClassIds: Set<string> = new Set()
+): TeacherConstraint[] {
+  return constraints.filter(constraint => {
+    if (constraint.teacherId !== teacherId) {
+      return constraint.type === 'prefer_class_subject'
+        && constraint.subjectId === slot.subjectId
+        && slot.classIds.includes(constraint.classId ?? '');
+    }
+
+    switch (constraint.type as TeacherConstraintType) {
+      case 'exclude_grade':
+        return constraint.grade !== null && slot.grades.includes(constraint.grade);
+      case 'exclude_class':
+        return slot.classIds.includes(constraint.classId ?? '');
+      case 'exclude_subject':
+        return constraint.subjectId === slot.subjectId;
+      case 'max_classes_per_subject': {
+        if (constraint.subjectId !== slot.subjectId || constraint.maxCount === null) return false;
+        const classIds = new Set(Array.from(assignedClassIds).concat(slot.classIds));
+        return classIds.size > constraint.maxCount;
+      }
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * The teacher's own preferences that the slot fulfils
+ */
+export function getFulfilledPreferences(
+  teacherId: string,
+  slot: ConstraintSlot,
+  constraints: TeacherConstraint[]
+): TeacherConstraint[] {
+  return constraints.filter(constraint =>
+    constraint.teacherId === teacherId
+    && constraint.type === 'prefer_class_subject'
+    && constraint.subjectId === slot.subjectId
+    && slot.classIds.includes(constraint.classId ?? '')
+  );
+}
+
+// ===== VIOLATION REPORT =====
+
+/**
+ * Lists every constraint the final plan violates.
+ * explanations holds the optimizer's reason per teacher|class|subject; rows without one are
+ * fixed input (locked or existing assignments) and are reported as such.
+ */
+export function evaluateConstraintViolations(
+  assignments: ConstraintAssignment[],
+  constraints: TeacherConstraint[],
+  context: { teachers: Teacher[]; classes: Class[]; subjects: Subject[] },
+  explanations: Map<string, string> = new Map()
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const classById = new Map(context.classes.map(c => [c.id, c]));
+  const subjectById = new Map(context.subjects.map(s => [s.id, s]));
+  const teacherById = new Map(context.teachers.map(t => [t.id, t]));
+
+  const reasonFor = (row: ConstraintAssignment): string =>
+    explanations.get(explanationKey(row.teacherId, row.classId, row.subjectId))
+    ?? (row.isLocked ? 'Gesperrte Zuweisung' : 'Bestehende Zuweisung');
+
+  const slotName = (row: ConstraintAssignment): string =>
+    `${classById.get(row.classId)?.name ?? row.classId} ${subjectById.get(row.subjectId)?.shortName ?? ''}`.trim();
+
+  // One row per teacher, class and subject - semesters do not matter for the wishes
+  const rows = new Map<string, ConstraintAssignment>();
+  assignments.forEach(row => {
+    const key = explanationKey(row.teacherId, row.classId, row.subjectId);
+    const existing = rows.get(key);
+    if (!existing || (row.isLocked && !existing.isLocked)) rows.set(key, row);
+  });
+  const uniqueRows = Array.from(rows.values());
+
+  constraints.forEach(constraint => {
+    const push = (classIds: string[], message: string, reason: string) => {
+      violations.push({
+        constraintId: constraint.id,
+        teacherId: constraint.teacherId,
+        teacherShortName: teacherById.get(constraint.teacherId)?.shortName ?? constraint.teacherId,
+        type: constraint.type as TeacherConstraintType,
+        strength: constraint.strength as "hard" | "soft",
+        weight: constraint.weight,
+        label: describeConstraint(constraint, context),
+        classIds,
+        subjectId: constraint.subjectId,
+        message,
+        reason,
+      });
+    };
+
+    const ownRows = uniqueRows.filter(row => row.teacherId === constraint.teacherId);
+
+    switch (constraint.type as TeacherConstraintType) {
+      case 'exclude_grade':
+      case 'exclude_class':
+      case 'exclude_subject': {
+        ownRows
+          .filter(row => getViolatedConstraints(constraint.teacherId, {
+            classIds: [row.classId],
+            grades: [classById.get(row.classId)?.grade ?? 0],
+            subjectId: row.subjectId,
+          }, [constraint]).length > 0)
+          .forEach(row => push([row.classId], `${slotName(row)} zugewiesen`, reasonFor(row)));
+        break;
+      }
+      case 'max_classes_per_subject': {
+        const subjectRows = ownRows.filter(row => row.subjectId === constraint.subjectId);
+        if (constraint.maxCount !== null && subjectRows.length > constraint.maxCount) {
+          const planned = subjectRows.find(row => explanations.has(explanationKey(row.teacherId, row.classId, row.subjectId)));
+          push(
+            subjectRows.map(row => row.classId),
+            `${subjectRows.length} Klassen in ${subjectById.get(constraint.subjectId!)?.shortName ?? ''} zugewiesen`,
+            reasonFor(planned ?? subjectRows[0])
+          );
+        }
+        break;
+      }
+      case 'prefer_class_subject': {
+        const slotRows = uniqueRows.filter(row =>
+          row.classId === constraint.classId && row.subjectId === constraint.subjectId
+        );
+        if (slotRows.length > 0 && !slotRows.some(row => row.teacherId === constraint.teacherId)) {
+          const other = slotRows[0];
+          push(
+            [other.classId],
+            `${slotName(other)} unterrichtet ${teacherById.get(other.teacherId)?.shortName ?? other.teacherId}`,
+            reasonFor(other)
+          );
+        }
+        break;
+      }
+    }
+  });
+
+  return violations.sort((a, b) =>
+    a.strength.localeCompare(b.strength) || b.weight - a.weight || a.teacherShortName.localeCompare(b.teacherShortName)
+  );
+}
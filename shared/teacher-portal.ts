@@ -0,0 +1,201 @@
+import type { Teacher, Subject, Class, Assignment, TeamTeachingSetting, TeacherRequestType, TeacherRequestStatus } from "./schema";
+import { REDUCTION_TYPES, REDUCTION_TYPE_LABELS, type ReductionType } from "./lehrerplanstellen";
+import { createTeamTeachingCreditResolver, getCreditedHours } from "./team-teaching";
+import { calculateTeacherHours, type SemesterHours } from "./teacher-workload";
+
+/**
+ * Teacher self-service portal
+ *
+ * Read-only personal view of one teacher: what they teach, how that compares to their
+ * Deputat and where their Ermäßigungsstunden come from. The teacher is found via the
+ * email address of the logged-in user.
+ *
+ * Features:
+ * - Assignments per semester with credited hours and team-teaching partners
+ * - Deputat (maxHours) minus reductionHours vs. hours computed from the assignments
+ * - reductionHours broken down by type
+ * - Classes where the teacher is Klassenleitung or Stellvertretung
+ * - Labels for the preference and change requests sent to the admin inbox
+ */
+
+// ===== TYPES =====
+
+export interface PortalColleague {
+  teacherId: string;
+  shortName: string;
+  name: string;
+}
+
+export interface PortalAssignment {
+  id: string;
+  classId: string;
+  className: string;
+  subjectId: string;
+  subjectShortName: string;
+  subjectName: string;
+  hoursPerWeek: number;
+  creditedHours: number;        // after team-teaching crediting
+  teamPartners: PortalColleague[];
+}
+
+export interface PortalReduction {
+  type: ReductionType;
+  label: string;
+  hours: number;
+}
+
+export interface PortalClassTeacherRole {
+  classId: string;
+  className: string;
+  position: 1 | 2;               // 1 = Klassenleitung, 2 = Stellvertretung
+  colleague: PortalColleague | null;
+}
+
+export interface TeacherPortalView {
+  teacher: Pick<Teacher, "id" | "firstName" | "lastName" | "shortName" | "email">;
+  assignmentsBySemester: Record<"1" | "2", PortalAssignment[]>;
+  hours: {
+    maxHours: number;
+    reductionHours: number;
+    availableHours: number;      // maxHours minus reductions
+    assignedHours: SemesterHours;
+    difference: SemesterHours;   // assigned - available
+  };
+  reductions: PortalReduction[];
+  classTeacherOf: PortalClassTeacherRole[];
+}
+
+export interface TeacherPortalInput {
+  teachers: Teacher[];
+  subjects: Subject[];
+  classes: Class[];
+  assignments: Assignment[];
+  teamTeachingSettings?: TeamTeachingSetting[];
+}
+
+// ===== CONSTANTS =====
+
+export const TEACHER_REQUEST_TYPE_LABELS: Record<TeacherRequestType, string> = {
+  preference: "Wunsch",
+  change: "Änderungsantrag",
+};
+
+export const TEACHER_REQUEST_STATUS_LABELS: Record<TeacherRequestStatus, string> = {
+  open: "Offen",
+  accepted: "Angenommen",
+  rejected: "Abgelehnt",
+};
+
+// ===== HELPER FUNCTIONS =====
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toNumber(value: unknown): number {
+  const numeric = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+function toColleague(teacher: Teacher): PortalColleague {
+  return { teacherId: teacher.id, shortName: teacher.shortName, name: `${teacher.firstName} ${teacher.lastName}` };
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Non-zero reductionHours of a teacher in the order of REDUCTION_TYPES
+ */
+export function getReductionBreakdown(teacher: Pick<Teacher, "reductionHours">): PortalReduction[] {
+  const source = (teacher.reductionHours || {}) as Record<string, unknown>;
+  return REDUCTION_TYPES
+    .map(type => ({ type, label: REDUCTION_TYPE_LABELS[type], hours: round(toNumber(source[type])) }))
+    .filter(reduction => reduction.hours > 0);
+}
+
+/**
+ * Personal page of one teacher from the data of the selected school year
+ */
+export function buildTeacherPortalView(teacher: Teacher, input: TeacherPortalInput): TeacherPortalView {
+  const teacherById = new Map(input.teachers.map(t => [t.id, t]));
+  const subjectById = new Map(input.subjects.map(s => [s.id, s]));
+  const classById = new Map(input.classes.map(c => [c.id, c]));
+  const resolveCredit = createTeamTeachingCreditResolver(input.assignments, { settings: input.teamTeachingSettings });
+
+  const teamPartners = (assignment: Assignment): PortalColleague[] => {
+    if (!assignment.teamTeachingId) return [];
+    const partnerIds = new Set(input.assignments
+      .filter(a => a.teamTeachingId === assignment.teamTeachingId && a.semester === assignment.semester && a.teacherId !== teacher.id)
+      .map(a => a.teacherId));
+    return Array.from(partnerIds)
+      .map(teacherId => teacherById.get(teacherId))
+      .filter((partner): partner is Teacher => !!partner)
+      .map(toColleague);
+  };
+
+  const assignmentsBySemester: Record<"1" | "2", PortalAssignment[]> = { "1": [], "2": [] };
+  input.assignments
+    .filter(assignment => assignment.teacherId === teacher.id)
+    .forEach(assignment => {
+      const subject = subjectById.get(assignment.subjectId);
+      const schoolClass = classById.get(assignment.classId);
+      assignmentsBySemester[assignment.semester === "2" ? "2" : "1"].push({
+        id: assignment.id,
+        classId: assignment.classId,
+        className: schoolClass?.name ?? "?",
+        subjectId: assignment.subjectId,
+        subjectShortName: subject?.shortName ?? "?",
+        subjectName: subject?.name ?? "",
+        hoursPerWeek: toNumber(assignment.hoursPerWeek),
+        creditedHours: round(getCreditedHours(assignment, resolveCredit)),
+        teamPartners: teamPartners(assignment),
+      });
+    });
+  (["1", "2"] as const).forEach(semester => {
+    assignmentsBySemester[semester].sort((a, b) =>
+      a.className.localeCompare(b.className, "de", { numeric: true }) || a.subjectShortName.localeCompare(b.subjectShortName, "de"));
+  });
+
+  const reductions = getReductionBreakdown(teacher);
+  const maxHours = toNumber(teacher.maxHours);
+  const reductionHours = round(reductions.reduce((sum, reduction) => sum + reduction.hours, 0));
+  const availableHours = round(Math.max(0, maxHours - reductionHours));
+  const computed = calculateTeacherHours(input.assignments, input.subjects, input.classes, {
+    teamTeachingSettings: input.teamTeachingSettings,
+  }).get(teacher.id);
+  const assignedHours: SemesterHours = computed?.semesterHours ?? { "1": 0, "2": 0 };
+
+  const classTeacherOf: PortalClassTeacherRole[] = [];
+  input.classes.forEach(schoolClass => {
+    const position = schoolClass.classTeacher1Id === teacher.id ? 1 : schoolClass.classTeacher2Id === teacher.id ? 2 : null;
+    if (!position) return;
+    const colleagueId = position === 1 ? schoolClass.classTeacher2Id : schoolClass.classTeacher1Id;
+    const colleague = colleagueId ? teacherById.get(colleagueId) : undefined;
+    classTeacherOf.push({ classId: schoolClass.id, className: schoolClass.name, position, colleague: colleague ? toColleague(colleague) : null });
+  });
+  classTeacherOf.sort((a, b) => a.className.localeCompare(b.className, "de", { numeric: true }));
+
+  return {
+    teacher: {
+      id: teacher.id,
+      firstName: teacher.firstName,
+      lastName: teacher.lastName,
+      shortName: teacher.shortName,
+      email: teacher.email,
+    },
+    assignmentsBySemester,
+    hours: {
+      maxHours,
+      reductionHours,
+      availableHours,
+      assignedHours,
+      difference: {
+        "1": round(assignedHours["1"] - availableHours),
+        "2": round(assignedHours["2"] - availableHours),
+      },
+    },
+    reductions,
+    classTeacherOf,
+  };
+}
@@ -0,0 +1,241 @@
+import { z } from "zod";
+import type { Teacher, TeacherReduction, InsertTeacherReduction, SchoolYear } from "./schema";
+import { REDUCTION_TYPES, type ReductionType } from "./lehrerplanstellen";
+
+/**
+ * Ermäßigungsstunden ledger
+ *
+ * Per-teacher reduction entries with a validity period, optionally limited to one semester,
+ * and the teaching capacity derived from them per semester of a school year.
+ *
+ * Features:
+ * - Semester periods of a school year (1. HJ until 31.01., 2. HJ from 01.02.)
+ * - Altersermäßigung computed from dateOfBirth under the NRW age thresholds
+ * - Capacity per semester: maxHours minus all entries active in that semester
+ * - Flat reductionHours (average of both semesters) for code that reads teachers.reductionHours
+ * - Conversion of the old flat reductionHours into ledger entries
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export const teacherCapacityQuerySchema = z.object({
+  schoolYearId: z.string().optional(),
+  teacherId: z.string().optional(),
+});
+
+export type Semester = "1" | "2";
+
+export interface SemesterPeriod {
+  start: string; // YYYY-MM-DD
+  end: string;   // YYYY-MM-DD
+}
+
+export interface AgeReduction {
+  hours: number;
+  age: number | null;              // Alter zu Beginn des Halbjahres
+  source: "computed" | "ledger" | "none";
+}
+
+export interface SemesterCapacity {
+  semester: Semester;
+  period: SemesterPeriod;
+  maxHours: number;
+  reductions: Record<ReductionType, number>;
+  ageReduction: AgeReduction;
+  totalReduction: number;
+  availableHours: number;
+  entryIds: string[];              // ledger entries active in this semester
+}
+
+export interface TeacherCapacity {
+  teacherId: string;
+  schoolYearId: string;
+  semesters: Record<Semester, SemesterCapacity>;
+  averageAvailableHours: number;
+}
+
+// ===== CONSTANTS =====
+
+/**
+ * Pflichtstunden einer Vollzeitstelle; basis of the Beschäftigungsumfang
+ */
+export const FULL_TIME_HOURS = 28;
+
+/**
+ * Altersermäßigung (NRW), first matching rule wins:
+ * - 2,0 Stunden nach Vollendung des 60. Lebensjahres bei mindestens 75% Beschäftigungsumfang
+ * - 1,5 Stunden nach Vollendung des 60. Lebensjahres bei mindestens 50% Beschäftigungsumfang
+ * - 0,5 Stunden nach Vollendung des 55. Lebensjahres bei mindestens 50% Beschäftigungsumfang
+ */
+export const AGE_REDUCTION_RULES: { minAge: number; minEmployment: number; hours: number }[] = [
+  { minAge: 60, minEmployment: 0.75, hours: 2 },
+  { minAge: 60, minEmployment: 0.5, hours: 1.5 },
+  { minAge: 55, minEmployment: 0.5, hours: 0.5 },
+];
+
+export const SEMESTER_LABELS: Record<Semester, string> = {
+  "1": "1. Halbjahr",
+  "2": "2. Halbjahr",
+};
+
+const LEGACY_NOTE = "Übernommen aus den bisherigen Ermäßigungsstunden";
+
+// ===== HELPER FUNCTIONS =====
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toNumber(value: unknown): number {
+  const numeric = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+function emptyReductions(): Record<ReductionType, number> {
+  return { AE: 0, BA: 0, SL: 0, SO: 0, LK: 0, SB: 0, VG: 0 };
+}
+
+/**
+ * 1. Halbjahr from the school year's start until 31.01., 2. Halbjahr from 01.02. until its end
+ */
+export function getSemesterPeriods(schoolYear: Pick<SchoolYear, "startDate" | "endDate">): Record<Semester, SemesterPeriod> {
+  const endYear = schoolYear.endDate.slice(0, 4);
+  return {
+    "1": { start: schoolYear.startDate, end: `${endYear}-01-31` },
+    "2": { start: `${endYear}-02-01`, end: schoolYear.endDate },
+  };
+}
+
+/**
+ * Completed years of age on the given date (YYYY-MM-DD)
+ */
+export function getAgeOn(dateOfBirth: string, date: string): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split("-").map(Number);
+  const [year, month, day] = date.split("-").map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+}
+
+/**
+ * Beschäftigungsumfang as a fraction of a full-time position
+ */
+export function getEmploymentRatio(teacher: Pick<Teacher, "maxHours">): number {
+  return toNumber(teacher.maxHours) / FULL_TIME_HOURS;
+}
+
+/**
+ * Altersermäßigung for a teacher's age at the reference date. Birthdays take effect
+ * with the next semester, because the age is taken at the start of the semester.
+ */
+export function calculateAgeReduction(dateOfBirth: string | null | undefined, referenceDate: string, employmentRatio: number): { hours: number; age: number | null } {
+  if (!dateOfBirth || !/^\d{4}-\d{2}-\d{2}/.test(dateOfBirth)) return { hours: 0, age: null };
+  const age = getAgeOn(dateOfBirth.slice(0, 10), referenceDate);
+  const rule = AGE_REDUCTION_RULES.find(r => age >= r.minAge && employmentRatio >= r.minEmployment);
+  return { hours: rule?.hours ?? 0, age };
+}
+
+/**
+ * Whether a ledger entry applies to the given semester: the semester matches (or is unset)
+ * and the validity period overlaps the semester
+ */
+export function isReductionActive(entry: Pick<TeacherReduction, "startDate" | "endDate" | "semester">, semester: Semester, period: SemesterPeriod): boolean {
+  if (entry.semester && entry.semester !== semester) return false;
+  if (entry.startDate > period.end) return false;
+  return !entry.endDate || entry.endDate >= period.start;
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Capacity of one semester. Ledger AE entries replace the computed Altersermäßigung
+ * (e.g. for a differing Bescheid); otherwise it is derived from dateOfBirth.
+ */
+export function calculateSemesterCapacity(
+  teacher: Teacher,
+  entries: TeacherReduction[],
+  semester: Semester,
+  period: SemesterPeriod
+): SemesterCapacity {
+  const maxHours = toNumber(teacher.maxHours);
+  const reductions = emptyReductions();
+  const active = entries.filter(entry => entry.teacherId === teacher.id && isReductionActive(entry, semester, period));
+
+  active.forEach(entry => {
+    const type = entry.type as ReductionType;
+    if (type in reductions) {
+      reductions[type] += toNumber(entry.hours);
+    }
+  });
+
+  let ageReduction: AgeReduction;
+  const computed = calculateAgeReduction(teacher.dateOfBirth, period.start, getEmploymentRatio(teacher));
+  if (active.some(entry => entry.type === "AE")) {
+    ageReduction = { hours: reductions.AE, age: computed.age, source: "ledger" };
+  } else {
+    reductions.AE = computed.hours;
+    ageReduction = { ...computed, source: computed.hours > 0 ? "computed" : "none" };
+  }
+
+  const totalReduction = REDUCTION_TYPES.reduce((sum, type) => sum + reductions[type], 0);
+
+  return {
+    semester,
+    period,
+    maxHours,
+    reductions,
+    ageReduction,
+    totalReduction: round(totalReduction),
+    availableHours: round(Math.max(0, maxHours - totalReduction)),
+    entryIds: active.map(entry => entry.id),
+  };
+}
+
+export function calculateTeacherCapacity(
+  teacher: Teacher,
+  entries: TeacherReduction[],
+  schoolYear: Pick<SchoolYear, "id" | "startDate" | "endDate">
+): TeacherCapacity {
+  const periods = getSemesterPeriods(schoolYear);
+  const semesters: Record<Semester, SemesterCapacity> = {
+    "1": calculateSemesterCapacity(teacher, entries, "1", periods["1"]),
+    "2": calculateSemesterCapacity(teacher, entries, "2", periods["2"]),
+  };
+  return {
+    teacherId: teacher.id,
+    schoolYearId: schoolYear.id,
+    semesters,
+    averageAvailableHours: round((semesters["1"].availableHours + semesters["2"].availableHours) / 2),
+  };
+}
+
+/**
+ * Flat reductionHours for teachers.reductionHours: per type the average of both semesters,
+ * so maxHours minus their sum equals the average available capacity
+ */
+export function toReductionHours(capacity: TeacherCapacity): Record<ReductionType, number> {
+  const result = emptyReductions();
+  REDUCTION_TYPES.forEach(type => {
+    result[type] = round((capacity.semesters["1"].reductions[type] + capacity.semesters["2"].reductions[type]) / 2);
+  });
+  return result;
+}
+
+/**
+ * Ledger entries for the old flat reductionHours of a teacher, valid from the start of the
+ * school year. AE is only taken over when it cannot be computed from dateOfBirth.
+ */
+export function legacyReductionEntries(teacher: Teacher, schoolYear: Pick<SchoolYear, "startDate">): InsertTeacherReduction[] {
+  const source = (teacher.reductionHours || {}) as Record<string, unknown>;
+  return REDUCTION_TYPES
+    .filter(type => toNumber(source[type]) > 0 && (type !== "AE" || !teacher.dateOfBirth))
+    .map(type => ({
+      teacherId: teacher.id,
+      type,
+      hours: toNumber(source[type]).toString(),
+      startDate: schoolYear.startDate,
+      endDate: null,
+      semester: null,
+      note: LEGACY_NOTE,
+    }));
+}
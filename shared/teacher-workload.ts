@@ -0,0 +1,174 @@
+import { z } from "zod";
+import type { Teacher, Subject, Class, Assignment, TeamTeachingSetting } from "./schema";
+import { PARALLEL_GROUPS } from "./parallel-subjects";
+import { createTeamTeachingCreditResolver, getCreditedHours } from "./team-teaching";
+
+/**
+ * Teacher workload from assignments
+ *
+ * Derives a teacher's currentHours per semester from the assignments table instead of
+ * trusting the stored teachers.currentHours, and finds teachers where both disagree.
+ *
+ * Features:
+ * - Duplicate rows (e.g. team teaching and regular row for the same slot) keep the larger value
+ * - Differenzierung courses count once per grade, even if assigned to several classes
+ * - Team teaching credited per group (full, equal split or custom shares), optionally overridden for all groups
+ * - Stored vs. computed currentHours report for the consistency check
+ */
+
+// ===== TYPES AND SCHEMAS =====
+
+export type TeamTeachingCredit = "full" | "split";
+
+export const teacherHoursQuerySchema = z.object({
+  teamTeaching: z.enum(["full", "split"]).optional(),
+});
+
+export const reconcileTeacherHoursSchema = z.object({
+  teacherIds: z.array(z.string()).optional(),
+  teamTeaching: z.enum(["full", "split"]).optional(),
+});
+
+export interface SemesterHours {
+  "1": number;
+  "2": number;
+}
+
+export interface TeacherHours {
+  teacherId: string;
+  semesterHours: SemesterHours;
+  averageHours: number; // wöchentliche Belastung = Mittel beider Halbjahre
+}
+
+export interface TeacherHoursMismatch {
+  teacherId: string;
+  shortName: string;
+  name: string;
+  storedHours: number;
+  computedHours: number;
+  semesterHours: SemesterHours;
+  difference: number;   // computed - stored
+}
+
+export interface WorkloadOptions {
+  teamTeaching?: TeamTeachingCredit; // overrides the per-group setting when given
+  teamTeachingSettings?: TeamTeachingSetting[];
+}
+
+// ===== CONSTANTS =====
+
+/**
+ * Differences below this value are rounding noise (currentHours is stored with one decimal)
+ */
+export const CURRENT_HOURS_TOLERANCE = 0.05;
+
+// ===== HELPER FUNCTIONS =====
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toNumber(value: unknown): number {
+  const numeric = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Assigned hours per teacher and subject and semester.
+ * Duplicate rows keep the larger value; Differenzierung courses count once per grade.
+ */
+export function aggregateAssignedHours(
+  assignments: Assignment[],
+  subjects: Subject[],
+  classes: Class[],
+  options: WorkloadOptions = {}
+): Map<string, Map<string, SemesterHours>> {
+  const subjectById = new Map(subjects.map(s => [s.id, s]));
+  const classById = new Map(classes.map(c => [c.id, c]));
+  const resolveCredit = createTeamTeachingCreditResolver(assignments, {
+    override: options.teamTeaching,
+    settings: options.teamTeachingSettings,
+  });
+  const rows = new Map<string, { teacherId: string; subjectId: string; semester: "1" | "2"; hours: number }>();
+
+  assignments.forEach(assignment => {
+    const hours = getCreditedHours(assignment, resolveCredit);
+    if (hours <= 0) return;
+    const semester = assignment.semester === "2" ? "2" : "1";
+    const subject = subjectById.get(assignment.subjectId);
+    const isGradeCourse = subject?.parallelGroup === PARALLEL_GROUPS.Differenzierung.id;
+    const grade = classById.get(assignment.classId)?.grade ?? "na";
+    const key = isGradeCourse
+      ? `diff|${assignment.teacherId}|${assignment.subjectId}|${semester}|${grade}`
+      : `${assignment.teacherId}|${assignment.classId}|${assignment.subjectId}|${semester}`;
+
+    const existing = rows.get(key);
+    if (!existing || hours > existing.hours) {
+      rows.set(key, { teacherId: assignment.teacherId, subjectId: assignment.subjectId, semester, hours });
+    }
+  });
+
+  const result = new Map<string, Map<string, SemesterHours>>();
+  rows.forEach(row => {
+    const bySubject = result.get(row.teacherId) || new Map<string, SemesterHours>();
+    const hours = bySubject.get(row.subjectId) || { "1": 0, "2": 0 };
+    hours[row.semester] += row.hours;
+    bySubject.set(row.subjectId, hours);
+    result.set(row.teacherId, bySubject);
+  });
+  return result;
+}
+
+/**
+ * currentHours per teacher and semester, computed from the assignments
+ */
+export function calculateTeacherHours(
+  assignments: Assignment[],
+  subjects: Subject[],
+  classes: Class[],
+  options: WorkloadOptions = {}
+): Map<string, TeacherHours> {
+  const result = new Map<string, TeacherHours>();
+  aggregateAssignedHours(assignments, subjects, classes, options).forEach((bySubject, teacherId) => {
+    const semesterHours: SemesterHours = { "1": 0, "2": 0 };
+    bySubject.forEach(hours => {
+      semesterHours["1"] += hours["1"];
+      semesterHours["2"] += hours["2"];
+    });
+    result.set(teacherId, {
+      teacherId,
+      semesterHours: { "1": round(semesterHours["1"]), "2": round(semesterHours["2"]) },
+      averageHours: round((semesterHours["1"] + semesterHours["2"]) / 2),
+    });
+  });
+  return result;
+}
+
+/**
+ * Teachers whose stored currentHours differ from the hours computed from their assignments
+ */
+export function findCurrentHoursMismatches(
+  teachers: Teacher[],
+  teacherHours: Map<string, TeacherHours>
+): TeacherHoursMismatch[] {
+  return teachers
+    .map(teacher => {
+      const computed = teacherHours.get(teacher.id);
+      const storedHours = toNumber(teacher.currentHours);
+      const computedHours = computed?.averageHours ?? 0;
+      return {
+        teacherId: teacher.id,
+        shortName: teacher.shortName,
+        name: `${teacher.firstName} ${teacher.lastName}`.trim(),
+        storedHours,
+        computedHours,
+        semesterHours: computed?.semesterHours ?? { "1": 0, "2": 0 },
+        difference: round(computedHours - storedHours),
+      };
+    })
+    .filter(mismatch => Math.abs(mismatch.difference) >= CURRENT_HOURS_TOLERANCE)
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+}
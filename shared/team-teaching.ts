@@ -0,0 +1,137 @@
+import type { Assignment, TeamTeachingCreditMode, TeamTeachingSetting } from "./schema";
+
+/**
+ * Team-teaching crediting
+ *
+ * How many hours of a team-taught lesson count towards each teacher's workload.
+ * Every teacher of a group has their own assignment row with the full hoursPerWeek;
+ * the group's setting decides which part of it is credited.
+ *
+ * Features:
+ * - full: every teacher is credited the full hours (default for groups without a setting)
+ * - split: the hours are divided equally among the group's teachers
+ * - custom: percentage share per teacher, covering exactly the group's teachers and adding up to 100 %
+ * - Custom shares that no longer match the group fall back to an equal split
+ */
+
+// ===== TYPES =====
+
+export interface TeamTeachingCreditOptions {
+  /** Overrides the per-group setting for every group (e.g. for a what-if view) */
+  override?: "full" | "split";
+  settings?: TeamTeachingSetting[];
+}
+
+export type TeamTeachingCreditResolver = (assignment: Assignment) => number;
+
+// ===== CONSTANTS =====
+
+export const TEAM_TEACHING_CREDIT_LABELS: Record<TeamTeachingCreditMode, string> = {
+  full: "Volle Stunden je Lehrkraft",
+  split: "Gleichmäßig aufteilen",
+  custom: "Individuelle Anteile",
+};
+
+/**
+ * Allowed deviation of the custom shares' sum from 100 %
+ */
+const SHARE_TOLERANCE = 0.01;
+
+// ===== HELPER FUNCTIONS =====
+
+function toNumber(value: unknown): number {
+  const numeric = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+function groupKey(teamTeachingId: string, semester: string): string {
+  return `${teamTeachingId}|${semester}`;
+}
+
+/**
+ * Distinct teachers per team-teaching group and semester
+ */
+function getGroupMembers(assignments: Assignment[]): Map<string, Set<string>> {
+  const members = new Map<string, Set<string>>();
+  assignments.forEach(assignment => {
+    if (!assignment.teamTeachingId) return;
+    const key = groupKey(assignment.teamTeachingId, assignment.semester);
+    const teacherIds = members.get(key) || new Set<string>();
+    teacherIds.add(assignment.teacherId);
+    members.set(key, teacherIds);
+  });
+  return members;
+}
+
+// ===== VALIDATION =====
+
+/**
+ * Problems with custom shares for the given group members; empty if the shares are usable
+ */
+export function validateTeamTeachingShares(shares: Record<string, number>, teacherIds: string[]): string[] {
+  const errors: string[] = [];
+  const members = new Set(teacherIds);
+  const missing = teacherIds.filter(teacherId => shares[teacherId] === undefined);
+  const unknown = Object.keys(shares).filter(teacherId => !members.has(teacherId));
+  const total = Object.values(shares).reduce((sum, share) => sum + toNumber(share), 0);
+
+  if (missing.length > 0) {
+    errors.push(`Anteil fehlt für ${missing.length} Lehrkraft/Lehrkräfte der Gruppe`);
+  }
+  if (unknown.length > 0) {
+    errors.push(`Anteile für ${unknown.length} Lehrkraft/Lehrkräfte, die nicht zur Gruppe gehören`);
+  }
+  if (Math.abs(total - 100) > SHARE_TOLERANCE) {
+    errors.push(`Anteile ergeben ${Math.round(total * 100) / 100} % statt 100 %`);
+  }
+  return errors;
+}
+
+// ===== CALCULATION =====
+
+/**
+ * Credited fraction (0-1) of a team-taught lesson for one teacher
+ */
+export function getTeamTeachingCreditFactor(
+  mode: TeamTeachingCreditMode,
+  shares: Record<string, number>,
+  teacherId: string,
+  teacherIds: string[]
+): number {
+  const teamSize = Math.max(1, teacherIds.length);
+  switch (mode) {
+    case "split":
+      return 1 / teamSize;
+    case "custom":
+      if (validateTeamTeachingShares(shares, teacherIds).length > 0) return 1 / teamSize;
+      return toNumber(shares[teacherId]) / 100;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Credited fraction per assignment row; 1 for rows outside of team teaching
+ */
+export function createTeamTeachingCreditResolver(
+  assignments: Assignment[],
+  options: TeamTeachingCreditOptions = {}
+): TeamTeachingCreditResolver {
+  const members = getGroupMembers(assignments);
+  const settingById = new Map((options.settings ?? []).map(setting => [setting.teamTeachingId, setting]));
+
+  return (assignment: Assignment) => {
+    if (!assignment.teamTeachingId) return 1;
+    const setting = settingById.get(assignment.teamTeachingId);
+    const mode = options.override ?? (setting?.creditMode as TeamTeachingCreditMode | undefined) ?? "full";
+    const teacherIds = Array.from(members.get(groupKey(assignment.teamTeachingId, assignment.semester)) ?? [assignment.teacherId]);
+    return getTeamTeachingCreditFactor(mode, setting?.shares ?? {}, assignment.teacherId, teacherIds);
+  };
+}
+
+/**
+ * Hours of an assignment that count towards its teacher's workload
+ */
+export function getCreditedHours(assignment: Assignment, resolveCredit: TeamTeachingCreditResolver): number {
+  return toNumber(assignment.hoursPerWeek) * resolveCredit(assignment);
+}